@@ -48,6 +48,15 @@ itempane-quick-chat-new-conversation-dont-remind = Do not remind me again
 itempane-quick-chat-new-conversation-confirm = New conversation
 itempane-quick-chat-new-conversation-created = Started a new conversation
 itempane-quick-chat-new-conversation-abort = Stopped current quick chat for a new conversation
+itempane-quick-chat-tools-on = Library tools on: the model can search your library, read AI summaries and attachment text. Click to turn off for this conversation
+itempane-quick-chat-tools-off = Library tools off for this conversation. Click to let the model look things up in your library
+itempane-quick-chat-tool-search-items = Searching library
+itempane-quick-chat-tool-get-item-summary = Reading AI summary
+itempane-quick-chat-tool-get-attachment-text = Reading full text
+itempane-quick-chat-tool-list-collection-items = Listing collection
+itempane-quick-chat-tool-running = 🔧 { $tool } { $detail }…
+itempane-quick-chat-tool-done = ✓ { $tool } { $detail }
+itempane-quick-chat-tool-failed = ⚠ { $tool } { $detail } failed
 itempane-related-toolbar-title = Comparison context
 itempane-related-mode-summary = AI Summary
 itempane-related-mode-fulltext = Full Text
@@ -120,6 +129,12 @@ itempane-note-personalize = Customize
 itempane-copy-markdown = Copy as Markdown
 
 itempane-note-selector-label = Note { $current }/{ $total } ▾
+itempane-note-compare-label = Comparing { $count } ▾
+itempane-note-compare-tooltip = Compare summaries side by side
+itempane-note-compare-exit-tooltip = Exit comparison
+itempane-note-compare-need-two = Keep at least two summaries in the comparison
+itempane-note-history-tooltip = Version history
+itempane-note-history-exit-tooltip = Exit version history
 
 ## Standalone HTML viewer pages
 static-mindmap-page-title = AI Butler Mind Map
@@ -2,6 +2,7 @@ menuitem-generateSummary = Generate AI Summary
 menuitem-multiRoundReanalyze = Generate AI Deep Reading
 menuitem-imageSummary = Generate One-Image Summary
 menuitem-mindmap = Generate Mind Map
+menuitem-figureExplain = Explain Figures
 menuitem-chatWithAI = AI Butler - Follow-up Questions
 error-noItemsSelected = Sorry, you haven't selected any literature to analyze.
 error-noApiKey = Sorry, the API key is not configured.
@@ -54,11 +55,58 @@ dashboard-time-hours = { $count } hours ago
 dashboard-time-days = { $count } days ago
 dashboard-auto-scan-started = ✅ Auto scan started
 dashboard-auto-scan-paused = ⏸️ Auto scan paused
+auto-scan-budget-paused = Auto scan skipped new items: { $reason }
 dashboard-completed-cleared = 🗑️ Completed tasks cleared
 dashboard-feature-in-development = Feature in development: { $action }
 dashboard-task-completed = ✅ Completed: { $title }
 dashboard-task-failed = ❌ Processing failed: { $title }
 dashboard-unknown-error = Unknown error
+dashboard-usage-title = 💰 Token Usage & Cost
+dashboard-usage-edit-prices = Edit Prices
+dashboard-usage-set-currency = Currency
+dashboard-usage-clear = Clear Ledger
+dashboard-usage-today-cost = Today's Spend
+dashboard-usage-month-cost = This Month's Spend
+dashboard-usage-today-tokens = Today's Tokens
+dashboard-usage-month-tokens = This Month's Tokens
+dashboard-usage-empty = No usage recorded this month
+dashboard-usage-row-value = { $tokens } tokens · { $cost }
+dashboard-usage-month-requests = { $count } requests this month
+dashboard-usage-unpriced = { $tokens } tokens have no price configured
+dashboard-usage-estimated = { $count } requests estimated from text length
+dashboard-usage-by-endpoint = By Endpoint / Model (this month)
+dashboard-usage-by-task = By Task Type (this month)
+dashboard-usage-by-collection = By Collection (this month)
+dashboard-usage-task-chat = 💬 Chat
+dashboard-usage-task-custom = 🧩 Other
+dashboard-usage-price-title = Model Price Table
+dashboard-usage-price-prompt = Prices per 1M tokens as JSON, e.g. {"{"}"gpt-4o": {"{"}"input": 2.5, "output": 10{"}"}, "claude-*": {"{"}"input": 3, "output": 15{"}"}{"}"}. A trailing * matches a model prefix.
+dashboard-usage-price-saved = ✅ Price table saved
+dashboard-usage-price-invalid = ❌ Invalid price table: { $message }
+dashboard-usage-currency-title = Currency
+dashboard-usage-currency-prompt = Currency code used to display costs (e.g. USD, CNY):
+dashboard-usage-clear-title = Clear Usage Ledger
+dashboard-usage-clear-confirm = Clear all recorded token usage? This cannot be undone.
+dashboard-usage-edit-budget = Budgets
+dashboard-usage-budget-title = Usage budgets
+dashboard-usage-budget-prompt = Enter budgets as JSON. Keys: dailyTokens, monthlyTokens, dailyCost, monthlyCost. Endpoints can be keyed by ID or name, e.g. {"{"}"global": {"{"}"dailyCost": 5{"}"}, "endpoints": {"{"}"DeepSeek": {"{"}"monthlyTokens": 2000000{"}"}{"}"}{"}"}
+dashboard-usage-budget-saved = Budgets saved
+dashboard-usage-budget-invalid = Invalid budget settings: { $message }
+dashboard-usage-budget-blocked = ⛔ { $reason }; queued tasks are paused
+usage-price-table-error-not-object = The price table must be a JSON object
+usage-price-table-error-invalid-price = Invalid price for model "{ $model }": input and output must be non-negative numbers
+usage-budget-error-not-object = Budget settings must be a JSON object
+usage-budget-error-invalid-limit = Invalid budget limit "{ $key }": must be a non-negative number
+usage-budget-scope-global = Global budget
+usage-budget-scope-endpoint = Budget for endpoint "{ $name }"
+usage-budget-period-daily = daily
+usage-budget-period-monthly = monthly
+usage-budget-tokens-value = { $count } tokens
+usage-budget-exceeded = { $scope } exceeded ({ $period }): { $used } used of { $limit }
+queue-schedule-error-invalid = Invalid time window "{ $entry }". Use e.g. "mon-fri 22:00-07:00; sat,sun"
+queue-schedule-reason-quiet-hours = Quiet hours
+queue-schedule-reason-outside-window = Outside this task type's run window
+queue-schedule-next-run = { $reason }; next run at { $time }
 
 # Collection note cleanup / export dialogs
 collection-error-no-collection = Please select a collection first
@@ -153,6 +201,7 @@ task-error-select-regular-item = Please select a regular paper item
 task-queue-add-failed = ❌ Failed to add task: { $error }
 image-summary-queue-added = 🖼️ One-image summary task added to the queue
 mindmap-queue-added = 🧠 Mind map task added to the queue
+figure-explain-queue-added = 🖼️ Figure explanation task added to the queue
 literature-review-open-failed = Failed to open literature review: { $error }
 table-fill-disabled = Table filling is disabled in settings
 table-fill-error-no-items = Please select papers for table filling first
@@ -210,6 +259,7 @@ task-queue-status-processing = Processing
 task-queue-status-pending = Pending
 task-queue-status-failed = Failed
 task-queue-status-completed = Completed
+task-queue-status-paused = Budget paused
 task-queue-stage-waiting = Waiting
 task-queue-stage-priority-waiting = Priority waiting
 task-queue-tooltip-current-stage = Current stage: { $stage }
@@ -223,6 +273,7 @@ task-queue-status-badge-processing = ⚙️ Processing
 task-queue-status-badge-completed = ✅ Completed
 task-queue-status-badge-failed = ❌ Failed
 task-queue-status-badge-priority = 🔥 Priority
+task-queue-status-badge-paused = ⏸️ Budget paused
 task-queue-deep-read-integrity-probe-failed = Could not confirm whether AI Deep Reading is complete ({ $reason }); completion was cancelled
 task-queue-detail-task-completed = Task completed
 task-queue-search-placeholder = Search titles...
@@ -231,11 +282,13 @@ task-queue-type-summary = 📝 AI Summary
 task-queue-type-deep-read = 📚 AI Deep Reading
 task-queue-type-image-summary = 🖼️ One-Image Summary
 task-queue-type-mindmap = 🧠 Mind Map
+task-queue-type-figure-explain = 🖼️ Figure Explanation
 task-queue-type-table-fill = 📊 Table Fill
 task-queue-type-review = 📝 Review
 task-queue-type-targeted-question = 🎯 Targeted Question
 task-queue-empty = No tasks
 task-queue-locate-tooltip = Double-click to locate the corresponding paper
+task-queue-drag-tooltip = Drag onto another queued task to reorder; double-click to locate the paper
 task-queue-created-at = Created at
 task-queue-completed-at = Completed at
 task-queue-error-label = Error
@@ -255,6 +308,9 @@ task-queue-action-complete-deep-read = 🔁 Complete Deep Reading
 task-queue-complete-deep-read-tooltip = Recheck the AI deep-reading note and rerun rounds that are still waiting, generating, or failed
 task-queue-action-checking = ⏳ Checking
 task-queue-action-prioritize = ⚡ Prioritize
+task-queue-action-run-now = ▶️ Run now
+task-queue-priority-level-option = Priority { $level }
+task-queue-priority-level-tooltip = Priority level: higher levels are dispatched first
 task-queue-copy-failed = Copy failed. You can select the error text manually.
 task-queue-error-details-copied = Error details copied
 # Setup wizard
@@ -272,6 +328,8 @@ setup-wizard-fetching-models-status = Fetching model list...
 setup-wizard-model-label = Model *
 setup-wizard-progress-title = One-click Setup
 setup-wizard-missing-api-key = Enter { $provider } API Key first
+setup-wizard-missing-api-url = Enter the { $provider } API URL first
+setup-wizard-missing-model = Enter a model or choose one from the list first
 setup-wizard-setting-item = Setting
 setup-wizard-current-setting = Current
 setup-wizard-new-setting = New Value
@@ -366,6 +424,8 @@ note-generator-deep-read-plan-complete = AI Deep Reading plan completed, { $tota
 main-window-tab-dashboard = Dashboard
 main-window-tab-summary = AI Summary
 main-window-tab-tasks = Task Queue
+main-window-tab-chat = Ask Library
+main-window-tab-search = Semantic Search
 main-window-tab-settings = Quick Settings
 onboarding-action-close-ai-butler-continue = Close AI Butler and Continue
 onboarding-action-pdf-dropped-continue = I Dropped in a PDF / Continue
@@ -386,6 +446,9 @@ llm-endpoint-provider-google = Google Gemini
 llm-endpoint-provider-anthropic = Anthropic Claude
 llm-endpoint-provider-openrouter = OpenRouter
 llm-endpoint-provider-ollama = Ollama
+llm-endpoint-provider-azure-openai = Azure OpenAI
+llm-endpoint-provider-replay = Replay (offline fixture)
+llm-endpoint-provider-custom-http = Custom HTTP (declarative)
 llm-endpoint-provider-openai = OpenAI (Responses API)
 llm-endpoint-provider-volcanoark = Volcano Ark
 progress-llm-preparing = Preparing model input
@@ -393,6 +456,7 @@ progress-llm-uploading = Calling LLM (uploading request)
 progress-llm-streaming = Calling LLM (receiving response)
 progress-llm-waiting = Calling LLM (waiting for response)
 progress-llm-complete = LLM response complete
+progress-llm-chunk = Summarizing long document in parts
 progress-mineru-cache = Reusing MinerU cache
 progress-mineru-preparing = Preparing MinerU
 progress-mineru-upload-url = Getting MinerU upload URL
@@ -429,8 +493,13 @@ progress-llm-streaming-message = Calling LLM (receiving response)
 progress-llm-first-chunk-detail = Received the first model response chunk; continuing to receive content
 progress-llm-waiting-message = Calling LLM (waiting for response)
 progress-llm-waiting-detail = Request sent; waiting for the first chunk or complete response
+progress-llm-rate-limited = Waiting for rate limit
+progress-llm-rate-limited-quota = This endpoint's per-minute quota is used up; waiting { $seconds } s
+progress-llm-rate-limited-retry-after = The API asked to retry later (HTTP 429); waiting { $seconds } s
 progress-llm-complete-message = LLM response complete
 progress-llm-complete-detail = Received the complete response, about { $count } characters
+progress-llm-chunk-message = Summarized part { $done }/{ $total } of the long document
+progress-llm-chunk-detail = Sections: { $title }
 progress-mineru-pdf-path-detail = PDF path: { $path }
 progress-mineru-model-detail = Model version: { $model }
 progress-mineru-upload-size-detail = Uploading PDF, about { $size } MB
@@ -465,6 +534,11 @@ task-progress-artifact-ready-completed = AI artifact already complete; marked co
 task-stage-waiting-start = Waiting to start
 task-stage-initializing = Initializing
 task-stage-disabled = Disabled
+task-stage-budget-paused = Paused: budget limit reached
+task-stage-scheduled = Waiting for run window
+task-stage-dependency-waiting = Waiting for prerequisite
+task-stage-dependency-waiting-detail = Waiting for: { $titles }
+task-error-dependency-failed = Prerequisite task failed: { $titles }
 task-detail-non-paper-skipped = Non-paper item skipped
 task-title-review = Review { $collection }
 task-title-targeted-question = Targeted question { $question }
@@ -624,6 +698,19 @@ setup-preset-deepseek-step-key-title = Create an API Key
 setup-preset-deepseek-step-key-detail = Open the API Keys page, create a new key, and copy it immediately; keys are usually shown only once.
 setup-preset-deepseek-step-paste-title = Paste the API Key
 setup-preset-deepseek-step-paste-detail = Paste the key you just copied into the input below, then continue to the next step.
+setup-preset-azure-description = For institutions that provide models through an Azure subscription. Uses your own resource endpoint and deployments.
+setup-preset-azure-guide-title = Azure OpenAI Setup Guide
+setup-preset-azure-guide-subtitle = Enter the resource endpoint and key from the Azure portal, then pick one of your deployments.
+setup-preset-azure-api-key-placeholder = Paste KEY 1 or KEY 2 of the Azure OpenAI resource
+setup-preset-azure-api-url-placeholder = Resource endpoint, e.g. https://my-resource.openai.azure.com
+setup-preset-azure-deployment-label = Deployment name *
+setup-preset-azure-success = ✅ Azure OpenAI settings applied. You can start using it now.
+setup-preset-azure-step-resource-title = Open your Azure OpenAI resource
+setup-preset-azure-step-resource-detail = In the Azure portal, open the resource and go to Keys and Endpoint. Copy the endpoint and one of the keys.
+setup-preset-azure-step-deploy-title = Check your deployment
+setup-preset-azure-step-deploy-detail = Under Deployments, note the deployment name of the model you want to use. Requests use the deployment name, not the model name.
+setup-preset-azure-step-paste-title = Paste the endpoint and key
+setup-preset-azure-step-paste-detail = Paste the endpoint and key below, then fetch your deployments or enter the deployment name.
 task-queue-error-deep-read-item-not-found = Could not find the paper item for this AI Deep Reading task
 # Provider runtime errors
 provider-test-success-detail = Mode: { $mode }
@@ -648,7 +735,13 @@ provider-error-api-key-missing = API key is not configured
 provider-error-api-url-missing-named = { $provider } API URL is not configured
 provider-error-api-key-missing-named = { $provider } API key is not configured
 provider-error-http-request-failed = HTTP { $status }: request failed
+provider-error-replay-missing = No recorded response for this { $method } request (hash { $hash }) in { $path }
+provider-error-replay-closest = The closest recorded request differs in: { $fields }
+provider-replay-connection-success = Fixture loaded: { $count } recorded responses in { $path }
 provider-error-ollama-pdf-base64-unsupported = The native Ollama API does not support PDF Base64 input. Switch PDF processing to Text Extraction or MinerU before using Ollama.
+provider-error-http-pdf-base64-unsupported = Custom HTTP endpoints only send text. Switch PDF processing to Text Extraction or MinerU for this endpoint.
+provider-error-http-template-invalid = The request body template is not valid JSON: { $reason }
+provider-error-http-response-path-empty = No text found at response path "{ $path }". Check the response paths in the endpoint settings.
 provider-error-no-pdf-files = No PDF files to process
 provider-error-no-pdf-processed = No PDF files were processed successfully
 provider-error-request-failed = { $provider } request failed
@@ -666,12 +759,14 @@ llm-error-endpoint-not-found = LLM endpoint not found: { $endpointId }
 llm-error-endpoint-disabled = LLM endpoint is disabled: { $endpoint }
 llm-error-unknown-provider-type = Unknown provider type for endpoint “{ $endpoint }”: { $provider }. Available: { $available }
 llm-error-provider-multi-file-unsupported = Provider { $provider } does not support multi-file generation
+llm-error-provider-images-unsupported = Provider { $provider } does not support image input
 llm-error-chat-multi-file-unsupported = Chat requests do not support multi-file input
 llm-note-metadata-error-block-not-found = LLM note block not found: { $blockId }
 llm-warning-pdf-provider-limit = The number of PDF attachments exceeds the provider limit, so only the first { $count } were sent
 llm-error-multifile-unsupported = Provider { $provider } does not support multi-file summary generation
 llm-error-api-keys-exhausted = All API keys have been exhausted
 llm-error-all-endpoints-failed = All configured LLM endpoints failed.
+llm-error-structured-output-invalid = The model response does not match the required structure: { $errors }
 llm-error-no-pdf-content = No available PDF content
 llm-error-missing-uploadable-pdf = The current input has no uploadable PDF/Base64 content.
 llm-error-missing-text-or-pdf = The current input has no usable text or uploadable PDF/Base64 content
@@ -902,6 +997,21 @@ mindmap-debug-empty-content = Empty content
 mindmap-debug-invalid-format = Invalid format
 mindmap-error-invalid-format = The LLM response does not match the required mind map format (it must contain a list starting with # or -). { $details }
 mindmap-note-title = AI Butler Mind Map - { $title }
+figure-explain-note-title = AI Butler Figure Explanations - { $title }
+figure-explain-progress-extracting = Extracting figures...
+figure-explain-progress-explaining = Explaining figure { $current } of { $total }...
+figure-explain-progress-saving = Saving figure explanation note...
+figure-explain-progress-completed = Figure explanation complete!
+figure-explain-progress-failed = Figure explanation failed: { $message }
+figure-explain-error-no-source = No figure images available: parse the paper with MinerU first, or set a page render program in the API settings
+figure-explain-error-no-mineru = No saved MinerU result with figure images was found for this paper
+figure-explain-error-no-pdf = No PDF attachment found to render
+figure-explain-error-render-empty = The page render program produced no images
+figure-explain-error-no-figures = No figures were explained
+figure-explain-figure-heading = Figure { $index }
+figure-explain-page-heading = Figures on page { $page }
+figure-explain-page-link = Open page { $page } in the PDF
+figure-explain-figure-failed = Explanation failed: { $message }
 image-summary-progress-extracting = Extracting paper content...
 image-summary-error-pdf-too-large = PDF file is too large ({ $size } MB), exceeding the configured threshold of { $max } MB
 image-summary-progress-summarizing = Generating visual summary...
@@ -932,14 +1042,24 @@ note-generator-multimodel-endpoint-complete = Model summary complete: { $name }
 note-generator-multimodel-endpoint-failed = Model summary failed: { $name } ({ $completed }/{ $total })
 note-generator-multimodel-finished-with-failures = Multi-model summary complete: { $success } succeeded, { $failed } failed
 note-generator-multimodel-finished = Multi-model summary complete
+note-generator-multimodel-consensus-progress = Merging { $count } summaries with { $name }...
+note-generator-multimodel-consensus-failed = Consensus merge failed: { $name }. The individual summaries were kept.
+note-generator-multimodel-consensus-title = Consensus Summary
+note-generator-multimodel-consensus-heading = ## Consensus ({ $name })
 note-generator-deep-read-parallel-followup = Running parallel follow-up: { $titles }
 note-generator-batch-stopped = Stopped ({ $success } completed, { $failed } failed, { $pending } not processed)
 note-generator-batch-all-completed = All items processed
 note-generator-batch-all-failed = All items failed
 note-generator-batch-partial-complete = { $success } succeeded, { $failed } failed
 progress-pdf-zotero-index-message = Extracting PDF text using the Zotero full-text index...
+progress-pdf-ocr-message = No text layer found; running OCR...
+progress-pdf-ocr-detail = Recognizing scanned pages with the { $engine } OCR engine
 progress-pdf-text-extracted-message = PDF text extraction complete
 progress-pdf-base64-ready-message = PDF Base64 ready
+progress-pdf-shared-reused-message = Reusing PDF content extracted by the prerequisite task
+progress-pdf-shared-reused-detail = This paper's PDF was already extracted earlier in the chain
+progress-content-cache-hit-message = Reusing cached attachment content
+progress-content-cache-hit-detail = The attachment has not changed since it was last extracted; skipping re-extraction
 pdf-error-no-attachments = This item has no attachments
 pdf-error-no-pdf-attachment = No PDF attachment found for this item
 pdf-error-text-empty = Failed to extract text from PDF or PDF is empty
@@ -972,6 +1092,8 @@ pdf-diagnostic-step-text-length = textLength={ $value }
 pdf-diagnostic-step-cache-path = cachePath={ $value }
 pdf-diagnostic-step-cache-exists = cacheExists={ $value }
 pdf-diagnostic-step-cache-size = cacheSize={ $value }
+pdf-diagnostic-step-ocr-engine = ocrEngine={ $value }
+pdf-diagnostic-step-ocr-pages = ocrPages={ $value }
 pdf-diagnostic-step-message = message={ $value }
 pdf-diagnostic-message-file-found = PDF file found
 pdf-diagnostic-message-file-missing = PDF file missing
@@ -980,6 +1102,8 @@ pdf-diagnostic-message-empty-text = empty text
 pdf-diagnostic-message-cache-checked = cache checked
 pdf-diagnostic-message-cache-missing = cache missing
 pdf-diagnostic-message-index-requested = index requested
+pdf-diagnostic-message-ocr-disabled = no text layer; OCR fallback is off or not configured
+pdf-diagnostic-message-ocr-recognized = OCR recognized text on { $count } pages
 image-client-error-custom-headers-format = Custom header format error
 image-client-error-custom-headers-object = Extra headers must be an object, for example X-ModelScope-Async-Mode: true
 image-client-error-custom-header-name = Invalid custom header name
@@ -1029,6 +1153,7 @@ image-note-poster-alt = Academic concept poster
 library-status-tooltip-processing = { $label } processing { $progress }%
 library-status-tooltip-queued-priority = { $label } queued (priority)
 library-status-tooltip-queued = { $label } queued
+library-status-tooltip-budget-paused = { $label } paused (budget limit reached)
 library-status-tooltip-completed = { $label } completed
 library-status-tooltip-failed-with-error = { $label } failed: { $error }
 library-status-tooltip-failed = { $label } failed
@@ -1052,6 +1177,13 @@ llm-metadata-unknown-model = unknown
 llm-metadata-tooltip-provider = Provider: { $provider }
 llm-metadata-tooltip-model = Model: { $model }
 llm-metadata-tooltip-generated = Generated: { $generated }
+llm-metadata-tooltip-continuations = Auto-continued: { $count } { $count ->
+    [one] time
+   *[other] times
+}
+llm-metadata-tooltip-consensus = Consensus of { $count } model summaries
+llm-metadata-tooltip-tokens = Tokens: { $input } in / { $output } out
+llm-metadata-tooltip-tokens-estimated = Tokens (estimated): { $input } in / { $output } out
 itempane-note-xml-parse-unknown = Unknown XML parsing error
 itempane-note-xml-location = Line { $line }, Column { $column }
 itempane-note-xml-copy-title = XML Parsing Error
@@ -1059,6 +1191,7 @@ itempane-note-xml-copy-location = Location: { $location }
 itempane-note-xml-copy-context = Context:
 llm-metadata-selector-provider-model = Provider: { $provider } Model: { $model } · { $generated } ⓘ
 llm-metadata-selector-provider = Provider: { $provider } · { $generated } ⓘ
+llm-metadata-selector-consensus = Consensus of { $count } models · Judge: { $model } · { $generated } ⓘ
 note-generator-existing-note-skipped = { $kind } already exists; skipped
 note-generator-model-metadata = Provider: { $provider } Model: { $model }
 note-generator-error-template-missing-sequential = AI Deep Reading template is missing the sequential_dynamic phase
@@ -1087,6 +1220,7 @@ task-status-priority = Priority queue
 task-status-processing = Processing
 task-status-completed = Completed
 task-status-failed = Failed
+task-status-paused = Paused by budget
 summary-chat-open = Open Follow-up
 summary-chat-collapse = Collapse Follow-up
 summary-chat-input-placeholder = Type your question here...
@@ -1105,6 +1239,26 @@ summary-thinking = Thinking...
 summary-untitled-paper = Untitled Paper
 summary-chat-note-title = AI Butler Follow-up - { $title }
 summary-note-title = Saved AI Summary
+summary-compare-card-title = Compare { $count } summaries
+summary-compare-base-column = Baseline
+summary-compare-missing-section = (section not present)
+summary-compare-legend = Differences are shown against the baseline column: green text appears only in that summary, struck-through red text is missing from it.
+ai-note-history-card-title = Version history
+ai-note-history-loading = Loading version history...
+ai-note-history-empty = No earlier versions have been recorded for this note yet.
+ai-note-history-base-label = Base
+ai-note-history-target-label = Compare
+ai-note-history-restore = Restore this version
+ai-note-history-restore-tooltip = Replace the current note with the version selected under "Compare". The current content stays in the history.
+ai-note-history-restored = ✅ Version restored
+ai-note-history-restore-failed = Restore failed: { $message }
+ai-note-history-prompt-tooltip = Prompt: { $prompt }
+ai-note-history-reason-generate = Generated
+ai-note-history-reason-slot = Section written
+ai-note-history-reason-edit = Edited
+ai-note-history-reason-delete = Block deleted
+ai-note-history-reason-restore = Restored
+ai-note-history-reason-previous = Before rewrite
 summary-note-expand-placeholder = Click to expand and view the full content
 summary-waiting-title = Waiting for AI Summary
 summary-waiting-description = Output will appear here after generation starts.
@@ -1129,3 +1283,41 @@ snapshot-error-empty-file = The web snapshot file is empty or cannot be read.
 snapshot-error-no-readable-text = Could not extract readable text from the web snapshot.
 llm-warning-web-snapshot-used = Used web snapshot text as the analysis content.
 llm-warning-attachment-as-text = This attachment will be analyzed as text content.
+
+# Semantic search view
+semantic-search-placeholder = Describe what you are looking for, e.g. "contrastive learning for small medical datasets"
+semantic-search-button = Search
+semantic-search-disabled = Semantic index is off. Enable it and configure an embedding service in API settings.
+semantic-search-index-empty = No AI notes indexed yet. Rebuild the index in Data settings.
+semantic-search-index-status = { $notes } AI notes indexed ({ $passages } passages)
+semantic-search-searching = Searching...
+semantic-search-result-count = { $count } matching items
+semantic-search-no-results = No matching AI notes
+semantic-search-failed = Search failed: { $error }
+semantic-search-untitled = (Untitled)
+semantic-search-kind-summary = AI summary
+semantic-search-kind-deep-read = AI deep read
+semantic-search-result-meta = { $kind } · relevance { $score }%
+semantic-search-locate-tooltip = Click to locate this item in Zotero
+
+# Library chat view
+library-chat-title = Ask Library
+library-chat-scope-library = Whole library: { $name }
+library-chat-scope-collection = Collection: { $name }
+library-chat-new = New conversation
+library-chat-save = Save as note
+library-chat-saved = Conversation saved as a standalone note
+library-chat-placeholder = Ask a question about your papers (Enter to send, Shift+Enter for a new line)
+library-chat-send = Send
+library-chat-stop = Stop
+library-chat-stopped = Stopped
+library-chat-you = You
+library-chat-assistant = AI Butler
+library-chat-sources = Sources
+library-chat-status-retrieving = Searching the library for relevant papers...
+library-chat-status-reading = Reading { $count } relevant papers...
+library-chat-status-answering = Answering...
+library-chat-no-sources = No relevant papers were found in this scope. Try other keywords, or generate AI summaries and build the semantic index first.
+library-chat-error = Error: { $error }
+library-chat-note-title = Library Q&A - { $question }
+library-chat-note-references = References
@@ -50,15 +50,52 @@ endpoint-panel-description = Add and manage one or more LLM providers. Provider
 endpoint-add-provider = Add LLM Provider
 endpoint-routing-priority = Priority: use the highest-priority provider first, then switch in order only after failures
 endpoint-routing-round-robin = Round robin: cycle through enabled providers
+endpoint-routing-fastest-healthy = Fastest healthy: prefer the provider with the lowest median latency and no recent failures
+endpoint-routing-least-recently-failed = Least recently failed: prefer providers that have gone longest without an error
 endpoint-routing-strategy = Routing Strategy
 endpoint-routing-help = Provider priority decreases from top to bottom. Reorder providers to change priority.
 endpoint-max-api-switch = Maximum API Request Count
 endpoint-max-api-switch-help = Maximum number of real API requests in one AI call. After the limit is reached, the task fails directly instead of retrying the same bad endpoint in the task queue.
+endpoint-replay-record-label = Record requests to fixture file
+endpoint-replay-record-placeholder = Leave empty to disable recording
+endpoint-replay-record-help = When set, every request sent to a real provider and its response (including streamed chunks, tool calls and errors) is saved to this JSON file. Add a Replay endpoint pointing at the file to run the same tasks offline, or attach the file to a bug report. The file contains the prompts and paper text that were sent.
+endpoint-replay-fixture-label = Fixture File
+endpoint-replay-fixture-placeholder = Path to a recorded JSON fixture
+endpoint-health-summary = { $rate }% success · p50 { $p50 } · p95 { $p95 } · last { $count } requests
+endpoint-health-last-error = Last error: { $error } at { $time }
+endpoint-health-circuit-open = Circuit open: skipped until { $time }
+endpoint-health-circuit-half-open = Circuit half-open: the next request is a trial
+endpoint-health-reset = Reset stats
+endpoint-health-error-timeout = timeout
+endpoint-health-error-rate-limit = rate limited
+endpoint-health-error-auth = authentication failed
+endpoint-health-error-server = server error
+endpoint-health-error-network = network error
+endpoint-health-error-client = request rejected
+endpoint-health-error-other = other error
+endpoint-task-routing-title = Task Routing
+endpoint-task-routing-help = Give a task type its own ordered provider list, e.g. a fast, inexpensive model for table filling and a strong model for deep reading. Providers are tried from left to right; tasks without a rule use the routing strategy above.
+endpoint-task-routing-global = Global route
+endpoint-task-routing-add = Add provider…
+endpoint-task-routing-move-up = Try earlier
+endpoint-task-routing-remove = Remove from this rule
+endpoint-task-routing-disabled-warning = All providers in this rule are disabled, so this task uses the global route.
+endpoint-task-routing-kind-summary = AI Summary
+endpoint-task-routing-kind-deep-read = AI Deep Reading
+endpoint-task-routing-kind-table-fill = Table Fill
+endpoint-task-routing-kind-targeted-question = Targeted Question
+endpoint-task-routing-kind-review = Review
+endpoint-task-routing-kind-mindmap = Mind Map
+endpoint-task-routing-kind-figure-explain = Figure Explanation
+endpoint-task-routing-kind-quick-chat = Quick Chat
 endpoint-multi-summary-title = Multi-model Summary
 endpoint-multi-summary-selected = { $count } selected
 endpoint-disabled = Disabled
 endpoint-multi-summary-help = When enabled, AI summaries call the selected providers in parallel and write them into the same AI Butler note. The sidebar can switch between providers. Other features still use the routing strategy above.
 endpoint-multi-summary-select = Choose LLM providers for summaries
+endpoint-multi-summary-judge = Consensus merge (judge model)
+endpoint-multi-summary-judge-none = Do not merge
+endpoint-multi-summary-judge-help = When at least two models succeed, this model merges their summaries into one consolidated summary saved as its own block. Disagreements between models and claims made by only one model are marked.
 endpoint-select-all-enabled = Select all enabled
 endpoint-clear = Clear
 endpoint-empty = No providers available. Add an LLM provider first.
@@ -90,6 +127,37 @@ endpoint-pdf-global-help = This model has no individual override and follows the
 endpoint-pdf-override-help = This model uses the PDF processing mode specified here.
 endpoint-pdf-mode-label = PDF Processing Mode
 endpoint-pdf-mode-help = Set a PDF input mode for this model only. Use it to avoid errors when a model that does not support file input is used while global Base64 mode is enabled.
+endpoint-long-document-label = Long Document Handling
+endpoint-long-document-help = How to handle text that exceeds this model’s context. Chunking splits the document by headings and pages, summarizes the parts in parallel and merges them into the final result. It only applies to text input, not Base64 PDF upload. Context length is filled in automatically when a model is picked from the list.
+endpoint-long-document-truncate = Truncate overlong text
+endpoint-long-document-chunk = Chunk and summarize (map-reduce)
+endpoint-context-length-label = Context length (tokens)
+endpoint-context-length-unit = tokens of context
+endpoint-rate-limit-label = Rate Limits
+endpoint-rate-limit-help = Requests beyond these limits wait in a queue shared by all running tasks instead of failing. When the API answers HTTP 429, requests to this endpoint pause for the time given by Retry-After and then retry without using up retry attempts or switching keys. Leave empty for no limit. Tokens are estimated from the input text plus the maximum output length.
+endpoint-rate-limit-unlimited = No limit
+endpoint-rate-limit-rpm-unit = requests / min
+endpoint-rate-limit-tpm-unit = tokens / min
+endpoint-azure-api-url-placeholder = https://my-resource.openai.azure.com, or the full target URI
+endpoint-azure-deployment-label = Deployment Name
+endpoint-azure-deployment-placeholder = Deployment name from the Azure portal
+endpoint-azure-deployment-help = Azure routes requests by deployment name. Fetch Models lists the deployments of this resource.
+endpoint-azure-api-mode-label = API and api-version
+endpoint-azure-api-mode-help = Chat Completions works with every deployment. The Responses API is needed for some newer models. Leave api-version empty to use the default shown. A deployment, API path or api-version in a pasted target URI takes precedence.
+endpoint-azure-api-mode-chat = Chat Completions
+endpoint-azure-api-mode-responses = Responses API
+endpoint-azure-api-version-label = api-version
+endpoint-http-template-label = Request Body Template
+endpoint-http-template-help = JSON sent as the request body. A string that is only a variable in double braces, such as "{ "{{" }messages{ "}}" }", is replaced by its value and the field is dropped when the value is not set. Variables: model, messages (system and chat messages as role/content objects), system, prompt (latest user message), stream, temperature, topP, maxTokens, apiKey.
+endpoint-http-template-invalid = Invalid JSON: { $reason }
+endpoint-http-auth-label = Auth Header
+endpoint-http-auth-help = Header name and value template. { "{{" }apiKey{ "}}" } is replaced by the API key; the header is skipped when it needs a key and none is set. Leave the name empty to send no auth header.
+endpoint-http-response-path-label = Response Text Path
+endpoint-http-response-path-help = Where the answer text is found in a non-streaming JSON response. Use dots between keys and numbers for array items, e.g. choices.0.message.content.
+endpoint-http-stream-label = Stream Text Path and Delimiter
+endpoint-http-stream-help = Path to the text delta in each streamed event and the separator between events (\n\n for SSE, \n for JSON lines). "data:" prefixes and [DONE] are handled automatically. Leave the path empty to always send non-streaming requests.
+endpoint-http-error-path-label = Error Message Path
+endpoint-http-error-path-help = Where the error message is found in an error response, e.g. error.message.
 endpoint-reasoning-label = Reasoning Effort
 endpoint-test-connection = Test Connection
 endpoint-copy-details = Copy Details
@@ -119,6 +187,31 @@ settings-data-description = Tools for clearing the task queue, importing/exporti
 settings-data-stat-total = Total Tasks
 settings-data-stat-completed = Completed
 settings-data-stat-failed = Failed
+settings-data-history-limit-label = Task history to keep
+settings-data-history-limit-help = Completed and failed tasks beyond this count are removed from the queue, oldest first. Set 0 to keep everything.
+settings-data-content-cache-title = Attachment content cache
+settings-data-content-cache-enabled = Cache extracted attachment content
+settings-data-content-cache-enabled-help = Reuses extracted PDF text, MinerU Markdown and web snapshot text across summary, deep read, mind map, image summary and table filling. Entries are keyed by the attachment file hash, so a changed file is extracted again.
+settings-data-content-cache-max-label = Cache size limit (MB)
+settings-data-content-cache-max-help = Least recently used entries are removed when the cache grows beyond this size. Set 0 to disable storing new entries.
+settings-data-content-cache-usage = { $count } entries, { $size } MB
+settings-data-content-cache-clear = Clear content cache
+settings-data-content-cache-cleared = ✅ Content cache cleared
+settings-data-note-history-title = AI note version history
+settings-data-note-history-enabled = Keep version history for AI notes
+settings-data-note-history-enabled-help = Saves a snapshot with the prompt, endpoint and time whenever an AI summary or deep-read note is regenerated, rewritten section by section, edited or deleted. Versions can be compared and restored from the sidebar and the summary window.
+settings-data-note-history-limit-label = Versions kept per note
+settings-data-note-history-limit-help = The oldest versions of a paper's summary or deep-read note are dropped beyond this number.
+settings-data-note-history-clear = Clear version history
+settings-data-note-history-clear-confirm = Delete all recorded AI note versions? Current notes are not affected.
+settings-data-note-history-cleared = ✅ Version history cleared
+settings-data-semantic-index-title = Semantic index
+settings-data-semantic-index-usage = { $notes } notes, { $passages } passages indexed
+settings-data-semantic-index-progress = Indexing { $done } / { $total }...
+settings-data-semantic-index-rebuild = Rebuild index
+settings-data-semantic-index-rebuilt = Index rebuilt: { $indexed } notes updated, { $failed } failed
+settings-data-semantic-index-clear = Clear index
+settings-data-semantic-index-cleared = ✅ Semantic index cleared
 settings-data-clear-completed = 🧹 Clear Completed Tasks
 settings-data-clear-completed-done = Completed tasks have been cleared
 settings-data-clear-all = 🗑️ Clear All Tasks
@@ -132,6 +225,7 @@ settings-data-import-json = 📥 Import Settings (JSON)
 settings-data-reset-all = ♻️ Restore All Defaults
 settings-data-progress-title = Data Management
 settings-data-close = Close
+settings-data-export-include-secrets = Include API keys (plain text). Keys are redacted by default; importing an empty key keeps the existing one.
 settings-data-import-title = Import Settings
 settings-data-import-prompt = Paste JSON:
 settings-data-import-success = ✅ Import succeeded
@@ -173,6 +267,9 @@ settings-mindmap-toast-select-folder-failed = Failed to select a folder. Enter t
 settings-mindmap-reset-desktop = Reset to Desktop
 settings-mindmap-toast-reset-desktop = Reset to the desktop folder
 settings-mindmap-save-path = Save Path
+settings-mindmap-auto-section = ⚙️ Automatic Generation
+settings-mindmap-auto-add = Generate a mind map after AI Summary
+settings-mindmap-auto-add-help = ⚠️ When enabled, a mind map task is queued with each AI Summary and runs after the summary finishes, reusing its extracted PDF content. This consumes additional API quota.
 settings-mindmap-preview-section = 📊 Current Configuration Preview
 settings-mindmap-preview-custom = Custom
 settings-mindmap-preview-default = Default
@@ -450,6 +547,8 @@ settings-ui-context-menu-imageSummary-label = AI Butler: Generate One-image Summ
 settings-ui-context-menu-imageSummary-description = Paper context menu: add a one-image summary task to the queue
 settings-ui-context-menu-mindmap-label = AI Butler: Generate Mind Map
 settings-ui-context-menu-mindmap-description = Paper context menu: add a mind map task to the queue
+settings-ui-context-menu-figureExplain-label = AI Butler: Explain Figures
+settings-ui-context-menu-figureExplain-description = Paper context menu: explain every figure and table with a vision-capable model
 settings-ui-context-menu-chatWithAI-label = AI Butler: Follow-up Chat
 settings-ui-context-menu-chatWithAI-description = Paper context menu: open follow-up chat for the current paper
 settings-ui-context-menu-literatureReview-label = AI Butler Literature Review
@@ -706,6 +805,10 @@ setup-preset-change-deepseek-model = DeepSeek Model
 setup-preset-local-key-replaced = Existing local value will be replaced
 setup-preset-change-model-priority = Model Priority
 setup-preset-deepseek-priority-after = DeepSeek is first in priority
+setup-preset-change-azure-api-url = Azure Resource Endpoint
+setup-preset-change-azure-deployment = Azure Deployment
+setup-preset-azure-priority-after = Azure OpenAI is first in priority
+setup-preset-azure-pdf-after = Text extraction for this endpoint
 setup-preset-change-pdf-processing = PDF Processing
 setup-preset-change-auto-scan = Auto Scan
 setup-preset-change-save-chat = Save Follow-up Chats
@@ -735,12 +838,14 @@ settings-api-temperature-label = Temperature
 settings-api-temperature-help = Controls output randomness (0–2). Higher values make output more random. When unchecked, this parameter is not sent.
 settings-api-max-tokens-label = Max Tokens
 settings-api-max-tokens-help = Maximum number of tokens to generate. When unchecked, this parameter is not sent. Some services make it optional.
+settings-api-auto-continue-label = Auto-continue rounds
+settings-api-auto-continue-help = When the output stops at the Max Tokens limit or the stream is cut off, ask the model to continue and join the parts. Maximum number of extra requests per call; 0 disables it.
 settings-api-top-p-label = Top P
 settings-api-top-p-help = Nucleus sampling parameter (0–1), used to control output diversity. When unchecked, this parameter is not sent.
 settings-api-stream-label = Streaming output
 settings-api-stream-help = Show generation progress in real time when enabled.
 settings-api-prompt-cache-label = Context cache optimization
-settings-api-prompt-cache-help = When enabled, multi-round Deep Reading reuses the AI provider context cache and can greatly reduce token cost. For DeepSeek, for example, from the second round onward the paper text portion is charged at about 1/10 of the original price. It works with DeepSeek, official OpenAI and Claude APIs, and most compatible services; services that do not support caching simply receive no benefit and are otherwise unaffected. A few third-party services may be incompatible. If summaries or Deep Reading fail after enabling it, turn this switch off to restore the original behavior completely. Existing notes are not affected.
+settings-api-prompt-cache-help = When enabled, multi-round Deep Reading reuses the AI provider context cache and can greatly reduce token cost. For DeepSeek, for example, from the second round onward the paper text portion is charged at about 1/10 of the original price. The paper is placed before each round's prompt so providers can reuse the cached prefix, and for Gemini it is uploaded once per Deep Reading run as cached content. It works with DeepSeek, official OpenAI, Claude and Gemini APIs, and most compatible services; services that do not support caching simply receive no benefit and are otherwise unaffected. A few third-party services may be incompatible. If summaries or Deep Reading fail after enabling it, turn this switch off to restore the original behavior completely. Existing notes are not affected.
 settings-api-request-timeout-label = Request timeout (ms)
 settings-api-request-timeout-help = API request timeout. Default: 300000 ms (5 minutes). Minimum: 30000 ms (30 seconds).
 settings-api-batch-size-label = Papers per batch
@@ -749,6 +854,14 @@ settings-api-batch-interval-label = Batch interval (seconds)
 settings-api-batch-interval-help = Waiting time between batches, used to control API request frequency.
 settings-api-scan-interval-label = Auto-scan interval (seconds)
 settings-api-scan-interval-help = Interval for background scanning of newly added papers. Default: 5 minutes.
+settings-api-queue-schedule-enabled-label = Enable queue run windows
+settings-api-queue-schedule-enabled-help = When enabled, background queue tasks only start inside their run windows and outside quiet hours. Tasks you start manually, and tasks marked "Run now", are not affected.
+settings-api-queue-quiet-hours-label = Quiet hours
+settings-api-queue-quiet-hours-placeholder = e.g. mon-fri 09:00-18:00
+settings-api-queue-quiet-hours-help = No queued task starts during these periods. Leave empty to disable.
+settings-api-queue-window-label = Run window: { $type }
+settings-api-queue-window-placeholder = Empty = any time, e.g. mon-fri 22:00-07:00; sat,sun
+settings-api-queue-window-help = Separate periods with ";". Each period is optional weekdays (mon-sun, ranges like mon-fri) plus an optional HH:MM-HH:MM range; ranges ending before they start run past midnight.
 settings-api-pdf-mode-selected-base64 = Base64 mode selected: stronger multimodal support, suitable for Gemini and similar models.
 settings-api-pdf-mode-selected-text = Text extraction mode selected: text only, suitable for Anthropic and similar models.
 settings-api-pdf-mode-selected-mineru = MinerU mode selected: enter an API key to enable advanced formula and table restoration.
@@ -771,12 +884,57 @@ settings-api-mineru-external-path-label = External folder path
 settings-api-mineru-external-path-help = Used after external sync is enabled. Each paper is written to its own subfolder under this directory, including Markdown and images/ resources.
 settings-api-mineru-filename-mode-label = Markdown file naming
 settings-api-mineru-filename-mode-help = Prefer Zotero/Better BibTeX citationKey, and automatically fall back to the item title when no citationKey exists.
+settings-api-ocr-section-title = OCR Fallback for Scanned PDFs
+settings-api-ocr-section-subtitle = Runs only when Zotero finds no text layer in the PDF
+settings-api-ocr-engine-label = OCR engine
+settings-api-ocr-engine-off = Off
+settings-api-ocr-engine-command = Local command
+settings-api-ocr-engine-help = The recognized text goes through the normal text pipeline and is cached like any other extraction.
+settings-api-ocr-command-label = Program path
+settings-api-ocr-command-placeholder = e.g. /usr/local/bin/ocrmypdf
+settings-api-ocr-command-help = Full path to a local OCR program. OCRmyPDF with Tesseract works with the default arguments.
+settings-api-ocr-args-label = Arguments
+settings-api-ocr-args-help = Placeholders: {"{"}input{"}"} source PDF, {"{"}output{"}"} text file to write (pages separated by form feeds), {"{"}outputPdf{"}"} scratch PDF, {"{"}lang{"}"} language. Leave empty to use the default.
+settings-api-ocr-language-label = Languages
+settings-api-ocr-language-help = Tesseract language codes joined with +, e.g. eng+chi_sim.
+settings-api-figures-section-title = Figure Explanation
+settings-api-figures-section-subtitle = Images sent to the endpoint routed for figure explanation, which must accept image input
+settings-api-figures-source-label = Figure source
+settings-api-figures-source-auto = Auto (MinerU first, then page rendering)
+settings-api-figures-source-mineru = MinerU images only
+settings-api-figures-source-page-render = Render PDF pages
+settings-api-figures-source-help = MinerU images come with captions and page numbers. Page rendering sends whole pages and lets the model find the figures.
+settings-api-figures-max-images-label = Max images per paper
+settings-api-figures-max-images-help = Each image is one request. With page rendering only pages with figure or table captions are sent, up to this many.
+settings-api-figures-render-command-label = Page render program
+settings-api-figures-render-command-placeholder = e.g. /usr/bin/pdftoppm
+settings-api-figures-render-command-help = Full path to a program that renders PDF pages to PNG or JPEG. pdftoppm from poppler works with the default arguments.
+settings-api-figures-render-args-label = Arguments
+settings-api-figures-render-args-help = Placeholders: {"{"}input{"}"} source PDF, {"{"}outputPrefix{"}"} file prefix (files must end in -N.png), {"{"}outputDir{"}"} output folder, {"{"}lastPage{"}"} last page to render. Leave empty to use the default.
+settings-api-figures-render-max-pages-label = Pages to check when rendering
+settings-api-figures-render-max-pages-help = Page rendering looks for figure and table captions in this many leading pages and renders only the pages that have them. Without a text layer the first pages are rendered instead.
+settings-api-embedding-section-title = Semantic index (embeddings)
+settings-api-embedding-section-subtitle = Index AI summaries and deep reads for the Semantic Search tab
+settings-api-embedding-enabled-label = Enable semantic index
+settings-api-embedding-enabled-help = New and edited AI notes are indexed automatically. Use "Rebuild index" in Data settings for existing notes.
+settings-api-embedding-provider-label = Embedding service
+settings-api-embedding-provider-openai-compat = OpenAI-compatible (/v1/embeddings)
+settings-api-embedding-provider-ollama = Ollama (local)
+settings-api-embedding-provider-help = Ollama runs locally and needs no API key, e.g. with the nomic-embed-text model.
+settings-api-embedding-url-label = Embedding API URL
+settings-api-embedding-url-help = A base URL such as https://api.openai.com/v1 or http://localhost:11434 is also accepted.
+settings-api-embedding-key-label = Embedding API key
+settings-api-embedding-key-placeholder = Not required for Ollama
+settings-api-embedding-model-label = Embedding model
+settings-api-embedding-model-help = After changing the model, rebuild the index; vectors from other models are ignored.
 settings-api-pdf-size-limit-label = Attachment size limit
 settings-api-pdf-size-limit-help = When enabled, PDF files larger than the specified size are skipped during auto scan to avoid triggering API limits with large scanned books.
 settings-api-pdf-attachment-selected-all = All PDFs mode selected: all attachments will be sent to the model together.
 settings-api-pdf-attachment-selected-default = Default PDF mode selected: only the earliest added attachment will be used.
 settings-api-pdf-attachment-mode-label = Multi-PDF attachment mode
 settings-api-pdf-attachment-mode-help = How to process papers with multiple PDF attachments. When “All PDFs” is selected, the current provider’s multi-PDF upload capability is used. Actual availability depends on whether the selected model and server support PDF input.
+settings-api-long-document-concurrency-label = Long document chunk concurrency
+settings-api-long-document-concurrency-help = Number of chunks summarized at the same time when a model uses chunked long-document handling.
 settings-api-field-gemini-api-url = API Base URL (Gemini)
 settings-api-field-gemini-api-key = API Key (Gemini)
 settings-api-field-gemini-model = Model name (Gemini)
@@ -48,6 +48,15 @@ itempane-quick-chat-new-conversation-dont-remind = 不再提醒
 itempane-quick-chat-new-conversation-confirm = 新建对话
 itempane-quick-chat-new-conversation-created = 已新建对话
 itempane-quick-chat-new-conversation-abort = 新建对话时终止当前快速追问
+itempane-quick-chat-tools-on = 文献库工具已开启：模型可检索文献库、读取 AI 总结与附件全文。点击为本次对话关闭
+itempane-quick-chat-tools-off = 本次对话已关闭文献库工具。点击允许模型查询文献库
+itempane-quick-chat-tool-search-items = 检索文献库
+itempane-quick-chat-tool-get-item-summary = 读取 AI 总结
+itempane-quick-chat-tool-get-attachment-text = 读取全文
+itempane-quick-chat-tool-list-collection-items = 列出分类内容
+itempane-quick-chat-tool-running = 🔧 { $tool } { $detail }…
+itempane-quick-chat-tool-done = ✓ { $tool } { $detail }
+itempane-quick-chat-tool-failed = ⚠ { $tool } { $detail } 失败
 itempane-related-toolbar-title = 对比上下文
 itempane-related-mode-summary = AI 总结
 itempane-related-mode-fulltext = 原文
@@ -120,6 +129,12 @@ itempane-note-personalize = 个性化
 itempane-copy-markdown = 复制为 Markdown
 
 itempane-note-selector-label = 笔记 { $current }/{ $total } ▾
+itempane-note-compare-label = 对比 { $count } 份 ▾
+itempane-note-compare-tooltip = 并排对比各模型的总结
+itempane-note-compare-exit-tooltip = 退出对比
+itempane-note-compare-need-two = 对比至少需要保留两份总结
+itempane-note-history-tooltip = 版本历史
+itempane-note-history-exit-tooltip = 退出版本历史
 
 ## Standalone HTML viewer pages
 static-mindmap-page-title = AI Butler 思维导图
@@ -2,6 +2,7 @@ menuitem-generateSummary = AI 管家生成 AI 总结
 menuitem-multiRoundReanalyze = AI 管家生成 AI 精读
 menuitem-imageSummary = AI 管家生成一图总结
 menuitem-mindmap = AI 管家生成思维导图
+menuitem-figureExplain = AI 管家逐图解读
 menuitem-chatWithAI = AI 管家-后续追问
 error-noItemsSelected = 抱歉,您尚未选择需要分析的文献。
 error-noApiKey = 抱歉,尚未配置API密钥,我无法开始工作。
@@ -54,11 +55,58 @@ dashboard-time-hours = { $count } 小时前
 dashboard-time-days = { $count } 天前
 dashboard-auto-scan-started = ✅ 已启动自动扫描
 dashboard-auto-scan-paused = ⏸️ 已暂停自动扫描
+auto-scan-budget-paused = 自动扫描已跳过新条目：{ $reason }
 dashboard-completed-cleared = 🗑️ 已清除已完成任务
 dashboard-feature-in-development = 功能开发中: { $action }
 dashboard-task-completed = ✅ 已完成: { $title }
 dashboard-task-failed = ❌ 处理失败: { $title }
 dashboard-unknown-error = 未知错误
+dashboard-usage-title = 💰 Token 用量与费用
+dashboard-usage-edit-prices = 编辑价格
+dashboard-usage-set-currency = 货币
+dashboard-usage-clear = 清空账本
+dashboard-usage-today-cost = 今日花费
+dashboard-usage-month-cost = 本月花费
+dashboard-usage-today-tokens = 今日 Token
+dashboard-usage-month-tokens = 本月 Token
+dashboard-usage-empty = 本月暂无用量记录
+dashboard-usage-row-value = { $tokens } tokens · { $cost }
+dashboard-usage-month-requests = 本月共 { $count } 次请求
+dashboard-usage-unpriced = { $tokens } tokens 未配置单价
+dashboard-usage-estimated = { $count } 次请求按文本长度估算
+dashboard-usage-by-endpoint = 按端点 / 模型（本月）
+dashboard-usage-by-task = 按任务类型（本月）
+dashboard-usage-by-collection = 按分类（本月）
+dashboard-usage-task-chat = 💬 对话
+dashboard-usage-task-custom = 🧩 其他
+dashboard-usage-price-title = 模型价格表
+dashboard-usage-price-prompt = 以 JSON 填写每百万 token 单价，例如 {"{"}"gpt-4o": {"{"}"input": 2.5, "output": 10{"}"}, "claude-*": {"{"}"input": 3, "output": 15{"}"}{"}"}。以 * 结尾可匹配模型名前缀。
+dashboard-usage-price-saved = ✅ 价格表已保存
+dashboard-usage-price-invalid = ❌ 价格表格式错误：{ $message }
+dashboard-usage-currency-title = 货币
+dashboard-usage-currency-prompt = 用于显示费用的货币代码（如 USD、CNY）：
+dashboard-usage-clear-title = 清空用量账本
+dashboard-usage-clear-confirm = 确定清空所有 Token 用量记录吗？此操作不可撤销。
+dashboard-usage-edit-budget = 预算
+dashboard-usage-budget-title = 用量预算
+dashboard-usage-budget-prompt = 以 JSON 填写预算上限，可用字段：dailyTokens、monthlyTokens、dailyCost、monthlyCost。端点可用 ID 或名称作为键，例如 {"{"}"global": {"{"}"dailyCost": 5{"}"}, "endpoints": {"{"}"DeepSeek": {"{"}"monthlyTokens": 2000000{"}"}{"}"}{"}"}
+dashboard-usage-budget-saved = 预算已保存
+dashboard-usage-budget-invalid = 预算设置无效：{ $message }
+dashboard-usage-budget-blocked = ⛔ { $reason }，排队任务已暂停
+usage-price-table-error-not-object = 价格表必须是 JSON 对象
+usage-price-table-error-invalid-price = 模型“{ $model }”的单价无效：input 与 output 必须为非负数
+usage-budget-error-not-object = 预算设置必须是 JSON 对象
+usage-budget-error-invalid-limit = 预算上限“{ $key }”无效：必须为非负数
+usage-budget-scope-global = 全局预算
+usage-budget-scope-endpoint = 端点“{ $name }”的预算
+usage-budget-period-daily = 每日
+usage-budget-period-monthly = 每月
+usage-budget-tokens-value = { $count } tokens
+usage-budget-exceeded = { $scope }已超限（{ $period }）：已用 { $used } / 上限 { $limit }
+queue-schedule-error-invalid = 时间窗“{ $entry }”格式无效，示例："mon-fri 22:00-07:00; sat,sun"
+queue-schedule-reason-quiet-hours = 处于静默时段
+queue-schedule-reason-outside-window = 不在该任务类型的运行时段内
+queue-schedule-next-run = { $reason }，预计 { $time } 开始运行
 
 # Collection note cleanup / export dialogs
 collection-error-no-collection = 请先选择一个分类
@@ -153,6 +201,7 @@ task-error-select-regular-item = 请选择一个文献条目
 task-queue-add-failed = ❌ 添加任务失败: { $error }
 image-summary-queue-added = 🖼️ 一图总结任务已加入队列
 mindmap-queue-added = 🧠 思维导图任务已加入队列
+figure-explain-queue-added = 🖼️ 逐图解读任务已加入队列
 literature-review-open-failed = 打开文献综述失败: { $error }
 table-fill-disabled = 表格功能已在设置中关闭
 table-fill-error-no-items = 请先选择要填表的文献
@@ -210,6 +259,7 @@ task-queue-status-processing = 处理中
 task-queue-status-pending = 待处理
 task-queue-status-failed = 失败
 task-queue-status-completed = 已完成
+task-queue-status-paused = 预算暂停
 task-queue-stage-waiting = 等待处理
 task-queue-stage-priority-waiting = 优先等待
 task-queue-tooltip-current-stage = 当前阶段：{ $stage }
@@ -223,6 +273,7 @@ task-queue-status-badge-processing = ⚙️ 处理中
 task-queue-status-badge-completed = ✅ 已完成
 task-queue-status-badge-failed = ❌ 失败
 task-queue-status-badge-priority = 🔥 优先处理
+task-queue-status-badge-paused = ⏸️ 预算暂停
 task-queue-deep-read-integrity-probe-failed = 无法确认 AI 精读是否完整（{ $reason }），已取消补全
 task-queue-detail-task-completed = 任务已完成
 task-queue-search-placeholder = 搜索标题...
@@ -231,11 +282,13 @@ task-queue-type-summary = 📝 AI 总结
 task-queue-type-deep-read = 📚 AI 精读
 task-queue-type-image-summary = 🖼️ 一图总结
 task-queue-type-mindmap = 🧠 思维导图
+task-queue-type-figure-explain = 🖼️ 逐图解读
 task-queue-type-table-fill = 📊 填表
 task-queue-type-review = 📝 综述
 task-queue-type-targeted-question = 🎯 针对性提问
 task-queue-empty = 暂无任务
 task-queue-locate-tooltip = 双击可定位到对应文献
+task-queue-drag-tooltip = 拖到其他排队任务上可调整顺序，双击可定位到对应文献
 task-queue-created-at = 创建时间
 task-queue-completed-at = 完成时间
 task-queue-error-label = 错误
@@ -255,6 +308,9 @@ task-queue-action-complete-deep-read = 🔁 补全精读
 task-queue-complete-deep-read-tooltip = 重新检查 AI 精读笔记，并补跑仍在等待/生成中/失败的轮次
 task-queue-action-checking = ⏳ 检查中
 task-queue-action-prioritize = ⚡ 优先处理
+task-queue-action-run-now = ▶️ 立即运行
+task-queue-priority-level-option = 优先级 { $level }
+task-queue-priority-level-tooltip = 数值优先级：数值越大越先派发
 task-queue-copy-failed = 复制失败，可手动选择错误文本
 task-queue-error-details-copied = 已复制错误详情
 # Setup wizard
@@ -272,6 +328,8 @@ setup-wizard-fetching-models-status = 正在获取模型列表...
 setup-wizard-model-label = 模型 *
 setup-wizard-progress-title = 一键初始化配置
 setup-wizard-missing-api-key = 请先填写 { $provider } API Key
+setup-wizard-missing-api-url = 请先填写 { $provider } 的 API 地址
+setup-wizard-missing-model = 请先填写模型，或从列表中选择一个
 setup-wizard-setting-item = 设置项
 setup-wizard-current-setting = 当前设置
 setup-wizard-new-setting = 将改为
@@ -366,6 +424,8 @@ note-generator-deep-read-plan-complete = AI 精读计划完成，共 { $total }
 main-window-tab-dashboard = 仪表盘
 main-window-tab-summary = AI 总结
 main-window-tab-tasks = 任务队列
+main-window-tab-chat = 文献库问答
+main-window-tab-search = 语义搜索
 main-window-tab-settings = 快捷设置
 onboarding-action-close-ai-butler-continue = 关闭 AI 管家并继续
 onboarding-action-pdf-dropped-continue = 我已拖入 PDF / 继续
@@ -386,6 +446,9 @@ llm-endpoint-provider-google = Google Gemini
 llm-endpoint-provider-anthropic = Anthropic Claude
 llm-endpoint-provider-openrouter = OpenRouter
 llm-endpoint-provider-ollama = Ollama
+llm-endpoint-provider-azure-openai = Azure OpenAI
+llm-endpoint-provider-replay = 回放（离线夹具）
+llm-endpoint-provider-custom-http = 自定义 HTTP（声明式）
 llm-endpoint-provider-openai = OpenAI (Responses 新接口)
 llm-endpoint-provider-volcanoark = 火山方舟 (Volcano Ark)
 progress-llm-preparing = 准备模型输入
@@ -393,6 +456,7 @@ progress-llm-uploading = 调用大模型中（上传请求中）
 progress-llm-streaming = 调用大模型中（接收响应中）
 progress-llm-waiting = 调用大模型中（等待响应中）
 progress-llm-complete = 大模型响应完成
+progress-llm-chunk = 长文档分块总结中
 progress-mineru-cache = 复用 MinerU 缓存
 progress-mineru-preparing = MinerU 准备中
 progress-mineru-upload-url = MinerU 获取上传地址
@@ -429,8 +493,13 @@ progress-llm-streaming-message = 调用大模型中（接收响应中）
 progress-llm-first-chunk-detail = 已收到首段模型响应，正在持续接收内容
 progress-llm-waiting-message = 调用大模型中（等待响应中）
 progress-llm-waiting-detail = 请求已发出，正在等待模型返回首段内容或完整响应
+progress-llm-rate-limited = 限流排队中
+progress-llm-rate-limited-quota = 该端点每分钟额度已用完，等待 { $seconds } 秒
+progress-llm-rate-limited-retry-after = 接口要求稍后重试（HTTP 429），等待 { $seconds } 秒
 progress-llm-complete-message = 大模型响应完成
 progress-llm-complete-detail = 已收到完整响应，长度约 { $count } 个字符
+progress-llm-chunk-message = 已完成长文档第 { $done }/{ $total } 部分的总结
+progress-llm-chunk-detail = 章节：{ $title }
 progress-mineru-pdf-path-detail = PDF 路径：{ $path }
 progress-mineru-model-detail = 模型版本：{ $model }
 progress-mineru-upload-size-detail = 正在上传 PDF，大小约 { $size } MB
@@ -465,6 +534,11 @@ task-progress-artifact-ready-completed = AI 产物已完整，已标记完成
 task-stage-waiting-start = 等待开始
 task-stage-initializing = 正在初始化
 task-stage-disabled = 已关闭
+task-stage-budget-paused = 已暂停：达到预算上限
+task-stage-scheduled = 等待运行时段
+task-stage-dependency-waiting = 等待前置任务
+task-stage-dependency-waiting-detail = 等待前置任务完成：{ $titles }
+task-error-dependency-failed = 前置任务失败：{ $titles }
 task-detail-non-paper-skipped = 非论文条目，已跳过
 task-title-review = 综述 { $collection }
 task-title-targeted-question = 针对性提问 { $question }
@@ -624,6 +698,19 @@ setup-preset-deepseek-step-key-title = 创建 API Key
 setup-preset-deepseek-step-key-detail = 进入 API Keys 页面，新建密钥并立刻复制；密钥通常只展示一次。
 setup-preset-deepseek-step-paste-title = 粘贴 API Key
 setup-preset-deepseek-step-paste-detail = 把刚复制的密钥粘贴到下方输入框，然后继续下一步。
+setup-preset-azure-description = 适合通过 Azure 订阅使用模型的机构，使用您自己的资源地址与部署。
+setup-preset-azure-guide-title = Azure OpenAI 配置指南
+setup-preset-azure-guide-subtitle = 填写 Azure 门户中的资源终结点与密钥，再选择一个已有的部署即可。
+setup-preset-azure-api-key-placeholder = 粘贴 Azure OpenAI 资源的 KEY 1 或 KEY 2
+setup-preset-azure-api-url-placeholder = 资源终结点，例如 https://my-resource.openai.azure.com
+setup-preset-azure-deployment-label = 部署名称 *
+setup-preset-azure-success = ✅ Azure OpenAI 配置已应用，现在可以开始使用。
+setup-preset-azure-step-resource-title = 打开 Azure OpenAI 资源
+setup-preset-azure-step-resource-detail = 在 Azure 门户中打开资源，进入“密钥和终结点”，复制终结点和任意一个密钥。
+setup-preset-azure-step-deploy-title = 确认部署
+setup-preset-azure-step-deploy-detail = 在“部署”中记下要使用的模型的部署名称。请求使用的是部署名称，而不是模型名称。
+setup-preset-azure-step-paste-title = 粘贴终结点与密钥
+setup-preset-azure-step-paste-detail = 将终结点和密钥粘贴到下方，然后获取部署列表或直接填写部署名称。
 task-queue-error-deep-read-item-not-found = 找不到该 AI 精读任务对应的文献条目
 # Provider runtime errors
 provider-test-success-detail = Mode: { $mode }
@@ -648,7 +735,13 @@ provider-error-api-key-missing = API Key 未配置
 provider-error-api-url-missing-named = { $provider } API URL 未配置
 provider-error-api-key-missing-named = { $provider } API Key 未配置
 provider-error-http-request-failed = HTTP { $status }: 请求失败
+provider-error-replay-missing = 夹具 { $path } 中没有该 { $method } 请求的录制响应（哈希 { $hash }）
+provider-error-replay-closest = 与最接近的录制请求相比，以下字段不同：{ $fields }
+provider-replay-connection-success = 夹具已加载：{ $path } 中共有 { $count } 条录制响应
 provider-error-ollama-pdf-base64-unsupported = Ollama 原生接口不支持 PDF Base64 输入。请在 PDF 处理配置中切换为“文本提取”或“MinerU”后再使用 Ollama。
+provider-error-http-pdf-base64-unsupported = 自定义 HTTP 端点只发送文本。请为该端点将 PDF 处理方式切换为“文本提取”或“MinerU”。
+provider-error-http-template-invalid = 请求体模板不是有效的 JSON：{ $reason }
+provider-error-http-response-path-empty = 响应路径“{ $path }”处没有文本，请检查端点设置中的响应路径。
 provider-error-no-pdf-files = 没有要处理的 PDF 文件
 provider-error-no-pdf-processed = 没有成功处理任何 PDF 文件
 provider-error-request-failed = { $provider } 请求失败
@@ -666,12 +759,14 @@ llm-error-endpoint-not-found = 未找到 LLM Endpoint：{ $endpointId }
 llm-error-endpoint-disabled = LLM Endpoint 已禁用：{ $endpoint }
 llm-error-unknown-provider-type = Endpoint “{ $endpoint }” 的供应商类型未知：{ $provider }。可用供应商：{ $available }
 llm-error-provider-multi-file-unsupported = 供应商 { $provider } 不支持多文件生成
+llm-error-provider-images-unsupported = 供应商 { $provider } 不支持图片输入
 llm-error-chat-multi-file-unsupported = 对话请求不支持多文件输入
 llm-note-metadata-error-block-not-found = 未找到 LLM 笔记块：{ $blockId }
 llm-warning-pdf-provider-limit = PDF 附件数量超过 Provider 限制，已只发送前 { $count } 个
 llm-error-multifile-unsupported = Provider { $provider } 不支持多文件摘要生成
 llm-error-api-keys-exhausted = 所有 API 密钥均已耗尽
 llm-error-all-endpoints-failed = 所有已配置的 LLM Endpoint 均调用失败。
+llm-error-structured-output-invalid = 模型返回的内容不符合要求的结构：{ $errors }
 llm-error-no-pdf-content = 没有可用的 PDF 内容
 llm-error-missing-uploadable-pdf = 当前输入缺少可上传的 PDF/Base64 内容。
 llm-error-missing-text-or-pdf = 当前输入缺少可用文本或可上传的 PDF/Base64 内容
@@ -902,6 +997,21 @@ mindmap-debug-empty-content = 空内容
 mindmap-debug-invalid-format = 格式不符
 mindmap-error-invalid-format = LLM 返回的内容不符合思维导图格式要求（需包含 # 或 - 开头的列表） { $details }
 mindmap-note-title = AI 管家思维导图 - { $title }
+figure-explain-note-title = AI 管家图表解读 - { $title }
+figure-explain-progress-extracting = 正在提取图表...
+figure-explain-progress-explaining = 正在解读第 { $current }/{ $total } 张图表...
+figure-explain-progress-saving = 正在保存图表解读笔记...
+figure-explain-progress-completed = 图表解读完成！
+figure-explain-progress-failed = 图表解读失败: { $message }
+figure-explain-error-no-source = 没有可用的图表图片：请先用 MinerU 解析论文，或在 API 设置中配置页面渲染程序
+figure-explain-error-no-mineru = 未找到该论文已保存且包含图片的 MinerU 解析结果
+figure-explain-error-no-pdf = 未找到可渲染的 PDF 附件
+figure-explain-error-render-empty = 页面渲染程序没有输出任何图片
+figure-explain-error-no-figures = 没有成功解读任何图表
+figure-explain-figure-heading = 图 { $index }
+figure-explain-page-heading = 第 { $page } 页的图表
+figure-explain-page-link = 在 PDF 中打开第 { $page } 页
+figure-explain-figure-failed = 解读失败: { $message }
 image-summary-progress-extracting = 正在提取论文内容...
 image-summary-error-pdf-too-large = PDF 文件过大 ({ $size } MB)，超过设置的阈值 { $max } MB
 image-summary-progress-summarizing = 正在生成视觉摘要...
@@ -932,14 +1042,24 @@ note-generator-multimodel-endpoint-complete = 模型总结完成：{ $name } ({
 note-generator-multimodel-endpoint-failed = 模型总结失败：{ $name } ({ $completed }/{ $total })
 note-generator-multimodel-finished-with-failures = 多模型总结完成：{ $success } 个成功，{ $failed } 个失败
 note-generator-multimodel-finished = 多模型总结完成
+note-generator-multimodel-consensus-progress = 正在由 { $name } 合并 { $count } 份总结...
+note-generator-multimodel-consensus-failed = 共识合并失败：{ $name }，已保留各模型的总结
+note-generator-multimodel-consensus-title = 共识总结
+note-generator-multimodel-consensus-heading = ## 共识合并（{ $name }）
 note-generator-deep-read-parallel-followup = 正在并行追问：{ $titles }
 note-generator-batch-stopped = 已停止 (已完成 { $success } 个，失败 { $failed } 个，未处理 { $pending } 个)
 note-generator-batch-all-completed = 所有条目处理完成
 note-generator-batch-all-failed = 所有条目处理失败
 note-generator-batch-partial-complete = { $success } 个成功，{ $failed } 个失败
 progress-pdf-zotero-index-message = 正在使用 Zotero 全文索引提取 PDF 文本...
+progress-pdf-ocr-message = 未找到文字层，正在进行 OCR 识别...
+progress-pdf-ocr-detail = 正在使用 { $engine } OCR 引擎识别扫描页
 progress-pdf-text-extracted-message = PDF 文本提取完成
 progress-pdf-base64-ready-message = PDF Base64 准备完成
+progress-pdf-shared-reused-message = 复用前置任务已提取的 PDF 内容
+progress-pdf-shared-reused-detail = 同一文献的 PDF 已在依赖链中提取过，无需重复提取
+progress-content-cache-hit-message = 复用已缓存的附件内容
+progress-content-cache-hit-detail = 附件自上次提取后未变化，跳过重新提取
 pdf-error-no-attachments = 该条目没有附件
 pdf-error-no-pdf-attachment = 该条目没有 PDF 附件
 pdf-error-text-empty = PDF 文本提取失败或 PDF 为空
@@ -972,6 +1092,8 @@ pdf-diagnostic-step-text-length = 文本长度={ $value }
 pdf-diagnostic-step-cache-path = 缓存路径={ $value }
 pdf-diagnostic-step-cache-exists = 缓存是否存在={ $value }
 pdf-diagnostic-step-cache-size = 缓存大小={ $value }
+pdf-diagnostic-step-ocr-engine = OCR 引擎={ $value }
+pdf-diagnostic-step-ocr-pages = OCR 识别页={ $value }
 pdf-diagnostic-step-message = 消息={ $value }
 pdf-diagnostic-message-file-found = 已找到 PDF 文件
 pdf-diagnostic-message-file-missing = 未找到 PDF 文件
@@ -980,6 +1102,8 @@ pdf-diagnostic-message-empty-text = 文本为空
 pdf-diagnostic-message-cache-checked = 已检查缓存
 pdf-diagnostic-message-cache-missing = 缓存不存在
 pdf-diagnostic-message-index-requested = 已请求建立索引
+pdf-diagnostic-message-ocr-disabled = 没有文字层，OCR 兜底未开启或未配置
+pdf-diagnostic-message-ocr-recognized = OCR 在 { $count } 页识别到文字
 image-client-error-custom-headers-format = 自定义 Header 格式错误
 image-client-error-custom-headers-object = 额外 Header 必须是对象格式，例如 X-ModelScope-Async-Mode: true
 image-client-error-custom-header-name = 自定义 Header 名称无效
@@ -1029,6 +1153,7 @@ image-note-poster-alt = 学术概念海报
 library-status-tooltip-processing = { $label }处理中 { $progress }%
 library-status-tooltip-queued-priority = { $label }排队（优先）
 library-status-tooltip-queued = { $label }排队
+library-status-tooltip-budget-paused = { $label }已暂停（达到预算上限）
 library-status-tooltip-completed = { $label }已完成
 library-status-tooltip-failed-with-error = { $label }失败：{ $error }
 library-status-tooltip-failed = { $label }失败
@@ -1052,6 +1177,10 @@ llm-metadata-unknown-model = 未知
 llm-metadata-tooltip-provider = 供应商：{ $provider }
 llm-metadata-tooltip-model = 模型：{ $model }
 llm-metadata-tooltip-generated = 生成时间：{ $generated }
+llm-metadata-tooltip-continuations = 自动续写：{ $count } 次
+llm-metadata-tooltip-consensus = 由 { $count } 个模型的总结合并
+llm-metadata-tooltip-tokens = Token：输入 { $input } / 输出 { $output }
+llm-metadata-tooltip-tokens-estimated = Token（估算）：输入 { $input } / 输出 { $output }
 itempane-note-xml-parse-unknown = 未知 XML 解析错误
 itempane-note-xml-location = 第 { $line } 行，第 { $column } 列
 itempane-note-xml-copy-title = XML 解析错误
@@ -1059,6 +1188,7 @@ itempane-note-xml-copy-location = 位置：{ $location }
 itempane-note-xml-copy-context = 上下文：
 llm-metadata-selector-provider-model = 供应商: { $provider } 模型: { $model } · { $generated } ⓘ
 llm-metadata-selector-provider = 供应商: { $provider } · { $generated } ⓘ
+llm-metadata-selector-consensus = { $count } 个模型的共识 · 裁判: { $model } · { $generated } ⓘ
 note-generator-existing-note-skipped = 已存在{ $kind }，跳过
 note-generator-model-metadata = 供应商: { $provider } 模型: { $model }
 note-generator-error-template-missing-sequential = AI 精读模板缺少 sequential_dynamic 阶段
@@ -1087,6 +1217,7 @@ task-status-priority = 优先队列
 task-status-processing = 处理中
 task-status-completed = 已完成
 task-status-failed = 已失败
+task-status-paused = 预算暂停
 summary-chat-open = 打开追问
 summary-chat-collapse = 收起追问
 summary-chat-input-placeholder = 在这里输入您的问题...
@@ -1105,6 +1236,26 @@ summary-thinking = 正在思考...
 summary-untitled-paper = 未命名论文
 summary-chat-note-title = AI 管家追问 - { $title }
 summary-note-title = 已保存的 AI 总结
+summary-compare-card-title = 对比 { $count } 份总结
+summary-compare-base-column = 基准
+summary-compare-missing-section = （无此小节）
+summary-compare-legend = 差异相对基准列标出：绿色为该总结独有的内容，红色删除线为该总结缺少的内容。
+ai-note-history-card-title = 版本历史
+ai-note-history-loading = 正在加载版本历史...
+ai-note-history-empty = 这篇笔记还没有记录过历史版本。
+ai-note-history-base-label = 基准
+ai-note-history-target-label = 对比
+ai-note-history-restore = 恢复此版本
+ai-note-history-restore-tooltip = 用“对比”中选中的版本替换当前笔记，当前内容仍会保留在历史中。
+ai-note-history-restored = ✅ 已恢复该版本
+ai-note-history-restore-failed = 恢复失败：{ $message }
+ai-note-history-prompt-tooltip = 提示词：{ $prompt }
+ai-note-history-reason-generate = 生成
+ai-note-history-reason-slot = 写入分节
+ai-note-history-reason-edit = 编辑
+ai-note-history-reason-delete = 删除区块
+ai-note-history-reason-restore = 恢复
+ai-note-history-reason-previous = 改写前
 summary-note-expand-placeholder = 点击展开查看完整内容
 summary-waiting-title = 等待 AI 总结
 summary-waiting-description = 生成过程开始后会在这里显示输出。
@@ -1129,3 +1280,41 @@ snapshot-error-empty-file = 网页快照文件为空或无法读取
 snapshot-error-no-readable-text = 无法从网页快照中提取可读文本
 llm-warning-web-snapshot-used = 已使用网页快照文本作为本次分析内容。
 llm-warning-attachment-as-text = 当前附件将按文本内容进行分析。
+
+# Semantic search view
+semantic-search-placeholder = 描述你要找的内容，例如“小样本医学数据上的对比学习”
+semantic-search-button = 搜索
+semantic-search-disabled = 语义索引未启用，请在 API 设置中启用并配置向量嵌入服务。
+semantic-search-index-empty = 尚未索引任何 AI 笔记，请在数据管理中重建索引。
+semantic-search-index-status = 已索引 { $notes } 篇 AI 笔记（{ $passages } 个段落）
+semantic-search-searching = 正在搜索...
+semantic-search-result-count = 找到 { $count } 篇相关文献
+semantic-search-no-results = 没有匹配的 AI 笔记
+semantic-search-failed = 搜索失败：{ $error }
+semantic-search-untitled = （无标题）
+semantic-search-kind-summary = AI 总结
+semantic-search-kind-deep-read = AI 精读
+semantic-search-result-meta = { $kind } · 相关度 { $score }%
+semantic-search-locate-tooltip = 点击在 Zotero 中定位该文献
+
+# Library chat view
+library-chat-title = 文献库问答
+library-chat-scope-library = 整个文献库：{ $name }
+library-chat-scope-collection = 分类：{ $name }
+library-chat-new = 新对话
+library-chat-save = 保存为笔记
+library-chat-saved = 对话已保存为独立笔记
+library-chat-placeholder = 针对你的文献提问（Enter 发送，Shift+Enter 换行）
+library-chat-send = 发送
+library-chat-stop = 停止
+library-chat-stopped = 已停止
+library-chat-you = 你
+library-chat-assistant = AI 管家
+library-chat-sources = 参考文献
+library-chat-status-retrieving = 正在检索相关文献...
+library-chat-status-reading = 正在读取 { $count } 篇相关文献...
+library-chat-status-answering = 正在回答...
+library-chat-no-sources = 在当前范围内没有找到相关文献。可以换个关键词，或先生成 AI 总结并建立语义索引。
+library-chat-error = 出错：{ $error }
+library-chat-note-title = 文献库问答 - { $question }
+library-chat-note-references = 参考文献
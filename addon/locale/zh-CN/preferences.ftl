@@ -50,15 +50,52 @@ endpoint-panel-description = 添加并管理一个或多个大模型供应商。
 endpoint-add-provider = 添加大模型供应商
 endpoint-routing-priority = 优先级：优先使用最高优先级供应商，仅失败后按顺序切换
 endpoint-routing-round-robin = 轮询：轮询启用的供应商
+endpoint-routing-fastest-healthy = 最快健康优先：优先使用中位延迟最低且最近未失败的端点
+endpoint-routing-least-recently-failed = 最久未失败优先：优先使用距上次出错最久的端点
 endpoint-routing-strategy = 路由策略
 endpoint-routing-help = 供应商优先级从上到下依次降低，可通过调整位置指定优先级
 endpoint-max-api-switch = 最大 API 请求次数
 endpoint-max-api-switch-help = 一次 AI 调用内最多发起的真实 API 请求数。达到上限后任务会直接失败，不再由任务队列继续重试同一个坏端点。
+endpoint-replay-record-label = 将请求录制到夹具文件
+endpoint-replay-record-placeholder = 留空则不录制
+endpoint-replay-record-help = 设置后，发往真实供应商的每个请求及其响应（包括流式分段、工具调用和错误）都会保存到该 JSON 文件。添加指向该文件的“回放”端点即可离线重跑相同任务，也可以把文件附在问题反馈中。文件会包含发送的提示词和论文文本。
+endpoint-replay-fixture-label = 夹具文件
+endpoint-replay-fixture-placeholder = 录制好的 JSON 夹具路径
+endpoint-health-summary = 成功率 { $rate }% · p50 { $p50 } · p95 { $p95 } · 最近 { $count } 次请求
+endpoint-health-last-error = 最近错误：{ $error }（{ $time }）
+endpoint-health-circuit-open = 已熔断：{ $time } 前跳过
+endpoint-health-circuit-half-open = 熔断试探中：下一次请求用于检测是否恢复
+endpoint-health-reset = 重置统计
+endpoint-health-error-timeout = 超时
+endpoint-health-error-rate-limit = 限流
+endpoint-health-error-auth = 鉴权失败
+endpoint-health-error-server = 服务端错误
+endpoint-health-error-network = 网络错误
+endpoint-health-error-client = 请求被拒绝
+endpoint-health-error-other = 其他错误
+endpoint-task-routing-title = 按任务路由
+endpoint-task-routing-help = 为不同任务单独指定按顺序尝试的端点，例如填表使用便宜快速的模型、精读使用能力更强的模型。端点从左到右依次尝试；未配置规则的任务使用上方的路由策略。
+endpoint-task-routing-global = 使用全局路由
+endpoint-task-routing-add = 添加端点…
+endpoint-task-routing-move-up = 提前尝试
+endpoint-task-routing-remove = 从该规则中移除
+endpoint-task-routing-disabled-warning = 该规则中的端点均已停用，此任务将使用全局路由。
+endpoint-task-routing-kind-summary = AI 总结
+endpoint-task-routing-kind-deep-read = AI 精读
+endpoint-task-routing-kind-table-fill = 填表
+endpoint-task-routing-kind-targeted-question = 针对性提问
+endpoint-task-routing-kind-review = 综述
+endpoint-task-routing-kind-mindmap = 思维导图
+endpoint-task-routing-kind-figure-explain = 逐图解读
+endpoint-task-routing-kind-quick-chat = 快速追问
 endpoint-multi-summary-title = 多模型同时总结
 endpoint-multi-summary-selected = 已选择 { $count } 个
 endpoint-disabled = 未启用
 endpoint-multi-summary-help = 开启后，AI 总结会并行调用选中的供应商，并写入同一篇 AI 管家笔记；侧边栏可按供应商切换。其他功能仍使用上方路由策略。
 endpoint-multi-summary-select = 选择参与总结的大模型供应商
+endpoint-multi-summary-judge = 共识合并（裁判模型）
+endpoint-multi-summary-judge-none = 不合并
+endpoint-multi-summary-judge-help = 至少两个模型总结成功时，由该模型把各模型的总结合并为一份综合总结，单独保存为一个区块；模型之间的分歧和仅一个模型提出的论断会被标出。
 endpoint-select-all-enabled = 全选启用
 endpoint-clear = 清空
 endpoint-empty = 暂无可选供应商，请先添加大模型供应商。
@@ -90,6 +127,37 @@ endpoint-pdf-global-help = 当前模型未单独覆盖，会随“API 配置”
 endpoint-pdf-override-help = 该模型会使用这里指定的 PDF 处理方式。
 endpoint-pdf-mode-label = PDF 处理方式
 endpoint-pdf-mode-help = 为这个模型单独设置 PDF 输入模式。用于避免不支持文件输入的模型在全局 Base64 模式下报错。
+endpoint-long-document-label = 长文档处理
+endpoint-long-document-help = 文本超出该模型上下文时的处理方式。分块总结会按章节标题和分页切分文档，并行总结各部分后合并为最终结果；仅对文本输入生效，Base64 直传 PDF 时不分块。从模型列表选择模型时会自动填入上下文长度。
+endpoint-long-document-truncate = 截断超长文本
+endpoint-long-document-chunk = 分块总结（map-reduce）
+endpoint-context-length-label = 上下文长度（token）
+endpoint-context-length-unit = token 上下文
+endpoint-rate-limit-label = 限流
+endpoint-rate-limit-help = 超出限额的请求会在所有运行中任务共享的队列里等待，而不是直接失败。接口返回 HTTP 429 时，该端点的请求会按 Retry-After 暂停后重试，不消耗重试次数，也不切换密钥。留空表示不限制；token 数按输入文本加最大输出长度估算。
+endpoint-rate-limit-unlimited = 不限制
+endpoint-rate-limit-rpm-unit = 次请求 / 分钟
+endpoint-rate-limit-tpm-unit = token / 分钟
+endpoint-azure-api-url-placeholder = https://my-resource.openai.azure.com，或完整的目标 URI
+endpoint-azure-deployment-label = 部署名称
+endpoint-azure-deployment-placeholder = Azure 门户中的部署名称
+endpoint-azure-deployment-help = Azure 按部署名称转发请求。“获取模型”会列出该资源下的部署。
+endpoint-azure-api-mode-label = 接口与 api-version
+endpoint-azure-api-mode-help = Chat Completions 适用于所有部署；部分较新的模型需要 Responses API。api-version 留空时使用显示的默认版本。粘贴完整目标 URI 时，其中的部署名、接口路径与 api-version 优先。
+endpoint-azure-api-mode-chat = Chat Completions
+endpoint-azure-api-mode-responses = Responses API
+endpoint-azure-api-version-label = api-version
+endpoint-http-template-label = 请求体模板
+endpoint-http-template-help = 作为请求体发送的 JSON。整段只有一个双花括号变量的字符串（如 "{ "{{" }messages{ "}}" }"）会替换为变量的原值，变量未设置时删除该字段。可用变量：model、messages（包含系统提示与对话的 role/content 列表）、system、prompt（最新一条用户消息）、stream、temperature、topP、maxTokens、apiKey。
+endpoint-http-template-invalid = JSON 格式错误：{ $reason }
+endpoint-http-auth-label = 鉴权头
+endpoint-http-auth-help = 请求头名称与取值模板，{ "{{" }apiKey{ "}}" } 会替换为 API 密钥；取值需要密钥而端点未填写时不发送该请求头。名称留空则不发送鉴权头。
+endpoint-http-response-path-label = 响应文本路径
+endpoint-http-response-path-help = 非流式 JSON 响应中回答文本所在的位置。键名之间用点号分隔，数组元素写下标，例如 choices.0.message.content。
+endpoint-http-stream-label = 流式文本路径与分隔符
+endpoint-http-stream-help = 每个流式事件中增量文本所在的路径，以及事件之间的分隔符（SSE 为 \n\n，JSON Lines 为 \n）。会自动处理 "data:" 前缀与 [DONE]。路径留空时始终发送非流式请求。
+endpoint-http-error-path-label = 错误消息路径
+endpoint-http-error-path-help = 错误响应中错误消息所在的位置，例如 error.message。
 endpoint-reasoning-label = 思维链长度
 endpoint-test-connection = 测试连接
 endpoint-copy-details = 复制详情
@@ -119,6 +187,31 @@ settings-data-description = 包含任务队列清理、设置导入/导出与一
 settings-data-stat-total = 总任务
 settings-data-stat-completed = 已完成
 settings-data-stat-failed = 失败
+settings-data-history-limit-label = 保留的历史任务数
+settings-data-history-limit-help = 已完成和失败的任务超过此数量时，从最早的开始从队列中移除。设为 0 表示全部保留。
+settings-data-content-cache-title = 附件内容缓存
+settings-data-content-cache-enabled = 缓存附件提取结果
+settings-data-content-cache-enabled-help = 在 AI 总结、AI 精读、思维导图、一图总结和填表之间复用已提取的 PDF 文本、MinerU Markdown 与网页快照文本。缓存按附件文件哈希区分，文件变化后会重新提取。
+settings-data-content-cache-max-label = 缓存容量上限（MB）
+settings-data-content-cache-max-help = 缓存超过此大小时移除最久未使用的条目。设为 0 表示不再写入新缓存。
+settings-data-content-cache-usage = { $count } 个条目，共 { $size } MB
+settings-data-content-cache-clear = 清空内容缓存
+settings-data-content-cache-cleared = ✅ 内容缓存已清空
+settings-data-note-history-title = AI 笔记版本历史
+settings-data-note-history-enabled = 保留 AI 笔记版本历史
+settings-data-note-history-enabled-help = AI 总结或精读笔记在重新生成、逐节改写、编辑或删除时保存快照，并记录提示词、端点与时间。可在侧边栏和总结窗口中对比并恢复历史版本。
+settings-data-note-history-limit-label = 每篇笔记保留的版本数
+settings-data-note-history-limit-help = 同一文献的总结或精读笔记超过此数量时丢弃最早的版本。
+settings-data-note-history-clear = 清空版本历史
+settings-data-note-history-clear-confirm = 确定删除所有已记录的 AI 笔记版本吗？当前笔记不受影响。
+settings-data-note-history-cleared = ✅ 版本历史已清空
+settings-data-semantic-index-title = 语义索引
+settings-data-semantic-index-usage = 已索引 { $notes } 篇笔记、{ $passages } 个段落
+settings-data-semantic-index-progress = 正在索引 { $done } / { $total }...
+settings-data-semantic-index-rebuild = 重建索引
+settings-data-semantic-index-rebuilt = 索引已重建：更新 { $indexed } 篇笔记，失败 { $failed } 篇
+settings-data-semantic-index-clear = 清空索引
+settings-data-semantic-index-cleared = ✅ 语义索引已清空
 settings-data-clear-completed = 🧹 清空已完成任务
 settings-data-clear-completed-done = 已清空已完成任务
 settings-data-clear-all = 🗑️ 清空所有任务
@@ -132,6 +225,7 @@ settings-data-import-json = 📥 导入设置(JSON)
 settings-data-reset-all = ♻️ 恢复所有默认设置
 settings-data-progress-title = 数据管理
 settings-data-close = 关闭
+settings-data-export-include-secrets = 包含 API 密钥（明文）。默认已脱敏，导入时留空的密钥会保留本机现有值。
 settings-data-import-title = 导入设置
 settings-data-import-prompt = 粘贴 JSON：
 settings-data-import-success = ✅ 导入成功
@@ -173,6 +267,9 @@ settings-mindmap-toast-select-folder-failed = 选择目录失败，请手动输
 settings-mindmap-reset-desktop = 重置为桌面
 settings-mindmap-toast-reset-desktop = 已重置为桌面目录
 settings-mindmap-save-path = 保存路径
+settings-mindmap-auto-section = ⚙️ 自动生成
+settings-mindmap-auto-add = AI 总结完成后自动生成思维导图
+settings-mindmap-auto-add-help = ⚠️ 开启后，每个 AI 总结任务都会附带一个思维导图任务，在总结完成后运行并复用已提取的 PDF 内容，会额外消耗 API 额度。
 settings-mindmap-preview-section = 📊 当前配置预览
 settings-mindmap-preview-custom = 自定义
 settings-mindmap-preview-default = 默认
@@ -450,6 +547,8 @@ settings-ui-context-menu-imageSummary-label = AI 管家生成一图总结
 settings-ui-context-menu-imageSummary-description = 文献右键：加入一图总结任务队列
 settings-ui-context-menu-mindmap-label = AI 管家生成思维导图
 settings-ui-context-menu-mindmap-description = 文献右键：加入思维导图任务队列
+settings-ui-context-menu-figureExplain-label = AI 管家逐图解读
+settings-ui-context-menu-figureExplain-description = 论文右键菜单：用支持图片输入的模型逐个解读图表
 settings-ui-context-menu-chatWithAI-label = AI 管家-后续追问
 settings-ui-context-menu-chatWithAI-description = 文献右键：打开当前文献的后续追问界面
 settings-ui-context-menu-literatureReview-label = AI 管家文献综述
@@ -706,6 +805,10 @@ setup-preset-change-deepseek-model = DeepSeek 模型
 setup-preset-local-key-replaced = 本地已有值会被替换
 setup-preset-change-model-priority = 模型优先级
 setup-preset-deepseek-priority-after = DeepSeek 排在第一位
+setup-preset-change-azure-api-url = Azure 资源终结点
+setup-preset-change-azure-deployment = Azure 部署
+setup-preset-azure-priority-after = Azure OpenAI 排在优先级首位
+setup-preset-azure-pdf-after = 该端点使用文本提取
 setup-preset-change-pdf-processing = PDF 处理
 setup-preset-change-auto-scan = 自动扫描
 setup-preset-change-save-chat = 追问保存
@@ -735,12 +838,14 @@ settings-api-temperature-label = Temperature
 settings-api-temperature-help = 控制输出的随机性 (0-2)，值越高输出越随机；未勾选时将不发送该参数
 settings-api-max-tokens-label = Max Tokens
 settings-api-max-tokens-help = 生成内容的最大 token 数；未勾选时将不发送该参数（某些服务可选）
+settings-api-auto-continue-label = 自动续写轮数
+settings-api-auto-continue-help = 输出因 Max Tokens 上限停止或流式输出中途断开时，自动请求模型接着写并拼接结果；此处为每次调用最多追加的请求数，0 表示关闭
 settings-api-top-p-label = Top P
 settings-api-top-p-help = 核采样参数 (0-1)，控制输出的多样性；未勾选时将不发送该参数
 settings-api-stream-label = 流式输出
 settings-api-stream-help = 启用后将实时显示生成过程
 settings-api-prompt-cache-label = 上下文缓存优化
-settings-api-prompt-cache-help = 开启后，多轮精读将复用 AI 服务商的上下文缓存，大幅降低 token 费用——以 DeepSeek 为例，从第 2 轮对话起，论文全文部分约按原价 1/10 计费。对 DeepSeek、OpenAI、Claude 官方接口及大多数兼容服务有效；不支持缓存的服务开启后无收益、也不受影响。极少数第三方服务可能不兼容，若开启后总结或精读功能报错，关闭本开关即可完全恢复原有行为，已生成的笔记不受影响。
+settings-api-prompt-cache-help = 开启后，多轮精读将复用 AI 服务商的上下文缓存，大幅降低 token 费用——以 DeepSeek 为例，从第 2 轮对话起，论文全文部分约按原价 1/10 计费。论文会放在每轮提示词之前以便复用缓存前缀，Gemini 则在每次精读时只上传一次论文作为缓存内容。对 DeepSeek、OpenAI、Claude、Gemini 官方接口及大多数兼容服务有效；不支持缓存的服务开启后无收益、也不受影响。极少数第三方服务可能不兼容，若开启后总结或精读功能报错，关闭本开关即可完全恢复原有行为，已生成的笔记不受影响。
 settings-api-request-timeout-label = 请求超时时间（毫秒）
 settings-api-request-timeout-help = API 请求的超时时间，默认 300000ms（5 分钟），最小 30000ms（30 秒）
 settings-api-batch-size-label = 每批次处理论文数量
@@ -749,6 +854,14 @@ settings-api-batch-interval-label = 批次间隔时间（秒）
 settings-api-batch-interval-help = 每批次之间的等待时间，用于控制 API 调用频率
 settings-api-scan-interval-label = 自动扫描间隔（秒）
 settings-api-scan-interval-help = 后台自动扫描新文献的时间间隔，默认 5 分钟
+settings-api-queue-schedule-enabled-label = 启用队列运行时段
+settings-api-queue-schedule-enabled-help = 启用后，后台队列任务只在对应运行时段内、且不在静默时段时开始；手动发起或标记为“立即运行”的任务不受影响
+settings-api-queue-quiet-hours-label = 静默时段
+settings-api-queue-quiet-hours-placeholder = 例如 mon-fri 09:00-18:00
+settings-api-queue-quiet-hours-help = 这些时段内不会开始任何排队任务，留空表示不启用
+settings-api-queue-window-label = 运行时段：{ $type }
+settings-api-queue-window-placeholder = 留空表示任意时间，例如 mon-fri 22:00-07:00; sat,sun
+settings-api-queue-window-help = 多个时段用“;”分隔；每段可写星期（mon-sun，可用 mon-fri 表示范围）和 HH:MM-HH:MM 时间，结束早于开始表示跨午夜
 settings-api-pdf-mode-selected-base64 = 已选择 Base64 模式：多模态更强，适用于 Gemini 等。
 settings-api-pdf-mode-selected-text = 已选择文本提取模式：仅文字，适用于 Anthropic 等。
 settings-api-pdf-mode-selected-mineru = 已选择 MinerU 模式：需要填写 API Key 以启用高级公式/表格还原。
@@ -771,12 +884,57 @@ settings-api-mineru-external-path-label = 外部文件夹路径
 settings-api-mineru-external-path-help = 开启外部同步后生效；每篇论文会写入该目录下独立的论文子文件夹，包含 Markdown 和 images/ 等资源。
 settings-api-mineru-filename-mode-label = Markdown 文件命名
 settings-api-mineru-filename-mode-help = 优先读取 Zotero/Better BibTeX citationKey；没有 citationKey 时自动回退到条目标题。
+settings-api-ocr-section-title = 扫描版 PDF 的 OCR 兜底
+settings-api-ocr-section-subtitle = 仅在 Zotero 找不到 PDF 文字层时运行
+settings-api-ocr-engine-label = OCR 引擎
+settings-api-ocr-engine-off = 关闭
+settings-api-ocr-engine-command = 本地程序
+settings-api-ocr-engine-help = 识别出的文字进入常规文本处理流程，并与其他提取结果一样被缓存。
+settings-api-ocr-command-label = 程序路径
+settings-api-ocr-command-placeholder = 例如 /usr/local/bin/ocrmypdf
+settings-api-ocr-command-help = 本地 OCR 程序的完整路径。使用默认参数时可直接配合 OCRmyPDF + Tesseract。
+settings-api-ocr-args-label = 命令参数
+settings-api-ocr-args-help = 占位符：{"{"}input{"}"} 源 PDF，{"{"}output{"}"} 需写入的文本文件（页间以换页符分隔），{"{"}outputPdf{"}"} 临时 PDF，{"{"}lang{"}"} 识别语言。留空使用默认参数。
+settings-api-ocr-language-label = 识别语言
+settings-api-ocr-language-help = Tesseract 语言代码，多个用 + 连接，例如 eng+chi_sim。
+settings-api-figures-section-title = 逐图解读
+settings-api-figures-section-subtitle = 图片发送给逐图解读路由到的端点，该端点需支持图片输入
+settings-api-figures-source-label = 图片来源
+settings-api-figures-source-auto = 自动（优先 MinerU，其次渲染页面）
+settings-api-figures-source-mineru = 仅使用 MinerU 图片
+settings-api-figures-source-page-render = 渲染 PDF 页面
+settings-api-figures-source-help = MinerU 图片带有图题和页码；渲染页面时发送整页截图，由模型自行找出图表。
+settings-api-figures-max-images-label = 每篇论文最多图片数
+settings-api-figures-max-images-help = 每张图片发送一次请求；渲染页面时只发送带图表标题的页，最多这么多页。
+settings-api-figures-render-command-label = 页面渲染程序
+settings-api-figures-render-command-placeholder = 例如 /usr/bin/pdftoppm
+settings-api-figures-render-command-help = 把 PDF 页面渲染为 PNG 或 JPEG 的本地程序完整路径。poppler 的 pdftoppm 可直接使用默认参数。
+settings-api-figures-render-args-label = 参数
+settings-api-figures-render-args-help = 占位符：{"{"}input{"}"} 源 PDF，{"{"}outputPrefix{"}"} 输出文件前缀（文件名需以 -页码.png 结尾），{"{"}outputDir{"}"} 输出目录，{"{"}lastPage{"}"} 渲染到的最后一页。留空使用默认参数。
+settings-api-figures-render-max-pages-label = 渲染时检查的页数
+settings-api-figures-render-max-pages-help = 渲染页面时在前这么多页中查找图表标题，只渲染带标题的页；PDF 没有文字层时改为渲染前几页。
+settings-api-embedding-section-title = 语义索引（向量嵌入）
+settings-api-embedding-section-subtitle = 为 AI 总结与精读笔记建立索引，供「语义搜索」使用
+settings-api-embedding-enabled-label = 启用语义索引
+settings-api-embedding-enabled-help = 新建或修改的 AI 笔记会自动索引；已有笔记请在数据管理中点击「重建索引」。
+settings-api-embedding-provider-label = 向量嵌入服务
+settings-api-embedding-provider-openai-compat = OpenAI 兼容（/v1/embeddings）
+settings-api-embedding-provider-ollama = Ollama（本地）
+settings-api-embedding-provider-help = Ollama 在本地运行，无需 API 密钥，例如使用 nomic-embed-text 模型。
+settings-api-embedding-url-label = 嵌入接口地址
+settings-api-embedding-url-help = 也可填写基础地址，如 https://api.openai.com/v1 或 http://localhost:11434。
+settings-api-embedding-key-label = 嵌入接口密钥
+settings-api-embedding-key-placeholder = 使用 Ollama 时可留空
+settings-api-embedding-model-label = 嵌入模型
+settings-api-embedding-model-help = 更换模型后需重建索引，其他模型生成的向量不参与检索。
 settings-api-pdf-size-limit-label = 附件大小限制
 settings-api-pdf-size-limit-help = 启用后，超过指定大小的 PDF 文件将在自动扫描时被跳过，避免大型扫描版书籍触发 API 限制
 settings-api-pdf-attachment-selected-all = 已选择全部 PDF 模式：将同时发送所有附件给大模型
 settings-api-pdf-attachment-selected-default = 已选择默认 PDF 模式：仅使用最早添加的附件
 settings-api-pdf-attachment-mode-label = 多 PDF 附件模式
 settings-api-pdf-attachment-mode-help = 当论文有多个 PDF 附件时的处理方式。选择“全部 PDF”时会使用当前 Provider 的多 PDF 上传能力；具体可用性取决于所选模型和服务端是否支持 PDF 输入
+settings-api-long-document-concurrency-label = 长文档分块并发数
+settings-api-long-document-concurrency-help = 模型启用长文档分块总结时，同时请求的分块数量
 settings-api-field-gemini-api-url = API 基础地址(Gemini)
 settings-api-field-gemini-api-key = API 密钥(Gemini)
 settings-api-field-gemini-model = 模型名称(Gemini)
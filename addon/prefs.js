@@ -42,13 +42,22 @@ pref("__prefsPrefix__.ollamaApiKey", "");
 pref("__prefsPrefix__.ollamaModel", "llama3.2");
 pref("__prefsPrefix__.llmEndpoints", "[]");
 pref("__prefsPrefix__.llmRoutingStrategy", "priority");
+pref("__prefsPrefix__.llmRoutingRules", "{}"); // 按任务类型的端点路由规则（JSON）
 pref("__prefsPrefix__.llmRoundRobinCursor", "");
+pref("__prefsPrefix__.llmEndpointHealth", ""); // 端点健康统计与熔断状态（JSON）
+pref("__prefsPrefix__.llmReplayRecordPath", ""); // 录制 LLM 请求的回放夹具文件路径，留空不录制
 pref("__prefsPrefix__.multiModelSummaryEnabled", false);
 pref("__prefsPrefix__.multiModelSummaryEndpointIds", "[]");
+pref("__prefsPrefix__.multiModelSummaryJudgeEndpointId", ""); // 合并多模型总结的裁判端点，空为不合并
+pref("__prefsPrefix__.usageLedgerRetentionDays", "400");
+pref("__prefsPrefix__.usagePriceTable", "{}"); // 模型单价（每百万 token）
+pref("__prefsPrefix__.usageCurrency", "USD");
+pref("__prefsPrefix__.usageBudgets", ""); // 用量预算上限（JSON，全局/按端点）
 pref("__prefsPrefix__.temperature", "0.7");
 pref("__prefsPrefix__.enableTemperature", false);
 pref("__prefsPrefix__.maxTokens", "81920");
 pref("__prefsPrefix__.enableMaxTokens", false);
+pref("__prefsPrefix__.autoContinueMaxRounds", "2"); // 输出截断后自动续写的最大轮数，0 为关闭
 pref("__prefsPrefix__.topP", "1.0");
 pref("__prefsPrefix__.enableTopP", false);
 pref("__prefsPrefix__.reasoningEffort", "default");
@@ -63,6 +72,15 @@ pref("__prefsPrefix__.mineruSaveAsAttachment", true);
 pref("__prefsPrefix__.mineruSyncExternal", false);
 pref("__prefsPrefix__.mineruExternalPath", "");
 pref("__prefsPrefix__.mineruFileNameMode", "citationKey-title");
+pref("__prefsPrefix__.pdfOcrEngine", "off"); // 扫描版 PDF 的 OCR 兜底引擎："off" 或 "command"
+pref("__prefsPrefix__.pdfOcrCommand", ""); // 本地 OCR 程序路径
+pref("__prefsPrefix__.pdfOcrArgs", ""); // OCR 程序参数模板，空表示使用默认参数
+pref("__prefsPrefix__.pdfOcrLanguage", "eng"); // OCR 识别语言（Tesseract 语言代码）
+pref("__prefsPrefix__.figureExplainSource", "auto"); // 图表解读的图片来源："auto"、"mineru" 或 "pageRender"
+pref("__prefsPrefix__.figureExplainMaxImages", 20); // 每篇论文最多解读的图片数
+pref("__prefsPrefix__.figurePageRenderCommand", ""); // 本地 PDF 页面渲染程序路径（如 pdftoppm）
+pref("__prefsPrefix__.figurePageRenderArgs", ""); // 页面渲染参数模板，空表示使用默认参数
+pref("__prefsPrefix__.figurePageRenderMaxPages", 50); // 渲染页面时最多检查的页数，只渲染其中带图题的页
 
 // ==================== 提示词配置 ====================
 pref(
@@ -85,12 +103,30 @@ pref("__prefsPrefix__.legacyAiNoteRenamePromptState", "");
 pref("__prefsPrefix__.maxRetries", "3");
 pref("__prefsPrefix__.batchSize", "1");
 pref("__prefsPrefix__.batchInterval", "60");
+pref("__prefsPrefix__.queueScheduleEnabled", false); // 是否启用队列时间窗
+pref("__prefsPrefix__.queueQuietHours", ""); // 静默时段，如 "mon-fri 09:00-18:00"
+pref("__prefsPrefix__.queueScheduleWindows", "{}"); // 按任务类型的运行时间窗（JSON）
+pref("__prefsPrefix__.taskHistoryLimit", 1000); // 保留的已完成/失败任务数，0 表示不限制
+pref("__prefsPrefix__.taskQueueStoreRevision", ""); // 任务存储修订号，用于跨窗口同步
+pref("__prefsPrefix__.taskQueueDeletedTasks", "[]"); // 用户删除的自动任务标记（JSON）
 pref("__prefsPrefix__.autoScan", false);
 pref("__prefsPrefix__.autoScanSummaryEnabled", true);
 pref("__prefsPrefix__.autoScanDeepReadEnabled", false);
 pref("__prefsPrefix__.scanInterval", "300");
 pref("__prefsPrefix__.pdfProcessMode", "base64"); // "text"、"base64" 或 "mineru"
 pref("__prefsPrefix__.pdfAttachmentMode", "default"); // "default" 或 "all"
+pref("__prefsPrefix__.longDocumentConcurrency", 3); // 长文档分块总结时同时请求的分块数
+pref("__prefsPrefix__.contentCacheEnabled", true); // 缓存附件提取结果（文本/MinerU/快照），多个任务共用
+pref("__prefsPrefix__.contentCacheMaxMB", 200); // 内容缓存容量上限（MB），超出时淘汰最久未用的条目
+pref("__prefsPrefix__.aiNoteHistoryEnabled", true); // 改写 AI 总结/精读笔记前后留存版本快照，可对比与恢复
+pref("__prefsPrefix__.aiNoteHistoryLimit", 50); // 每条文献每类 AI 笔记保留的历史版本数
+
+// ==================== 语义索引配置 ====================
+pref("__prefsPrefix__.semanticIndexEnabled", false); // 为 AI 总结/精读笔记建立向量索引，供语义搜索使用
+pref("__prefsPrefix__.embeddingProvider", "openai-compat"); // "openai-compat" 或 "ollama"
+pref("__prefsPrefix__.embeddingApiUrl", "https://api.openai.com/v1/embeddings");
+pref("__prefsPrefix__.embeddingApiKey", "");
+pref("__prefsPrefix__.embeddingModel", "text-embedding-3-small");
 
 // ==================== 一图总结配置 ====================
 pref("__prefsPrefix__.imageSummaryCustomHeaders", ""); // 额外请求 Headers，JSON/Python dict 对象字符串
@@ -149,6 +185,7 @@ pref("__prefsPrefix__.noteExportSuppressDirectoryPrompt", false);
 // ==================== 思维导图配置 ====================
 pref("__prefsPrefix__.mindmapPrompt", ""); // 空表示使用默认提示词
 pref("__prefsPrefix__.mindmapExportPath", ""); // 空表示使用桌面目录
+pref("__prefsPrefix__.autoMindmapOnComplete", false); // AI 总结完成后自动生成思维导图
 
 // ==================== 新手教程配置 ====================
 pref("__prefsPrefix__.onboardingTutorialSeenVersion", "");
@@ -26,6 +26,9 @@ import { getString, initLocale, getLocaleID } from "./utils/locale";
 import { registerPrefsScripts } from "./modules/preferenceScript";
 import { createZToolkit } from "./utils/ztoolkit";
 import { TaskQueueManager } from "./modules/taskQueue";
+import { TaskQueueStore } from "./modules/taskQueueStore";
+import { UsageLedger } from "./modules/usageLedger";
+import { EndpointHealth } from "./modules/endpointHealth";
 import {
   registerLibraryStatusColumn,
   unregisterLibraryStatusColumn,
@@ -41,6 +44,8 @@ import {
 import { MainWindow } from "./modules/views/MainWindow";
 import { AutoScanManager } from "./modules/autoScanManager";
 import { AutoNoteExportManager } from "./modules/autoNoteExportManager";
+import { SemanticIndex } from "./modules/semanticIndex";
+import { SemanticIndexManager } from "./modules/semanticIndexManager";
 import {
   CONTEXT_MENU_ITEMS,
   DEFAULT_CONTEXT_MENU_COLLAPSED,
@@ -55,7 +60,7 @@ import {
   type ContextMenuItemId,
 } from "./modules/uiCustomization";
 import { config } from "../package.json";
-import { getPref, setPref } from "./utils/prefs";
+import { getPref, migrateSecretPrefs, setPref } from "./utils/prefs";
 import { LLMEndpointManager } from "./modules/llmEndpointManager";
 import { promptLegacyAiNoteRenameIfNeeded } from "./modules/legacyAiNoteMigration";
 import {
@@ -96,6 +101,12 @@ async function onStartup() {
   // 确保即使用户首次使用,也能有合理的默认设置
   initializeDefaultPrefsOnStartup();
 
+  // 将仍以明文保存在偏好中的 API 密钥迁移到登录管理器
+  migrateApiKeysOnStartup();
+
+  // 读入用量账本（并迁移旧版首选项中的账本），供预算检查与仪表盘使用
+  void UsageLedger.load();
+
   // 注册插件偏好设置面板
   // 用户可以通过 Zotero 设置界面访问和修改插件配置
   registerPrefsPane();
@@ -122,6 +133,9 @@ async function onStartup() {
 
   AutoNoteExportManager.getInstance().start();
 
+  // 启动 AI 笔记语义索引的增量更新
+  SemanticIndexManager.getInstance().start();
+
   // 标记插件初始化完成
   // 某些功能依赖此标志来判断插件是否已准备好
   addon.data.initialized = true;
@@ -216,6 +230,23 @@ function registerPrefsPane() {
   Zotero.PreferencePanes.register(prefOptions);
 }
 
+/**
+ * 把明文保存的 API 密钥（旧版偏好与端点 JSON）迁移到登录管理器
+ */
+function migrateApiKeysOnStartup() {
+  try {
+    const prefCount = migrateSecretPrefs();
+    const endpointsMigrated = LLMEndpointManager.migrateApiKeys();
+    if (prefCount > 0 || endpointsMigrated) {
+      ztoolkit.log(
+        `[AI-Butler] 已迁移明文 API 密钥: 偏好 ${prefCount} 项, 端点 ${endpointsMigrated ? "已迁移" : "无需迁移"}`,
+      );
+    }
+  } catch (error) {
+    ztoolkit.log("[AI-Butler] API 密钥迁移失败", error);
+  }
+}
+
 /**
  * 插件启动时初始化默认配置
  *
@@ -256,9 +287,12 @@ function initializeDefaultPrefsOnStartup() {
     ollamaModel: "llama3.2",
     llmEndpoints: "[]",
     llmRoutingStrategy: "priority",
+    llmRoutingRules: "{}",
     llmRoundRobinCursor: "",
+    llmReplayRecordPath: "",
     multiModelSummaryEnabled: false,
     multiModelSummaryEndpointIds: "[]",
+    multiModelSummaryJudgeEndpointId: "",
     // 备用 API 密钥列表（JSON 数组格式）
     openaiApiKeysFallback: "[]",
     openaiCompatApiKeysFallback: "[]",
@@ -362,6 +396,7 @@ const CONTEXT_MENU_DOM_IDS: Record<ContextMenuItemId, string> = {
   dashboard: "zotero-itemmenu-ai-butler-dashboard",
   imageSummary: "zotero-itemmenu-ai-butler-image-summary",
   mindmap: "zotero-itemmenu-ai-butler-mindmap",
+  figureExplain: "zotero-itemmenu-ai-butler-figure-explain",
   chatWithAI: "zotero-itemmenu-ai-butler-chat",
   literatureReview: "zotero-collectionmenu-ai-butler-literature-review",
   clearCollectionAiNotes:
@@ -1135,6 +1170,20 @@ function registerContextMenuItem() {
           isContextMenuItemEnabled("mindmap") && isRegularItemSelection(),
       },
     },
+    figureExplain: {
+      scope: "item",
+      options: {
+        tag: "menuitem",
+        id: CONTEXT_MENU_DOM_IDS.figureExplain,
+        label: getString("menuitem-figureExplain"),
+        icon: menuIcon,
+        commandListener: async () => {
+          await handleFigureExplain();
+        },
+        getVisibility: () =>
+          isContextMenuItemEnabled("figureExplain") && isRegularItemSelection(),
+      },
+    },
     chatWithAI: {
       scope: "item",
       options: {
@@ -1701,8 +1750,22 @@ async function onMainWindowUnload(win: Window): Promise<void> {
  * - 所有插件功能将不可用
  * - 需要重启 Zotero 才能重新加载插件
  */
-function onShutdown(): void {
+async function onShutdown(): Promise<void> {
   AutoNoteExportManager.getInstance().stop();
+  SemanticIndexManager.getInstance().stop();
+  EndpointHealth.flush();
+
+  // 关闭任务队列等数据库：等待未完成的写入落盘后再卸载插件
+  const closing = await Promise.allSettled([
+    TaskQueueStore.close(),
+    SemanticIndex.close(),
+    UsageLedger.close(),
+  ]);
+  closing.forEach((result) => {
+    if (result.status === "rejected") {
+      ztoolkit.log("[AI-Butler] 关闭数据库失败:", result.reason);
+    }
+  });
 
   // 注销文献库 AI 精读状态列和相关监听
   unregisterLibraryStatusColumn();
@@ -1925,6 +1988,74 @@ async function handleMindmapGeneration() {
   }
 }
 
+/**
+ * 处理逐图解读请求
+ *
+ * 为选中的文献条目逐个解读图表并保存到笔记中
+ */
+async function handleFigureExplain() {
+  // 1. 获取选中条目
+  const items = Zotero.getActiveZoteroPane().getSelectedItems();
+  if (!items || items.length === 0) {
+    new ztoolkit.ProgressWindow("AI Butler", {
+      closeOnClick: true,
+      closeTime: 3000,
+    })
+      .createLine({
+        text: getString("task-error-no-paper-selected"),
+        type: "error",
+      })
+      .show();
+    return;
+  }
+
+  // 只处理第一个选中的条目
+  const item = items[0];
+  if (!item.isRegularItem()) {
+    new ztoolkit.ProgressWindow("AI Butler", {
+      closeOnClick: true,
+      closeTime: 3000,
+    })
+      .createLine({
+        text: getString("task-error-select-regular-item"),
+        type: "error",
+      })
+      .show();
+    return;
+  }
+
+  try {
+    // 添加到任务队列
+    const { TaskQueueManager } = await import("./modules/taskQueue");
+    const manager = TaskQueueManager.getInstance();
+    await manager.addFigureExplainTask(item);
+
+    // 显示开始提示
+    new ztoolkit.ProgressWindow("AI Butler", {
+      closeOnClick: true,
+      closeTime: 3000,
+    })
+      .createLine({
+        text: getString("figure-explain-queue-added"),
+        type: "success",
+      })
+      .show();
+  } catch (error: any) {
+    ztoolkit.log("[AI-Butler] 添加逐图解读任务失败:", error);
+    new ztoolkit.ProgressWindow("AI Butler", {
+      closeOnClick: true,
+      closeTime: 5000,
+    })
+      .createLine({
+        text: getString("task-queue-add-failed", {
+          args: { error: error.message || error },
+        }),
+        type: "error",
+      })
+      .show();
+  }
+}
+
 /**
  * 处理文献综述生成
 
@@ -41,6 +41,13 @@ import {
   type QuickChatRelatedMode,
 } from "./quickChatRelatedContext";
 import { openQuickChatRelatedSelectorDialog } from "./quickChatRelatedSelector";
+import {
+  QUICK_CHAT_TOOL_NAMES,
+  QUICK_CHAT_TOOLS,
+  createQuickChatToolExecutor,
+  summarizeQuickChatToolArguments,
+} from "./quickChatTools";
+import type { LLMToolEvent } from "./llmService";
 import {
   addZoteroNoteOverflowGuards,
   buildFollowUpChatPairNoteHtml,
@@ -52,6 +59,9 @@ import {
 } from "./noteMarkdown";
 import { AiNoteService, type AiNoteKind } from "./aiNoteService";
 import { SummaryView } from "./views/SummaryView";
+import { createSummaryComparisonPanel } from "./views/ui/SummaryComparisonPanel";
+import { createAiNoteHistoryPanel } from "./views/ui/AiNoteHistoryPanel";
+import { AiNoteHistory } from "./aiNoteHistory";
 import katex from "katex";
 // 注意: 不在主进程中直接 import 思维导图库（如 markmap-view、simple-mind-map）
 // 这些库在加载时会访问 document/window，而 Zotero Background 进程没有 DOM 环境
@@ -73,6 +83,7 @@ interface ChatState {
   isChatting: boolean;
   abortController: ChatAbortControllerLike | null;
   savedPairIds: Set<string>; // 已保存的对话对 ID，防止重复保存
+  toolsEnabled: boolean; // 本次对话是否允许模型调用文献库工具
 }
 
 // 递增的对话对 ID 计数器
@@ -157,6 +168,7 @@ let currentChatState: ChatState = {
   isChatting: false,
   abortController: null,
   savedPairIds: new Set(),
+  toolsEnabled: true,
 };
 
 type SidebarAutoRefreshTarget =
@@ -246,7 +258,7 @@ function setButtonDisabled(btn: HTMLButtonElement | null, disabled: boolean) {
 
 function updateSidebarNoteEditControls(
   doc: Document,
-  mode: "missing" | "preview" | "editing" | "saving",
+  mode: "missing" | "preview" | "comparing" | "editing" | "saving",
   message = "",
   messageColor?: string,
   kind: AiNoteKind = "summary",
@@ -272,6 +284,9 @@ function updateSidebarNoteEditControls(
   const metadataButton = doc.getElementById(
     getSidebarNoteElementId("ai-butler-note-metadata-button", kind),
   ) as HTMLButtonElement | null;
+  const historyBtn = doc.getElementById(
+    getSidebarNoteElementId("ai-butler-note-history-btn", kind),
+  ) as HTMLButtonElement | null;
 
   const isEditing = mode === "editing" || mode === "saving";
   if (editBtn) {
@@ -288,6 +303,18 @@ function updateSidebarNoteEditControls(
   }
   setButtonDisabled(copyBtn, mode !== "preview");
   setButtonDisabled(deleteBtn, mode !== "preview");
+  setButtonDisabled(historyBtn, isEditing);
+  if (historyBtn) {
+    const historyActive = historyBtn.dataset.active === "1";
+    historyBtn.title = getString(
+      historyActive
+        ? "itempane-note-history-exit-tooltip"
+        : "itempane-note-history-tooltip",
+    );
+    historyBtn.style.background = historyActive
+      ? "rgba(89, 192, 188, 0.22)"
+      : "transparent";
+  }
 
   if (metadataSelector) {
     metadataSelector.disabled = isEditing;
@@ -846,6 +873,7 @@ function renderItemPaneSection(
       isChatting: false,
       abortController: null,
       savedPairIds: new Set(),
+      toolsEnabled: true,
     };
   }
 
@@ -1202,8 +1230,50 @@ function renderNoteSection(
       metadataMenu.style.display === "none" ? "block" : "none";
   });
 
+  // 并排对比：切换后内容区显示多个区块的对比，菜单用于勾选参与对比的区块
+  const compareButton = doc.createElement("button");
+  compareButton.id = getSidebarNoteElementId(
+    "ai-butler-note-compare-button",
+    noteKind,
+  );
+  compareButton.type = "button";
+  compareButton.textContent = "⇆";
+  compareButton.title = getString("itempane-note-compare-tooltip");
+  compareButton.style.cssText = `
+    display: none;
+    align-items: center;
+    justify-content: center;
+    height: 22px;
+    min-width: 24px;
+    padding: 0 6px;
+    border: 1px solid rgba(128, 128, 128, 0.35);
+    border-radius: 999px;
+    background: rgba(128, 128, 128, 0.08);
+    color: inherit;
+    font-size: 12px;
+    line-height: 1;
+    cursor: pointer;
+  `;
+  compareButton.addEventListener("click", (e: Event) => {
+    e.stopPropagation();
+    if (metadataButton.disabled) return;
+    if (metadataSelector.dataset.compare === "1") {
+      delete metadataSelector.dataset.compare;
+    } else {
+      metadataSelector.dataset.compare = "1";
+    }
+    hideSidebarMetadataMenu(doc, noteKind);
+    const contentEl = doc.getElementById(
+      getSidebarNoteElementId("ai-butler-note-content", noteKind),
+    ) as HTMLElement | null;
+    if (contentEl) {
+      void loadNoteContent(doc, item, contentEl, noteKind);
+    }
+  });
+
   metadataPicker.appendChild(metadataSelector);
   metadataPicker.appendChild(metadataButton);
+  metadataPicker.appendChild(compareButton);
   noteTitle.appendChild(metadataPicker);
 
   const mainControls = doc.createElement("div");
@@ -1472,6 +1542,32 @@ function renderNoteSection(
   });
   mainControls.appendChild(editBtn);
 
+  // 版本历史：切换后内容区显示历史版本对比，笔记被删除后仍可从这里恢复
+  const historyBtn = createNoteActionBtn(
+    "🕘",
+    getString("itempane-note-history-tooltip"),
+  );
+  historyBtn.id = getSidebarNoteElementId(
+    "ai-butler-note-history-btn",
+    noteKind,
+  );
+  historyBtn.addEventListener("click", (e: Event) => {
+    e.stopPropagation();
+    if (historyBtn.disabled) return;
+    if (historyBtn.dataset.active === "1") {
+      delete historyBtn.dataset.active;
+    } else {
+      historyBtn.dataset.active = "1";
+    }
+    void loadNoteContent(doc, item, noteContent, noteKind);
+  });
+  historyBtn.addEventListener("mouseleave", () => {
+    if (historyBtn.dataset.active === "1") {
+      historyBtn.style.background = "rgba(89, 192, 188, 0.22)";
+    }
+  });
+  mainControls.appendChild(historyBtn);
+
   const deleteBlockBtn = createNoteActionBtn(
     "🗑️",
     getString("itempane-note-delete-current-model-summary"),
@@ -3159,6 +3255,31 @@ function renderChatArea(
   clearRelatedBtn.style.fontSize = "11px";
   clearRelatedBtn.style.padding = "0 9px";
 
+  // 文献库工具开关：仅影响当前对话
+  const toolsToggleBtn = createRelatedButton("🛠");
+  toolsToggleBtn.dataset.outlined = "true";
+  const renderToolsToggle = (): void => {
+    const enabled = currentChatState.toolsEnabled;
+    const title = enabled
+      ? getString("itempane-quick-chat-tools-on")
+      : getString("itempane-quick-chat-tools-off");
+    toolsToggleBtn.title = title;
+    toolsToggleBtn.setAttribute("aria-label", title);
+    toolsToggleBtn.dataset.active = enabled ? "true" : "false";
+    toolsToggleBtn.style.opacity = enabled ? "1" : "0.5";
+    toolsToggleBtn.style.background = enabled
+      ? "rgba(89, 192, 188, 0.16)"
+      : "transparent";
+    toolsToggleBtn.style.borderColor = enabled
+      ? "rgba(89, 192, 188, 0.55)"
+      : "rgba(89, 192, 188, 0.45)";
+  };
+  toolsToggleBtn.addEventListener("click", () => {
+    currentChatState.toolsEnabled = !currentChatState.toolsEnabled;
+    renderToolsToggle();
+  });
+  renderToolsToggle();
+
   let quickChatPinnedToBottom = true;
 
   const setRelatedStatus = (
@@ -3566,6 +3687,7 @@ function renderChatArea(
   });
 
   composerTools.appendChild(openPickerBtn);
+  composerTools.appendChild(toolsToggleBtn);
   composerTools.appendChild(relatedStatus);
   composerTools.appendChild(clearRelatedBtn);
   composerActions.appendChild(stopBtn);
@@ -3771,6 +3893,21 @@ function renderChatArea(
       cursor: text;
     `;
     aiMsgDiv.innerHTML = `<strong>${getString("itempane-assistant-label")}</strong> <em style="color: #999;">${getString("itempane-thinking")}</em>`;
+
+    // 工具调用记录（模型调用文献库工具时显示）
+    const toolLog = doc.createElement("div");
+    toolLog.className = "ai-butler-quick-chat-tools";
+    toolLog.style.cssText = `
+      display: none;
+      margin-bottom: 8px;
+      padding: 4px 8px;
+      border-left: 3px solid rgba(128, 128, 128, 0.35);
+      color: rgba(128, 128, 128, 0.95);
+      font-size: 11px;
+      line-height: 1.6;
+      overflow-wrap: anywhere;
+    `;
+    pairWrapper.appendChild(toolLog);
     pairWrapper.appendChild(aiMsgDiv);
 
     // 创建保存按钮区域（初始隐藏）
@@ -3911,6 +4048,23 @@ function renderChatArea(
         transport: {
           abortSignal: currentChatState.abortController?.signal,
         },
+        metadata: {
+          taskType: "quickChat",
+          itemId: currentChatState.itemId ?? undefined,
+        },
+        tools: currentChatState.toolsEnabled
+          ? {
+              definitions: QUICK_CHAT_TOOLS,
+              execute: createQuickChatToolExecutor({
+                libraryID: item.libraryID,
+              }),
+              onEvent: (event) => {
+                const shouldFollowTools = quickChatPinnedToBottom;
+                renderQuickChatToolEvent(doc, toolLog, event);
+                scrollQuickChatToBottomIfPinned(shouldFollowTools);
+              },
+            }
+          : undefined,
         onProgress: (chunk: string) => {
           fullResponse += chunk;
           const shouldFollowStream = quickChatPinnedToBottom;
@@ -4148,6 +4302,58 @@ async function confirmQuickChatNewConversation(
   });
 }
 
+function getQuickChatToolLabel(name: string): string {
+  switch (name) {
+    case QUICK_CHAT_TOOL_NAMES.searchItems:
+      return getString("itempane-quick-chat-tool-search-items");
+    case QUICK_CHAT_TOOL_NAMES.getItemSummary:
+      return getString("itempane-quick-chat-tool-get-item-summary");
+    case QUICK_CHAT_TOOL_NAMES.getAttachmentText:
+      return getString("itempane-quick-chat-tool-get-attachment-text");
+    case QUICK_CHAT_TOOL_NAMES.listCollectionItems:
+      return getString("itempane-quick-chat-tool-list-collection-items");
+    default:
+      return name;
+  }
+}
+
+/**
+ * 在回答上方逐行显示工具调用：调用时显示进行中，结果返回后更新为完成或失败
+ */
+function renderQuickChatToolEvent(
+  doc: Document,
+  container: HTMLElement,
+  event: LLMToolEvent,
+): void {
+  const tool = getQuickChatToolLabel(event.call.name);
+  const detail = summarizeQuickChatToolArguments(event.call);
+  container.style.display = "block";
+  if (event.type === "call") {
+    const line = doc.createElement("div");
+    line.dataset.toolCallId = event.call.id;
+    line.textContent = getString("itempane-quick-chat-tool-running", {
+      args: { tool, detail },
+    });
+    container.appendChild(line);
+    return;
+  }
+  const line =
+    Array.from(container.children).find(
+      (child) => (child as HTMLElement).dataset.toolCallId === event.call.id,
+    ) || container.appendChild(doc.createElement("div"));
+  line.textContent = event.result.isError
+    ? getString("itempane-quick-chat-tool-failed", {
+        args: { tool, detail },
+      })
+    : getString("itempane-quick-chat-tool-done", {
+        args: { tool, detail },
+      });
+  if (event.result.isError) {
+    (line as HTMLElement).title = event.result.content;
+    (line as HTMLElement).style.color = "#ff9800";
+  }
+}
+
 /**
  * 转义 HTML 字符（用于聊天显示）
  */
@@ -4574,6 +4780,8 @@ function hideSidebarMetadataPicker(
     selector.innerHTML = "";
     selector.onchange = null;
     delete selector.dataset.selectedIndex;
+    delete selector.dataset.compare;
+    delete selector.dataset.compareBlockIds;
   }
   if (menu) {
     menu.innerHTML = "";
@@ -4611,6 +4819,65 @@ function updateSidebarMetadataButtonLabel(
   button.title = getSummaryBlockShortLabel(block);
 }
 
+/**
+ * 对比模式下的按钮状态：对比中高亮，并把区块按钮改为显示参与对比的数量
+ */
+function updateSidebarCompareButton(
+  doc: Document,
+  kind: AiNoteKind,
+  canCompare: boolean,
+  comparingCount: number,
+): void {
+  const compareButton = doc.getElementById(
+    getSidebarNoteElementId("ai-butler-note-compare-button", kind),
+  ) as HTMLButtonElement | null;
+  if (compareButton) {
+    compareButton.style.display = canCompare ? "inline-flex" : "none";
+    compareButton.title = getString(
+      comparingCount > 0
+        ? "itempane-note-compare-exit-tooltip"
+        : "itempane-note-compare-tooltip",
+    );
+    compareButton.style.background =
+      comparingCount > 0
+        ? "rgba(89, 192, 188, 0.22)"
+        : "rgba(128, 128, 128, 0.08)";
+  }
+  if (comparingCount > 0) {
+    const button = doc.getElementById(
+      getSidebarNoteElementId("ai-butler-note-metadata-button", kind),
+    ) as HTMLButtonElement | null;
+    if (button) {
+      button.textContent = getString("itempane-note-compare-label", {
+        args: { count: comparingCount },
+      });
+    }
+  }
+}
+
+/**
+ * 参与对比的区块：按勾选记录筛选（不足两个时取全部），当前选中的区块作为基准排在最前
+ */
+function getSidebarCompareBlocks(
+  selector: HTMLSelectElement,
+  blocks: ReturnType<typeof LLMNoteMetadataService.parseSummaryBlocks>,
+  selectedIndex: number,
+): ReturnType<typeof LLMNoteMetadataService.parseSummaryBlocks> {
+  let chosenIds: string[] = [];
+  try {
+    const parsed = JSON.parse(selector.dataset.compareBlockIds || "[]");
+    if (Array.isArray(parsed)) chosenIds = parsed.map(String);
+  } catch {
+    chosenIds = [];
+  }
+  let chosen = blocks.filter((block) => chosenIds.includes(block.blockId));
+  if (chosen.length < 2) chosen = blocks;
+  const base = blocks[selectedIndex];
+  return base && chosen.includes(base)
+    ? [base, ...chosen.filter((block) => block !== base)]
+    : chosen;
+}
+
 function normalizeEditableNoteHtml(html: string): string {
   return html.trim();
 }
@@ -4921,6 +5188,9 @@ async function saveSidebarNoteEdit(
 
     (latestNote as any).setNote(nextHtml);
     await (latestNote as any).saveTx();
+    await AiNoteHistory.recordChange(item, noteKind, latestHtml, nextHtml, {
+      reason: "edit",
+    });
 
     sidebarNoteEditState = null;
     resetSidebarNoteContentEditMode(noteContent);
@@ -5059,6 +5329,7 @@ async function deleteSidebarSummaryBlock(
     );
     if (!LLMNoteMetadataService.hasSummaryBlocks(nextHtml)) {
       await (latestNote as any).eraseTx?.();
+      await AiNoteHistory.recordChange(item, noteKind, latestHtml, "");
       hideSidebarMetadataPicker(doc, noteKind);
       noteContent.innerHTML = `<div style="color: #999; text-align: center; padding: 10px;">${getString("itempane-status-refreshing")}</div>`;
       await loadNoteContent(doc, item, noteContent, noteKind);
@@ -5075,6 +5346,9 @@ async function deleteSidebarSummaryBlock(
 
     (latestNote as any).setNote(nextHtml);
     await (latestNote as any).saveTx();
+    await AiNoteHistory.recordChange(item, noteKind, latestHtml, nextHtml, {
+      reason: "delete",
+    });
 
     const remainingCount = getDisplaySummaryBlocks(
       LLMNoteMetadataService.parseSummaryBlocks(nextHtml),
@@ -5129,6 +5403,32 @@ async function loadNoteContent(
     }
 
     resetSidebarNoteContentEditMode(noteContent);
+    const historyBtn = doc.getElementById(
+      getSidebarNoteElementId("ai-butler-note-history-btn", noteKind),
+    ) as HTMLButtonElement | null;
+    if (historyBtn?.dataset.active === "1") {
+      hideSidebarMetadataPicker(doc, noteKind);
+      noteContent.innerHTML = "";
+      noteContent.appendChild(
+        createAiNoteHistoryPanel(doc, {
+          item,
+          kind: noteKind,
+          onRestored: async () => {
+            delete historyBtn.dataset.active;
+            await loadNoteContent(doc, item, noteContent, noteKind);
+            setSidebarNoteEditStatus(
+              doc,
+              getString("ai-note-history-restored"),
+              "#4caf50",
+              noteKind,
+            );
+          },
+        }),
+      );
+      updateSidebarNoteEditControls(doc, "comparing", "", undefined, noteKind);
+      return;
+    }
+
     let aiNoteContent = "";
     const resolvedNote = await resolveSidebarSummaryNote(item, noteKind);
 
@@ -5163,6 +5463,7 @@ async function loadNoteContent(
       summaryBlocks,
       getSavedSidebarSummaryBlockId(item.id, resolvedNote.note.id, noteKind),
     );
+    let compareBlocks: typeof summaryBlocks = [];
     const metadataSelector = doc.getElementById(
       getSidebarNoteElementId("ai-butler-note-metadata-selector", noteKind),
     ) as HTMLSelectElement | null;
@@ -5188,6 +5489,55 @@ async function loadNoteContent(
         metadataMenu.innerHTML = "";
       }
 
+      const canCompare = summaryBlocks.length >= 2;
+      if (!canCompare) {
+        delete metadataSelector.dataset.compare;
+        delete metadataSelector.dataset.compareBlockIds;
+      }
+      const comparing = metadataSelector.dataset.compare === "1";
+      if (comparing) {
+        compareBlocks = getSidebarCompareBlocks(
+          metadataSelector,
+          summaryBlocks,
+          selectedBlockIndex,
+        );
+      }
+      const compareBlockIds = compareBlocks.map((block) => block.blockId);
+
+      const reloadNoteContent = () => {
+        const contentEl = doc.getElementById(
+          getSidebarNoteElementId("ai-butler-note-content", noteKind),
+        ) as HTMLElement | null;
+        if (contentEl) {
+          contentEl.innerHTML = `<div style="color: #999; text-align: center; padding: 10px;">${getString("itempane-note-switching-model")}</div>`;
+          void loadNoteContent(
+            doc,
+            item,
+            contentEl,
+            getNoteKindFromElement(contentEl),
+          );
+        }
+      };
+
+      const toggleCompareBlock = (index: number) => {
+        const blockId = summaryBlocks[index]?.blockId;
+        if (!blockId) return;
+        const next = compareBlockIds.includes(blockId)
+          ? compareBlockIds.filter((id) => id !== blockId)
+          : [...compareBlockIds, blockId];
+        if (next.length < 2) {
+          setSidebarNoteEditStatus(
+            doc,
+            getString("itempane-note-compare-need-two"),
+            undefined,
+            noteKind,
+          );
+          return;
+        }
+        metadataSelector.dataset.compareBlockIds = JSON.stringify(next);
+        reloadNoteContent();
+      };
+
       const selectSummaryBlock = (index: number) => {
         if (isSidebarNoteEditing(item.id)) {
           metadataSelector.value =
@@ -5218,18 +5568,7 @@ async function loadNoteContent(
           summaryBlocks.length,
           selected,
         );
-        const contentEl = doc.getElementById(
-          getSidebarNoteElementId("ai-butler-note-content", noteKind),
-        ) as HTMLElement | null;
-        if (contentEl) {
-          contentEl.innerHTML = `<div style="color: #999; text-align: center; padding: 10px;">${getString("itempane-note-switching-model")}</div>`;
-          void loadNoteContent(
-            doc,
-            item,
-            contentEl,
-            getNoteKindFromElement(contentEl),
-          );
-        }
+        reloadNoteContent();
       };
 
       summaryBlocks.forEach((block, index) => {
@@ -5243,6 +5582,9 @@ async function loadNoteContent(
         metadataSelector.appendChild(option);
 
         if (metadataMenu) {
+          const highlighted = comparing
+            ? compareBlockIds.includes(block.blockId)
+            : index === selectedBlockIndex;
           const itemButton = doc.createElement("button");
           itemButton.type = "button";
           itemButton.title = tooltip;
@@ -5255,7 +5597,7 @@ async function loadNoteContent(
             padding: 6px 8px;
             border: 0;
             border-radius: 6px;
-            background: ${index === selectedBlockIndex ? "rgba(89, 192, 188, 0.14)" : "transparent"};
+            background: ${highlighted ? "rgba(89, 192, 188, 0.14)" : "transparent"};
             color: inherit;
             cursor: pointer;
             font-size: 12px;
@@ -5264,7 +5606,9 @@ async function loadNoteContent(
           `;
 
           const countLine = doc.createElement("span");
-          countLine.textContent = `${index + 1}/${summaryBlocks.length}`;
+          countLine.textContent = comparing
+            ? `${highlighted ? "✓" : "○"} ${index + 1}/${summaryBlocks.length}`
+            : `${index + 1}/${summaryBlocks.length}`;
           countLine.style.cssText = `
             min-width: 32px;
             font-weight: 700;
@@ -5283,7 +5627,11 @@ async function loadNoteContent(
           itemButton.appendChild(labelLine);
           itemButton.addEventListener("click", (event: Event) => {
             event.stopPropagation();
-            selectSummaryBlock(index);
+            if (comparing) {
+              toggleCompareBlock(index);
+            } else {
+              selectSummaryBlock(index);
+            }
           });
           metadataMenu.appendChild(itemButton);
         }
@@ -5304,6 +5652,12 @@ async function loadNoteContent(
         summaryBlocks.length,
         summaryBlocks[selectedBlockIndex],
       );
+      updateSidebarCompareButton(
+        doc,
+        noteKind,
+        canCompare,
+        comparing ? compareBlocks.length : 0,
+      );
       saveSidebarSummaryBlockSelection(
         item.id,
         resolvedNote.note.id,
@@ -5314,6 +5668,13 @@ async function loadNoteContent(
       hideSidebarMetadataPicker(doc, noteKind);
     }
 
+    if (compareBlocks.length >= 2) {
+      noteContent.innerHTML = "";
+      noteContent.appendChild(createSummaryComparisonPanel(doc, compareBlocks));
+      updateSidebarNoteEditControls(doc, "comparing", "", undefined, noteKind);
+      return;
+    }
+
     aiNoteContent =
       summaryBlocks.length > 0
         ? summaryBlocks[selectedBlockIndex].content
@@ -6,6 +6,7 @@ export const DEEP_READ_NOTE_TAG = "AI-DeepRead";
 const TABLE_NOTE_TAG = "AI-Table";
 const CHAT_NOTE_TAG = "AI-Butler-Chat";
 const MINDMAP_NOTE_TAG = "AI-Mindmap";
+const FIGURE_NOTE_TAG = "AI-Figures";
 const IMAGE_NOTE_TAGS = ["AI-Image-Summary", "AI-ImageSummary"];
 
 const AI_SUMMARY_HEADING_RE =
@@ -18,6 +19,7 @@ const AI_BUTLER_CHAT_HEADING_RE =
   /<h2>\s*AI\s*管家\s*-\s*后续追问(?:\s*-|\s*笔记|[\s<])/;
 const AI_BUTLER_MINDMAP_HEADING_RE = /AI\s*管家思维导图\s*-/;
 const AI_BUTLER_IMAGE_HEADING_RE = /AI\s*管家一图总结\s*-/;
+const AI_BUTLER_FIGURE_HEADING_RE = /AI\s*管家图表解读\s*-/;
 const AI_BUTLER_TABLE_HEADING_RE = /AI\s*管家.*(?:填表|表格)/;
 const AI_BUTLER_REVIEW_HEADING_RE = /AI\s*管家.*(?:文献综述|综述)/;
 
@@ -26,6 +28,7 @@ export type AiButlerNoteType =
   | "deepRead"
   | "imageSummary"
   | "mindmap"
+  | "figureExplain"
   | "tableFill"
   | "chat"
   | "review";
@@ -57,6 +60,9 @@ export function isRegularSummaryNote(
   const isImageNote =
     IMAGE_NOTE_TAGS.some((tag) => hasNoteTag(tags, tag)) ||
     AI_BUTLER_IMAGE_HEADING_RE.test(noteHtml);
+  const isFigureNote =
+    hasNoteTag(tags, FIGURE_NOTE_TAG) ||
+    AI_BUTLER_FIGURE_HEADING_RE.test(noteHtml);
   const isReviewNote =
     hasNoteTag(tags, "AI-Review") || AI_BUTLER_REVIEW_HEADING_RE.test(noteHtml);
   const isDeepRead =
@@ -69,6 +75,7 @@ export function isRegularSummaryNote(
     isTableNote ||
     isMindmapNote ||
     isImageNote ||
+    isFigureNote ||
     isReviewNote ||
     isFollowUpChatNote(tags, noteHtml)
   ) {
@@ -142,6 +149,12 @@ export function classifyAiButlerNote(
   ) {
     return "mindmap";
   }
+  if (
+    hasNoteTag(tags, FIGURE_NOTE_TAG) ||
+    AI_BUTLER_FIGURE_HEADING_RE.test(noteHtml)
+  ) {
+    return "figureExplain";
+  }
   if (
     hasNoteTag(tags, TABLE_NOTE_TAG) ||
     AI_BUTLER_TABLE_HEADING_RE.test(noteHtml)
@@ -0,0 +1,287 @@
+/**
+ * AI 笔记版本历史
+ *
+ * 强制覆盖重新生成、精读分节改写和侧边栏编辑都会直接替换笔记内容。
+ * 本模块在每次改写前后为 AI 总结、AI 精读、思维导图、一图总结与逐图解读笔记留存快照，
+ * 落盘到 Zotero 数据目录下的 `ai-butler-history`，每个父条目一个 JSON 文件，
+ * 记录生成提示词、端点、模型与时间。精读分多轮写入，每次运行只在开始前与结束后各留存一次。
+ *
+ * - 写入前的内容与最近一个版本不同时（如手动编辑过），先补记为 previous 版本
+ * - 与同类笔记最近一个版本内容相同时不重复记录
+ * - 每类笔记最多保留 `aiNoteHistoryLimit` 个版本，超出时丢弃最早的版本
+ * - `aiNoteHistoryEnabled` 关闭时不再记录，已有历史仍可浏览与恢复
+ *
+ * 历史读写失败只记录日志，不影响笔记本身的写入。
+ */
+import { getPref } from "../utils/prefs";
+import { AiNoteService, type AiNoteKind } from "./aiNoteService";
+import { LLMNoteMetadataService } from "./llmNoteMetadata";
+import type { LLMResponse } from "./llmproviders/types";
+
+/** 留存历史的笔记类型；只有 AI 总结与 AI 精读笔记支持从历史恢复 */
+export type AiNoteHistoryKind =
+  | AiNoteKind
+  | "mindmap"
+  | "imageSummary"
+  | "figureExplain";
+
+export type AiNoteVersionReason =
+  | "generate" // 生成或重新生成
+  | "slot" // 精读分节写入
+  | "edit" // 侧边栏编辑
+  | "delete" // 删除区块或笔记
+  | "restore" // 从历史恢复
+  | "previous"; // 改写前的现有内容
+
+export interface AiNoteVersion {
+  id: string;
+  kind: AiNoteHistoryKind;
+  reason: AiNoteVersionReason;
+  /** ISO 时间 */
+  createdAt: string;
+  html: string;
+  prompt?: string;
+  endpointId?: string;
+  providerName?: string;
+  modelId?: string;
+  /** 附加说明，如精读分节标题 */
+  label?: string;
+}
+
+export interface AiNoteHistoryContext {
+  reason?: AiNoteVersionReason;
+  prompt?: string;
+  label?: string;
+  /** 生成本次内容的模型响应，用于记录端点与模型 */
+  response?: LLMResponse | null;
+}
+
+const HISTORY_DIR_NAME = "ai-butler-history";
+const DEFAULT_LIMIT = 50;
+
+/**
+ * 追加一个版本并按上限裁剪同类笔记的旧版本
+ *
+ * versions 按记录时间升序；内容与同类最近版本相同时原样返回。
+ */
+export function appendAiNoteVersion(
+  versions: AiNoteVersion[],
+  version: AiNoteVersion,
+  limit: number,
+): AiNoteVersion[] {
+  const sameKind = versions.filter((entry) => entry.kind === version.kind);
+  if (sameKind[sameKind.length - 1]?.html === version.html) return versions;
+
+  const next = [...versions, version];
+  const overflow = sameKind.length + 1 - Math.max(1, limit);
+  if (overflow <= 0) return next;
+  const dropped = new Set(
+    [...sameKind, version].slice(0, overflow).map((entry) => entry.id),
+  );
+  return next.filter((entry) => !dropped.has(entry.id));
+}
+
+function makeVersionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 未传入模型响应时，取笔记中最后一个元数据区块的端点与模型
+ */
+function describeSource(
+  html: string,
+  response?: LLMResponse | null,
+): Pick<AiNoteVersion, "endpointId" | "providerName" | "modelId"> {
+  if (response) {
+    return {
+      endpointId: response.endpointId,
+      providerName: response.providerName || response.providerId,
+      modelId: response.model,
+    };
+  }
+  const metadata = LLMNoteMetadataService.parseAll(html).pop()?.metadata;
+  return metadata
+    ? {
+        endpointId: metadata.endpointId,
+        providerName: metadata.providerName,
+        modelId: metadata.modelId,
+      }
+    : {};
+}
+
+export class AiNoteHistory {
+  /** 串行化历史文件的读改写 */
+  private static pendingWrite: Promise<unknown> = Promise.resolve();
+
+  static isEnabled(): boolean {
+    return getPref("aiNoteHistoryEnabled") !== false;
+  }
+
+  static getLimit(): number {
+    const raw = Number(getPref("aiNoteHistoryLimit") ?? DEFAULT_LIMIT);
+    return Number.isFinite(raw) ? Math.max(1, Math.floor(raw)) : DEFAULT_LIMIT;
+  }
+
+  /**
+   * 记录一次笔记改写：previousHtml 为改写前内容，nextHtml 为空表示笔记已删除
+   */
+  static async recordChange(
+    item: Zotero.Item,
+    kind: AiNoteHistoryKind,
+    previousHtml: string,
+    nextHtml: string,
+    context: AiNoteHistoryContext = {},
+  ): Promise<void> {
+    if (!this.isEnabled() || previousHtml === nextHtml) return;
+    try {
+      const parentItem = (await AiNoteService.resolveParentItem(item)) || item;
+      const limit = this.getLimit();
+      await this.update(parentItem, (versions) => {
+        let next = versions;
+        if (previousHtml.trim()) {
+          next = appendAiNoteVersion(
+            next,
+            {
+              id: makeVersionId(),
+              kind,
+              reason: "previous",
+              createdAt: new Date().toISOString(),
+              html: previousHtml,
+              ...describeSource(previousHtml),
+            },
+            limit,
+          );
+        }
+        if (nextHtml.trim()) {
+          next = appendAiNoteVersion(
+            next,
+            {
+              id: makeVersionId(),
+              kind,
+              reason: context.reason || "generate",
+              createdAt: new Date().toISOString(),
+              html: nextHtml,
+              ...(context.prompt ? { prompt: context.prompt } : {}),
+              ...(context.label ? { label: context.label } : {}),
+              ...describeSource(nextHtml, context.response),
+            },
+            limit,
+          );
+        }
+        return next;
+      });
+    } catch (error) {
+      ztoolkit.log(`[AI-Butler] 记录 ${kind} 笔记历史失败:`, error);
+    }
+  }
+
+  /**
+   * 留存笔记当前的完整内容，如多轮生成开始前与结束后；reason 缺省为 generate
+   */
+  static async recordSnapshot(
+    item: Zotero.Item,
+    kind: AiNoteHistoryKind,
+    html: string,
+    context: AiNoteHistoryContext = {},
+  ): Promise<void> {
+    await this.recordChange(item, kind, "", html, context);
+  }
+
+  /**
+   * 列出某类笔记的历史版本，最新的在前
+   */
+  static async list(
+    item: Zotero.Item,
+    kind: AiNoteHistoryKind,
+  ): Promise<AiNoteVersion[]> {
+    try {
+      const parentItem = (await AiNoteService.resolveParentItem(item)) || item;
+      await this.pendingWrite;
+      const versions = await this.read(this.getHistoryPath(parentItem));
+      return versions.filter((entry) => entry.kind === kind).reverse();
+    } catch (error) {
+      ztoolkit.log(`[AI-Butler] 读取 ${kind} 笔记历史失败:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * 用历史版本替换当前笔记；笔记已被删除时重新创建
+   */
+  static async restore(
+    item: Zotero.Item,
+    kind: AiNoteKind,
+    versionId: string,
+  ): Promise<Zotero.Item> {
+    const version = (await this.list(item, kind)).find(
+      (entry) => entry.id === versionId,
+    );
+    if (!version) {
+      throw new Error(`AI note version not found: ${versionId}`);
+    }
+    return AiNoteService.saveGeneratedNote({
+      item,
+      kind,
+      html: version.html,
+      policy: "overwrite",
+      history: {
+        reason: "restore",
+        prompt: version.prompt,
+        label: version.label,
+      },
+    });
+  }
+
+  static async clear(): Promise<void> {
+    await this.pendingWrite;
+    await IOUtils.remove(this.getHistoryDir(), {
+      recursive: true,
+      ignoreAbsent: true,
+    });
+  }
+
+  private static getHistoryDir(): string {
+    return PathUtils.join(Zotero.DataDirectory.dir, HISTORY_DIR_NAME);
+  }
+
+  private static getHistoryPath(parentItem: Zotero.Item): string {
+    return PathUtils.join(
+      this.getHistoryDir(),
+      `${parentItem.libraryID}-${parentItem.key}.json`,
+    );
+  }
+
+  private static async read(path: string): Promise<AiNoteVersion[]> {
+    if (!(await IOUtils.exists(path))) return [];
+    try {
+      const raw = await Zotero.File.getContentsAsync(path, "utf-8");
+      const parsed = JSON.parse(String(raw));
+      return (Array.isArray(parsed) ? parsed : []).filter(
+        (entry): entry is AiNoteVersion =>
+          !!entry?.id && !!entry?.kind && typeof entry?.html === "string",
+      );
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 笔记历史文件无法解析，已重建:", error);
+      return [];
+    }
+  }
+
+  private static update(
+    parentItem: Zotero.Item,
+    mutate: (versions: AiNoteVersion[]) => AiNoteVersion[],
+  ): Promise<void> {
+    const path = this.getHistoryPath(parentItem);
+    const write = this.pendingWrite.then(async () => {
+      const versions = await this.read(path);
+      const next = mutate(versions);
+      if (next === versions) return;
+      await IOUtils.makeDirectory(this.getHistoryDir(), {
+        ignoreExisting: true,
+        createAncestors: true,
+      } as any);
+      await IOUtils.write(path, new TextEncoder().encode(JSON.stringify(next)));
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+}
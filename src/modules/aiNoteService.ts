@@ -18,6 +18,7 @@ import {
   type LLMNoteMetadata,
 } from "./llmNoteMetadata";
 import { getString } from "../utils/locale";
+import { AiNoteHistory, type AiNoteHistoryContext } from "./aiNoteHistory";
 
 export type AiNoteKind = "summary" | "deepRead";
 
@@ -124,6 +125,8 @@ export class AiNoteService {
     html: string;
     existing?: Zotero.Item | null;
     policy?: string;
+    /** 写入版本历史时附带的提示词、端点等信息；false 表示由调用方自行留存历史 */
+    history?: AiNoteHistoryContext | false;
   }): Promise<Zotero.Item> {
     const parentItem =
       (await this.resolveParentItem(options.item)) || options.item;
@@ -153,6 +156,15 @@ export class AiNoteService {
           this.ensureTag(existing, SUMMARY_NOTE_TAG);
         }
         await (existing as any).saveTx?.();
+        if (options.history !== false) {
+          await AiNoteHistory.recordChange(
+            parentItem,
+            options.kind,
+            oldHtml,
+            finalHtml,
+            options.history,
+          );
+        }
         return existing;
       }
 
@@ -162,6 +174,15 @@ export class AiNoteService {
       note.setNote(options.html);
       note.addTag(tag);
       await note.saveTx();
+      if (options.history !== false) {
+        await AiNoteHistory.recordChange(
+          parentItem,
+          options.kind,
+          "",
+          options.html,
+          options.history,
+        );
+      }
       return note;
     });
   }
@@ -3,6 +3,7 @@
  *
  * 管理多个 API 密钥，支持等权重轮换、失败标记和冷却机制
  * 设计原则：所有密钥等权重，依次轮流调用；向后兼容单密钥用户
+ * 密钥本身经 prefs 层保存在 Firefox 登录管理器中（见 utils/secretStore），偏好里只有引用
  *
  * @file apiKeyManager.ts
  * @author AI Butler Team
@@ -11,15 +11,18 @@
  * 2. 检查新条目是否需要 AI 笔记（是否已有 AI 笔记）
  * 3. 自动将符合条件的条目加入队列
  * 4. 尊重用户的自动扫描开关设置
+ * 5. 用量预算超限时暂停自动入队，避免批量导入耗尽额度
  *
  * @module autoScanManager
  * @author AI-Butler Team
  */
 
+import { getString } from "../utils/locale";
 import { getPref } from "../utils/prefs";
 import { AiNoteService, type AiNoteKind } from "./aiNoteService";
 import { ContentExtractor } from "./contentExtractor";
 import { TaskQueueManager } from "./taskQueue";
+import { UsageBudget } from "./usageBudget";
 
 /**
  * 自动扫描管理器类
@@ -38,6 +41,8 @@ export class AutoScanManager {
   private pendingParents: Set<number> = new Set();
   /** 轮询重试计时器 */
   private retryTimers: Map<number, number> = new Map();
+  /** 本轮预算超限是否已提示过（额度恢复后重置） */
+  private budgetNoticeShown: boolean = false;
 
   /**
    * 私有构造函数（单例模式）
@@ -206,8 +211,10 @@ export class AutoScanManager {
 
     // 检查可分析附件
     if (await this.hasUsableAnalyzableAttachment(item)) {
-      // 具备条件，按缺失类型分别入队
       this.pendingParents.delete(item.id);
+      if (this.isBlockedByBudget(item)) return;
+
+      // 具备条件，按缺失类型分别入队
       const tqm = TaskQueueManager.getInstance();
       if (needsSummary) {
         await tqm.addTask(item, false, {
@@ -262,6 +269,40 @@ export class AutoScanManager {
     this.retryTimers.set(item.id, timer);
   }
 
+  /**
+   * 预算超限时跳过自动入队，并在本轮超限期间提示一次
+   */
+  private isBlockedByBudget(item: Zotero.Item): boolean {
+    let violation = null;
+    try {
+      violation = UsageBudget.getBlockingViolation();
+    } catch (error) {
+      ztoolkit.log("[AutoScan] 预算检查失败，按未超限处理:", error);
+    }
+    if (!violation) {
+      this.budgetNoticeShown = false;
+      return false;
+    }
+
+    const reason = UsageBudget.describe(violation);
+    ztoolkit.log(
+      `[AutoScan] 预算超限，跳过自动加入: ${item.getField("title")} (${reason})`,
+    );
+    if (!this.budgetNoticeShown) {
+      this.budgetNoticeShown = true;
+      new ztoolkit.ProgressWindow("AI Butler", {
+        closeOnClick: true,
+        closeTime: 6000,
+      })
+        .createLine({
+          text: getString("auto-scan-budget-paused", { args: { reason } }),
+          type: "default",
+        })
+        .show();
+    }
+    return true;
+  }
+
   /**
    * 筛选出需要 AI 笔记的条目
    * 检查是否已经存在 AI 生成的笔记
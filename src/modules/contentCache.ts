@@ -0,0 +1,315 @@
+/**
+ * 附件内容缓存
+ *
+ * AI 总结、AI 精读、思维导图、一图总结和填表各自都会读取同一篇文献的附件。
+ * 本模块按「附件文件哈希 + 提取模式」缓存提取结果，落盘到 Zotero 数据目录下的
+ * `ai-butler-cache/content`，同一篇文献运行多个 AI 功能时只提取一次。
+ *
+ * - 只缓存需要解析的结果（文本、MinerU、快照）；PDF Base64 直接读文件即可得到，
+ *   缓存它只会多占一份体积更大的副本，因此不缓存
+ * - 附件文件变化后哈希随之改变，旧的缓存条目在下次访问该附件时被清除
+ * - 总容量超过 `contentCacheMaxMB` 时按最近使用时间淘汰
+ * - `contentCacheEnabled` 关闭时直接调用原始提取流程
+ *
+ * 缓存读写失败只记录日志，不影响提取本身。
+ */
+import { getPref } from "../utils/prefs";
+
+export type ContentCacheMode = "text" | "mineru" | "snapshot";
+
+const CONTENT_CACHE_MODES = new Set<string>(["text", "mineru", "snapshot"]);
+
+export interface ContentCacheEntry {
+  /** `${hash}-${mode}`，同时作为缓存文件名 */
+  key: string;
+  attachmentId: number;
+  hash: string;
+  mode: ContentCacheMode;
+  /** 缓存文件字节数 */
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface ContentCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const CACHE_DIR_NAME = "ai-butler-cache";
+const INDEX_FILE_NAME = "index.json";
+const DEFAULT_MAX_MB = 200;
+
+/**
+ * 选出为满足容量上限需要淘汰的条目（最久未使用的优先）
+ */
+export function selectContentCacheEvictions(
+  entries: Pick<ContentCacheEntry, "key" | "size" | "lastUsedAt">[],
+  maxBytes: number,
+): string[] {
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evicted: string[] = [];
+  const byAge = [...entries].sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  for (const entry of byAge) {
+    if (total <= Math.max(0, maxBytes)) break;
+    evicted.push(entry.key);
+    total -= entry.size;
+  }
+  return evicted;
+}
+
+export class ContentCache {
+  private static entries: Map<string, ContentCacheEntry> | null = null;
+  private static loading: Promise<Map<string, ContentCacheEntry>> | null = null;
+
+  /** 串行化索引写入 */
+  private static pendingWrite: Promise<unknown> = Promise.resolve();
+
+  static isEnabled(): boolean {
+    return getPref("contentCacheEnabled") !== false;
+  }
+
+  static getMaxBytes(): number {
+    const raw = Number(getPref("contentCacheMaxMB") ?? DEFAULT_MAX_MB);
+    const mb = Number.isFinite(raw) ? Math.max(0, raw) : DEFAULT_MAX_MB;
+    return mb * 1024 * 1024;
+  }
+
+  /**
+   * 读取缓存，未命中时执行 produce 并写入缓存
+   *
+   * @param onHit 命中缓存时回调，供调用方更新进度
+   */
+  static async getOrCreate(
+    attachment: Zotero.Item,
+    mode: ContentCacheMode,
+    produce: () => Promise<string>,
+    onHit?: () => void,
+  ): Promise<string> {
+    if (!this.isEnabled()) return produce();
+
+    const hash = await this.getAttachmentHash(attachment);
+    if (!hash) return produce();
+
+    const cached = await this.read(attachment.id, hash, mode);
+    if (cached !== null) {
+      onHit?.();
+      return cached;
+    }
+
+    const content = await produce();
+    // 空结果不缓存，留给调用方按原逻辑报错
+    if (content && content.trim().length > 0) {
+      await this.write(attachment.id, hash, mode, content);
+    }
+    return content;
+  }
+
+  static async getStats(): Promise<ContentCacheStats> {
+    try {
+      const entries = await this.load();
+      let bytes = 0;
+      for (const entry of entries.values()) bytes += entry.size;
+      return { entries: entries.size, bytes };
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 读取内容缓存统计失败:", error);
+      return { entries: 0, bytes: 0 };
+    }
+  }
+
+  static async clear(): Promise<void> {
+    await this.pendingWrite;
+    this.entries = new Map();
+    this.loading = null;
+    await IOUtils.remove(this.getCacheDir(), {
+      recursive: true,
+      ignoreAbsent: true,
+    });
+  }
+
+  private static getCacheDir(): string {
+    return PathUtils.join(Zotero.DataDirectory.dir, CACHE_DIR_NAME, "content");
+  }
+
+  private static getEntryPath(key: string): string {
+    return PathUtils.join(this.getCacheDir(), `${key}.txt`);
+  }
+
+  private static async getAttachmentHash(
+    attachment: Zotero.Item,
+  ): Promise<string> {
+    try {
+      const hash = await attachment.attachmentHash;
+      return typeof hash === "string" ? hash : "";
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 无法计算附件哈希，跳过内容缓存:", error);
+      return "";
+    }
+  }
+
+  private static load(): Promise<Map<string, ContentCacheEntry>> {
+    if (this.entries) return Promise.resolve(this.entries);
+    if (!this.loading) {
+      this.loading = (async () => {
+        const entries = new Map<string, ContentCacheEntry>();
+        const indexPath = PathUtils.join(this.getCacheDir(), INDEX_FILE_NAME);
+        let dropped = false;
+        try {
+          if (await IOUtils.exists(indexPath)) {
+            const raw = await Zotero.File.getContentsAsync(indexPath, "utf-8");
+            const parsed = JSON.parse(String(raw));
+            for (const entry of Array.isArray(parsed) ? parsed : []) {
+              if (!entry?.key || !entry?.hash) continue;
+              if (!CONTENT_CACHE_MODES.has(entry.mode)) {
+                // 旧版本缓存的 Base64 等已不再使用的条目
+                dropped = true;
+                await IOUtils.remove(this.getEntryPath(String(entry.key)), {
+                  ignoreAbsent: true,
+                }).catch(() => undefined);
+                continue;
+              }
+              entries.set(entry.key, entry as ContentCacheEntry);
+            }
+          }
+        } catch (error) {
+          ztoolkit.log("[AI-Butler] 内容缓存索引无法解析，已重建:", error);
+        }
+        this.entries = entries;
+        if (dropped) await this.persist(entries).catch(() => undefined);
+        return entries;
+      })();
+    }
+    return this.loading;
+  }
+
+  private static async read(
+    attachmentId: number,
+    hash: string,
+    mode: ContentCacheMode,
+  ): Promise<string | null> {
+    try {
+      const entries = await this.load();
+      const stale = this.invalidateStale(entries, attachmentId, hash, mode);
+      const key = `${hash}-${mode}`;
+      const entry = entries.get(key);
+      if (!entry) {
+        if (stale) await this.persist(entries);
+        return null;
+      }
+
+      const path = this.getEntryPath(key);
+      if (!(await IOUtils.exists(path))) {
+        entries.delete(key);
+        await this.persist(entries);
+        return null;
+      }
+      const content = String(await Zotero.File.getContentsAsync(path, "utf-8"));
+      entry.attachmentId = attachmentId;
+      entry.lastUsedAt = Date.now();
+      await this.persist(entries);
+      ztoolkit.log(`[AI-Butler] 命中内容缓存: ${key}`);
+      return content;
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 读取内容缓存失败:", error);
+      return null;
+    }
+  }
+
+  private static async write(
+    attachmentId: number,
+    hash: string,
+    mode: ContentCacheMode,
+    content: string,
+  ): Promise<void> {
+    try {
+      const entries = await this.load();
+      this.invalidateStale(entries, attachmentId, hash, mode);
+
+      const bytes = new TextEncoder().encode(content);
+      const maxBytes = this.getMaxBytes();
+      if (bytes.byteLength > maxBytes) {
+        await this.persist(entries);
+        return;
+      }
+
+      const key = `${hash}-${mode}`;
+      await IOUtils.makeDirectory(this.getCacheDir(), {
+        ignoreExisting: true,
+        createAncestors: true,
+      } as any);
+      await IOUtils.write(this.getEntryPath(key), bytes);
+      const now = Date.now();
+      entries.set(key, {
+        key,
+        attachmentId,
+        hash,
+        mode,
+        size: bytes.byteLength,
+        createdAt: now,
+        lastUsedAt: now,
+      });
+
+      for (const evictedKey of selectContentCacheEvictions(
+        Array.from(entries.values()),
+        maxBytes,
+      )) {
+        await this.removeEntry(entries, evictedKey);
+      }
+      await this.persist(entries);
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 写入内容缓存失败:", error);
+    }
+  }
+
+  /**
+   * 删除同一附件、同一模式但哈希不同（文件已变化）的条目
+   *
+   * @returns 是否删除了条目
+   */
+  private static invalidateStale(
+    entries: Map<string, ContentCacheEntry>,
+    attachmentId: number,
+    hash: string,
+    mode: ContentCacheMode,
+  ): boolean {
+    const stale = Array.from(entries.values()).filter(
+      (entry) =>
+        entry.attachmentId === attachmentId &&
+        entry.mode === mode &&
+        entry.hash !== hash,
+    );
+    for (const entry of stale) {
+      entries.delete(entry.key);
+      void IOUtils.remove(this.getEntryPath(entry.key), {
+        ignoreAbsent: true,
+      }).catch(() => undefined);
+    }
+    return stale.length > 0;
+  }
+
+  private static async removeEntry(
+    entries: Map<string, ContentCacheEntry>,
+    key: string,
+  ): Promise<void> {
+    entries.delete(key);
+    await IOUtils.remove(this.getEntryPath(key), { ignoreAbsent: true });
+  }
+
+  private static persist(
+    entries: Map<string, ContentCacheEntry>,
+  ): Promise<void> {
+    const text = JSON.stringify(Array.from(entries.values()));
+    const write = this.pendingWrite.then(async () => {
+      await IOUtils.makeDirectory(this.getCacheDir(), {
+        ignoreExisting: true,
+        createAncestors: true,
+      } as any);
+      await IOUtils.write(
+        PathUtils.join(this.getCacheDir(), INDEX_FILE_NAME),
+        new TextEncoder().encode(text),
+      );
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * 端点健康统计与熔断
+ *
+ * 由 LLMService 在每次真实请求结束后记录成败与耗时，按端点保留最近若干次样本，
+ * 计算成功率、p50/p95 延迟与最近一次错误类型。连续失败达到阈值后熔断：冷却期内
+ * 路由跳过该端点，冷却结束后放行一次试探请求，成功即恢复，失败则加倍冷却时间。
+ * 统计保存在内存中，按节流间隔写回 `llmEndpointHealth` 首选项（插件关闭时立即写回），
+ * 避免每次请求都重写整个首选项。
+ */
+import { getPref, setPref } from "../utils/prefs";
+
+export type EndpointErrorClass =
+  | "timeout"
+  | "rateLimit"
+  | "auth"
+  | "server"
+  | "network"
+  | "client"
+  | "other";
+
+export type EndpointCircuitState = "closed" | "open" | "halfOpen";
+
+export interface EndpointHealthSample {
+  /** 请求结束时间（毫秒时间戳） */
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+  errorClass?: EndpointErrorClass;
+}
+
+export interface EndpointHealthRecord {
+  samples: EndpointHealthSample[];
+  consecutiveFailures: number;
+  /** 连续熔断次数，决定下一次冷却时长 */
+  trips: number;
+  openUntil?: number;
+  lastError?: { at: number; errorClass: EndpointErrorClass; message: string };
+}
+
+export interface EndpointHealthStats {
+  requests: number;
+  /** 0–1；没有样本时为 null */
+  successRate: number | null;
+  /** 仅统计成功请求的完整耗时 */
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  consecutiveFailures: number;
+  circuit: EndpointCircuitState;
+  openUntil?: number;
+  lastFailureAt?: number;
+  lastError?: EndpointHealthRecord["lastError"];
+}
+
+export const ENDPOINT_HEALTH_LIMITS = {
+  /** 每个端点保留的最近样本数 */
+  windowSize: 50,
+  /** 连续失败多少次后熔断 */
+  failureThreshold: 3,
+  baseCooldownMs: 60 * 1000,
+  maxCooldownMs: 15 * 60 * 1000,
+  maxErrorMessageChars: 200,
+};
+
+const HEALTH_VERSION = 1;
+
+/** 两次写回首选项之间的最短间隔 */
+const PERSIST_THROTTLE_MS = 15 * 1000;
+
+/**
+ * 按状态码与错误信息粗略归类，供界面展示与排查代理问题
+ */
+export function classifyEndpointError(error: unknown): EndpointErrorClass {
+  const err = error as any;
+  const status = Number(err?.statusCode ?? err?.status ?? err?.xmlhttp?.status);
+  const message = String(err?.message || error || "");
+  const code =
+    Number.isFinite(status) && status > 0
+      ? status
+      : Number(message.match(/\b(?:HTTP\s*)?([45]\d\d)\b/)?.[1] || 0);
+
+  if (code === 429 || /rate.?limit|too many requests|quota/i.test(message)) {
+    return "rateLimit";
+  }
+  if (
+    code === 401 ||
+    code === 403 ||
+    /unauthori[sz]ed|forbidden|invalid.{0,20}api.?key|authentication/i.test(
+      message,
+    )
+  ) {
+    return "auth";
+  }
+  if (code === 408 || /time.?out|timed out|deadline/i.test(message)) {
+    return "timeout";
+  }
+  if (
+    code >= 500 ||
+    /overloaded|internal server error|bad gateway|service unavailable/i.test(
+      message,
+    )
+  ) {
+    return "server";
+  }
+  if (code >= 400) return "client";
+  if (/network|connection|ECONN|ENOTFOUND|NS_ERROR|socket/i.test(message)) {
+    return "network";
+  }
+  return "other";
+}
+
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(index, 0), sorted.length - 1)];
+}
+
+export function createEndpointHealthRecord(): EndpointHealthRecord {
+  return { samples: [], consecutiveFailures: 0, trips: 0 };
+}
+
+export function getCircuitState(
+  record: EndpointHealthRecord,
+  now: number,
+): EndpointCircuitState {
+  if (!record.openUntil) return "closed";
+  return now < record.openUntil ? "open" : "halfOpen";
+}
+
+/**
+ * 记录一次请求结果，返回新的记录（不修改入参）
+ */
+export function applyEndpointOutcome(
+  record: EndpointHealthRecord,
+  outcome: { ok: boolean; latencyMs: number; error?: unknown },
+  now: number,
+): EndpointHealthRecord {
+  const limits = ENDPOINT_HEALTH_LIMITS;
+  const errorClass = outcome.ok
+    ? undefined
+    : classifyEndpointError(outcome.error);
+  const samples = [
+    ...record.samples,
+    {
+      at: now,
+      ok: outcome.ok,
+      latencyMs: Math.max(0, Math.round(outcome.latencyMs)),
+      ...(errorClass ? { errorClass } : {}),
+    },
+  ].slice(-limits.windowSize);
+
+  if (outcome.ok) {
+    return {
+      samples,
+      consecutiveFailures: 0,
+      trips: 0,
+      lastError: record.lastError,
+    };
+  }
+
+  const next: EndpointHealthRecord = {
+    samples,
+    consecutiveFailures: record.consecutiveFailures + 1,
+    trips: record.trips,
+    openUntil: record.openUntil,
+    lastError: {
+      at: now,
+      errorClass: errorClass!,
+      message: String((outcome.error as any)?.message || outcome.error || "")
+        .trim()
+        .slice(0, limits.maxErrorMessageChars),
+    },
+  };
+  const state = getCircuitState(record, now);
+  const shouldTrip =
+    state === "halfOpen" ||
+    (state === "closed" && next.consecutiveFailures >= limits.failureThreshold);
+  if (shouldTrip) {
+    next.trips = record.trips + 1;
+    next.openUntil =
+      now +
+      Math.min(
+        limits.baseCooldownMs * 2 ** (next.trips - 1),
+        limits.maxCooldownMs,
+      );
+  }
+  return next;
+}
+
+export function summarizeEndpointHealth(
+  record: EndpointHealthRecord | undefined,
+  now: number,
+): EndpointHealthStats {
+  const current = record || createEndpointHealthRecord();
+  const successes = current.samples.filter((sample) => sample.ok);
+  const latencies = successes.map((sample) => sample.latencyMs);
+  const circuit = getCircuitState(current, now);
+  return {
+    requests: current.samples.length,
+    successRate:
+      current.samples.length > 0
+        ? successes.length / current.samples.length
+        : null,
+    p50LatencyMs: percentile(latencies, 50),
+    p95LatencyMs: percentile(latencies, 95),
+    consecutiveFailures: current.consecutiveFailures,
+    circuit,
+    ...(circuit !== "closed" ? { openUntil: current.openUntil } : {}),
+    ...(current.lastError
+      ? { lastError: current.lastError, lastFailureAt: current.lastError.at }
+      : {}),
+  };
+}
+
+/**
+ * 跳过熔断中的端点；全部熔断时按恢复时间先后返回全部端点，避免请求无处可发
+ */
+export function skipOpenCircuits<T extends { id: string }>(
+  endpoints: T[],
+  stats: Map<string, EndpointHealthStats>,
+): T[] {
+  const isOpen = (endpoint: T) => stats.get(endpoint.id)?.circuit === "open";
+  const available = endpoints.filter((endpoint) => !isOpen(endpoint));
+  if (available.length > 0) return available;
+  return [...endpoints].sort(
+    (a, b) =>
+      (stats.get(a.id)?.openUntil || 0) - (stats.get(b.id)?.openUntil || 0),
+  );
+}
+
+/**
+ * 按健康状况排序；数据相同或缺失时保持原有优先级顺序
+ *
+ * fastestHealthy：最近一次请求成功的端点优先，其中 p50 延迟低者在前，没有成功样本的
+ * 端点排在有数据的端点之后；leastRecentlyFailed：从未失败者优先，其余按最近一次
+ * 失败时间由远到近。
+ */
+export function orderEndpointsByHealth<T extends { id: string }>(
+  endpoints: T[],
+  strategy: "fastestHealthy" | "leastRecentlyFailed",
+  stats: Map<string, EndpointHealthStats>,
+): T[] {
+  const keysOf = (endpoint: T): number[] => {
+    const entry = stats.get(endpoint.id);
+    if (strategy === "fastestHealthy") {
+      return [
+        entry?.consecutiveFailures ? 1 : 0,
+        entry?.p50LatencyMs ?? Number.POSITIVE_INFINITY,
+      ];
+    }
+    return [entry?.lastFailureAt ?? Number.NEGATIVE_INFINITY];
+  };
+  return endpoints
+    .map((endpoint, index) => ({ endpoint, index, keys: keysOf(endpoint) }))
+    .sort((a, b) => {
+      for (let i = 0; i < a.keys.length; i++) {
+        if (a.keys[i] !== b.keys[i]) return a.keys[i] < b.keys[i] ? -1 : 1;
+      }
+      return a.index - b.index;
+    })
+    .map((entry) => entry.endpoint);
+}
+
+export class EndpointHealth {
+  /** 内存中的统计，首次访问时从首选项加载 */
+  private static records: Record<string, EndpointHealthRecord> | null = null;
+
+  private static persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  static recordSuccess(endpointId: string, latencyMs: number): void {
+    this.update(endpointId, { ok: true, latencyMs });
+  }
+
+  static recordFailure(
+    endpointId: string,
+    error: unknown,
+    latencyMs: number,
+  ): void {
+    this.update(endpointId, { ok: false, latencyMs, error });
+  }
+
+  static getStats(endpointId: string, now = Date.now()): EndpointHealthStats {
+    return summarizeEndpointHealth(this.getRecords()[endpointId], now);
+  }
+
+  static getStatsMap(
+    endpointIds: string[],
+    now = Date.now(),
+  ): Map<string, EndpointHealthStats> {
+    const records = this.getRecords();
+    return new Map(
+      endpointIds.map((id) => [id, summarizeEndpointHealth(records[id], now)]),
+    );
+  }
+
+  /** 清除统计并关闭熔断；不传 ID 时清除全部端点 */
+  static reset(endpointId?: string): void {
+    if (!endpointId) {
+      this.records = {};
+    } else {
+      delete this.getRecords()[endpointId];
+    }
+    this.flush();
+  }
+
+  /** 立即写回尚未保存的统计（插件关闭时调用） */
+  static flush(): void {
+    if (this.persistTimer !== null) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.records) return;
+    try {
+      this.saveRecords(this.records);
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 保存端点健康状况失败:", error);
+    }
+  }
+
+  private static update(
+    endpointId: string,
+    outcome: { ok: boolean; latencyMs: number; error?: unknown },
+  ): void {
+    try {
+      const records = this.getRecords();
+      records[endpointId] = applyEndpointOutcome(
+        records[endpointId] || createEndpointHealthRecord(),
+        outcome,
+        Date.now(),
+      );
+      this.schedulePersist();
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 记录端点健康状况失败:", error);
+    }
+  }
+
+  private static schedulePersist(): void {
+    if (this.persistTimer !== null) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.flush();
+    }, PERSIST_THROTTLE_MS);
+  }
+
+  private static getRecords(): Record<string, EndpointHealthRecord> {
+    if (!this.records) this.records = this.readRecords();
+    return this.records;
+  }
+
+  private static readRecords(): Record<string, EndpointHealthRecord> {
+    const raw = getPref("llmEndpointHealth") as string;
+    if (typeof raw !== "string" || !raw.trim()) return {};
+    try {
+      const parsed = JSON.parse(raw);
+      const endpoints = parsed?.endpoints;
+      if (!endpoints || typeof endpoints !== "object") return {};
+      const records: Record<string, EndpointHealthRecord> = {};
+      for (const [id, value] of Object.entries(endpoints)) {
+        const record = value as Partial<EndpointHealthRecord>;
+        records[id] = {
+          samples: Array.isArray(record.samples) ? record.samples : [],
+          consecutiveFailures: Number(record.consecutiveFailures) || 0,
+          trips: Number(record.trips) || 0,
+          ...(record.openUntil ? { openUntil: Number(record.openUntil) } : {}),
+          ...(record.lastError ? { lastError: record.lastError } : {}),
+        };
+      }
+      return records;
+    } catch {
+      return {};
+    }
+  }
+
+  private static saveRecords(
+    records: Record<string, EndpointHealthRecord>,
+  ): void {
+    setPref(
+      "llmEndpointHealth",
+      JSON.stringify({ version: HEALTH_VERSION, endpoints: records }),
+    );
+  }
+}
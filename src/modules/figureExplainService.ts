@@ -0,0 +1,374 @@
+/**
+ * ================================================================
+ * 逐图解读服务模块
+ * ================================================================
+ *
+ * 整合完整的逐图解读工作流：
+ * 1. 从 MinerU 解析结果或本地渲染的 PDF 页面中提取图表图片
+ * 2. 逐张连同图题发送给支持视觉输入的端点，生成解读
+ * 3. 将解读保存到 Zotero 笔记，每个图表附带回到 PDF 对应页的链接
+ *
+ * @module figureExplainService
+ * @author AI-Butler Team
+ */
+
+import LLMService from "./llmService";
+import {
+  LLMNoteMetadataService,
+  type LLMNoteMetadata,
+} from "./llmNoteMetadata";
+import type { LLMAbortSignal, LLMResponse } from "./llmproviders/types";
+import { sumUsage } from "./llmproviders/shared/llmutils";
+import { isAbortError } from "./llmproviders/shared/requestAbort";
+import { isUsageBudgetExceededError } from "./usageBudget";
+import { FigureExtractor, type FigureImage } from "./figureExtractor";
+import { AiNoteHistory } from "./aiNoteHistory";
+import { escapeHtml, markdownToZoteroNoteHtml } from "./noteMarkdown";
+import { getString } from "../utils/locale";
+import {
+  NO_FIGURES_MARKER,
+  buildFigureExplainPrompt,
+  buildFigurePagePrompt,
+} from "../utils/prompts";
+
+const FIGURE_NOTE_TAG = "AI-Figures";
+
+/**
+ * 工作流阶段类型
+ */
+export type FigureExplainWorkflowStage =
+  | "extracting" // 提取图表
+  | "explaining" // 逐图解读
+  | "saving" // 保存笔记
+  | "completed" // 完成
+  | "failed"; // 失败
+
+/**
+ * 工作流进度回调
+ */
+export type FigureExplainProgressCallback = (
+  stage: FigureExplainWorkflowStage,
+  message: string,
+  progress: number,
+) => void;
+
+/** 单个图表（或整页）的解读结果；失败时只有 error */
+type FigureExplanation = {
+  figure: FigureImage;
+  text?: string;
+  error?: string;
+};
+
+/**
+ * 逐图解读服务类
+ */
+export class FigureExplainService {
+  /**
+   * 为文献条目逐个解读图表
+   *
+   * @param item Zotero 文献条目
+   * @param progressCallback 进度回调
+   * @returns 创建的笔记对象
+   */
+  public static async generateForItem(
+    item: Zotero.Item,
+    progressCallback?: FigureExplainProgressCallback,
+    abortSignal?: LLMAbortSignal,
+  ): Promise<Zotero.Item> {
+    const itemTitle = item.getField("title") as string;
+
+    try {
+      // ========== 阶段 1: 提取图表图片 ==========
+      progressCallback?.(
+        "extracting",
+        getString("figure-explain-progress-extracting"),
+        10,
+      );
+      const extraction = await FigureExtractor.extract(item);
+
+      // ========== 阶段 2: 逐图解读 ==========
+      const explanations: FigureExplanation[] = [];
+      let firstResponse: LLMResponse | undefined;
+      let usage: LLMResponse["usage"];
+      const total = extraction.figures.length;
+
+      for (const [index, figure] of extraction.figures.entries()) {
+        progressCallback?.(
+          "explaining",
+          getString("figure-explain-progress-explaining", {
+            args: { current: index + 1, total },
+          }),
+          20 + Math.floor((60 * index) / total),
+        );
+
+        try {
+          const response = await LLMService.generate({
+            task: "figure-explain",
+            prompt:
+              figure.kind === "page"
+                ? buildFigurePagePrompt(itemTitle, figure.page ?? index + 1)
+                : buildFigureExplainPrompt(
+                    itemTitle,
+                    figure.kind,
+                    figure.caption,
+                  ),
+            content: { kind: "images", images: [figure.image] },
+            transport: { abortSignal },
+            metadata: { itemId: item.id },
+          });
+          firstResponse ??= response;
+          if (response.usage) usage = sumUsage(usage, response.usage);
+
+          const text = response.text.trim();
+          if (figure.kind === "page" && this.isNoFiguresReply(text)) continue;
+          explanations.push({ figure, text });
+        } catch (error: any) {
+          // 取消、预算超限或第一张就失败（多为端点不支持图片）时中止整个任务
+          if (
+            isAbortError(error, abortSignal) ||
+            isUsageBudgetExceededError(error) ||
+            !firstResponse
+          ) {
+            throw error;
+          }
+          ztoolkit.log(`[AI-Butler] 第 ${index + 1} 张图表解读失败:`, error);
+          explanations.push({ figure, error: error?.message || String(error) });
+        }
+      }
+
+      if (!explanations.some((explanation) => explanation.text)) {
+        throw new Error(getString("figure-explain-error-no-figures"));
+      }
+
+      // ========== 阶段 3: 保存笔记 ==========
+      progressCallback?.(
+        "saving",
+        getString("figure-explain-progress-saving"),
+        85,
+      );
+
+      const metadata = LLMNoteMetadataService.fromResponse(
+        "figure-explain",
+        firstResponse,
+      );
+      if (usage) metadata.usage = usage;
+      const note = await this.createFigureNote(
+        item,
+        explanations,
+        extraction.pdfAttachment,
+        metadata,
+      );
+
+      progressCallback?.(
+        "completed",
+        getString("figure-explain-progress-completed"),
+        100,
+      );
+
+      return note;
+    } catch (error: any) {
+      progressCallback?.(
+        "failed",
+        getString("figure-explain-progress-failed", {
+          args: { message: error.message },
+        }),
+        0,
+      );
+
+      ztoolkit.log("[AI-Butler] 逐图解读失败:", error);
+
+      throw error;
+    }
+  }
+
+  /**
+   * 整页解读时模型用 NO_FIGURES 表示本页没有图表
+   */
+  private static isNoFiguresReply(text: string): boolean {
+    return text.replace(/[`*.\s]/g, "").toUpperCase() === NO_FIGURES_MARKER;
+  }
+
+  /**
+   * 创建逐图解读笔记
+   *
+   * MinerU 提取的图表作为内嵌图片写入笔记；整页渲染图较大，只保留页码链接。
+   * 新笔记完整保存后才删除已有的逐图解读笔记，写入失败时保留旧笔记并清理未完成的新笔记。
+   */
+  private static async createFigureNote(
+    item: Zotero.Item,
+    explanations: FigureExplanation[],
+    pdfAttachment: Zotero.Item | null,
+    metadata: LLMNoteMetadata,
+  ): Promise<Zotero.Item> {
+    // 新笔记带有同样的标签，需在创建前找出已有的逐图解读笔记
+    const existingNote = await this.findExistingFigureNote(item);
+
+    // 内嵌图片需要父笔记 ID，先保存占位内容
+    const note = new Zotero.Item("note");
+    note.libraryID = item.libraryID;
+    note.parentID = item.id;
+    note.setNote(
+      `<p>${escapeHtml(getString("figure-explain-progress-saving"))}</p>`,
+    );
+    note.addTag(FIGURE_NOTE_TAG, 0);
+    await note.saveTx();
+
+    try {
+      await this.writeFigureNote(
+        note,
+        item,
+        explanations,
+        pdfAttachment,
+        metadata,
+      );
+    } catch (error) {
+      await note.eraseTx().catch((eraseError: unknown) => {
+        ztoolkit.log("[AI-Butler] 清理未完成的逐图解读笔记失败:", eraseError);
+      });
+      throw error;
+    }
+
+    if (existingNote) {
+      await existingNote.eraseTx().catch((error: unknown) => {
+        ztoolkit.log("[AI-Butler] 删除旧的逐图解读笔记失败:", error);
+      });
+    }
+    // 端点与模型取自笔记中的元数据区块
+    await AiNoteHistory.recordChange(
+      item,
+      "figureExplain",
+      existingNote?.getNote() || "",
+      note.getNote(),
+    );
+    return note;
+  }
+
+  private static async writeFigureNote(
+    note: Zotero.Item,
+    item: Zotero.Item,
+    explanations: FigureExplanation[],
+    pdfAttachment: Zotero.Item | null,
+    metadata: LLMNoteMetadata,
+  ): Promise<void> {
+    const itemTitle = item.getField("title") as string;
+    const maxTitleLength = 50;
+    const truncatedTitle =
+      itemTitle.length > maxTitleLength
+        ? itemTitle.substring(0, maxTitleLength) + "..."
+        : itemTitle;
+    const sections: string[] = [
+      `<h2>${escapeHtml(
+        getString("figure-explain-note-title", {
+          args: { title: truncatedTitle },
+        }),
+      )}</h2>`,
+    ];
+
+    for (const [index, explanation] of explanations.entries()) {
+      const { figure } = explanation;
+      const heading =
+        figure.kind === "page"
+          ? getString("figure-explain-page-heading", {
+              args: { page: figure.page ?? index + 1 },
+            })
+          : figure.caption ||
+            getString("figure-explain-figure-heading", {
+              args: { index: index + 1 },
+            });
+      sections.push(`<h3>${escapeHtml(heading)}</h3>`);
+
+      if (figure.kind !== "page") {
+        const imageKey = await this.embedImage(note, figure);
+        if (imageKey) {
+          sections.push(`<p><img data-attachment-key="${imageKey}"/></p>`);
+        }
+      }
+      if (figure.page) {
+        sections.push(this.buildPageLinkHtml(pdfAttachment, figure.page));
+      }
+
+      sections.push(
+        explanation.text
+          ? markdownToZoteroNoteHtml(explanation.text)
+          : `<p><em>${escapeHtml(
+              getString("figure-explain-figure-failed", {
+                args: { message: explanation.error || "" },
+              }),
+            )}</em></p>`,
+      );
+    }
+
+    const noteHtml = LLMNoteMetadataService.wrapHtml(
+      `${sections[0]}\n<div data-schema-version="8">\n${sections
+        .slice(1)
+        .join("\n")}\n</div>`,
+      metadata,
+    );
+    note.setNote(noteHtml);
+    await note.saveTx();
+
+    ztoolkit.log(`[AI-Butler] 逐图解读笔记已创建: ${itemTitle}`);
+  }
+
+  /**
+   * 把图表写入笔记的内嵌图片附件，失败时只记录日志
+   */
+  private static async embedImage(
+    note: Zotero.Item,
+    figure: FigureImage,
+  ): Promise<string | null> {
+    try {
+      const attachment = await Zotero.Attachments.importEmbeddedImage({
+        blob: new Blob([figure.data], { type: figure.image.mimeType }),
+        parentItemID: note.id,
+      });
+      return attachment.key;
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 图表图片写入笔记失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 构建回到 PDF 对应页的链接；找不到 PDF 附件时只显示页码
+   */
+  private static buildPageLinkHtml(
+    pdfAttachment: Zotero.Item | null,
+    page: number,
+  ): string {
+    const label = escapeHtml(
+      getString("figure-explain-page-link", { args: { page } }),
+    );
+    if (!pdfAttachment) return `<p>${label}</p>`;
+
+    const library: any = Zotero.Libraries.get(pdfAttachment.libraryID);
+    const libraryPath =
+      library?.libraryType === "group"
+        ? `groups/${library.groupID}`
+        : "library";
+    const href = `zotero://open-pdf/${libraryPath}/items/${pdfAttachment.key}?page=${page}`;
+    return `<p><a href="${escapeHtml(href)}">${label}</a></p>`;
+  }
+
+  /**
+   * 查找已有的逐图解读笔记
+   */
+  public static async findExistingFigureNote(
+    item: Zotero.Item,
+  ): Promise<Zotero.Item | null> {
+    const noteIds = item.getNotes();
+    for (const noteId of noteIds) {
+      const note = await Zotero.Items.getAsync(noteId);
+      if (!note) continue;
+
+      const tags: Array<{ tag: string }> = (note as any).getTags?.() || [];
+      if (tags.some((t) => t.tag === FIGURE_NOTE_TAG)) {
+        return note;
+      }
+    }
+
+    return null;
+  }
+}
+
+export default FigureExplainService;
@@ -0,0 +1,417 @@
+/**
+ * 论文图表提取
+ *
+ * 逐图解读需要把图表作为图片发送给支持视觉输入的模型。图片有两种来源：
+ * - MinerU：解析时随 Markdown 保存的图片资源，图题与页码取自 content_list.json，
+ *   旧版本保存的结果没有内容列表时退回 Markdown 中的图片引用与相邻图题；
+ * - 页面渲染：调用本地程序（默认参数适配 poppler 的 pdftoppm）把 PDF 页面渲染为图片，
+ *   由模型自行找出每页中的图表。只检查前 `figurePageRenderMaxPages` 页，能取得分页文字时
+ *   只渲染带图题的页，否则按页序取前几页。
+ *
+ * `figureExplainSource` 为 auto 时优先使用 MinerU，没有可用图片时再渲染页面。
+ */
+import { getString } from "../utils/locale";
+import { getPref } from "../utils/prefs";
+import type { LLMImageInput } from "./llmproviders/types";
+import {
+  MINERU_CONTENT_LIST_FILE,
+  MineruMarkdownSaver,
+} from "./mineruMarkdownSaver";
+import { PDFExtractor } from "./pdfExtractor";
+import { buildOcrCommandArgs } from "./pdfOcr";
+
+export type FigureExplainSource = "auto" | "mineru" | "pageRender";
+
+/** page 表示整页渲染图，其中可能包含多个图表 */
+export type FigureKind = "figure" | "table" | "page";
+
+/** MinerU 解析结果中的一张图表 */
+export interface MineruFigureRef {
+  kind: "figure" | "table";
+  /** 相对 Markdown 文件的图片路径 */
+  imagePath: string;
+  caption: string;
+  /** 页码，从 1 开始；没有内容列表时未知 */
+  page?: number;
+}
+
+export interface FigureImage {
+  kind: FigureKind;
+  caption: string;
+  page?: number;
+  image: LLMImageInput;
+  /** 原始图片数据，写入笔记时作为内嵌图片 */
+  data: Uint8Array;
+}
+
+export interface FigureExtraction {
+  source: "mineru" | "pageRender";
+  figures: FigureImage[];
+  /** 用于回链页码的 PDF 附件 */
+  pdfAttachment: Zotero.Item | null;
+}
+
+export const DEFAULT_PAGE_RENDER_ARGS =
+  "-png -r 110 -l {lastPage} {input} {outputPrefix}";
+
+const DEFAULT_MAX_IMAGES = 20;
+const DEFAULT_RENDER_MAX_PAGES = 50;
+
+const MARKDOWN_IMAGE_REGEX =
+  /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+const CAPTION_LINE_REGEX =
+  /^(?:\*\*|__)?\s*(?:fig(?:ure)?\.?|table|tab\.|图|表)\s*[A-Za-z]?\d+/i;
+
+const TABLE_CAPTION_REGEX = /^(?:\*\*|__)?\s*(?:table|tab\.|表)/i;
+
+function joinCaption(value: unknown): string {
+  const parts = Array.isArray(value) ? value : value ? [value] : [];
+  return parts
+    .map((part) => String(part ?? "").trim())
+    .filter(Boolean)
+    .join(" ")
+    .replace(/\s+/g, " ");
+}
+
+function normalizeImagePath(path: string): string {
+  let normalized = path.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+  try {
+    normalized = decodeURIComponent(normalized);
+  } catch {
+    // 保留原始路径
+  }
+  return normalized;
+}
+
+function cleanCaptionLine(line: string): string {
+  return line
+    .replace(/^(?:\*\*|__)(.+?)(?:\*\*|__)/, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 从 Markdown 图片引用前后找图题：优先紧随其后的图题行，其次紧挨在前的（表格图题常在上方）
+ */
+function findMarkdownCaption(lines: string[], index: number): string {
+  for (let i = index + 1; i < lines.length && i <= index + 3; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    if (CAPTION_LINE_REGEX.test(line)) return cleanCaptionLine(line);
+    break;
+  }
+  for (let i = index - 1; i >= 0 && i >= index - 3; i--) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    if (CAPTION_LINE_REGEX.test(line)) return cleanCaptionLine(line);
+    break;
+  }
+  return "";
+}
+
+/**
+ * 解析 MinerU 结果中的图表
+ *
+ * 有 content_list.json 时按其中的 image/table 条目取图片、图题与页码；
+ * 否则扫描 Markdown 图片引用。存在带图题的图表时丢弃无图题的图片（多为公式或装饰图）。
+ */
+export function parseMineruFigures(
+  markdown: string,
+  contentList?: unknown,
+): MineruFigureRef[] {
+  const figures: MineruFigureRef[] = [];
+  const seen = new Set<string>();
+  const push = (figure: MineruFigureRef) => {
+    if (!figure.imagePath || seen.has(figure.imagePath)) return;
+    seen.add(figure.imagePath);
+    figures.push(figure);
+  };
+
+  if (Array.isArray(contentList)) {
+    for (const entry of contentList) {
+      if (!entry || typeof entry !== "object") continue;
+      const block = entry as Record<string, unknown>;
+      if (block.type !== "image" && block.type !== "table") continue;
+      if (typeof block.img_path !== "string" || !block.img_path.trim()) {
+        continue;
+      }
+      const pageIndex = Number(block.page_idx);
+      push({
+        kind: block.type === "table" ? "table" : "figure",
+        imagePath: normalizeImagePath(block.img_path),
+        caption: joinCaption(
+          block.type === "table"
+            ? block.table_caption
+            : (block.image_caption ?? block.img_caption),
+        ),
+        page:
+          Number.isInteger(pageIndex) && pageIndex >= 0
+            ? pageIndex + 1
+            : undefined,
+      });
+    }
+  }
+
+  if (figures.length === 0) {
+    const lines = markdown.split(/\r?\n/);
+    lines.forEach((line, index) => {
+      for (const match of line.matchAll(MARKDOWN_IMAGE_REGEX)) {
+        const imagePath = normalizeImagePath(match[2]);
+        if (/^(?:https?|data):/i.test(imagePath)) continue;
+        const caption =
+          findMarkdownCaption(lines, index) || match[1].trim().slice(0, 200);
+        push({
+          kind: TABLE_CAPTION_REGEX.test(caption) ? "table" : "figure",
+          imagePath,
+          caption,
+        });
+      }
+    });
+  }
+
+  return figures.some((figure) => figure.caption)
+    ? figures.filter((figure) => figure.caption)
+    : figures;
+}
+
+/**
+ * 找出带图题（Figure 1、Table 2、图 3 等开头的行）的页，页码从 1 开始
+ */
+export function findCaptionPages(pageTexts: string[]): number[] {
+  const pages: number[] = [];
+  pageTexts.forEach((text, index) => {
+    if (
+      text.split(/\r?\n/).some((line) => CAPTION_LINE_REGEX.test(line.trim()))
+    ) {
+      pages.push(index + 1);
+    }
+  });
+  return pages;
+}
+
+/**
+ * 从渲染程序输出的文件名中取页码，如 page-03.png → 3
+ */
+export function parseRenderedPageNumber(fileName: string): number | null {
+  const match = /[-_](\d+)\.(?:png|jpe?g)$/i.exec(fileName);
+  if (!match) return null;
+  const page = parseInt(match[1], 10);
+  return page > 0 ? page : null;
+}
+
+export function guessImageMimeType(path: string): string | null {
+  const extension = /\.([a-z0-9]+)$/i.exec(path)?.[1]?.toLowerCase();
+  switch (extension) {
+    case "png":
+      return "image/png";
+    case "jpg":
+    case "jpeg":
+      return "image/jpeg";
+    case "webp":
+      return "image/webp";
+    case "gif":
+      return "image/gif";
+    default:
+      return null;
+  }
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, i + chunkSize);
+    binary += String.fromCharCode(...Array.from(chunk));
+  }
+  return btoa(binary);
+}
+
+export class FigureExtractor {
+  /**
+   * 按配置提取条目的图表图片；没有任何可用来源时抛出错误
+   */
+  static async extract(item: Zotero.Item): Promise<FigureExtraction> {
+    const source = String(
+      getPref("figureExplainSource") || "auto",
+    ) as FigureExplainSource;
+    const maxImages = Math.max(
+      1,
+      Number(getPref("figureExplainMaxImages")) || DEFAULT_MAX_IMAGES,
+    );
+    const pdfAttachment =
+      (await PDFExtractor.getAllPdfAttachments(item))[0] ?? null;
+
+    if (source !== "pageRender") {
+      const figures = await this.extractFromMineru(item, maxImages);
+      if (figures.length > 0) {
+        return { source: "mineru", figures, pdfAttachment };
+      }
+      if (source === "mineru") {
+        throw new Error(getString("figure-explain-error-no-mineru"));
+      }
+    }
+
+    const command = String(getPref("figurePageRenderCommand") || "").trim();
+    if (!command) {
+      throw new Error(getString("figure-explain-error-no-source"));
+    }
+    const pdfPath = await pdfAttachment?.getFilePathAsync();
+    if (!pdfAttachment || !pdfPath) {
+      throw new Error(getString("figure-explain-error-no-pdf"));
+    }
+    const figures = await this.renderPages(
+      command,
+      pdfAttachment,
+      pdfPath,
+      maxImages,
+    );
+    if (figures.length === 0) {
+      throw new Error(getString("figure-explain-error-render-empty"));
+    }
+    return { source: "pageRender", figures, pdfAttachment };
+  }
+
+  private static async extractFromMineru(
+    item: Zotero.Item,
+    maxImages: number,
+  ): Promise<FigureImage[]> {
+    const bundle = await MineruMarkdownSaver.readCachedBundle(item);
+    if (!bundle) return [];
+
+    let contentList: unknown;
+    const listData = await MineruMarkdownSaver.readBundleAsset(
+      bundle,
+      MINERU_CONTENT_LIST_FILE,
+    );
+    if (listData) {
+      try {
+        contentList = JSON.parse(new TextDecoder().decode(listData));
+      } catch (error) {
+        ztoolkit.log("[AI-Butler][Figures] MinerU 内容列表解析失败:", error);
+      }
+    }
+
+    const figures: FigureImage[] = [];
+    for (const ref of parseMineruFigures(bundle.markdown, contentList)) {
+      if (figures.length >= maxImages) break;
+      const mimeType = guessImageMimeType(ref.imagePath);
+      if (!mimeType) continue;
+      const data = await MineruMarkdownSaver.readBundleAsset(
+        bundle,
+        ref.imagePath,
+      );
+      if (!data) {
+        ztoolkit.log(`[AI-Butler][Figures] 找不到图片资源: ${ref.imagePath}`);
+        continue;
+      }
+      figures.push({
+        kind: ref.kind,
+        caption: ref.caption,
+        page: ref.page,
+        image: { mimeType, base64: bytesToBase64(data) },
+        data,
+      });
+    }
+    return figures;
+  }
+
+  /**
+   * 按 PDF 文字层找出带图题的页；取不到分页文字时返回 null
+   */
+  private static async findFigurePages(
+    pdfAttachment: Zotero.Item,
+    maxPages: number,
+  ): Promise<number[] | null> {
+    try {
+      const result = await Zotero.PDFWorker.getFullText(
+        pdfAttachment.id,
+        maxPages,
+      );
+      const pageTexts = String(result?.text || "").split("\f");
+      return pageTexts.length > 1 ? findCaptionPages(pageTexts) : null;
+    } catch (error) {
+      ztoolkit.log("[AI-Butler][Figures] 读取 PDF 分页文字失败:", error);
+      return null;
+    }
+  }
+
+  private static async renderPages(
+    command: string,
+    pdfAttachment: Zotero.Item,
+    pdfPath: string,
+    maxImages: number,
+  ): Promise<FigureImage[]> {
+    const template =
+      String(getPref("figurePageRenderArgs") || "").trim() ||
+      DEFAULT_PAGE_RENDER_ARGS;
+    const maxPages = Math.max(
+      1,
+      Number(getPref("figurePageRenderMaxPages")) || DEFAULT_RENDER_MAX_PAGES,
+    );
+    const captionPages = await this.findFigurePages(pdfAttachment, maxPages);
+    // 没有识别到任何图题时（如扫描版）退回按页序取前几页
+    const selectedPages = captionPages?.length
+      ? captionPages.filter((page) => page <= maxPages).slice(0, maxImages)
+      : null;
+    const lastPage = selectedPages
+      ? selectedPages[selectedPages.length - 1]
+      : Math.min(maxPages, maxImages);
+
+    const tempRoot = Services.dirsvc.get("TmpD", Ci.nsIFile).path;
+    const workDir = PathUtils.join(
+      tempRoot,
+      "zotero-ai-butler-figures",
+      `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    );
+    await IOUtils.makeDirectory(workDir, {
+      ignoreExisting: true,
+      createAncestors: true,
+    } as any);
+
+    try {
+      const args = buildOcrCommandArgs(template, {
+        input: pdfPath,
+        outputDir: workDir,
+        outputPrefix: PathUtils.join(workDir, "page"),
+        lastPage: String(lastPage),
+      });
+      ztoolkit.log(
+        `[AI-Butler][Figures] 运行页面渲染程序: ${command} ${args.join(" ")}`,
+      );
+      const result = await Zotero.Utilities.Internal.exec(command, args);
+      if (result instanceof Error) throw result;
+
+      const pages: Array<{ page: number; path: string; mimeType: string }> = [];
+      for (const path of await IOUtils.getChildren(workDir)) {
+        const page = parseRenderedPageNumber(PathUtils.filename(path));
+        const mimeType = guessImageMimeType(path);
+        if (page && mimeType) pages.push({ page, path, mimeType });
+      }
+      pages.sort((a, b) => a.page - b.page);
+      const selected = selectedPages
+        ? pages.filter(({ page }) => selectedPages.includes(page))
+        : pages.slice(0, maxImages);
+
+      const figures: FigureImage[] = [];
+      for (const { page, path, mimeType } of selected) {
+        const data = await IOUtils.read(path);
+        figures.push({
+          kind: "page",
+          caption: "",
+          page,
+          image: { mimeType, base64: bytesToBase64(data) },
+          data,
+        });
+      }
+      return figures;
+    } finally {
+      await IOUtils.remove(workDir, {
+        recursive: true,
+        ignoreAbsent: true,
+      }).catch((error: unknown) => {
+        ztoolkit.log("[AI-Butler][Figures] 清理渲染临时目录失败:", error);
+      });
+    }
+  }
+}
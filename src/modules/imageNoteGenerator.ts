@@ -1,4 +1,5 @@
 import { getString } from "../utils/locale";
+import { AiNoteHistory, type AiNoteHistoryContext } from "./aiNoteHistory";
 /**
  * ================================================================
  * 一图总结笔记生成器模块
@@ -43,18 +44,21 @@ export class ImageNoteGenerator {
    * @param item Zotero 文献条目对象
    * @param imageBase64 Base64 编码的图片数据 (不含 data URI 前缀)
    * @param mimeType 图片 MIME 类型，如 "image/png"
+   * @param history 记入笔记历史的生图提示词
    * @returns 创建的笔记对象
    */
   public static async createImageNote(
     item: Zotero.Item,
     imageBase64: string,
     mimeType: string = "image/png",
+    history: AiNoteHistoryContext = {},
   ): Promise<Zotero.Item> {
     const itemTitle = item.getField("title") as string;
 
     // 检查是否已存在一图总结笔记
     let note = await this.findExistingImageNote(item);
     const isUpdate = !!note;
+    const previousHtml: string = (note as any)?.getNote?.() || "";
 
     if (!note) {
       // 创建新笔记（先设置临时内容）
@@ -100,6 +104,13 @@ export class ImageNoteGenerator {
     // 更新笔记内容
     note.setNote(noteContent);
     await note.saveTx();
+    await AiNoteHistory.recordChange(
+      item,
+      "imageSummary",
+      previousHtml,
+      noteContent,
+      history,
+    );
 
     ztoolkit.log(
       `[AI-Butler] ${isUpdate ? "更新" : "创建"}一图总结笔记完成: ${note.id}`,
@@ -48,6 +48,16 @@ export type WorkflowProgressCallback = (
   progress: number,
 ) => void;
 
+/**
+ * 视觉摘要的输入内容
+ */
+type ExtractedPaperContent = {
+  content: string;
+  isBase64: boolean;
+  /** 清理、截断前的原始文本 */
+  rawText?: string;
+};
+
 /**
  * 一图总结服务类
  */
@@ -91,8 +101,7 @@ export class ImageSummaryService {
         }
       }
 
-      let pdfContent: string;
-      let isBase64 = false;
+      let source: ExtractedPaperContent;
       const pdfMode = LLMService.getEffectivePdfProcessMode();
 
       // 检查是否使用已有 AI 总结
@@ -105,23 +114,24 @@ export class ImageSummaryService {
         if (existingNote) {
           const noteHtml = (existingNote as any).getNote?.() || "";
           // 简单地去除 HTML 标签
-          pdfContent = noteHtml
-            .replace(/<[^>]+>/g, " ")
-            .replace(/\s+/g, " ")
-            .trim();
+          source = {
+            content: noteHtml
+              .replace(/<[^>]+>/g, " ")
+              .replace(/\s+/g, " ")
+              .trim(),
+            isBase64: false,
+          };
           ztoolkit.log(
-            `[AI-Butler] 使用已有 AI 总结，长度: ${pdfContent.length}`,
+            `[AI-Butler] 使用已有 AI 总结，长度: ${source.content.length}`,
           );
         } else {
           // 没有已有笔记，回退到 PDF 提取
           ztoolkit.log("[AI-Butler] 未找到已有 AI 总结，使用 PDF 提取");
-          pdfContent = await this.extractPdfContent(item, pdfMode);
-          isBase64 = pdfMode === "base64";
+          source = await this.extractPdfContent(item, pdfMode);
         }
       } else {
         // 直接从 PDF 提取
-        pdfContent = await this.extractPdfContent(item, pdfMode);
-        isBase64 = pdfMode === "base64";
+        source = await this.extractPdfContent(item, pdfMode);
       }
 
       // ========== 阶段 2: 生成视觉摘要 ==========
@@ -132,10 +142,10 @@ export class ImageSummaryService {
       );
 
       const visualSummary = await this.generateVisualSummary(
-        pdfContent,
-        isBase64,
+        source,
         itemTitle,
         abortSignal,
+        item.id,
       );
 
       ztoolkit.log(
@@ -170,6 +180,7 @@ export class ImageSummaryService {
         item,
         imageResult.imageBase64,
         imageResult.mimeType,
+        { prompt: imagePrompt },
       );
 
       progressCallback?.(
@@ -204,30 +215,38 @@ export class ImageSummaryService {
 
   /**
    * 提取 PDF 内容
+   *
+   * 文本统一清理、截断；同时保留原始文本，端点启用长文档分块时由 LLMService 据此分块。
    */
   private static async extractPdfContent(
     item: Zotero.Item,
     mode: LLMPdfProcessMode,
-  ): Promise<string> {
+  ): Promise<ExtractedPaperContent> {
     const extracted = await ContentExtractor.extractAnalyzableContentFromItem(
       item,
       mode === "base64",
       mode,
     );
-    if (extracted.isBase64) return extracted.content;
+    if (extracted.isBase64) {
+      return { content: extracted.content, isBase64: true };
+    }
 
     const cleanedText = PDFExtractor.cleanText(extracted.content);
-    return PDFExtractor.truncateText(cleanedText);
+    return {
+      content: PDFExtractor.truncateText(cleanedText),
+      isBase64: false,
+      rawText: extracted.content,
+    };
   }
 
   /**
    * 生成视觉摘要
    */
   private static async generateVisualSummary(
-    pdfContent: string,
-    isBase64: boolean,
+    source: ExtractedPaperContent,
     itemTitle: string,
     abortSignal?: LLMAbortSignal,
+    itemId?: number,
   ): Promise<string> {
     // 获取视觉提取提示词
     let prompt = getConfiguredImageSummaryPrompt(
@@ -237,7 +256,7 @@ export class ImageSummaryService {
     // 替换变量
     prompt = prompt.replace(
       /\$\{context\}/g,
-      isBase64 ? "[PDF 文件内容]" : pdfContent.substring(0, 5000),
+      source.isBase64 ? "[PDF 文件内容]" : source.content.substring(0, 5000),
     );
     prompt = prompt.replace(/\$\{title\}/g, itemTitle);
 
@@ -247,11 +266,13 @@ export class ImageSummaryService {
       prompt,
       content: {
         kind: "legacy",
-        content: pdfContent,
-        isBase64,
-        policy: isBase64 ? "pdf-base64" : "text",
+        content: source.content,
+        isBase64: source.isBase64,
+        rawText: source.rawText,
+        policy: source.isBase64 ? "pdf-base64" : "text",
       },
       transport: { abortSignal },
+      metadata: { itemId },
     });
 
     return summary;
@@ -0,0 +1,284 @@
+/**
+ * 文献库问答
+ *
+ * 与条目面板的快速追问不同，这里不需要手动挑选相关文献：每次提问时按问题自动检索
+ * 文献库（或某个分类）中的相关条目（语义索引 + 全文关键词），优先使用 AI 总结，
+ * 没有总结的条目改用全文节选作为上下文，回答中的 [n] 引用链接回对应的 Zotero 条目。
+ *
+ * - 引用编号在整个会话内保持稳定，后续提问检索到已出现的文献时沿用原编号
+ * - 历史轮次只保留问题与回答，不重复发送之前的文献内容
+ * - 会话可保存为独立笔记（选中分类时放入该分类）
+ */
+import { getString } from "../utils/locale";
+import { getLibraryChatPrompt } from "../utils/prompts";
+import { appendQuickChatTurn, buildQuickChatConversation } from "./chatContext";
+import {
+  LLMNoteMetadataService,
+  type LLMNoteMetadata,
+} from "./llmNoteMetadata";
+import LLMService from "./llmService";
+import type {
+  ConversationMessage,
+  LLMAbortSignal,
+  ProgressCb,
+} from "./llmproviders/types";
+import { NoteGenerator } from "./noteGenerator";
+import {
+  buildQuickChatQuestionWithRelatedContext,
+  resolveQuickChatRetrievedContext,
+  retrieveQuickChatRelatedItemRefs,
+  type QuickChatRelatedItemRef,
+  type QuickChatRetrievalScope,
+} from "./quickChatRelatedContext";
+
+export const LIBRARY_CHAT_NOTE_TAG = "AI-Butler-Chat";
+
+export interface LibraryChatScope extends QuickChatRetrievalScope {
+  label: string;
+}
+
+export interface LibraryChatTurn {
+  question: string;
+  answer: string;
+  /** 本轮作为上下文提供给模型的文献引用编号 */
+  citations: number[];
+}
+
+export interface LibraryChatSession {
+  scope: LibraryChatScope;
+  history: ConversationMessage[];
+  turns: LibraryChatTurn[];
+  /** 会话内出现过的文献，下标 + 1 即引用编号 */
+  sources: QuickChatRelatedItemRef[];
+  metadata: LLMNoteMetadata | null;
+}
+
+export interface LibraryChatAskOptions {
+  onProgress?: ProgressCb;
+  onStatus?: (message: string) => void;
+  abortSignal?: LLMAbortSignal;
+}
+
+export function createLibraryChatSession(
+  scope: LibraryChatScope,
+): LibraryChatSession {
+  return { scope, history: [], turns: [], sources: [], metadata: null };
+}
+
+/**
+ * zotero://select 链接；群组库需要群组 ID 而非 libraryID
+ */
+export function buildZoteroSelectUri(
+  itemKey: string,
+  groupID?: number,
+): string {
+  return groupID
+    ? `zotero://select/groups/${groupID}/items/${itemKey}`
+    : `zotero://select/library/items/${itemKey}`;
+}
+
+/**
+ * 把回答中的 [n]、[n, m] 引用转换为指向 Zotero 条目的 Markdown 链接
+ *
+ * 未知编号保持原样，已经是链接的 [n](url) 不重复处理。
+ */
+export function linkLibraryChatCitations(
+  answer: string,
+  sources: QuickChatRelatedItemRef[],
+  uriFor: (ref: QuickChatRelatedItemRef) => string,
+): string {
+  return answer.replace(
+    /\[(\d+(?:\s*[,，]\s*\d+)*)\](?!\()/g,
+    (fullMatch, list: string) => {
+      const numbers = list.split(/\s*[,，]\s*/).map(Number);
+      if (numbers.some((num) => !sources[num - 1])) return fullMatch;
+      return numbers
+        .map((num) => `[[${num}]](${uriFor(sources[num - 1])})`)
+        .join(", ");
+    },
+  );
+}
+
+/**
+ * 会话笔记正文：每轮问答，末尾附参考文献列表
+ */
+export function buildLibraryChatNoteMarkdown(
+  session: LibraryChatSession,
+  uriFor: (ref: QuickChatRelatedItemRef) => string,
+): string {
+  const turns = session.turns.map((turn) =>
+    [
+      `### ${turn.question.replace(/\s+/g, " ").trim()}`,
+      linkLibraryChatCitations(turn.answer, session.sources, uriFor),
+    ].join("\n\n"),
+  );
+  const references = session.sources.map(
+    (ref, index) => `${index + 1}. [${ref.title}](${uriFor(ref)})`,
+  );
+  return [
+    ...turns,
+    `### ${getString("library-chat-note-references")}`,
+    references.join("\n"),
+  ].join("\n\n");
+}
+
+export class LibraryChatService {
+  /**
+   * 可选的问答范围：Zotero 主窗口当前的文献库，以及选中的分类
+   */
+  static getAvailableScopes(): LibraryChatScope[] {
+    const scopes: LibraryChatScope[] = [];
+    try {
+      const pane = Zotero.getActiveZoteroPane();
+      const libraryID =
+        pane.getSelectedLibraryID?.() || Zotero.Libraries.userLibraryID;
+      const library = Zotero.Libraries.get(libraryID);
+      scopes.push({
+        libraryID,
+        label: getString("library-chat-scope-library", {
+          args: { name: library ? library.name : "" },
+        }),
+      });
+      const collection = pane.getSelectedCollection?.();
+      if (collection) {
+        scopes.push({
+          libraryID: collection.libraryID,
+          collectionId: collection.id,
+          label: getString("library-chat-scope-collection", {
+            args: { name: collection.name },
+          }),
+        });
+      }
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 读取文献库问答范围失败:", error);
+    }
+    if (scopes.length === 0) {
+      scopes.push({
+        libraryID: Zotero.Libraries.userLibraryID,
+        label: getString("library-chat-scope-library", {
+          args: { name: "" },
+        }),
+      });
+    }
+    return scopes;
+  }
+
+  static getItemSelectUri(ref: QuickChatRelatedItemRef): string {
+    const library =
+      typeof ref.libraryID === "number"
+        ? Zotero.Libraries.get(ref.libraryID)
+        : null;
+    const groupID =
+      library && library.libraryType === "group"
+        ? (library as any).groupID
+        : undefined;
+    return buildZoteroSelectUri(ref.key || "", groupID);
+  }
+
+  /**
+   * 检索相关文献并回答问题
+   *
+   * @returns 本轮问答；检索不到任何可用文献时返回 null，不调用模型
+   */
+  static async ask(
+    session: LibraryChatSession,
+    question: string,
+    options: LibraryChatAskOptions = {},
+  ): Promise<LibraryChatTurn | null> {
+    options.onStatus?.(getString("library-chat-status-retrieving"));
+    const refs = await retrieveQuickChatRelatedItemRefs(
+      question,
+      session.scope,
+    );
+    if (refs.length === 0) return null;
+
+    options.onStatus?.(
+      getString("library-chat-status-reading", {
+        args: { count: refs.length },
+      }),
+    );
+    const context = await resolveQuickChatRetrievedContext(refs);
+    if (context.included.length === 0) return null;
+
+    const citations: number[] = [];
+    for (const entry of context.included) {
+      let index = session.sources.findIndex(
+        (ref) => ref.itemId === entry.ref.itemId,
+      );
+      if (index < 0) {
+        session.sources.push(entry.ref);
+        index = session.sources.length - 1;
+      }
+      entry.citationIndex = index + 1;
+      citations.push(index + 1);
+    }
+
+    options.onStatus?.(getString("library-chat-status-answering"));
+    const response = await LLMService.chat({
+      content: { kind: "text", text: "", policy: "text" },
+      conversation: buildQuickChatConversation(
+        session.history,
+        buildQuickChatQuestionWithRelatedContext(
+          `${getLibraryChatPrompt()}\n\n${question}`,
+          context,
+        ),
+      ),
+      transport: { abortSignal: options.abortSignal },
+      metadata: { taskType: "libraryChat" },
+      onProgress: options.onProgress,
+    });
+
+    const turn: LibraryChatTurn = {
+      question,
+      answer: response.text,
+      citations,
+    };
+    session.history = appendQuickChatTurn(
+      session.history,
+      question,
+      response.text,
+    );
+    session.turns.push(turn);
+    session.metadata = LLMNoteMetadataService.fromResponse("chat", response);
+    return turn;
+  }
+
+  /**
+   * 把会话保存为独立笔记，问答范围为分类时同时加入该分类
+   */
+  static async saveConversation(
+    session: LibraryChatSession,
+  ): Promise<Zotero.Item> {
+    const firstQuestion = session.turns[0]?.question || "";
+    const title = getString("library-chat-note-title", {
+      args: {
+        question:
+          firstQuestion.length > 60
+            ? `${firstQuestion.slice(0, 60)}…`
+            : firstQuestion,
+      },
+    });
+    const note = new Zotero.Item("note");
+    note.libraryID = session.scope.libraryID;
+    note.setNote(
+      NoteGenerator.formatNoteContent(
+        title,
+        buildLibraryChatNoteMarkdown(session, (ref) =>
+          this.getItemSelectUri(ref),
+        ),
+        "",
+        session.metadata,
+      ),
+    );
+    note.addTag(LIBRARY_CHAT_NOTE_TAG);
+
+    const collection = session.scope.collectionId
+      ? Zotero.Collections.get(session.scope.collectionId)
+      : null;
+    await Zotero.DB.executeTransaction(async () => {
+      await note.save();
+      if (collection) await collection.addItem(note.id);
+    });
+    return note;
+  }
+}
@@ -173,6 +173,7 @@ function resolveKindStatus(
     TaskStatus.PROCESSING,
     TaskStatus.PRIORITY,
     TaskStatus.PENDING,
+    TaskStatus.PAUSED,
   ]);
   if (activeTask) {
     const progress = clampProgress(activeTask.progress);
@@ -193,7 +194,11 @@ function resolveKindStatus(
           ? getString("library-status-tooltip-queued-priority", {
               args: { label },
             })
-          : getString("library-status-tooltip-queued", { args: { label } }),
+          : activeTask.status === TaskStatus.PAUSED
+            ? getString("library-status-tooltip-budget-paused", {
+                args: { label },
+              })
+            : getString("library-status-tooltip-queued", { args: { label } }),
     };
   }
   if (hasNote) {
@@ -20,12 +20,18 @@ import { ContentExtractor } from "./contentExtractor";
 import { PDFExtractor } from "./pdfExtractor";
 import { NoteGenerator } from "./noteGenerator";
 import { zoteroNoteMathHtml } from "./noteMarkdown";
-import LLMService from "./llmService";
+import LLMService, { type LLMGenerateRequest } from "./llmService";
 import {
   LLMNoteMetadataService,
   type LLMNoteMetadata,
 } from "./llmNoteMetadata";
-import type { LLMAbortSignal } from "./llmproviders/types";
+import type { LLMAbortSignal, LLMResponse } from "./llmproviders/types";
+import {
+  buildTableFillSchema,
+  parseMarkdownTableTemplate,
+  renderFilledMarkdownTable,
+  type TableFillResult,
+} from "./structuredOutputSchemas";
 import { getPref } from "../utils/prefs";
 import { getString } from "../utils/locale";
 import { marked } from "marked";
@@ -315,6 +321,7 @@ export class LiteratureReviewService {
       prompt: fullPrompt,
       content: { kind: "text", text: aggregated, policy: "text" },
       transport: { abortSignal },
+      metadata: { taskType: "targetedQuestion" },
     });
     let answerContent = answerResponse.text;
     answerContent = await this.postProcessCitations(
@@ -661,7 +668,8 @@ ${entryList}
     );
 
     // 调用统一 LLM 中间件填表。输入策略由中间件统一读取并按 Provider 能力降级。
-    const response = await LLMService.generate({
+    // 标准 Markdown 表格模板按单元格结构化返回，再按模板渲染；其他模板保持自由输出。
+    const request: LLMGenerateRequest = {
       task: "table",
       prompt: actualPrompt,
       content: {
@@ -673,8 +681,21 @@ ${entryList}
         /* dummy callback to trigger streaming */
       },
       transport: { abortSignal },
-    });
-    const result = response.text;
+    };
+    const template = parseMarkdownTableTemplate(tableTemplate);
+    let response: LLMResponse;
+    let result: string;
+    if (template) {
+      const filled = await LLMService.generateObject<TableFillResult>({
+        ...request,
+        output: { format: "json", schema: buildTableFillSchema(template) },
+      });
+      response = filled;
+      result = renderFilledMarkdownTable(template, filled.data);
+    } else {
+      response = await LLMService.generate(request);
+      result = response.text;
+    }
     this.lastTableMetadataByItemId.set(
       item.id,
       LLMNoteMetadataService.fromResponse("table", response),
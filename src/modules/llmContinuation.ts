@@ -0,0 +1,89 @@
+/**
+ * 输出截断后的自动续写
+ *
+ * 模型因 max tokens 停止（finishReason 为 length / max_tokens 等）或流式输出中途断开时，
+ * LLMService 会把已生成的内容作为 assistant 消息回传并要求模型接着写，
+ * 再把各轮输出拼接成完整文本。本模块提供判定、拼接与轮数配置。
+ */
+
+import { getPref } from "../utils/prefs";
+import type { ProgressCb } from "./llmproviders/types";
+
+export const DEFAULT_AUTO_CONTINUE_ROUNDS = 2;
+
+/** 续写轮数上限，防止配置错误导致无限请求 */
+const MAX_AUTO_CONTINUE_ROUNDS = 10;
+
+/** 拼接时检测重复的最大/最小字符数：模型常会重复上一轮结尾的几个词 */
+const MAX_OVERLAP_CHARS = 400;
+const MIN_OVERLAP_CHARS = 12;
+
+export const CONTINUATION_PROMPT =
+  "Your previous answer was cut off because of the output length limit. Continue exactly from where it stopped, without repeating earlier content and without any preamble.";
+
+/**
+ * 读取自动续写的最大轮数，0 表示关闭
+ */
+export function getAutoContinueLimit(): number {
+  const raw = parseInt(
+    String(getPref("autoContinueMaxRounds") ?? DEFAULT_AUTO_CONTINUE_ROUNDS),
+    10,
+  );
+  if (!Number.isFinite(raw) || raw < 0) return DEFAULT_AUTO_CONTINUE_ROUNDS;
+  return Math.min(raw, MAX_AUTO_CONTINUE_ROUNDS);
+}
+
+/**
+ * 结束原因是否表示输出达到长度上限
+ */
+export function isTruncatedFinishReason(reason?: string): boolean {
+  const value = (reason || "").toLowerCase();
+  return ["length", "max_tokens", "max_output_tokens"].some((item) =>
+    value.includes(item),
+  );
+}
+
+/**
+ * 拼接续写内容：去掉续写开头与上一段结尾重复的部分
+ */
+export function stitchContinuation(previous: string, next: string): string {
+  if (!next.trim()) return previous;
+  const candidate = next.replace(/^\s+/, "");
+  const limit = Math.min(MAX_OVERLAP_CHARS, previous.length, candidate.length);
+  for (let size = limit; size >= MIN_OVERLAP_CHARS; size--) {
+    if (previous.endsWith(candidate.slice(0, size))) {
+      return previous + candidate.slice(size);
+    }
+  }
+  return previous + next;
+}
+
+/**
+ * 续写轮的流式回调：先缓存开头，足以判断与上一段结尾的重复后再转发去重后的部分，
+ * 使界面收到的分段拼起来与 stitchContinuation 的结果一致；本轮结束后须调用 flush
+ */
+export function createContinuationProgress(
+  previous: string,
+  onProgress: ProgressCb,
+): { onProgress: ProgressCb; flush: () => Promise<void> } {
+  let buffered = "";
+  let forwarding = false;
+  const release = async () => {
+    forwarding = true;
+    const rest = stitchContinuation(previous, buffered).slice(previous.length);
+    if (rest) await onProgress(rest);
+  };
+  return {
+    onProgress: async (chunk) => {
+      if (forwarding) return onProgress(chunk);
+      buffered += chunk;
+      // 重复部分最多检查 MAX_OVERLAP_CHARS 个字符，缓存超过后结论不再变化
+      if (buffered.replace(/^\s+/, "").length >= MAX_OVERLAP_CHARS) {
+        await release();
+      }
+    },
+    flush: async () => {
+      if (!forwarding && buffered) await release();
+    },
+  };
+}
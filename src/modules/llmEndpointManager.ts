@@ -1,13 +1,50 @@
 import { getString } from "../utils/locale";
 import { getPref, setPref } from "../utils/prefs";
+import { SecretStore, isSecretRef } from "../utils/secretStore";
 import type { ProviderId } from "./apiKeyManager";
+import {
+  EndpointHealth,
+  orderEndpointsByHealth,
+  skipOpenCircuits,
+} from "./endpointHealth";
+import { normalizeAzureOpenAIConfig } from "./llmproviders/shared/azureOpenAI";
+import {
+  httpProviderConfigEquals,
+  normalizeHttpProviderConfig,
+} from "./llmproviders/shared/httpTemplate";
 import { normalizeReasoningEffortSetting } from "./llmproviders/shared/reasoning";
-import type { LLMReasoningEffortSetting } from "./llmproviders/types";
-
-export type LLMEndpointProviderType = ProviderId;
-export type LLMRoutingStrategy = "priority" | "roundRobin";
+import type {
+  LLMAzureOpenAIConfig,
+  LLMHttpProviderConfig,
+  LLMReasoningEffortSetting,
+} from "./llmproviders/types";
+import { normalizeRateLimit } from "./rateLimiter";
+
+export type LLMEndpointProviderType =
+  | ProviderId
+  | "azure-openai"
+  | "replay"
+  | "custom-http";
+export type LLMRoutingStrategy =
+  | "priority"
+  | "roundRobin"
+  | "fastestHealthy"
+  | "leastRecentlyFailed";
+/** 可单独配置路由规则的任务类型；quickChat 为条目面板中的快速追问 */
+export type LLMRoutingTaskKind =
+  | "summary"
+  | "deepRead"
+  | "tableFill"
+  | "targetedQuestion"
+  | "review"
+  | "mindmap"
+  | "figureExplain"
+  | "quickChat";
+/** 任务类型 → 按优先级排列的端点 ID；未配置的任务使用全局路由 */
+export type LLMRoutingRules = Partial<Record<LLMRoutingTaskKind, string[]>>;
 export type LLMPdfProcessMode = "base64" | "text" | "mineru";
 export type LLMEndpointPdfProcessMode = "global" | LLMPdfProcessMode;
+export type LLMLongDocumentMode = "truncate" | "chunk";
 
 export interface LLMEndpoint {
   id: string;
@@ -18,6 +55,18 @@ export interface LLMEndpoint {
   model: string;
   reasoningEffort?: LLMReasoningEffortSetting;
   pdfProcessMode?: LLMEndpointPdfProcessMode;
+  /** 超长文本处理方式：截断（默认）或分块总结后合并 */
+  longDocumentMode?: LLMLongDocumentMode;
+  /** 模型上下文长度（token），用于决定分块大小；未设置时使用默认值 */
+  contextLength?: number;
+  /** 每分钟请求数上限；未设置时不限制 */
+  requestsPerMinute?: number;
+  /** 每分钟 token 数上限（按输入估算加最大输出计），未设置时不限制 */
+  tokensPerMinute?: number;
+  /** 声明式 HTTP 端点（custom-http）的请求模板与响应解析配置 */
+  httpConfig?: LLMHttpProviderConfig;
+  /** Azure OpenAI 端点的接口类型与 api-version；模型名称填写部署名 */
+  azureConfig?: LLMAzureOpenAIConfig;
   enabled: boolean;
   createdAt: string;
   updatedAt: string;
@@ -27,6 +76,8 @@ export interface LLMEndpointRoute {
   endpoints: LLMEndpoint[];
   strategy: LLMRoutingStrategy;
   maxAttempts: number;
+  /** 命中任务路由规则时为对应任务类型 */
+  taskKind?: LLMRoutingTaskKind;
 }
 
 export interface ProviderDefaults {
@@ -86,12 +137,46 @@ const PROVIDER_DEFAULTS: Record<
     model: "llama3.2",
     reasoningEffort: "default",
   },
+  "azure-openai": {
+    labelKey: "llm-endpoint-provider-azure-openai",
+    apiUrl: "",
+    model: "",
+    reasoningEffort: "default",
+  },
+  replay: {
+    labelKey: "llm-endpoint-provider-replay",
+    apiUrl: "",
+    model: "replay",
+  },
+  "custom-http": {
+    labelKey: "llm-endpoint-provider-custom-http",
+    apiUrl: "",
+    model: "",
+  },
 };
 
 const PROVIDER_TYPES = Object.keys(
   PROVIDER_DEFAULTS,
 ) as LLMEndpointProviderType[];
 
+const ROUTING_STRATEGIES: LLMRoutingStrategy[] = [
+  "priority",
+  "roundRobin",
+  "fastestHealthy",
+  "leastRecentlyFailed",
+];
+
+const ROUTING_TASK_KINDS: LLMRoutingTaskKind[] = [
+  "summary",
+  "deepRead",
+  "tableFill",
+  "targetedQuestion",
+  "review",
+  "mindmap",
+  "figureExplain",
+  "quickChat",
+];
+
 const LEGACY_PRIMARY_ENDPOINT_ID = "endpoint-legacy-primary";
 
 function nowIso(): string {
@@ -134,6 +219,20 @@ function normalizeEndpointPdfProcessMode(
   return "global";
 }
 
+function normalizeLongDocumentMode(raw: unknown): LLMLongDocumentMode {
+  return String(raw || "").trim() === "chunk" ? "chunk" : "truncate";
+}
+
+function normalizeContextLength(raw: unknown): number | undefined {
+  const value = Math.floor(Number(raw));
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/** 端点 API 密钥在 SecretStore 中的名称 */
+function endpointSecretName(endpointId: string): string {
+  return `endpoint.${endpointId}`;
+}
+
 function parseJsonArray(raw: unknown): unknown[] {
   if (typeof raw !== "string" || !raw.trim()) return [];
   try {
@@ -144,6 +243,52 @@ function parseJsonArray(raw: unknown): unknown[] {
   }
 }
 
+function normalizeEndpointIds(raw: unknown): string[] {
+  const seen = new Set<string>();
+  const ids: string[] = [];
+  for (const value of Array.isArray(raw) ? raw : []) {
+    const id = String(value || "").trim();
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+    ids.push(id);
+  }
+  return ids;
+}
+
+function normalizeRoutingRules(raw: unknown): LLMRoutingRules {
+  let parsed: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = raw.trim() ? JSON.parse(raw) : {};
+    } catch {
+      parsed = {};
+    }
+  }
+  const rules: LLMRoutingRules = {};
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return rules;
+  }
+  for (const kind of ROUTING_TASK_KINDS) {
+    const ids = normalizeEndpointIds((parsed as Record<string, unknown>)[kind]);
+    if (ids.length > 0) rules[kind] = ids;
+  }
+  return rules;
+}
+
+/**
+ * 按规则中的顺序挑选已启用端点；规则为空或其中端点均不可用时返回空数组
+ */
+function resolveRoutingRuleEndpoints(
+  rules: LLMRoutingRules,
+  taskKind: LLMRoutingTaskKind,
+  enabled: LLMEndpoint[],
+): LLMEndpoint[] {
+  const byId = new Map(enabled.map((endpoint) => [endpoint.id, endpoint]));
+  return (rules[taskKind] || [])
+    .map((id) => byId.get(id))
+    .filter((endpoint): endpoint is LLMEndpoint => Boolean(endpoint));
+}
+
 function normalizeEndpoint(
   raw: Partial<LLMEndpoint>,
   fallbackIndex: number,
@@ -164,6 +309,16 @@ function normalizeEndpoint(
       defaults.reasoningEffort || "default",
     ),
     pdfProcessMode: normalizeEndpointPdfProcessMode(raw.pdfProcessMode),
+    longDocumentMode: normalizeLongDocumentMode(raw.longDocumentMode),
+    contextLength: normalizeContextLength(raw.contextLength),
+    requestsPerMinute: normalizeRateLimit(raw.requestsPerMinute),
+    tokensPerMinute: normalizeRateLimit(raw.tokensPerMinute),
+    ...(providerType === "custom-http"
+      ? { httpConfig: normalizeHttpProviderConfig(raw.httpConfig) }
+      : {}),
+    ...(providerType === "azure-openai"
+      ? { azureConfig: normalizeAzureOpenAIConfig(raw.azureConfig) }
+      : {}),
     enabled: raw.enabled !== false,
     createdAt,
     updatedAt: raw.updatedAt || createdAt,
@@ -197,7 +352,8 @@ export class LLMEndpointManager {
   }
 
   static providerAllowsEmptyApiKey(providerType: string): boolean {
-    return safeProviderType(providerType) === "ollama";
+    const type = safeProviderType(providerType);
+    return type === "ollama" || type === "replay" || type === "custom-http";
   }
 
   static isEndpointUsable(
@@ -230,6 +386,18 @@ export class LLMEndpointManager {
       : endpointMode;
   }
 
+  static normalizeLongDocumentMode(raw: unknown): LLMLongDocumentMode {
+    return normalizeLongDocumentMode(raw);
+  }
+
+  static normalizeContextLength(raw: unknown): number | undefined {
+    return normalizeContextLength(raw);
+  }
+
+  static normalizeRateLimit(raw: unknown): number | undefined {
+    return normalizeRateLimit(raw);
+  }
+
   static pdfProcessModeLabel(mode: LLMEndpointPdfProcessMode): string {
     switch (normalizeEndpointPdfProcessMode(mode)) {
       case "base64":
@@ -257,6 +425,13 @@ export class LLMEndpointManager {
       model: defaults.model,
       reasoningEffort: defaults.reasoningEffort || "default",
       pdfProcessMode: "global",
+      longDocumentMode: "truncate",
+      ...(providerType === "custom-http"
+        ? { httpConfig: normalizeHttpProviderConfig(undefined) }
+        : {}),
+      ...(providerType === "azure-openai"
+        ? { azureConfig: normalizeAzureOpenAIConfig(undefined) }
+        : {}),
       enabled: true,
       createdAt: timestamp,
       updatedAt: timestamp,
@@ -284,7 +459,64 @@ export class LLMEndpointManager {
       item.updatedAt = nowIso();
       return item;
     });
-    setPref("llmEndpoints", JSON.stringify(normalized));
+
+    // 端点 JSON 只保存密钥引用；已删除端点的密钥一并清理
+    for (const raw of parseJsonArray(getPref("llmEndpoints"))) {
+      const id = String((raw as Partial<LLMEndpoint>)?.id || "");
+      if (id && !seen.has(id)) SecretStore.remove(endpointSecretName(id));
+    }
+    const stored = normalized.map((item) => ({
+      ...item,
+      apiKey: SecretStore.store(endpointSecretName(item.id), item.apiKey),
+    }));
+    setPref("llmEndpoints", JSON.stringify(stored));
+  }
+
+  /**
+   * 把端点 JSON 中仍为明文的 API 密钥迁移到 SecretStore
+   *
+   * @returns 是否有密钥被迁移
+   */
+  static migrateApiKeys(): boolean {
+    const hasPlaintext = parseJsonArray(getPref("llmEndpoints")).some((raw) => {
+      const apiKey = (raw as Partial<LLMEndpoint>)?.apiKey;
+      return typeof apiKey === "string" && !!apiKey && !isSecretRef(apiKey);
+    });
+    if (!hasPlaintext) return false;
+    this.saveEndpoints(this.readStoredEndpoints());
+    return true;
+  }
+
+  /**
+   * 导出端点 JSON，默认清空 API 密钥
+   */
+  static exportEndpoints(includeSecrets = false): string {
+    return JSON.stringify(
+      this.getEndpoints().map((endpoint) =>
+        includeSecrets ? endpoint : { ...endpoint, apiKey: "" },
+      ),
+    );
+  }
+
+  /**
+   * 导入端点 JSON：密钥为空（脱敏导出）时保留本机同 ID 端点的现有密钥
+   */
+  static importEndpoints(raw: unknown): void {
+    const currentKeys = new Map(
+      this.readStoredEndpoints().map((endpoint) => [
+        endpoint.id,
+        endpoint.apiKey,
+      ]),
+    );
+    const imported = parseJsonArray(raw).map((item, index) => {
+      const endpoint = normalizeEndpoint(item as Partial<LLMEndpoint>, index);
+      // 其他设备上的密钥引用在本机无法解析，按未提供处理
+      if (!endpoint.apiKey || isSecretRef(endpoint.apiKey)) {
+        endpoint.apiKey = currentKeys.get(endpoint.id) || "";
+      }
+      return endpoint;
+    });
+    this.saveEndpoints(imported);
   }
 
   static upsertEndpoint(endpoint: LLMEndpoint): void {
@@ -313,7 +545,9 @@ export class LLMEndpointManager {
 
   static getRoutingStrategy(): LLMRoutingStrategy {
     const raw = String(getPref("llmRoutingStrategy") || "").trim();
-    return raw === "roundRobin" ? "roundRobin" : "priority";
+    return ROUTING_STRATEGIES.includes(raw as LLMRoutingStrategy)
+      ? (raw as LLMRoutingStrategy)
+      : "priority";
   }
 
   static setRoutingStrategy(strategy: LLMRoutingStrategy): void {
@@ -326,7 +560,42 @@ export class LLMEndpointManager {
     return Number.isFinite(parsed) && parsed > 0 ? parsed : 3;
   }
 
-  static prepareRoute(): LLMEndpointRoute {
+  static routingTaskKinds(): LLMRoutingTaskKind[] {
+    return [...ROUTING_TASK_KINDS];
+  }
+
+  static isRoutingTaskKind(value: unknown): value is LLMRoutingTaskKind {
+    return ROUTING_TASK_KINDS.includes(value as LLMRoutingTaskKind);
+  }
+
+  static getRoutingRules(): LLMRoutingRules {
+    return normalizeRoutingRules(getPref("llmRoutingRules"));
+  }
+
+  static getRoutingRule(taskKind: LLMRoutingTaskKind): string[] {
+    return this.getRoutingRules()[taskKind] || [];
+  }
+
+  /** 传入空列表即删除该任务的规则，恢复使用全局路由 */
+  static setRoutingRule(
+    taskKind: LLMRoutingTaskKind,
+    endpointIds: string[],
+  ): void {
+    const rules = this.getRoutingRules();
+    const ids = normalizeEndpointIds(endpointIds);
+    if (ids.length > 0) rules[taskKind] = ids;
+    else delete rules[taskKind];
+    setPref("llmRoutingRules", JSON.stringify(rules));
+  }
+
+  /**
+   * 准备本次调用的端点路由
+   *
+   * 指定任务类型且该任务配置了路由规则时，按规则顺序依次尝试其中已启用的端点；
+   * 没有规则或规则中的端点均已停用时，回退到全局路由策略。
+   * 两种情况下熔断中的端点都会被跳过（全部熔断时仍保留，见 skipOpenCircuits）。
+   */
+  static prepareRoute(taskKind?: LLMRoutingTaskKind): LLMEndpointRoute {
     let enabled = this.getEnabledEndpoints();
     if (!enabled.some((endpoint) => this.isEndpointUsable(endpoint))) {
       this.syncLegacyPrimaryEndpointFromPrefs();
@@ -336,26 +605,52 @@ export class LLMEndpointManager {
       throw new Error(getString("llm-error-no-enabled-endpoints"));
     }
 
-    const strategy = this.getRoutingStrategy();
     const maxAttempts = this.getMaxAttemptCount();
-    if (strategy === "priority") {
-      return { endpoints: enabled, strategy, maxAttempts };
+    const health = EndpointHealth.getStatsMap(
+      enabled.map((endpoint) => endpoint.id),
+    );
+    if (taskKind) {
+      const ruled = resolveRoutingRuleEndpoints(
+        this.getRoutingRules(),
+        taskKind,
+        enabled,
+      );
+      if (ruled.length > 0) {
+        return {
+          endpoints: skipOpenCircuits(ruled, health),
+          strategy: "priority",
+          maxAttempts,
+          taskKind,
+        };
+      }
     }
 
-    const cursor = this.getRoundRobinCursor();
-    const start = enabled.findIndex((endpoint) => endpoint.id === cursor);
-    const startIndex = start >= 0 ? start : 0;
+    const strategy = this.getRoutingStrategy();
+    let ordered = enabled;
+    if (strategy === "roundRobin") {
+      const cursor = this.getRoundRobinCursor();
+      const start = enabled.findIndex((endpoint) => endpoint.id === cursor);
+      const startIndex = start >= 0 ? start : 0;
+      ordered = [...enabled.slice(startIndex), ...enabled.slice(0, startIndex)];
+    } else if (
+      strategy === "fastestHealthy" ||
+      strategy === "leastRecentlyFailed"
+    ) {
+      ordered = orderEndpointsByHealth(enabled, strategy, health);
+    }
     return {
-      endpoints: [
-        ...enabled.slice(startIndex),
-        ...enabled.slice(0, startIndex),
-      ],
+      endpoints: skipOpenCircuits(ordered, health),
       strategy,
       maxAttempts,
     };
   }
 
-  static markEndpointAttempted(endpointId: string): void {
+  /** 任务路由规则按固定顺序选择端点，传入其 route 时不推进全局轮询游标 */
+  static markEndpointAttempted(
+    endpointId: string,
+    route?: Pick<LLMEndpointRoute, "taskKind">,
+  ): void {
+    if (route?.taskKind) return;
     if (this.getRoutingStrategy() !== "roundRobin") return;
     const enabled = this.getEnabledEndpoints();
     if (enabled.length === 0) return;
@@ -402,6 +697,23 @@ export class LLMEndpointManager {
     setPref("multiModelSummaryEndpointIds", JSON.stringify(normalized));
   }
 
+  static getMultiModelSummaryJudgeEndpointId(): string {
+    return String(getPref("multiModelSummaryJudgeEndpointId") || "").trim();
+  }
+
+  static setMultiModelSummaryJudgeEndpointId(id: string): void {
+    setPref("multiModelSummaryJudgeEndpointId", String(id || "").trim());
+  }
+
+  /**
+   * 合并多模型总结的裁判端点；未设置或端点已停用时返回 undefined
+   */
+  static getMultiModelSummaryJudgeEndpoint(): LLMEndpoint | undefined {
+    const id = this.getMultiModelSummaryJudgeEndpointId();
+    if (!id) return undefined;
+    return this.getEnabledEndpoints().find((endpoint) => endpoint.id === id);
+  }
+
   static getMultiModelSummaryEndpoints(): LLMEndpoint[] {
     const selectedIds = this.getMultiModelSummaryEndpointIds();
     if (selectedIds.length === 0) return [];
@@ -448,6 +760,10 @@ export class LLMEndpointManager {
       createdAt: previous.createdAt,
       enabled: previous.enabled,
       pdfProcessMode: previous.pdfProcessMode || "global",
+      longDocumentMode: previous.longDocumentMode || "truncate",
+      contextLength: previous.contextLength,
+      requestsPerMinute: previous.requestsPerMinute,
+      tokensPerMinute: previous.tokensPerMinute,
     };
 
     if (this.endpointCoreEquals(previous, synced)) {
@@ -460,9 +776,11 @@ export class LLMEndpointManager {
   }
 
   private static readStoredEndpoints(): LLMEndpoint[] {
-    return parseJsonArray(getPref("llmEndpoints")).map((item, index) =>
-      normalizeEndpoint(item as Partial<LLMEndpoint>, index),
-    );
+    return parseJsonArray(getPref("llmEndpoints")).map((item, index) => {
+      const endpoint = normalizeEndpoint(item as Partial<LLMEndpoint>, index);
+      endpoint.apiKey = SecretStore.resolve(endpoint.apiKey);
+      return endpoint;
+    });
   }
 
   private static getRoundRobinCursor(): string {
@@ -484,6 +802,7 @@ export class LLMEndpointManager {
       model: this.getLegacyModel(providerType) || defaults.model,
       reasoningEffort: this.getLegacyReasoningEffort(providerType),
       pdfProcessMode: "global",
+      longDocumentMode: "truncate",
       enabled: true,
       createdAt: timestamp,
       updatedAt: timestamp,
@@ -493,7 +812,7 @@ export class LLMEndpointManager {
   private static getLegacyApiUrl(
     providerType: LLMEndpointProviderType,
   ): string {
-    const keyByProvider: Record<LLMEndpointProviderType, string> = {
+    const keyByProvider: Partial<Record<LLMEndpointProviderType, string>> = {
       openai: "openaiApiUrl",
       "openai-compat": "openaiCompatApiUrl",
       google: "geminiApiUrl",
@@ -502,13 +821,14 @@ export class LLMEndpointManager {
       volcanoark: "volcanoArkApiUrl",
       ollama: "ollamaApiUrl",
     };
-    return String(getPref(keyByProvider[providerType] as any) || "").trim();
+    const key = keyByProvider[providerType];
+    return key ? String(getPref(key as any) || "").trim() : "";
   }
 
   private static getLegacyApiKey(
     providerType: LLMEndpointProviderType,
   ): string {
-    const keyByProvider: Record<LLMEndpointProviderType, string> = {
+    const keyByProvider: Partial<Record<LLMEndpointProviderType, string>> = {
       openai: "openaiApiKey",
       "openai-compat": "openaiCompatApiKey",
       google: "geminiApiKey",
@@ -517,7 +837,8 @@ export class LLMEndpointManager {
       volcanoark: "volcanoArkApiKey",
       ollama: "ollamaApiKey",
     };
-    const value = String(getPref(keyByProvider[providerType] as any) || "");
+    const key = keyByProvider[providerType];
+    const value = key ? String(getPref(key as any) || "") : "";
     if (providerType === "openai-compat" && !value.trim()) {
       return String(getPref("openaiApiKey") || "").trim();
     }
@@ -525,7 +846,7 @@ export class LLMEndpointManager {
   }
 
   private static getLegacyModel(providerType: LLMEndpointProviderType): string {
-    const keyByProvider: Record<LLMEndpointProviderType, string> = {
+    const keyByProvider: Partial<Record<LLMEndpointProviderType, string>> = {
       openai: "openaiApiModel",
       "openai-compat": "openaiCompatModel",
       google: "geminiModel",
@@ -534,7 +855,8 @@ export class LLMEndpointManager {
       volcanoark: "volcanoArkModel",
       ollama: "ollamaModel",
     };
-    const value = String(getPref(keyByProvider[providerType] as any) || "");
+    const key = keyByProvider[providerType];
+    const value = key ? String(getPref(key as any) || "") : "";
     if (providerType === "openai-compat" && !value.trim()) {
       return String(getPref("openaiApiModel") || "").trim();
     }
@@ -564,6 +886,14 @@ export class LLMEndpointManager {
       a.model === b.model &&
       a.reasoningEffort === b.reasoningEffort &&
       (a.pdfProcessMode || "global") === (b.pdfProcessMode || "global") &&
+      (a.longDocumentMode || "truncate") ===
+        (b.longDocumentMode || "truncate") &&
+      a.contextLength === b.contextLength &&
+      a.requestsPerMinute === b.requestsPerMinute &&
+      a.tokensPerMinute === b.tokensPerMinute &&
+      httpProviderConfigEquals(a.httpConfig, b.httpConfig) &&
+      a.azureConfig?.apiMode === b.azureConfig?.apiMode &&
+      a.azureConfig?.apiVersion === b.azureConfig?.apiVersion &&
       a.enabled === b.enabled
     );
   }
@@ -1,5 +1,5 @@
 import { getString } from "../utils/locale";
-import type { LLMResponse } from "./llmproviders/types";
+import type { LLMResponse, LLMUsage } from "./llmproviders/types";
 import type { LLMTask } from "./llmService";
 
 export interface LLMNoteMetadata {
@@ -12,6 +12,15 @@ export interface LLMNoteMetadata {
   providerName: string;
   modelId?: string;
   generatedAt: string;
+  /** 输出被截断后自动续写的轮数 */
+  continuations?: number;
+  /** 共识合并区块：被合并的各模型总结区块 ID */
+  sourceBlockIds?: string[];
+  /** 生成该区块的 token 用量 */
+  usage?: Pick<
+    LLMUsage,
+    "inputTokens" | "outputTokens" | "totalTokens" | "estimated"
+  >;
 }
 
 export interface ParsedLLMNoteBlock {
@@ -169,6 +178,21 @@ function hashString(input: string): string {
   return (hash >>> 0).toString(16).padStart(8, "0");
 }
 
+function pickUsage(usage: LLMUsage): NonNullable<LLMNoteMetadata["usage"]> {
+  return {
+    ...(usage.inputTokens !== undefined
+      ? { inputTokens: usage.inputTokens }
+      : {}),
+    ...(usage.outputTokens !== undefined
+      ? { outputTokens: usage.outputTokens }
+      : {}),
+    ...(usage.totalTokens !== undefined
+      ? { totalTokens: usage.totalTokens }
+      : {}),
+    ...(usage.estimated ? { estimated: true } : {}),
+  };
+}
+
 function isMetadata(value: unknown): value is LLMNoteMetadata {
   const item = value as Partial<LLMNoteMetadata> | null;
   return (
@@ -348,6 +372,10 @@ export class LLMNoteMetadataService {
         response?.providerName || response?.providerId || "Unknown provider",
       modelId: response?.model,
       generatedAt: response?.generatedAt || new Date().toISOString(),
+      ...(response?.continuations
+        ? { continuations: response.continuations }
+        : {}),
+      ...(response?.usage ? { usage: pickUsage(response.usage) } : {}),
     };
   }
 
@@ -584,7 +612,7 @@ export class LLMNoteMetadataService {
   static formatTooltip(metadata: LLMNoteMetadata | null): string {
     if (!metadata) return getString("llm-metadata-not-recorded-detail");
     const generatedText = formatGeneratedAt(metadata.generatedAt);
-    return [
+    const lines = [
       getString("llm-metadata-tooltip-provider", {
         args: { provider: displayProviderName(metadata.providerName) },
       }),
@@ -594,11 +622,60 @@ export class LLMNoteMetadataService {
       getString("llm-metadata-tooltip-generated", {
         args: { generated: generatedText },
       }),
-    ].join("\n");
+    ];
+    if (metadata.sourceBlockIds?.length) {
+      lines.push(
+        getString("llm-metadata-tooltip-consensus", {
+          args: { count: metadata.sourceBlockIds.length },
+        }),
+      );
+    }
+    if (metadata.continuations) {
+      lines.push(
+        getString("llm-metadata-tooltip-continuations", {
+          args: { count: metadata.continuations },
+        }),
+      );
+    }
+    const usage = this.formatUsage(metadata);
+    if (usage) lines.push(usage);
+    return lines.join("\n");
+  }
+
+  static formatGeneratedTime(metadata: LLMNoteMetadata): string {
+    return formatGeneratedAt(metadata.generatedAt);
+  }
+
+  /**
+   * 格式化区块的 token 用量，未记录时返回空字符串
+   */
+  static formatUsage(metadata: LLMNoteMetadata | null): string {
+    const usage = metadata?.usage;
+    if (!usage || (!usage.inputTokens && !usage.outputTokens)) return "";
+    return getString(
+      usage.estimated
+        ? "llm-metadata-tooltip-tokens-estimated"
+        : "llm-metadata-tooltip-tokens",
+      {
+        args: {
+          input: usage.inputTokens ?? 0,
+          output: usage.outputTokens ?? 0,
+        },
+      },
+    );
   }
 
   static formatSelectorLabel(metadata: LLMNoteMetadata): string {
     const generatedText = formatGeneratedAt(metadata.generatedAt);
+    if (metadata.sourceBlockIds?.length) {
+      return getString("llm-metadata-selector-consensus", {
+        args: {
+          count: metadata.sourceBlockIds.length,
+          model: displayModelId(metadata.modelId),
+          generated: generatedText,
+        },
+      });
+    }
     return metadata.modelId
       ? getString("llm-metadata-selector-provider-model", {
           args: {
@@ -5,21 +5,54 @@
  * - 读取 Provider 与通用配置
  * - 按 Provider 能力选择 PDF/Base64/Text 输入形态
  * - 执行密钥轮换与重试
+ * - 按端点与密钥限流，429 时排队等待而非计为失败
  * - 返回统一 LLMResponse
  */
 import { getString } from "../utils/locale";
 import { getPref } from "../utils/prefs";
-import { getDefaultSummaryPrompt } from "../utils/prompts";
+import {
+  buildChunkMapPrompt,
+  buildChunkReducePrompt,
+  buildStructuredOutputInstruction,
+  buildStructuredOutputRepairPrompt,
+  getDefaultSummaryPrompt,
+} from "../utils/prompts";
 import { ApiKeyManager, type ProviderId } from "./apiKeyManager";
 import {
   LLMEndpointManager,
   type LLMEndpoint,
   type LLMPdfProcessMode,
+  type LLMRoutingTaskKind,
 } from "./llmEndpointManager";
 import { ContentExtractor } from "./contentExtractor";
 import { PDFExtractor } from "./pdfExtractor";
+import { UsageLedger, type UsageTaskKind } from "./usageLedger";
+import { EndpointHealth } from "./endpointHealth";
+import {
+  RateLimiter,
+  fingerprintApiKey,
+  type RateLimitScope,
+  type RateLimitWaitReason,
+} from "./rateLimiter";
+import { UsageBudget } from "./usageBudget";
+import {
+  CONTINUATION_PROMPT,
+  createContinuationProgress,
+  getAutoContinueLimit,
+  isTruncatedFinishReason,
+  stitchContinuation,
+} from "./llmContinuation";
+import {
+  estimateTokens,
+  getChunkTokenBudget,
+  mapWithConcurrency,
+  shouldChunkDocument,
+  splitDocumentIntoChunks,
+  type DocumentChunk,
+} from "./longDocument";
 import type { TaskProgressMeta } from "./taskQueue";
 import { ProviderRegistry } from "./llmproviders/ProviderRegistry";
+import { createRecordingProvider } from "./llmproviders/ReplayProvider";
 import "./llmproviders";
 import type { ILlmProvider, PdfFileInfo } from "./llmproviders/ILlmProvider";
 import type { ConnectionTestMode } from "./llmproviders/shared/connectionTest";
@@ -28,6 +61,16 @@ import {
   resolveReasoningEffort,
 } from "./llmproviders/shared/reasoning";
 import { sanitizeLLMOutputText } from "./llmproviders/shared/outputSanitizer";
+import { ContextCacheRegistry } from "./llmproviders/shared/contextCache";
+import {
+  getStreamTruncatedText,
+  mergeUsage,
+  sumUsage,
+} from "./llmproviders/shared/llmutils";
+import {
+  parseStructuredOutput,
+  type StructuredOutputParseResult,
+} from "./llmproviders/shared/structuredOutput";
 import {
   isAbortError,
   normalizeAbortError,
@@ -36,11 +79,17 @@ import {
 import type {
   ConversationMessage,
   LLMAbortSignal,
+  LLMImageInput,
   LLMOptions,
   LLMModelInfo,
   LLMProviderCapabilities,
   LLMReasoningEffortSetting,
   LLMResponse,
+  LLMResponseSchema,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMToolResult,
+  LLMUsage,
   ProgressCb,
 } from "./llmproviders/types";
 
@@ -51,6 +100,7 @@ export type LLMTask =
   | "literature-review"
   | "chat"
   | "image-summary"
+  | "figure-explain"
   | "custom";
 
 export type LLMContentPolicy = "auto" | "text" | "pdf-base64" | "mineru";
@@ -95,10 +145,18 @@ export type LLMPdfFilesContent = {
   maxAttachments?: number;
 };
 
+/** 图片输入（如论文图表），只能发给实现了 generateWithImages 的供应商 */
+export type LLMImagesContent = {
+  kind: "images";
+  images: LLMImageInput[];
+};
+
 type LLMLegacyContent = {
   kind: "legacy";
   content: string;
   isBase64: boolean;
+  /** 清理、截断前的原始文本；端点启用长文档分块时据此分块，缺省时使用 content */
+  rawText?: string;
   policy?: LLMContentPolicy;
 };
 
@@ -108,6 +166,7 @@ export type LLMContentInput =
   | LLMPdfAttachmentContent
   | LLMAnalyzableAttachmentContent
   | LLMPdfFilesContent
+  | LLMImagesContent
   | LLMLegacyContent;
 
 export type LLMGenerationOptions = {
@@ -134,6 +193,8 @@ export type LLMTransportOptions = {
   keyRotation?: boolean;
   abortSignal?: LLMAbortSignal;
   onStatus?: LLMLifecycleCallback;
+  /** 多轮请求共享同一论文上下文时的缓存标识，仅在开启提示词缓存优化时生效 */
+  contextCacheKey?: string;
 };
 
 export type LLMGenerateRequest = {
@@ -142,6 +203,8 @@ export type LLMGenerateRequest = {
   content: LLMContentInput;
   output?: {
     format?: "markdown" | "text" | "json";
+    /** 要求按 JSON Schema 输出，结果经校验后放在 LLMResponse.data */
+    schema?: LLMResponseSchema;
   };
   generation?: LLMGenerationOptions;
   transport?: LLMTransportOptions;
@@ -149,19 +212,44 @@ export type LLMGenerateRequest = {
   onProgress?: ProgressCb;
 };
 
+export type LLMToolEvent =
+  | { type: "call"; call: LLMToolCall }
+  | { type: "result"; call: LLMToolCall; result: LLMToolResult };
+
+/**
+ * 对话中允许模型调用的工具及其执行方式
+ */
+export type LLMChatTools = {
+  definitions: LLMToolDefinition[];
+  /** 执行一次工具调用，返回回传给模型的文本；抛出的错误同样回传给模型 */
+  execute: (call: LLMToolCall) => Promise<string>;
+  onEvent?: (event: LLMToolEvent) => void;
+  /** 最多执行的工具轮次，默认 MAX_TOOL_ROUNDS */
+  maxRounds?: number;
+};
+
 export type LLMChatRequest = {
   content: LLMContentInput;
   conversation: ConversationMessage[];
+  output?: {
+    schema?: LLMResponseSchema;
+  };
+  /** 供应商未实现 chatWithTools 或同时要求结构化输出时忽略，按普通对话处理 */
+  tools?: LLMChatTools;
   generation?: LLMGenerationOptions;
   transport?: LLMTransportOptions;
   metadata?: Record<string, unknown>;
   onProgress?: ProgressCb;
 };
 
+export type LLMStructuredResponse<T> = LLMResponse & { data: T };
+
 type ResolvedSingleContent = {
   mode: "single";
   content: string;
   isBase64: boolean;
+  /** 清理、截断前的原始文本，供长文档分块识别章节标题 */
+  rawText?: string;
   warnings: string[];
 };
 
@@ -171,7 +259,16 @@ type ResolvedMultiFileContent = {
   warnings: string[];
 };
 
-type ResolvedContent = ResolvedSingleContent | ResolvedMultiFileContent;
+type ResolvedImagesContent = {
+  mode: "images";
+  images: LLMImageInput[];
+  warnings: string[];
+};
+
+type ResolvedContent =
+  | ResolvedSingleContent
+  | ResolvedMultiFileContent
+  | ResolvedImagesContent;
 
 type ResolvedProvider = {
   id: string;
@@ -179,6 +276,15 @@ type ResolvedProvider = {
   endpoint?: LLMEndpoint;
 };
 
+/** 长文档分块时 reduce 阶段最多整理的轮数 */
+const MAX_REDUCE_ROUNDS = 3;
+
+/** 结构化输出校验失败后，把错误发回模型修正的最多轮数 */
+const MAX_STRUCTURED_REPAIR_ROUNDS = 2;
+
+/** 一次对话中模型最多连续请求工具的轮数，超过后要求模型直接作答 */
+const MAX_TOOL_ROUNDS = 5;
+
 export class LLMApiCallError extends Error {
   public readonly suppressTaskRetry = true;
   public readonly endpointId: string;
@@ -224,6 +330,28 @@ export class LLMApiExhaustedError extends Error {
   }
 }
 
+/**
+ * 结构化输出在修正轮次后仍不符合 schema
+ *
+ * 修正轮次已经重试过，不再切换端点重发整份文档。
+ */
+export class LLMStructuredOutputError extends Error {
+  public readonly suppressTaskRetry = true;
+  public readonly errors: string[];
+  public readonly rawText: string;
+
+  constructor(errors: string[], rawText: string) {
+    super(
+      getString("llm-error-structured-output-invalid", {
+        args: { errors: errors.slice(0, 5).join("; ") },
+      }),
+    );
+    this.name = "LLMStructuredOutputError";
+    this.errors = errors;
+    this.rawText = rawText;
+  }
+}
+
 export class LLMService {
   static getRequestTimeout(): number {
     const raw = (getPref("requestTimeout") as string) || "300000";
@@ -282,13 +410,17 @@ export class LLMService {
     };
   }
 
-  static getEffectivePdfProcessMode(endpoint?: LLMEndpoint): LLMPdfProcessMode {
+  static getEffectivePdfProcessMode(
+    endpoint?: LLMEndpoint,
+    taskKind?: LLMRoutingTaskKind,
+  ): LLMPdfProcessMode {
     if (endpoint) {
       return LLMEndpointManager.getEffectivePdfProcessMode(endpoint);
     }
 
     try {
-      const activeEndpoint = LLMEndpointManager.prepareRoute().endpoints[0];
+      const activeEndpoint =
+        LLMEndpointManager.prepareRoute(taskKind).endpoints[0];
       return LLMEndpointManager.getEffectivePdfProcessMode(activeEndpoint);
     } catch {
       return LLMEndpointManager.getGlobalPdfProcessMode();
@@ -316,6 +448,9 @@ export class LLMService {
       enablePromptCache:
         (getPref("enablePromptCacheOptimization" as any) as boolean) === true,
     };
+    if (common.enablePromptCache && transport?.contextCacheKey) {
+      common.contextCacheKey = transport.contextCacheKey;
+    }
 
     if (enableTemperature) {
       common.temperature =
@@ -351,6 +486,8 @@ export class LLMService {
       common.apiUrl = endpoint.apiUrl.trim();
       common.apiKey = endpoint.apiKey.trim();
       common.model = endpoint.model.trim();
+      if (endpoint.httpConfig) common.httpProvider = endpoint.httpConfig;
+      if (endpoint.azureConfig) common.azure = endpoint.azureConfig;
     } else if (id.includes("gemini") || id === "google") {
       const keyManagerId = this.mapToKeyManagerId(id);
       common.apiUrl = (
@@ -422,6 +559,7 @@ export class LLMService {
   }
 
   static async generate(request: LLMGenerateRequest): Promise<LLMResponse> {
+    await UsageLedger.load();
     const prompt = request.prompt ?? this.getDefaultPrompt();
     return this.runGenerateWithEndpointRouting(request, prompt);
   }
@@ -431,6 +569,8 @@ export class LLMService {
     request: LLMGenerateRequest,
   ): Promise<LLMResponse> {
     const endpoint = this.getRunnableEndpoint(endpointId);
+    await UsageLedger.load();
+    UsageBudget.filterEndpoints([endpoint]);
     const prompt = request.prompt ?? this.getDefaultPrompt();
     return this.runGenerateWithFixedEndpoint(endpoint, request, prompt);
   }
@@ -439,8 +579,25 @@ export class LLMService {
     return (await this.generate(request)).text;
   }
 
+  /**
+   * 按 request.output.schema 生成结构化结果
+   *
+   * 支持原生结构化输出的供应商直接约束输出格式，其余供应商通过提示词约束，
+   * 两者都会在本地校验并在不合法时让模型修正；最终仍不合法时抛出 LLMStructuredOutputError。
+   */
+  static async generateObject<T>(
+    request: LLMGenerateRequest & { output: { schema: LLMResponseSchema } },
+  ): Promise<LLMStructuredResponse<T>> {
+    return (await this.generate(request)) as LLMStructuredResponse<T>;
+  }
+
   static async chat(request: LLMChatRequest): Promise<LLMResponse> {
-    const route = LLMEndpointManager.prepareRoute();
+    await UsageLedger.load();
+    const route = this.applyBudgetToRoute(
+      LLMEndpointManager.prepareRoute(
+        this.resolveRoutingTaskKind(undefined, request.metadata),
+      ),
+    );
     return this.chatWithEndpointRouting(request, route);
   }
 
@@ -452,10 +609,14 @@ export class LLMService {
    * 本方法在会话开始时按当前路由策略选出端点，并仅推进一次游标；会话内后续轮次
    * 通过 `chatWithEndpoint()` 复用该端点。
    */
-  static acquireChatSessionEndpoint(): LLMEndpoint {
-    const route = LLMEndpointManager.prepareRoute();
+  static acquireChatSessionEndpoint(
+    taskKind?: LLMRoutingTaskKind,
+  ): LLMEndpoint {
+    const route = this.applyBudgetToRoute(
+      LLMEndpointManager.prepareRoute(taskKind),
+    );
     const endpoint = route.endpoints[0];
-    LLMEndpointManager.markEndpointAttempted(endpoint.id);
+    LLMEndpointManager.markEndpointAttempted(endpoint.id, route);
     return endpoint;
   }
 
@@ -464,9 +625,18 @@ export class LLMService {
     request: LLMChatRequest,
   ): Promise<LLMResponse> {
     const endpoint = this.getRunnableEndpoint(endpointId);
+    await UsageLedger.load();
+    UsageBudget.filterEndpoints([endpoint]);
     return this.runChatWithFixedEndpoint(endpoint, request);
   }
 
+  /**
+   * 释放多轮会话结束后不再需要的供应商上下文缓存（如 Gemini cachedContents）
+   */
+  static async releaseContextCache(contextCacheKey: string): Promise<void> {
+    await ContextCacheRegistry.release(contextCacheKey);
+  }
+
   static async chatText(request: LLMChatRequest): Promise<string> {
     return (await this.chat(request)).text;
   }
@@ -573,11 +743,280 @@ export class LLMService {
     return provider;
   }
 
+  /**
+   * 请求对应的路由任务类型：`metadata.taskType` 优先，否则与用量记账一致按 LLMTask 推断
+   */
+  private static resolveRoutingTaskKind(
+    task: LLMTask | undefined,
+    metadata?: Record<string, unknown>,
+  ): LLMRoutingTaskKind | undefined {
+    if (LLMEndpointManager.isRoutingTaskKind(metadata?.taskType)) {
+      return metadata.taskType;
+    }
+    const kind = UsageLedger.resolveTask(task, metadata);
+    return LLMEndpointManager.isRoutingTaskKind(kind) ? kind : undefined;
+  }
+
+  /**
+   * 按供应商调用记录端点成败与耗时
+   *
+   * 套在限流器外层，只记录限流排队与 429 重试之后的最终结果，排队中的 429 不计为故障；
+   * 耗时包含限流等待。内容提取与结构化输出校验不计入，用户取消也不计为端点故障。
+   */
+  private static withHealthTracking(
+    provider: ILlmProvider,
+    endpoint: LLMEndpoint,
+  ): ILlmProvider {
+    const track = async <T>(
+      options: LLMOptions,
+      run: () => Promise<T>,
+    ): Promise<T> => {
+      const startedAt = Date.now();
+      try {
+        const result = await run();
+        EndpointHealth.recordSuccess(endpoint.id, Date.now() - startedAt);
+        return result;
+      } catch (error: unknown) {
+        if (!isAbortError(error, options.abortSignal)) {
+          EndpointHealth.recordFailure(
+            endpoint.id,
+            error,
+            Date.now() - startedAt,
+          );
+        }
+        throw error;
+      }
+    };
+
+    const tracked = Object.create(provider) as ILlmProvider;
+    tracked.generateSummary = (
+      content,
+      isBase64,
+      prompt,
+      options,
+      onProgress,
+    ) =>
+      track(options, () =>
+        provider.generateSummary(
+          content,
+          isBase64,
+          prompt,
+          options,
+          onProgress,
+        ),
+      );
+    tracked.chat = (content, isBase64, conversation, options, onProgress) =>
+      track(options, () =>
+        provider.chat(content, isBase64, conversation, options, onProgress),
+      );
+    if (provider.chatWithTools) {
+      tracked.chatWithTools = (content, isBase64, conversation, options) =>
+        track(options, () =>
+          provider.chatWithTools!(content, isBase64, conversation, options),
+        );
+    }
+    if (provider.generateMultiFileSummary) {
+      tracked.generateMultiFileSummary = (files, prompt, options, onProgress) =>
+        track(options, () =>
+          provider.generateMultiFileSummary!(
+            files,
+            prompt,
+            options,
+            onProgress,
+          ),
+        );
+    }
+    if (provider.generateWithImages) {
+      tracked.generateWithImages = (images, prompt, options, onProgress) =>
+        track(options, () =>
+          provider.generateWithImages!(images, prompt, options, onProgress),
+        );
+    }
+    return tracked;
+  }
+
+  /** 设置了 `llmReplayRecordPath` 时把真实 Provider 的请求与响应录制到夹具文件 */
+  private static withReplayRecording(provider: ILlmProvider): ILlmProvider {
+    const path = String(getPref("llmReplayRecordPath") || "").trim();
+    if (!path || provider.id === "replay") return provider;
+    return createRecordingProvider(provider, path);
+  }
+
+  private static endpointRateLimitScope(endpoint: LLMEndpoint): RateLimitScope {
+    const bucketKeys = [`endpoint:${endpoint.id}`];
+    if (endpoint.apiKey) {
+      bucketKeys.push(
+        `key:${endpoint.providerType}:${fingerprintApiKey(endpoint.apiKey)}`,
+      );
+    }
+    return {
+      bucketKeys,
+      limits: {
+        requestsPerMinute: endpoint.requestsPerMinute,
+        tokensPerMinute: endpoint.tokensPerMinute,
+      },
+    };
+  }
+
+  /**
+   * 为 Provider 的请求方法套上限流：每次真实请求前排队取得额度，429 时在同一端点上等待重试。
+   * token 消耗按输入文本估算并加上最大输出长度；Base64 PDF 与图片不计入。
+   */
+  private static withRateLimit(
+    provider: ILlmProvider,
+    scope: RateLimitScope,
+    transport?: LLMTransportOptions,
+    endpoint?: LLMEndpoint,
+  ): ILlmProvider {
+    const estimate = (options: LLMOptions, ...texts: string[]) =>
+      texts.reduce((sum, text) => sum + estimateTokens(text), 0) +
+      (options.maxTokens || 0);
+    const conversationText = (conversation: ConversationMessage[]) =>
+      conversation.map((message) => message.content).join("\n");
+    const onWait = (waitMs: number, reason: RateLimitWaitReason) => {
+      const seconds = Math.ceil(waitMs / 1000);
+      ztoolkit.log(
+        `[LLMService] Rate limit (${reason}) on ${endpoint?.name || scope.bucketKeys[0]}, waiting ${seconds}s`,
+      );
+      transport?.onStatus?.({
+        stage: "llm-waiting",
+        label: getString("progress-llm-rate-limited"),
+        message: getString("progress-llm-rate-limited"),
+        progress: 45,
+        endpointName: endpoint?.name,
+        model: endpoint?.model,
+        detail:
+          reason === "retryAfter"
+            ? getString("progress-llm-rate-limited-retry-after", {
+                args: { seconds },
+              })
+            : getString("progress-llm-rate-limited-quota", {
+                args: { seconds },
+              }),
+      });
+    };
+    const schedule = <T>(
+      tokens: number,
+      options: LLMOptions,
+      run: () => Promise<T>,
+    ) => RateLimiter.schedule(scope, tokens, options.abortSignal, run, onWait);
+
+    const limited = Object.create(provider) as ILlmProvider;
+    limited.generateSummary = (
+      content,
+      isBase64,
+      prompt,
+      options,
+      onProgress,
+    ) =>
+      schedule(
+        estimate(options, isBase64 ? "" : content, prompt || ""),
+        options,
+        () =>
+          provider.generateSummary(
+            content,
+            isBase64,
+            prompt,
+            options,
+            onProgress,
+          ),
+      );
+    limited.chat = (content, isBase64, conversation, options, onProgress) =>
+      schedule(
+        estimate(
+          options,
+          isBase64 ? "" : content,
+          conversationText(conversation),
+        ),
+        options,
+        () =>
+          provider.chat(content, isBase64, conversation, options, onProgress),
+      );
+    if (provider.chatWithTools) {
+      limited.chatWithTools = (content, isBase64, conversation, options) =>
+        schedule(
+          estimate(
+            options,
+            isBase64 ? "" : content,
+            conversationText(conversation),
+          ),
+          options,
+          () =>
+            provider.chatWithTools!(content, isBase64, conversation, options),
+        );
+    }
+    if (provider.generateMultiFileSummary) {
+      limited.generateMultiFileSummary = (files, prompt, options, onProgress) =>
+        schedule(estimate(options, prompt), options, () =>
+          provider.generateMultiFileSummary!(
+            files,
+            prompt,
+            options,
+            onProgress,
+          ),
+        );
+    }
+    if (provider.generateWithImages) {
+      limited.generateWithImages = (images, prompt, options, onProgress) =>
+        schedule(estimate(options, prompt), options, () =>
+          provider.generateWithImages!(images, prompt, options, onProgress),
+        );
+    }
+    return limited;
+  }
+
+  /** 剔除已超预算的端点；全部超限时抛出 UsageBudgetExceededError。 */
+  private static applyBudgetToRoute(
+    route: ReturnType<typeof LLMEndpointManager.prepareRoute>,
+  ): ReturnType<typeof LLMEndpointManager.prepareRoute> {
+    const endpoints = UsageBudget.filterEndpoints(route.endpoints);
+    return endpoints.length === route.endpoints.length
+      ? route
+      : { ...route, endpoints };
+  }
+
+  /**
+   * 图片输入只发给实现了 generateWithImages 的端点，避免把不支持的端点计入重试与健康统计；
+   * 路由中没有这样的端点时直接报错。
+   */
+  private static filterRouteForContent(
+    route: ReturnType<typeof LLMEndpointManager.prepareRoute>,
+    content: LLMContentInput,
+  ): ReturnType<typeof LLMEndpointManager.prepareRoute> {
+    if (content.kind !== "images") return route;
+    const endpoints = route.endpoints.filter(
+      (endpoint) =>
+        typeof ProviderRegistry.get(endpoint.providerType)
+          ?.generateWithImages === "function",
+    );
+    if (endpoints.length === 0) {
+      throw new Error(
+        getString("llm-error-provider-images-unsupported", {
+          args: {
+            provider: Array.from(
+              new Set(route.endpoints.map((endpoint) => endpoint.providerType)),
+            ).join(", "),
+          },
+        }),
+      );
+    }
+    return endpoints.length === route.endpoints.length
+      ? route
+      : { ...route, endpoints };
+  }
+
   private static async runGenerateWithEndpointRouting(
     request: LLMGenerateRequest,
     prompt: string,
   ): Promise<LLMResponse> {
-    const route = LLMEndpointManager.prepareRoute();
+    const route = this.filterRouteForContent(
+      this.applyBudgetToRoute(
+        LLMEndpointManager.prepareRoute(
+          this.resolveRoutingTaskKind(request.task, request.metadata),
+        ),
+      ),
+      request.content,
+    );
     const useRetry = request.transport?.retry ?? true;
     const maxRetries = useRetry ? route.maxAttempts : 1;
     let lastError: Error | null = null;
@@ -591,13 +1030,14 @@ export class LLMService {
           request,
           prompt,
         );
-        LLMEndpointManager.markEndpointAttempted(endpoint.id);
+        LLMEndpointManager.markEndpointAttempted(endpoint.id, route);
         return response;
       } catch (error: unknown) {
         if (isAbortError(error, request.transport?.abortSignal)) {
           throw normalizeAbortError(error, request.transport?.abortSignal);
         }
-        LLMEndpointManager.markEndpointAttempted(endpoint.id);
+        LLMEndpointManager.markEndpointAttempted(endpoint.id, route);
+        if (error instanceof LLMStructuredOutputError) throw error;
         lastError = error instanceof Error ? error : new Error(String(error));
         ztoolkit.log(
           `[LLMService] API failed via ${endpoint.name} (${attempt + 1}/${maxRetries}): ${lastError.message}`,
@@ -613,7 +1053,15 @@ export class LLMService {
     request: LLMGenerateRequest,
     prompt: string,
   ): Promise<LLMResponse> {
-    const provider = this.getProviderForEndpoint(endpoint);
+    const provider = this.withHealthTracking(
+      this.withRateLimit(
+        this.withReplayRecording(this.getProviderForEndpoint(endpoint)),
+        this.endpointRateLimitScope(endpoint),
+        request.transport,
+        endpoint,
+      ),
+      endpoint,
+    );
     const warnings: string[] = [];
     request.transport?.onStatus?.({
       stage: "llm-preparing",
@@ -643,10 +1091,25 @@ export class LLMService {
         : undefined,
     );
     throwIfAborted(request.transport?.abortSignal);
+    const schema = request.output?.schema;
+    if (schema) {
+      prompt = `${prompt}\n\n${buildStructuredOutputInstruction(schema.schema)}`;
+    }
+    let reportedUsage: LLMUsage | undefined;
+    let finishReason: string | undefined;
     const options = this.buildOptions(
       endpoint,
       request.generation,
       request.transport,
+      {
+        responseSchema: this.resolveNativeResponseSchema(provider, schema),
+        onUsage: (usage) => {
+          reportedUsage = mergeUsage(reportedUsage, usage);
+        },
+        onFinishReason: (reason) => {
+          finishReason = reason;
+        },
+      },
     );
     request.transport?.onStatus?.({
       stage: "llm-uploading",
@@ -691,7 +1154,34 @@ export class LLMService {
       detail: getString("progress-llm-waiting-detail"),
     });
     let text: string;
-    if (resolved.mode === "multi-file") {
+    let continuable: ResolvedSingleContent | undefined;
+    let streamCutError: unknown;
+    let usageInputs = [
+      prompt,
+      resolved.mode === "single" && !resolved.isBase64 ? resolved.content : "",
+    ];
+    if (resolved.mode === "images") {
+      if (typeof provider.generateWithImages !== "function") {
+        throw new Error(
+          getString("llm-error-provider-images-unsupported", {
+            args: { provider: endpoint.providerType },
+          }),
+        );
+      }
+      try {
+        text = await provider.generateWithImages(
+          resolved.images,
+          prompt,
+          options,
+          progressProxy,
+        );
+      } catch (error: unknown) {
+        if (isAbortError(error, options.abortSignal)) {
+          throw normalizeAbortError(error, options.abortSignal);
+        }
+        throw this.toApiCallError(endpoint, error);
+      }
+    } else if (resolved.mode === "multi-file") {
       if (typeof provider.generateMultiFileSummary !== "function") {
         throw new Error(
           getString("llm-error-provider-multi-file-unsupported", {
@@ -712,6 +1202,22 @@ export class LLMService {
         }
         throw this.toApiCallError(endpoint, error);
       }
+    } else if (
+      !resolved.isBase64 &&
+      this.shouldChunkResolvedContent(endpoint, resolved, prompt)
+    ) {
+      const chunked = await this.generateChunkedSummary(
+        endpoint,
+        provider,
+        request,
+        resolved.rawText || resolved.content,
+        prompt,
+        options,
+        progressProxy,
+      );
+      text = chunked.text;
+      usageInputs = chunked.inputs;
+      reportedUsage = chunked.usage;
     } else {
       try {
         text = await provider.generateSummary(
@@ -725,7 +1231,49 @@ export class LLMService {
         if (isAbortError(error, options.abortSignal)) {
           throw normalizeAbortError(error, options.abortSignal);
         }
-        throw this.toApiCallError(endpoint, error);
+        text = schema ? "" : this.takeTruncatedStreamText(error);
+        if (!text) throw this.toApiCallError(endpoint, error);
+        streamCutError = error;
+      }
+      continuable = resolved;
+    }
+    let continuations = 0;
+    if (
+      continuable &&
+      !schema &&
+      (streamCutError || isTruncatedFinishReason(finishReason))
+    ) {
+      const continued = await this.continueTruncatedOutput(
+        provider,
+        continuable,
+        [{ role: "user", content: prompt }],
+        options,
+        text,
+        streamCutError,
+        progressProxy,
+      );
+      if (continued.cutError) {
+        throw this.toApiCallError(endpoint, continued.cutError);
+      }
+      ({ text, finishReason, continuations } = continued);
+      if (continued.usage) {
+        reportedUsage = sumUsage(reportedUsage, continued.usage);
+      }
+    }
+    let data: unknown;
+    if (schema) {
+      const structured = await this.resolveStructuredOutput(
+        endpoint,
+        provider,
+        options,
+        schema,
+        continuable,
+        [{ role: "user", content: prompt }],
+        text,
+      );
+      ({ text, data } = structured);
+      if (structured.usage) {
+        reportedUsage = sumUsage(reportedUsage, structured.usage);
       }
     }
     request.transport?.onStatus?.({
@@ -739,13 +1287,198 @@ export class LLMService {
         args: { count: text.length },
       }),
     });
-    return this.toResponse(
+    const response = this.toResponse(
       text,
       endpoint.providerType,
       endpoint,
       options,
       warnings,
     );
+    response.usage =
+      reportedUsage ?? this.estimateUsage(usageInputs, response.text);
+    if (finishReason) response.finishReason = finishReason;
+    if (continuations > 0) response.continuations = continuations;
+    if (schema) response.data = data;
+    this.recordUsage(
+      endpoint,
+      response,
+      UsageLedger.resolveTask(request.task, request.metadata),
+      this.resolveUsageItemId(request.content, request.metadata),
+    );
+    return response;
+  }
+
+  private static shouldChunkResolvedContent(
+    endpoint: LLMEndpoint,
+    resolved: ResolvedSingleContent,
+    prompt: string,
+  ): boolean {
+    if (
+      LLMEndpointManager.normalizeLongDocumentMode(
+        endpoint.longDocumentMode,
+      ) !== "chunk"
+    ) {
+      return false;
+    }
+    return shouldChunkDocument(
+      resolved.rawText || resolved.content,
+      prompt,
+      endpoint.contextLength,
+    );
+  }
+
+  private static getLongDocumentConcurrency(): number {
+    const value = Math.floor(Number(getPref("longDocumentConcurrency")));
+    return Number.isFinite(value) && value > 0 ? value : 3;
+  }
+
+  /**
+   * 长文档分块总结：各块并行生成分块笔记（map），再用原提示词合并（reduce）
+   *
+   * 合并后的笔记仍超出上下文时再分块整理一轮，最多 MAX_REDUCE_ROUNDS 轮。
+   * 每次调用单独收集用量再累加，options.onUsage 只用于单次请求内的用量事件。
+   */
+  private static async generateChunkedSummary(
+    endpoint: LLMEndpoint,
+    provider: ILlmProvider,
+    request: LLMGenerateRequest,
+    rawText: string,
+    prompt: string,
+    options: LLMOptions,
+    progressProxy?: ProgressCb,
+  ): Promise<{ text: string; inputs: string[]; usage?: LLMUsage }> {
+    const maxTokens = getChunkTokenBudget(endpoint.contextLength);
+    const inputs: string[] = [];
+    let usage: LLMUsage | undefined;
+    let chunks = splitDocumentIntoChunks(rawText, maxTokens);
+    const total = chunks.length;
+    ztoolkit.log(
+      `[LLMService] Long document split into ${total} chunks via ${endpoint.name}`,
+    );
+
+    let mapped = await this.summarizeChunks(
+      endpoint,
+      provider,
+      request,
+      chunks,
+      options,
+      inputs,
+    );
+    if (mapped.usage) usage = sumUsage(usage, mapped.usage);
+    for (
+      let round = 1;
+      round < MAX_REDUCE_ROUNDS &&
+      mapped.notes.length > 1 &&
+      shouldChunkDocument(
+        mapped.notes.join("\n\n"),
+        prompt,
+        endpoint.contextLength,
+      );
+      round++
+    ) {
+      chunks = splitDocumentIntoChunks(mapped.notes.join("\n\n"), maxTokens);
+      mapped = await this.summarizeChunks(
+        endpoint,
+        provider,
+        request,
+        chunks,
+        options,
+        inputs,
+      );
+      if (mapped.usage) usage = sumUsage(usage, mapped.usage);
+    }
+
+    throwIfAborted(request.transport?.abortSignal);
+    const merged = mapped.notes.join("\n\n");
+    const reducePrompt = buildChunkReducePrompt(prompt, total);
+    inputs.push(reducePrompt, merged);
+    let reduceUsage: LLMUsage | undefined;
+    try {
+      const text = await provider.generateSummary(
+        merged,
+        false,
+        reducePrompt,
+        {
+          ...options,
+          onUsage: (reported) => {
+            reduceUsage = mergeUsage(reduceUsage, reported);
+          },
+        },
+        progressProxy,
+      );
+      if (reduceUsage) usage = sumUsage(usage, reduceUsage);
+      return { text, inputs, usage };
+    } catch (error: unknown) {
+      if (isAbortError(error, options.abortSignal)) {
+        throw normalizeAbortError(error, options.abortSignal);
+      }
+      throw this.toApiCallError(endpoint, error);
+    }
+  }
+
+  private static async summarizeChunks(
+    endpoint: LLMEndpoint,
+    provider: ILlmProvider,
+    request: LLMGenerateRequest,
+    chunks: DocumentChunk[],
+    options: LLMOptions,
+    inputs: string[],
+  ): Promise<{ notes: string[]; usage?: LLMUsage }> {
+    let completed = 0;
+    let usage: LLMUsage | undefined;
+    const notes = await mapWithConcurrency(
+      chunks,
+      this.getLongDocumentConcurrency(),
+      async (chunk) => {
+        throwIfAborted(request.transport?.abortSignal);
+        const content = PDFExtractor.cleanText(chunk.text);
+        const mapPrompt = buildChunkMapPrompt(
+          chunk.index + 1,
+          chunks.length,
+          chunk.title,
+        );
+        inputs.push(mapPrompt, content);
+        let note: string;
+        let chunkUsage: LLMUsage | undefined;
+        try {
+          note = await provider.generateSummary(content, false, mapPrompt, {
+            ...options,
+            stream: false,
+            responseSchema: undefined,
+            onUsage: (reported) => {
+              chunkUsage = mergeUsage(chunkUsage, reported);
+            },
+          });
+          if (chunkUsage) usage = sumUsage(usage, chunkUsage);
+        } catch (error: unknown) {
+          if (isAbortError(error, options.abortSignal)) {
+            throw normalizeAbortError(error, options.abortSignal);
+          }
+          throw this.toApiCallError(endpoint, error);
+        }
+        completed++;
+        request.transport?.onStatus?.({
+          stage: "llm-waiting",
+          label: getString("progress-llm-chunk"),
+          message: getString("progress-llm-chunk-message", {
+            args: { done: completed, total: chunks.length },
+          }),
+          progress: 45 + Math.round((completed / chunks.length) * 5),
+          endpointName: endpoint.name,
+          model: options.model || endpoint.model,
+          detail: chunk.title
+            ? getString("progress-llm-chunk-detail", {
+                args: { title: chunk.title },
+              })
+            : undefined,
+        });
+        const heading = chunk.title
+          ? `## ${chunk.index + 1}/${chunks.length} ${chunk.title}`
+          : `## ${chunk.index + 1}/${chunks.length}`;
+        return `${heading}\n\n${sanitizeLLMOutputText(note).trim()}`;
+      },
+    );
+    return { notes, usage };
   }
 
   private static async runGenerateWithFixedEndpoint(
@@ -765,6 +1498,7 @@ export class LLMService {
         if (isAbortError(error, request.transport?.abortSignal)) {
           throw normalizeAbortError(error, request.transport?.abortSignal);
         }
+        if (error instanceof LLMStructuredOutputError) throw error;
         lastError = error instanceof Error ? error : new Error(String(error));
         ztoolkit.log(
           `[LLMService] API failed via ${endpoint.name} (${attempt + 1}/${maxAttempts}): ${lastError.message}`,
@@ -788,13 +1522,14 @@ export class LLMService {
       const endpoint = route.endpoints[attempt % route.endpoints.length];
       try {
         const response = await this.chatOnceWithEndpoint(endpoint, request);
-        LLMEndpointManager.markEndpointAttempted(endpoint.id);
+        LLMEndpointManager.markEndpointAttempted(endpoint.id, route);
         return response;
       } catch (error: unknown) {
         if (isAbortError(error, request.transport?.abortSignal)) {
           throw normalizeAbortError(error, request.transport?.abortSignal);
         }
-        LLMEndpointManager.markEndpointAttempted(endpoint.id);
+        LLMEndpointManager.markEndpointAttempted(endpoint.id, route);
+        if (error instanceof LLMStructuredOutputError) throw error;
         lastError = error instanceof Error ? error : new Error(String(error));
         ztoolkit.log(
           `[LLMService] Chat API failed via ${endpoint.name} (${attempt + 1}/${maxRetries}): ${lastError.message}`,
@@ -809,7 +1544,15 @@ export class LLMService {
     endpoint: LLMEndpoint,
     request: LLMChatRequest,
   ): Promise<LLMResponse> {
-    const provider = this.getProviderForEndpoint(endpoint);
+    const provider = this.withHealthTracking(
+      this.withRateLimit(
+        this.withReplayRecording(this.getProviderForEndpoint(endpoint)),
+        this.endpointRateLimitScope(endpoint),
+        request.transport,
+        endpoint,
+      ),
+      endpoint,
+    );
     const warnings: string[] = [];
     request.transport?.onStatus?.({
       stage: "llm-preparing",
@@ -842,10 +1585,28 @@ export class LLMService {
     if (resolved.mode !== "single") {
       throw new Error(getString("llm-error-chat-multi-file-unsupported"));
     }
+    const schema = request.output?.schema;
+    const conversation = schema
+      ? this.appendToLastUserMessage(
+          request.conversation,
+          buildStructuredOutputInstruction(schema.schema),
+        )
+      : request.conversation;
+    let reportedUsage: LLMUsage | undefined;
+    let finishReason: string | undefined;
     const options = this.buildOptions(
       endpoint,
       request.generation,
       request.transport,
+      {
+        responseSchema: this.resolveNativeResponseSchema(provider, schema),
+        onUsage: (usage) => {
+          reportedUsage = mergeUsage(reportedUsage, usage);
+        },
+        onFinishReason: (reason) => {
+          finishReason = reason;
+        },
+      },
     );
     request.transport?.onStatus?.({
       stage: "llm-uploading",
@@ -889,20 +1650,76 @@ export class LLMService {
       model: options.model || endpoint.model,
       detail: getString("progress-llm-waiting-detail"),
     });
+    const useTools = !!(request.tools && provider.chatWithTools && !schema);
     let text: string;
+    let streamCutError: unknown;
     try {
-      text = await provider.chat(
-        resolved.content,
-        resolved.isBase64,
-        request.conversation,
-        options,
-        progressProxy,
-      );
+      if (useTools) {
+        const loop = await this.runToolLoop(
+          provider,
+          resolved,
+          conversation,
+          options,
+          request.tools!,
+          progressProxy,
+        );
+        text = loop.text;
+        reportedUsage = loop.usage;
+      } else {
+        text = await provider.chat(
+          resolved.content,
+          resolved.isBase64,
+          conversation,
+          options,
+          progressProxy,
+        );
+      }
     } catch (error: unknown) {
       if (isAbortError(error, options.abortSignal)) {
         throw normalizeAbortError(error, options.abortSignal);
       }
-      throw this.toApiCallError(endpoint, error);
+      text = useTools || schema ? "" : this.takeTruncatedStreamText(error);
+      if (!text) throw this.toApiCallError(endpoint, error);
+      streamCutError = error;
+    }
+    let continuations = 0;
+    if (
+      !useTools &&
+      !schema &&
+      (streamCutError || isTruncatedFinishReason(finishReason))
+    ) {
+      const continued = await this.continueTruncatedOutput(
+        provider,
+        resolved,
+        conversation,
+        options,
+        text,
+        streamCutError,
+        progressProxy,
+      );
+      if (continued.cutError) {
+        throw this.toApiCallError(endpoint, continued.cutError);
+      }
+      ({ text, finishReason, continuations } = continued);
+      if (continued.usage) {
+        reportedUsage = sumUsage(reportedUsage, continued.usage);
+      }
+    }
+    let data: unknown;
+    if (schema) {
+      const structured = await this.resolveStructuredOutput(
+        endpoint,
+        provider,
+        options,
+        schema,
+        resolved,
+        conversation,
+        text,
+      );
+      ({ text, data } = structured);
+      if (structured.usage) {
+        reportedUsage = sumUsage(reportedUsage, structured.usage);
+      }
     }
     request.transport?.onStatus?.({
       stage: "llm-streaming",
@@ -915,13 +1732,32 @@ export class LLMService {
         args: { count: text.length },
       }),
     });
-    return this.toResponse(
+    const response = this.toResponse(
       text,
       endpoint.providerType,
       endpoint,
       options,
       warnings,
     );
+    response.usage =
+      reportedUsage ??
+      this.estimateUsage(
+        [
+          resolved.isBase64 ? "" : resolved.content,
+          ...conversation.map((message) => message.content),
+        ],
+        response.text,
+      );
+    if (finishReason) response.finishReason = finishReason;
+    if (continuations > 0) response.continuations = continuations;
+    if (schema) response.data = data;
+    this.recordUsage(
+      endpoint,
+      response,
+      UsageLedger.resolveTask(undefined, request.metadata),
+      this.resolveUsageItemId(request.content, request.metadata),
+    );
+    return response;
   }
 
   private static async runChatWithFixedEndpoint(
@@ -940,6 +1776,7 @@ export class LLMService {
         if (isAbortError(error, request.transport?.abortSignal)) {
           throw normalizeAbortError(error, request.transport?.abortSignal);
         }
+        if (error instanceof LLMStructuredOutputError) throw error;
         lastError = error instanceof Error ? error : new Error(String(error));
         ztoolkit.log(
           `[LLMService] Chat API failed via ${endpoint.name} (${attempt + 1}/${maxAttempts}): ${lastError.message}`,
@@ -950,6 +1787,281 @@ export class LLMService {
     throw new LLMApiExhaustedError(maxAttempts, lastError || undefined);
   }
 
+  /**
+   * 流式输出中途断开时取回已收到的文本；关闭自动续写时按原错误处理
+   */
+  private static takeTruncatedStreamText(error: unknown): string {
+    if (getAutoContinueLimit() === 0) return "";
+    const partial = getStreamTruncatedText(error);
+    if (partial.trim()) {
+      ztoolkit.log(
+        `[LLMService] Stream cut after ${partial.length} chars; continuing`,
+      );
+    }
+    return partial.trim() ? partial : "";
+  }
+
+  /**
+   * 自动续写：把已生成内容作为 assistant 消息回传并要求模型接着写，
+   * 直到不再截断或达到 autoContinueMaxRounds。
+   *
+   * 因长度上限截断的输出在续写请求失败时保留已有内容；流式输出中途断开的
+   * 若续写后仍停在断开处（续写失败或轮数用尽），返回 cutError，由调用方按原错误抛出。
+   * 续写轮的流式分段经去重后转发，与最终拼接的文本一致。
+   */
+  private static async continueTruncatedOutput(
+    provider: ILlmProvider,
+    resolved: ResolvedSingleContent,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+    initialText: string,
+    initialCutError: unknown,
+    onProgress?: ProgressCb,
+  ): Promise<{
+    text: string;
+    finishReason?: string;
+    continuations: number;
+    usage?: LLMUsage;
+    cutError?: unknown;
+  }> {
+    const limit = getAutoContinueLimit();
+    let text = initialText;
+    let finishReason: string | undefined;
+    let continuations = 0;
+    let usage: LLMUsage | undefined;
+    let cutError: unknown = initialCutError;
+    let truncated = true;
+
+    while (truncated && continuations < limit) {
+      throwIfAborted(options.abortSignal);
+      const round: { reason?: string; usage?: LLMUsage } = {};
+      const progress = onProgress
+        ? createContinuationProgress(text, onProgress)
+        : undefined;
+      let piece: string;
+      let cut = false;
+      try {
+        piece = await provider.chat(
+          resolved.content,
+          resolved.isBase64,
+          [
+            ...conversation,
+            { role: "assistant", content: text },
+            { role: "user", content: CONTINUATION_PROMPT },
+          ],
+          {
+            ...options,
+            onUsage: (reported) => {
+              round.usage = mergeUsage(round.usage, reported);
+            },
+            onFinishReason: (reason) => {
+              round.reason = reason;
+            },
+          },
+          progress?.onProgress,
+        );
+      } catch (error: unknown) {
+        if (isAbortError(error, options.abortSignal)) {
+          throw normalizeAbortError(error, options.abortSignal);
+        }
+        piece = getStreamTruncatedText(error);
+        if (!piece.trim()) {
+          ztoolkit.log(
+            cutError
+              ? "[LLMService] Continuation failed; stream output stays incomplete:"
+              : "[LLMService] Continuation failed; keeping truncated output:",
+            error,
+          );
+          break;
+        }
+        cut = true;
+        cutError = cutError || error;
+      }
+      await progress?.flush();
+      continuations++;
+      if (round.usage) usage = sumUsage(usage, round.usage);
+      finishReason = round.reason;
+      text = stitchContinuation(text, piece);
+      if (!cut && piece.trim()) cutError = undefined;
+      truncated =
+        !!piece.trim() && (cut || isTruncatedFinishReason(round.reason));
+    }
+
+    ztoolkit.log(
+      `[LLMService] Output continued ${continuations} time(s), ${text.length} chars`,
+    );
+    return { text, finishReason, continuations, usage, cutError };
+  }
+
+  /**
+   * 工具调用循环：模型请求工具时执行并回传结果，直到模型给出最终回答
+   *
+   * 超过最大轮次后仍保留工具定义（部分供应商要求历史中的调用有对应定义），
+   * 但禁止继续调用。工具请求均为非流式，最终回答一次性回调 onProgress。
+   * 每轮都是一次完整请求，用量逐轮累加后返回。
+   */
+  private static async runToolLoop(
+    provider: ILlmProvider,
+    resolved: ResolvedSingleContent,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+    tools: LLMChatTools,
+    onProgress?: ProgressCb,
+  ): Promise<{ text: string; usage?: LLMUsage }> {
+    const maxRounds = tools.maxRounds ?? MAX_TOOL_ROUNDS;
+    let history = conversation;
+    let usage: LLMUsage | undefined;
+    for (let round = 0; ; round++) {
+      throwIfAborted(options.abortSignal);
+      let roundUsage: LLMUsage | undefined;
+      const turn = await provider.chatWithTools!(
+        resolved.content,
+        resolved.isBase64,
+        history,
+        {
+          ...options,
+          stream: false,
+          tools: tools.definitions,
+          toolChoice: round < maxRounds ? "auto" : "none",
+          onUsage: (reported) => {
+            roundUsage = mergeUsage(roundUsage, reported);
+          },
+        },
+      );
+      if (roundUsage) usage = sumUsage(usage, roundUsage);
+      if (turn.toolCalls.length === 0 || round >= maxRounds) {
+        if (onProgress && turn.text) await onProgress(turn.text);
+        return { text: turn.text, usage };
+      }
+
+      const results: LLMToolResult[] = [];
+      for (const call of turn.toolCalls) {
+        throwIfAborted(options.abortSignal);
+        tools.onEvent?.({ type: "call", call });
+        let result: LLMToolResult;
+        try {
+          result = {
+            callId: call.id,
+            name: call.name,
+            content: await tools.execute(call),
+          };
+        } catch (error: unknown) {
+          if (isAbortError(error, options.abortSignal)) throw error;
+          result = {
+            callId: call.id,
+            name: call.name,
+            content: error instanceof Error ? error.message : String(error),
+            isError: true,
+          };
+        }
+        tools.onEvent?.({ type: "result", call, result });
+        results.push(result);
+      }
+      history = [
+        ...history,
+        { role: "assistant", content: turn.text, toolCalls: turn.toolCalls },
+        { role: "user", content: "", toolResults: results },
+      ];
+    }
+  }
+
+  /** 供应商声明支持 responseFormat 时才下发原生结构化输出参数 */
+  private static resolveNativeResponseSchema(
+    provider: ILlmProvider,
+    schema?: LLMResponseSchema,
+  ): LLMResponseSchema | undefined {
+    if (!schema) return undefined;
+    return this.getProviderCapabilities(provider).supportedParams.includes(
+      "responseFormat",
+    )
+      ? schema
+      : undefined;
+  }
+
+  private static appendToLastUserMessage(
+    conversation: ConversationMessage[],
+    text: string,
+  ): ConversationMessage[] {
+    const index = conversation
+      .map((message) => message.role)
+      .lastIndexOf("user");
+    if (index < 0) return [...conversation, { role: "user", content: text }];
+    return conversation.map((message, i) =>
+      i === index
+        ? { ...message, content: `${message.content}\n\n${text}` }
+        : message,
+    );
+  }
+
+  /**
+   * 校验结构化输出；不合法时把校验错误发回模型修正，最多 MAX_STRUCTURED_REPAIR_ROUNDS 轮
+   *
+   * 修正轮次连同原始文档内容一起发送，模型据此补全缺失字段；
+   * 各轮用量累加后返回，由调用方计入本次请求的用量。
+   */
+  private static async resolveStructuredOutput(
+    endpoint: LLMEndpoint,
+    provider: ILlmProvider,
+    options: LLMOptions,
+    spec: LLMResponseSchema,
+    source: ResolvedSingleContent | undefined,
+    conversation: ConversationMessage[],
+    text: string,
+  ): Promise<{ text: string; data: unknown; usage?: LLMUsage }> {
+    let current = sanitizeLLMOutputText(text);
+    let result: StructuredOutputParseResult = parseStructuredOutput(
+      current,
+      spec.schema,
+    );
+    let history = conversation;
+    let usage: LLMUsage | undefined;
+    for (
+      let round = 0;
+      !result.ok && round < MAX_STRUCTURED_REPAIR_ROUNDS;
+      round++
+    ) {
+      throwIfAborted(options.abortSignal);
+      ztoolkit.log(
+        `[LLMService] Structured output invalid via ${endpoint.name} (${round + 1}/${MAX_STRUCTURED_REPAIR_ROUNDS}): ${result.errors.join("; ")}`,
+      );
+      history = [
+        ...history,
+        { role: "assistant", content: current },
+        {
+          role: "user",
+          content: buildStructuredOutputRepairPrompt(result.errors),
+        },
+      ];
+      let roundUsage: LLMUsage | undefined;
+      try {
+        current = sanitizeLLMOutputText(
+          await provider.chat(
+            source?.content || "",
+            source?.isBase64 || false,
+            history,
+            {
+              ...options,
+              stream: false,
+              onUsage: (reported) => {
+                roundUsage = mergeUsage(roundUsage, reported);
+              },
+              onFinishReason: undefined,
+            },
+          ),
+        );
+      } catch (error: unknown) {
+        if (isAbortError(error, options.abortSignal)) {
+          throw normalizeAbortError(error, options.abortSignal);
+        }
+        throw this.toApiCallError(endpoint, error);
+      }
+      if (roundUsage) usage = sumUsage(usage, roundUsage);
+      result = parseStructuredOutput(current, spec.schema);
+    }
+    if (!result.ok) throw new LLMStructuredOutputError(result.errors, current);
+    return { text: result.json, data: result.value, usage };
+  }
+
   private static toApiCallError(
     endpoint: LLMEndpoint,
     error: unknown,
@@ -960,69 +2072,59 @@ export class LLMService {
     );
   }
 
-  private static async runWithRetry(
-    providerId: string,
-    provider: ILlmProvider,
-    request: LLMGenerateRequest,
-    resolved: ResolvedContent,
-    prompt: string,
-    warnings: string[],
-  ): Promise<LLMResponse> {
-    const keyManagerId = this.mapToKeyManagerId(providerId);
-    const useRetry = request.transport?.retry ?? true;
-    const useKeyRotation = request.transport?.keyRotation ?? true;
-    const maxRetries = useRetry ? ApiKeyManager.getMaxSwitchCount() : 1;
-    let lastError: Error | null = null;
+  private static estimateUsage(inputs: string[], output: string): LLMUsage {
+    const inputTokens = inputs.reduce(
+      (sum, text) => sum + estimateTokens(text),
+      0,
+    );
+    const outputTokens = estimateTokens(output);
+    return {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      estimated: true,
+    };
+  }
 
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      throwIfAborted(request.transport?.abortSignal);
-      try {
-        const options = this.buildOptions(
-          providerId,
-          request.generation,
-          request.transport,
-        );
-        let text: string;
-        if (resolved.mode === "multi-file") {
-          if (typeof provider.generateMultiFileSummary !== "function") {
-            throw new Error(
-              getString("llm-error-multifile-unsupported", {
-                args: { provider: providerId },
-              }),
-            );
-          }
-          text = await provider.generateMultiFileSummary(
-            resolved.files,
-            prompt,
-            options,
-            request.onProgress,
-          );
-        } else {
-          text = await provider.generateSummary(
-            resolved.content,
-            resolved.isBase64,
-            prompt,
-            options,
-            request.onProgress,
-          );
-        }
-        if (useKeyRotation) ApiKeyManager.advanceToNextKey(keyManagerId);
-        return this.toResponse(text, providerId, options, warnings);
-      } catch (error: unknown) {
-        if (isAbortError(error, request.transport?.abortSignal)) {
-          throw normalizeAbortError(error, request.transport?.abortSignal);
-        }
-        lastError = error instanceof Error ? error : new Error(String(error));
-        ztoolkit.log(
-          `[LLMService] API 调用失败 (尝试 ${attempt + 1}/${maxRetries}): ${lastError.message}`,
-        );
-        if (!useKeyRotation) break;
-        const rotated = ApiKeyManager.rotateToNextKey(keyManagerId);
-        if (!rotated) break;
-      }
+  private static resolveUsageItemId(
+    content: LLMContentInput,
+    metadata?: Record<string, unknown>,
+  ): number | undefined {
+    const explicit = metadata?.itemId;
+    if (typeof explicit === "number" && explicit > 0) return explicit;
+    if (content.kind === "zotero-item") return content.item.id;
+    if (
+      content.kind === "pdf-attachment" ||
+      content.kind === "analyzable-attachment"
+    ) {
+      return (
+        content.item?.id ||
+        content.attachment.parentItemID ||
+        content.attachment.id
+      );
     }
+    return undefined;
+  }
 
-    throw lastError || new Error(getString("llm-error-api-keys-exhausted"));
+  /** 记账失败不应影响生成结果，仅记录日志。 */
+  private static recordUsage(
+    endpoint: LLMEndpoint,
+    response: LLMResponse,
+    task: UsageTaskKind,
+    itemId?: number,
+  ): void {
+    if (!response.usage) return;
+    UsageLedger.record({
+      endpointId: endpoint.id,
+      endpointName: endpoint.name,
+      providerType: endpoint.providerType,
+      model: response.model || endpoint.model,
+      task,
+      itemId,
+      usage: response.usage,
+    }).catch((error) => {
+      ztoolkit.log("[LLMService] Failed to record token usage:", error);
+    });
   }
 
   private static toResponse(
@@ -1071,7 +2173,17 @@ export class LLMService {
     ) => void,
   ): Promise<ResolvedContent> {
     if (input.kind === "text") {
-      return { mode: "single", content: input.text, isBase64: false, warnings };
+      return {
+        mode: "single",
+        content: input.text,
+        isBase64: false,
+        rawText: input.text,
+        warnings,
+      };
+    }
+
+    if (input.kind === "images") {
+      return { mode: "images", images: input.images, warnings };
     }
 
     if (input.kind === "legacy") {
@@ -1081,6 +2193,7 @@ export class LLMService {
           ? input.content
           : this.normalizeText(input.content),
         isBase64: input.isBase64,
+        rawText: input.isBase64 ? undefined : input.rawText || input.content,
         warnings,
       };
     }
@@ -1185,6 +2298,7 @@ export class LLMService {
         mode: "single",
         content: this.normalizeText(snapshotContent.content),
         isBase64: false,
+        rawText: snapshotContent.content,
         warnings,
       };
     }
@@ -1235,13 +2349,23 @@ export class LLMService {
           const title =
             String(pdf.getField("title") || "").trim() || "PDF-" + (index + 1);
           const text = await PDFExtractor.extractTextFromAttachment(pdf);
-          return "\n\n=== " + title + " ===\n" + this.normalizeText(text);
+          return { title, text };
         }),
       );
       return {
         mode: "single",
-        content: this.normalizeText(parts.join("\n")),
+        content: this.normalizeText(
+          parts
+            .map(
+              ({ title, text }) =>
+                "\n\n=== " + title + " ===\n" + this.normalizeText(text),
+            )
+            .join("\n"),
+        ),
         isBase64: false,
+        rawText: parts
+          .map(({ title, text }) => "# " + title + "\n" + text)
+          .join("\n\n"),
         warnings,
       };
     }
@@ -1255,6 +2379,7 @@ export class LLMService {
       mode: "single",
       content: this.normalizeText(text),
       isBase64: false,
+      rawText: text,
       warnings,
     };
   }
@@ -1288,6 +2413,7 @@ export class LLMService {
       mode: "single",
       content: this.normalizeText(text),
       isBase64: false,
+      rawText: text,
       warnings,
     };
   }
@@ -1327,6 +2453,7 @@ export class LLMService {
       mode: "single",
       content: this.normalizeText(text),
       isBase64: false,
+      rawText: text,
       warnings,
     };
   }
@@ -1401,6 +2528,7 @@ export class LLMService {
       mode: "single",
       content: this.normalizeText(textParts.join("\n")),
       isBase64: false,
+      rawText: textParts.join("\n"),
       warnings,
     };
   }
@@ -1440,7 +2568,10 @@ export class LLMService {
     return policy === "pdf-base64" ? "pdf-base64" : "text";
   }
 
-  private static getDefaultPrompt(): string {
+  /**
+   * 当前生效的总结提示词：用户自定义为空时使用内置默认值
+   */
+  static getDefaultPrompt(): string {
     const saved = (getPref("summaryPrompt") as string) || "";
     return saved.trim() ? saved : getDefaultSummaryPrompt();
   }
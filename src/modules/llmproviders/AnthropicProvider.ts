@@ -4,10 +4,20 @@ import {
   LLMOptions,
   LLMModelInfo,
   LLMProviderCapabilities,
+  LLMToolTurn,
+  LLMImageInput,
   ProgressCb,
 } from "./types";
-import { SYSTEM_ROLE_PROMPT, buildUserMessage } from "../../utils/prompts";
-import { getRequestTimeoutMs, logPromptCacheUsage } from "./shared/llmutils";
+import {
+  SYSTEM_ROLE_PROMPT,
+  buildPaperFirstUserParts,
+  buildUserMessage,
+} from "../../utils/prompts";
+import {
+  getRequestTimeoutMs,
+  logPromptCacheUsage,
+  reportUsage,
+} from "./shared/llmutils";
 import {
   getConnectionTestInput,
   formatConnectionTestSuccess,
@@ -36,6 +46,13 @@ import {
   providerStreamTruncated,
   providerStreamUnexpectedEnd,
 } from "./shared/localizedErrors";
+import { buildAnthropicToolForcing } from "./shared/structuredOutput";
+import {
+  buildAnthropicToolParams,
+  parseAnthropicToolTurn,
+  toAnthropicToolMessages,
+} from "./shared/toolCalling";
+import { withHttpStatus } from "./shared/httpErrors";
 
 export function shouldOmitAnthropicTemperature(model: string): boolean {
   const normalized = model.trim().toLowerCase();
@@ -71,7 +88,7 @@ export class AnthropicProvider implements ILlmProvider {
     supportsPdfBase64: true,
     maxPdfFiles: 20,
     supportsSystemPrompt: true,
-    supportedParams: ["temperature", "maxTokens", "stream"],
+    supportedParams: ["temperature", "maxTokens", "stream", "responseFormat"],
   };
 
   async generateSummary(
@@ -133,6 +150,7 @@ export class AnthropicProvider implements ILlmProvider {
         stream: true,
       };
     }
+    this.applyToolForcing(payload, options);
 
     const chunks: string[] = [];
     let delivered = 0;
@@ -197,8 +215,11 @@ export class AnthropicProvider implements ILlmProvider {
                   if (!jsonStr) continue;
                   try {
                     const json = JSON.parse(jsonStr);
+                    reportUsage(options, json);
                     if (json.type === "content_block_delta") {
-                      const text = json?.delta?.text;
+                      // 强制工具调用时，结构化结果以 partial_json 返回
+                      const text =
+                        json?.delta?.text ?? json?.delta?.partial_json;
                       if (text) {
                         gotAnyDelta = true;
                         chunks.push(text);
@@ -248,7 +269,7 @@ export class AnthropicProvider implements ILlmProvider {
         /* ignore */
       }
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
@@ -282,7 +303,16 @@ export class AnthropicProvider implements ILlmProvider {
     const messages: any[] = [];
     if (conversation && conversation.length > 0) {
       const firstUserMsg = conversation[0];
-      if (isBase64) {
+      if (options.contextCacheKey) {
+        messages.push({
+          role: "user",
+          content: this.buildContextFirstContent(
+            firstUserMsg.content,
+            pdfContent || "",
+            isBase64,
+          ),
+        });
+      } else if (isBase64) {
         messages.push({
           role: "user",
           content: [
@@ -320,7 +350,8 @@ export class AnthropicProvider implements ILlmProvider {
     }
 
     if (options.enablePromptCache && messages.length > 0) {
-      this.attachCacheBreakpoint(messages[0]);
+      // 带缓存标识时断点已标在论文块上，提示词随轮次变化不再标注
+      if (!options.contextCacheKey) this.attachCacheBreakpoint(messages[0]);
       for (let i = messages.length - 1; i > 0; i--) {
         if (messages[i].role === "assistant") {
           this.attachCacheBreakpoint(messages[i]);
@@ -337,6 +368,7 @@ export class AnthropicProvider implements ILlmProvider {
       messages,
       stream: true,
     };
+    this.applyToolForcing(payload, options);
 
     const chunks: string[] = [];
     let delivered = 0;
@@ -375,7 +407,7 @@ export class AnthropicProvider implements ILlmProvider {
                 const code = err?.type || `HTTP ${status}`;
                 const msg = err?.message || providerRequestFailed("API");
                 const errorMessage = `${code}: ${msg}`;
-                abortError = new Error(errorMessage);
+                abortError = withHttpStatus(new Error(errorMessage), e.target);
                 ztoolkit.log("[AI-Butler] Anthropic HTTP error:", {
                   status,
                   code,
@@ -414,6 +446,7 @@ export class AnthropicProvider implements ILlmProvider {
 
                   try {
                     const json = JSON.parse(jsonStr);
+                    reportUsage(options, json);
                     if (
                       options.enablePromptCache &&
                       json.type === "message_start" &&
@@ -422,7 +455,9 @@ export class AnthropicProvider implements ILlmProvider {
                       lastUsage = json.message.usage;
                     }
                     if (json.type === "content_block_delta") {
-                      const text = json?.delta?.text;
+                      // 强制工具调用时，结构化结果以 partial_json 返回
+                      const text =
+                        json?.delta?.text ?? json?.delta?.partial_json;
                       if (text) {
                         chunks.push(text);
                         const current = chunks.join("");
@@ -472,7 +507,7 @@ export class AnthropicProvider implements ILlmProvider {
         statusText: error?.xmlhttp?.statusText,
         message: errorMessage,
       });
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
@@ -483,6 +518,247 @@ export class AnthropicProvider implements ILlmProvider {
     return chunks.join("");
   }
 
+  async chatWithTools(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+  ): Promise<LLMToolTurn> {
+    const baseUrl = (options.apiUrl || "https://api.anthropic.com").replace(
+      /\/$/,
+      "",
+    );
+    const apiKey = (options.apiKey || "").trim();
+    const model = (options.model || "claude-3-5-sonnet-20241022").trim();
+
+    if (!baseUrl) throw new Error(providerMissingApiUrl("Anthropic"));
+    if (!apiKey) throw new Error(providerMissingApiKey("Anthropic"));
+    throwIfAborted(options.abortSignal);
+
+    const messages = toAnthropicToolMessages(conversation, (text) =>
+      isBase64
+        ? [
+            { type: "text", text },
+            {
+              type: "document",
+              source: {
+                type: "base64",
+                media_type: "application/pdf",
+                data: pdfContent,
+              },
+            },
+          ]
+        : [{ type: "text", text: buildUserMessage(text, pdfContent || "") }],
+    );
+    if (options.enablePromptCache && messages.length > 0) {
+      this.attachCacheBreakpoint(messages[0]);
+    }
+    const payload = {
+      model,
+      max_tokens: resolveAnthropicMaxTokens(options),
+      ...buildAnthropicTemperatureParam(model, options),
+      system: SYSTEM_ROLE_PROMPT,
+      messages,
+      ...buildAnthropicToolParams(options),
+    };
+
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+    try {
+      const res = await Zotero.HTTP.request("POST", `${baseUrl}/v1/messages`, {
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify(payload),
+        responseType: "json",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+        },
+      });
+      throwIfAborted(options.abortSignal);
+      const data = res.response || res;
+      reportUsage(options, data);
+      if (options.enablePromptCache) {
+        logPromptCacheUsage("Anthropic chatWithTools", data?.usage);
+      }
+      return parseAnthropicToolTurn(data);
+    } catch (error: any) {
+      if (abortError || isAbortError(error, options.abortSignal)) {
+        throw normalizeAbortError(abortError || error, options.abortSignal);
+      }
+      let errorMessage = error?.message || providerRequestFailed("Anthropic");
+      try {
+        const responseText =
+          error?.xmlhttp?.response || error?.xmlhttp?.responseText;
+        if (responseText) {
+          const parsed =
+            typeof responseText === "string"
+              ? JSON.parse(responseText)
+              : responseText;
+          const err = parsed?.error || parsed;
+          const code = err?.type || err?.code || "Error";
+          const msg = err?.message || error?.message || String(error);
+          errorMessage = `${code}: ${msg}`;
+        }
+      } catch {
+        /* ignore */
+      }
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
+    } finally {
+      cleanupAbortSignal?.();
+    }
+  }
+
+  /**
+   * 图片以 base64 image 内容块随提示词一起发送
+   */
+  async generateWithImages(
+    images: LLMImageInput[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const baseUrl = (options.apiUrl || "https://api.anthropic.com").replace(
+      /\/$/,
+      "",
+    );
+    const apiKey = (options.apiKey || "").trim();
+    const model = (options.model || "claude-3-5-sonnet-20241022").trim();
+
+    if (!baseUrl) throw new Error(providerMissingApiUrl("Anthropic"));
+    if (!apiKey) throw new Error(providerMissingApiKey("Anthropic"));
+    throwIfAborted(options.abortSignal);
+
+    const payload = {
+      model,
+      max_tokens: resolveAnthropicMaxTokens(options),
+      ...buildAnthropicTemperatureParam(model, options),
+      system: SYSTEM_ROLE_PROMPT,
+      messages: [
+        {
+          role: "user",
+          content: [
+            ...images.map((image) => ({
+              type: "image",
+              source: {
+                type: "base64",
+                media_type: image.mimeType,
+                data: image.base64,
+              },
+            })),
+            { type: "text", text: prompt },
+          ],
+        },
+      ],
+    };
+
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+    try {
+      const res = await Zotero.HTTP.request("POST", `${baseUrl}/v1/messages`, {
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify(payload),
+        responseType: "json",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+        },
+      });
+      throwIfAborted(options.abortSignal);
+      const data = res.response || res;
+      reportUsage(options, data);
+      const text = ((data?.content || []) as any[])
+        .filter((block) => block?.type === "text")
+        .map((block) => String(block.text || ""))
+        .join("");
+      if (onProgress && text) await onProgress(text);
+      return text;
+    } catch (error: any) {
+      if (abortError || isAbortError(error, options.abortSignal)) {
+        throw normalizeAbortError(abortError || error, options.abortSignal);
+      }
+      let errorMessage = error?.message || providerRequestFailed("Anthropic");
+      try {
+        const responseText =
+          error?.xmlhttp?.response || error?.xmlhttp?.responseText;
+        if (responseText) {
+          const parsed =
+            typeof responseText === "string"
+              ? JSON.parse(responseText)
+              : responseText;
+          const err = parsed?.error || parsed;
+          const code = err?.type || err?.code || "Error";
+          const msg = err?.message || error?.message || String(error);
+          errorMessage = `${code}: ${msg}`;
+        }
+      } catch {
+        /* ignore */
+      }
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
+    } finally {
+      cleanupAbortSignal?.();
+    }
+  }
+
+  private applyToolForcing(
+    payload: Record<string, unknown>,
+    options: LLMOptions,
+  ): void {
+    if (options.responseSchema) {
+      Object.assign(payload, buildAnthropicToolForcing(options.responseSchema));
+    }
+  }
+
+  /**
+   * 论文在前的首条用户消息：论文块单独标注缓存断点，多轮请求共享该前缀
+   */
+  private buildContextFirstContent(
+    prompt: string,
+    pdfContent: string,
+    isBase64: boolean,
+  ): any[] {
+    if (isBase64) {
+      return [
+        {
+          type: "document",
+          source: {
+            type: "base64",
+            media_type: "application/pdf",
+            data: pdfContent,
+          },
+          cache_control: { type: "ephemeral" },
+        },
+        { type: "text", text: prompt },
+      ];
+    }
+    const parts = buildPaperFirstUserParts(prompt, pdfContent);
+    return [
+      { type: "text", text: parts.paper, cache_control: { type: "ephemeral" } },
+      { type: "text", text: parts.instruction },
+    ];
+  }
+
   /**
    * 在消息最后一个内容块标注 Anthropic prompt caching 断点。
    * 字符串 content 仅在开关开启时规范化为内容块数组，关闭路径保持原请求体不变。
@@ -722,7 +998,7 @@ export class AnthropicProvider implements ILlmProvider {
 
     const endpoint = `${baseUrl}/v1/messages`;
 
-    const payload = {
+    const payload: any = {
       model,
       max_tokens: maxTokens,
       ...buildAnthropicTemperatureParam(model, options),
@@ -735,6 +1011,7 @@ export class AnthropicProvider implements ILlmProvider {
       ],
       stream: true,
     };
+    this.applyToolForcing(payload, options);
 
     const chunks: string[] = [];
     let delivered = 0;
@@ -772,10 +1049,16 @@ export class AnthropicProvider implements ILlmProvider {
                 const err = parsed?.error || parsed || {};
                 const code = err?.type || `HTTP ${status}`;
                 const msg = err?.message || providerRequestFailed("API");
-                abortError = new Error(`${code}: ${msg}`);
+                abortError = withHttpStatus(
+                  new Error(`${code}: ${msg}`),
+                  e.target,
+                );
                 xmlhttp.abort();
               } catch {
-                abortError = new Error(providerHttpRequestFailed(status));
+                abortError = withHttpStatus(
+                  new Error(providerHttpRequestFailed(status)),
+                  e.target,
+                );
                 xmlhttp.abort();
               }
               return;
@@ -799,8 +1082,11 @@ export class AnthropicProvider implements ILlmProvider {
                   if (!jsonStr) continue;
                   try {
                     const json = JSON.parse(jsonStr);
+                    reportUsage(options, json);
                     if (json.type === "content_block_delta") {
-                      const text = json?.delta?.text;
+                      // 强制工具调用时，结构化结果以 partial_json 返回
+                      const text =
+                        json?.delta?.text ?? json?.delta?.partial_json;
                       if (text) {
                         gotAnyDelta = true;
                         chunks.push(text);
@@ -872,7 +1158,7 @@ export class AnthropicProvider implements ILlmProvider {
         /* ignore */
       }
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
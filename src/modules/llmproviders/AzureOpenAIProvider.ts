@@ -0,0 +1,228 @@
+import { ILlmProvider, PdfFileInfo } from "./ILlmProvider";
+import {
+  ConversationMessage,
+  LLMModelInfo,
+  LLMOptions,
+  LLMProviderCapabilities,
+  LLMToolTurn,
+  LLMImageInput,
+  ProgressCb,
+} from "./types";
+import { OpenAICompatProvider } from "./OpenAICompatProvider";
+import { OpenAIProvider } from "./OpenAIProvider";
+import {
+  parseModelListResponse,
+  requestModelListJson,
+} from "./shared/modelList";
+import {
+  providerMissingApiKey,
+  providerMissingApiUrl,
+} from "./shared/localizedErrors";
+import {
+  buildAzureDeploymentsUrl,
+  buildAzureOpenAIUrl,
+  parseAzureApiUrl,
+  resolveAzureOpenAITarget,
+} from "./shared/azureOpenAI";
+
+function azureHeaders(apiKey: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "api-key": apiKey,
+  };
+}
+
+/** Chat Completions：地址已由 AzureOpenAIProvider 拼好，不再补全路径 */
+class AzureChatCompletionsProvider extends OpenAICompatProvider {
+  protected normalizeChatCompletionsUrl(apiUrl: string): string {
+    return apiUrl.trim();
+  }
+
+  protected buildHeaders(apiKey: string): Record<string, string> {
+    return azureHeaders(apiKey);
+  }
+}
+
+/** Responses API：纯文本请求同样走 Responses，地址已含 api-version */
+class AzureResponsesProvider extends OpenAIProvider {
+  protected buildHeaders(apiKey: string): Record<string, string> {
+    return azureHeaders(apiKey);
+  }
+
+  protected resolveResponsesUrl(apiUrl: string): string {
+    return apiUrl;
+  }
+
+  protected usesResponsesApi(): boolean {
+    return true;
+  }
+
+  /** Azure 部署按前缀自动缓存，不发送 prompt_cache_key */
+  protected applyPromptCacheKey(): void {}
+}
+
+/**
+ * Azure OpenAI Provider
+ *
+ * 使用 api-key 请求头鉴权，模型名称填写部署名。按端点设置选择 Chat Completions 或
+ * Responses API，请求体与流式解析复用 OpenAI 兼容与 OpenAI 两个 Provider 的实现。
+ */
+export class AzureOpenAIProvider implements ILlmProvider {
+  readonly id = "azure-openai";
+  readonly capabilities: LLMProviderCapabilities = {
+    supportsText: true,
+    supportsStreaming: true,
+    supportsPdfBase64: true,
+    maxPdfFiles: 20,
+    supportsSystemPrompt: true,
+    supportedParams: [
+      "temperature",
+      "topP",
+      "maxTokens",
+      "stream",
+      "reasoningEffort",
+      "responseFormat",
+    ],
+  };
+
+  private readonly chatProvider = new AzureChatCompletionsProvider();
+  private readonly responsesProvider = new AzureResponsesProvider();
+
+  /**
+   * 把端点配置换算为实际请求地址，并选出对应接口的实现
+   */
+  private route(options: LLMOptions): {
+    provider: ILlmProvider;
+    options: LLMOptions;
+  } {
+    const target = resolveAzureOpenAITarget(options);
+    if (!target.baseUrl) throw new Error(providerMissingApiUrl("Azure OpenAI"));
+    return {
+      provider:
+        target.apiMode === "responses"
+          ? this.responsesProvider
+          : this.chatProvider,
+      options: {
+        ...options,
+        apiUrl: buildAzureOpenAIUrl(target),
+        model: target.deployment,
+      },
+    };
+  }
+
+  generateSummary(
+    content: string,
+    isBase64: boolean,
+    prompt: string | undefined,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const routed = this.route(options);
+    return routed.provider.generateSummary(
+      content,
+      isBase64,
+      prompt,
+      routed.options,
+      onProgress,
+    );
+  }
+
+  chat(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const routed = this.route(options);
+    return routed.provider.chat(
+      pdfContent,
+      isBase64,
+      conversation,
+      routed.options,
+      onProgress,
+    );
+  }
+
+  chatWithTools(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+  ): Promise<LLMToolTurn> {
+    const routed = this.route(options);
+    return routed.provider.chatWithTools!(
+      pdfContent,
+      isBase64,
+      conversation,
+      routed.options,
+    );
+  }
+
+  generateMultiFileSummary(
+    pdfFiles: PdfFileInfo[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const routed = this.route(options);
+    return routed.provider.generateMultiFileSummary!(
+      pdfFiles,
+      prompt,
+      routed.options,
+      onProgress,
+    );
+  }
+
+  generateWithImages(
+    images: LLMImageInput[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const routed = this.route(options);
+    return routed.provider.generateWithImages!(
+      images,
+      prompt,
+      routed.options,
+      onProgress,
+    );
+  }
+
+  testConnection(options: LLMOptions): Promise<string> {
+    const routed = this.route(options);
+    return routed.provider.testConnection(routed.options);
+  }
+
+  /**
+   * 列出资源下的部署：模型 ID 为部署名，名称显示部署对应的基础模型
+   */
+  async listModels(options: LLMOptions): Promise<LLMModelInfo[]> {
+    const { baseUrl } = parseAzureApiUrl(options.apiUrl || "");
+    const apiKey = (options.apiKey || "").trim();
+    if (!baseUrl) throw new Error(providerMissingApiUrl("Azure OpenAI"));
+    if (!apiKey) throw new Error(providerMissingApiKey("Azure OpenAI"));
+
+    const data = await requestModelListJson(
+      buildAzureDeploymentsUrl(baseUrl),
+      { "api-key": apiKey },
+      options.requestTimeoutMs ?? 30000,
+    );
+    const baseModels = new Map<string, string>();
+    for (const item of ((data as any)?.data || []) as any[]) {
+      if (typeof item?.id === "string" && typeof item?.model === "string") {
+        baseModels.set(item.id, item.model);
+      }
+    }
+    return parseModelListResponse(data).map((model) => ({
+      ...model,
+      name: model.name || baseModels.get(model.id),
+      ownedBy: model.ownedBy || "azure",
+    }));
+  }
+}
+
+import { ProviderRegistry } from "./ProviderRegistry";
+ProviderRegistry.register(new AzureOpenAIProvider());
+
+export default AzureOpenAIProvider;
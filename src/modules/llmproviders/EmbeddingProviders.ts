@@ -0,0 +1,168 @@
+import type {
+  EmbeddingOptions,
+  IEmbeddingProvider,
+} from "./IEmbeddingProvider";
+import { getRequestTimeoutMs } from "./shared/llmutils";
+import {
+  providerHttpRequestFailed,
+  providerMissingApiKey,
+  providerMissingApiUrl,
+  providerRequestFailed,
+} from "./shared/localizedErrors";
+
+/**
+ * 由用户填写的地址推导 OpenAI 兼容的 /embeddings 地址
+ *
+ * 支持直接填写完整地址、基础地址（如 https://api.openai.com/v1）
+ * 或对话地址（.../chat/completions）。
+ */
+export function deriveEmbeddingsUrl(apiUrl: string): string {
+  const raw = apiUrl.trim().replace(/\/+$/, "");
+  if (!raw) return raw;
+  if (/\/embeddings$/i.test(raw)) return raw;
+  const base = raw.replace(/\/(chat\/completions|responses|completions)$/i, "");
+  if (/\/v\d+(beta)?$/i.test(base)) return `${base}/embeddings`;
+  return `${base}/v1/embeddings`;
+}
+
+export function deriveOllamaEmbedUrl(apiUrl: string): string {
+  const raw = (apiUrl || "http://localhost:11434").trim().replace(/\/+$/, "");
+  const base = raw
+    .replace(/\/v1(?:\/embeddings)?$/i, "")
+    .replace(/\/api(?:\/embed|\/embeddings)?$/i, "");
+  return `${base}/api/embed`;
+}
+
+function buildHeaders(apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  return headers;
+}
+
+async function postJson(
+  url: string,
+  apiKey: string,
+  body: unknown,
+  timeout: number,
+  providerName: string,
+): Promise<any> {
+  try {
+    const response = await Zotero.HTTP.request("POST", url, {
+      headers: buildHeaders(apiKey),
+      body: JSON.stringify(body),
+      responseType: "text",
+      timeout,
+      errorDelayMax: 0,
+    });
+    const status = response.status ?? 200;
+    const raw = response.response || "";
+    if (status < 200 || status >= 300) {
+      throw new Error(
+        raw ? `HTTP ${status}: ${raw}` : providerHttpRequestFailed(status),
+      );
+    }
+    return raw ? JSON.parse(raw) : {};
+  } catch (error: any) {
+    const responseBody =
+      error?.xmlhttp?.response || error?.xmlhttp?.responseText || "";
+    let message = error?.message || providerRequestFailed(providerName);
+    try {
+      if (responseBody) {
+        const parsed =
+          typeof responseBody === "string"
+            ? JSON.parse(responseBody)
+            : responseBody;
+        const err = parsed?.error || parsed;
+        message = (typeof err === "string" ? err : err?.message) || message;
+      }
+    } catch {
+      // 保留原始错误信息
+    }
+    throw new Error(message);
+  }
+}
+
+/**
+ * OpenAI 兼容的 /v1/embeddings 接口（OpenAI、SiliconFlow、各类网关等）
+ */
+export class OpenAICompatEmbeddingProvider implements IEmbeddingProvider {
+  readonly id = "openai-compat";
+
+  async embed(texts: string[], options: EmbeddingOptions): Promise<number[][]> {
+    const url = deriveEmbeddingsUrl(options.apiUrl);
+    if (!url) throw new Error(providerMissingApiUrl("Embedding"));
+    if (!options.apiKey.trim()) {
+      throw new Error(providerMissingApiKey("Embedding"));
+    }
+    if (texts.length === 0) return [];
+
+    const data = await postJson(
+      url,
+      options.apiKey.trim(),
+      { model: options.model, input: texts },
+      options.requestTimeoutMs ?? getRequestTimeoutMs(),
+      "Embedding",
+    );
+    const rows: Array<{ index?: number; embedding?: number[] }> = Array.isArray(
+      data?.data,
+    )
+      ? data.data
+      : [];
+    const vectors = new Array<number[]>(texts.length);
+    rows.forEach((row, position) => {
+      const index = typeof row.index === "number" ? row.index : position;
+      if (Array.isArray(row.embedding)) vectors[index] = row.embedding;
+    });
+    if (vectors.filter(Boolean).length !== texts.length) {
+      throw new Error(providerRequestFailed("Embedding"));
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Ollama 原生 /api/embed 接口
+ */
+export class OllamaEmbeddingProvider implements IEmbeddingProvider {
+  readonly id = "ollama";
+
+  async embed(texts: string[], options: EmbeddingOptions): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const data = await postJson(
+      deriveOllamaEmbedUrl(options.apiUrl),
+      options.apiKey.trim(),
+      { model: options.model, input: texts },
+      options.requestTimeoutMs ?? getRequestTimeoutMs(),
+      "Ollama",
+    );
+    const vectors: number[][] = Array.isArray(data?.embeddings)
+      ? data.embeddings
+      : [];
+    if (vectors.length !== texts.length) {
+      throw new Error(providerRequestFailed("Ollama"));
+    }
+    return vectors;
+  }
+}
+
+export class EmbeddingProviderRegistry {
+  private static providers = new Map<string, IEmbeddingProvider>([
+    ["openai-compat", new OpenAICompatEmbeddingProvider()],
+    ["ollama", new OllamaEmbeddingProvider()],
+  ]);
+
+  static register(provider: IEmbeddingProvider) {
+    this.providers.set(provider.id.toLowerCase(), provider);
+  }
+
+  static get(id: string): IEmbeddingProvider | undefined {
+    return this.providers.get(id.toLowerCase());
+  }
+
+  static list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
@@ -4,10 +4,25 @@ import {
   LLMOptions,
   LLMModelInfo,
   LLMProviderCapabilities,
+  LLMToolTurn,
+  LLMImageInput,
   ProgressCb,
 } from "./types";
-import { SYSTEM_ROLE_PROMPT, buildUserMessage } from "../../utils/prompts";
-import { getRequestTimeoutMs } from "./shared/llmutils";
+import {
+  SYSTEM_ROLE_PROMPT,
+  buildPaperBlock,
+  buildPaperFirstUserParts,
+  buildUserMessage,
+} from "../../utils/prompts";
+import {
+  getRequestTimeoutMs,
+  logPromptCacheUsage,
+  reportUsage,
+} from "./shared/llmutils";
+import {
+  ContextCacheRegistry,
+  buildContextUserMessage,
+} from "./shared/contextCache";
 import {
   getConnectionTestInput,
   formatConnectionTestSuccess,
@@ -36,6 +51,19 @@ import {
   providerStreamTruncated,
   providerStreamUnexpectedEnd,
 } from "./shared/localizedErrors";
+import { toGeminiResponseSchema } from "./shared/structuredOutput";
+import {
+  buildGeminiToolParams,
+  parseGeminiToolTurn,
+  toGeminiToolContents,
+} from "./shared/toolCalling";
+import {
+  type ProviderHttpErrorInfo,
+  withHttpStatus,
+} from "./shared/httpErrors";
+
+/** 多轮精读上下文缓存的有效期；每轮请求前检查，临近过期时重新创建 */
+const GEMINI_CONTEXT_CACHE_TTL_SECONDS = 1800;
 
 export class GeminiProvider implements ILlmProvider {
   readonly id = "google"; // 同步现有 provider 识别：google/gemini
@@ -45,7 +73,13 @@ export class GeminiProvider implements ILlmProvider {
     supportsPdfBase64: true,
     maxPdfFiles: 20,
     supportsSystemPrompt: true,
-    supportedParams: ["temperature", "topP", "maxTokens", "stream"],
+    supportedParams: [
+      "temperature",
+      "topP",
+      "maxTokens",
+      "stream",
+      "responseFormat",
+    ],
   };
 
   async generateSummary(
@@ -105,6 +139,7 @@ export class GeminiProvider implements ILlmProvider {
         systemInstruction: { parts: [{ text: SYSTEM_ROLE_PROMPT }] },
       };
     }
+    this.applyResponseSchema(payload.generationConfig, options);
 
     const chunks: string[] = [];
     let delivered = 0;
@@ -168,6 +203,7 @@ export class GeminiProvider implements ILlmProvider {
                   if (!jsonStr) continue;
                   try {
                     const json = JSON.parse(jsonStr);
+                    reportUsage(options, json);
                     const text = this.extractGeminiText(json);
                     if (text) {
                       gotAnyDelta = true;
@@ -217,7 +253,7 @@ export class GeminiProvider implements ILlmProvider {
         /* ignore */
       }
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
@@ -246,23 +282,59 @@ export class GeminiProvider implements ILlmProvider {
     throwIfAborted(options.abortSignal);
 
     const endpoint = `${baseUrl}/v1beta/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`;
+    const cacheKey = options.contextCacheKey
+      ? ContextCacheRegistry.entryKey(
+          options.contextCacheKey,
+          this.id,
+          baseUrl,
+          model,
+        )
+      : undefined;
+    const cachedContent = cacheKey
+      ? await this.acquireContextCache(cacheKey, baseUrl, apiKey, model, {
+          pdfContent: pdfContent || "",
+          isBase64,
+          options,
+        })
+      : undefined;
 
     const contents: any[] = [];
     if (conversation && conversation.length > 0) {
       const firstUserMsg = conversation[0];
-      if (isBase64) {
+      if (cachedContent) {
+        // 论文已在 cachedContents 中，本轮只发送提示词
         contents.push({
           role: "user",
           parts: [
-            { text: firstUserMsg.content },
-            { inlineData: { mimeType: "application/pdf", data: pdfContent } },
+            {
+              text: isBase64
+                ? firstUserMsg.content
+                : buildPaperFirstUserParts(
+                    firstUserMsg.content,
+                    pdfContent || "",
+                  ).instruction,
+            },
           ],
         });
+      } else if (isBase64) {
+        const parts: any[] = [
+          { text: firstUserMsg.content },
+          { inlineData: { mimeType: "application/pdf", data: pdfContent } },
+        ];
+        // 带缓存标识时论文在前，使多轮请求共享相同前缀
+        if (options.contextCacheKey) parts.reverse();
+        contents.push({ role: "user", parts });
       } else {
         contents.push({
           role: "user",
           parts: [
-            { text: buildUserMessage(firstUserMsg.content, pdfContent || "") },
+            {
+              text: buildContextUserMessage(
+                firstUserMsg.content,
+                pdfContent || "",
+                options,
+              ),
+            },
           ],
         });
       }
@@ -283,11 +355,11 @@ export class GeminiProvider implements ILlmProvider {
 
     const genCfg: any = {};
     if (options.temperature !== undefined) genCfg.temperature = temperature;
-    const payload: any = {
-      generationConfig: genCfg,
-      contents,
-      systemInstruction: { parts: [{ text: SYSTEM_ROLE_PROMPT }] },
-    };
+    const payload: any = { generationConfig: genCfg, contents };
+    // 系统提示已写入缓存，使用 cachedContent 时不能再单独发送
+    if (cachedContent) payload.cachedContent = cachedContent;
+    else payload.systemInstruction = { parts: [{ text: SYSTEM_ROLE_PROMPT }] };
+    this.applyResponseSchema(genCfg, options);
 
     const chunks: string[] = [];
     let delivered = 0;
@@ -295,6 +367,7 @@ export class GeminiProvider implements ILlmProvider {
     let partialLine = "";
     let abortError: Error | null = null;
     let gotAnyDelta = false;
+    let lastUsage: any;
     let cleanupAbortSignal: (() => void) | undefined;
 
     try {
@@ -325,7 +398,7 @@ export class GeminiProvider implements ILlmProvider {
                 const code = err?.code || `HTTP ${status}`;
                 const msg = err?.message || providerRequestFailed("API");
                 const errorMessage = `${code}: ${msg}`;
-                abortError = new Error(errorMessage);
+                abortError = withHttpStatus(new Error(errorMessage), e.target);
                 ztoolkit.log("[AI-Butler] Gemini HTTP error:", {
                   status,
                   code,
@@ -364,6 +437,10 @@ export class GeminiProvider implements ILlmProvider {
 
                   try {
                     const json = JSON.parse(jsonStr);
+                    reportUsage(options, json);
+                    if (options.enablePromptCache && json?.usageMetadata) {
+                      lastUsage = json.usageMetadata;
+                    }
                     const text = this.extractGeminiText(json);
                     if (text) {
                       gotAnyDelta = true;
@@ -401,6 +478,7 @@ export class GeminiProvider implements ILlmProvider {
         },
       });
     } catch (error: any) {
+      if (cacheKey) this.dropContextCacheOnError(cacheKey, abortError || error);
       if (abortError) {
         if (isAbortError(abortError, options.abortSignal)) {
           throw normalizeAbortError(abortError, options.abortSignal);
@@ -436,14 +514,274 @@ export class GeminiProvider implements ILlmProvider {
         message: errorMessage,
       });
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
 
+    if (options.enablePromptCache) {
+      logPromptCacheUsage("Gemini chat", lastUsage);
+    }
     return chunks.join("");
   }
 
+  /**
+   * 把论文上传为 cachedContents，同一缓存标识内复用；运行结束后由 LLMService 释放。
+   * 创建失败（如内容低于模型的最小缓存 token 数）时返回 undefined，按普通请求发送
+   */
+  private async acquireContextCache(
+    cacheKey: string,
+    baseUrl: string,
+    apiKey: string,
+    model: string,
+    context: { pdfContent: string; isBase64: boolean; options: LLMOptions },
+  ): Promise<string | undefined> {
+    if (!context.pdfContent) return undefined;
+    const entry = await ContextCacheRegistry.acquire(cacheKey, async () => {
+      const paperPart = context.isBase64
+        ? {
+            inlineData: {
+              mimeType: "application/pdf",
+              data: context.pdfContent,
+            },
+          }
+        : {
+            text: buildPaperBlock(context.pdfContent),
+          };
+      const res = await Zotero.HTTP.request(
+        "POST",
+        `${baseUrl}/v1beta/cachedContents`,
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "x-goog-api-key": apiKey,
+          },
+          body: JSON.stringify({
+            model: `models/${model}`,
+            contents: [{ role: "user", parts: [paperPart] }],
+            systemInstruction: { parts: [{ text: SYSTEM_ROLE_PROMPT }] },
+            ttl: `${GEMINI_CONTEXT_CACHE_TTL_SECONDS}s`,
+          }),
+          responseType: "json",
+          timeout: context.options.requestTimeoutMs ?? getRequestTimeoutMs(),
+          errorDelayMax: 0,
+        },
+      );
+      const name = (res as any)?.response?.name;
+      if (typeof name !== "string" || !name) {
+        throw new Error(providerRequestFailed("Gemini cachedContents"));
+      }
+      ztoolkit.log(
+        `[AI-Butler] Gemini context cache created: ${name}, tokens=${(res as any)?.response?.usageMetadata?.totalTokenCount ?? "unknown"}`,
+      );
+      return {
+        handle: name,
+        expiresAt: Date.now() + GEMINI_CONTEXT_CACHE_TTL_SECONDS * 1000,
+        release: async () => {
+          await Zotero.HTTP.request("DELETE", `${baseUrl}/v1beta/${name}`, {
+            headers: { "x-goog-api-key": apiKey },
+            timeout: 30000,
+            errorDelayMax: 0,
+          });
+        },
+      };
+    });
+    return entry?.handle;
+  }
+
+  /** 缓存被删除或过期时请求会失败，本次运行的后续请求改为发送完整上下文 */
+  private dropContextCacheOnError(cacheKey: string, error: unknown): void {
+    const status = (error as ProviderHttpErrorInfo | undefined)?.statusCode;
+    if (status === 400 || status === 403 || status === 404) {
+      ContextCacheRegistry.invalidate(cacheKey);
+    }
+  }
+
+  async chatWithTools(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+  ): Promise<LLMToolTurn> {
+    const baseUrl = (
+      options.apiUrl || "https://generativelanguage.googleapis.com"
+    ).replace(/\/$/, "");
+    const apiKey = (options.apiKey || "").trim();
+    const model = (options.model || "gemini-2.5-pro").trim();
+
+    if (!baseUrl) throw new Error(providerMissingApiUrl("Gemini"));
+    if (!apiKey) throw new Error(providerMissingApiKey("Gemini"));
+    throwIfAborted(options.abortSignal);
+
+    const endpoint = `${baseUrl}/v1beta/models/${encodeURIComponent(model)}:generateContent`;
+    const contents = toGeminiToolContents(conversation, (text) =>
+      isBase64
+        ? [
+            { text },
+            { inlineData: { mimeType: "application/pdf", data: pdfContent } },
+          ]
+        : [{ text: buildUserMessage(text, pdfContent || "") }],
+    );
+    const genCfg: any = {};
+    if (options.temperature !== undefined)
+      genCfg.temperature = options.temperature;
+    const payload = {
+      generationConfig: genCfg,
+      contents,
+      systemInstruction: { parts: [{ text: SYSTEM_ROLE_PROMPT }] },
+      ...buildGeminiToolParams(options),
+    };
+
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+    try {
+      const res = await Zotero.HTTP.request("POST", endpoint, {
+        headers: {
+          "Content-Type": "application/json",
+          "x-goog-api-key": apiKey,
+        },
+        body: JSON.stringify(payload),
+        responseType: "json",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+        },
+      });
+      throwIfAborted(options.abortSignal);
+      const data = res.response || res;
+      reportUsage(options, data);
+      return parseGeminiToolTurn(data);
+    } catch (error: any) {
+      if (abortError || isAbortError(error, options.abortSignal)) {
+        throw normalizeAbortError(abortError || error, options.abortSignal);
+      }
+      let errorMessage = error?.message || providerRequestFailed("Gemini");
+      try {
+        const responseText =
+          error?.xmlhttp?.response || error?.xmlhttp?.responseText;
+        if (responseText) {
+          const parsed =
+            typeof responseText === "string"
+              ? JSON.parse(responseText)
+              : responseText;
+          const err = parsed?.error || parsed;
+          const code = err?.code || "Error";
+          const msg = err?.message || error?.message || String(error);
+          errorMessage = `${code}: ${msg}`;
+        }
+      } catch {
+        /* ignore */
+      }
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
+    } finally {
+      cleanupAbortSignal?.();
+    }
+  }
+
+  /**
+   * 图片以 inlineData 部件随提示词一起发送
+   */
+  async generateWithImages(
+    images: LLMImageInput[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const baseUrl = (
+      options.apiUrl || "https://generativelanguage.googleapis.com"
+    ).replace(/\/$/, "");
+    const apiKey = (options.apiKey || "").trim();
+    const model = (options.model || "gemini-2.5-pro").trim();
+
+    if (!baseUrl) throw new Error(providerMissingApiUrl("Gemini"));
+    if (!apiKey) throw new Error(providerMissingApiKey("Gemini"));
+    throwIfAborted(options.abortSignal);
+
+    const endpoint = `${baseUrl}/v1beta/models/${encodeURIComponent(model)}:generateContent`;
+    const genCfg: any = {};
+    if (options.temperature !== undefined)
+      genCfg.temperature = options.temperature;
+    if (options.topP !== undefined) genCfg.topP = options.topP;
+    if (options.maxTokens !== undefined)
+      genCfg.maxOutputTokens = options.maxTokens;
+    const payload = {
+      generationConfig: genCfg,
+      contents: [
+        {
+          role: "user",
+          parts: [
+            ...images.map((image) => ({
+              inlineData: { mimeType: image.mimeType, data: image.base64 },
+            })),
+            { text: prompt },
+          ],
+        },
+      ],
+      systemInstruction: { parts: [{ text: SYSTEM_ROLE_PROMPT }] },
+    };
+
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+    try {
+      const res = await Zotero.HTTP.request("POST", endpoint, {
+        headers: {
+          "Content-Type": "application/json",
+          "x-goog-api-key": apiKey,
+        },
+        body: JSON.stringify(payload),
+        responseType: "json",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+        },
+      });
+      throwIfAborted(options.abortSignal);
+      const data = res.response || res;
+      reportUsage(options, data);
+      const text = this.extractGeminiText(data);
+      if (onProgress && text) await onProgress(text);
+      return text;
+    } catch (error: any) {
+      if (abortError || isAbortError(error, options.abortSignal)) {
+        throw normalizeAbortError(abortError || error, options.abortSignal);
+      }
+      let errorMessage = error?.message || providerRequestFailed("Gemini");
+      try {
+        const responseText =
+          error?.xmlhttp?.response || error?.xmlhttp?.responseText;
+        if (responseText) {
+          const parsed =
+            typeof responseText === "string"
+              ? JSON.parse(responseText)
+              : responseText;
+          const err = parsed?.error || parsed;
+          const code = err?.code || "Error";
+          const msg = err?.message || error?.message || String(error);
+          errorMessage = `${code}: ${msg}`;
+        }
+      } catch {
+        /* ignore */
+      }
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
+    } finally {
+      cleanupAbortSignal?.();
+    }
+  }
+
   async listModels(options: LLMOptions): Promise<LLMModelInfo[]> {
     const baseUrl = (
       options.apiUrl || "https://generativelanguage.googleapis.com"
@@ -601,6 +939,17 @@ export class GeminiProvider implements ILlmProvider {
     });
   }
 
+  private applyResponseSchema(
+    generationConfig: Record<string, unknown>,
+    options: LLMOptions,
+  ): void {
+    if (!options.responseSchema) return;
+    generationConfig.responseMimeType = "application/json";
+    generationConfig.responseSchema = toGeminiResponseSchema(
+      options.responseSchema.schema,
+    );
+  }
+
   private extractGeminiText(json: any): string {
     try {
       const cand0 = json?.candidates?.[0];
@@ -790,6 +1139,7 @@ export class GeminiProvider implements ILlmProvider {
     if (options.topP !== undefined) generationConfig.topP = topP;
     if (options.maxTokens !== undefined)
       generationConfig.maxOutputTokens = maxTokens;
+    this.applyResponseSchema(generationConfig, options);
 
     const payload = {
       generationConfig,
@@ -864,6 +1214,7 @@ export class GeminiProvider implements ILlmProvider {
                   if (!jsonStr) continue;
                   try {
                     const json = JSON.parse(jsonStr);
+                    reportUsage(options, json);
                     const text = this.extractGeminiText(json);
                     if (text) {
                       gotAnyDelta = true;
@@ -913,7 +1264,7 @@ export class GeminiProvider implements ILlmProvider {
         /* ignore */
       }
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
@@ -0,0 +1,542 @@
+import { ILlmProvider } from "./ILlmProvider";
+import {
+  APITestError,
+  ConversationMessage,
+  LLMHttpProviderConfig,
+  LLMOptions,
+  LLMProviderCapabilities,
+  ProgressCb,
+} from "./types";
+import { SYSTEM_ROLE_PROMPT, buildUserMessage } from "../../utils/prompts";
+import { getString } from "../../utils/locale";
+import { getRequestTimeoutMs, reportUsage } from "./shared/llmutils";
+import {
+  getConnectionTestInput,
+  formatConnectionTestSuccess,
+  formatProviderTimeout,
+} from "./shared/connectionTest";
+import {
+  bindAbortSignal,
+  isAbortError,
+  normalizeAbortError,
+  throwIfAborted,
+} from "./shared/requestAbort";
+import {
+  providerHttpRequestFailed,
+  providerMissingApiUrl,
+  providerRequestFailed,
+} from "./shared/localizedErrors";
+import { withHttpStatus } from "./shared/httpErrors";
+import {
+  decodeStreamDelimiter,
+  extractTextByPath,
+  interpolateTemplate,
+  normalizeHttpProviderConfig,
+  parseStreamEventData,
+  renderHttpTemplate,
+  splitStreamEvents,
+  type HttpTemplateVars,
+} from "./shared/httpTemplate";
+
+type HttpChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+type HttpRequestConfig = {
+  url: string;
+  apiKey: string;
+  config: LLMHttpProviderConfig;
+};
+
+const PROVIDER_NAME = "Custom HTTP";
+
+/**
+ * 声明式 HTTP 供应商：请求体、鉴权头与响应解析路径全部来自端点配置
+ *
+ * 用于接入企业网关或自建模型服务等没有专用 Provider 的接口。只发送文本内容，
+ * PDF Base64 模式会给出明确错误，由用户切换为文本提取模式。
+ * 响应或流事件中带有常见形态的用量与结束原因字段（如 usage、finish_reason）时一并上报。
+ */
+export class HttpProvider implements ILlmProvider {
+  readonly id = "custom-http";
+  readonly capabilities: LLMProviderCapabilities = {
+    supportsText: true,
+    supportsStreaming: true,
+    supportsPdfBase64: false,
+    maxPdfFiles: 1,
+    supportsSystemPrompt: true,
+    supportedParams: ["temperature", "topP", "maxTokens", "stream"],
+  };
+
+  private ensureConfig(options: LLMOptions): HttpRequestConfig {
+    const url = (options.apiUrl || "").trim();
+    if (!url) throw new Error(providerMissingApiUrl(PROVIDER_NAME));
+    return {
+      url,
+      apiKey: (options.apiKey || "").trim(),
+      config: normalizeHttpProviderConfig(options.httpProvider),
+    };
+  }
+
+  private rejectPdfBase64(): never {
+    throw new Error(getString("provider-error-http-pdf-base64-unsupported"));
+  }
+
+  private buildHeaders(
+    request: HttpRequestConfig,
+    stream: boolean,
+  ): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: stream ? "text/event-stream" : "application/json",
+    };
+    const { authHeader, authValue } = request.config;
+    // 鉴权值引用了密钥但端点未填写密钥时不发送鉴权头，便于接入无需鉴权的内网服务
+    const needsKey = /\{\{\s*apiKey\s*\}\}/.test(authValue);
+    if (authHeader && (request.apiKey || !needsKey)) {
+      headers[authHeader] = interpolateTemplate(authValue, {
+        apiKey: request.apiKey,
+      });
+    }
+    return headers;
+  }
+
+  private buildVars(
+    messages: HttpChatMessage[],
+    options: LLMOptions,
+    stream: boolean,
+    apiKey: string,
+  ): HttpTemplateVars {
+    const lastUser = [...messages].reverse().find((m) => m.role === "user");
+    return {
+      model: (options.model || "").trim() || undefined,
+      messages,
+      system: SYSTEM_ROLE_PROMPT,
+      prompt: lastUser?.content ?? "",
+      stream,
+      temperature: options.temperature,
+      topP: options.topP,
+      maxTokens: options.maxTokens,
+      apiKey: apiKey || undefined,
+    };
+  }
+
+  private shouldStream(
+    request: HttpRequestConfig,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): boolean {
+    return Boolean(
+      (options.stream ?? true) && onProgress && request.config.streamTextPath,
+    );
+  }
+
+  private send(
+    messages: HttpChatMessage[],
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const request = this.ensureConfig(options);
+    const stream = this.shouldStream(request, options, onProgress);
+    const payload = renderHttpTemplate(
+      request.config.requestTemplate,
+      this.buildVars(messages, options, stream, request.apiKey),
+    );
+    return stream
+      ? this.streamRequest(request, payload, options, onProgress)
+      : this.nonStreamRequest(request, payload, options, onProgress);
+  }
+
+  async generateSummary(
+    content: string,
+    isBase64: boolean,
+    prompt: string | undefined,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    if (isBase64) this.rejectPdfBase64();
+    return this.send(
+      [
+        { role: "system", content: SYSTEM_ROLE_PROMPT },
+        { role: "user", content: buildUserMessage(prompt || "", content) },
+      ],
+      options,
+      onProgress,
+    );
+  }
+
+  async chat(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    if (isBase64) this.rejectPdfBase64();
+    const messages: HttpChatMessage[] = [
+      { role: "system", content: SYSTEM_ROLE_PROMPT },
+    ];
+    conversation.forEach((msg, index) => {
+      const role =
+        msg.role === "system" || msg.role === "assistant" ? msg.role : "user";
+      messages.push({
+        role,
+        content:
+          index === 0 && role === "user"
+            ? buildUserMessage(msg.content, pdfContent)
+            : msg.content,
+      });
+    });
+    return this.send(messages, options, onProgress);
+  }
+
+  async testConnection(options: LLMOptions): Promise<string> {
+    const request = this.ensureConfig(options);
+    const testInput = getConnectionTestInput(options);
+    if (testInput.isBase64) this.rejectPdfBase64();
+
+    const payload = renderHttpTemplate(
+      request.config.requestTemplate,
+      this.buildVars(
+        [
+          { role: "system", content: SYSTEM_ROLE_PROMPT },
+          { role: "user", content: testInput.text },
+        ],
+        options,
+        false,
+        request.apiKey,
+      ),
+    );
+    const payloadStr = JSON.stringify(payload, null, 2);
+    const responseHeaders: Record<string, string> = {};
+    let response: any;
+
+    try {
+      response = await Zotero.HTTP.request("POST", request.url, {
+        headers: this.buildHeaders(request, false),
+        body: JSON.stringify(payload),
+        responseType: "text",
+        timeout: options.requestTimeoutMs ?? 30000,
+        errorDelayMax: 0,
+      });
+      this.collectHeaders(response, responseHeaders);
+    } catch (error: any) {
+      this.collectHeaders(error?.xmlhttp, responseHeaders);
+      const responseBody =
+        error?.xmlhttp?.response || error?.xmlhttp?.responseText || "";
+      const message =
+        this.readErrorMessage(responseBody, request.config) ||
+        error?.message ||
+        providerRequestFailed(PROVIDER_NAME);
+      throw new APITestError(message, {
+        errorName: "HttpProviderError",
+        errorMessage: message,
+        statusCode: error?.xmlhttp?.status,
+        requestUrl: request.url,
+        requestBody: payloadStr,
+        responseHeaders,
+        responseBody:
+          typeof responseBody === "string"
+            ? responseBody
+            : JSON.stringify(responseBody),
+      });
+    }
+
+    const rawResponse = response.response || "";
+    const content = this.extractTextFromRawResponse(
+      rawResponse,
+      request.config,
+    );
+    if (!content) {
+      throw new APITestError(
+        getString("provider-error-http-response-path-empty", {
+          args: { path: request.config.responseTextPath },
+        }),
+        {
+          errorName: "HttpProviderResponsePath",
+          errorMessage: getString("provider-error-http-response-path-empty", {
+            args: { path: request.config.responseTextPath },
+          }),
+          statusCode: response.status,
+          requestUrl: request.url,
+          requestBody: payloadStr,
+          responseHeaders,
+          responseBody: rawResponse,
+        },
+      );
+    }
+    return formatConnectionTestSuccess({
+      mode: testInput.mode,
+      model: (options.model || "").trim(),
+      response: content,
+      rawResponse,
+    });
+  }
+
+  private async nonStreamRequest(
+    request: HttpRequestConfig,
+    payload: unknown,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    throwIfAborted(options.abortSignal);
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+    try {
+      const response = await Zotero.HTTP.request("POST", request.url, {
+        headers: this.buildHeaders(request, false),
+        body: JSON.stringify(payload),
+        responseType: "text",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+        },
+      });
+      throwIfAborted(options.abortSignal);
+      const data = this.parseRawResponse(response.response || "");
+      if (data !== undefined) reportUsage(options, data);
+      const text =
+        data === undefined
+          ? ""
+          : extractTextByPath(data, request.config.responseTextPath);
+      if (!text) {
+        throw new Error(
+          getString("provider-error-http-response-path-empty", {
+            args: { path: request.config.responseTextPath },
+          }),
+        );
+      }
+      if (onProgress) await onProgress(text);
+      return text;
+    } catch (error: any) {
+      if (abortError || isAbortError(error, options.abortSignal)) {
+        throw normalizeAbortError(abortError || error, options.abortSignal);
+      }
+      throw this.toRequestError(
+        error,
+        request.config,
+        providerRequestFailed(PROVIDER_NAME),
+      );
+    } finally {
+      cleanupAbortSignal?.();
+    }
+  }
+
+  private async streamRequest(
+    request: HttpRequestConfig,
+    payload: unknown,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    throwIfAborted(options.abortSignal);
+    const { streamTextPath } = request.config;
+    const delimiter = decodeStreamDelimiter(request.config.streamDelimiter);
+    const chunks: string[] = [];
+    let processedLength = 0;
+    let pending = "";
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+
+    const deliver = (chunk: string) => {
+      if (!chunk) return;
+      chunks.push(chunk);
+      if (!onProgress) return;
+      Promise.resolve(onProgress(chunk)).catch((err) =>
+        ztoolkit.log("[AI-Butler] onProgress error (HTTP stream):", err),
+      );
+    };
+
+    const processEvents = (text: string, final = false) => {
+      const { events, rest } = splitStreamEvents(
+        pending + text,
+        delimiter,
+        final,
+      );
+      pending = rest;
+      for (const event of events) {
+        const data = parseStreamEventData(event);
+        if (data === undefined) continue;
+        reportUsage(options, data);
+        deliver(extractTextByPath(data, streamTextPath));
+      }
+    };
+
+    let response: any;
+    try {
+      response = await Zotero.HTTP.request("POST", request.url, {
+        headers: this.buildHeaders(request, true),
+        body: JSON.stringify(payload),
+        responseType: "text",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+          xmlhttp.onprogress = (event: any) => {
+            const status = event.target.status;
+            if (status >= 400) {
+              abortError = this.toRequestError(
+                { xmlhttp: event.target },
+                request.config,
+                providerHttpRequestFailed(status),
+              );
+              xmlhttp.abort();
+              return;
+            }
+
+            const responseText: string = event.target.response || "";
+            if (responseText.length <= processedLength) return;
+            processEvents(responseText.slice(processedLength));
+            processedLength = responseText.length;
+          };
+          xmlhttp.onerror = () => {
+            if (!abortError)
+              abortError = new Error("NetworkError: XHR onerror");
+          };
+          xmlhttp.ontimeout = () => {
+            if (!abortError) {
+              abortError = new Error(
+                formatProviderTimeout(
+                  options.requestTimeoutMs ?? getRequestTimeoutMs(),
+                ),
+              );
+            }
+          };
+        },
+      });
+    } catch (error: any) {
+      if (abortError && isAbortError(abortError, options.abortSignal)) {
+        throw normalizeAbortError(abortError, options.abortSignal);
+      }
+      if (isAbortError(error, options.abortSignal)) {
+        throw normalizeAbortError(error, options.abortSignal);
+      }
+      if (abortError && chunks.length === 0) throw abortError;
+      if (chunks.length > 0) return chunks.join("");
+      throw this.toRequestError(
+        error,
+        request.config,
+        providerRequestFailed(`${PROVIDER_NAME} streaming`),
+      );
+    } finally {
+      cleanupAbortSignal?.();
+    }
+
+    throwIfAborted(options.abortSignal);
+    const rawResponse = response?.response || "";
+    if (rawResponse.length > processedLength) {
+      processEvents(rawResponse.slice(processedLength));
+    }
+    processEvents("", true);
+
+    // 服务端忽略了流式参数、直接返回完整 JSON 时按非流式路径解析
+    if (chunks.length === 0) {
+      const data = this.parseRawResponse(rawResponse);
+      if (data !== undefined) {
+        reportUsage(options, data);
+        deliver(extractTextByPath(data, request.config.responseTextPath));
+      }
+    }
+    const text = chunks.join("");
+    if (!text) {
+      throw new Error(
+        getString("provider-error-http-response-path-empty", {
+          args: { path: streamTextPath },
+        }),
+      );
+    }
+    return text;
+  }
+
+  private parseRawResponse(rawResponse: string): unknown {
+    const trimmed = (rawResponse || "").trim();
+    if (!trimmed) return undefined;
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private extractTextFromRawResponse(
+    rawResponse: string,
+    config: LLMHttpProviderConfig,
+  ): string {
+    const data = this.parseRawResponse(rawResponse);
+    return data === undefined
+      ? ""
+      : extractTextByPath(data, config.responseTextPath);
+  }
+
+  private readErrorMessage(
+    body: unknown,
+    config: LLMHttpProviderConfig,
+  ): string {
+    if (!body) return "";
+    try {
+      const data = typeof body === "string" ? JSON.parse(body) : body;
+      const configured = config.errorMessagePath
+        ? extractTextByPath(data, config.errorMessagePath)
+        : "";
+      if (configured) return configured;
+      const error = (data as any)?.error;
+      if (typeof error === "string") return error;
+      if (typeof error?.message === "string") return error.message;
+      if (typeof (data as any)?.message === "string") {
+        return (data as any).message;
+      }
+      return "";
+    } catch {
+      return typeof body === "string" ? body.trim().slice(0, 500) : "";
+    }
+  }
+
+  private toRequestError(
+    error: any,
+    config: LLMHttpProviderConfig,
+    fallback: string,
+  ): Error {
+    const responseBody =
+      error?.xmlhttp?.response || error?.xmlhttp?.responseText || "";
+    const message =
+      this.readErrorMessage(responseBody, config) || error?.message || fallback;
+    return withHttpStatus(new Error(message), error?.xmlhttp);
+  }
+
+  private collectHeaders(
+    response: { getAllResponseHeaders?: () => string } | undefined,
+    target: Record<string, string>,
+  ): void {
+    try {
+      const headerStr = response?.getAllResponseHeaders?.() || "";
+      headerStr.split(/\r?\n/).forEach((line: string) => {
+        const idx = line.indexOf(":");
+        if (idx > 0) {
+          target[line.slice(0, idx).trim().toLowerCase()] = line
+            .slice(idx + 1)
+            .trim();
+        }
+      });
+    } catch {
+      // Header capture is best-effort for diagnostics.
+    }
+  }
+}
+
+import { ProviderRegistry } from "./ProviderRegistry";
+ProviderRegistry.register(new HttpProvider());
+
+export default HttpProvider;
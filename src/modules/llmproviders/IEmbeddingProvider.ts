@@ -0,0 +1,23 @@
+/**
+ * 向量嵌入服务配置
+ */
+export interface EmbeddingOptions {
+  apiUrl: string;
+  apiKey: string;
+  model: string;
+  requestTimeoutMs?: number;
+}
+
+/**
+ * 向量嵌入 Provider 接口
+ *
+ * 与 ILlmProvider 并列：对话/总结走 ILlmProvider，语义索引走这里。
+ */
+export interface IEmbeddingProvider {
+  readonly id: string;
+
+  /**
+   * 批量计算文本向量，返回顺序与输入一致
+   */
+  embed(texts: string[], options: EmbeddingOptions): Promise<number[][]>;
+}
@@ -4,6 +4,8 @@ import {
   ConversationMessage,
   LLMProviderCapabilities,
   LLMModelInfo,
+  LLMToolTurn,
+  LLMImageInput,
 } from "./types";
 
 /**
@@ -38,6 +40,19 @@ export interface ILlmProvider {
     onProgress?: ProgressCb,
   ): Promise<string>;
 
+  /**
+   * 支持工具调用的对话（可选方法）
+   *
+   * 只发送一次非流式请求，工具定义通过 options.tools 传入；返回模型文本与请求调用的工具，
+   * 工具执行与多轮循环由 LLMService 负责。
+   */
+  chatWithTools?(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+  ): Promise<LLMToolTurn>;
+
   testConnection(options: LLMOptions): Promise<string>;
 
   /**
@@ -60,4 +75,20 @@ export interface ILlmProvider {
     options: LLMOptions,
     onProgress?: ProgressCb,
   ): Promise<string>;
+
+  /**
+   * 图片理解（可选方法）
+   * 图片与提示词放在同一条用户消息中，发送一次非流式请求
+   *
+   * @param images 图片列表
+   * @param prompt 用户提示词
+   * @param options LLM 选项
+   * @param onProgress 进度回调（完整结果返回时回调一次）
+   */
+  generateWithImages?(
+    images: LLMImageInput[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string>;
 }
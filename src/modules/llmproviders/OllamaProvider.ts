@@ -2,6 +2,7 @@ import { ILlmProvider } from "./ILlmProvider";
 import {
   APITestError,
   ConversationMessage,
+  LLMImageInput,
   LLMModelInfo,
   LLMOptions,
   LLMProviderCapabilities,
@@ -41,6 +42,8 @@ import {
 type OllamaChatMessage = {
   role: "system" | "user" | "assistant";
   content: string;
+  /** 视觉模型的图片输入（base64） */
+  images?: string[];
 };
 
 type OllamaConfig = {
@@ -64,7 +67,13 @@ export class OllamaProvider implements ILlmProvider {
     supportsPdfBase64: false,
     maxPdfFiles: 1,
     supportsSystemPrompt: true,
-    supportedParams: ["temperature", "topP", "maxTokens", "stream"],
+    supportedParams: [
+      "temperature",
+      "topP",
+      "maxTokens",
+      "stream",
+      "responseFormat",
+    ],
   };
 
   private ensureConfig(options: LLMOptions): OllamaConfig {
@@ -163,6 +172,9 @@ export class OllamaProvider implements ILlmProvider {
     if (keepAlive !== undefined) {
       payload.keep_alive = keepAlive;
     }
+    if (options.responseSchema) {
+      payload.format = options.responseSchema.schema;
+    }
     return payload;
   }
 
@@ -222,6 +234,29 @@ export class OllamaProvider implements ILlmProvider {
     return this.streamRequest(chatUrl, apiKey, payload, options, onProgress);
   }
 
+  /**
+   * 图片放在用户消息的 images 字段中，需要视觉模型（如 llava、qwen2.5vl）
+   */
+  async generateWithImages(
+    images: LLMImageInput[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const { chatUrl, apiKey } = this.ensureConfig(options);
+    const model = (options.model || "llama3.2").trim();
+    const messages: OllamaChatMessage[] = [
+      { role: "system", content: SYSTEM_ROLE_PROMPT },
+      {
+        role: "user",
+        content: prompt,
+        images: images.map((image) => image.base64),
+      },
+    ];
+    const payload = this.buildPayload(model, messages, options, false);
+    return this.nonStreamRequest(chatUrl, apiKey, payload, options, onProgress);
+  }
+
   private normalizeRole(role: string): "system" | "user" | "assistant" {
     if (role === "system" || role === "assistant") return role;
     return "user";
@@ -4,10 +4,18 @@ import {
   LLMOptions,
   LLMModelInfo,
   LLMProviderCapabilities,
+  LLMToolTurn,
+  LLMImageInput,
   ProgressCb,
 } from "./types";
 import { SYSTEM_ROLE_PROMPT, buildUserMessage } from "../../utils/prompts";
-import { getRequestTimeoutMs, logPromptCacheUsage } from "./shared/llmutils";
+import {
+  getRequestTimeoutMs,
+  logPromptCacheUsage,
+  markStreamTruncated,
+  reportUsage,
+} from "./shared/llmutils";
+import { buildContextUserMessage } from "./shared/contextCache";
 import {
   getConnectionTestInput,
   formatConnectionTestSuccess,
@@ -19,6 +27,12 @@ import {
   requestModelListJson,
 } from "./shared/modelList";
 import { resolveReasoningEffort } from "./shared/reasoning";
+import { buildChatCompletionsResponseFormat } from "./shared/structuredOutput";
+import {
+  buildChatCompletionsToolParams,
+  parseChatCompletionsToolTurn,
+  toChatCompletionsToolMessages,
+} from "./shared/toolCalling";
 import {
   bindAbortSignal,
   isAbortError,
@@ -37,6 +51,7 @@ import {
   providerStreamTruncated,
   providerStreamUnexpectedEnd,
 } from "./shared/localizedErrors";
+import { withHttpStatus } from "./shared/httpErrors";
 
 /**
  * OpenAI 旧接口兼容 Provider（Chat Completions 格式）
@@ -62,6 +77,7 @@ export class OpenAICompatProvider implements ILlmProvider {
       "maxTokens",
       "stream",
       "reasoningEffort",
+      "responseFormat",
     ],
   };
 
@@ -76,7 +92,7 @@ export class OpenAICompatProvider implements ILlmProvider {
     return { apiUrl, apiKey };
   }
 
-  private normalizeChatCompletionsUrl(apiUrl: string): string {
+  protected normalizeChatCompletionsUrl(apiUrl: string): string {
     const raw = apiUrl.trim().replace(/\/+$/, "");
     if (!raw) return raw;
     if (/\/(?:v\d+(?:beta)?\/)?chat\/completions$/i.test(raw)) return raw;
@@ -87,11 +103,11 @@ export class OpenAICompatProvider implements ILlmProvider {
     return `${raw}/v1/chat/completions`;
   }
 
-  private buildHeaders(apiKey: string) {
+  protected buildHeaders(apiKey: string): Record<string, string> {
     return {
       "Content-Type": "application/json",
       Authorization: `Bearer ${apiKey}`,
-    } as Record<string, string>;
+    };
   }
 
   private buildGenParams(options: LLMOptions) {
@@ -102,6 +118,11 @@ export class OpenAICompatProvider implements ILlmProvider {
     if (options.maxTokens !== undefined) params.max_tokens = options.maxTokens;
     const reasoningEffort = resolveReasoningEffort(options.reasoningEffort);
     if (reasoningEffort) params.reasoning_effort = reasoningEffort;
+    if (options.responseSchema) {
+      params.response_format = buildChatCompletionsResponseFormat(
+        options.responseSchema,
+      );
+    }
     return params;
   }
 
@@ -198,10 +219,16 @@ export class OpenAICompatProvider implements ILlmProvider {
                   const err = parsed?.error || parsed || {};
                   const code = err?.code || `HTTP ${status}`;
                   const msg = err?.message || providerRequestFailed("API");
-                  abortError = new Error(`${code}: ${msg}`);
+                  abortError = withHttpStatus(
+                    new Error(`${code}: ${msg}`),
+                    e.target,
+                  );
                   xmlhttp.abort();
                 } catch {
-                  abortError = new Error(providerHttpRequestFailed(status));
+                  abortError = withHttpStatus(
+                    new Error(providerHttpRequestFailed(status)),
+                    e.target,
+                  );
                   xmlhttp.abort();
                 }
                 return;
@@ -229,6 +256,7 @@ export class OpenAICompatProvider implements ILlmProvider {
                     }
                     try {
                       const evt = JSON.parse(jsonStr);
+                      reportUsage(options, evt);
                       const reason = evt?.choices?.[0]?.finish_reason;
                       if (typeof reason === "string" && reason.length > 0) {
                         finishReason = reason;
@@ -310,66 +338,28 @@ export class OpenAICompatProvider implements ILlmProvider {
         } catch {
           /* ignore */
         }
-        throw new Error(errorMessage);
+        throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
       } finally {
         cleanupAbortSignal?.();
       }
 
-      this.assertStreamCompleted(streamComplete, finishReason, partialLine);
+      this.assertStreamCompleted(
+        streamComplete,
+        finishReason,
+        partialLine,
+        chunks.join(""),
+      );
       return chunks.join("");
     }
 
     // 非流式
-    let abortError: Error | null = null;
-    let cleanupAbortSignal: (() => void) | undefined;
-    try {
-      const res = await Zotero.HTTP.request("POST", apiUrl, {
-        headers: this.buildHeaders(apiKey),
-        body: JSON.stringify(basePayload),
-        responseType: "json",
-        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
-        errorDelayMax: 0,
-        requestObserver: (xmlhttp: XMLHttpRequest) => {
-          cleanupAbortSignal = bindAbortSignal(
-            options.abortSignal,
-            xmlhttp,
-            (error) => {
-              abortError = error;
-            },
-          );
-        },
-      });
-      throwIfAborted(options.abortSignal);
-      const data = res.response || res;
-      const text = data?.choices?.[0]?.message?.content || "";
-      const result = typeof text === "string" ? text : JSON.stringify(text);
-      if (onProgress && result) await onProgress(result);
-      return result;
-    } catch (e: any) {
-      if (abortError || isAbortError(e, options.abortSignal)) {
-        throw normalizeAbortError(abortError || e, options.abortSignal);
-      }
-      let errorMessage =
-        e?.message || providerRequestFailed("OpenAI Compatible");
-      try {
-        const responseText = e?.xmlhttp?.response || e?.xmlhttp?.responseText;
-        if (responseText) {
-          const parsed =
-            typeof responseText === "string"
-              ? JSON.parse(responseText)
-              : responseText;
-          const err = parsed?.error || parsed;
-          const code = err?.code || "Error";
-          const msg = err?.message || e?.message || String(e);
-          errorMessage = `${code}: ${msg}`;
-        }
-      } catch {
-        /* ignore */
-      }
-      throw new Error(errorMessage);
-    } finally {
-      cleanupAbortSignal?.();
-    }
+    return this.requestCompletion(
+      apiUrl,
+      apiKey,
+      basePayload,
+      options,
+      onProgress,
+    );
   }
 
   async chat(
@@ -397,18 +387,22 @@ export class OpenAICompatProvider implements ILlmProvider {
         if (isFirstUserMessage) {
           // 第一条用户消息需要附带论文内容
           if (isBase64) {
-            messages.push({
-              role: "user",
-              content: [
-                { type: "text", text: msg.content },
-                this.buildPdfFilePart(pdfContent, "paper.pdf"),
-              ],
-            });
+            const parts = [
+              { type: "text", text: msg.content },
+              this.buildPdfFilePart(pdfContent, "paper.pdf"),
+            ];
+            // 带缓存标识时论文在前，使多轮请求共享相同前缀
+            if (options.contextCacheKey) parts.reverse();
+            messages.push({ role: "user", content: parts });
           } else {
             // 文本模式：将论文内容附加到消息中
             messages.push({
               role: "user",
-              content: buildUserMessage(msg.content, pdfContent),
+              content: buildContextUserMessage(
+                msg.content,
+                pdfContent,
+                options,
+              ),
             });
           }
         } else {
@@ -458,10 +452,16 @@ export class OpenAICompatProvider implements ILlmProvider {
                 const err = parsed?.error || parsed || {};
                 const code = err?.code || `HTTP ${status}`;
                 const msg = err?.message || providerRequestFailed("API");
-                abortError = new Error(`${code}: ${msg}`);
+                abortError = withHttpStatus(
+                  new Error(`${code}: ${msg}`),
+                  e.target,
+                );
                 xmlhttp.abort();
               } catch {
-                abortError = new Error(providerHttpRequestFailed(status));
+                abortError = withHttpStatus(
+                  new Error(providerHttpRequestFailed(status)),
+                  e.target,
+                );
                 xmlhttp.abort();
               }
               return;
@@ -489,6 +489,7 @@ export class OpenAICompatProvider implements ILlmProvider {
                   }
                   try {
                     const evt = JSON.parse(jsonStr);
+                    reportUsage(options, evt);
                     if (options.enablePromptCache && evt?.usage) {
                       lastUsage = evt.usage;
                     }
@@ -576,30 +577,216 @@ export class OpenAICompatProvider implements ILlmProvider {
       } catch {
         /* ignore */
       }
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
 
-    this.assertStreamCompleted(streamComplete, finishReason, partialLine);
+    this.assertStreamCompleted(
+      streamComplete,
+      finishReason,
+      partialLine,
+      chunks.join(""),
+    );
     if (options.enablePromptCache) {
       logPromptCacheUsage("OpenAI-Compat chat", lastUsage);
     }
     return chunks.join("");
   }
 
+  async chatWithTools(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+  ): Promise<LLMToolTurn> {
+    const { apiUrl, apiKey } = this.ensureUrlAndKey(options);
+    const model = (options.model || "gpt-3.5-turbo").trim();
+    throwIfAborted(options.abortSignal);
+
+    const messages = [
+      { role: "system", content: SYSTEM_ROLE_PROMPT },
+      ...toChatCompletionsToolMessages(conversation, (text) =>
+        isBase64
+          ? [
+              { type: "text", text },
+              this.buildPdfFilePart(pdfContent, "paper.pdf"),
+            ]
+          : buildUserMessage(text, pdfContent),
+      ),
+    ];
+    const payload = {
+      model,
+      messages,
+      ...this.buildGenParams(options),
+      ...buildChatCompletionsToolParams(options),
+    };
+
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+    try {
+      const res = await Zotero.HTTP.request("POST", apiUrl, {
+        headers: this.buildHeaders(apiKey),
+        body: JSON.stringify(payload),
+        responseType: "json",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+        },
+      });
+      throwIfAborted(options.abortSignal);
+      const data = res.response || res;
+      reportUsage(options, data);
+      return parseChatCompletionsToolTurn(data);
+    } catch (e: any) {
+      if (abortError || isAbortError(e, options.abortSignal)) {
+        throw normalizeAbortError(abortError || e, options.abortSignal);
+      }
+      let errorMessage =
+        e?.message || providerRequestFailed("OpenAI Compatible");
+      try {
+        const responseText = e?.xmlhttp?.response || e?.xmlhttp?.responseText;
+        if (responseText) {
+          const parsed =
+            typeof responseText === "string"
+              ? JSON.parse(responseText)
+              : responseText;
+          const err = parsed?.error || parsed;
+          const code = err?.code || "Error";
+          const msg = err?.message || e?.message || String(e);
+          errorMessage = `${code}: ${msg}`;
+        }
+      } catch {
+        /* ignore */
+      }
+      throw withHttpStatus(new Error(errorMessage), e?.xmlhttp);
+    } finally {
+      cleanupAbortSignal?.();
+    }
+  }
+
+  /**
+   * 图片以 image_url（data URL）部件随提示词一起发送
+   */
+  async generateWithImages(
+    images: LLMImageInput[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const { apiUrl, apiKey } = this.ensureUrlAndKey(options);
+    const model = (options.model || "gpt-3.5-turbo").trim();
+    throwIfAborted(options.abortSignal);
+
+    const payload = {
+      model,
+      messages: [
+        { role: "system", content: SYSTEM_ROLE_PROMPT },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: prompt },
+            ...images.map((image) => ({
+              type: "image_url",
+              image_url: {
+                url: `data:${image.mimeType};base64,${image.base64}`,
+              },
+            })),
+          ],
+        },
+      ],
+      ...this.buildGenParams(options),
+    };
+    return this.requestCompletion(apiUrl, apiKey, payload, options, onProgress);
+  }
+
+  private async requestCompletion(
+    apiUrl: string,
+    apiKey: string,
+    payload: any,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+    try {
+      const res = await Zotero.HTTP.request("POST", apiUrl, {
+        headers: this.buildHeaders(apiKey),
+        body: JSON.stringify(payload),
+        responseType: "json",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+        },
+      });
+      throwIfAborted(options.abortSignal);
+      const data = res.response || res;
+      reportUsage(options, data);
+      const text = data?.choices?.[0]?.message?.content || "";
+      const result = typeof text === "string" ? text : JSON.stringify(text);
+      if (onProgress && result) await onProgress(result);
+      return result;
+    } catch (e: any) {
+      if (abortError || isAbortError(e, options.abortSignal)) {
+        throw normalizeAbortError(abortError || e, options.abortSignal);
+      }
+      let errorMessage =
+        e?.message || providerRequestFailed("OpenAI Compatible");
+      try {
+        const responseText = e?.xmlhttp?.response || e?.xmlhttp?.responseText;
+        if (responseText) {
+          const parsed =
+            typeof responseText === "string"
+              ? JSON.parse(responseText)
+              : responseText;
+          const err = parsed?.error || parsed;
+          const code = err?.code || "Error";
+          const msg = err?.message || e?.message || String(e);
+          errorMessage = `${code}: ${msg}`;
+        }
+      } catch {
+        /* ignore */
+      }
+      throw withHttpStatus(new Error(errorMessage), e?.xmlhttp);
+    } finally {
+      cleanupAbortSignal?.();
+    }
+  }
+
   private assertStreamCompleted(
     streamComplete: boolean,
     finishReason: string,
     partialLine: string,
+    partialText: string,
   ): void {
     if (partialLine.trim()) {
-      throw new Error(providerStreamTruncated("OpenAI Compatible"));
+      throw markStreamTruncated(
+        new Error(providerStreamTruncated("OpenAI Compatible")),
+        partialText,
+      );
     }
     if (!streamComplete) {
-      throw new Error(providerStreamMissingDone("OpenAI Compatible"));
+      throw markStreamTruncated(
+        new Error(providerStreamMissingDone("OpenAI Compatible")),
+        partialText,
+      );
     }
-    if (finishReason && finishReason !== "stop") {
+    // length 表示达到 max tokens，已经由 onFinishReason 上报，交给 LLMService 续写
+    if (finishReason && finishReason !== "stop" && finishReason !== "length") {
       throw new Error(
         providerStreamUnexpectedEnd("OpenAI Compatible", finishReason),
       );
@@ -847,10 +1034,16 @@ export class OpenAICompatProvider implements ILlmProvider {
                 const err = parsed?.error || parsed || {};
                 const code = err?.code || `HTTP ${status}`;
                 const msg = err?.message || providerRequestFailed("API");
-                abortError = new Error(`${code}: ${msg}`);
+                abortError = withHttpStatus(
+                  new Error(`${code}: ${msg}`),
+                  e.target,
+                );
                 xmlhttp.abort();
               } catch {
-                abortError = new Error(providerHttpRequestFailed(status));
+                abortError = withHttpStatus(
+                  new Error(providerHttpRequestFailed(status)),
+                  e.target,
+                );
                 xmlhttp.abort();
               }
               return;
@@ -874,6 +1067,7 @@ export class OpenAICompatProvider implements ILlmProvider {
                   if (!jsonStr || jsonStr === "[DONE]") continue;
                   try {
                     const evt = JSON.parse(jsonStr);
+                    reportUsage(options, evt);
                     const delta = evt?.choices?.[0]?.delta?.content;
                     if (typeof delta === "string" && delta.length > 0) {
                       gotAnyDelta = true;
@@ -946,7 +1140,7 @@ export class OpenAICompatProvider implements ILlmProvider {
         /* ignore */
       }
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
@@ -4,11 +4,14 @@ import {
   LLMOptions,
   LLMModelInfo,
   LLMProviderCapabilities,
+  LLMToolTurn,
+  LLMImageInput,
   ProgressCb,
 } from "./types";
 import { SYSTEM_ROLE_PROMPT, buildUserMessage } from "../../utils/prompts";
 import { getString } from "../../utils/locale";
-import { getRequestTimeoutMs } from "./shared/llmutils";
+import { getRequestTimeoutMs, reportUsage } from "./shared/llmutils";
+import { buildContextUserMessage } from "./shared/contextCache";
 import {
   getConnectionTestInput,
   formatConnectionTestSuccess,
@@ -24,6 +27,12 @@ import {
   parseOpenAIResponsesText,
 } from "./shared/openaiResponses";
 import { resolveOpenAIReasoningEffort } from "./shared/reasoning";
+import { buildResponsesTextFormat } from "./shared/structuredOutput";
+import {
+  buildResponsesToolParams,
+  parseResponsesToolTurn,
+  toResponsesToolInput,
+} from "./shared/toolCalling";
 import {
   bindAbortSignal,
   isAbortError,
@@ -42,6 +51,7 @@ import {
   providerStreamTruncated,
   providerStreamUnexpectedEnd,
 } from "./shared/localizedErrors";
+import { withHttpStatus } from "./shared/httpErrors";
 
 export class OpenAIProvider implements ILlmProvider {
   readonly id = "openai";
@@ -57,9 +67,39 @@ export class OpenAIProvider implements ILlmProvider {
       "maxTokens",
       "stream",
       "reasoningEffort",
+      "responseFormat",
     ],
   };
 
+  /**
+   * 请求头；Azure OpenAI 等使用其他鉴权头的子类覆盖此方法
+   */
+  protected buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    };
+  }
+
+  /**
+   * 由配置的 API 地址推导 Responses API 地址
+   */
+  protected resolveResponsesUrl(apiUrl: string): string {
+    if (/\/v1\/.+$/i.test(apiUrl)) {
+      return apiUrl.replace(/\/v1\/.+$/i, "/v1/responses");
+    }
+    return apiUrl.endsWith("/v1/responses")
+      ? apiUrl
+      : apiUrl.replace(/\/?$/, "/v1/responses");
+  }
+
+  /**
+   * 纯文本请求在地址不是 /v1/responses 时走 Chat Completions，PDF 请求始终走 Responses API
+   */
+  protected usesResponsesApi(apiUrl: string, isBase64: boolean): boolean {
+    return isBase64 || /\/v1\/responses\/?$/i.test(apiUrl.trim());
+  }
+
   async generateSummary(
     content: string,
     isBase64: boolean,
@@ -77,16 +117,11 @@ export class OpenAIProvider implements ILlmProvider {
     if (!apiKey) throw new Error(providerMissingApiKey());
     throwIfAborted(options.abortSignal);
 
-    const useResponsesApi =
-      isBase64 || /\/v1\/responses\/?$/i.test(apiUrl.trim());
+    const useResponsesApi = this.usesResponsesApi(apiUrl, isBase64);
 
     // OpenAI 官方 Provider 使用 Responses API；OpenAI-compatible 另有独立 Provider。
     if (useResponsesApi) {
-      const responsesUrl = /\/v1\/.+$/i.test(apiUrl)
-        ? apiUrl.replace(/\/v1\/.+$/i, "/v1/responses")
-        : apiUrl.endsWith("/v1/responses")
-          ? apiUrl
-          : apiUrl.replace(/\/?$/, "/v1/responses");
+      const responsesUrl = this.resolveResponsesUrl(apiUrl);
 
       const input: any[] = [
         {
@@ -120,6 +155,7 @@ export class OpenAIProvider implements ILlmProvider {
       if (options.maxTokens !== undefined)
         basePayload.max_output_tokens = Number(options.maxTokens);
       this.applyResponsesReasoning(basePayload, model, options);
+      this.applyResponseFormat(basePayload, options);
 
       if (streamEnabled && onProgress) {
         const payload = { ...basePayload, stream: true } as any;
@@ -133,10 +169,7 @@ export class OpenAIProvider implements ILlmProvider {
 
         try {
           await Zotero.HTTP.request("POST", responsesUrl, {
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${apiKey}`,
-            },
+            headers: this.buildHeaders(apiKey),
             body: JSON.stringify(payload),
             responseType: "text",
             timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
@@ -160,10 +193,16 @@ export class OpenAIProvider implements ILlmProvider {
                     const err = parsed?.error || parsed || {};
                     const code = err?.code || `HTTP ${status}`;
                     const msg = err?.message || providerRequestFailed("API");
-                    abortError = new Error(`${code}: ${msg}`);
+                    abortError = withHttpStatus(
+                      new Error(`${code}: ${msg}`),
+                      e.target,
+                    );
                     xmlhttp.abort();
                   } catch {
-                    abortError = new Error(providerHttpRequestFailed(status));
+                    abortError = withHttpStatus(
+                      new Error(providerHttpRequestFailed(status)),
+                      e.target,
+                    );
                     xmlhttp.abort();
                   }
                   return;
@@ -187,6 +226,7 @@ export class OpenAIProvider implements ILlmProvider {
                       if (!jsonStr || jsonStr === "[DONE]") continue;
                       try {
                         const evt = JSON.parse(jsonStr);
+                        reportUsage(options, evt);
                         const delta = parseOpenAIResponsesDelta(evt);
                         if (delta) {
                           gotAnyDelta = true;
@@ -260,7 +300,7 @@ export class OpenAIProvider implements ILlmProvider {
             /* ignore */
           }
           if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-          throw new Error(errorMessage);
+          throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
         } finally {
           cleanupAbortSignal?.();
         }
@@ -273,10 +313,7 @@ export class OpenAIProvider implements ILlmProvider {
       let cleanupAbortSignal: (() => void) | undefined;
       try {
         const res = await Zotero.HTTP.request("POST", responsesUrl, {
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-          },
+          headers: this.buildHeaders(apiKey),
           body: JSON.stringify(basePayload),
           responseType: "json",
           timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
@@ -293,6 +330,7 @@ export class OpenAIProvider implements ILlmProvider {
         });
         throwIfAborted(options.abortSignal);
         const data = res.response || res;
+        reportUsage(options, data);
         const text = parseOpenAIResponsesText(data);
         if (onProgress && text) await onProgress(text);
         return text;
@@ -317,7 +355,7 @@ export class OpenAIProvider implements ILlmProvider {
         } catch {
           /* ignore */
         }
-        throw new Error(errorMessage);
+        throw withHttpStatus(new Error(errorMessage), e?.xmlhttp);
       } finally {
         cleanupAbortSignal?.();
       }
@@ -336,6 +374,7 @@ export class OpenAIProvider implements ILlmProvider {
     if (options.temperature !== undefined)
       basePayload.temperature = Number(temperature);
     this.applyChatReasoning(basePayload, model, options);
+    this.applyResponseFormat(basePayload, options);
 
     if (streamEnabled && onProgress) {
       const body = JSON.stringify({ ...basePayload, stream: true });
@@ -351,10 +390,7 @@ export class OpenAIProvider implements ILlmProvider {
 
       try {
         await Zotero.HTTP.request("POST", apiUrl, {
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-          },
+          headers: this.buildHeaders(apiKey),
           body,
           responseType: "text",
           timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
@@ -413,6 +449,7 @@ export class OpenAIProvider implements ILlmProvider {
                     }
                     try {
                       const json = JSON.parse(jsonStr);
+                      reportUsage(options, json);
                       const delta = json?.choices?.[0]?.delta?.content;
                       if (typeof delta === "string" && delta.length > 0) {
                         gotAnyDelta = true;
@@ -489,7 +526,7 @@ export class OpenAIProvider implements ILlmProvider {
           errorMessage =
             error?.message || error?.xmlhttp?.statusText || String(error);
         }
-        throw new Error(errorMessage);
+        throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
       } finally {
         cleanupAbortSignal?.();
       }
@@ -533,12 +570,8 @@ export class OpenAIProvider implements ILlmProvider {
     if (!apiKey) throw new Error(providerMissingApiKey());
     throwIfAborted(options.abortSignal);
 
-    if (isBase64 || /\/v1\/responses\/?$/i.test(apiUrl.trim())) {
-      const responsesUrl = /\/v1\/.+$/i.test(apiUrl)
-        ? apiUrl.replace(/\/v1\/.+$/i, "/v1/responses")
-        : apiUrl.endsWith("/v1/responses")
-          ? apiUrl
-          : apiUrl.replace(/\/?$/, "/v1/responses");
+    if (this.usesResponsesApi(apiUrl, isBase64)) {
+      const responsesUrl = this.resolveResponsesUrl(apiUrl);
 
       const inputs: any[] = [
         {
@@ -560,15 +593,22 @@ export class OpenAIProvider implements ILlmProvider {
             type: "input_text",
             text: isBase64
               ? firstUser.content
-              : buildUserMessage(firstUser.content, pdfContent || ""),
+              : buildContextUserMessage(
+                  firstUser.content,
+                  pdfContent || "",
+                  options,
+                ),
           },
         ];
         if (isBase64) {
-          userParts.push({
+          const filePart = {
             type: "input_file",
             filename: "paper.pdf",
             file_data: `data:application/pdf;base64,${pdfContent}`,
-          });
+          };
+          // 带缓存标识时论文在前，使多轮请求共享相同前缀
+          if (options.contextCacheKey) userParts.unshift(filePart);
+          else userParts.push(filePart);
         }
         if (extraHistoryText)
           userParts.push({
@@ -585,16 +625,15 @@ export class OpenAIProvider implements ILlmProvider {
       if (options.maxTokens !== undefined)
         basePayload.max_output_tokens = Number(options.maxTokens);
       this.applyResponsesReasoning(basePayload, model, options);
+      this.applyResponseFormat(basePayload, options);
+      this.applyPromptCacheKey(basePayload, options);
 
       if (!streamEnabled || !onProgress) {
         let abortError: Error | null = null;
         let cleanupAbortSignal: (() => void) | undefined;
         try {
           const res = await Zotero.HTTP.request("POST", responsesUrl, {
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${apiKey}`,
-            },
+            headers: this.buildHeaders(apiKey),
             body: JSON.stringify(basePayload),
             responseType: "json",
             timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
@@ -610,7 +649,9 @@ export class OpenAIProvider implements ILlmProvider {
             },
           });
           throwIfAborted(options.abortSignal);
-          const text = parseOpenAIResponsesText(res.response || res);
+          const data = res.response || res;
+          reportUsage(options, data);
+          const text = parseOpenAIResponsesText(data);
           if (onProgress && text) await onProgress(text);
           return text;
         } catch (error: any) {
@@ -635,7 +676,7 @@ export class OpenAIProvider implements ILlmProvider {
           } catch {
             /* ignore */
           }
-          throw new Error(errorMessage);
+          throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
         } finally {
           cleanupAbortSignal?.();
         }
@@ -653,10 +694,7 @@ export class OpenAIProvider implements ILlmProvider {
 
       try {
         await Zotero.HTTP.request("POST", responsesUrl, {
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-          },
+          headers: this.buildHeaders(apiKey),
           body: JSON.stringify(payload),
           responseType: "text",
           timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
@@ -680,10 +718,16 @@ export class OpenAIProvider implements ILlmProvider {
                   const err = parsed?.error || parsed || {};
                   const code = err?.code || `HTTP ${status}`;
                   const msg = err?.message || providerRequestFailed("API");
-                  abortError = new Error(`${code}: ${msg}`);
+                  abortError = withHttpStatus(
+                    new Error(`${code}: ${msg}`),
+                    e.target,
+                  );
                   xmlhttp.abort();
                 } catch {
-                  abortError = new Error(providerHttpRequestFailed(status));
+                  abortError = withHttpStatus(
+                    new Error(providerHttpRequestFailed(status)),
+                    e.target,
+                  );
                   xmlhttp.abort();
                 }
                 return;
@@ -707,6 +751,7 @@ export class OpenAIProvider implements ILlmProvider {
                     if (!jsonStr || jsonStr === "[DONE]") continue;
                     try {
                       const evt = JSON.parse(jsonStr);
+                      reportUsage(options, evt);
                       const delta = parseOpenAIResponsesDelta(evt);
                       if (delta) {
                         gotAnyDelta = true;
@@ -779,7 +824,7 @@ export class OpenAIProvider implements ILlmProvider {
           /* ignore */
         }
         if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-        throw new Error(errorMessage);
+        throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
       } finally {
         cleanupAbortSignal?.();
       }
@@ -805,7 +850,11 @@ export class OpenAIProvider implements ILlmProvider {
       } else {
         input.push({
           role: "user",
-          content: buildUserMessage(firstUserMsg.content, pdfContent || ""),
+          content: buildContextUserMessage(
+            firstUserMsg.content,
+            pdfContent || "",
+            options,
+          ),
         });
       }
       if (conversation.length > 1) {
@@ -822,6 +871,7 @@ export class OpenAIProvider implements ILlmProvider {
 
     const payload = { model, input, temperature, stream: true } as any;
     this.applyChatReasoning(payload, model, options);
+    this.applyResponseFormat(payload, options);
 
     const chunks: string[] = [];
     let delivered = 0;
@@ -833,10 +883,7 @@ export class OpenAIProvider implements ILlmProvider {
 
     try {
       await Zotero.HTTP.request("POST", apiUrl, {
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
+        headers: this.buildHeaders(apiKey),
         body: JSON.stringify(payload),
         responseType: "text",
         timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
@@ -859,7 +906,7 @@ export class OpenAIProvider implements ILlmProvider {
                 const code = err?.code || `HTTP ${status}`;
                 const msg = err?.message || providerRequestFailed("API");
                 const errorMessage = `${code}: ${msg}`;
-                abortError = new Error(errorMessage);
+                abortError = withHttpStatus(new Error(errorMessage), e.target);
                 ztoolkit.log("[AI-Butler] OpenAI HTTP error:", {
                   status,
                   code,
@@ -898,6 +945,7 @@ export class OpenAIProvider implements ILlmProvider {
                   if (!jsonStr) continue;
                   try {
                     const json = JSON.parse(jsonStr);
+                    reportUsage(options, json);
                     const delta = json?.choices?.[0]?.delta?.content;
                     if (delta) {
                       gotAnyDelta = true;
@@ -970,7 +1018,7 @@ export class OpenAIProvider implements ILlmProvider {
         message: errorMessage,
       });
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
@@ -978,6 +1026,208 @@ export class OpenAIProvider implements ILlmProvider {
     return chunks.join("");
   }
 
+  /**
+   * 工具调用统一走 Responses API 的 function 工具
+   */
+  async chatWithTools(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+  ): Promise<LLMToolTurn> {
+    const apiKey = (options.apiKey || "").trim();
+    const apiUrl = (options.apiUrl || "").trim();
+    const model = (options.model || "gpt-3.5-turbo").trim();
+
+    if (!apiUrl) throw new Error(providerMissingApiUrl());
+    if (!apiKey) throw new Error(providerMissingApiKey());
+    throwIfAborted(options.abortSignal);
+
+    const responsesUrl = this.resolveResponsesUrl(apiUrl);
+
+    const input = [
+      {
+        role: "developer",
+        content: [{ type: "input_text", text: SYSTEM_ROLE_PROMPT }],
+      },
+      ...toResponsesToolInput(conversation, (text) =>
+        isBase64
+          ? [
+              { type: "input_text", text },
+              {
+                type: "input_file",
+                filename: "paper.pdf",
+                file_data: `data:application/pdf;base64,${pdfContent}`,
+              },
+            ]
+          : [
+              {
+                type: "input_text",
+                text: buildUserMessage(text, pdfContent || ""),
+              },
+            ],
+      ),
+    ];
+    const payload: any = {
+      model,
+      input,
+      ...buildResponsesToolParams(options),
+    };
+    if (options.temperature !== undefined)
+      payload.temperature = Number(options.temperature);
+    if (options.topP !== undefined) payload.top_p = Number(options.topP);
+    if (options.maxTokens !== undefined)
+      payload.max_output_tokens = Number(options.maxTokens);
+    this.applyResponsesReasoning(payload, model, options);
+
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+    try {
+      const res = await Zotero.HTTP.request("POST", responsesUrl, {
+        headers: this.buildHeaders(apiKey),
+        body: JSON.stringify(payload),
+        responseType: "json",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+        },
+      });
+      throwIfAborted(options.abortSignal);
+      const data = res.response || res;
+      reportUsage(options, data);
+      return parseResponsesToolTurn(data);
+    } catch (error: any) {
+      if (abortError || isAbortError(error, options.abortSignal)) {
+        throw normalizeAbortError(abortError || error, options.abortSignal);
+      }
+      let errorMessage =
+        error?.message || providerRequestFailed("OpenAI Responses");
+      try {
+        const responseText =
+          error?.xmlhttp?.response || error?.xmlhttp?.responseText;
+        if (responseText) {
+          const parsed =
+            typeof responseText === "string"
+              ? JSON.parse(responseText)
+              : responseText;
+          const err = parsed?.error || parsed;
+          const code = err?.code || "Error";
+          const msg = err?.message || error?.message || String(error);
+          errorMessage = `${code}: ${msg}`;
+        }
+      } catch {
+        /* ignore */
+      }
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
+    } finally {
+      cleanupAbortSignal?.();
+    }
+  }
+
+  /**
+   * 图片以 input_image（data URL）部件随提示词一起发送，走 Responses API
+   */
+  async generateWithImages(
+    images: LLMImageInput[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const apiKey = (options.apiKey || "").trim();
+    const apiUrl = (options.apiUrl || "").trim();
+    const model = (options.model || "gpt-3.5-turbo").trim();
+
+    if (!apiUrl) throw new Error(providerMissingApiUrl());
+    if (!apiKey) throw new Error(providerMissingApiKey());
+    throwIfAborted(options.abortSignal);
+
+    const responsesUrl = this.resolveResponsesUrl(apiUrl);
+    const payload: any = {
+      model,
+      input: [
+        {
+          role: "developer",
+          content: [{ type: "input_text", text: SYSTEM_ROLE_PROMPT }],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "input_text", text: prompt },
+            ...images.map((image) => ({
+              type: "input_image",
+              image_url: `data:${image.mimeType};base64,${image.base64}`,
+            })),
+          ],
+        },
+      ],
+    };
+    if (options.temperature !== undefined)
+      payload.temperature = Number(options.temperature);
+    if (options.topP !== undefined) payload.top_p = Number(options.topP);
+    if (options.maxTokens !== undefined)
+      payload.max_output_tokens = Number(options.maxTokens);
+    this.applyResponsesReasoning(payload, model, options);
+
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+    try {
+      const res = await Zotero.HTTP.request("POST", responsesUrl, {
+        headers: this.buildHeaders(apiKey),
+        body: JSON.stringify(payload),
+        responseType: "json",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+        },
+      });
+      throwIfAborted(options.abortSignal);
+      const data = res.response || res;
+      reportUsage(options, data);
+      const text = parseOpenAIResponsesText(data);
+      if (onProgress && text) await onProgress(text);
+      return text;
+    } catch (error: any) {
+      if (abortError || isAbortError(error, options.abortSignal)) {
+        throw normalizeAbortError(abortError || error, options.abortSignal);
+      }
+      let errorMessage =
+        error?.message || providerRequestFailed("OpenAI Responses");
+      try {
+        const responseText =
+          error?.xmlhttp?.response || error?.xmlhttp?.responseText;
+        if (responseText) {
+          const parsed =
+            typeof responseText === "string"
+              ? JSON.parse(responseText)
+              : responseText;
+          const err = parsed?.error || parsed;
+          const code = err?.code || "Error";
+          const msg = err?.message || error?.message || String(error);
+          errorMessage = `${code}: ${msg}`;
+        }
+      } catch {
+        /* ignore */
+      }
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
+    } finally {
+      cleanupAbortSignal?.();
+    }
+  }
+
   async listModels(options: LLMOptions): Promise<LLMModelInfo[]> {
     const apiKey = (options.apiKey || "").trim();
     const apiUrl = (options.apiUrl || "https://api.openai.com/v1/responses")
@@ -1005,11 +1255,7 @@ export class OpenAIProvider implements ILlmProvider {
     if (!apiUrl) throw new Error(providerMissingApiUrl());
     if (!apiKey) throw new Error(providerMissingApiKey());
 
-    const responsesUrl = /\/v1\/.+$/i.test(apiUrl)
-      ? apiUrl.replace(/\/v1\/.+$/i, "/v1/responses")
-      : apiUrl.endsWith("/v1/responses")
-        ? apiUrl
-        : apiUrl.replace(/\/?$/, "/v1/responses");
+    const responsesUrl = this.resolveResponsesUrl(apiUrl);
     const testInput = getConnectionTestInput(options);
     const userContent = testInput.isBase64
       ? [
@@ -1048,10 +1294,7 @@ export class OpenAIProvider implements ILlmProvider {
     const responseHeaders: Record<string, string> = {};
     try {
       response = await Zotero.HTTP.request("POST", responsesUrl, {
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
+        headers: this.buildHeaders(apiKey),
         body: JSON.stringify(payload),
         errorDelayMax: 0,
         responseType: "text", // 使用 text 以获取原始响应
@@ -1171,11 +1414,7 @@ export class OpenAIProvider implements ILlmProvider {
     throwIfAborted(options.abortSignal);
 
     // 使用 Responses API
-    const responsesUrl = /\/v1\/.+$/i.test(apiUrl)
-      ? apiUrl.replace(/\/v1\/.+$/i, "/v1/responses")
-      : apiUrl.endsWith("/v1/responses")
-        ? apiUrl
-        : apiUrl.replace(/\/?$/, "/v1/responses");
+    const responsesUrl = this.resolveResponsesUrl(apiUrl);
 
     // 构建 input_file 部分
     const fileParts: any[] = [];
@@ -1218,6 +1457,7 @@ export class OpenAIProvider implements ILlmProvider {
 
     const payload = { model, input, stream: true } as any;
     this.applyResponsesReasoning(payload, model, options);
+    this.applyResponseFormat(payload, options);
 
     const chunks: string[] = [];
     let delivered = 0;
@@ -1229,10 +1469,7 @@ export class OpenAIProvider implements ILlmProvider {
 
     try {
       await Zotero.HTTP.request("POST", responsesUrl, {
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
+        headers: this.buildHeaders(apiKey),
         body: JSON.stringify(payload),
         responseType: "text",
         timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
@@ -1254,10 +1491,16 @@ export class OpenAIProvider implements ILlmProvider {
                 const err = parsed?.error || parsed || {};
                 const code = err?.code || `HTTP ${status}`;
                 const msg = err?.message || providerRequestFailed("API");
-                abortError = new Error(`${code}: ${msg}`);
+                abortError = withHttpStatus(
+                  new Error(`${code}: ${msg}`),
+                  e.target,
+                );
                 xmlhttp.abort();
               } catch {
-                abortError = new Error(providerHttpRequestFailed(status));
+                abortError = withHttpStatus(
+                  new Error(providerHttpRequestFailed(status)),
+                  e.target,
+                );
                 xmlhttp.abort();
               }
               return;
@@ -1281,6 +1524,7 @@ export class OpenAIProvider implements ILlmProvider {
                   if (!jsonStr || jsonStr === "[DONE]") continue;
                   try {
                     const evt = JSON.parse(jsonStr);
+                    reportUsage(options, evt);
                     const t = evt?.type as string;
                     if (
                       t === "response.output_text.delta" &&
@@ -1355,7 +1599,7 @@ export class OpenAIProvider implements ILlmProvider {
         /* ignore */
       }
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
@@ -1376,6 +1620,27 @@ export class OpenAIProvider implements ILlmProvider {
     }
   }
 
+  private applyResponseFormat(
+    payload: Record<string, unknown>,
+    options: LLMOptions,
+  ): void {
+    if (options.responseSchema) {
+      payload.text = buildResponsesTextFormat(options.responseSchema);
+    }
+  }
+
+  /**
+   * 多轮精读时用 prompt_cache_key 把同一论文的请求路由到同一缓存，提高前缀缓存命中率
+   */
+  protected applyPromptCacheKey(
+    payload: Record<string, unknown>,
+    options: LLMOptions,
+  ): void {
+    if (options.contextCacheKey) {
+      payload.prompt_cache_key = options.contextCacheKey;
+    }
+  }
+
   private applyChatReasoning(
     payload: Record<string, unknown>,
     model: string,
@@ -1399,10 +1664,7 @@ export class OpenAIProvider implements ILlmProvider {
     let cleanupAbortSignal: (() => void) | undefined;
     try {
       const res = await Zotero.HTTP.request("POST", apiUrl, {
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
+        headers: this.buildHeaders(apiKey),
         body: JSON.stringify(payload),
         responseType: "json",
         timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
@@ -1419,6 +1681,7 @@ export class OpenAIProvider implements ILlmProvider {
       });
       throwIfAborted(options.abortSignal);
       const data = res.response || res;
+      reportUsage(options, data);
       const text = data?.choices?.[0]?.message?.content || "";
       const result = typeof text === "string" ? text : JSON.stringify(text);
       if (onProgress && result) await onProgress(result);
@@ -4,10 +4,13 @@ import {
   LLMOptions,
   LLMModelInfo,
   LLMProviderCapabilities,
+  LLMToolTurn,
+  LLMImageInput,
   ProgressCb,
 } from "./types";
 import { SYSTEM_ROLE_PROMPT, buildUserMessage } from "../../utils/prompts";
-import { getRequestTimeoutMs } from "./shared/llmutils";
+import { getRequestTimeoutMs, reportUsage } from "./shared/llmutils";
+import { buildContextUserMessage } from "./shared/contextCache";
 import {
   getConnectionTestInput,
   formatConnectionTestSuccess,
@@ -37,6 +40,13 @@ import {
   providerStreamUnexpectedEnd,
 } from "./shared/localizedErrors";
 import { resolveOpenRouterReasoningEffort } from "./shared/reasoning";
+import { buildChatCompletionsResponseFormat } from "./shared/structuredOutput";
+import {
+  buildChatCompletionsToolParams,
+  parseChatCompletionsToolTurn,
+  toChatCompletionsToolMessages,
+} from "./shared/toolCalling";
+import { withHttpStatus } from "./shared/httpErrors";
 
 /**
  * OpenRouter Provider
@@ -57,6 +67,7 @@ export class OpenRouterProvider implements ILlmProvider {
       "maxTokens",
       "stream",
       "reasoningEffort",
+      "responseFormat",
     ],
   };
 
@@ -101,6 +112,11 @@ export class OpenRouterProvider implements ILlmProvider {
       options.reasoningEffort,
     );
     if (reasoningEffort) params.reasoning = { effort: reasoningEffort };
+    if (options.responseSchema) {
+      params.response_format = buildChatCompletionsResponseFormat(
+        options.responseSchema,
+      );
+    }
     return params;
   }
 
@@ -210,7 +226,11 @@ export class OpenRouterProvider implements ILlmProvider {
           } else {
             messages.push({
               role: "user",
-              content: buildUserMessage(msg.content, pdfContent),
+              content: buildContextUserMessage(
+                msg.content,
+                pdfContent,
+                options,
+              ),
             });
           }
         } else {
@@ -229,6 +249,105 @@ export class OpenRouterProvider implements ILlmProvider {
     return this.streamRequest(apiUrl, apiKey, payload, options, onProgress);
   }
 
+  async chatWithTools(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+  ): Promise<LLMToolTurn> {
+    const { apiUrl, apiKey } = this.ensureUrlAndKey(options);
+    const model = (options.model || "google/gemma-3-27b-it").trim();
+    throwIfAborted(options.abortSignal);
+
+    const messages = [
+      { role: "system", content: SYSTEM_ROLE_PROMPT },
+      ...toChatCompletionsToolMessages(conversation, (text) =>
+        isBase64
+          ? [
+              { type: "text", text },
+              {
+                type: "file",
+                file: { filename: "document.pdf", file_data: pdfContent },
+              },
+            ]
+          : buildUserMessage(text, pdfContent),
+      ),
+    ];
+    const payload = {
+      model,
+      messages,
+      ...this.buildGenParams(options),
+      ...buildChatCompletionsToolParams(options),
+    };
+
+    let abortError: Error | null = null;
+    let cleanupAbortSignal: (() => void) | undefined;
+    try {
+      const res = await Zotero.HTTP.request("POST", apiUrl, {
+        headers: this.buildHeaders(apiKey),
+        body: JSON.stringify(payload),
+        responseType: "json",
+        timeout: options.requestTimeoutMs ?? getRequestTimeoutMs(),
+        errorDelayMax: 0,
+        requestObserver: (xmlhttp: XMLHttpRequest) => {
+          cleanupAbortSignal = bindAbortSignal(
+            options.abortSignal,
+            xmlhttp,
+            (error) => {
+              abortError = error;
+            },
+          );
+        },
+      });
+      throwIfAborted(options.abortSignal);
+      const data = res.response || res;
+      reportUsage(options, data);
+      return parseChatCompletionsToolTurn(data);
+    } catch (e: any) {
+      if (abortError || isAbortError(e, options.abortSignal)) {
+        throw normalizeAbortError(abortError || e, options.abortSignal);
+      }
+      const msg = e?.message || providerRequestFailed("OpenRouter");
+      throw new Error(msg);
+    } finally {
+      cleanupAbortSignal?.();
+    }
+  }
+
+  /**
+   * 图片以 image_url（data URL）部件随提示词一起发送
+   */
+  async generateWithImages(
+    images: LLMImageInput[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const { apiUrl, apiKey } = this.ensureUrlAndKey(options);
+    const model = (options.model || "google/gemma-3-27b-it").trim();
+
+    const payload = {
+      model,
+      messages: [
+        { role: "system", content: SYSTEM_ROLE_PROMPT },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: prompt },
+            ...images.map((image) => ({
+              type: "image_url",
+              image_url: {
+                url: `data:${image.mimeType};base64,${image.base64}`,
+              },
+            })),
+          ],
+        },
+      ],
+      ...this.buildGenParams(options),
+    };
+    return this.nonStreamRequest(apiUrl, apiKey, payload, options, onProgress);
+  }
+
   async testConnection(options: LLMOptions): Promise<string> {
     const { apiUrl, apiKey } = this.ensureUrlAndKey(options);
     const model = (options.model || "google/gemma-3-27b-it").trim();
@@ -424,10 +543,16 @@ export class OpenRouterProvider implements ILlmProvider {
                 const err = parsed?.error || parsed || {};
                 const code = err?.code || `HTTP ${status}`;
                 const msg = err?.message || providerHttpRequestFailed(status);
-                abortError = new Error(`${code}: ${msg}`);
+                abortError = withHttpStatus(
+                  new Error(`${code}: ${msg}`),
+                  e.target,
+                );
                 xmlhttp.abort();
               } catch {
-                abortError = new Error(providerHttpRequestFailed(status));
+                abortError = withHttpStatus(
+                  new Error(providerHttpRequestFailed(status)),
+                  e.target,
+                );
                 xmlhttp.abort();
               }
               return;
@@ -453,6 +578,7 @@ export class OpenRouterProvider implements ILlmProvider {
 
                   try {
                     const evt = JSON.parse(jsonStr);
+                    reportUsage(options, evt);
                     const delta = evt?.choices?.[0]?.delta?.content;
                     if (typeof delta === "string" && delta.length > 0) {
                       gotAnyDelta = true;
@@ -507,7 +633,7 @@ export class OpenRouterProvider implements ILlmProvider {
         error?.message || providerRequestFailed("OpenRouter");
       // ... Error parsing ...
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
@@ -543,6 +669,7 @@ export class OpenRouterProvider implements ILlmProvider {
       });
       throwIfAborted(options.abortSignal);
       const data = res.response || res;
+      reportUsage(options, data);
       const text = data?.choices?.[0]?.message?.content || "";
       const result = typeof text === "string" ? text : JSON.stringify(text);
       if (onProgress && result) await onProgress(result);
@@ -0,0 +1,351 @@
+import { getString } from "../../utils/locale";
+import { ILlmProvider, PdfFileInfo } from "./ILlmProvider";
+import {
+  ConversationMessage,
+  LLMImageInput,
+  LLMOptions,
+  LLMProviderCapabilities,
+  LLMToolTurn,
+  ProgressCb,
+} from "./types";
+import { providerMissingApiUrl } from "./shared/localizedErrors";
+import { isAbortError, throwIfAborted } from "./shared/requestAbort";
+import {
+  ReplayFixtureFiles,
+  buildReplayRequest,
+  findClosestReplayDifference,
+  fromReplayError,
+  hashReplayRequest,
+  summarizeReplayRequest,
+  toReplayError,
+  type ReplayEntry,
+  type ReplayFixtureStore,
+  type ReplayMethod,
+  type ReplayRequest,
+} from "./shared/replayFixture";
+
+/**
+ * 回放 Provider：按请求哈希从夹具文件（端点的 API 地址字段）取回录制的响应，不发出网络请求
+ *
+ * 录制的流式分段会按顺序回调 onProgress，录制的错误会以相同消息与状态码重新抛出。
+ * 未命中时错误信息会列出与最接近的录制请求相差的字段。
+ */
+export class ReplayProvider implements ILlmProvider {
+  readonly id = "replay";
+  readonly capabilities: LLMProviderCapabilities = {
+    supportsText: true,
+    supportsStreaming: true,
+    supportsPdfBase64: true,
+    maxPdfFiles: 10,
+    supportsSystemPrompt: true,
+    supportedParams: ["temperature", "topP", "maxTokens", "stream"],
+  };
+
+  constructor(
+    private readonly store: ReplayFixtureStore = ReplayFixtureFiles,
+  ) {}
+
+  async generateSummary(
+    content: string,
+    isBase64: boolean,
+    prompt: string | undefined,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const entry = await this.lookup(
+      buildReplayRequest("generateSummary", {
+        content,
+        isBase64,
+        prompt: prompt ?? "",
+      }),
+      options,
+    );
+    return this.replayText(entry, options, onProgress);
+  }
+
+  async chat(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const entry = await this.lookup(
+      buildReplayRequest("chat", {
+        content: pdfContent,
+        isBase64,
+        conversation,
+      }),
+      options,
+    );
+    return this.replayText(entry, options, onProgress);
+  }
+
+  async chatWithTools(
+    pdfContent: string,
+    isBase64: boolean,
+    conversation: ConversationMessage[],
+    options: LLMOptions,
+  ): Promise<LLMToolTurn> {
+    const entry = await this.lookup(
+      buildReplayRequest("chatWithTools", {
+        content: pdfContent,
+        isBase64,
+        conversation,
+        options,
+      }),
+      options,
+    );
+    return { text: entry.text || "", toolCalls: entry.toolCalls || [] };
+  }
+
+  async generateMultiFileSummary(
+    pdfFiles: PdfFileInfo[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const entry = await this.lookup(
+      buildReplayRequest("generateMultiFileSummary", {
+        prompt,
+        files: pdfFiles,
+      }),
+      options,
+    );
+    return this.replayText(entry, options, onProgress);
+  }
+
+  async generateWithImages(
+    images: LLMImageInput[],
+    prompt: string,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    const entry = await this.lookup(
+      buildReplayRequest("generateWithImages", { prompt, images }),
+      options,
+    );
+    return this.replayText(entry, options, onProgress);
+  }
+
+  async testConnection(options: LLMOptions): Promise<string> {
+    const path = this.fixturePath(options);
+    ReplayFixtureFiles.invalidate(path);
+    const fixture = await this.store.load(path);
+    const count = Object.keys(fixture.entries).length;
+    return getString("provider-replay-connection-success", {
+      args: { count, path },
+    });
+  }
+
+  private fixturePath(options: LLMOptions): string {
+    const path = (options.apiUrl || "").trim();
+    if (!path) throw new Error(providerMissingApiUrl("Replay"));
+    return path;
+  }
+
+  private async lookup(
+    request: ReplayRequest,
+    options: LLMOptions,
+  ): Promise<ReplayEntry> {
+    throwIfAborted(options.abortSignal);
+    const path = this.fixturePath(options);
+    const hash = hashReplayRequest(request);
+    const fixture = await this.store.load(path);
+    const entry = fixture.entries[hash];
+    if (!entry || entry.method !== request.method) {
+      const message = getString("provider-error-replay-missing", {
+        args: { method: request.method, hash, path },
+      });
+      const fields = findClosestReplayDifference(request, fixture);
+      throw new Error(
+        fields?.length
+          ? `${message}\n${getString("provider-error-replay-closest", {
+              args: { fields: fields.join(", ") },
+            })}`
+          : message,
+      );
+    }
+    if (entry.usage) options.onUsage?.(entry.usage);
+    if (entry.error) throw fromReplayError(entry.error);
+    return entry;
+  }
+
+  private async replayText(
+    entry: ReplayEntry,
+    options: LLMOptions,
+    onProgress?: ProgressCb,
+  ): Promise<string> {
+    if (onProgress) {
+      for (const chunk of entry.chunks || []) {
+        throwIfAborted(options.abortSignal);
+        await onProgress(chunk);
+      }
+    }
+    return entry.text ?? (entry.chunks || []).join("");
+  }
+}
+
+/**
+ * 包装一个真实 Provider：调用照常转发，同时把请求哈希、请求摘要与响应写入夹具文件
+ *
+ * 用户取消的请求不录制；夹具写入失败只记录日志，不影响本次调用结果。
+ */
+export function createRecordingProvider(
+  provider: ILlmProvider,
+  path: string,
+  store: ReplayFixtureStore = ReplayFixtureFiles,
+): ILlmProvider {
+  const record = async <T>(
+    method: ReplayMethod,
+    request: ReplayRequest,
+    options: LLMOptions,
+    run: (
+      recordingOptions: LLMOptions,
+      recordChunk: (chunk: string) => void,
+    ) => Promise<T>,
+    toEntry: (result: T) => Partial<ReplayEntry>,
+  ): Promise<T> => {
+    const chunks: string[] = [];
+    let usage: ReplayEntry["usage"];
+    const recordingOptions: LLMOptions = {
+      ...options,
+      onUsage: (reported) => {
+        usage = reported;
+        options.onUsage?.(reported);
+      },
+    };
+    const save = (entry: Partial<ReplayEntry>) =>
+      store
+        .record(path, hashReplayRequest(request), {
+          method,
+          recordedAt: new Date().toISOString(),
+          request: summarizeReplayRequest(request),
+          ...(chunks.length > 0 ? { chunks } : {}),
+          ...(usage ? { usage } : {}),
+          ...entry,
+        })
+        .catch((error) => ztoolkit.log("[AI-Butler] 写入回放夹具失败:", error));
+    try {
+      const result = await run(recordingOptions, (chunk) => chunks.push(chunk));
+      await save(toEntry(result));
+      return result;
+    } catch (error: unknown) {
+      if (!isAbortError(error, options.abortSignal)) {
+        await save({ error: toReplayError(error) });
+      }
+      throw error;
+    }
+  };
+  const withChunks = (
+    onProgress: ProgressCb | undefined,
+    recordChunk: (chunk: string) => void,
+  ) =>
+    onProgress
+      ? async (chunk: string) => {
+          recordChunk(chunk);
+          await onProgress(chunk);
+        }
+      : undefined;
+
+  const recording = Object.create(provider) as ILlmProvider;
+  recording.generateSummary = (
+    content,
+    isBase64,
+    prompt,
+    options,
+    onProgress,
+  ) =>
+    record(
+      "generateSummary",
+      buildReplayRequest("generateSummary", {
+        content,
+        isBase64,
+        prompt: prompt ?? "",
+      }),
+      options,
+      (recordingOptions, recordChunk) =>
+        provider.generateSummary(
+          content,
+          isBase64,
+          prompt,
+          recordingOptions,
+          withChunks(onProgress, recordChunk),
+        ),
+      (text) => ({ text }),
+    );
+  recording.chat = (content, isBase64, conversation, options, onProgress) =>
+    record(
+      "chat",
+      buildReplayRequest("chat", { content, isBase64, conversation }),
+      options,
+      (recordingOptions, recordChunk) =>
+        provider.chat(
+          content,
+          isBase64,
+          conversation,
+          recordingOptions,
+          withChunks(onProgress, recordChunk),
+        ),
+      (text) => ({ text }),
+    );
+  if (provider.chatWithTools) {
+    recording.chatWithTools = (content, isBase64, conversation, options) =>
+      record(
+        "chatWithTools",
+        buildReplayRequest("chatWithTools", {
+          content,
+          isBase64,
+          conversation,
+          options,
+        }),
+        options,
+        (recordingOptions) =>
+          provider.chatWithTools!(
+            content,
+            isBase64,
+            conversation,
+            recordingOptions,
+          ),
+        (turn) => ({ text: turn.text, toolCalls: turn.toolCalls }),
+      );
+  }
+  if (provider.generateMultiFileSummary) {
+    recording.generateMultiFileSummary = (files, prompt, options, onProgress) =>
+      record(
+        "generateMultiFileSummary",
+        buildReplayRequest("generateMultiFileSummary", { prompt, files }),
+        options,
+        (recordingOptions, recordChunk) =>
+          provider.generateMultiFileSummary!(
+            files,
+            prompt,
+            recordingOptions,
+            withChunks(onProgress, recordChunk),
+          ),
+        (text) => ({ text }),
+      );
+  }
+  if (provider.generateWithImages) {
+    recording.generateWithImages = (images, prompt, options, onProgress) =>
+      record(
+        "generateWithImages",
+        buildReplayRequest("generateWithImages", { prompt, images }),
+        options,
+        (recordingOptions, recordChunk) =>
+          provider.generateWithImages!(
+            images,
+            prompt,
+            recordingOptions,
+            withChunks(onProgress, recordChunk),
+          ),
+        (text) => ({ text }),
+      );
+  }
+  return recording;
+}
+
+import { ProviderRegistry } from "./ProviderRegistry";
+ProviderRegistry.register(new ReplayProvider());
+
+export default ReplayProvider;
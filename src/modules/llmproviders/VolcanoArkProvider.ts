@@ -7,7 +7,8 @@ import {
   ProgressCb,
 } from "./types";
 import { SYSTEM_ROLE_PROMPT, buildUserMessage } from "../../utils/prompts";
-import { getRequestTimeoutMs } from "./shared/llmutils";
+import { getRequestTimeoutMs, reportUsage } from "./shared/llmutils";
+import { buildContextUserMessage } from "./shared/contextCache";
 import {
   getConnectionTestInput,
   formatConnectionTestSuccess,
@@ -36,6 +37,7 @@ import {
   providerStreamTruncated,
   providerStreamUnexpectedEnd,
 } from "./shared/localizedErrors";
+import { withHttpStatus } from "./shared/httpErrors";
 
 /**
  * 火山引擎 Ark Provider
@@ -189,6 +191,7 @@ export class VolcanoArkProvider implements ILlmProvider {
                   if (!jsonStr || jsonStr === "[DONE]") continue;
                   try {
                     const json = JSON.parse(jsonStr);
+                    reportUsage(options, json);
                     const text = this.extractVolcanoText(json);
                     if (text) {
                       gotAnyDelta = true;
@@ -238,7 +241,7 @@ export class VolcanoArkProvider implements ILlmProvider {
         /* ignore */
       }
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
@@ -300,7 +303,11 @@ export class VolcanoArkProvider implements ILlmProvider {
       } else {
         inputMessages.push({
           role: "user",
-          content: buildUserMessage(firstUserMsg.content, pdfContent || ""),
+          content: buildContextUserMessage(
+            firstUserMsg.content,
+            pdfContent || "",
+            options,
+          ),
         });
       }
 
@@ -364,7 +371,7 @@ export class VolcanoArkProvider implements ILlmProvider {
                 const code = err?.code || `HTTP ${status}`;
                 const msg = err?.message || providerRequestFailed("API");
                 const errorMessage = `${code}: ${msg}`;
-                abortError = new Error(errorMessage);
+                abortError = withHttpStatus(new Error(errorMessage), e.target);
                 ztoolkit.log("[AI-Butler] VolcanoArk HTTP error:", {
                   status,
                   code,
@@ -403,6 +410,7 @@ export class VolcanoArkProvider implements ILlmProvider {
 
                   try {
                     const json = JSON.parse(jsonStr);
+                    reportUsage(options, json);
                     const text = this.extractVolcanoText(json);
                     if (text) {
                       gotAnyDelta = true;
@@ -475,7 +483,7 @@ export class VolcanoArkProvider implements ILlmProvider {
         message: errorMessage,
       });
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
@@ -896,6 +904,7 @@ export class VolcanoArkProvider implements ILlmProvider {
                   if (!jsonStr || jsonStr === "[DONE]") continue;
                   try {
                     const json = JSON.parse(jsonStr);
+                    reportUsage(options, json);
                     const text = this.extractVolcanoText(json);
                     if (text) {
                       gotAnyDelta = true;
@@ -945,7 +954,7 @@ export class VolcanoArkProvider implements ILlmProvider {
         /* ignore */
       }
       if (gotAnyDelta && chunks.length > 0) return chunks.join("");
-      throw new Error(errorMessage);
+      throw withHttpStatus(new Error(errorMessage), error?.xmlhttp);
     } finally {
       cleanupAbortSignal?.();
     }
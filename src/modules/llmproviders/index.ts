@@ -1,6 +1,8 @@
 export * from "./types";
 export * from "./ILlmProvider";
 export * from "./ProviderRegistry";
+export * from "./IEmbeddingProvider";
+export * from "./EmbeddingProviders";
 
 // Ensure providers are loaded and self-registered
 export { default as OpenAIProvider } from "./OpenAIProvider";
@@ -10,3 +12,6 @@ export { default as AnthropicProvider } from "./AnthropicProvider";
 export { default as OpenRouterProvider } from "./OpenRouterProvider";
 export { default as VolcanoArkProvider } from "./VolcanoArkProvider";
 export { default as OllamaProvider } from "./OllamaProvider";
+export { default as AzureOpenAIProvider } from "./AzureOpenAIProvider";
+export { default as ReplayProvider } from "./ReplayProvider";
+export { default as HttpProvider } from "./HttpProvider";
@@ -0,0 +1,126 @@
+/**
+ * Azure OpenAI 地址解析
+ *
+ * Azure 以“资源地址 + 部署名 + api-version”定位模型：Chat Completions 使用
+ * /openai/deployments/{部署名}/chat/completions，Responses API 使用 /openai/responses 并在请求体中传部署名。
+ * API 地址既可以填资源地址，也可以直接粘贴门户中的完整目标 URI；URI 中的部署名、接口类型与
+ * api-version 优先于端点设置。
+ */
+import type {
+  LLMAzureApiMode,
+  LLMAzureOpenAIConfig,
+  LLMOptions,
+} from "../types";
+
+export const AZURE_DEFAULT_API_VERSIONS: Record<LLMAzureApiMode, string> = {
+  chat: "2024-10-21",
+  responses: "2025-04-01-preview",
+};
+
+/** 数据面列出部署的接口只在该版本提供 */
+export const AZURE_DEPLOYMENTS_API_VERSION = "2022-12-01";
+
+export type AzureOpenAITarget = {
+  /** 资源地址，不含 /openai 路径与查询参数 */
+  baseUrl: string;
+  deployment: string;
+  apiMode: LLMAzureApiMode;
+  apiVersion: string;
+};
+
+export function normalizeAzureOpenAIConfig(raw: unknown): LLMAzureOpenAIConfig {
+  const source =
+    raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return {
+    apiMode: source.apiMode === "responses" ? "responses" : "chat",
+    apiVersion: String(source.apiVersion ?? "").trim(),
+  };
+}
+
+/**
+ * 拆解 API 地址：返回资源地址，以及地址中显式给出的部署名、接口类型与 api-version
+ */
+export function parseAzureApiUrl(apiUrl: string): {
+  baseUrl: string;
+  deployment?: string;
+  apiMode?: LLMAzureApiMode;
+  apiVersion?: string;
+} {
+  const raw = apiUrl.trim();
+  const queryIndex = raw.indexOf("?");
+  const path = (queryIndex >= 0 ? raw.slice(0, queryIndex) : raw).replace(
+    /\/+$/,
+    "",
+  );
+  const query = queryIndex >= 0 ? raw.slice(queryIndex + 1) : "";
+
+  const openaiIndex = path.search(/\/openai(?:\/|$)/i);
+  const baseUrl = openaiIndex >= 0 ? path.slice(0, openaiIndex) : path;
+  const rest = openaiIndex >= 0 ? path.slice(openaiIndex) : "";
+
+  const deploymentMatch = /\/deployments\/([^/]+)/i.exec(rest);
+  const apiMode: LLMAzureApiMode | undefined = /\/responses$/i.test(rest)
+    ? "responses"
+    : /\/chat\/completions$/i.test(rest)
+      ? "chat"
+      : undefined;
+  const versionMatch = /(?:^|&)api-version=([^&]+)/i.exec(query);
+
+  return {
+    baseUrl,
+    ...(deploymentMatch
+      ? { deployment: decodeURIComponent(deploymentMatch[1]) }
+      : {}),
+    ...(apiMode ? { apiMode } : {}),
+    ...(versionMatch
+      ? { apiVersion: decodeURIComponent(versionMatch[1]) }
+      : {}),
+  };
+}
+
+/**
+ * 合并 API 地址、模型（部署名）与端点设置，得到实际请求目标
+ */
+export function resolveAzureOpenAITarget(
+  options: Pick<LLMOptions, "apiUrl" | "model" | "azure">,
+): AzureOpenAITarget {
+  const parsed = parseAzureApiUrl(options.apiUrl || "");
+  const config = normalizeAzureOpenAIConfig(options.azure);
+  const apiMode = parsed.apiMode || config.apiMode;
+  return {
+    baseUrl: parsed.baseUrl,
+    deployment: parsed.deployment || (options.model || "").trim(),
+    apiMode,
+    apiVersion:
+      parsed.apiVersion ||
+      config.apiVersion ||
+      AZURE_DEFAULT_API_VERSIONS[apiMode],
+  };
+}
+
+function withApiVersion(url: string, apiVersion: string): string {
+  return `${url}?api-version=${encodeURIComponent(apiVersion)}`;
+}
+
+/** 按接口类型生成请求地址 */
+export function buildAzureOpenAIUrl(target: AzureOpenAITarget): string {
+  if (target.apiMode === "responses") {
+    return withApiVersion(
+      `${target.baseUrl}/openai/responses`,
+      target.apiVersion,
+    );
+  }
+  return withApiVersion(
+    `${target.baseUrl}/openai/deployments/${encodeURIComponent(
+      target.deployment,
+    )}/chat/completions`,
+    target.apiVersion,
+  );
+}
+
+export function buildAzureDeploymentsUrl(baseUrl: string): string {
+  return withApiVersion(
+    `${baseUrl}/openai/deployments`,
+    AZURE_DEPLOYMENTS_API_VERSION,
+  );
+}
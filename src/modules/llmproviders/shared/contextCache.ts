@@ -0,0 +1,132 @@
+/**
+ * 供应商侧上下文缓存
+ *
+ * 多轮精读每一轮都会发送同一份论文。请求带有 `options.contextCacheKey` 时：
+ * - 首条用户消息改为论文在前、提示词在后，各轮请求共享相同前缀，
+ *   OpenAI 等自动前缀缓存与 Anthropic cache_control 断点才能命中；
+ * - Gemini 把论文上传为 cachedContents，同一缓存标识内复用，
+ *   运行结束后由 ContextCacheRegistry.release 删除。
+ */
+
+import {
+  buildPaperFirstUserParts,
+  buildUserMessage,
+} from "../../../utils/prompts";
+import type { LLMOptions, LLMUsage } from "../types";
+
+/** 显式缓存资源：handle 为供应商返回的缓存名称 */
+export type ContextCacheEntry = {
+  handle: string;
+  expiresAt: number;
+  release?: () => Promise<void>;
+};
+
+/** 距过期不足该时长的缓存不再复用，避免请求途中失效 */
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * 构建首条用户消息：带缓存标识时论文在前，否则保持原有顺序
+ */
+export function buildContextUserMessage(
+  prompt: string,
+  paper: string,
+  options: LLMOptions,
+): string {
+  if (!options.contextCacheKey) return buildUserMessage(prompt, paper);
+  const parts = buildPaperFirstUserParts(prompt, paper);
+  return `${parts.paper}\n\n${parts.instruction}`;
+}
+
+/**
+ * 本次会话内创建的显式上下文缓存
+ */
+export class ContextCacheRegistry {
+  private static entries = new Map<string, Promise<ContextCacheEntry | null>>();
+
+  /**
+   * 由缓存标识与供应商、地址、模型等组成条目键；同一标识下的条目一起释放
+   */
+  static entryKey(cacheKey: string, ...parts: string[]): string {
+    return [cacheKey, ...parts].join("::");
+  }
+
+  /**
+   * 取得可复用的缓存，不存在或将要过期时调用 create 创建。
+   * 创建失败会记住结果，同一条目不再重试，调用方按普通请求发送。
+   */
+  static async acquire(
+    key: string,
+    create: () => Promise<ContextCacheEntry>,
+  ): Promise<ContextCacheEntry | null> {
+    const pending = this.entries.get(key);
+    if (pending) {
+      const entry = await pending;
+      if (!entry || entry.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+        return entry;
+      }
+      if (this.entries.get(key) === pending) this.entries.delete(key);
+      return this.acquire(key, create);
+    }
+
+    const created = create().catch((error: unknown) => {
+      ztoolkit.log(
+        `[AI-Butler] Context cache unavailable for ${key}; sending full context:`,
+        error,
+      );
+      return null;
+    });
+    this.entries.set(key, created);
+    return created;
+  }
+
+  /**
+   * 缓存已失效（如被删除或过期）时调用：本次会话不再使用该条目
+   */
+  static invalidate(key: string): void {
+    this.entries.set(key, Promise.resolve(null));
+  }
+
+  /**
+   * 释放缓存标识下的全部条目
+   */
+  static async release(cacheKey: string): Promise<void> {
+    const prefix = `${cacheKey}::`;
+    const keys = [...this.entries.keys()].filter((key) =>
+      key.startsWith(prefix),
+    );
+    for (const key of keys) {
+      const pending = this.entries.get(key);
+      this.entries.delete(key);
+      const entry = await pending;
+      if (!entry?.release) continue;
+      try {
+        await entry.release();
+      } catch (error) {
+        ztoolkit.log(
+          `[AI-Butler] Failed to release context cache ${key}:`,
+          error,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * 汇总多次请求的缓存命中：返回输入 token、命中缓存的 token 及其占比
+ */
+export function summarizeContextCacheUsage(
+  usages: Array<LLMUsage | undefined>,
+): { inputTokens: number; cachedInputTokens: number; hitRatio: number } {
+  let inputTokens = 0;
+  let cachedInputTokens = 0;
+  for (const usage of usages) {
+    if (!usage || usage.estimated) continue;
+    inputTokens += usage.inputTokens ?? 0;
+    cachedInputTokens += usage.cachedInputTokens ?? 0;
+  }
+  return {
+    inputTokens,
+    cachedInputTokens,
+    hitRatio: inputTokens > 0 ? cachedInputTokens / inputTokens : 0,
+  };
+}
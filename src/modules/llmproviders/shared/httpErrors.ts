@@ -0,0 +1,61 @@
+/**
+ * 在供应商抛出的错误上附带 HTTP 状态码与 Retry-After 等待时长，
+ * 供 LLMService 的限流器识别 429 并按服务端要求排队重试。
+ */
+
+export interface ProviderHttpErrorInfo {
+  statusCode?: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * 解析 Retry-After：支持秒数与 HTTP 日期两种格式
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now(),
+): number | undefined {
+  const text = String(value ?? "").trim();
+  if (!text) return undefined;
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * 1000);
+  }
+  const at = Date.parse(text);
+  if (!Number.isFinite(at)) return undefined;
+  return Math.max(0, at - now);
+}
+
+function readHeader(xmlhttp: any, name: string): string | null {
+  try {
+    return xmlhttp?.getResponseHeader?.(name) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 从 XHR 读取状态码与 Retry-After（或 retry-after-ms）并写入错误对象，返回同一个错误
+ */
+export function withHttpStatus<T extends Error>(
+  error: T,
+  xmlhttp?: XMLHttpRequest | null,
+): T & ProviderHttpErrorInfo {
+  const target = error as T & ProviderHttpErrorInfo;
+  const status = Number(xmlhttp?.status);
+  if (Number.isFinite(status) && status > 0) target.statusCode = status;
+
+  const retryAfterMs = Number(readHeader(xmlhttp, "retry-after-ms"));
+  const retryAfter =
+    Number.isFinite(retryAfterMs) && retryAfterMs > 0
+      ? retryAfterMs
+      : parseRetryAfter(readHeader(xmlhttp, "retry-after"));
+  if (retryAfter !== undefined) target.retryAfterMs = retryAfter;
+  return target;
+}
+
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const value = Number(
+    (error as ProviderHttpErrorInfo | undefined)?.retryAfterMs,
+  );
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
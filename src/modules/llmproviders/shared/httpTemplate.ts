@@ -0,0 +1,232 @@
+/**
+ * 声明式 HTTP 供应商的模板渲染与响应解析
+ *
+ * 纯函数，不依赖 Zotero 环境：渲染请求体模板、按路径取值、按分隔符切分流式事件。
+ */
+import { getString } from "../../../utils/locale";
+import type { LLMHttpProviderConfig } from "../types";
+
+export type HttpTemplateVars = Record<string, unknown>;
+
+/** 默认配置按 OpenAI Chat Completions 兼容格式填写，用户只需按网关差异修改 */
+export const DEFAULT_HTTP_PROVIDER_CONFIG: LLMHttpProviderConfig = {
+  requestTemplate: JSON.stringify(
+    {
+      model: "{{model}}",
+      messages: "{{messages}}",
+      stream: "{{stream}}",
+      temperature: "{{temperature}}",
+      top_p: "{{topP}}",
+      max_tokens: "{{maxTokens}}",
+    },
+    null,
+    2,
+  ),
+  authHeader: "Authorization",
+  authValue: "Bearer {{apiKey}}",
+  responseTextPath: "choices.0.message.content",
+  streamTextPath: "choices.0.delta.content",
+  streamDelimiter: "\\n\\n",
+  errorMessagePath: "error.message",
+};
+
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function readString(raw: unknown, fallback: string): string {
+  return typeof raw === "string" ? raw : fallback;
+}
+
+/**
+ * 补齐缺省字段；未保存过配置的端点得到默认配置
+ */
+export function normalizeHttpProviderConfig(
+  raw: unknown,
+): LLMHttpProviderConfig {
+  const source =
+    raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const defaults = DEFAULT_HTTP_PROVIDER_CONFIG;
+  return {
+    requestTemplate:
+      readString(source.requestTemplate, "").trim() || defaults.requestTemplate,
+    authHeader: readString(source.authHeader, defaults.authHeader).trim(),
+    authValue: readString(source.authValue, defaults.authValue),
+    responseTextPath: readString(
+      source.responseTextPath,
+      defaults.responseTextPath,
+    ).trim(),
+    streamTextPath: readString(
+      source.streamTextPath,
+      defaults.streamTextPath,
+    ).trim(),
+    streamDelimiter:
+      readString(source.streamDelimiter, "") || defaults.streamDelimiter,
+    errorMessagePath: readString(
+      source.errorMessagePath,
+      defaults.errorMessagePath,
+    ).trim(),
+  };
+}
+
+export function httpProviderConfigEquals(
+  a: LLMHttpProviderConfig | undefined,
+  b: LLMHttpProviderConfig | undefined,
+): boolean {
+  if (!a || !b) return a === b;
+  return (
+    Object.keys(DEFAULT_HTTP_PROVIDER_CONFIG) as Array<
+      keyof LLMHttpProviderConfig
+    >
+  ).every((key) => a[key] === b[key]);
+}
+
+/**
+ * 按路径取值：点号分隔，数组下标可写作 "choices.0" 或 "choices[0]"；空路径返回原值
+ */
+export function getByPath(data: unknown, path: string): unknown {
+  const segments = path
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+  let current: any = data;
+  for (const segment of segments) {
+    if (current === null || current === undefined) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * 从路径处取出文本；路径指向内容块数组时拼接其中的字符串或 text 字段
+ */
+export function extractTextByPath(data: unknown, path: string): string {
+  const value = getByPath(data, path);
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  if (Array.isArray(value)) {
+    return value
+      .map((part) =>
+        typeof part === "string"
+          ? part
+          : typeof part?.text === "string"
+            ? part.text
+            : "",
+      )
+      .join("");
+  }
+  return "";
+}
+
+function stringifyVar(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * 文本插值：{{变量}} 替换为变量值，对象与数组按 JSON 写入，未设置的变量替换为空
+ */
+export function interpolateTemplate(
+  text: string,
+  vars: HttpTemplateVars,
+): string {
+  return text.replace(PLACEHOLDER, (_match, name: string) =>
+    stringifyVar(getByPath(vars, name)),
+  );
+}
+
+function renderValue(value: unknown, vars: HttpTemplateVars): unknown {
+  if (typeof value === "string") {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    if (whole) return getByPath(vars, whole[1]);
+    return interpolateTemplate(value, vars);
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => renderValue(item, vars))
+      .filter((item) => item !== undefined);
+  }
+  if (value && typeof value === "object") {
+    const rendered: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const next = renderValue(item, vars);
+      if (next !== undefined) rendered[key] = next;
+    }
+    return rendered;
+  }
+  return value;
+}
+
+/**
+ * 解析请求体模板并代入变量；整段占位符按原值替换，未设置的变量对应字段被删除
+ */
+export function renderHttpTemplate(
+  template: string,
+  vars: HttpTemplateVars,
+): unknown {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(template);
+  } catch (error) {
+    throw new Error(
+      getString("provider-error-http-template-invalid", {
+        args: { reason: (error as Error)?.message || String(error) },
+      }),
+    );
+  }
+  return renderValue(parsed, vars);
+}
+
+/** 把设置中的 \n、\r、\t 转义写法还原为实际字符 */
+export function decodeStreamDelimiter(raw: string): string {
+  const decoded = raw.replace(/\\([nrt\\])/g, (_match, ch: string) =>
+    ch === "n" ? "\n" : ch === "r" ? "\r" : ch === "t" ? "\t" : "\\",
+  );
+  return decoded || "\n\n";
+}
+
+/**
+ * 按分隔符切分流式缓冲区，返回完整事件与尚未结束的剩余部分；final 时剩余部分也作为事件返回
+ */
+export function splitStreamEvents(
+  buffer: string,
+  delimiter: string,
+  final = false,
+): { events: string[]; rest: string } {
+  const normalized = delimiter.includes("\r")
+    ? buffer
+    : buffer.replace(/\r\n/g, "\n");
+  const parts = normalized.split(delimiter);
+  const rest = final ? "" : parts.pop() || "";
+  return {
+    events: parts.map((part) => part.trim()).filter(Boolean),
+    rest,
+  };
+}
+
+/**
+ * 解析单个流式事件的 JSON 载荷：SSE 事件取 data: 行，其它格式整段按 JSON 解析；[DONE]、心跳与无法解析的事件返回 undefined
+ */
+export function parseStreamEventData(event: string): unknown {
+  const lines = event.split(/\r?\n/);
+  const dataLines = lines
+    .filter((line) => /^data:/.test(line))
+    .map((line) => line.replace(/^data:\s?/, ""));
+  const payload = (dataLines.length > 0 ? dataLines.join("\n") : event).trim();
+  if (!payload || payload === "[DONE]") return undefined;
+  // 只有 event:/id: 等头部的 SSE 事件（如心跳）没有正文
+  if (dataLines.length === 0 && !/^[[{]/.test(payload)) return undefined;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 从单个流式事件中取出增量文本；没有载荷的事件返回空串
+ */
+export function parseStreamEvent(event: string, textPath: string): string {
+  const data = parseStreamEventData(event);
+  return data === undefined ? "" : extractTextByPath(data, textPath);
+}
@@ -1,4 +1,5 @@
 import { getPref } from "../../../utils/prefs";
+import type { LLMOptions, LLMUsage } from "../types";
 
 export function getRequestTimeoutMs(): number {
   const timeoutStr = (getPref("requestTimeout") as string) || "300000";
@@ -17,11 +18,14 @@ export function safeJsonParse<T = any>(text: string): T | null {
 /** 记录各供应商 prompt/context cache 的输入侧命中情况。 */
 export function logPromptCacheUsage(tag: string, usage: any): void {
   if (!usage || typeof usage !== "object") return;
-  const totalInput = usage.prompt_tokens ?? usage.input_tokens;
+  const totalInput =
+    usage.prompt_tokens ?? usage.input_tokens ?? usage.promptTokenCount;
   const cacheHit =
     usage.prompt_cache_hit_tokens ??
     usage.prompt_tokens_details?.cached_tokens ??
-    usage.cache_read_input_tokens;
+    usage.input_tokens_details?.cached_tokens ??
+    usage.cache_read_input_tokens ??
+    usage.cachedContentTokenCount;
   const cacheMiss =
     usage.prompt_cache_miss_tokens ?? usage.cache_creation_input_tokens;
 
@@ -31,3 +35,182 @@ export function logPromptCacheUsage(tag: string, usage: any): void {
     `[AI-Butler] ${tag} prompt cache usage: input=${totalInput ?? "unknown"}, hit=${cacheHit ?? 0}, miss=${cacheMiss ?? 0}`,
   );
 }
+
+/** 记录一次多轮任务累计的缓存命中，与 logPromptCacheUsage 的单次记录对应。 */
+export function logContextCacheSavings(
+  tag: string,
+  summary: { inputTokens: number; cachedInputTokens: number; hitRatio: number },
+): void {
+  if (!summary.inputTokens) return;
+  ztoolkit.log(
+    `[AI-Butler] ${tag} context cache savings: input=${summary.inputTokens}, cached=${summary.cachedInputTokens} (${Math.round(summary.hitRatio * 100)}%)`,
+  );
+}
+
+/**
+ * 从各供应商响应/流事件中提取 token 用量并回调 `options.onUsage`。
+ *
+ * 兼容 OpenAI Chat/Responses、Anthropic、Gemini 与 Ollama 的字段形态；
+ * 流式场景下同一请求可能多次上报（累计值），由调用方按最大值合并。
+ * 同一载荷中的结束原因一并经 reportFinishReason 上报。
+ */
+export function reportUsage(options: LLMOptions, payload: any): void {
+  reportFinishReason(options, payload);
+  if (!options.onUsage || !payload || typeof payload !== "object") return;
+  const usage = normalizeUsage(payload);
+  if (!usage) return;
+  try {
+    options.onUsage(usage);
+  } catch (error) {
+    ztoolkit.log("[AI-Butler] onUsage callback error:", error);
+  }
+}
+
+/**
+ * 从响应/流事件中提取结束原因并回调 `options.onFinishReason`
+ */
+export function reportFinishReason(options: LLMOptions, payload: any): void {
+  if (!options.onFinishReason) return;
+  const reason = extractFinishReason(payload);
+  if (!reason) return;
+  try {
+    options.onFinishReason(reason);
+  } catch (error) {
+    ztoolkit.log("[AI-Butler] onFinishReason callback error:", error);
+  }
+}
+
+/**
+ * 结束原因的字段形态：OpenAI Chat 的 finish_reason、Responses 的 incomplete_details、
+ * Anthropic 的 stop_reason、Gemini 的 finishReason 与 Ollama 的 done_reason
+ */
+export function extractFinishReason(payload: any): string {
+  if (!payload || typeof payload !== "object") return "";
+  const reason =
+    payload.choices?.[0]?.finish_reason ??
+    payload.incomplete_details?.reason ??
+    payload.response?.incomplete_details?.reason ??
+    payload.delta?.stop_reason ??
+    payload.stop_reason ??
+    payload.candidates?.[0]?.finishReason ??
+    payload.done_reason;
+  return typeof reason === "string" ? reason : "";
+}
+
+/**
+ * 标记流式输出中途断开的错误，并附带已收到的文本，供 LLMService 续写
+ */
+export function markStreamTruncated<T extends Error>(
+  error: T,
+  partialText: string,
+): T {
+  (error as T & { partialText?: string }).partialText = partialText;
+  return error;
+}
+
+/** 读取 markStreamTruncated 附带的文本；未标记或无内容时返回空字符串 */
+export function getStreamTruncatedText(error: unknown): string {
+  const text = (error as { partialText?: unknown } | undefined)?.partialText;
+  return typeof text === "string" ? text : "";
+}
+
+export function normalizeUsage(payload: any): LLMUsage | null {
+  if (!payload || typeof payload !== "object") return null;
+  const raw =
+    payload.usage ??
+    payload.response?.usage ??
+    payload.message?.usage ??
+    payload.usageMetadata ??
+    payload;
+
+  const toCount = (value: unknown): number | undefined =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0
+      ? value
+      : undefined;
+
+  let inputTokens = toCount(
+    raw.prompt_tokens ??
+      raw.input_tokens ??
+      raw.promptTokenCount ??
+      raw.prompt_eval_count,
+  );
+  const outputTokens = toCount(
+    raw.completion_tokens ??
+      raw.output_tokens ??
+      raw.candidatesTokenCount ??
+      raw.eval_count,
+  );
+  // Anthropic 的 input_tokens 不含缓存读写部分，需要加回才是实际计费输入
+  const cacheRead = toCount(raw.cache_read_input_tokens);
+  const cachedInputTokens =
+    toCount(
+      raw.prompt_tokens_details?.cached_tokens ??
+        raw.input_tokens_details?.cached_tokens ??
+        raw.prompt_cache_hit_tokens ??
+        raw.cachedContentTokenCount,
+    ) ?? cacheRead;
+  const cacheCreation = toCount(raw.cache_creation_input_tokens);
+  if (
+    inputTokens !== undefined &&
+    (cacheRead !== undefined || cacheCreation !== undefined) &&
+    raw.prompt_tokens === undefined
+  ) {
+    inputTokens += (cacheRead ?? 0) + (cacheCreation ?? 0);
+  }
+  let totalTokens = toCount(raw.total_tokens ?? raw.totalTokenCount);
+
+  if (
+    inputTokens === undefined &&
+    outputTokens === undefined &&
+    totalTokens === undefined
+  ) {
+    return null;
+  }
+  if (totalTokens === undefined) {
+    totalTokens = (inputTokens ?? 0) + (outputTokens ?? 0);
+  }
+  const usage: LLMUsage = { inputTokens, outputTokens, totalTokens };
+  if (cachedInputTokens) usage.cachedInputTokens = cachedInputTokens;
+  return usage;
+}
+
+/** 合并同一请求多次上报的用量：各字段取最大值（流式事件上报的是累计值）。 */
+export function mergeUsage(
+  previous: LLMUsage | undefined,
+  next: LLMUsage,
+): LLMUsage {
+  if (!previous) return { ...next };
+  const max = (a?: number, b?: number) =>
+    a === undefined ? b : b === undefined ? a : Math.max(a, b);
+  const inputTokens = max(previous.inputTokens, next.inputTokens);
+  const outputTokens = max(previous.outputTokens, next.outputTokens);
+  const merged: LLMUsage = {
+    inputTokens,
+    outputTokens,
+    totalTokens: Math.max(
+      max(previous.totalTokens, next.totalTokens) ?? 0,
+      (inputTokens ?? 0) + (outputTokens ?? 0),
+    ),
+  };
+  const cached = max(previous.cachedInputTokens, next.cachedInputTokens);
+  if (cached !== undefined) merged.cachedInputTokens = cached;
+  return merged;
+}
+
+/** 累加两次独立请求的用量（如截断后的续写请求）。 */
+export function sumUsage(
+  previous: LLMUsage | undefined,
+  next: LLMUsage,
+): LLMUsage {
+  if (!previous) return { ...next };
+  const add = (a?: number, b?: number) =>
+    a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+  const summed: LLMUsage = {
+    inputTokens: add(previous.inputTokens, next.inputTokens),
+    outputTokens: add(previous.outputTokens, next.outputTokens),
+    totalTokens: add(previous.totalTokens, next.totalTokens),
+  };
+  const cached = add(previous.cachedInputTokens, next.cachedInputTokens);
+  if (cached !== undefined) summed.cachedInputTokens = cached;
+  return summed;
+}
@@ -0,0 +1,322 @@
+/**
+ * 录制/回放夹具
+ *
+ * 录制时把一次 Provider 调用的请求摘要哈希与响应（流式分段、最终文本、工具调用、用量或错误）
+ * 写入 JSON 夹具文件；回放时按同样的哈希取回响应。哈希只覆盖请求内容（方法、正文、提示词、
+ * 对话与工具），不含模型、地址与密钥，因此用任意端点录制的夹具都可以由 replay 端点回放。
+ * 每个条目同时保存请求摘要（长文本缩写为开头片段、长度与哈希），回放未命中时据此指出
+ * 与最接近的录制请求相差的字段。
+ */
+import type { PdfFileInfo } from "../ILlmProvider";
+import type {
+  ConversationMessage,
+  LLMImageInput,
+  LLMOptions,
+  LLMToolCall,
+  LLMUsage,
+} from "../types";
+
+export type ReplayMethod =
+  | "generateSummary"
+  | "chat"
+  | "chatWithTools"
+  | "generateMultiFileSummary"
+  | "generateWithImages";
+
+export interface ReplayRequest {
+  method: ReplayMethod;
+  /** 文本正文；Base64 内容只保留哈希 */
+  content?: string;
+  prompt?: string;
+  conversation?: ConversationMessage[];
+  files?: string[];
+  /** 图片只保留类型与内容哈希 */
+  images?: string[];
+  tools?: string[];
+  toolChoice?: LLMOptions["toolChoice"];
+}
+
+export interface ReplayEntry {
+  method: ReplayMethod;
+  recordedAt: string;
+  /** 录制时的请求摘要，长文本已缩写 */
+  request?: ReplayRequest;
+  /** 流式回调收到的分段，回放时按顺序重新回调 */
+  chunks?: string[];
+  text?: string;
+  toolCalls?: LLMToolCall[];
+  usage?: LLMUsage;
+  error?: {
+    message: string;
+    name?: string;
+    statusCode?: number;
+    retryAfterMs?: number;
+  };
+}
+
+export interface ReplayFixture {
+  version: number;
+  entries: Record<string, ReplayEntry>;
+}
+
+export interface ReplayFixtureStore {
+  load(path: string): Promise<ReplayFixture>;
+  record(path: string, hash: string, entry: ReplayEntry): Promise<void>;
+}
+
+const FIXTURE_VERSION = 1;
+/** 超过该长度的请求文本在摘要中只保留开头片段 */
+const REQUEST_TEXT_LIMIT = 2000;
+const REQUEST_EXCERPT_LENGTH = 200;
+
+/** cyrb53：足够区分夹具条目的同步字符串哈希 */
+function hash53(text: string, seed: number): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+export function hashReplayText(text: string): string {
+  return [0, 1]
+    .map((seed) => hash53(text, seed).toString(16).padStart(14, "0"))
+    .join("");
+}
+
+function contentKey(content: string, isBase64: boolean): string {
+  return isBase64 ? `base64:${hashReplayText(content)}` : content;
+}
+
+function conversationKey(
+  conversation: ConversationMessage[],
+): ConversationMessage[] {
+  return conversation.map((message) => ({
+    role: message.role,
+    content: message.content,
+    ...(message.toolCalls?.length
+      ? {
+          toolCalls: message.toolCalls.map(({ id, name, arguments: args }) => ({
+            id,
+            name,
+            arguments: args,
+          })),
+        }
+      : {}),
+    ...(message.toolResults?.length
+      ? { toolResults: message.toolResults }
+      : {}),
+  }));
+}
+
+/**
+ * 把一次 Provider 调用的参数整理为可哈希的请求摘要
+ */
+export function buildReplayRequest(
+  method: ReplayMethod,
+  input: {
+    content?: string;
+    isBase64?: boolean;
+    prompt?: string;
+    conversation?: ConversationMessage[];
+    files?: PdfFileInfo[];
+    images?: LLMImageInput[];
+    options?: LLMOptions;
+  },
+): ReplayRequest {
+  const request: ReplayRequest = { method };
+  if (input.content !== undefined) {
+    request.content = contentKey(input.content, input.isBase64 === true);
+  }
+  if (input.prompt !== undefined) request.prompt = input.prompt;
+  if (input.conversation) {
+    request.conversation = conversationKey(input.conversation);
+  }
+  if (input.files) {
+    request.files = input.files.map((file) =>
+      file.base64Content
+        ? `${file.displayName}:${hashReplayText(file.base64Content)}`
+        : file.displayName,
+    );
+  }
+  if (input.images) {
+    request.images = input.images.map(
+      (image) => `${image.mimeType}:${hashReplayText(image.base64)}`,
+    );
+  }
+  if (input.options?.tools?.length) {
+    request.tools = input.options.tools.map((tool) => tool.name);
+    request.toolChoice = input.options.toolChoice || "auto";
+  }
+  return request;
+}
+
+export function hashReplayRequest(request: ReplayRequest): string {
+  return hashReplayText(JSON.stringify(request));
+}
+
+function abbreviateRequestText(text: string): string {
+  if (text.length <= REQUEST_TEXT_LIMIT) return text;
+  return `${text.slice(0, REQUEST_EXCERPT_LENGTH)}…[${text.length} chars, ${hashReplayText(text)}]`;
+}
+
+/**
+ * 写入夹具的请求摘要：正文、提示词与对话内容过长时缩写为开头片段加长度与哈希
+ */
+export function summarizeReplayRequest(request: ReplayRequest): ReplayRequest {
+  const summary: ReplayRequest = { ...request };
+  if (summary.content !== undefined) {
+    summary.content = abbreviateRequestText(summary.content);
+  }
+  if (summary.prompt !== undefined) {
+    summary.prompt = abbreviateRequestText(summary.prompt);
+  }
+  if (summary.conversation) {
+    summary.conversation = summary.conversation.map((message) => ({
+      ...message,
+      content: abbreviateRequestText(message.content),
+    }));
+  }
+  return summary;
+}
+
+function diffRequestFields(
+  request: ReplayRequest,
+  recorded: ReplayRequest,
+): string[] {
+  const fields: string[] = [];
+  const keys = new Set([...Object.keys(request), ...Object.keys(recorded)]);
+  for (const key of keys) {
+    const field = key as keyof ReplayRequest;
+    if (field === "conversation") {
+      const current = request.conversation || [];
+      const previous = recorded.conversation || [];
+      const length = Math.max(current.length, previous.length);
+      for (let i = 0; i < length; i++) {
+        if (JSON.stringify(current[i]) !== JSON.stringify(previous[i])) {
+          fields.push(`conversation[${i}]`);
+          break;
+        }
+      }
+    } else if (
+      JSON.stringify(request[field]) !== JSON.stringify(recorded[field])
+    ) {
+      fields.push(field);
+    }
+  }
+  return fields;
+}
+
+/**
+ * 在夹具中找出同方法、差异字段最少的录制请求，返回相差的字段（对话给出第一条不同消息的下标）
+ *
+ * 没有带请求摘要的同方法条目时返回 null。
+ */
+export function findClosestReplayDifference(
+  request: ReplayRequest,
+  fixture: ReplayFixture,
+): string[] | null {
+  const summary = summarizeReplayRequest(request);
+  let closest: string[] | null = null;
+  for (const entry of Object.values(fixture.entries)) {
+    if (entry.method !== request.method || !entry.request) continue;
+    const fields = diffRequestFields(summary, entry.request);
+    if (!closest || fields.length < closest.length) closest = fields;
+  }
+  return closest;
+}
+
+export function createReplayFixture(): ReplayFixture {
+  return { version: FIXTURE_VERSION, entries: {} };
+}
+
+export function parseReplayFixture(raw: string): ReplayFixture {
+  const parsed = JSON.parse(raw);
+  const entries = parsed?.entries;
+  if (!entries || typeof entries !== "object" || Array.isArray(entries)) {
+    return createReplayFixture();
+  }
+  return { version: FIXTURE_VERSION, entries };
+}
+
+/**
+ * 把错误整理为可写入夹具的形式，保留状态码与 Retry-After 以便回放限流和重试行为
+ */
+export function toReplayError(error: unknown): ReplayEntry["error"] {
+  const err = error as any;
+  return {
+    message: String(err?.message || error || ""),
+    ...(err?.name && err.name !== "Error" ? { name: String(err.name) } : {}),
+    ...(Number.isFinite(Number(err?.statusCode))
+      ? { statusCode: Number(err.statusCode) }
+      : {}),
+    ...(Number.isFinite(Number(err?.retryAfterMs))
+      ? { retryAfterMs: Number(err.retryAfterMs) }
+      : {}),
+  };
+}
+
+export function fromReplayError(recorded: NonNullable<ReplayEntry["error"]>) {
+  const error = new Error(recorded.message) as Error & {
+    statusCode?: number;
+    retryAfterMs?: number;
+  };
+  if (recorded.name) error.name = recorded.name;
+  if (recorded.statusCode !== undefined) error.statusCode = recorded.statusCode;
+  if (recorded.retryAfterMs !== undefined) {
+    error.retryAfterMs = recorded.retryAfterMs;
+  }
+  return error;
+}
+
+/**
+ * 基于 Zotero 文件接口的夹具存储：读取结果按路径缓存，写入按路径串行，避免并发任务互相覆盖
+ */
+export class ReplayFixtureFiles {
+  private static cache = new Map<string, Promise<ReplayFixture>>();
+  private static writes = new Map<string, Promise<void>>();
+
+  static load(path: string): Promise<ReplayFixture> {
+    let loading = this.cache.get(path);
+    if (!loading) {
+      loading = this.read(path);
+      this.cache.set(path, loading);
+      loading.catch(() => this.cache.delete(path));
+    }
+    return loading;
+  }
+
+  static record(path: string, hash: string, entry: ReplayEntry): Promise<void> {
+    const previous = this.writes.get(path) || Promise.resolve();
+    const next = previous.then(async () => {
+      const fixture = await this.load(path).catch(() => createReplayFixture());
+      fixture.entries[hash] = entry;
+      this.cache.set(path, Promise.resolve(fixture));
+      await IOUtils.writeUTF8(path, JSON.stringify(fixture, null, 2));
+    });
+    this.writes.set(
+      path,
+      next.catch(() => undefined),
+    );
+    return next;
+  }
+
+  /** 丢弃缓存，下次读取时重新加载文件 */
+  static invalidate(path?: string): void {
+    if (path) this.cache.delete(path);
+    else this.cache.clear();
+  }
+
+  private static async read(path: string): Promise<ReplayFixture> {
+    if (!(await IOUtils.exists(path))) return createReplayFixture();
+    const raw = await Zotero.File.getContentsAsync(path, "utf-8");
+    return parseReplayFixture(String(raw));
+  }
+}
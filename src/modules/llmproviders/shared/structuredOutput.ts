@@ -0,0 +1,202 @@
+import type { LLMJsonSchema, LLMResponseSchema } from "../types";
+
+/** 修复提示中最多列出的校验错误数 */
+const MAX_REPORTED_ERRORS = 20;
+
+export type StructuredOutputParseResult =
+  | { ok: true; value: unknown; json: string }
+  | { ok: false; errors: string[] };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: LLMJsonSchema["type"]): boolean {
+  switch (type) {
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "string":
+      return typeof value === "string";
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * 按 LLMJsonSchema 子集校验值，返回面向模型的错误描述（空数组表示通过）
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: LLMJsonSchema,
+  path = "$",
+): string[] {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${path} must be ${schema.type}, got ${describeType(value)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [`${path} must be one of ${JSON.stringify(schema.enum)}`];
+  }
+
+  const errors: string[] = [];
+  if (isPlainObject(value)) {
+    const properties = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (!(key in value)) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (properties[key]) {
+        errors.push(
+          ...validateJsonSchema(child, properties[key], `${path}.${key}`),
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((entry, index) => {
+        errors.push(
+          ...validateJsonSchema(entry, schema.items!, `${path}[${index}]`),
+        );
+      });
+    }
+  }
+  return errors;
+}
+
+/**
+ * 从模型输出中收集可能的 JSON 片段：代码块、最外层的对象/数组、全文
+ */
+function collectJsonCandidates(text: string): string[] {
+  const candidates = [...text.matchAll(/```(?:json)?\s*([\s\S]*?)```/gi)].map(
+    (match) => match[1].trim(),
+  );
+  const start = text.search(/[{[]/);
+  if (start >= 0) {
+    const closing = text[start] === "{" ? "}" : "]";
+    const end = text.lastIndexOf(closing);
+    if (end > start) candidates.push(text.slice(start, end + 1));
+  }
+  candidates.push(text.trim());
+  return Array.from(new Set(candidates.filter(Boolean)));
+}
+
+/**
+ * 解析并校验模型返回的结构化输出
+ *
+ * 兼容代码块包裹、前后附带说明文字等常见偏差；全部候选都不合法时返回最后一次的错误。
+ */
+export function parseStructuredOutput(
+  text: string,
+  schema: LLMJsonSchema,
+): StructuredOutputParseResult {
+  let errors = ["the response does not contain valid JSON"];
+  for (const candidate of collectJsonCandidates(text)) {
+    let value: unknown;
+    try {
+      value = JSON.parse(candidate);
+    } catch {
+      continue;
+    }
+    const found = validateJsonSchema(value, schema);
+    if (found.length === 0) return { ok: true, value, json: candidate };
+    errors = found.slice(0, MAX_REPORTED_ERRORS);
+  }
+  return { ok: false, errors };
+}
+
+/**
+ * OpenAI Chat Completions 及兼容接口的 response_format
+ */
+export function buildChatCompletionsResponseFormat(spec: LLMResponseSchema) {
+  return {
+    type: "json_schema",
+    json_schema: {
+      name: spec.name,
+      ...(spec.description ? { description: spec.description } : {}),
+      schema: spec.schema,
+    },
+  };
+}
+
+/**
+ * OpenAI Responses API 的 text.format
+ */
+export function buildResponsesTextFormat(spec: LLMResponseSchema) {
+  return {
+    format: {
+      type: "json_schema",
+      name: spec.name,
+      ...(spec.description ? { description: spec.description } : {}),
+      schema: spec.schema,
+    },
+  };
+}
+
+/**
+ * Gemini responseSchema 使用 OpenAPI 子集：类型名大写，不支持 additionalProperties
+ */
+export function toGeminiResponseSchema(
+  schema: LLMJsonSchema,
+): Record<string, unknown> {
+  const converted: Record<string, unknown> = {};
+  if (schema.type) converted.type = schema.type.toUpperCase();
+  if (schema.description) converted.description = schema.description;
+  if (schema.enum) converted.enum = schema.enum.map(String);
+  if (schema.minItems !== undefined) converted.minItems = schema.minItems;
+  if (schema.maxItems !== undefined) converted.maxItems = schema.maxItems;
+  if (schema.items) converted.items = toGeminiResponseSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, child]) => [
+        key,
+        toGeminiResponseSchema(child),
+      ]),
+    );
+    converted.propertyOrdering = Object.keys(schema.properties);
+  }
+  if (schema.required) converted.required = schema.required;
+  return converted;
+}
+
+/**
+ * Anthropic 没有 JSON 模式，通过强制调用一个以 schema 为入参的工具获得结构化输出
+ *
+ * 流式响应中工具入参以 input_json_delta 的 partial_json 返回，拼接后即为 JSON 文本。
+ */
+export function buildAnthropicToolForcing(spec: LLMResponseSchema) {
+  return {
+    tools: [
+      {
+        name: spec.name,
+        description:
+          spec.description || "Return the result in the required structure.",
+        input_schema: spec.schema,
+      },
+    ],
+    tool_choice: { type: "tool", name: spec.name },
+  };
+}
@@ -0,0 +1,346 @@
+import type {
+  ConversationMessage,
+  LLMOptions,
+  LLMToolCall,
+  LLMToolTurn,
+} from "../types";
+import { parseOpenAIResponsesText } from "./openaiResponses";
+import { toGeminiResponseSchema } from "./structuredOutput";
+
+/** 第一条用户消息需要附带论文内容，由各供应商按自己的格式构造 */
+export type FirstUserContentBuilder = (text: string) => unknown;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 解析工具入参；无法解析时返回空对象，交由工具执行前的参数校验报告给模型
+ */
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (isPlainObject(raw)) return raw;
+  if (typeof raw !== "string" || !raw.trim()) return {};
+  try {
+    const value = JSON.parse(raw);
+    return isPlainObject(value) ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+function isFirstUserMessage(
+  message: ConversationMessage,
+  index: number,
+): boolean {
+  return index === 0 && message.role === "user" && !message.toolResults;
+}
+
+// ==================== OpenAI Chat Completions 及兼容接口 ====================
+
+export function buildChatCompletionsToolParams(options: LLMOptions) {
+  if (!options.tools || options.tools.length === 0) return {};
+  return {
+    tools: options.tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    })),
+    ...(options.toolChoice === "none" ? { tool_choice: "none" } : {}),
+  };
+}
+
+export function toChatCompletionsToolMessages(
+  conversation: ConversationMessage[],
+  firstUserContent: FirstUserContentBuilder,
+): any[] {
+  const messages: any[] = [];
+  conversation.forEach((message, index) => {
+    if (message.toolResults) {
+      for (const result of message.toolResults) {
+        messages.push({
+          role: "tool",
+          tool_call_id: result.callId,
+          content: result.content,
+        });
+      }
+      return;
+    }
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      messages.push({
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      });
+      return;
+    }
+    messages.push({
+      role: message.role,
+      content: isFirstUserMessage(message, index)
+        ? firstUserContent(message.content)
+        : message.content,
+    });
+  });
+  return messages;
+}
+
+export function parseChatCompletionsToolTurn(data: any): LLMToolTurn {
+  const message = data?.choices?.[0]?.message || {};
+  const rawCalls = Array.isArray(message.tool_calls) ? message.tool_calls : [];
+  return {
+    text: typeof message.content === "string" ? message.content : "",
+    toolCalls: rawCalls
+      .filter((call: any) => call?.function?.name)
+      .map((call: any, index: number) => ({
+        id: String(call.id || `call_${index}`),
+        name: String(call.function.name),
+        arguments: parseToolArguments(call.function.arguments),
+      })),
+  };
+}
+
+// ==================== OpenAI Responses API ====================
+
+export function buildResponsesToolParams(options: LLMOptions) {
+  if (!options.tools || options.tools.length === 0) return {};
+  return {
+    tools: options.tools.map((tool) => ({
+      type: "function",
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    })),
+    ...(options.toolChoice === "none" ? { tool_choice: "none" } : {}),
+  };
+}
+
+/**
+ * 转换为 Responses API 的 input 项；函数调用只回传 call_id，不带输出项 id，
+ * 因此无需同时回传推理项。
+ */
+export function toResponsesToolInput(
+  conversation: ConversationMessage[],
+  firstUserContent: FirstUserContentBuilder,
+): any[] {
+  const input: any[] = [];
+  conversation.forEach((message, index) => {
+    if (message.toolResults) {
+      for (const result of message.toolResults) {
+        input.push({
+          type: "function_call_output",
+          call_id: result.callId,
+          output: result.content,
+        });
+      }
+      return;
+    }
+    if (message.role === "assistant") {
+      if (message.content) {
+        input.push({ role: "assistant", content: message.content });
+      }
+      for (const call of message.toolCalls || []) {
+        input.push({
+          type: "function_call",
+          call_id: call.id,
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        });
+      }
+      return;
+    }
+    input.push({
+      role: message.role === "system" ? "developer" : "user",
+      content: isFirstUserMessage(message, index)
+        ? firstUserContent(message.content)
+        : message.content,
+    });
+  });
+  return input;
+}
+
+export function parseResponsesToolTurn(data: any): LLMToolTurn {
+  const output = Array.isArray(data?.output) ? data.output : [];
+  return {
+    text: parseOpenAIResponsesText(data),
+    toolCalls: output
+      .filter((item: any) => item?.type === "function_call" && item.name)
+      .map((item: any, index: number) => ({
+        id: String(item.call_id || item.id || `call_${index}`),
+        name: String(item.name),
+        arguments: parseToolArguments(item.arguments),
+      })),
+  };
+}
+
+// ==================== Anthropic Messages API ====================
+
+export function buildAnthropicToolParams(options: LLMOptions) {
+  if (!options.tools || options.tools.length === 0) return {};
+  return {
+    tools: options.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    })),
+    ...(options.toolChoice === "none" ? { tool_choice: { type: "none" } } : {}),
+  };
+}
+
+export function toAnthropicToolMessages(
+  conversation: ConversationMessage[],
+  firstUserContent: FirstUserContentBuilder,
+): any[] {
+  const messages: any[] = [];
+  conversation.forEach((message, index) => {
+    if (message.toolResults) {
+      messages.push({
+        role: "user",
+        content: message.toolResults.map((result) => ({
+          type: "tool_result",
+          tool_use_id: result.callId,
+          content: result.content,
+          ...(result.isError ? { is_error: true } : {}),
+        })),
+      });
+      return;
+    }
+    if (message.role === "assistant") {
+      const content: any[] = [];
+      if (message.content)
+        content.push({ type: "text", text: message.content });
+      for (const call of message.toolCalls || []) {
+        content.push({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: call.arguments,
+        });
+      }
+      messages.push({ role: "assistant", content });
+      return;
+    }
+    messages.push({
+      role: "user",
+      content: isFirstUserMessage(message, index)
+        ? firstUserContent(message.content)
+        : [{ type: "text", text: message.content }],
+    });
+  });
+  return messages;
+}
+
+export function parseAnthropicToolTurn(data: any): LLMToolTurn {
+  const blocks = Array.isArray(data?.content) ? data.content : [];
+  return {
+    text: blocks
+      .filter((block: any) => block?.type === "text")
+      .map((block: any) => String(block.text || ""))
+      .join(""),
+    toolCalls: blocks
+      .filter((block: any) => block?.type === "tool_use" && block.name)
+      .map((block: any, index: number) => ({
+        id: String(block.id || `toolu_${index}`),
+        name: String(block.name),
+        arguments: parseToolArguments(block.input),
+      })),
+  };
+}
+
+// ==================== Gemini ====================
+
+export function buildGeminiToolParams(options: LLMOptions) {
+  if (!options.tools || options.tools.length === 0) return {};
+  return {
+    tools: [
+      {
+        functionDeclarations: options.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: toGeminiResponseSchema(tool.parameters),
+        })),
+      },
+    ],
+    ...(options.toolChoice === "none"
+      ? { toolConfig: { functionCallingConfig: { mode: "NONE" } } }
+      : {}),
+  };
+}
+
+/**
+ * 转换为 Gemini contents；函数调用需要原样带回 thoughtSignature，否则思考模型会拒绝请求
+ */
+export function toGeminiToolContents(
+  conversation: ConversationMessage[],
+  firstUserParts: FirstUserContentBuilder,
+): any[] {
+  const contents: any[] = [];
+  conversation.forEach((message, index) => {
+    if (message.toolResults) {
+      contents.push({
+        role: "user",
+        parts: message.toolResults.map((result) => ({
+          functionResponse: {
+            name: result.name,
+            response: result.isError
+              ? { error: result.content }
+              : { content: result.content },
+          },
+        })),
+      });
+      return;
+    }
+    if (message.role === "assistant") {
+      const parts: any[] = [];
+      if (message.content) parts.push({ text: message.content });
+      for (const call of message.toolCalls || []) {
+        parts.push({
+          functionCall: { name: call.name, args: call.arguments },
+          ...(call.extra || {}),
+        });
+      }
+      contents.push({ role: "model", parts });
+      return;
+    }
+    contents.push({
+      role: "user",
+      parts: isFirstUserMessage(message, index)
+        ? firstUserParts(message.content)
+        : [{ text: message.content }],
+    });
+  });
+  return contents;
+}
+
+export function parseGeminiToolTurn(data: any): LLMToolTurn {
+  const parts = data?.candidates?.[0]?.content?.parts;
+  const list: any[] = Array.isArray(parts) ? parts : [];
+  const toolCalls: LLMToolCall[] = [];
+  list.forEach((part, index) => {
+    const call = part?.functionCall;
+    if (!call?.name) return;
+    toolCalls.push({
+      id: String(call.id || `${call.name}_${index}`),
+      name: String(call.name),
+      arguments: parseToolArguments(call.args),
+      ...(part.thoughtSignature
+        ? { extra: { thoughtSignature: part.thoughtSignature } }
+        : {}),
+    });
+  });
+  return {
+    text: list
+      .filter((part) => !part?.thought && typeof part?.text === "string")
+      .map((part) => part.text)
+      .join(""),
+    toolCalls,
+  };
+}
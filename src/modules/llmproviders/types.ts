@@ -16,6 +16,10 @@ export type LLMAbortSignal = {
 export type ConversationMessage = {
   role: "system" | "user" | "assistant";
   content: string;
+  /** assistant 消息中模型请求的工具调用 */
+  toolCalls?: LLMToolCall[];
+  /** 回传给模型的工具执行结果，所在消息的 role 为 user */
+  toolResults?: LLMToolResult[];
 };
 
 export type LLMReasoningEffort =
@@ -28,6 +32,106 @@ export type LLMReasoningEffort =
 
 export type LLMReasoningEffortSetting = "default" | LLMReasoningEffort;
 
+/**
+ * 结构化输出使用的 JSON Schema
+ *
+ * 只包含各供应商原生结构化输出都支持的关键字子集，不使用 $ref 等引用。
+ */
+export type LLMJsonSchema = {
+  type?:
+    | "object"
+    | "array"
+    | "string"
+    | "number"
+    | "integer"
+    | "boolean"
+    | "null";
+  description?: string;
+  properties?: Record<string, LLMJsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: LLMJsonSchema;
+  enum?: Array<string | number>;
+  minItems?: number;
+  maxItems?: number;
+};
+
+export type LLMResponseSchema = {
+  /** 供应商要求的 schema 名称，仅含字母、数字、下划线 */
+  name: string;
+  description?: string;
+  schema: LLMJsonSchema;
+};
+
+/**
+ * 提供给模型调用的工具（函数）定义
+ */
+export type LLMToolDefinition = {
+  /** 仅含字母、数字、下划线 */
+  name: string;
+  description: string;
+  parameters: LLMJsonSchema;
+};
+
+export type LLMToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  /** 回传调用记录时需要原样带回的供应商字段（如 Gemini 的 thoughtSignature） */
+  extra?: Record<string, unknown>;
+};
+
+export type LLMToolResult = {
+  callId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+};
+
+/** 随请求发送的图片（如论文中的图表）；base64 不带 data: 前缀 */
+export type LLMImageInput = {
+  mimeType: string;
+  base64: string;
+};
+
+/** 一次工具对话请求的结果：最终文本，或模型请求调用的工具 */
+export type LLMToolTurn = {
+  text: string;
+  toolCalls: LLMToolCall[];
+};
+
+/**
+ * 声明式 HTTP 供应商配置：请求体模板、鉴权头与响应文本路径均由用户在端点设置中填写
+ *
+ * 模板中整段为 "{{变量}}" 的字符串按原值替换（变量未设置时删除该字段），其余位置按文本插值；
+ * 路径使用点号分隔，数组下标可写作 "choices.0" 或 "choices[0]"。
+ */
+export type LLMHttpProviderConfig = {
+  /** 请求体 JSON 模板 */
+  requestTemplate: string;
+  /** 鉴权头名称；留空时不发送鉴权头 */
+  authHeader: string;
+  /** 鉴权头取值模板，如 "Bearer {{apiKey}}" */
+  authValue: string;
+  /** 非流式响应中文本所在路径 */
+  responseTextPath: string;
+  /** 流式事件中增量文本所在路径；留空时只发送非流式请求 */
+  streamTextPath: string;
+  /** 流式事件分隔符，支持 \n 等转义写法 */
+  streamDelimiter: string;
+  /** 错误响应中错误消息所在路径 */
+  errorMessagePath: string;
+};
+
+/** Azure OpenAI 使用的接口：Chat Completions（按部署路径）或 Responses API */
+export type LLMAzureApiMode = "chat" | "responses";
+
+export type LLMAzureOpenAIConfig = {
+  apiMode: LLMAzureApiMode;
+  /** api-version 查询参数；留空时使用该接口的默认版本 */
+  apiVersion: string;
+};
+
 export type LLMOptions = {
   apiUrl?: string;
   apiKey?: string;
@@ -39,8 +143,27 @@ export type LLMOptions = {
   maxTokens?: number;
   reasoningEffort?: LLMReasoningEffort;
   enablePromptCache?: boolean;
+  /**
+   * 同一份论文上下文的缓存标识（如一次多轮精读）：设置后论文置于提示词之前，
+   * 支持显式缓存的供应商在该标识内复用已上传的上下文
+   */
+  contextCacheKey?: string;
   vendorOptions?: Record<string, unknown>;
+  /** 声明式 HTTP 供应商（custom-http 端点）的请求与解析配置 */
+  httpProvider?: LLMHttpProviderConfig;
+  /** Azure OpenAI 端点的接口类型与 api-version */
+  azure?: LLMAzureOpenAIConfig;
+  /** 要求模型按 JSON Schema 输出；仅在供应商声明支持 responseFormat 时传入 */
+  responseSchema?: LLMResponseSchema;
+  /** 允许模型调用的工具；仅传给实现了 chatWithTools 的供应商 */
+  tools?: LLMToolDefinition[];
+  /** 为 "none" 时保留工具定义但禁止继续调用，要求模型基于已有结果作答 */
+  toolChoice?: "auto" | "none";
   abortSignal?: LLMAbortSignal;
+  /** 供应商解析到 token 用量时回调（流式下可能多次上报累计值） */
+  onUsage?: (usage: LLMUsage) => void;
+  /** 供应商解析到结束原因时回调（如 length / max_tokens，用于判断输出是否被截断） */
+  onFinishReason?: (reason: string) => void;
 };
 
 export type LLMProviderParam =
@@ -74,6 +197,10 @@ export type LLMUsage = {
   inputTokens?: number;
   outputTokens?: number;
   totalTokens?: number;
+  /** 输入中命中供应商上下文缓存的 token 数（已计入 inputTokens） */
+  cachedInputTokens?: number;
+  /** 供应商未返回用量时按字符数估算 */
+  estimated?: boolean;
 };
 
 export type LLMResponse = {
@@ -86,8 +213,12 @@ export type LLMResponse = {
   requestId?: string;
   usage?: LLMUsage;
   finishReason?: string;
+  /** 输出被截断后自动续写的轮数 */
+  continuations?: number;
   warnings?: string[];
   rawExcerpt?: string;
+  /** 请求了结构化输出时，已通过 schema 校验的解析结果 */
+  data?: unknown;
 };
 
 export type LLMError = {
@@ -0,0 +1,285 @@
+/**
+ * 长文档分块（map-reduce）
+ *
+ * 学位论文、书籍章节等超出模型上下文的文本不再直接截断，而是按检测到的章节标题
+ * （Markdown 标题、编号标题、Abstract/Introduction/参考文献等常见章节名、
+ * Chapter/第 N 章）与分页符切分为若干块；各块先分别总结（map），再把分块笔记
+ * 合并为最终结果（reduce）。
+ *
+ * 是否分块按端点配置（`longDocumentMode`），块大小由端点的上下文长度决定。
+ * 本模块只包含纯文本处理逻辑，实际的模型调用在 LLMService 中完成。
+ */
+
+export interface DocumentChunk {
+  /** 从 0 开始的块序号 */
+  index: number;
+  /** 块内包含的章节标题，未检测到标题时为空字符串 */
+  title: string;
+  text: string;
+  tokens: number;
+}
+
+/** 端点未提供上下文长度时使用的默认值（token） */
+export const DEFAULT_CONTEXT_LENGTH = 32000;
+
+/** 单块最少 token 数，避免上下文长度配置过小时切出大量碎片 */
+const MIN_CHUNK_TOKENS = 1000;
+
+/** 超过上下文长度的该比例即分块，余量留给提示词与输出 */
+const CHUNK_TRIGGER_RATIO = 0.7;
+
+/** 每块占上下文长度的比例 */
+const CHUNK_SIZE_RATIO = 0.5;
+
+const MAX_HEADING_LENGTH = 100;
+
+const SECTION_NAMES = [
+  "abstract",
+  "introduction",
+  "background",
+  "related work",
+  "literature review",
+  "method",
+  "methods",
+  "methodology",
+  "materials and methods",
+  "experiment",
+  "experiments",
+  "experimental setup",
+  "evaluation",
+  "result",
+  "results",
+  "results and discussion",
+  "discussion",
+  "conclusion",
+  "conclusions",
+  "future work",
+  "limitations",
+  "references",
+  "bibliography",
+  "acknowledgement",
+  "acknowledgements",
+  "acknowledgment",
+  "acknowledgments",
+  "appendix",
+  "摘要",
+  "引言",
+  "绪论",
+  "前言",
+  "相关工作",
+  "文献综述",
+  "方法",
+  "研究方法",
+  "实验",
+  "实验结果",
+  "结果",
+  "讨论",
+  "结论",
+  "总结与展望",
+  "参考文献",
+  "致谢",
+  "附录",
+];
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * 粗略估算 token 数：中日韩字符按 1 个 token，其余按 4 个字符 1 个 token
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjk = text.match(CJK_PATTERN)?.length || 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+export function getChunkTokenBudget(contextLength?: number): number {
+  const length =
+    contextLength && contextLength > 0 ? contextLength : DEFAULT_CONTEXT_LENGTH;
+  return Math.max(MIN_CHUNK_TOKENS, Math.floor(length * CHUNK_SIZE_RATIO));
+}
+
+/**
+ * 文本与提示词合计超过上下文长度的安全比例时需要分块
+ */
+export function shouldChunkDocument(
+  text: string,
+  prompt: string,
+  contextLength?: number,
+): boolean {
+  const length =
+    contextLength && contextLength > 0 ? contextLength : DEFAULT_CONTEXT_LENGTH;
+  return (
+    estimateTokens(text) + estimateTokens(prompt) > length * CHUNK_TRIGGER_RATIO
+  );
+}
+
+/**
+ * 判断一行是否为章节标题，是则返回标题文本
+ */
+export function detectSectionHeading(line: string): string | null {
+  const text = line.trim();
+  if (!text || text.length > MAX_HEADING_LENGTH) return null;
+
+  const markdown = /^#{1,6}\s+(.+?)\s*#*$/.exec(text);
+  if (markdown) return markdown[1].trim();
+
+  if (/^(chapter|part)\s+([0-9]+|[ivxlc]+)\b/i.test(text)) return text;
+  if (/^第[一二三四五六七八九十百零〇\d]+[章节部分篇]/.test(text)) return text;
+
+  const name = text
+    // 罗马数字编号后必须有分隔符，避免吃掉 "Introduction" 的首字母
+    .replace(/^([0-9]+(\.[0-9]+)*[.)、]?\s*|[ivxlc]+([.)、]\s*|\s+))/i, "")
+    .replace(/[:：]$/, "")
+    .trim()
+    .toLowerCase();
+  if (SECTION_NAMES.includes(name)) return text.replace(/[:：]$/, "");
+
+  // 编号标题，如 "3.2 Model Architecture"、"2 相关工作"
+  if (
+    /^[0-9]+(\.[0-9]+){0,2}\.?\s+[A-Z\u4e00-\u9fff]/.test(text) &&
+    text.length <= 80 &&
+    !/[.。,，;；:：]$/.test(text)
+  ) {
+    return text;
+  }
+  return null;
+}
+
+type DocumentUnit = { title: string; text: string; tokens: number };
+
+/**
+ * 按章节标题、分页符、段落依次细分，直到每段都不超过 maxTokens
+ */
+function splitOversized(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text];
+
+  const separators: Array<[RegExp, string]> = [
+    [/\f/, "\n\n"],
+    [/\n\s*\n/, "\n\n"],
+    [/\n/, "\n"],
+  ];
+  for (const [separator, joiner] of separators) {
+    const parts = text.split(separator).filter((part) => part.trim());
+    if (parts.length > 1) {
+      return packTexts(
+        parts.flatMap((part) => splitOversized(part, maxTokens)),
+        maxTokens,
+        joiner,
+      );
+    }
+  }
+
+  // 没有可用的分隔符时按字符硬切
+  const charsPerChunk = Math.max(
+    1,
+    Math.floor((text.length * maxTokens) / estimateTokens(text)),
+  );
+  const pieces: string[] = [];
+  for (let start = 0; start < text.length; start += charsPerChunk) {
+    pieces.push(text.slice(start, start + charsPerChunk));
+  }
+  return pieces;
+}
+
+function packTexts(
+  parts: string[],
+  maxTokens: number,
+  joiner: string,
+): string[] {
+  const packed: string[] = [];
+  let current = "";
+  for (const part of parts) {
+    const candidate = current ? `${current}${joiner}${part}` : part;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      packed.push(current);
+      current = part;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) packed.push(current);
+  return packed;
+}
+
+/**
+ * 把原始文本切分为不超过 maxTokens 的块，尽量在章节边界处断开
+ *
+ * 需传入未经 `PDFExtractor.cleanText` 处理的文本，否则换行已被合并，无法识别标题。
+ */
+export function splitDocumentIntoChunks(
+  text: string,
+  maxTokens: number,
+): DocumentChunk[] {
+  const normalized = text.replace(/\r\n?/g, "\n");
+  const sections: Array<{ title: string; lines: string[] }> = [
+    { title: "", lines: [] },
+  ];
+  for (const line of normalized.split("\n")) {
+    // 分页符可能与标题处于同一行
+    const heading = detectSectionHeading(line.replace(/\f/g, ""));
+    if (heading) {
+      sections.push({ title: heading, lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  const units: DocumentUnit[] = [];
+  for (const section of sections) {
+    const sectionText = section.lines.join("\n");
+    if (!sectionText.trim()) continue;
+    for (const piece of splitOversized(sectionText, maxTokens)) {
+      units.push({
+        title: section.title,
+        text: piece,
+        tokens: estimateTokens(piece),
+      });
+    }
+  }
+
+  const chunks: DocumentChunk[] = [];
+  let current: { titles: string[]; texts: string[]; tokens: number } | null =
+    null;
+  const flush = () => {
+    if (!current) return;
+    chunks.push({
+      index: chunks.length,
+      title: current.titles.join(" / "),
+      text: current.texts.join("\n"),
+      tokens: current.tokens,
+    });
+    current = null;
+  };
+  for (const unit of units) {
+    if (current && current.tokens + unit.tokens > maxTokens) flush();
+    if (!current) current = { titles: [], texts: [], tokens: 0 };
+    if (unit.title && !current.titles.includes(unit.title)) {
+      current.titles.push(unit.title);
+    }
+    current.texts.push(unit.text);
+    current.tokens += unit.tokens;
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * 以有限并发依次处理列表，结果顺序与输入一致
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, run));
+  return results;
+}
@@ -19,6 +19,7 @@ import {
   type LLMNoteMetadata,
 } from "./llmNoteMetadata";
 import type { LLMAbortSignal, LLMResponse } from "./llmproviders/types";
+import { AiNoteHistory, type AiNoteHistoryContext } from "./aiNoteHistory";
 import { getString } from "../utils/locale";
 import { getPref } from "../utils/prefs";
 import { getConfiguredMindmapPrompt } from "../utils/prompts";
@@ -110,6 +111,7 @@ export class MindmapService {
         item,
         mindmapMarkdown,
         LLMNoteMetadataService.fromResponse("mindmap", mindmapResult.response),
+        { prompt: mindmapResult.prompt, response: mindmapResult.response },
       );
 
       progressCallback?.(
@@ -141,13 +143,14 @@ export class MindmapService {
     item: Zotero.Item,
     itemTitle: string,
     abortSignal?: LLMAbortSignal,
-  ): Promise<{ markdown: string; response: LLMResponse }> {
+  ): Promise<{ markdown: string; prompt: string; response: LLMResponse }> {
     // 获取思维导图提示词
     const prompt = getConfiguredMindmapPrompt(
       getPref("mindmapPrompt" as any) as string,
     );
 
-    // 调用 LLM 生成思维导图 Markdown
+    // 调用 LLM 生成思维导图 Markdown：输出格式以提示词为准（含用户自定义提示词），
+    // 不另行约束 JSON Schema，避免两种格式要求互相冲突
     const response = await LLMService.generate({
       task: "mindmap",
       prompt,
@@ -198,7 +201,7 @@ export class MindmapService {
       );
     }
 
-    return { markdown: mindmapContent, response };
+    return { markdown: mindmapContent, prompt, response };
   }
 
   /**
@@ -259,18 +262,18 @@ export class MindmapService {
    *
    * @param item 父文献条目
    * @param mindmapMarkdown 思维导图 Markdown 内容
+   * @param history 记入笔记历史的提示词与模型响应
    * @returns 创建的笔记条目
    */
   private static async createMindmapNote(
     item: Zotero.Item,
     mindmapMarkdown: string,
     metadata?: LLMNoteMetadata | null,
+    history: AiNoteHistoryContext = {},
   ): Promise<Zotero.Item> {
-    // 查找并删除已有的思维导图笔记
+    // 已有的思维导图笔记在新笔记保存成功后再删除，避免保存失败时两者皆失
     const existingNote = await this.findExistingMindmapNote(item);
-    if (existingNote) {
-      await existingNote.eraseTx();
-    }
+    const existingHtml: string = (existingNote as any)?.getNote?.() || "";
 
     // 构建笔记标题（限制长度）
     const itemTitle = item.getField("title") as string;
@@ -307,6 +310,16 @@ export class MindmapService {
     note.addTag("AI-Mindmap", 0);
 
     await note.saveTx();
+    if (existingNote) {
+      await existingNote.eraseTx();
+    }
+    await AiNoteHistory.recordChange(
+      item,
+      "mindmap",
+      existingHtml,
+      noteHtml,
+      history,
+    );
 
     ztoolkit.log(`[AI-Butler] 思维导图笔记已创建: ${noteTitle}`);
 
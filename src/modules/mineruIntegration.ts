@@ -19,6 +19,7 @@ import { getString } from "../utils/locale";
 import { getPref } from "../utils/prefs";
 import { PDFExtractor } from "./pdfExtractor";
 import {
+  MINERU_CONTENT_LIST_FILE,
   MineruMarkdownSaver,
   type MineruMarkdownAsset,
 } from "./mineruMarkdownSaver";
@@ -371,6 +372,20 @@ export class MineruClient {
       const data = await zipFile.async("uint8array");
       assets.push({ relativePath, data });
     }
+
+    // 内容列表记录了每张图表所在页码，逐图解读用它回链到 PDF 页面
+    const contentList = Object.values(zip.files).find(
+      (file) =>
+        !file.dir &&
+        !file.name.includes("__MACOSX") &&
+        /(?:^|[/_])content_list\.json$/i.test(file.name),
+    );
+    if (contentList) {
+      assets.push({
+        relativePath: MINERU_CONTENT_LIST_FILE,
+        data: await contentList.async("uint8array"),
+      });
+    }
     return assets;
   }
 
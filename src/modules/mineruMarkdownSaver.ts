@@ -4,6 +4,9 @@ import { sanitizePathSegment } from "./noteExportPaths";
 const ATTACHMENT_TITLE_PREFIX = "[AI-Butler] MinerU Markdown";
 const ATTACHMENT_TAG = "AI-MinerU-Markdown";
 
+/** MinerU 解析包中的版面内容列表（含图表页码），随 Markdown 一起保存 */
+export const MINERU_CONTENT_LIST_FILE = "content_list.json";
+
 type MineruMarkdownFileNameMode = "title" | "citationKey" | "citationKey-title";
 
 export interface MineruMarkdownAsset {
@@ -11,6 +14,12 @@ export interface MineruMarkdownAsset {
   data: Uint8Array;
 }
 
+export interface MineruMarkdownBundle {
+  markdown: string;
+  /** Markdown 文件路径，资源按相对路径位于同一目录 */
+  markdownPath: string;
+}
+
 export interface MineruMarkdownSaveResult {
   attachmentId?: number;
   externalPath?: string;
@@ -25,13 +34,24 @@ export class MineruMarkdownSaver {
   public static async readCachedMarkdown(
     item: Zotero.Item,
   ): Promise<string | null> {
+    return (await this.readCachedBundle(item))?.markdown ?? null;
+  }
+
+  /**
+   * 读取已保存的 Markdown 及其文件路径；图片等资源按相对路径保存在同一目录
+   */
+  public static async readCachedBundle(
+    item: Zotero.Item,
+  ): Promise<MineruMarkdownBundle | null> {
     const attachment = await this.findMarkdownAttachment(item);
     if (attachment) {
       try {
         const filePath = await attachment.getFilePathAsync();
         if (filePath && (await IOUtils.exists(filePath))) {
           const content = await Zotero.File.getContentsAsync(filePath, "utf-8");
-          if (typeof content === "string" && content.trim()) return content;
+          if (typeof content === "string" && content.trim()) {
+            return { markdown: content, markdownPath: filePath };
+          }
         }
       } catch (error) {
         ztoolkit.log(
@@ -42,13 +62,37 @@ export class MineruMarkdownSaver {
     }
 
     if (getPref("mineruSyncExternal" as any)) {
-      const content = await this.readExternalMarkdown(item);
-      if (content) return content;
+      const bundle = await this.readExternalMarkdown(item);
+      if (bundle) return bundle;
     }
 
     return null;
   }
 
+  /**
+   * 读取随 Markdown 保存的资源文件；路径越界或文件不存在时返回 null
+   */
+  public static async readBundleAsset(
+    bundle: MineruMarkdownBundle,
+    relativePath: string,
+  ): Promise<Uint8Array | null> {
+    const safeRelativePath = this.sanitizeRelativeAssetPath(relativePath);
+    const baseDir = PathUtils.parent(bundle.markdownPath);
+    if (!safeRelativePath || !baseDir) return null;
+
+    const targetPath = PathUtils.join(
+      baseDir,
+      ...safeRelativePath.split("/").filter(Boolean),
+    );
+    try {
+      if (!(await IOUtils.exists(targetPath))) return null;
+      return await IOUtils.read(targetPath);
+    } catch (error) {
+      ztoolkit.log("[AI-Butler][MinerU] 读取 Markdown 资源失败:", error);
+      return null;
+    }
+  }
+
   public static async save(
     item: Zotero.Item,
     markdown: string,
@@ -81,7 +125,7 @@ export class MineruMarkdownSaver {
 
   private static async readExternalMarkdown(
     item: Zotero.Item,
-  ): Promise<string | null> {
+  ): Promise<MineruMarkdownBundle | null> {
     const rootPath = String(getPref("mineruExternalPath" as any) || "").trim();
     if (!rootPath) return null;
 
@@ -92,7 +136,9 @@ export class MineruMarkdownSaver {
       )) {
         if (!(await IOUtils.exists(filePath))) continue;
         const content = await Zotero.File.getContentsAsync(filePath, "utf-8");
-        if (typeof content === "string" && content.trim()) return content;
+        if (typeof content === "string" && content.trim()) {
+          return { markdown: content, markdownPath: filePath };
+        }
       }
     } catch (error) {
       ztoolkit.log("[AI-Butler][MinerU] 读取外部 Markdown 缓存失败:", error);
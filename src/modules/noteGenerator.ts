@@ -28,6 +28,7 @@
 import { ContentExtractor } from "./contentExtractor";
 import { PDFExtractor } from "./pdfExtractor";
 import LLMService, {
+  LLMStructuredOutputError,
   type LLMChatRequest,
   type LLMLifecycleEvent,
 } from "./llmService";
@@ -42,11 +43,17 @@ import {
   type LLMNoteMetadata,
 } from "./llmNoteMetadata";
 import { markdownToZoteroNoteHtml, zoteroNoteMathHtml } from "./noteMarkdown";
-import type { LLMAbortSignal, LLMResponse } from "./llmproviders/types";
+import type {
+  LLMAbortSignal,
+  LLMResponse,
+  LLMUsage,
+} from "./llmproviders/types";
 import {
   isAbortError,
   throwIfAborted,
 } from "./llmproviders/shared/requestAbort";
+import { logContextCacheSavings } from "./llmproviders/shared/llmutils";
+import { summarizeContextCacheUsage } from "./llmproviders/shared/contextCache";
 import { SummaryView } from "./views/SummaryView";
 import { getPref } from "../utils/prefs";
 import { getString } from "../utils/locale";
@@ -58,9 +65,13 @@ import {
   getBuiltinMultiRoundPromptTemplates,
   getDefaultMultiRoundPromptTemplate,
   mergeMultiRoundPromptTemplates,
+  CHAPTER_STRUCTURE_SCHEMA,
+  chapterStructureFromData,
   parseChapterStructureResult,
   parseManualChapterStructure,
   parseMultiRoundPromptTemplates,
+  buildConsensusMergePrompt,
+  type ChapterParseResult,
   type MultiRoundPromptTemplate,
   type SummaryMode,
 } from "../utils/prompts";
@@ -82,6 +93,7 @@ import {
 } from "./deepReadEngine";
 import { isTableFeatureEnabled } from "./uiCustomization";
 import { AiNoteService, type AiNoteKind } from "./aiNoteService";
+import { AiNoteHistory } from "./aiNoteHistory";
 
 /** 多轮精读会话的端点状态 */
 type DeepReadSession = {
@@ -89,6 +101,37 @@ type DeepReadSession = {
   endpointId?: string;
   /** 端点重试耗尽后是否允许回退全局路由换端点续跑 */
   allowFallback: boolean;
+  /** 用于用量账本归属的条目 ID */
+  itemId?: number;
+  /** 本次精读共享论文上下文的缓存标识；未开启提示词缓存优化时为空 */
+  contextCacheKey?: string;
+  /** 各轮用量，结束时汇总缓存命中 */
+  usages: LLMUsage[];
+};
+
+type DeepReadContentParams = {
+  item: Zotero.Item;
+  existing: Zotero.Item | null;
+  existingHtml: string;
+  policy: string;
+  pdfContent: string;
+  isBase64: boolean;
+  itemTitle: string;
+  outputWindow?: SummaryView;
+  progressCallback?: (
+    message: string,
+    progress: number,
+    meta?: TaskProgressMeta,
+  ) => void;
+  streamCallback?: (chunk: string) => void;
+  abortSignal?: LLMAbortSignal;
+};
+
+type DeepReadContentResult = {
+  note: Zotero.Item;
+  content: string;
+  noteHtml: string;
+  response?: LLMResponse;
 };
 
 type MultiModelSummaryResult = {
@@ -253,7 +296,10 @@ export class NoteGenerator {
       }
 
       // 读取当前主模型的 PDF 处理模式和附件选择模式
-      const prefMode = LLMService.getEffectivePdfProcessMode();
+      const prefMode = LLMService.getEffectivePdfProcessMode(
+        undefined,
+        noteKind,
+      );
       const pdfAttachmentMode =
         (getPref("pdfAttachmentMode" as any) as string) || "default";
       if (
@@ -354,6 +400,9 @@ export class NoteGenerator {
         );
       }
 
+      // 生成前取定总结提示词，随请求发送并记入笔记历史，避免生成期间修改设置导致不一致
+      const summaryPrompt = LLMService.getDefaultPrompt();
+
       // 根据总结模式选择不同的生成策略
       if (useMultiModelSummary) {
         const multiModelResult = await this.generateMultiModelSummaryContent({
@@ -365,6 +414,7 @@ export class NoteGenerator {
           isBase64,
           pdfAttachmentMode,
           prefMode,
+          prompt: summaryPrompt,
           outputWindow,
           progressCallback,
           streamCallback,
@@ -400,6 +450,7 @@ export class NoteGenerator {
               item,
               attachmentMode: "all",
             },
+            prompt: summaryPrompt,
             transport: {
               abortSignal: options?.abortSignal,
               onStatus: (event) =>
@@ -415,6 +466,7 @@ export class NoteGenerator {
               item,
               attachmentMode: "default",
             },
+            prompt: summaryPrompt,
             transport: {
               abortSignal: options?.abortSignal,
               onStatus: (event) =>
@@ -495,6 +547,9 @@ export class NoteGenerator {
         html: noteContent,
         existing,
         policy,
+        history: {
+          prompt: noteKind === "summary" ? summaryPrompt : undefined,
+        },
       });
 
       // 如果有输出窗口,标记当前条目完成
@@ -640,6 +695,7 @@ export class NoteGenerator {
     isBase64: boolean;
     pdfAttachmentMode: string;
     prefMode: string;
+    prompt: string;
     outputWindow?: SummaryView;
     progressCallback?: (
       message: string,
@@ -658,6 +714,7 @@ export class NoteGenerator {
       isBase64,
       pdfAttachmentMode,
       prefMode,
+      prompt,
       outputWindow,
       progressCallback,
       streamCallback,
@@ -691,6 +748,7 @@ export class NoteGenerator {
           isBase64,
           pdfAttachmentMode,
           prefMode,
+          prompt,
           abortSignal,
         });
         completed++;
@@ -755,12 +813,25 @@ export class NoteGenerator {
       throw error;
     }
 
-    const content = successes
-      .map((result) => this.formatMultiModelDisplayMarkdown(result))
-      .join("\n\n---\n\n");
-    const noteHtml = successes
-      .map((result) => result.noteHtml)
-      .join("\n<hr/>\n");
+    const consensus = await this.mergeMultiModelSummaries({
+      item,
+      itemTitle,
+      successes,
+      progressCallback,
+      abortSignal,
+    });
+
+    const content = [
+      ...(consensus ? [this.formatConsensusDisplayMarkdown(consensus)] : []),
+      ...successes.map((result) =>
+        this.formatMultiModelDisplayMarkdown(result),
+      ),
+    ].join("\n\n---\n\n");
+    // 共识区块放在最后，侧边栏与最新总结默认选中它
+    const noteHtml = [
+      ...successes.map((result) => result.noteHtml),
+      ...(consensus ? [consensus.noteHtml] : []),
+    ].join("\n<hr/>\n");
     const displayContent = [
       getString("note-generator-multimodel-complete-heading", {
         args: { success: successes.length, total },
@@ -807,6 +878,87 @@ export class NoteGenerator {
     return { content, noteHtml };
   }
 
+  /**
+   * 由裁判端点合并各模型的总结
+   *
+   * 未配置裁判端点或成功的总结少于两份时不合并；合并失败只记录日志，保留各模型的总结。
+   * 合并结果的元数据通过 sourceBlockIds 指向被合并的区块。
+   */
+  private static async mergeMultiModelSummaries(params: {
+    item: Zotero.Item;
+    itemTitle: string;
+    successes: MultiModelSummaryResult[];
+    progressCallback?: (
+      message: string,
+      progress: number,
+      meta?: TaskProgressMeta,
+    ) => void;
+    abortSignal?: LLMAbortSignal;
+  }): Promise<MultiModelSummaryResult | null> {
+    const { item, itemTitle, successes, progressCallback, abortSignal } =
+      params;
+    const judge = LLMEndpointManager.getMultiModelSummaryJudgeEndpoint();
+    if (!judge || successes.length < 2) return null;
+
+    progressCallback?.(
+      getString("note-generator-multimodel-consensus-progress", {
+        args: { name: judge.name, count: successes.length },
+      }),
+      79,
+    );
+    const sources = successes
+      .map(
+        (result) =>
+          `<Summary source="${this.formatConsensusSourceName(result)}">\n${result.content}\n</Summary>`,
+      )
+      .join("\n\n");
+
+    try {
+      const response = await LLMService.generateWithEndpoint(judge.id, {
+        task: "summary",
+        prompt: buildConsensusMergePrompt(successes.length),
+        content: { kind: "text", text: sources, policy: "text" },
+        transport: { abortSignal },
+        metadata: { itemId: item.id },
+      });
+      const content = response.text;
+      if (!content || !content.trim()) {
+        throw new Error(getString("note-generator-error-empty-response"));
+      }
+      const metadata: LLMNoteMetadata = {
+        ...LLMNoteMetadataService.fromResponse("summary", response),
+        sourceBlockIds: successes.map((result) => result.metadata.blockId),
+      };
+      const noteHtml = this.formatNoteContent(
+        itemTitle,
+        content,
+        getString("note-generator-multimodel-consensus-title"),
+        metadata,
+      );
+      return { endpoint: judge, content, response, metadata, noteHtml };
+    } catch (error) {
+      if (isAbortError(error, abortSignal)) throw error;
+      ztoolkit.log(`[AI Butler] 多模型总结合并失败: ${judge.name}`, error);
+      progressCallback?.(
+        getString("note-generator-multimodel-consensus-failed", {
+          args: { name: judge.name },
+        }),
+        79,
+      );
+      return null;
+    }
+  }
+
+  private static formatConsensusSourceName(
+    result: MultiModelSummaryResult,
+  ): string {
+    const model = result.response.model || result.endpoint.model;
+    const name = model
+      ? `${result.endpoint.name} / ${model}`
+      : result.endpoint.name;
+    return name.replace(/"/g, "'");
+  }
+
   private static async generateSummaryWithEndpoint(params: {
     item: Zotero.Item;
     itemTitle: string;
@@ -816,6 +968,7 @@ export class NoteGenerator {
     isBase64: boolean;
     pdfAttachmentMode: string;
     prefMode: string;
+    prompt: string;
     abortSignal?: LLMAbortSignal;
   }): Promise<MultiModelSummaryResult> {
     const {
@@ -827,6 +980,7 @@ export class NoteGenerator {
       isBase64,
       pdfAttachmentMode,
       prefMode,
+      prompt,
       abortSignal,
     } = params;
 
@@ -849,6 +1003,7 @@ export class NoteGenerator {
         item,
         attachmentMode,
       },
+      prompt,
       transport: { abortSignal },
     });
     const content = response.text;
@@ -900,6 +1055,18 @@ export class NoteGenerator {
     ].join("\n");
   }
 
+  private static formatConsensusDisplayMarkdown(
+    result: MultiModelSummaryResult,
+  ): string {
+    return [
+      getString("note-generator-multimodel-consensus-heading", {
+        args: { name: result.endpoint.name },
+      }),
+      "",
+      result.content,
+    ].join("\n");
+  }
+
   /**
    * 格式化笔记内容
    *
@@ -1133,28 +1300,60 @@ export class NoteGenerator {
   /**
    * Execute the AI deep read v2 two-phase workflow.
    */
-  private static async generateDeepReadContent(params: {
-    item: Zotero.Item;
-    existing: Zotero.Item | null;
-    existingHtml: string;
-    policy: string;
-    pdfContent: string;
-    isBase64: boolean;
-    itemTitle: string;
-    outputWindow?: SummaryView;
-    progressCallback?: (
-      message: string,
-      progress: number,
-      meta?: TaskProgressMeta,
-    ) => void;
-    streamCallback?: (chunk: string) => void;
-    abortSignal?: LLMAbortSignal;
-  }): Promise<{
-    note: Zotero.Item;
-    content: string;
-    noteHtml: string;
-    response?: LLMResponse;
-  }> {
+  private static async generateDeepReadContent(
+    params: DeepReadContentParams,
+  ): Promise<DeepReadContentResult> {
+    const session = this.createDeepReadSession(params.item.id);
+    try {
+      return await this.runDeepReadRounds(params, session);
+    } finally {
+      await this.finishDeepReadSession(session);
+    }
+  }
+
+  /**
+   * 创建多轮精读会话：开启提示词缓存优化时固定端点，并为论文上下文分配缓存标识
+   */
+  private static createDeepReadSession(itemId: number): DeepReadSession {
+    const session: DeepReadSession = {
+      allowFallback: false,
+      itemId,
+      usages: [],
+    };
+    const cacheOptEnabled =
+      (getPref("enablePromptCacheOptimization" as any) as boolean) === true;
+    if (!cacheOptEnabled) return session;
+    session.contextCacheKey = `deepread-${itemId}-${Date.now().toString(36)}`;
+    try {
+      session.endpointId = LLMService.acquireChatSessionEndpoint("deepRead").id;
+      session.allowFallback = true;
+    } catch (error) {
+      ztoolkit.log(
+        "[AI-Butler] Failed to acquire deep-read cache session endpoint; falling back to per-call routing:",
+        error,
+      );
+    }
+    return session;
+  }
+
+  /**
+   * 精读结束：记录缓存命中并释放供应商侧上下文缓存
+   */
+  private static async finishDeepReadSession(
+    session: DeepReadSession,
+  ): Promise<void> {
+    if (!session.contextCacheKey) return;
+    logContextCacheSavings(
+      "Deep read",
+      summarizeContextCacheUsage(session.usages),
+    );
+    await LLMService.releaseContextCache(session.contextCacheKey);
+  }
+
+  private static async runDeepReadRounds(
+    params: DeepReadContentParams,
+    session: DeepReadSession,
+  ): Promise<DeepReadContentResult> {
     const currentTemplate = this.getActiveDeepReadTemplate();
     const hasExistingDeepReadHtml = !!params.existingHtml?.trim();
     const shouldResume =
@@ -1193,22 +1392,9 @@ export class NoteGenerator {
       );
     }
 
-    const session: DeepReadSession = { allowFallback: false };
-    const cacheOptEnabled =
-      (getPref("enablePromptCacheOptimization" as any) as boolean) === true;
-    if (cacheOptEnabled) {
-      try {
-        session.endpointId = LLMService.acquireChatSessionEndpoint().id;
-        session.allowFallback = true;
-      } catch (error) {
-        ztoolkit.log(
-          "[AI-Butler] Failed to acquire deep-read cache session endpoint; falling back to per-call routing:",
-          error,
-        );
-      }
-    }
-
     let lastResponse: LLMResponse | undefined;
+    // 各轮自动续写次数之和，写入笔记元数据
+    let continuations = 0;
     let chapters =
       restoredPlan?.chapters ||
       (shouldResume
@@ -1240,17 +1426,28 @@ export class NoteGenerator {
           detail: getString("progress-deepread-parsing-detail"),
         },
       );
-      const planningResponse = await this.callDeepReadChat({
-        session,
-        pdfContent: params.pdfContent,
-        isBase64: params.isBase64,
-        conversation: [{ role: "user", content: planningPrompt }],
-        abortSignal: params.abortSignal,
-        onStatus: (event) =>
-          this.forwardLLMStatus(params.progressCallback, event),
-      });
-      lastResponse = planningResponse;
-      const parsedChapters = parseChapterStructureResult(planningResponse.text);
+      let parsedChapters: ChapterParseResult;
+      try {
+        const planningResponse = await this.callDeepReadChat({
+          session,
+          pdfContent: params.pdfContent,
+          isBase64: params.isBase64,
+          conversation: [{ role: "user", content: planningPrompt }],
+          output: { schema: CHAPTER_STRUCTURE_SCHEMA },
+          abortSignal: params.abortSignal,
+          onStatus: (event) =>
+            this.forwardLLMStatus(params.progressCallback, event),
+        });
+        lastResponse = planningResponse;
+        continuations += planningResponse.continuations || 0;
+        parsedChapters =
+          chapterStructureFromData(planningResponse.data) ||
+          parseChapterStructureResult(planningResponse.text);
+      } catch (error) {
+        // 结构化输出修正后仍不合法时，回退到从原始回复中提取章节
+        if (!(error instanceof LLMStructuredOutputError)) throw error;
+        parsedChapters = parseChapterStructureResult(error.rawText);
+      }
       chapters =
         parsedChapters.source === "fallback"
           ? this.promptManualChapterStructure() || parsedChapters.chapters
@@ -1370,6 +1567,15 @@ export class NoteGenerator {
       template,
       planned,
     );
+    // 精读分多轮写入笔记，历史只在本次运行开始前与结束后各留存一次
+    const beforeHtml = params.existing
+      ? ((params.existing as any).getNote?.() as string) ||
+        params.existingHtml ||
+        ""
+      : "";
+    await AiNoteHistory.recordSnapshot(params.item, "deepRead", beforeHtml, {
+      reason: "previous",
+    });
     const note = shouldResume
       ? (params.existing as Zotero.Item)
       : await AiNoteService.saveGeneratedNote({
@@ -1378,6 +1584,7 @@ export class NoteGenerator {
           html: skeleton,
           existing: params.existing,
           policy: params.policy === "append" ? "append" : "overwrite",
+          history: false,
         });
 
     if (shouldResume) {
@@ -1401,11 +1608,14 @@ export class NoteGenerator {
     }
 
     let writeQueue = Promise.resolve();
+    // 本次运行写入的分节提示词，随结束后的历史快照记录
+    const completedPrompts: string[] = [];
     const updateSlot = async (
       slot: DeepReadSlot,
       markdown: string,
       status: "done" | "error" = "done",
     ) => {
+      if (status === "done") completedPrompts.push(slot.prompt);
       params.outputWindow?.updateDeepReadProgressSlot?.(
         slot.id,
         slot.title,
@@ -1465,6 +1675,10 @@ export class NoteGenerator {
         );
         return;
       }
+      await AiNoteHistory.recordSnapshot(params.item, "deepRead", currentHtml, {
+        reason: "previous",
+      });
+      let retryResponse: LLMResponse | undefined;
       await markSlotRunning(slot);
       notifyDeepReadSlotProgress(
         slot,
@@ -1483,6 +1697,8 @@ export class NoteGenerator {
           },
         });
         lastResponse = response;
+        retryResponse = response;
+        continuations += response.continuations || 0;
         await updateSlot(slot, response.text, "done");
         notifyDeepReadSlotProgress(
           slot,
@@ -1492,6 +1708,19 @@ export class NoteGenerator {
       } catch (error: any) {
         if (isAbortError(error, params.abortSignal)) throw error;
         await updateSlot(slot, error?.message || String(error), "error");
+      } finally {
+        await writeQueue.catch(() => undefined);
+        await AiNoteHistory.recordSnapshot(
+          params.item,
+          "deepRead",
+          ((note as any).getNote?.() as string) || "",
+          {
+            reason: "slot",
+            prompt: slot.prompt,
+            label: slot.title,
+            response: retryResponse,
+          },
+        );
       }
     });
 
@@ -1550,6 +1779,7 @@ export class NoteGenerator {
             },
           });
           lastResponse = response;
+          continuations += response.continuations || 0;
           previousAnswer = response.text;
           collected.push(`# ${slot.title}\n\n${response.text}`);
           fullHistory.push({ role: "user", content: userPrompt });
@@ -1615,6 +1845,7 @@ export class NoteGenerator {
               : undefined,
           });
           lastResponse = response;
+          continuations += response.continuations || 0;
           collected.push(`# ${slot.title}\n\n${response.text}`);
           if (!streamLive) {
             params.streamCallback?.(response.text);
@@ -1727,6 +1958,19 @@ export class NoteGenerator {
         }
       }
       throw error;
+    } finally {
+      await writeQueue.catch(() => undefined);
+      await AiNoteHistory.recordSnapshot(
+        params.item,
+        "deepRead",
+        ((note as any).getNote?.() as string) || "",
+        {
+          reason: "generate",
+          label: template.name,
+          prompt: completedPrompts.join("\n\n") || undefined,
+          response: lastResponse,
+        },
+      );
     }
 
     await writeQueue;
@@ -1735,7 +1979,10 @@ export class NoteGenerator {
       note,
       content: collected.join("\n\n---\n\n") || noteHtml,
       noteHtml,
-      response: lastResponse,
+      response:
+        lastResponse && continuations
+          ? { ...lastResponse, continuations }
+          : lastResponse,
     };
   }
 
@@ -1794,6 +2041,7 @@ export class NoteGenerator {
     pdfContent: string;
     isBase64: boolean;
     conversation: Array<{ role: "user" | "assistant"; content: string }>;
+    output?: LLMChatRequest["output"];
     abortSignal?: LLMAbortSignal;
     onProgress?: (chunk: string) => void;
     onStatus?: (event: LLMLifecycleEvent) => void;
@@ -1804,44 +2052,20 @@ export class NoteGenerator {
       isBase64: params.isBase64,
       policy: params.isBase64 ? ("pdf-base64" as const) : ("text" as const),
     };
-    let conversation = params.conversation;
-    let response = await this.chatWithDeepReadSession(params.session, {
+    // 截断后的续写由 LLMService 统一处理
+    const response = await this.chatWithDeepReadSession(params.session, {
       content,
-      conversation,
+      conversation: params.conversation,
+      output: params.output,
       transport: {
         abortSignal: params.abortSignal,
         onStatus: params.onStatus,
+        contextCacheKey: params.session?.contextCacheKey,
       },
+      metadata: { taskType: "deepRead", itemId: params.session?.itemId },
       onProgress: params.onProgress,
     });
-    let text = response.text;
-
-    for (
-      let attempt = 0;
-      attempt < 2 && this.isLikelyTruncated(response);
-      attempt++
-    ) {
-      throwIfAborted(params.abortSignal);
-      const continuePrompt =
-        "The previous answer appears to be truncated. Continue exactly from where it stopped. Do not repeat earlier content.";
-      conversation = [
-        ...conversation,
-        { role: "assistant", content: response.text },
-        { role: "user", content: continuePrompt },
-      ];
-      const continuation = await this.chatWithDeepReadSession(params.session, {
-        content,
-        conversation,
-        transport: {
-          abortSignal: params.abortSignal,
-          onStatus: params.onStatus,
-        },
-        onProgress: params.onProgress,
-      });
-      response = { ...continuation, text: text + "\n\n" + continuation.text };
-      text = response.text;
-    }
-
+    if (response.usage) params.session?.usages.push(response.usage);
     return response;
   }
 
@@ -1859,6 +2083,7 @@ export class NoteGenerator {
     } catch (error) {
       if (
         !session.allowFallback ||
+        error instanceof LLMStructuredOutputError ||
         isAbortError(error, chatRequest.transport?.abortSignal)
       ) {
         throw error;
@@ -1875,13 +2100,6 @@ export class NoteGenerator {
     }
   }
 
-  private static isLikelyTruncated(response: LLMResponse): boolean {
-    const reason = (response.finishReason || "").toLowerCase();
-    return ["length", "max_tokens", "max_output_tokens", "content_filter"].some(
-      (value) => reason.includes(value),
-    );
-  }
-
   private static shouldStopDeepReadOnError(error: unknown): boolean {
     const value = error as
       | {
@@ -1737,6 +1737,7 @@ function getLiveStatusBody(state: OverlayTourState, task?: TaskItem): string {
     [TaskStatus.PROCESSING]: getString("task-status-processing"),
     [TaskStatus.COMPLETED]: getString("task-status-completed"),
     [TaskStatus.FAILED]: getString("task-status-failed"),
+    [TaskStatus.PAUSED]: getString("task-status-paused"),
   };
   const stage = task.stageLabel || task.workflowStage || statusMap[task.status];
   const detail = task.stageDetail ? `；${task.stageDetail}` : "";
@@ -22,6 +22,8 @@
 
 import { getString } from "../utils/locale";
 import { getPref } from "../utils/prefs";
+import { ContentCache } from "./contentCache";
+import { PdfOcr, formatOcrText } from "./pdfOcr";
 import type { TaskProgressMeta } from "./taskQueue";
 
 type PDFTextExtractionStep = {
@@ -33,6 +35,9 @@ type PDFTextExtractionStep = {
   cachePath?: string;
   cacheExists?: boolean;
   cacheSize?: number;
+  ocrEngine?: string;
+  /** OCR 识别出文字的页码 */
+  ocrPages?: number[];
   elapsedMs?: number;
 };
 
@@ -92,6 +97,76 @@ export class PDFExtractor {
   private static readonly TEXT_EXTRACTION_TIMEOUT_MS = 30000;
   private static readonly TEXT_EXTRACTION_POLL_INTERVAL_MS = 1000;
 
+  /** 依赖链共享的提取结果：条目 ID → 引用计数与缓存中的提取 Promise */
+  private static readonly sharedExtractions = new Map<
+    number,
+    { refs: number; results: Map<string, Promise<string>> }
+  >();
+
+  /**
+   * 保留条目的提取结果供后续任务复用（如 AI 总结完成后排队的一图总结、思维导图）
+   *
+   * 保留期间同一条目相同模式的文本提取 / Base64 读取只执行一次；
+   * 需与 releaseSharedExtraction 配对调用，引用归零后释放内存。
+   */
+  public static retainSharedExtraction(itemId: number): void {
+    const entry = this.sharedExtractions.get(itemId);
+    if (entry) {
+      entry.refs += 1;
+      return;
+    }
+    this.sharedExtractions.set(itemId, { refs: 1, results: new Map() });
+  }
+
+  public static releaseSharedExtraction(itemId: number): void {
+    const entry = this.sharedExtractions.get(itemId);
+    if (!entry) return;
+    entry.refs -= 1;
+    if (entry.refs <= 0) {
+      this.sharedExtractions.delete(itemId);
+    }
+  }
+
+  private static withSharedExtraction(
+    itemId: number,
+    key: string,
+    extract: () => Promise<string>,
+    progressCallback?: PdfExtractionProgressCallback,
+  ): Promise<string> {
+    const entry = this.sharedExtractions.get(itemId);
+    if (!entry) return extract();
+
+    const cached = entry.results.get(key);
+    if (cached) {
+      progressCallback?.(getString("progress-pdf-shared-reused-message"), 38, {
+        stage: "pdf-extracting",
+        label: getString("progress-pdf-extracted"),
+        detail: getString("progress-pdf-shared-reused-detail"),
+      });
+      return cached;
+    }
+
+    const pending = extract();
+    entry.results.set(key, pending);
+    // 失败的提取不缓存，后续任务重新尝试
+    pending.catch(() => {
+      if (entry.results.get(key) === pending) {
+        entry.results.delete(key);
+      }
+    });
+    return pending;
+  }
+
+  private static reportContentCacheHit(
+    progressCallback?: PdfExtractionProgressCallback,
+  ): void {
+    progressCallback?.(getString("progress-content-cache-hit-message"), 38, {
+      stage: "pdf-extracting",
+      label: getString("progress-pdf-extracted"),
+      detail: getString("progress-content-cache-hit-detail"),
+    });
+  }
+
   /**
    * 检查条目是否有可用的 PDF 附件
    *
@@ -242,7 +317,23 @@ export class PDFExtractor {
    * console.log(`提取了 ${fullText.length} 个字符`);
    * ```
    */
-  public static async extractTextFromItem(
+  public static extractTextFromItem(
+    item: Zotero.Item,
+    pdfProcessMode?: string,
+    progressCallback?: PdfExtractionProgressCallback,
+  ): Promise<string> {
+    return this.withSharedExtraction(
+      item.id,
+      `text:${(pdfProcessMode || (getPref("pdfProcessMode") as string) || "")
+        .trim()
+        .toLowerCase()}`,
+      () =>
+        this.extractTextFromItemDirect(item, pdfProcessMode, progressCallback),
+      progressCallback,
+    );
+  }
+
+  private static async extractTextFromItemDirect(
     item: Zotero.Item,
     pdfProcessMode?: string,
     progressCallback?: PdfExtractionProgressCallback,
@@ -301,7 +392,12 @@ export class PDFExtractor {
       );
       try {
         const { MineruClient } = await import("./mineruIntegration");
-        return await MineruClient.extractMarkdown(item, progressCallback);
+        return await ContentCache.getOrCreate(
+          pdfAttachment,
+          "mineru",
+          () => MineruClient.extractMarkdown(item, progressCallback),
+          () => this.reportContentCacheHit(progressCallback),
+        );
       } catch (e) {
         ztoolkit.log(
           "[AI Butler] MinerU extraction failed, returning to Zotero built-in extraction",
@@ -318,7 +414,12 @@ export class PDFExtractor {
         args: { title: pdfAttachment.getField("title") || "PDF" },
       }),
     });
-    const text = await this.extractTextFromPDF(pdfAttachment);
+    const text = await ContentCache.getOrCreate(
+      pdfAttachment,
+      "text",
+      () => this.extractTextFromPDF(pdfAttachment, progressCallback),
+      () => this.reportContentCacheHit(progressCallback),
+    );
 
     // 第四步:验证文本有效性
     if (!text || text.trim().length === 0) {
@@ -344,6 +445,7 @@ export class PDFExtractor {
    * 1. 检查 PDF 是否已被索引
    * 2. 如果未索引,触发全文索引并等待完成
    * 3. 读取索引缓存文件,获取提取的文本
+   * 4. 仍无文字层(扫描版 PDF)时,交给已配置的本地 OCR 引擎识别
    *
    * 技术优势:
    * - 复用 Zotero 的全文索引,无需重复解析
@@ -358,6 +460,7 @@ export class PDFExtractor {
    */
   private static async extractTextFromPDF(
     pdfAttachment: Zotero.Item,
+    progressCallback?: PdfExtractionProgressCallback,
   ): Promise<string> {
     const startedAtMs = Date.now();
     const diagnostics = this.createTextExtractionDiagnostics(pdfAttachment);
@@ -439,6 +542,17 @@ export class PDFExtractor {
         );
       }
 
+      // 没有文字层,尝试 OCR
+      const ocrText = await this.tryOcrPdf(
+        path,
+        diagnostics,
+        startedAtMs,
+        progressCallback,
+      );
+      if (ocrText) {
+        return ocrText;
+      }
+
       // 所有尝试都失败
       throw this.createTextExtractionError(
         "Unable to extract text from PDF",
@@ -665,6 +779,66 @@ export class PDFExtractor {
     }
   }
 
+  private static async tryOcrPdf(
+    path: string,
+    diagnostics: PDFTextExtractionDiagnostics,
+    startedAtMs: number,
+    progressCallback?: PdfExtractionProgressCallback,
+  ): Promise<string> {
+    const engine = PdfOcr.getActiveEngine();
+    if (!engine) {
+      diagnostics.steps.push({
+        step: "ocr",
+        ok: false,
+        message: getString("pdf-diagnostic-message-ocr-disabled"),
+        elapsedMs: Date.now() - startedAtMs,
+      });
+      return "";
+    }
+
+    progressCallback?.(getString("progress-pdf-ocr-message"), 24, {
+      stage: "pdf-extracting",
+      label: getString("progress-pdf-extracting"),
+      detail: getString("progress-pdf-ocr-detail", {
+        args: { engine: engine.id },
+      }),
+    });
+    try {
+      const result = await PdfOcr.recognize(path);
+      const pages = result?.pages || [];
+      const text = result ? formatOcrText(result) : "";
+      diagnostics.steps.push({
+        step: "ocr",
+        ok: text.trim().length > 0,
+        ocrEngine: engine.id,
+        ocrPages: pages.map((page) => page.page),
+        textLength: text.trim().length,
+        message:
+          pages.length > 0
+            ? getString("pdf-diagnostic-message-ocr-recognized", {
+                args: { count: pages.length },
+              })
+            : getString("pdf-diagnostic-message-empty-text"),
+        elapsedMs: Date.now() - startedAtMs,
+      });
+      if (pages.length > 0) {
+        ztoolkit.log(
+          `[PDFExtractor] OCR (${engine.id}) 识别页: ${pages.map((page) => page.page).join(", ")}`,
+        );
+      }
+      return text.trim().length > 0 ? text : "";
+    } catch (error: unknown) {
+      diagnostics.steps.push({
+        step: "ocr",
+        ok: false,
+        ocrEngine: engine.id,
+        message: error instanceof Error ? error.message : String(error),
+        elapsedMs: Date.now() - startedAtMs,
+      });
+      return "";
+    }
+  }
+
   private static createTextExtractionError(
     message: string,
     diagnostics: PDFTextExtractionDiagnostics,
@@ -774,6 +948,16 @@ export class PDFExtractor {
                 args: { value: value(step.cacheSize) },
               })
             : "",
+          step.ocrEngine
+            ? getString("pdf-diagnostic-step-ocr-engine", {
+                args: { value: value(step.ocrEngine) },
+              })
+            : "",
+          step.ocrPages?.length
+            ? getString("pdf-diagnostic-step-ocr-pages", {
+                args: { value: step.ocrPages.join(", ") },
+              })
+            : "",
           step.message
             ? getString("pdf-diagnostic-step-message", {
                 args: { value: value(step.message) },
@@ -801,7 +985,9 @@ export class PDFExtractor {
       throw new Error(getString("pdf-error-attachment-not-pdf"));
     }
 
-    const text = await this.extractTextFromPDF(pdfAttachment);
+    const text = await ContentCache.getOrCreate(pdfAttachment, "text", () =>
+      this.extractTextFromPDF(pdfAttachment),
+    );
     if (!text || text.trim().length === 0) {
       throw new Error(getString("pdf-error-text-empty"));
     }
@@ -928,7 +1114,19 @@ export class PDFExtractor {
    * // 发送给 API: { mimeType: "application/pdf", data: base64Pdf }
    * ```
    */
-  public static async extractBase64FromItem(
+  public static extractBase64FromItem(
+    item: Zotero.Item,
+    progressCallback?: PdfExtractionProgressCallback,
+  ): Promise<string> {
+    return this.withSharedExtraction(
+      item.id,
+      "base64",
+      () => this.extractBase64FromItemDirect(item, progressCallback),
+      progressCallback,
+    );
+  }
+
+  private static async extractBase64FromItemDirect(
     item: Zotero.Item,
     progressCallback?: PdfExtractionProgressCallback,
   ): Promise<string> {
@@ -969,51 +1167,17 @@ export class PDFExtractor {
       `[AI Butler] Selected oldest PDF (Base64): ${pdfAttachment.getField("title")} (Added: ${pdfAttachment.dateAdded})`,
     );
 
-    // 第三步: 获取 PDF 文件路径
-    const pdfPath = await pdfAttachment.getFilePathAsync();
-    if (!pdfPath) {
-      throw new Error(getString("pdf-error-get-file-path-failed"));
-    }
-
-    // 第四步: 读取 PDF 文件内容
-    try {
-      // 使用 Zotero 的 File.readAsync 读取二进制文件
-      const pdfData = await Zotero.File.getBinaryContentsAsync(pdfPath);
-
-      if (!pdfData || pdfData.length === 0) {
-        throw new Error(getString("pdf-error-file-empty-or-unreadable"));
-      }
-
-      // 第五步: 转换为 Base64 编码
-      // pdfData 是字符串形式的二进制数据,需要转换为字节数组
-      const bytes = new Uint8Array(pdfData.length);
-      for (let i = 0; i < pdfData.length; i++) {
-        bytes[i] = pdfData.charCodeAt(i);
-      }
+    // 第三步: 读取 PDF 文件并转换为 Base64 编码
+    const base64String = await this.readBase64FromAttachment(pdfAttachment);
 
-      // 使用 btoa 函数进行 Base64 编码
-      let binary = "";
-      const len = bytes.byteLength;
-      for (let i = 0; i < len; i++) {
-        binary += String.fromCharCode(bytes[i]);
-      }
-      const base64String = btoa(binary);
-
-      progressCallback?.(getString("progress-pdf-base64-ready-message"), 35, {
-        stage: "pdf-extracting",
-        label: getString("progress-pdf-prepared"),
-        detail: getString("progress-pdf-base64-detail", {
-          args: { length: base64String.length },
-        }),
-      });
-      return base64String;
-    } catch (error: any) {
-      throw new Error(
-        getString("pdf-error-read-or-encode-failed", {
-          args: { message: error.message },
-        }),
-      );
-    }
+    progressCallback?.(getString("progress-pdf-base64-ready-message"), 35, {
+      stage: "pdf-extracting",
+      label: getString("progress-pdf-prepared"),
+      detail: getString("progress-pdf-base64-detail", {
+        args: { length: base64String.length },
+      }),
+    });
+    return base64String;
   }
 
   /**
@@ -1026,6 +1190,12 @@ export class PDFExtractor {
       throw new Error(getString("pdf-error-attachment-not-pdf"));
     }
 
+    return this.readBase64FromAttachment(pdfAttachment);
+  }
+
+  private static async readBase64FromAttachment(
+    pdfAttachment: Zotero.Item,
+  ): Promise<string> {
     const pdfPath = await pdfAttachment.getFilePathAsync();
     if (!pdfPath) {
       throw new Error(getString("pdf-error-get-file-path-failed"));
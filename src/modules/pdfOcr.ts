@@ -0,0 +1,157 @@
+/**
+ * 扫描版 PDF 的本地 OCR 兜底
+ *
+ * Zotero 全文索引拿不到文字层时，PDFExtractor 调用这里的 OCR 引擎识别文字，
+ * 结果与普通文本提取走同一条流水线（清理、截断、内容缓存）。
+ *
+ * 引擎可插拔：`pdfOcrEngine` 选择已注册的引擎，`off` 表示关闭。内置的
+ * `command` 引擎调用用户配置的本地程序（默认参数适配 OCRmyPDF + Tesseract），
+ * 程序需把识别出的文本写入 `{output}`，页与页之间用换页符 `\f` 分隔。
+ * 其他引擎（如 WASM OCR）可通过 `PdfOcr.registerEngine` 接入。
+ */
+import { getPref } from "../utils/prefs";
+
+export interface PdfOcrPage {
+  /** 页码，从 1 开始 */
+  page: number;
+  text: string;
+}
+
+export interface PdfOcrResult {
+  engine: string;
+  pages: PdfOcrPage[];
+}
+
+export interface PdfOcrEngine {
+  id: string;
+  /** 配置是否完整（如已填写程序路径） */
+  isConfigured(): boolean;
+  recognize(pdfPath: string): Promise<PdfOcrPage[]>;
+}
+
+export const DEFAULT_OCR_COMMAND_ARGS =
+  "--force-ocr --output-type pdf -l {lang} --sidecar {output} {input} {outputPdf}";
+
+/**
+ * 把参数模板拆分为参数数组并替换占位符
+ *
+ * 支持用单引号或双引号包裹含空格的参数；占位符替换在拆分之后进行，
+ * 因此路径中的空格不会被再次拆开。
+ */
+export function buildOcrCommandArgs(
+  template: string,
+  values: Record<string, string>,
+): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(template))) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens.map((token) =>
+    token.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      Object.prototype.hasOwnProperty.call(values, name)
+        ? values[name]
+        : placeholder,
+    ),
+  );
+}
+
+/**
+ * 按换页符拆分 OCR 输出，跳过没有识别出文字的页
+ */
+export function splitOcrPages(text: string): PdfOcrPage[] {
+  return text
+    .split("\f")
+    .map((pageText, index) => ({ page: index + 1, text: pageText.trim() }))
+    .filter((page) => page.text.length > 0);
+}
+
+/**
+ * 拼接 OCR 结果：开头注明文本来自 OCR 与识别引擎，每页前加页码标记，
+ * 便于模型引用页码，也提示其中可能有识别错误
+ */
+export function formatOcrText(result: PdfOcrResult): string {
+  const pages = result.pages.filter((page) => page.text.trim().length > 0);
+  if (pages.length === 0) return "";
+  return [
+    `[OCR text recognized by ${result.engine}, ${pages.length} page(s); may contain recognition errors]`,
+    ...pages.map((page) => `[Page ${page.page}]\n${page.text.trim()}`),
+  ].join("\n\n");
+}
+
+class CommandOcrEngine implements PdfOcrEngine {
+  readonly id = "command";
+
+  isConfigured(): boolean {
+    return String(getPref("pdfOcrCommand") || "").trim().length > 0;
+  }
+
+  async recognize(pdfPath: string): Promise<PdfOcrPage[]> {
+    const command = String(getPref("pdfOcrCommand") || "").trim();
+    const template =
+      String(getPref("pdfOcrArgs") || "").trim() || DEFAULT_OCR_COMMAND_ARGS;
+    const language = String(getPref("pdfOcrLanguage") || "").trim() || "eng";
+
+    const tempRoot = Services.dirsvc.get("TmpD", Ci.nsIFile).path;
+    const workDir = PathUtils.join(
+      tempRoot,
+      "zotero-ai-butler-ocr",
+      `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    );
+    await IOUtils.makeDirectory(workDir, {
+      ignoreExisting: true,
+      createAncestors: true,
+    } as any);
+
+    const outputPath = PathUtils.join(workDir, "ocr.txt");
+    try {
+      const args = buildOcrCommandArgs(template, {
+        input: pdfPath,
+        output: outputPath,
+        outputPdf: PathUtils.join(workDir, "ocr.pdf"),
+        lang: language,
+      });
+      ztoolkit.log(`[PdfOcr] 运行 OCR 程序: ${command} ${args.join(" ")}`);
+      const result = await Zotero.Utilities.Internal.exec(command, args);
+      if (result instanceof Error) throw result;
+
+      if (!(await IOUtils.exists(outputPath))) return [];
+      const content = await Zotero.File.getContentsAsync(outputPath, "utf-8");
+      return splitOcrPages(String(content || ""));
+    } finally {
+      await IOUtils.remove(workDir, {
+        recursive: true,
+        ignoreAbsent: true,
+      }).catch((error: unknown) => {
+        ztoolkit.log("[PdfOcr] 清理 OCR 临时目录失败:", error);
+      });
+    }
+  }
+}
+
+export class PdfOcr {
+  private static readonly engines = new Map<string, PdfOcrEngine>([
+    ["command", new CommandOcrEngine()],
+  ]);
+
+  static registerEngine(engine: PdfOcrEngine): void {
+    this.engines.set(engine.id, engine);
+  }
+
+  /**
+   * 当前启用且配置完整的引擎；关闭或未配置时返回 null
+   */
+  static getActiveEngine(): PdfOcrEngine | null {
+    const id = String(getPref("pdfOcrEngine") || "off");
+    if (id === "off") return null;
+    const engine = this.engines.get(id);
+    return engine?.isConfigured() ? engine : null;
+  }
+
+  static async recognize(pdfPath: string): Promise<PdfOcrResult | null> {
+    const engine = this.getActiveEngine();
+    if (!engine) return null;
+    return { engine: engine.id, pages: await engine.recognize(pdfPath) };
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * 任务队列时间窗调度
+ *
+ * 让耗时/耗费额度的任务（AI 精读、一图总结、填表等）只在指定时间窗内运行，
+ * 例如夜间或周末，以便利用低峰期额度并保持工作时间 Zotero 流畅。
+ *
+ * - `queueScheduleEnabled`：总开关
+ * - `queueQuietHours`：静默时段，期间后台队列不派发任何任务
+ * - `queueScheduleWindows`：按任务类型配置的允许运行时间窗（JSON）
+ *
+ * 时间窗写法：多个时段用 `;` 分隔，每段为「星期 + 时间」，二者均可省略。
+ * 例如 `mon-fri 22:00-07:00; sat,sun` 表示工作日夜间与整个周末；
+ * 跨午夜的时段归属开始那天。
+ */
+import { getString } from "../utils/locale";
+import { getPref, setPref } from "../utils/prefs";
+import type { TaskType } from "./taskQueue";
+
+export interface ScheduleWindow {
+  /** 允许的星期（0=周日 … 6=周六） */
+  days: number[];
+  /** 开始分钟（0-1439） */
+  start: number;
+  /** 结束分钟（1-1440），start > end 表示跨午夜 */
+  end: number;
+}
+
+export interface QueueScheduleConfig {
+  enabled: boolean;
+  quietHours: string;
+  windows: Partial<Record<TaskType, string>>;
+}
+
+export type ScheduleBlockReason = "quiet-hours" | "outside-window";
+
+export interface ScheduleBlock {
+  reason: ScheduleBlockReason;
+  /** 下一次允许运行的时间；一周内找不到时为 null */
+  nextAllowedAt: Date | null;
+}
+
+/** 设置页中提供时间窗配置的任务类型 */
+export const SCHEDULABLE_TASK_TYPES: TaskType[] = [
+  "summary",
+  "deepRead",
+  "imageSummary",
+  "mindmap",
+  "figureExplain",
+  "tableFill",
+];
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DAY_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+const MINUTES_PER_DAY = 24 * 60;
+/** 查找下一个可运行时间时的最远范围（分钟） */
+const LOOKAHEAD_MINUTES = 8 * MINUTES_PER_DAY;
+
+function invalidEntry(entry: string): Error {
+  return new Error(
+    getString("queue-schedule-error-invalid", { args: { entry } }),
+  );
+}
+
+function parseDay(token: string, entry: string): number {
+  const index =
+    token.length >= 3
+      ? DAY_NAMES.findIndex((name) => name.startsWith(token))
+      : -1;
+  if (index < 0) throw invalidEntry(entry);
+  return index;
+}
+
+function parseDays(text: string, entry: string): number[] {
+  const days = new Set<number>();
+  for (const part of text.split(",")) {
+    const token = part.trim();
+    if (!token) continue;
+    const range = token.split("-").map((value) => value.trim());
+    if (range.length === 1) {
+      days.add(parseDay(range[0], entry));
+      continue;
+    }
+    if (range.length !== 2) throw invalidEntry(entry);
+    const from = parseDay(range[0], entry);
+    const to = parseDay(range[1], entry);
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === to) break;
+    }
+  }
+  if (days.size === 0) throw invalidEntry(entry);
+  return Array.from(days).sort((a, b) => a - b);
+}
+
+function parseClock(text: string, entry: string, isEnd: boolean): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(text.trim());
+  if (!match) throw invalidEntry(entry);
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) {
+    throw invalidEntry(entry);
+  }
+  if (hours === 24 && !isEnd) throw invalidEntry(entry);
+  return hours * 60 + minutes;
+}
+
+export class QueueSchedule {
+  static getConfig(): QueueScheduleConfig {
+    let windows: QueueScheduleConfig["windows"] = {};
+    try {
+      const parsed = JSON.parse(
+        (getPref("queueScheduleWindows") as string) || "{}",
+      );
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        windows = parsed;
+      }
+    } catch {
+      windows = {};
+    }
+    return {
+      enabled: getPref("queueScheduleEnabled") === true,
+      quietHours: String(getPref("queueQuietHours") || ""),
+      windows,
+    };
+  }
+
+  /**
+   * 校验并保存配置，格式错误时抛出异常且不写入
+   */
+  static setConfig(config: QueueScheduleConfig): void {
+    this.parseWindows(config.quietHours);
+    const windows: QueueScheduleConfig["windows"] = {};
+    for (const [taskType, spec] of Object.entries(config.windows)) {
+      const text = String(spec || "").trim();
+      if (!text) continue;
+      this.parseWindows(text);
+      windows[taskType as TaskType] = text;
+    }
+    setPref("queueScheduleEnabled", config.enabled);
+    setPref("queueQuietHours", config.quietHours.trim());
+    setPref("queueScheduleWindows", JSON.stringify(windows));
+  }
+
+  /**
+   * 解析时间窗描述；空字符串返回空数组
+   */
+  static parseWindows(spec: string): ScheduleWindow[] {
+    const windows: ScheduleWindow[] = [];
+    for (const rawEntry of String(spec || "").split(";")) {
+      const original = rawEntry.trim();
+      const entry = original.toLowerCase();
+      if (!entry) continue;
+
+      const timeMatch = /(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/.exec(entry);
+      const dayText = (timeMatch ? entry.slice(0, timeMatch.index) : entry)
+        .replace(/\s+/g, "")
+        .trim();
+      const days = dayText ? parseDays(dayText, original) : ALL_DAYS;
+      const start = timeMatch ? parseClock(timeMatch[1], original, false) : 0;
+      const end = timeMatch
+        ? parseClock(timeMatch[2], original, true)
+        : MINUTES_PER_DAY;
+      if (start === end) throw invalidEntry(original);
+      windows.push({ days, start, end });
+    }
+    return windows;
+  }
+
+  static isWithin(windows: ScheduleWindow[], at: Date): boolean {
+    const minute = at.getHours() * 60 + at.getMinutes();
+    const day = at.getDay();
+    return windows.some((window) => {
+      if (window.start < window.end) {
+        return (
+          window.days.includes(day) &&
+          minute >= window.start &&
+          minute < window.end
+        );
+      }
+      // 跨午夜：开始当天的后半段，或前一天开始的延续部分
+      return (
+        (window.days.includes(day) && minute >= window.start) ||
+        (window.days.includes((day + 6) % 7) && minute < window.end)
+      );
+    });
+  }
+
+  /**
+   * 判断指定类型的任务此刻能否由后台队列派发，不能时返回原因
+   */
+  static getBlock(
+    taskType: TaskType,
+    now: Date = new Date(),
+    config: QueueScheduleConfig = this.getConfig(),
+  ): ScheduleBlock | null {
+    if (!config.enabled) return null;
+
+    let quiet: ScheduleWindow[] = [];
+    let allowed: ScheduleWindow[] = [];
+    try {
+      quiet = this.parseWindows(config.quietHours);
+      allowed = this.parseWindows(config.windows[taskType] || "");
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 队列时间窗配置无效，已忽略:", error);
+      return null;
+    }
+
+    const isAllowed = (at: Date) =>
+      !this.isWithin(quiet, at) &&
+      (allowed.length === 0 || this.isWithin(allowed, at));
+    if (isAllowed(now)) return null;
+
+    return {
+      reason: this.isWithin(quiet, now) ? "quiet-hours" : "outside-window",
+      nextAllowedAt: this.findNextAllowed(now, isAllowed),
+    };
+  }
+
+  static describe(block: ScheduleBlock): string {
+    const reason =
+      block.reason === "quiet-hours"
+        ? getString("queue-schedule-reason-quiet-hours")
+        : getString("queue-schedule-reason-outside-window");
+    if (!block.nextAllowedAt) return reason;
+    return getString("queue-schedule-next-run", {
+      args: {
+        reason,
+        time: block.nextAllowedAt.toLocaleString([], {
+          weekday: "short",
+          hour: "2-digit",
+          minute: "2-digit",
+        }),
+      },
+    });
+  }
+
+  private static findNextAllowed(
+    now: Date,
+    isAllowed: (at: Date) => boolean,
+  ): Date | null {
+    const cursor = new Date(now.getTime());
+    cursor.setSeconds(0, 0);
+    for (let step = 1; step <= LOOKAHEAD_MINUTES; step++) {
+      cursor.setMinutes(cursor.getMinutes() + 1);
+      if (isAllowed(cursor)) return new Date(cursor.getTime());
+    }
+    return null;
+  }
+}
@@ -17,6 +17,10 @@ export interface QuickChatRelatedContextItem {
   content: string;
   originalLength: number;
   truncated: boolean;
+  /** 内容来源；检索模式下同一结果可能混合 AI 总结与全文 */
+  source?: QuickChatRelatedMode;
+  /** 引用编号，未设置时按结果顺序从 1 编号 */
+  citationIndex?: number;
 }
 
 export type QuickChatRelatedSkipReason =
@@ -58,6 +62,26 @@ export interface QuickChatRelatedContextDeps {
   getFullText?: (item: Zotero.Item) => Promise<string>;
 }
 
+/** 自动检索的范围：整个文献库或某个分类（含子分类） */
+export interface QuickChatRetrievalScope {
+  libraryID: number;
+  collectionId?: number;
+}
+
+export interface QuickChatRetrievalDeps extends QuickChatRelatedContextDeps {
+  /** 按语义相关度排序的条目 ID，未启用语义索引时返回空数组 */
+  semanticSearch?: (query: string, limit: number) => Promise<number[]>;
+  /** 匹配关键词（含全文与笔记）的顶层条目 ID */
+  keywordSearch?: (
+    term: string,
+    scope: QuickChatRetrievalScope,
+  ) => Promise<number[]>;
+  /** 分类范围内的条目 ID，整个文献库时返回 null */
+  getScopeItemIds?: (
+    scope: QuickChatRetrievalScope,
+  ) => Promise<Set<number> | null>;
+}
+
 export const QUICK_CHAT_RELATED_LIMITS: Record<
   QuickChatRelatedMode,
   QuickChatRelatedLimit
@@ -74,6 +98,50 @@ export const QUICK_CHAT_RELATED_LIMITS: Record<
   },
 };
 
+export const QUICK_CHAT_RETRIEVAL_LIMIT = {
+  maxItems: 8,
+  maxTerms: 6,
+  semanticCandidates: 30,
+  /** 没有 AI 总结的条目改用全文，每篇的截断长度 */
+  maxFullTextCharsPerItem: 8000,
+};
+
+/** 倒数排名融合的平滑常数 */
+const RRF_K = 60;
+
+const QUERY_STOPWORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "what",
+  "which",
+  "how",
+  "why",
+  "are",
+  "was",
+  "were",
+  "does",
+  "did",
+  "about",
+  "from",
+  "that",
+  "this",
+  "these",
+  "those",
+  "have",
+  "has",
+  "papers",
+  "paper",
+  "any",
+  "there",
+  "their",
+  "into",
+  "between",
+  "using",
+  "use",
+]);
+
 export function normalizeQuickChatRelatedMode(
   value: unknown,
 ): QuickChatRelatedMode {
@@ -180,9 +248,13 @@ export async function resolveQuickChatRelatedContext(
   refs: QuickChatRelatedItemRef[],
   mode: QuickChatRelatedMode,
   deps: QuickChatRelatedContextDeps = {},
+  limitOverride: Partial<QuickChatRelatedLimit> = {},
 ): Promise<QuickChatRelatedContextResult> {
   const normalizedMode = normalizeQuickChatRelatedMode(mode);
-  const limit = getQuickChatRelatedLimit(normalizedMode);
+  const limit = {
+    ...getQuickChatRelatedLimit(normalizedMode),
+    ...limitOverride,
+  };
   const uniqueRefs = mergeQuickChatRelatedItemRefs([], refs).items.slice(
     0,
     limit.maxItems,
@@ -239,6 +311,7 @@ export async function resolveQuickChatRelatedContext(
       content,
       originalLength: cleaned.length,
       truncated: itemTruncated,
+      source: normalizedMode,
     });
     totalChars += content.length;
   }
@@ -256,6 +329,143 @@ export async function resolveQuickChatRelatedContext(
   };
 }
 
+/**
+ * 从问题中提取用于 Zotero 快速搜索的关键词
+ *
+ * 英文等按词切分并去掉停用词；较长的中日韩连续文本按两字切分，
+ * 因为 Zotero 的快速搜索是子串匹配，整句几乎不会命中。
+ */
+export function extractQuickChatQueryTerms(
+  question: string,
+  maxTerms = QUICK_CHAT_RETRIEVAL_LIMIT.maxTerms,
+): string[] {
+  const terms: string[] = [];
+  const tokens =
+    question.match(
+      /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]+|[\p{L}\p{N}][\p{L}\p{N}-]*/gu,
+    ) || [];
+  for (const token of tokens) {
+    if (/^[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]+$/.test(token)) {
+      if (token.length < 2) continue;
+      if (token.length <= 4) {
+        terms.push(token);
+      } else {
+        for (let i = 0; i + 2 <= token.length; i += 2) {
+          terms.push(token.slice(i, i + 2));
+        }
+      }
+      continue;
+    }
+    const lower = token.toLowerCase();
+    if (lower.length < 3 || QUERY_STOPWORDS.has(lower)) continue;
+    terms.push(lower);
+  }
+  return Array.from(new Set(terms))
+    .sort((a, b) => b.length - a.length)
+    .slice(0, maxTerms);
+}
+
+/**
+ * 倒数排名融合（RRF）：合并多路检索的排序结果
+ */
+export function fuseQuickChatRankings(
+  rankings: number[][],
+  k = RRF_K,
+): Array<{ itemId: number; score: number }> {
+  const scores = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((itemId, rank) => {
+      scores.set(itemId, (scores.get(itemId) || 0) + 1 / (k + rank + 1));
+    });
+  }
+  return Array.from(scores.entries())
+    .map(([itemId, score]) => ({ itemId, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 按问题自动检索相关文献：语义索引（AI 笔记）与关键词（全文、笔记）两路结果融合
+ */
+export async function retrieveQuickChatRelatedItemRefs(
+  question: string,
+  scope: QuickChatRetrievalScope,
+  deps: QuickChatRetrievalDeps = {},
+): Promise<QuickChatRelatedItemRef[]> {
+  const scopeItemIds = await (deps.getScopeItemIds || getScopeItemIds)(scope);
+  const inScope = (item: Zotero.Item) =>
+    item.libraryID === scope.libraryID &&
+    (!scopeItemIds || scopeItemIds.has(item.id));
+
+  let semanticRanking: number[] = [];
+  try {
+    semanticRanking = await (deps.semanticSearch || semanticSearch)(
+      question,
+      QUICK_CHAT_RETRIEVAL_LIMIT.semanticCandidates,
+    );
+  } catch (error) {
+    ztoolkit.log("[AI-Butler] 语义检索失败，仅使用关键词检索:", error);
+  }
+
+  const termHits = new Map<number, number>();
+  for (const term of extractQuickChatQueryTerms(question)) {
+    const ids = await (deps.keywordSearch || keywordSearch)(term, scope);
+    for (const id of new Set(ids)) {
+      termHits.set(id, (termHits.get(id) || 0) + 1);
+    }
+  }
+  const keywordRanking = Array.from(termHits.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([itemId]) => itemId);
+
+  const refs: QuickChatRelatedItemRef[] = [];
+  for (const { itemId } of fuseQuickChatRankings([
+    semanticRanking,
+    keywordRanking,
+  ])) {
+    if (refs.length >= QUICK_CHAT_RETRIEVAL_LIMIT.maxItems) break;
+    const item = await getRelatedItem(itemId, deps);
+    if (!item || !inScope(item)) continue;
+    const ref = createQuickChatRelatedItemRef(item);
+    if (ref) refs.push(ref);
+  }
+  return refs;
+}
+
+/**
+ * 解析检索到的文献内容：优先使用 AI 总结，没有总结的条目改用截断后的全文
+ */
+export async function resolveQuickChatRetrievedContext(
+  refs: QuickChatRelatedItemRef[],
+  deps: QuickChatRelatedContextDeps = {},
+): Promise<QuickChatRelatedContextResult> {
+  const summary = await resolveQuickChatRelatedContext(refs, "summary", deps);
+  const missing = summary.skipped
+    .filter((skip) => skip.reason === "missing-summary")
+    .map((skip) => skip.ref);
+  const fullText =
+    missing.length > 0
+      ? await resolveQuickChatRelatedContext(missing, "fullText", deps, {
+          maxCharsPerItem: QUICK_CHAT_RETRIEVAL_LIMIT.maxFullTextCharsPerItem,
+        })
+      : null;
+
+  const order = new Map(refs.map((ref, index) => [ref.itemId, index]));
+  const included = [...summary.included, ...(fullText?.included || [])].sort(
+    (a, b) => (order.get(a.ref.itemId) ?? 0) - (order.get(b.ref.itemId) ?? 0),
+  );
+  return {
+    mode: "summary",
+    signature: `retrieval:${refs.map((ref) => ref.itemId).join(",")}`,
+    included,
+    skipped: [
+      ...summary.skipped.filter((skip) => skip.reason !== "missing-summary"),
+      ...(fullText?.skipped || []),
+    ],
+    totalChars: summary.totalChars + (fullText?.totalChars || 0),
+    truncated: summary.truncated || Boolean(fullText?.truncated),
+  };
+}
+
 export function buildQuickChatQuestionWithRelatedContext(
   question: string,
   context: QuickChatRelatedContextResult,
@@ -267,12 +477,14 @@ export function buildQuickChatQuestionWithRelatedContext(
 export function buildQuickChatRelatedContextBlock(
   context: QuickChatRelatedContextResult,
 ): string {
-  const modeLabel =
-    context.mode === "summary" ? "AI summary notes" : "full-text excerpts";
   const papers = context.included.map((entry, index) => {
     const ref = entry.ref;
+    const modeLabel =
+      (entry.source || context.mode) === "summary"
+        ? "AI summary notes"
+        : "full-text excerpts";
     return [
-      `<RelatedPaper index="${index + 1}" itemId="${ref.itemId}">`,
+      `<RelatedPaper index="${entry.citationIndex ?? index + 1}" itemId="${ref.itemId}">`,
       `<Title>${escapeXml(ref.title)}</Title>`,
       `<Source>${modeLabel}</Source>`,
       "<Content><![CDATA[",
@@ -301,6 +513,44 @@ async function getRelatedItem(
   }
 }
 
+async function semanticSearch(query: string, limit: number): Promise<number[]> {
+  const { SemanticIndex } = await import("./semanticIndex");
+  if (!SemanticIndex.isEnabled()) return [];
+  const results = await SemanticIndex.search(query, limit);
+  return results.map((result) => result.itemId);
+}
+
+async function keywordSearch(
+  term: string,
+  scope: QuickChatRetrievalScope,
+): Promise<number[]> {
+  const search = new Zotero.Search();
+  (search as any).libraryID = scope.libraryID;
+  search.addCondition("quicksearch-everything", "contains", term);
+  const ids: number[] = await search.search();
+  const items = (await Zotero.Items.getAsync(ids)) as Zotero.Item[];
+  return items
+    .map((item) => (item.parentID ? item.parentID : item.id))
+    .filter((id): id is number => typeof id === "number");
+}
+
+async function getScopeItemIds(
+  scope: QuickChatRetrievalScope,
+): Promise<Set<number> | null> {
+  if (!scope.collectionId) return null;
+  const collection = Zotero.Collections.get(scope.collectionId);
+  if (!collection) return new Set();
+  const collections = [
+    collection,
+    ...Zotero.Collections.getByParent(collection.id, true),
+  ];
+  const ids = new Set<number>();
+  for (const entry of collections) {
+    for (const id of entry.getChildItems(true)) ids.add(id);
+  }
+  return ids;
+}
+
 async function getSummaryMarkdown(
   item: Zotero.Item,
   deps: QuickChatRelatedContextDeps,
@@ -0,0 +1,360 @@
+/**
+ * 快速追问的文献库工具
+ *
+ * 模型可按需调用的只读工具：检索文献、读取条目的 AI 总结、读取附件全文、列出分类内容。
+ * 工具不修改文献库；参数不合法或目标不存在时把原因作为结果回传，由模型自行修正。
+ */
+import { QUICK_CHAT_TOOL_DESCRIPTIONS } from "../utils/prompts";
+import { AiNoteService } from "./aiNoteService";
+import { ContentExtractor } from "./contentExtractor";
+import { validateJsonSchema } from "./llmproviders/shared/structuredOutput";
+import type { LLMToolCall, LLMToolDefinition } from "./llmproviders/types";
+import {
+  createQuickChatRelatedItemRef,
+  resolveQuickChatRelatedContext,
+  retrieveQuickChatRelatedItemRefs,
+  type QuickChatRetrievalDeps,
+  type QuickChatRetrievalScope,
+} from "./quickChatRelatedContext";
+
+export const QUICK_CHAT_TOOL_NAMES = {
+  searchItems: "search_items",
+  getItemSummary: "get_item_summary",
+  getAttachmentText: "get_attachment_text",
+  listCollectionItems: "list_collection_items",
+} as const;
+
+export const QUICK_CHAT_TOOL_LIMITS = {
+  maxSummaryChars: 8000,
+  defaultAttachmentChars: 15000,
+  maxAttachmentChars: 40000,
+  maxListedEntries: 50,
+};
+
+export const QUICK_CHAT_TOOLS: LLMToolDefinition[] = [
+  {
+    name: QUICK_CHAT_TOOL_NAMES.searchItems,
+    description: QUICK_CHAT_TOOL_DESCRIPTIONS.searchItems,
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: QUICK_CHAT_TOOL_DESCRIPTIONS.searchQuery,
+        },
+      },
+      required: ["query"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: QUICK_CHAT_TOOL_NAMES.getItemSummary,
+    description: QUICK_CHAT_TOOL_DESCRIPTIONS.getItemSummary,
+    parameters: {
+      type: "object",
+      properties: {
+        item_id: {
+          type: "integer",
+          description: QUICK_CHAT_TOOL_DESCRIPTIONS.itemId,
+        },
+      },
+      required: ["item_id"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: QUICK_CHAT_TOOL_NAMES.getAttachmentText,
+    description: QUICK_CHAT_TOOL_DESCRIPTIONS.getAttachmentText,
+    parameters: {
+      type: "object",
+      properties: {
+        item_id: {
+          type: "integer",
+          description: QUICK_CHAT_TOOL_DESCRIPTIONS.itemId,
+        },
+        max_chars: {
+          type: "integer",
+          description: QUICK_CHAT_TOOL_DESCRIPTIONS.maxChars,
+        },
+      },
+      required: ["item_id"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: QUICK_CHAT_TOOL_NAMES.listCollectionItems,
+    description: QUICK_CHAT_TOOL_DESCRIPTIONS.listCollectionItems,
+    parameters: {
+      type: "object",
+      properties: {
+        collection: {
+          type: "string",
+          description: QUICK_CHAT_TOOL_DESCRIPTIONS.collection,
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+];
+
+export interface QuickChatToolItemInfo {
+  itemId: number;
+  title: string;
+  creator: string;
+  year: string;
+  hasSummary: boolean;
+  attachments: Array<{ id: number; title: string }>;
+}
+
+export interface QuickChatToolCollectionInfo {
+  id: number;
+  name: string;
+  itemCount: number;
+}
+
+export interface QuickChatToolDeps extends QuickChatRetrievalDeps {
+  getItemInfo?: (item: Zotero.Item) => Promise<QuickChatToolItemInfo>;
+  getAttachmentText?: (attachment: Zotero.Item) => Promise<string>;
+  /** 文献库内的全部分类 */
+  listCollections?: (libraryID: number) => QuickChatToolCollectionInfo[];
+  /** 分类（不含子分类）中的顶层条目 */
+  getCollectionItems?: (collectionId: number) => Zotero.Item[];
+}
+
+export function formatQuickChatToolItems(
+  items: QuickChatToolItemInfo[],
+): string {
+  if (items.length === 0) return "No matching items.";
+  return items
+    .map((info) => {
+      const byline = [info.creator, info.year ? `(${info.year})` : ""]
+        .filter(Boolean)
+        .join(" ");
+      const attachments = info.attachments
+        .map((attachment) => `${attachment.id} "${attachment.title}"`)
+        .join(", ");
+      return [
+        `- [item_id ${info.itemId}] ${info.title}${byline ? ` — ${byline}` : ""}`,
+        `  AI summary: ${info.hasSummary ? "yes" : "no"}; attachments: ${attachments || "none"}`,
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * 按 ID 或名称查找分类：先匹配 ID 与完整名称，再匹配名称片段
+ */
+export function findQuickChatToolCollection(
+  collections: QuickChatToolCollectionInfo[],
+  query: string,
+): QuickChatToolCollectionInfo | null {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return null;
+  return (
+    collections.find(
+      (entry) =>
+        String(entry.id) === normalized ||
+        entry.name.trim().toLowerCase() === normalized,
+    ) ||
+    collections.find((entry) =>
+      entry.name.toLowerCase().includes(normalized),
+    ) ||
+    null
+  );
+}
+
+/**
+ * 工具调用在界面上的简短说明，如检索词、条目 ID
+ */
+export function summarizeQuickChatToolArguments(call: LLMToolCall): string {
+  const args = call.arguments;
+  if (typeof args.query === "string") return `"${args.query}"`;
+  if (typeof args.collection === "string") return `"${args.collection}"`;
+  if (args.item_id !== undefined) return `#${args.item_id}`;
+  return "";
+}
+
+function truncateToolText(text: string, maxChars: number): string {
+  const cleaned = text.trim();
+  if (cleaned.length <= maxChars) return cleaned;
+  return `${cleaned.slice(0, maxChars)}\n[truncated: ${cleaned.length - maxChars} more characters]`;
+}
+
+/**
+ * 创建工具执行函数；检索与分类都限定在当前条目所在的文献库
+ */
+export function createQuickChatToolExecutor(
+  scope: QuickChatRetrievalScope,
+  deps: QuickChatToolDeps = {},
+): (call: LLMToolCall) => Promise<string> {
+  const getItem = async (itemId: unknown): Promise<Zotero.Item> => {
+    const item =
+      typeof itemId === "number"
+        ? deps.getItemById
+          ? await deps.getItemById(itemId)
+          : ((await Zotero.Items.getAsync(itemId)) as Zotero.Item) || null
+        : null;
+    if (!item || item.libraryID !== scope.libraryID) {
+      throw new Error(`Item ${String(itemId)} was not found in this library.`);
+    }
+    return item;
+  };
+  const describe = (item: Zotero.Item) =>
+    (deps.getItemInfo || getItemInfo)(item);
+
+  const handlers: Record<
+    string,
+    (args: Record<string, any>) => Promise<string>
+  > = {
+    [QUICK_CHAT_TOOL_NAMES.searchItems]: async (args) => {
+      const refs = await retrieveQuickChatRelatedItemRefs(
+        String(args.query),
+        scope,
+        deps,
+      );
+      const items: QuickChatToolItemInfo[] = [];
+      for (const ref of refs) {
+        items.push(await describe(await getItem(ref.itemId)));
+      }
+      return formatQuickChatToolItems(items);
+    },
+
+    [QUICK_CHAT_TOOL_NAMES.getItemSummary]: async (args) => {
+      const item = await getItem(args.item_id);
+      const parent =
+        item.parentID && !item.isRegularItem?.()
+          ? await getItem(item.parentID)
+          : item;
+      const ref = createQuickChatRelatedItemRef(parent);
+      if (!ref) throw new Error(`Item ${args.item_id} is not a regular item.`);
+      const context = await resolveQuickChatRelatedContext(
+        [ref],
+        "summary",
+        deps,
+        { maxCharsPerItem: QUICK_CHAT_TOOL_LIMITS.maxSummaryChars },
+      );
+      const entry = context.included[0];
+      return entry
+        ? `# ${ref.title}\n\n${entry.content}`
+        : `Item ${ref.itemId} has no AI summary. Use ${QUICK_CHAT_TOOL_NAMES.getAttachmentText} to read its full text.`;
+    },
+
+    [QUICK_CHAT_TOOL_NAMES.getAttachmentText]: async (args) => {
+      const item = await getItem(args.item_id);
+      const maxChars = Math.min(
+        Math.max(
+          Number(args.max_chars) ||
+            QUICK_CHAT_TOOL_LIMITS.defaultAttachmentChars,
+          1000,
+        ),
+        QUICK_CHAT_TOOL_LIMITS.maxAttachmentChars,
+      );
+      let text: string;
+      if (item.isAttachment?.()) {
+        text = await (
+          deps.getAttachmentText ||
+          ((attachment) =>
+            ContentExtractor.extractTextFromAnalyzableAttachment(attachment))
+        )(item);
+      } else {
+        text = deps.getFullText
+          ? await deps.getFullText(item)
+          : await ContentExtractor.extractTextFromItem(item, "text");
+      }
+      if (!text.trim()) {
+        throw new Error(
+          `No text could be extracted from item ${args.item_id}.`,
+        );
+      }
+      return truncateToolText(text, maxChars);
+    },
+
+    [QUICK_CHAT_TOOL_NAMES.listCollectionItems]: async (args) => {
+      const collections = (deps.listCollections || listCollections)(
+        scope.libraryID,
+      );
+      if (typeof args.collection !== "string" || !args.collection.trim()) {
+        if (collections.length === 0) return "This library has no collections.";
+        return collections
+          .slice(0, QUICK_CHAT_TOOL_LIMITS.maxListedEntries)
+          .map(
+            (entry) =>
+              `- [collection ${entry.id}] ${entry.name} (${entry.itemCount} items)`,
+          )
+          .join("\n");
+      }
+      const collection = findQuickChatToolCollection(
+        collections,
+        args.collection,
+      );
+      if (!collection) {
+        throw new Error(
+          `Collection "${args.collection}" was not found. Call ${QUICK_CHAT_TOOL_NAMES.listCollectionItems} without arguments to list collections.`,
+        );
+      }
+      const children = (deps.getCollectionItems || getCollectionItems)(
+        collection.id,
+      ).filter((item) => createQuickChatRelatedItemRef(item) !== null);
+      const items: QuickChatToolItemInfo[] = [];
+      for (const item of children.slice(
+        0,
+        QUICK_CHAT_TOOL_LIMITS.maxListedEntries,
+      )) {
+        items.push(await describe(item));
+      }
+      const omitted = children.length - items.length;
+      return [
+        `Collection "${collection.name}" (${children.length} items):`,
+        formatQuickChatToolItems(items),
+        omitted > 0 ? `[${omitted} more items not listed]` : "",
+      ]
+        .filter(Boolean)
+        .join("\n");
+    },
+  };
+
+  return async (call) => {
+    const handler = handlers[call.name];
+    const definition = QUICK_CHAT_TOOLS.find((tool) => tool.name === call.name);
+    if (!handler || !definition) {
+      throw new Error(`Unknown tool: ${call.name}`);
+    }
+    const errors = validateJsonSchema(call.arguments, definition.parameters);
+    if (errors.length > 0) {
+      throw new Error(`Invalid arguments: ${errors.join("; ")}`);
+    }
+    return handler(call.arguments);
+  };
+}
+
+async function getItemInfo(item: Zotero.Item): Promise<QuickChatToolItemInfo> {
+  const attachments = ((item.getAttachments?.() || []) as number[])
+    .map((id) => Zotero.Items.get(id) as Zotero.Item)
+    .filter(Boolean)
+    .map((attachment) => ({
+      id: attachment.id,
+      title: String(attachment.getField("title") || ""),
+    }));
+  const year = String(item.getField("date") || "").match(/\d{4}/);
+  return {
+    itemId: item.id,
+    title: String(item.getDisplayTitle?.() || item.getField("title") || ""),
+    creator: String(item.getField("firstCreator") || ""),
+    year: year ? year[0] : "",
+    hasSummary: Boolean(await AiNoteService.findNoteRecord(item, "summary")),
+    attachments,
+  };
+}
+
+function listCollections(libraryID: number): QuickChatToolCollectionInfo[] {
+  return Zotero.Collections.getByLibrary(libraryID, true).map((collection) => ({
+    id: collection.id,
+    name: collection.name,
+    itemCount: collection.getChildItems(true).length,
+  }));
+}
+
+function getCollectionItems(collectionId: number): Zotero.Item[] {
+  const collection = Zotero.Collections.get(collectionId);
+  return collection ? (collection.getChildItems(false) as Zotero.Item[]) : [];
+}
@@ -0,0 +1,298 @@
+/**
+ * 端点限流器
+ *
+ * 按端点与 API 密钥各维护一个令牌桶（每分钟请求数 / 每分钟 token 数），并发任务共享同一组桶，
+ * 额度不足时排队等待而不是直接失败。服务端返回 429 时按 Retry-After（缺省时指数退避）
+ * 暂停对应的桶并在同一端点上重试，不消耗 LLMService 的重试次数，也不触发密钥轮换。
+ * 桶状态只保存在内存中。
+ */
+import { classifyEndpointError } from "./endpointHealth";
+import { getRetryAfterMs } from "./llmproviders/shared/httpErrors";
+import {
+  createAbortError,
+  isAbortError,
+  throwIfAborted,
+} from "./llmproviders/shared/requestAbort";
+import type { LLMAbortSignal } from "./llmproviders/types";
+
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface RateBucket {
+  /** 剩余请求额度；undefined 表示桶是满的 */
+  requests?: number;
+  tokens?: number;
+  updatedAt: number;
+  /** 收到 429 后暂停到该时间（毫秒时间戳） */
+  blockedUntil: number;
+}
+
+export interface RateLimitScope {
+  /** 需要同时取得额度的桶，例如端点桶与密钥桶 */
+  bucketKeys: string[];
+  limits: RateLimits;
+}
+
+export type RateLimitWaitReason = "quota" | "retryAfter";
+
+export const RATE_LIMIT_DEFAULTS = {
+  /** 同一请求因 429 排队重试的最大次数 */
+  maxRateLimitRetries: 5,
+  /** 没有 Retry-After 时的首次退避时长 */
+  baseBackoffMs: 2000,
+  maxBackoffMs: 60 * 1000,
+  /** Retry-After 超过该时长时放弃排队，交给路由切换端点 */
+  maxRetryAfterMs: 2 * 60 * 1000,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+function positiveLimit(value: unknown): number | undefined {
+  const limit = Math.floor(Number(value));
+  return Number.isFinite(limit) && limit > 0 ? limit : undefined;
+}
+
+export function normalizeRateLimit(raw: unknown): number | undefined {
+  return positiveLimit(raw);
+}
+
+export function createRateBucket(now: number): RateBucket {
+  return { updatedAt: now, blockedUntil: 0 };
+}
+
+function refillDimension(
+  available: number | undefined,
+  limit: number | undefined,
+  elapsedMs: number,
+): number | undefined {
+  if (!limit || available === undefined) return undefined;
+  const next = available + (elapsedMs * limit) / MINUTE_MS;
+  return next >= limit ? undefined : next;
+}
+
+/**
+ * 按经过的时间补充额度，返回新的桶（不修改入参）
+ */
+export function refillRateBucket(
+  bucket: RateBucket,
+  limits: RateLimits,
+  now: number,
+): RateBucket {
+  const elapsed = Math.max(0, now - bucket.updatedAt);
+  return {
+    requests: refillDimension(
+      bucket.requests,
+      positiveLimit(limits.requestsPerMinute),
+      elapsed,
+    ),
+    tokens: refillDimension(
+      bucket.tokens,
+      positiveLimit(limits.tokensPerMinute),
+      elapsed,
+    ),
+    updatedAt: now,
+    blockedUntil: bucket.blockedUntil,
+  };
+}
+
+function dimensionWaitMs(
+  available: number | undefined,
+  limit: number | undefined,
+  cost: number,
+): number {
+  if (!limit || available === undefined) return 0;
+  // 单次消耗超过桶容量时按满桶计算，避免永远等不到额度
+  const needed = Math.min(cost, limit);
+  if (available >= needed) return 0;
+  return Math.ceil(((needed - available) * MINUTE_MS) / limit);
+}
+
+/**
+ * 距离可以发出一次消耗 `tokens` 的请求还需等待多久；0 表示立即可发
+ */
+export function getRateLimitWaitMs(
+  bucket: RateBucket,
+  limits: RateLimits,
+  tokens: number,
+  now: number,
+): number {
+  const current = refillRateBucket(bucket, limits, now);
+  return Math.max(
+    current.blockedUntil - now,
+    dimensionWaitMs(
+      current.requests,
+      positiveLimit(limits.requestsPerMinute),
+      1,
+    ),
+    dimensionWaitMs(
+      current.tokens,
+      positiveLimit(limits.tokensPerMinute),
+      Math.max(0, tokens),
+    ),
+    0,
+  );
+}
+
+function takeDimension(
+  available: number | undefined,
+  limit: number | undefined,
+  cost: number,
+): number | undefined {
+  if (!limit) return undefined;
+  return Math.max(0, (available ?? limit) - Math.min(cost, limit));
+}
+
+export function takeFromRateBucket(
+  bucket: RateBucket,
+  limits: RateLimits,
+  tokens: number,
+  now: number,
+): RateBucket {
+  const current = refillRateBucket(bucket, limits, now);
+  return {
+    ...current,
+    requests: takeDimension(
+      current.requests,
+      positiveLimit(limits.requestsPerMinute),
+      1,
+    ),
+    tokens: takeDimension(
+      current.tokens,
+      positiveLimit(limits.tokensPerMinute),
+      Math.max(0, tokens),
+    ),
+  };
+}
+
+/**
+ * 429 后的等待时长：优先使用 Retry-After，否则按重试次数指数退避
+ */
+export function getRateLimitBackoffMs(error: unknown, retry: number): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== undefined) return retryAfter;
+  return Math.min(
+    RATE_LIMIT_DEFAULTS.baseBackoffMs * 2 ** Math.max(0, retry),
+    RATE_LIMIT_DEFAULTS.maxBackoffMs,
+  );
+}
+
+/** 密钥桶的键只使用哈希值，避免明文密钥出现在日志或调试输出中 */
+export function fingerprintApiKey(apiKey: string): string {
+  let hash = 5381;
+  for (let i = 0; i < apiKey.length; i++) {
+    hash = ((hash << 5) + hash + apiKey.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function sleep(ms: number, signal?: LLMAbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener?.("abort", onAbort, { once: true });
+  });
+}
+
+export class RateLimiter {
+  private static buckets = new Map<string, RateBucket>();
+  /** 每个桶的排队链，保证先到先得 */
+  private static queues = new Map<string, Promise<void>>();
+
+  /**
+   * 在限流范围内执行一次请求：先按顺序取得每个桶的额度，429 时暂停这些桶并重新排队
+   */
+  static async schedule<T>(
+    scope: RateLimitScope,
+    tokens: number,
+    abortSignal: LLMAbortSignal | undefined,
+    run: () => Promise<T>,
+    onWait?: (waitMs: number, reason: RateLimitWaitReason) => void,
+  ): Promise<T> {
+    for (let retry = 0; ; retry++) {
+      for (const key of scope.bucketKeys) {
+        await this.acquire(key, scope.limits, tokens, abortSignal, onWait);
+      }
+      try {
+        return await run();
+      } catch (error: unknown) {
+        if (
+          isAbortError(error, abortSignal) ||
+          classifyEndpointError(error) !== "rateLimit" ||
+          retry >= RATE_LIMIT_DEFAULTS.maxRateLimitRetries
+        ) {
+          throw error;
+        }
+        const waitMs = getRateLimitBackoffMs(error, retry);
+        if (waitMs > RATE_LIMIT_DEFAULTS.maxRetryAfterMs) throw error;
+        for (const key of scope.bucketKeys) this.block(key, waitMs);
+      }
+    }
+  }
+
+  /** 暂停某个桶，直到 `waitMs` 之后；已有更晚的暂停时间时保持不变 */
+  static block(key: string, waitMs: number, now = Date.now()): void {
+    const bucket = this.buckets.get(key) || createRateBucket(now);
+    this.buckets.set(key, {
+      ...bucket,
+      blockedUntil: Math.max(bucket.blockedUntil, now + Math.max(0, waitMs)),
+    });
+  }
+
+  /** 清空全部桶与排队状态（仅供测试和重置使用） */
+  static reset(): void {
+    this.buckets.clear();
+    this.queues.clear();
+  }
+
+  private static acquire(
+    key: string,
+    limits: RateLimits,
+    tokens: number,
+    abortSignal: LLMAbortSignal | undefined,
+    onWait?: (waitMs: number, reason: RateLimitWaitReason) => void,
+  ): Promise<void> {
+    const previous = this.queues.get(key) || Promise.resolve();
+    const turn = previous.then(() =>
+      this.waitForCapacity(key, limits, tokens, abortSignal, onWait),
+    );
+    const tail = turn.catch(() => undefined);
+    this.queues.set(key, tail);
+    void tail.then(() => {
+      if (this.queues.get(key) === tail) this.queues.delete(key);
+    });
+    return turn;
+  }
+
+  private static async waitForCapacity(
+    key: string,
+    limits: RateLimits,
+    tokens: number,
+    abortSignal: LLMAbortSignal | undefined,
+    onWait?: (waitMs: number, reason: RateLimitWaitReason) => void,
+  ): Promise<void> {
+    for (;;) {
+      throwIfAborted(abortSignal);
+      const now = Date.now();
+      const bucket = this.buckets.get(key) || createRateBucket(now);
+      const waitMs = getRateLimitWaitMs(bucket, limits, tokens, now);
+      if (waitMs <= 0) {
+        this.buckets.set(key, takeFromRateBucket(bucket, limits, tokens, now));
+        return;
+      }
+      onWait?.(waitMs, now < bucket.blockedUntil ? "retryAfter" : "quota");
+      await sleep(waitMs, abortSignal);
+    }
+  }
+}
@@ -0,0 +1,490 @@
+/**
+ * AI 笔记语义索引
+ *
+ * 把 AI 总结、AI 精读笔记切分为段落，调用向量嵌入服务（OpenAI 兼容 / Ollama）
+ * 计算向量后存入 Zotero 数据目录下独立的 SQLite 数据库（aibutler-index.sqlite），
+ * 供主窗口「语义搜索」按语义相似度检索整个文献库的 AI 笔记。
+ *
+ * - 笔记内容哈希与嵌入模型都未变化时跳过，不重复请求嵌入接口
+ * - 切换嵌入模型后旧向量不参与检索，需重新索引
+ * - 笔记的增量更新由 SemanticIndexManager 监听条目变化触发
+ */
+import { getPref } from "../utils/prefs";
+import {
+  DEEP_READ_NOTE_TAG,
+  LEGACY_SUMMARY_NOTE_TAG,
+  SUMMARY_NOTE_TAG,
+  classifyAiButlerNote,
+  type NoteTag,
+} from "./aiNoteClassifier";
+import type { AiNoteKind } from "./aiNoteService";
+import { LLMNoteMetadataService } from "./llmNoteMetadata";
+import { splitDocumentIntoChunks } from "./longDocument";
+import { EmbeddingProviderRegistry } from "./llmproviders/EmbeddingProviders";
+import type { EmbeddingOptions } from "./llmproviders/IEmbeddingProvider";
+
+const DB_NAME = "aibutler-index";
+
+/** 每个段落的 token 上限 */
+const PASSAGE_TOKENS = 300;
+
+/** 单次嵌入请求的段落数 */
+const EMBED_BATCH_SIZE = 16;
+
+export interface SemanticPassage {
+  noteId: number;
+  itemId: number;
+  kind: AiNoteKind;
+  title: string;
+  text: string;
+  vector: ArrayLike<number>;
+}
+
+export interface SemanticMatchedPassage {
+  title: string;
+  text: string;
+  score: number;
+}
+
+export interface SemanticSearchResult {
+  itemId: number;
+  noteId: number;
+  kind: AiNoteKind;
+  score: number;
+  passages: SemanticMatchedPassage[];
+}
+
+export interface SemanticIndexStats {
+  notes: number;
+  passages: number;
+}
+
+type SemanticIndexDB = _ZoteroTypes.DB;
+
+/**
+ * 把笔记 HTML 转为保留段落换行的纯文本，去掉 AI 管家的元数据
+ */
+export function noteHtmlToText(html: string): string {
+  return LLMNoteMetadataService.stripSidebarMetadata(html)
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|h[1-6]|li|tr|blockquote|pre|table|ul|ol)>/gi, "\n")
+    .replace(/<h([1-6])[^>]*>/gi, (_match, level: string) => {
+      return `\n${"#".repeat(Number(level))} `;
+    })
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .filter((line, index, lines) => line || lines[index - 1])
+    .join("\n")
+    .trim();
+}
+
+/**
+ * 按章节标题切分笔记文本为检索段落
+ */
+export function splitNotePassages(
+  text: string,
+  maxTokens: number = PASSAGE_TOKENS,
+): Array<{ title: string; text: string }> {
+  return splitDocumentIntoChunks(text, maxTokens)
+    .map((chunk) => ({ title: chunk.title, text: chunk.text.trim() }))
+    .filter((passage) => passage.text.length > 0);
+}
+
+/**
+ * 32 位 FNV-1a 哈希，用于判断笔记内容是否变化
+ */
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * 向量以 Float32 的 Base64 形式存储，比 JSON 数组节省约一半空间
+ */
+export function encodeVector(vector: ArrayLike<number>): string {
+  const bytes = new Uint8Array(Float32Array.from(vector).buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function decodeVector(encoded: string): Float32Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Float32Array(bytes.buffer);
+}
+
+export function cosineSimilarity(
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * 按文献条目聚合段落得分：条目得分取其最佳段落，每个条目保留得分最高的若干段落
+ */
+export function rankSemanticMatches(
+  query: ArrayLike<number>,
+  passages: SemanticPassage[],
+  limit: number,
+  passagesPerItem = 2,
+): SemanticSearchResult[] {
+  const byItem = new Map<number, SemanticSearchResult>();
+  for (const passage of passages) {
+    const score = cosineSimilarity(query, passage.vector);
+    if (score <= 0) continue;
+    let result = byItem.get(passage.itemId);
+    if (!result) {
+      result = {
+        itemId: passage.itemId,
+        noteId: passage.noteId,
+        kind: passage.kind,
+        score,
+        passages: [],
+      };
+      byItem.set(passage.itemId, result);
+    }
+    if (score > result.score) {
+      result.score = score;
+      result.noteId = passage.noteId;
+      result.kind = passage.kind;
+    }
+    result.passages.push({ title: passage.title, text: passage.text, score });
+  }
+
+  return Array.from(byItem.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(0, limit))
+    .map((result) => ({
+      ...result,
+      passages: result.passages
+        .sort((a, b) => b.score - a.score)
+        .slice(0, passagesPerItem),
+    }));
+}
+
+export class SemanticIndex {
+  private static db: SemanticIndexDB | null = null;
+  private static opening: Promise<SemanticIndexDB> | null = null;
+
+  /** 当前模型下的全部段落，检索时使用，写入后失效 */
+  private static passages: SemanticPassage[] | null = null;
+  private static passagesModel = "";
+
+  /** 串行化写入，避免并发事务交错 */
+  private static pendingWrite: Promise<unknown> = Promise.resolve();
+
+  static isEnabled(): boolean {
+    return getPref("semanticIndexEnabled") === true;
+  }
+
+  static getEmbeddingOptions(): EmbeddingOptions & { providerId: string } {
+    return {
+      providerId: String(getPref("embeddingProvider") || "openai-compat"),
+      apiUrl: String(getPref("embeddingApiUrl") || "").trim(),
+      apiKey: String(getPref("embeddingApiKey") || "").trim(),
+      model: String(getPref("embeddingModel") || "").trim(),
+    };
+  }
+
+  /**
+   * 批量计算向量，按 EMBED_BATCH_SIZE 分批请求
+   */
+  static async embed(texts: string[]): Promise<number[][]> {
+    const { providerId, ...options } = this.getEmbeddingOptions();
+    const provider = EmbeddingProviderRegistry.get(providerId);
+    if (!provider) {
+      throw new Error(`Unknown embedding provider: ${providerId}`);
+    }
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+      const batch = texts.slice(start, start + EMBED_BATCH_SIZE);
+      vectors.push(...(await provider.embed(batch, options)));
+    }
+    return vectors;
+  }
+
+  /**
+   * 判断笔记是否为可索引的 AI 笔记，是则返回其类型
+   */
+  static getIndexableKind(note: Zotero.Item): AiNoteKind | null {
+    if (!note?.isNote?.() || note.deleted || !note.parentID) return null;
+    const tags: NoteTag[] = (note as any).getTags?.() || [];
+    const type = classifyAiButlerNote(tags, note.getNote() || "");
+    return type === "summary" || type === "deepRead" ? type : null;
+  }
+
+  /**
+   * 索引单条笔记；不是 AI 笔记或已被删除时移除其索引
+   *
+   * @returns 是否重新计算了向量
+   */
+  static async indexNote(note: Zotero.Item): Promise<boolean> {
+    const kind = this.getIndexableKind(note);
+    if (!kind) {
+      await this.removeNote(note.id);
+      return false;
+    }
+
+    const text = noteHtmlToText(note.getNote() || "");
+    const { model } = this.getEmbeddingOptions();
+    const hash = hashText(text);
+    const db = await this.open();
+    const existing = await db.queryAsync(
+      "SELECT hash, model FROM notes WHERE noteId = ?",
+      [note.id],
+    );
+    if (existing?.[0]?.hash === hash && existing?.[0]?.model === model) {
+      return false;
+    }
+
+    const passages = splitNotePassages(text);
+    const vectors = await this.embed(
+      passages.map((passage) =>
+        passage.title ? `${passage.title}\n${passage.text}` : passage.text,
+      ),
+    );
+    const itemId = note.parentID as number;
+    await this.write(async (connection) => {
+      await connection.queryAsync("DELETE FROM passages WHERE noteId = ?", [
+        note.id,
+      ]);
+      await connection.queryAsync(
+        "INSERT OR REPLACE INTO notes (noteId, itemId, libraryId, kind, hash, model, indexedAt) VALUES (?, ?, ?, ?, ?, ?, ?)",
+        [note.id, itemId, note.libraryID, kind, hash, model, Date.now()],
+      );
+      for (let i = 0; i < passages.length; i++) {
+        await connection.queryAsync(
+          "INSERT INTO passages (noteId, itemId, kind, position, title, text, vector) VALUES (?, ?, ?, ?, ?, ?, ?)",
+          [
+            note.id,
+            itemId,
+            kind,
+            i,
+            passages[i].title,
+            passages[i].text,
+            encodeVector(vectors[i]),
+          ],
+        );
+      }
+    });
+    return true;
+  }
+
+  /**
+   * 笔记当前是否有索引记录；会等待排队中的写入完成
+   */
+  static async isIndexed(noteId: number): Promise<boolean> {
+    await this.pendingWrite;
+    const db = await this.open();
+    const rows = await db.queryAsync(
+      "SELECT noteId FROM notes WHERE noteId = ?",
+      [noteId],
+    );
+    return !!rows?.length;
+  }
+
+  /**
+   * 移除笔记的索引；没有索引记录时不开启写事务
+   */
+  static async removeNote(noteId: number): Promise<void> {
+    if (!(await this.isIndexed(noteId))) return;
+    await this.write(async (connection) => {
+      await connection.queryAsync("DELETE FROM passages WHERE noteId = ?", [
+        noteId,
+      ]);
+      await connection.queryAsync("DELETE FROM notes WHERE noteId = ?", [
+        noteId,
+      ]);
+    });
+  }
+
+  /**
+   * 遍历所有文献库的 AI 笔记重新索引，并清除已不存在的笔记
+   */
+  static async rebuild(
+    onProgress?: (done: number, total: number) => void,
+  ): Promise<{ indexed: number; failed: number }> {
+    const noteIds = new Set<number>();
+    for (const library of Zotero.Libraries.getAll()) {
+      const search = new Zotero.Search();
+      (search as any).libraryID = library.libraryID;
+      search.addCondition("itemType", "is", "note");
+      search.addCondition("joinMode", "any");
+      for (const tag of [
+        SUMMARY_NOTE_TAG,
+        DEEP_READ_NOTE_TAG,
+        LEGACY_SUMMARY_NOTE_TAG,
+      ]) {
+        search.addCondition("tag", "is", tag);
+      }
+      for (const id of await search.search()) noteIds.add(id);
+    }
+
+    const db = await this.open();
+    const indexedRows = (await db.queryAsync("SELECT noteId FROM notes")) || [];
+    for (const row of indexedRows) {
+      const noteId = Number(row.noteId);
+      if (!noteIds.has(noteId)) await this.removeNote(noteId);
+    }
+
+    let indexed = 0;
+    let failed = 0;
+    let done = 0;
+    for (const noteId of noteIds) {
+      try {
+        const note = await Zotero.Items.getAsync(noteId);
+        if (note && (await this.indexNote(note as Zotero.Item))) indexed++;
+      } catch (error) {
+        failed++;
+        ztoolkit.log(`[AI-Butler] 语义索引笔记 ${noteId} 失败:`, error);
+      }
+      onProgress?.(++done, noteIds.size);
+    }
+    return { indexed, failed };
+  }
+
+  /**
+   * 检索与查询语义最接近的文献条目
+   */
+  static async search(
+    query: string,
+    limit = 20,
+  ): Promise<SemanticSearchResult[]> {
+    const text = query.trim();
+    if (!text) return [];
+    const [queryVector] = await this.embed([text]);
+    const passages = await this.loadPassages();
+    return rankSemanticMatches(queryVector, passages, limit);
+  }
+
+  static async getStats(): Promise<SemanticIndexStats> {
+    try {
+      const db = await this.open();
+      const notes = await db.valueQueryAsync("SELECT COUNT(*) FROM notes");
+      const passages = await db.valueQueryAsync(
+        "SELECT COUNT(*) FROM passages",
+      );
+      return { notes: Number(notes) || 0, passages: Number(passages) || 0 };
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 读取语义索引统计失败:", error);
+      return { notes: 0, passages: 0 };
+    }
+  }
+
+  static async clear(): Promise<void> {
+    await this.write(async (connection) => {
+      await connection.queryAsync("DELETE FROM passages");
+      await connection.queryAsync("DELETE FROM notes");
+    });
+  }
+
+  static async close(): Promise<void> {
+    await this.pendingWrite;
+    const db = this.db;
+    this.db = null;
+    this.opening = null;
+    this.passages = null;
+    if (db) {
+      await db.closeDatabase(false);
+    }
+  }
+
+  private static async loadPassages(): Promise<SemanticPassage[]> {
+    await this.pendingWrite;
+    const { model } = this.getEmbeddingOptions();
+    if (this.passages && this.passagesModel === model) return this.passages;
+
+    const db = await this.open();
+    const rows =
+      (await db.queryAsync(
+        "SELECT p.noteId, p.itemId, p.kind, p.title, p.text, p.vector FROM passages p JOIN notes n ON n.noteId = p.noteId WHERE n.model = ?",
+        [model],
+      )) || [];
+    const passages: SemanticPassage[] = [];
+    for (const row of rows) {
+      try {
+        passages.push({
+          noteId: Number(row.noteId),
+          itemId: Number(row.itemId),
+          kind: row.kind === "deepRead" ? "deepRead" : "summary",
+          title: String(row.title || ""),
+          text: String(row.text || ""),
+          vector: decodeVector(String(row.vector)),
+        });
+      } catch (error) {
+        ztoolkit.log("[AI-Butler] 跳过无法解析的语义索引段落:", error);
+      }
+    }
+    this.passages = passages;
+    this.passagesModel = model;
+    return passages;
+  }
+
+  private static write(
+    operation: (db: SemanticIndexDB) => Promise<void>,
+  ): Promise<void> {
+    const write = this.pendingWrite.then(async () => {
+      const db = await this.open();
+      await db.executeTransaction(() => operation(db));
+      this.passages = null;
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  private static async open(): Promise<SemanticIndexDB> {
+    if (this.db) return this.db;
+    if (!this.opening) {
+      const opening = (async () => {
+        const db = new Zotero.DBConnection(
+          DB_NAME,
+        ) as unknown as SemanticIndexDB;
+        await db.queryAsync(
+          "CREATE TABLE IF NOT EXISTS notes (noteId INTEGER PRIMARY KEY, itemId INTEGER NOT NULL, libraryId INTEGER NOT NULL, kind TEXT NOT NULL, hash TEXT NOT NULL, model TEXT NOT NULL, indexedAt INTEGER NOT NULL)",
+        );
+        await db.queryAsync(
+          "CREATE TABLE IF NOT EXISTS passages (id INTEGER PRIMARY KEY AUTOINCREMENT, noteId INTEGER NOT NULL, itemId INTEGER NOT NULL, kind TEXT NOT NULL, position INTEGER NOT NULL, title TEXT NOT NULL, text TEXT NOT NULL, vector TEXT NOT NULL)",
+        );
+        await db.queryAsync(
+          "CREATE INDEX IF NOT EXISTS passages_noteId ON passages (noteId)",
+        );
+        this.db = db;
+        return db;
+      })();
+      this.opening = opening;
+      opening.catch(() => {
+        if (this.opening === opening) this.opening = null;
+      });
+    }
+    return this.opening;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * 语义索引增量更新管理器
+ *
+ * 监听笔记的新增、修改与删除，在笔记停止变化后重新计算其向量，
+ * 使语义搜索的结果与 AI 笔记保持同步。
+ */
+import { SemanticIndex } from "./semanticIndex";
+
+/** 笔记保存后等待的时间，流式写入期间的多次修改只触发一次索引 */
+const INDEX_DEBOUNCE_MS = 3000;
+
+export class SemanticIndexManager {
+  private static instance: SemanticIndexManager | null = null;
+
+  private notifierID: string | null = null;
+  private pendingTimers: Map<number, number> = new Map();
+
+  public static getInstance(): SemanticIndexManager {
+    if (!SemanticIndexManager.instance) {
+      SemanticIndexManager.instance = new SemanticIndexManager();
+    }
+    return SemanticIndexManager.instance;
+  }
+
+  public start(): void {
+    if (this.notifierID || !SemanticIndex.isEnabled()) return;
+    this.notifierID = Zotero.Notifier.registerObserver(
+      {
+        notify: async (
+          event: string,
+          type: string,
+          ids: Array<string | number>,
+        ) => {
+          if (type !== "item") return;
+          this.handleNotify(event, ids.map(Number));
+        },
+      },
+      ["item"],
+      "ai-butler-semantic-index",
+    );
+  }
+
+  public stop(): void {
+    if (this.notifierID) {
+      Zotero.Notifier.unregisterObserver(this.notifierID);
+      this.notifierID = null;
+    }
+    for (const timerId of this.pendingTimers.values()) {
+      clearTimeout(timerId);
+    }
+    this.pendingTimers.clear();
+  }
+
+  public reload(): void {
+    this.stop();
+    this.start();
+  }
+
+  private handleNotify(event: string, ids: number[]): void {
+    if (event === "delete" || event === "trash") {
+      for (const id of ids) {
+        this.cancel(id);
+        SemanticIndex.removeNote(id).catch((error) => {
+          ztoolkit.log("[AI-Butler][SemanticIndex] 移除索引失败:", error);
+        });
+      }
+      return;
+    }
+    if (event !== "add" && event !== "modify") return;
+
+    for (const id of ids) {
+      const item = Zotero.Items.get(id) as Zotero.Item | false;
+      if (!item || !item.isNote()) continue;
+      if (SemanticIndex.getIndexableKind(item)) {
+        this.scheduleNote(id);
+        continue;
+      }
+      // 普通笔记只有曾被索引过（如去掉了 AI 标签）时才需要更新，编辑其他笔记不触发写入
+      SemanticIndex.isIndexed(id)
+        .then((indexed) => {
+          if (indexed) this.scheduleNote(id);
+        })
+        .catch((error) => {
+          ztoolkit.log("[AI-Butler][SemanticIndex] 读取索引状态失败:", error);
+        });
+    }
+  }
+
+  private scheduleNote(noteId: number): void {
+    this.cancel(noteId);
+    const timerId = setTimeout(() => {
+      this.pendingTimers.delete(noteId);
+      this.indexNote(noteId).catch((error) => {
+        ztoolkit.log("[AI-Butler][SemanticIndex] 更新索引失败:", error);
+      });
+    }, INDEX_DEBOUNCE_MS) as any as number;
+    this.pendingTimers.set(noteId, timerId);
+  }
+
+  private cancel(noteId: number): void {
+    const existing = this.pendingTimers.get(noteId);
+    if (existing) clearTimeout(existing);
+    this.pendingTimers.delete(noteId);
+  }
+
+  private async indexNote(noteId: number): Promise<void> {
+    const note = await Zotero.Items.getAsync(noteId);
+    if (!note) {
+      await SemanticIndex.removeNote(noteId);
+      return;
+    }
+    await SemanticIndex.indexNote(note as Zotero.Item);
+  }
+}
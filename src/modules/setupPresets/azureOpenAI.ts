@@ -0,0 +1,162 @@
+import { AutoScanManager } from "../autoScanManager";
+import { LLMEndpointManager, type LLMEndpoint } from "../llmEndpointManager";
+import { getPref, setPref } from "../../utils/prefs";
+import { getString } from "../../utils/locale";
+import { maskApiKey, pdfModeLabel } from "./labels";
+import type {
+  SetupPreset,
+  SetupPresetChange,
+  SetupPresetValues,
+} from "./types";
+
+const AZURE_ENDPOINT_ID = "endpoint-preset-azure-openai";
+
+function existingEndpoint(): LLMEndpoint | undefined {
+  return LLMEndpointManager.getEndpoints().find(
+    (endpoint) => endpoint.id === AZURE_ENDPOINT_ID,
+  );
+}
+
+function getChanges(values: SetupPresetValues): SetupPresetChange[] {
+  const endpoints = LLMEndpointManager.getEndpoints();
+  const previous = existingEndpoint();
+  const empty = getString("setup-preset-value-empty");
+  const currentTop =
+    endpoints[0]?.name || getString("setup-preset-value-not-configured");
+  return [
+    {
+      label: getString("setup-preset-change-azure-api-url"),
+      before: previous?.apiUrl || empty,
+      after: (values.apiUrl || "").trim(),
+    },
+    {
+      label: getString("setup-preset-change-azure-deployment"),
+      before: previous?.model || empty,
+      after: values.model,
+    },
+    {
+      label: getString("setup-preset-change-api-key"),
+      before: previous?.apiKey ? maskApiKey(previous.apiKey) : empty,
+      after: maskApiKey(values.apiKey),
+    },
+    {
+      label: getString("setup-preset-change-model-priority"),
+      before: currentTop,
+      after: getString("setup-preset-azure-priority-after"),
+    },
+    {
+      label: getString("setup-preset-change-pdf-processing"),
+      before: pdfModeLabel(getPref("pdfProcessMode")),
+      after: getString("setup-preset-azure-pdf-after"),
+    },
+    {
+      label: getString("setup-preset-change-auto-scan"),
+      before: getPref("autoScan")
+        ? getString("setup-preset-value-enabled")
+        : getString("setup-preset-value-disabled"),
+      after: getString("setup-preset-value-enable"),
+    },
+    {
+      label: getString("setup-preset-change-temperature"),
+      before: getPref("enableTemperature")
+        ? getString("setup-preset-value-send")
+        : getString("setup-preset-value-not-send"),
+      after: getString("setup-preset-value-not-send"),
+    },
+    {
+      label: getString("setup-preset-change-top-p"),
+      before: getPref("enableTopP")
+        ? getString("setup-preset-value-send")
+        : getString("setup-preset-value-not-send"),
+      after: getString("setup-preset-value-not-send"),
+    },
+  ];
+}
+
+function apply(values: SetupPresetValues): void {
+  const timestamp = new Date().toISOString();
+  const previous = existingEndpoint();
+  const azureEndpoint: LLMEndpoint = {
+    id: AZURE_ENDPOINT_ID,
+    name: "Azure OpenAI",
+    providerType: "azure-openai",
+    apiUrl: (values.apiUrl || "").trim(),
+    apiKey: values.apiKey.trim(),
+    model: values.model,
+    reasoningEffort: "default",
+    pdfProcessMode: "text",
+    azureConfig: previous?.azureConfig || { apiMode: "chat", apiVersion: "" },
+    enabled: true,
+    createdAt: previous?.createdAt || timestamp,
+    updatedAt: timestamp,
+  };
+  const endpoints = LLMEndpointManager.getEndpoints().filter(
+    (endpoint) => endpoint.id !== AZURE_ENDPOINT_ID,
+  );
+
+  // Azure 不对应旧版单一提供商设置，只调整端点列表与通用选项
+  setPref("llmRoutingStrategy", "priority");
+  setPref("autoScan", true);
+  // 推理模型部署会拒绝 temperature / top_p
+  setPref("enableTemperature", false as any);
+  setPref("enableTopP", false as any);
+  LLMEndpointManager.saveEndpoints([azureEndpoint, ...endpoints]);
+  AutoScanManager.getInstance().start();
+}
+
+export const azureOpenAIPreset: SetupPreset = {
+  id: "azure-openai",
+  name: "Azure OpenAI",
+  get title() {
+    return getString("llm-endpoint-provider-azure-openai");
+  },
+  get description() {
+    return getString("setup-preset-azure-description");
+  },
+  get guideTitle() {
+    return getString("setup-preset-azure-guide-title");
+  },
+  get guideSubtitle() {
+    return getString("setup-preset-azure-guide-subtitle");
+  },
+  get apiKeyPlaceholder() {
+    return getString("setup-preset-azure-api-key-placeholder");
+  },
+  get apiUrlPlaceholder() {
+    return getString("setup-preset-azure-api-url-placeholder");
+  },
+  get modelLabel() {
+    return getString("setup-preset-azure-deployment-label");
+  },
+  get successMessage() {
+    return getString("setup-preset-azure-success");
+  },
+  endpoint: {
+    id: AZURE_ENDPOINT_ID,
+    name: "Azure OpenAI",
+    providerType: "azure-openai",
+    apiUrl: "",
+    model: "",
+    reasoningEffort: "default",
+    pdfProcessMode: "text",
+  },
+  get guideSteps() {
+    return [
+      {
+        title: getString("setup-preset-azure-step-resource-title"),
+        detail: getString("setup-preset-azure-step-resource-detail"),
+        url: "https://ai.azure.com/",
+      },
+      {
+        title: getString("setup-preset-azure-step-deploy-title"),
+        detail: getString("setup-preset-azure-step-deploy-detail"),
+      },
+      {
+        title: getString("setup-preset-azure-step-paste-title"),
+        detail: getString("setup-preset-azure-step-paste-detail"),
+      },
+    ];
+  },
+  getChanges,
+  apply,
+};
@@ -2,6 +2,7 @@ import { AutoScanManager } from "../autoScanManager";
 import { LLMEndpointManager, type LLMEndpoint } from "../llmEndpointManager";
 import { getPref, setPref } from "../../utils/prefs";
 import { getString } from "../../utils/locale";
+import { maskApiKey, pdfModeLabel, providerLabel } from "./labels";
 import type {
   SetupPreset,
   SetupPresetChange,
@@ -12,37 +13,6 @@ const DEEPSEEK_ENDPOINT_ID = "endpoint-preset-deepseek";
 const DEEPSEEK_API_URL = "https://api.deepseek.com/v1/chat/completions";
 const DEEPSEEK_MODEL = "deepseek-chat";
 
-function maskApiKey(apiKey: string): string {
-  const trimmed = apiKey.trim();
-  if (trimmed.length <= 10) return getString("setup-preset-value-filled");
-  return `${trimmed.slice(0, 6)}...${trimmed.slice(-4)}`;
-}
-
-function providerLabel(raw: unknown): string {
-  const value = String(raw || "").trim();
-  const labels: Record<string, string> = {
-    "openai-compat": getString("setup-preset-provider-openai-compat"),
-    openai: "OpenAI",
-    google: "Google Gemini",
-    anthropic: "Anthropic Claude",
-    openrouter: "OpenRouter",
-    volcanoark: getString("setup-preset-provider-volcanoark"),
-    ollama: getString("setup-preset-provider-ollama"),
-  };
-  return (
-    labels[value] || value || getString("setup-preset-value-not-configured")
-  );
-}
-
-function pdfModeLabel(raw: unknown): string {
-  const value = String(raw || "base64").trim();
-  const labels: Record<string, string> = {
-    text: getString("setup-preset-pdf-text"),
-    base64: getString("setup-preset-pdf-base64"),
-    mineru: getString("setup-preset-pdf-mineru"),
-  };
-  return labels[value] || value;
-}
 function getChanges(values: SetupPresetValues): SetupPresetChange[] {
   const endpoints = LLMEndpointManager.getEndpoints();
   const currentTop =
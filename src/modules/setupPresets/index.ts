@@ -1,7 +1,8 @@
+import { azureOpenAIPreset } from "./azureOpenAI";
 import { deepSeekPreset } from "./deepseek";
 import type { SetupPreset } from "./types";
 
-export const setupPresets: SetupPreset[] = [deepSeekPreset];
+export const setupPresets: SetupPreset[] = [deepSeekPreset, azureOpenAIPreset];
 
 export function getSetupPreset(id: string): SetupPreset | undefined {
   return setupPresets.find((preset) => preset.id === id);
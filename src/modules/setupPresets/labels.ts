@@ -0,0 +1,36 @@
+/**
+ * 预设确认页共用的取值展示
+ */
+import { getString } from "../../utils/locale";
+
+export function maskApiKey(apiKey: string): string {
+  const trimmed = apiKey.trim();
+  if (trimmed.length <= 10) return getString("setup-preset-value-filled");
+  return `${trimmed.slice(0, 6)}...${trimmed.slice(-4)}`;
+}
+
+export function providerLabel(raw: unknown): string {
+  const value = String(raw || "").trim();
+  const labels: Record<string, string> = {
+    "openai-compat": getString("setup-preset-provider-openai-compat"),
+    openai: "OpenAI",
+    google: "Google Gemini",
+    anthropic: "Anthropic Claude",
+    openrouter: "OpenRouter",
+    volcanoark: getString("setup-preset-provider-volcanoark"),
+    ollama: getString("setup-preset-provider-ollama"),
+  };
+  return (
+    labels[value] || value || getString("setup-preset-value-not-configured")
+  );
+}
+
+export function pdfModeLabel(raw: unknown): string {
+  const value = String(raw || "base64").trim();
+  const labels: Record<string, string> = {
+    text: getString("setup-preset-pdf-text"),
+    base64: getString("setup-preset-pdf-base64"),
+    mineru: getString("setup-preset-pdf-mineru"),
+  };
+  return labels[value] || value;
+}
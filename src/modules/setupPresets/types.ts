@@ -23,6 +23,8 @@ export interface SetupPresetEndpointConfig {
 export interface SetupPresetValues {
   apiKey: string;
   model: string;
+  /** 预设需要用户填写 API 地址时（如 Azure 资源地址）才有值 */
+  apiUrl?: string;
 }
 
 export interface SetupPresetChange {
@@ -39,6 +41,10 @@ export interface SetupPreset {
   guideTitle: string;
   guideSubtitle: string;
   apiKeyPlaceholder: string;
+  /** 设置后向导会要求填写 API 地址，并用它获取模型列表 */
+  apiUrlPlaceholder?: string;
+  /** 模型输入框的标题；未设置时显示“模型” */
+  modelLabel?: string;
   successMessage: string;
   endpoint: SetupPresetEndpointConfig;
   guideSteps: SetupPresetGuideStep[];
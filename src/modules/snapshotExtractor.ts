@@ -1,5 +1,6 @@
 import { getString } from "../utils/locale";
 import { PDFExtractor } from "./pdfExtractor";
+import { ContentCache } from "./contentCache";
 
 /** 识别并提取 Zotero HTML/XHTML 网页快照文本。 */
 export class SnapshotExtractor {
@@ -95,6 +96,14 @@ export class SnapshotExtractor {
       throw new Error(getString("snapshot-error-not-web-snapshot"));
     }
 
+    return ContentCache.getOrCreate(snapshotAttachment, "snapshot", () =>
+      this.readWebSnapshotText(snapshotAttachment),
+    );
+  }
+
+  private static async readWebSnapshotText(
+    snapshotAttachment: Zotero.Item,
+  ): Promise<string> {
     const snapshotPath = await this.getAttachmentFilePath(snapshotAttachment);
     if (!snapshotPath)
       throw new Error(getString("snapshot-error-no-file-path"));
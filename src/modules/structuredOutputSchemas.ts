@@ -0,0 +1,116 @@
+/**
+ * 各任务的结构化输出 Schema
+ *
+ * 填表不再解析模型自由输出的 Markdown，而是要求模型按 Schema 返回
+ * JSON 对象（见 LLMService.generateObject），再由本模块把对象渲染为笔记使用的 Markdown。
+ * 思维导图的输出格式由（可自定义的）提示词决定，仍直接使用模型返回的 Markdown。
+ */
+import type { LLMJsonSchema, LLMResponseSchema } from "./llmproviders/types";
+import { TABLE_FILL_SCHEMA_DESCRIPTION } from "../utils/prompts";
+
+// ==================== 填表 ====================
+
+export interface MarkdownTableTemplate {
+  header: string[];
+  /** 模板中的数据行，空单元格为待填写内容 */
+  rows: string[][];
+}
+
+export interface TableFillResult {
+  rows: string[][];
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim());
+}
+
+/**
+ * 解析 Markdown 表格模板；不是标准表格（缺少表头分隔行）时返回 null
+ */
+export function parseMarkdownTableTemplate(
+  template: string,
+): MarkdownTableTemplate | null {
+  const lines = template
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("|"));
+  if (lines.length < 2 || !/^\|?\s*:?-{2,}/.test(lines[1])) return null;
+
+  const header = splitTableRow(lines[0]);
+  if (header.length === 0) return null;
+  const rows = lines
+    .slice(2)
+    .map((line) => splitTableRow(line))
+    .map((cells) => header.map((_, index) => (cells[index] || "").trim()));
+  return {
+    header,
+    rows: rows.length > 0 ? rows : [header.map(() => "")],
+  };
+}
+
+export function buildTableFillSchema(
+  template: MarkdownTableTemplate,
+): LLMResponseSchema {
+  const columns = template.header.length;
+  const rows = template.rows.length;
+  return {
+    name: "table_fill",
+    description: `Filled table with columns: ${template.header.join(", ")}`,
+    schema: {
+      type: "object",
+      properties: {
+        rows: {
+          type: "array",
+          description: TABLE_FILL_SCHEMA_DESCRIPTION,
+          minItems: rows,
+          maxItems: rows,
+          items: {
+            type: "array",
+            items: { type: "string" },
+            minItems: columns,
+            maxItems: columns,
+          },
+        },
+      },
+      required: ["rows"],
+      additionalProperties: false,
+    },
+  };
+}
+
+function escapeTableCell(value: string): string {
+  return value
+    .trim()
+    .replace(/\r?\n+/g, "<br>")
+    .replace(/(?<!\\)\|/g, "\\|");
+}
+
+/**
+ * 用填写结果渲染 Markdown 表格；模板中已有内容的单元格（如维度名称）保持不变
+ */
+export function renderFilledMarkdownTable(
+  template: MarkdownTableTemplate,
+  result: TableFillResult,
+): string {
+  const toLine = (cells: string[]) => `| ${cells.join(" | ")} |`;
+  const lines = [
+    toLine(template.header),
+    toLine(template.header.map(() => "------")),
+  ];
+  template.rows.forEach((templateRow, rowIndex) => {
+    const filled = result.rows[rowIndex] || [];
+    lines.push(
+      toLine(
+        templateRow.map((cell, columnIndex) =>
+          cell ? cell : escapeTableCell(filled[columnIndex] || ""),
+        ),
+      ),
+    );
+  });
+  return lines.join("\n");
+}
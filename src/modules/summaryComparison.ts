@@ -0,0 +1,267 @@
+/**
+ * 多模型总结对比
+ *
+ * 把同一笔记中的多个总结区块按标题拆分成小节，按标题对齐成行，
+ * 再以第一列为基准对其余各列做词级差异。中文按字切分，英文按单词切分。
+ * 本模块只处理字符串，渲染由侧边栏与 SummaryView 负责。
+ */
+
+export type SummarySection = {
+  heading: string;
+  text: string;
+};
+
+export type SummaryDiffToken = {
+  type: "equal" | "insert" | "delete";
+  text: string;
+};
+
+export type SummaryComparisonCell = {
+  text: string;
+  /** 相对基准列的差异；基准列本身或基准列缺少该小节时为空 */
+  diff?: SummaryDiffToken[];
+};
+
+export type SummaryComparisonRow = {
+  heading: string;
+  cells: Array<SummaryComparisonCell | null>;
+};
+
+/** 词级差异的动态规划表上限，超出时整段标记为改写 */
+const MAX_DIFF_CELLS = 1_000_000;
+
+const HEADING_REGEX = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi;
+
+const TOKEN_REGEX =
+  /[A-Za-z0-9_]+(?:['\u2019.-][A-Za-z0-9_]+)*|[\u3400-\u9fff\uf900-\ufaff]|\s+|[^\sA-Za-z0-9_\u3400-\u9fff\uf900-\ufaff]/g;
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&nbsp;|&#160;/gi, " ")
+    .replace(/&#(\d+);/g, (_match, code: string) =>
+      String.fromCodePoint(Number(code)),
+    )
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) =>
+      String.fromCodePoint(parseInt(code, 16)),
+    )
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * HTML 片段转为按段落换行的纯文本
+ */
+export function summaryHtmlToText(html: string): string {
+  const text = html
+    .replace(/<style\b[^>]*>[\s\S]*?<\/style>/gi, "")
+    .replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(?:p|div|li|ul|ol|tr|blockquote|pre|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "");
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t\f\v]+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+/**
+ * 按标题拆分总结区块；开头的标题是笔记标题（如“AI 管家 - 论文名”），不参与对比
+ */
+export function extractSummarySections(html: string): SummarySection[] {
+  const source = html.replace(/<!--[\s\S]*?-->/g, "").trim();
+  const headings = [...source.matchAll(HEADING_REGEX)];
+  const sections: SummarySection[] = [];
+  let start = 0;
+  let heading = "";
+  let skipFirst = headings.length > 0 && headings[0].index === 0;
+
+  for (const match of headings) {
+    const index = match.index ?? 0;
+    if (skipFirst) {
+      skipFirst = false;
+      start = index + match[0].length;
+      continue;
+    }
+    const text = summaryHtmlToText(source.slice(start, index));
+    if (heading || text) sections.push({ heading, text });
+    heading = summaryHtmlToText(match[2]);
+    start = index + match[0].length;
+  }
+  const text = summaryHtmlToText(source.slice(start));
+  if (heading || text) sections.push({ heading, text });
+  return sections;
+}
+
+/**
+ * 标题归一化：去掉序号、标点与空白后比较，忽略大小写
+ */
+export function normalizeSectionHeading(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(
+      /^\s*(?:[0-9]+(?:\.[0-9]+)*|[一二三四五六七八九十]+)\s*[.、):．）]?\s*/,
+      "",
+    )
+    .replace(
+      /[\s.,;:!?'"`~@#$%^&*()[\]{}<>\\/|+=_\-，。；：！？、“”‘’（）【】《》·…—]/g,
+      "",
+    );
+}
+
+/**
+ * 按标题把各列的小节对齐成行
+ *
+ * 行顺序以第一列为准；其他列独有的小节插在该列上一个已对齐小节之后。
+ */
+export function alignSummarySections(
+  columns: SummarySection[][],
+): Array<{ heading: string; cells: Array<SummarySection | null> }> {
+  const rows: Array<{
+    key: string;
+    heading: string;
+    cells: Array<SummarySection | null>;
+  }> = [];
+
+  columns.forEach((sections, column) => {
+    let lastIndex = -1;
+    for (const section of sections) {
+      const key = normalizeSectionHeading(section.heading);
+      let index = rows.findIndex(
+        (row, rowIndex) =>
+          rowIndex > lastIndex && row.key === key && !row.cells[column],
+      );
+      if (index < 0) {
+        index = lastIndex + 1;
+        rows.splice(index, 0, {
+          key,
+          heading: section.heading,
+          cells: columns.map(() => null),
+        });
+      }
+      rows[index].cells[column] = section;
+      lastIndex = index;
+    }
+  });
+
+  return rows.map(({ heading, cells }) => ({ heading, cells }));
+}
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN_REGEX) || [];
+}
+
+function sameToken(a: string, b: string): boolean {
+  return a === b || (/^\s+$/.test(a) && /^\s+$/.test(b));
+}
+
+function pushToken(
+  tokens: SummaryDiffToken[],
+  type: SummaryDiffToken["type"],
+  text: string,
+): void {
+  if (!text) return;
+  const last = tokens[tokens.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    tokens.push({ type, text });
+  }
+}
+
+/**
+ * 词级差异：equal 为两者共有，delete 只在 base 中，insert 只在 other 中
+ */
+export function diffSummaryWords(
+  base: string,
+  other: string,
+): SummaryDiffToken[] {
+  const a = tokenize(base);
+  const b = tokenize(other);
+  const tokens: SummaryDiffToken[] = [];
+
+  let prefix = 0;
+  while (
+    prefix < a.length &&
+    prefix < b.length &&
+    sameToken(a[prefix], b[prefix])
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    sameToken(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+  pushToken(tokens, "equal", b.slice(0, prefix).join(""));
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    pushToken(tokens, "delete", midA.join(""));
+    pushToken(tokens, "insert", midB.join(""));
+  } else {
+    // lcs[i][j]：midA[i..] 与 midB[j..] 的最长公共子序列长度
+    const width = m + 1;
+    const lcs = new Uint16Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = sameToken(midA[i], midB[j])
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (sameToken(midA[i], midB[j])) {
+        pushToken(tokens, "equal", midB[j]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushToken(tokens, "delete", midA[i++]);
+      } else {
+        pushToken(tokens, "insert", midB[j++]);
+      }
+    }
+    pushToken(tokens, "delete", midA.slice(i).join(""));
+    pushToken(tokens, "insert", midB.slice(j).join(""));
+  }
+
+  pushToken(tokens, "equal", b.slice(b.length - suffix).join(""));
+  return tokens;
+}
+
+/**
+ * 生成对比表：各列按标题对齐，第一列之外的单元格附带相对第一列的词级差异
+ */
+export function buildSummaryComparison(
+  blocksHtml: string[],
+): SummaryComparisonRow[] {
+  const aligned = alignSummarySections(blocksHtml.map(extractSummarySections));
+  return aligned.map((row) => {
+    const base = row.cells[0];
+    return {
+      heading: row.heading,
+      cells: row.cells.map((cell, column) => {
+        if (!cell) return null;
+        if (column === 0 || !base) return { text: cell.text };
+        return {
+          text: cell.text,
+          diff: diffSummaryWords(base.text, cell.text),
+        };
+      }),
+    };
+  });
+}
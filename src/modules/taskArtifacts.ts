@@ -1,6 +1,7 @@
 import { ImageNoteGenerator } from "./imageNoteGenerator";
 import { LiteratureReviewService } from "./literatureReviewService";
 import { MindmapService } from "./mindmapService";
+import { FigureExplainService } from "./figureExplainService";
 import { NoteGenerator } from "./noteGenerator";
 import { AiNoteService } from "./aiNoteService";
 import { hasIncompleteDeepReadContent } from "./deepReadEngine";
@@ -10,6 +11,7 @@ export type FixedTaskArtifactType =
   | "deepRead"
   | "imageSummary"
   | "mindmap"
+  | "figureExplain"
   | "tableFill";
 
 export interface TaskArtifactProbeResult {
@@ -33,6 +35,8 @@ export class TaskArtifacts {
           return this.probeImageSummary(item);
         case "mindmap":
           return this.probeMindmap(item);
+        case "figureExplain":
+          return this.probeFigureExplain(item);
         case "tableFill":
           return this.probeTable(item);
       }
@@ -117,6 +121,19 @@ export class TaskArtifacts {
       : { exists: false, reason: "mindmap-content-missing" };
   }
 
+  private static async probeFigureExplain(
+    item: Zotero.Item,
+  ): Promise<TaskArtifactProbeResult> {
+    const note = await FigureExplainService.findExistingFigureNote(item);
+    if (!note) {
+      return { exists: false, reason: "figure-note-missing" };
+    }
+
+    return this.noteHasUsableContent(note)
+      ? { exists: true }
+      : { exists: false, reason: "figure-note-empty" };
+  }
+
   private static async probeTable(
     item: Zotero.Item,
   ): Promise<TaskArtifactProbeResult> {
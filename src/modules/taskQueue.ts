@@ -26,7 +26,7 @@
  */
 
 import { getString } from "../utils/locale";
-import { getPref } from "../utils/prefs";
+import { getPref, setPref } from "../utils/prefs";
 import { NoteGenerator } from "./noteGenerator";
 import { ContentExtractor } from "./contentExtractor";
 import { PDFExtractor } from "./pdfExtractor";
@@ -34,6 +34,18 @@ import type { LLMAbortSignal } from "./llmproviders/types";
 import { isAbortError } from "./llmproviders/shared/requestAbort";
 import { TaskArtifacts, type FixedTaskArtifactType } from "./taskArtifacts";
 import { isTableFeatureEnabled } from "./uiCustomization";
+import { TaskQueueStore } from "./taskQueueStore";
+import {
+  QueueSchedule,
+  type QueueScheduleConfig,
+  type ScheduleBlock,
+} from "./queueSchedule";
+import {
+  UsageBudget,
+  isUsageBudgetExceededError,
+  type BudgetViolation,
+} from "./usageBudget";
+import { UsageLedger } from "./usageLedger";
 
 function logTaskQueue(...args: Parameters<ZToolkit["log"]>): void {
   try {
@@ -177,6 +189,7 @@ export enum TaskStatus {
   COMPLETED = "completed", // 已完成
   FAILED = "failed", // 失败
   PRIORITY = "priority", // 优先处理
+  PAUSED = "paused", // 预算暂停
 }
 
 /**
@@ -187,6 +200,7 @@ export type TaskType =
   | "deepRead"
   | "imageSummary"
   | "mindmap"
+  | "figureExplain"
   | "tableFill"
   | "review"
   | "targetedQuestion";
@@ -200,6 +214,21 @@ export interface TaskOptions {
   source?: TaskCreationSource;
 }
 
+/** 数值优先级范围：数值越大越先派发 */
+export const MIN_TASK_PRIORITY_LEVEL = 1;
+export const MAX_TASK_PRIORITY_LEVEL = 5;
+export const DEFAULT_TASK_PRIORITY_LEVEL = 3;
+
+/**
+ * 入队时的排队参数
+ */
+export interface TaskQueueOptions {
+  /** 数值优先级（1-5） */
+  priorityLevel?: number;
+  /** 需先完成的任务 ID，例如一图总结依赖同一文献的 AI 总结 */
+  dependsOn?: string[];
+}
+
 /**
  * 任务项接口
  */
@@ -221,7 +250,10 @@ export type TaskStage =
   | "saving-note"
   | "completed"
   | "failed"
-  | "aborted";
+  | "aborted"
+  | "budget-paused"
+  | "scheduled"
+  | "dependency-waiting";
 
 export interface TaskProgressMeta {
   stage?: TaskStage;
@@ -274,6 +306,16 @@ export interface TaskItem {
   targetedNoteTitle?: string;
   targetedSelectedTableEntries?: string[];
   targetedAppendedTableEntries?: string[];
+  /** 预算暂停前的排队状态，额度恢复后据此放回队列 */
+  pausedFromStatus?: TaskStatus.PENDING | TaskStatus.PRIORITY;
+  /** 用户选择「立即运行」，忽略队列时间窗 */
+  scheduleOverride?: boolean;
+  /** 数值优先级（1-5，默认 3），同一优先状态内数值大的先派发 */
+  priorityLevel?: number;
+  /** 拖拽排序序号，越小越靠前 */
+  queueOrder?: number;
+  /** 依赖的任务 ID，全部完成后才会派发 */
+  dependsOn?: string[];
 }
 
 export function getSummaryTaskId(itemId: number): string {
@@ -294,6 +336,87 @@ export function getEffectiveTaskType(
   return task.taskType || "summary";
 }
 
+export function getTaskPriorityLevel(
+  task: Pick<TaskItem, "priorityLevel">,
+): number {
+  const level = Math.round(Number(task.priorityLevel));
+  if (!Number.isFinite(level)) return DEFAULT_TASK_PRIORITY_LEVEL;
+  return Math.min(
+    MAX_TASK_PRIORITY_LEVEL,
+    Math.max(MIN_TASK_PRIORITY_LEVEL, level),
+  );
+}
+
+export function isQueuedTaskStatus(status: TaskStatus): boolean {
+  return status === TaskStatus.PENDING || status === TaskStatus.PRIORITY;
+}
+
+/**
+ * 排队任务的派发顺序：优先状态 → 数值优先级（高到低）→ 拖拽顺序 → 创建时间
+ */
+export function compareQueuedTasks(
+  a: Pick<TaskItem, "status" | "priorityLevel" | "queueOrder" | "createdAt">,
+  b: Pick<TaskItem, "status" | "priorityLevel" | "queueOrder" | "createdAt">,
+): number {
+  const statusRank = (task: Pick<TaskItem, "status">) =>
+    task.status === TaskStatus.PRIORITY ? 0 : 1;
+  const order = (task: Pick<TaskItem, "queueOrder">) =>
+    task.queueOrder ?? Number.MAX_SAFE_INTEGER;
+  return (
+    statusRank(a) - statusRank(b) ||
+    getTaskPriorityLevel(b) - getTaskPriorityLevel(a) ||
+    order(a) - order(b) ||
+    a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+export type TaskDependencyState = "ready" | "waiting" | "failed";
+
+/**
+ * 计算任务依赖状态：依赖全部完成（或已被删除）为 ready，
+ * 任一依赖失败为 failed，其余为 waiting。taskIds 为失败或仍在等待的依赖。
+ */
+export function getTaskDependencyState(
+  task: Pick<TaskItem, "dependsOn">,
+  lookup: (taskId: string) => Pick<TaskItem, "status"> | undefined,
+): { state: TaskDependencyState; taskIds: string[] } {
+  const failed: string[] = [];
+  const waiting: string[] = [];
+  for (const taskId of task.dependsOn || []) {
+    const dependency = lookup(taskId);
+    if (!dependency || dependency.status === TaskStatus.COMPLETED) continue;
+    if (dependency.status === TaskStatus.FAILED) failed.push(taskId);
+    else waiting.push(taskId);
+  }
+  if (failed.length > 0) return { state: "failed", taskIds: failed };
+  if (waiting.length > 0) return { state: "waiting", taskIds: waiting };
+  return { state: "ready", taskIds: [] };
+}
+
+/**
+ * 超出历史保留上限的已结束任务：按完成时间保留最近 limit 条，limit ≤ 0 表示不限制。
+ * keep 中的任务（如仍被排队任务依赖）不会被清理。
+ */
+export function selectExpiredTaskIds(
+  tasks: Array<Pick<TaskItem, "id" | "status" | "createdAt" | "completedAt">>,
+  limit: number,
+  keep: Set<string> = new Set(),
+): string[] {
+  if (!Number.isFinite(limit) || limit <= 0) return [];
+  const finishedAt = (task: Pick<TaskItem, "createdAt" | "completedAt">) =>
+    (task.completedAt || task.createdAt).getTime();
+  return tasks
+    .filter(
+      (task) =>
+        task.status === TaskStatus.COMPLETED ||
+        task.status === TaskStatus.FAILED,
+    )
+    .sort((a, b) => finishedAt(b) - finishedAt(a))
+    .slice(limit)
+    .map((task) => task.id)
+    .filter((taskId) => !keep.has(taskId));
+}
+
 type AutoSuppressibleTaskType = "summary" | "deepRead";
 
 type DeletedFixedTaskRecord = {
@@ -326,6 +449,7 @@ export interface QueueStats {
   processing: number; // 处理中数
   completed: number; // 已完成数
   failed: number; // 失败数
+  paused: number; // 预算暂停数
   successRate: number; // 成功率(%)
 }
 
@@ -391,15 +515,27 @@ export class TaskQueueManager {
   /** 队列执行器定时器ID */
   private executorTimerId: number | null = null;
 
-  /** 最近一次加载到的持久化快照时间 */
+  /** 最近一次加载或写入的存储修订号 */
   private lastLoadedSnapshotAt: string | null = null;
 
+  /** 任务持久化存储，增量写入状态随本实例维护 */
+  private readonly store = new TaskQueueStore();
+
+  /** 启动时从存储加载任务的过程，写入前需等待其完成 */
+  private storageReady: Promise<void> = Promise.resolve();
+
+  /** 启动时的首次加载是否已结束（成功或失败） */
+  private storageLoaded: boolean = false;
+
   /** 用户主动删除的自动总结/精读任务，避免自动扫描跨窗口重新入队。 */
   private deletedFixedTasks: Map<string, DeletedFixedTaskRecord> = new Map();
 
   /** 本上下文已由用户显式重新入队而清除的删除标记。 */
   private clearedDeletedFixedTaskKeys: Set<string> = new Set();
 
+  /** 依赖任务为复用前置任务提取结果而持有的保留：任务 ID → 文献条目 ID */
+  private sharedExtractionHolds: Map<string, number> = new Map();
+
   /** 最大并发数 */
   private maxConcurrency: number = 1;
 
@@ -419,7 +555,7 @@ export class TaskQueueManager {
    * 私有构造函数(单例模式)
    */
   private constructor() {
-    this.loadFromStorage(true);
+    this.storageReady = this.loadFromStorage(true);
     this.loadSettings();
   }
 
@@ -440,6 +576,7 @@ export class TaskQueueManager {
     priority: boolean,
     options?: TaskItem["options"],
     workflowStage?: string,
+    queueOptions?: TaskQueueOptions,
   ): Promise<boolean> {
     if (task.status === TaskStatus.PROCESSING) {
       logTaskQueue(`任务正在执行，跳过重复入队: ${task.id}`);
@@ -460,6 +597,7 @@ export class TaskQueueManager {
 
       logTaskQueue(`任务已完成但需要重新生成，重新入队: ${task.id}`);
       this.resetTaskForEnqueue(task, priority, options, workflowStage);
+      this.applyQueueOptions(task, queueOptions);
       await this.saveToStorage();
       if (artifactType === "summary" || artifactType === "deepRead") {
         this.notifySummaryTaskEnqueued(task);
@@ -500,6 +638,7 @@ export class TaskQueueManager {
 
       logTaskQueue(`失败任务重新入队: ${task.id}`);
       this.resetTaskForEnqueue(task, priority, options, workflowStage);
+      this.applyQueueOptions(task, queueOptions);
       await this.saveToStorage();
       if (artifactType === "summary" || artifactType === "deepRead") {
         this.notifySummaryTaskEnqueued(task);
@@ -511,11 +650,13 @@ export class TaskQueueManager {
       priority || task.status === TaskStatus.PRIORITY
         ? TaskStatus.PRIORITY
         : TaskStatus.PENDING;
+    task.pausedFromStatus = undefined;
     task.options = options;
     task.createdAt = new Date();
     if (workflowStage !== undefined) {
       task.workflowStage = workflowStage;
     }
+    this.applyQueueOptions(task, queueOptions);
     await this.saveToStorage();
     logTaskQueue(`更新已排队任务: ${task.id}`);
     return true;
@@ -604,6 +745,10 @@ export class TaskQueueManager {
     workflowStage?: string,
   ): void {
     task.status = priority ? TaskStatus.PRIORITY : TaskStatus.PENDING;
+    task.pausedFromStatus = undefined;
+    task.scheduleOverride = undefined;
+    task.queueOrder = undefined;
+    task.dependsOn = undefined;
     task.options = options;
     task.progress = 0;
     task.error = undefined;
@@ -618,6 +763,76 @@ export class TaskQueueManager {
     }
   }
 
+  /**
+   * 写入排队参数；声明依赖同一文献的未完成任务时，保留其提取结果供本任务复用
+   */
+  private applyQueueOptions(
+    task: TaskItem,
+    queueOptions?: TaskQueueOptions,
+  ): void {
+    if (!queueOptions) return;
+    if (queueOptions.priorityLevel !== undefined) {
+      task.priorityLevel = getTaskPriorityLevel(queueOptions);
+    }
+    const dependsOn = (queueOptions.dependsOn || []).filter(
+      (taskId) => taskId && taskId !== task.id,
+    );
+    if (dependsOn.length === 0) return;
+    task.dependsOn = Array.from(
+      new Set([...(task.dependsOn || []), ...dependsOn]),
+    );
+
+    const sharesItem = dependsOn.some((taskId) => {
+      const dependency = this.tasks.get(taskId);
+      return (
+        dependency?.itemId === task.itemId &&
+        dependency.status !== TaskStatus.COMPLETED &&
+        dependency.status !== TaskStatus.FAILED
+      );
+    });
+    if (sharesItem && !this.sharedExtractionHolds.has(task.id)) {
+      PDFExtractor.retainSharedExtraction(task.itemId);
+      this.sharedExtractionHolds.set(task.id, task.itemId);
+    }
+  }
+
+  /**
+   * 依赖任务结束（完成/失败/删除）后释放其持有的提取结果
+   */
+  private releaseSharedExtractionHolds(force: boolean = false): void {
+    for (const [taskId, itemId] of Array.from(this.sharedExtractionHolds)) {
+      const task = this.tasks.get(taskId);
+      if (
+        !force &&
+        task &&
+        task.status !== TaskStatus.COMPLETED &&
+        task.status !== TaskStatus.FAILED
+      ) {
+        continue;
+      }
+      PDFExtractor.releaseSharedExtraction(itemId);
+      this.sharedExtractionHolds.delete(taskId);
+    }
+  }
+
+  private isTaskDependencyReady(task: TaskItem): boolean {
+    return (
+      getTaskDependencyState(task, (taskId) => this.tasks.get(taskId)).state ===
+      "ready"
+    );
+  }
+
+  /**
+   * 优先任务入队后能否跳过批处理周期立即执行：前置任务已完成且不在时间窗之外；
+   * 被时间窗挡住的任务保持排队，由批处理在允许时段派发
+   */
+  private canRunImmediately(task: TaskItem): boolean {
+    return (
+      this.isTaskDependencyReady(task) &&
+      this.filterTasksBySchedule([task]).length > 0
+    );
+  }
+
   private notifySummaryTaskEnqueued(task: TaskItem): void {
     if (task.taskType && task.taskType !== "summary") {
       return;
@@ -641,6 +856,7 @@ export class TaskQueueManager {
     item: Zotero.Item,
     priority: boolean = false,
     options?: TaskOptions,
+    queueOptions?: TaskQueueOptions,
   ): Promise<string> {
     if (!isQueueableAiSourceItem(item)) {
       logTaskQueue(`[AI-Butler] 跳过非顶层文献 AI 总结任务: ${item.id}`);
@@ -648,7 +864,7 @@ export class TaskQueueManager {
     }
 
     if (options?.summaryMode && options.summaryMode !== "single") {
-      return this.addDeepReadTask(item, priority, options);
+      return this.addDeepReadTask(item, priority, options, queueOptions);
     }
 
     const summaryOptions = {
@@ -686,15 +902,18 @@ export class TaskQueueManager {
         "summary",
         priority,
         summaryOptions,
+        undefined,
+        queueOptions,
       );
       if (!shouldRun) {
         return taskId;
       }
 
+      await this.enqueueSummaryFollowUps(item, taskId);
       if (!this.isRunning) {
         this.start();
       }
-      if (priority) {
+      if (priority && this.canRunImmediately(existingTask)) {
         this.executeTask(taskId).catch((e) => {
           logTaskQueue(`优先任务立即执行失败: ${e}`);
         });
@@ -745,20 +964,22 @@ export class TaskQueueManager {
       workflowStage: getString("task-stage-waiting-summary"),
       options: summaryOptions,
     };
+    this.applyQueueOptions(task, queueOptions);
 
     this.tasks.set(taskId, task);
     await this.saveToStorage();
     this.notifySummaryTaskEnqueued(task);
 
     logTaskQueue(`添加任务: ${task.title} (${taskId})`);
+    await this.enqueueSummaryFollowUps(item, taskId);
 
     // 如果执行器未运行,启动它
     if (!this.isRunning) {
       this.start();
     }
 
-    // 如果是优先任务，立即执行（不等待批处理周期）
-    if (priority) {
+    // 如果是优先任务且依赖已就绪，立即执行（不等待批处理周期）
+    if (priority && this.canRunImmediately(task)) {
       this.executeTask(taskId).catch((e) => {
         logTaskQueue(`优先任务立即执行失败: ${e}`);
       });
@@ -771,6 +992,7 @@ export class TaskQueueManager {
     item: Zotero.Item,
     priority: boolean = false,
     options?: TaskOptions,
+    queueOptions?: TaskQueueOptions,
   ): Promise<string> {
     if (!isQueueableAiSourceItem(item)) {
       logTaskQueue(`[AI-Butler] 跳过非顶层文献 AI 精读任务: ${item.id}`);
@@ -802,11 +1024,12 @@ export class TaskQueueManager {
         priority,
         deepReadOptions,
         getString("task-stage-waiting-deep-read"),
+        queueOptions,
       );
       if (!shouldRun) return taskId;
 
       if (!this.isRunning) this.start();
-      if (priority) {
+      if (priority && this.canRunImmediately(existingTask)) {
         this.executeTask(taskId).catch((e) => {
           logTaskQueue(`AI 精读优先任务立即执行失败: ${e}`);
         });
@@ -856,6 +1079,7 @@ export class TaskQueueManager {
       workflowStage: getString("task-stage-waiting-deep-read"),
       options: deepReadOptions,
     };
+    this.applyQueueOptions(task, queueOptions);
 
     this.tasks.set(taskId, task);
     await this.saveToStorage();
@@ -864,7 +1088,7 @@ export class TaskQueueManager {
     logTaskQueue(`添加 AI 精读任务: ${task.title} (${taskId})`);
 
     if (!this.isRunning) this.start();
-    if (priority) {
+    if (priority && this.canRunImmediately(task)) {
       this.executeTask(taskId).catch((e) => {
         logTaskQueue(`AI 精读优先任务立即执行失败: ${e}`);
       });
@@ -903,6 +1127,7 @@ export class TaskQueueManager {
   public async addImageSummaryTask(
     item: Zotero.Item,
     priority: boolean = true,
+    queueOptions?: TaskQueueOptions,
   ): Promise<string> {
     const taskId = `img-task-${item.id}`;
 
@@ -916,12 +1141,13 @@ export class TaskQueueManager {
         priority,
         undefined,
         getString("task-stage-waiting-start"),
+        queueOptions,
       );
       if (shouldRun) {
         if (!this.isRunning) {
           this.start();
         }
-        if (priority) {
+        if (priority && this.canRunImmediately(existingTask)) {
           this.executeImageSummaryTask(taskId).catch((e) => {
             logTaskQueue(`一图总结任务执行失败: ${e}`);
           });
@@ -943,6 +1169,7 @@ export class TaskQueueManager {
       taskType: "imageSummary",
       workflowStage: getString("task-stage-waiting-start"),
     };
+    this.applyQueueOptions(task, queueOptions);
 
     this.tasks.set(taskId, task);
     await this.saveToStorage();
@@ -953,7 +1180,7 @@ export class TaskQueueManager {
       this.start();
     }
 
-    if (priority) {
+    if (priority && this.canRunImmediately(task)) {
       this.executeImageSummaryTask(taskId).catch((e) => {
         logTaskQueue(`一图总结任务执行失败: ${e}`);
       });
@@ -1045,6 +1272,7 @@ export class TaskQueueManager {
       logTaskQueue(`一图总结任务完成: ${task.title} (耗时${task.duration}秒)`);
       this.notifyComplete(taskId, true);
     } catch (error: any) {
+      if (this.pauseTaskForBudget(task, error)) return;
       // 任务失败
       task.error = this.getTaskErrorMessage(error);
       task.errorDetails = this.buildTaskErrorDetails(task, error);
@@ -1099,6 +1327,7 @@ export class TaskQueueManager {
   public async addMindmapTask(
     item: Zotero.Item,
     priority: boolean = true,
+    queueOptions?: TaskQueueOptions,
   ): Promise<string> {
     const taskId = `mindmap-task-${item.id}`;
 
@@ -1112,12 +1341,13 @@ export class TaskQueueManager {
         priority,
         undefined,
         getString("task-stage-waiting-start"),
+        queueOptions,
       );
       if (shouldRun) {
         if (!this.isRunning) {
           this.start();
         }
-        if (priority) {
+        if (priority && this.canRunImmediately(existingTask)) {
           this.executeMindmapTask(taskId).catch((e) => {
             logTaskQueue(`思维导图任务执行失败: ${e}`);
           });
@@ -1139,6 +1369,7 @@ export class TaskQueueManager {
       taskType: "mindmap",
       workflowStage: getString("task-stage-waiting-start"),
     };
+    this.applyQueueOptions(task, queueOptions);
 
     this.tasks.set(taskId, task);
     await this.saveToStorage();
@@ -1149,7 +1380,7 @@ export class TaskQueueManager {
       this.start();
     }
 
-    if (priority) {
+    if (priority && this.canRunImmediately(task)) {
       this.executeMindmapTask(taskId).catch((e) => {
         logTaskQueue(`思维导图任务执行失败: ${e}`);
       });
@@ -1230,6 +1461,7 @@ export class TaskQueueManager {
       logTaskQueue(`思维导图任务完成: ${task.title} (耗时${task.duration}秒)`);
       this.notifyComplete(taskId, true);
     } catch (error: any) {
+      if (this.pauseTaskForBudget(task, error)) return;
       // 任务失败
       task.error = this.getTaskErrorMessage(error);
       task.errorDetails = this.buildTaskErrorDetails(task, error);
@@ -1265,12 +1497,192 @@ export class TaskQueueManager {
     return this.getAllTasks().filter((t) => t.taskType === "mindmap");
   }
 
+  /**
+   * 添加逐图解读任务
+   *
+   * @param item Zotero 文献条目
+   * @returns 任务ID
+   */
+  public async addFigureExplainTask(
+    item: Zotero.Item,
+    priority: boolean = true,
+    queueOptions?: TaskQueueOptions,
+  ): Promise<string> {
+    const taskId = `figure-explain-task-${item.id}`;
+
+    // 检查是否已存在
+    if (this.tasks.has(taskId)) {
+      const existingTask = this.tasks.get(taskId)!;
+      const shouldRun = await this.requeueExistingFixedTask(
+        existingTask,
+        item,
+        "figureExplain",
+        priority,
+        undefined,
+        getString("task-stage-waiting-start"),
+        queueOptions,
+      );
+      if (shouldRun) {
+        if (!this.isRunning) {
+          this.start();
+        }
+        if (priority && this.canRunImmediately(existingTask)) {
+          this.executeFigureExplainTask(taskId).catch((e) => {
+            logTaskQueue(`逐图解读任务执行失败: ${e}`);
+          });
+        }
+      }
+      return taskId;
+    }
+
+    // 创建任务项
+    const task: TaskItem = {
+      id: taskId,
+      itemId: item.id,
+      title: item.getField("title") as string,
+      status: priority ? TaskStatus.PRIORITY : TaskStatus.PENDING,
+      progress: 0,
+      createdAt: new Date(),
+      retryCount: 0,
+      maxRetries: 2,
+      taskType: "figureExplain",
+      workflowStage: getString("task-stage-waiting-start"),
+    };
+    this.applyQueueOptions(task, queueOptions);
+
+    this.tasks.set(taskId, task);
+    await this.saveToStorage();
+
+    logTaskQueue(`添加逐图解读任务: ${task.title} (${taskId})`);
+
+    if (!this.isRunning) {
+      this.start();
+    }
+
+    if (priority && this.canRunImmediately(task)) {
+      this.executeFigureExplainTask(taskId).catch((e) => {
+        logTaskQueue(`逐图解读任务执行失败: ${e}`);
+      });
+    }
+
+    return taskId;
+  }
+
+  /**
+   * 执行逐图解读任务
+   *
+   * @param taskId 任务ID
+   */
+  private async executeFigureExplainTask(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task || task.taskType !== "figureExplain") {
+      return;
+    }
+
+    // 防止重复执行
+    if (
+      task.status === TaskStatus.PROCESSING ||
+      task.status === TaskStatus.COMPLETED
+    ) {
+      return;
+    }
+
+    // 更新任务状态
+    task.status = TaskStatus.PROCESSING;
+    task.startedAt = new Date();
+    task.progress = 0;
+    task.error = undefined;
+    task.errorDetails = undefined;
+    task.workflowStage = getString("task-stage-initializing");
+    this.processingTasks.add(taskId);
+    this.abortingTasks.delete(taskId);
+    const abortController = createTaskAbortController();
+    this.taskAbortControllers.set(taskId, abortController);
+    await this.saveToStorage();
+
+    logTaskQueue(`开始执行逐图解读任务: ${task.title}`);
+
+    try {
+      // 获取 Zotero Item
+      const item = await Zotero.Items.getAsync(task.itemId);
+      if (!item) {
+        throw new Error(getString("task-error-item-not-found"));
+      }
+
+      // 动态导入 FigureExplainService
+      const { FigureExplainService } = await import("./figureExplainService");
+
+      // 执行逐图解读生成
+      await FigureExplainService.generateForItem(
+        item,
+        (stage, message, progress) => {
+          // 更新任务进度
+          task.progress = progress;
+          task.workflowStage = message;
+          this.notifyProgress(taskId, progress, message);
+          // 保存进度（但不要太频繁）
+          if (progress % 20 === 0 || progress === 100) {
+            this.saveToStorage().catch(() => {});
+          }
+        },
+        abortController.signal,
+      );
+
+      // 任务成功完成
+      task.status = TaskStatus.COMPLETED;
+      task.progress = 100;
+      task.workflowStage = getString("progress-completed");
+      task.completedAt = new Date();
+      task.duration = Math.floor(
+        (task.completedAt.getTime() - task.startedAt!.getTime()) / 1000,
+      );
+
+      logTaskQueue(`逐图解读任务完成: ${task.title} (耗时${task.duration}秒)`);
+      this.notifyComplete(taskId, true);
+    } catch (error: any) {
+      if (this.pauseTaskForBudget(task, error)) return;
+      // 任务失败
+      task.error = this.getTaskErrorMessage(error);
+      task.errorDetails = this.buildTaskErrorDetails(task, error);
+      task.workflowStage = getString("progress-failed");
+      const suppressTaskRetry = this.shouldSuppressTaskRetry(error, task);
+
+      task.retryCount++;
+      if (!suppressTaskRetry && task.retryCount < task.maxRetries) {
+        task.status = TaskStatus.PENDING;
+        task.progress = 0;
+        logTaskQueue(
+          `逐图解读任务失败,将重试 (${task.retryCount}/${task.maxRetries}): ${task.title}`,
+        );
+      } else {
+        task.status = TaskStatus.FAILED;
+        task.completedAt = new Date();
+        logTaskQueue(`逐图解读任务最终失败: ${task.title} - ${task.error}`);
+      }
+
+      this.notifyComplete(taskId, false, task.error);
+    } finally {
+      this.processingTasks.delete(taskId);
+      this.taskAbortControllers.delete(taskId);
+      this.abortingTasks.delete(taskId);
+      await this.saveToStorage();
+    }
+  }
+
+  /**
+   * 获取逐图解读任务
+   */
+  public getFigureExplainTasks(): TaskItem[] {
+    return this.getAllTasks().filter((t) => t.taskType === "figureExplain");
+  }
+
   /**
    * 添加填表任务
    */
   public async addTableFillTask(
     item: Zotero.Item,
     priority: boolean = true,
+    queueOptions?: TaskQueueOptions,
   ): Promise<string> {
     if (!isTableFeatureEnabled()) {
       throw new Error(getString("task-error-table-feature-disabled"));
@@ -1287,12 +1699,13 @@ export class TaskQueueManager {
         priority,
         undefined,
         getString("task-stage-waiting-start"),
+        queueOptions,
       );
       if (shouldRun) {
         if (!this.isRunning) {
           this.start();
         }
-        if (priority) {
+        if (priority && this.canRunImmediately(existingTask)) {
           this.executeTableFillTask(taskId).catch((e) => {
             logTaskQueue(`填表任务执行失败: ${e}`);
           });
@@ -1313,6 +1726,7 @@ export class TaskQueueManager {
       taskType: "tableFill",
       workflowStage: getString("task-stage-waiting-start"),
     };
+    this.applyQueueOptions(task, queueOptions);
 
     this.tasks.set(taskId, task);
     await this.saveToStorage();
@@ -1323,7 +1737,7 @@ export class TaskQueueManager {
       this.start();
     }
 
-    if (priority) {
+    if (priority && this.canRunImmediately(task)) {
       this.executeTableFillTask(taskId).catch((e) => {
         logTaskQueue(`填表任务执行失败: ${e}`);
       });
@@ -1432,6 +1846,7 @@ export class TaskQueueManager {
       logTaskQueue(`填表任务完成: ${task.title} (耗时${task.duration}秒)`);
       this.notifyComplete(taskId, true);
     } catch (error: any) {
+      if (this.pauseTaskForBudget(task, error)) return;
       task.error = this.getTaskErrorMessage(error);
       task.errorDetails = this.buildTaskErrorDetails(task, error);
       task.workflowStage = getString("progress-failed");
@@ -1591,6 +2006,7 @@ export class TaskQueueManager {
       logTaskQueue(`综述任务完成: ${task.title} (耗时${task.duration}秒)`);
       this.notifyComplete(taskId, true);
     } catch (error: any) {
+      if (this.pauseTaskForBudget(task, error)) return;
       task.error = this.getTaskErrorMessage(error);
       task.errorDetails = this.buildTaskErrorDetails(task, error);
       task.workflowStage = getString("progress-failed");
@@ -1762,6 +2178,7 @@ export class TaskQueueManager {
       );
       this.notifyComplete(taskId, true);
     } catch (error: any) {
+      if (this.pauseTaskForBudget(task, error)) return;
       task.error = this.getTaskErrorMessage(error);
       task.errorDetails = this.buildTaskErrorDetails(task, error);
       task.workflowStage = getString("progress-failed");
@@ -1828,7 +2245,8 @@ export class TaskQueueManager {
       const hasPending = this.getAllTasks().some(
         (task) =>
           task.status === TaskStatus.PRIORITY ||
-          task.status === TaskStatus.PENDING,
+          task.status === TaskStatus.PENDING ||
+          task.status === TaskStatus.PAUSED,
       );
       if (!hasPending && this.processingTasks.size === 0) {
         this.stop();
@@ -1897,6 +2315,7 @@ export class TaskQueueManager {
     // 清空队列
     this.tasks.clear();
     this.processingTasks.clear();
+    this.releaseSharedExtractionHolds(true);
 
     await this.saveToStorage();
     logTaskQueue("清空所有任务");
@@ -1917,6 +2336,15 @@ export class TaskQueueManager {
       return;
     }
 
+    // 预算暂停的任务只记录恢复后的优先级
+    if (task.status === TaskStatus.PAUSED) {
+      task.pausedFromStatus = priority
+        ? TaskStatus.PRIORITY
+        : TaskStatus.PENDING;
+      await this.saveToStorage();
+      return;
+    }
+
     // 只有待处理或失败的任务可以调整优先级
     if (
       task.status === TaskStatus.PENDING ||
@@ -1928,9 +2356,104 @@ export class TaskQueueManager {
     }
   }
 
+  /**
+   * 立即运行任务：忽略队列时间窗并优先派发
+   *
+   * @param taskId 任务ID
+   */
+  public async runTaskNow(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (
+      !task ||
+      (task.status !== TaskStatus.PENDING &&
+        task.status !== TaskStatus.PRIORITY)
+    ) {
+      return;
+    }
+
+    task.scheduleOverride = true;
+    task.status = TaskStatus.PRIORITY;
+    task.stage = undefined;
+    task.stageLabel = undefined;
+    task.stageDetail = undefined;
+    task.workflowStage = undefined;
+    await this.saveToStorage();
+    logTaskQueue(`立即运行任务（忽略时间窗）: ${taskId}`);
+
+    if (this.isRunning) {
+      void this.executeNextBatch();
+    } else {
+      this.start();
+    }
+  }
+
+  /**
+   * 设置任务的数值优先级（1-5）
+   *
+   * @param taskId 任务ID
+   * @param level 优先级，数值越大越先派发
+   */
+  public async setTaskPriorityLevel(
+    taskId: string,
+    level: number,
+  ): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      return;
+    }
+
+    task.priorityLevel = getTaskPriorityLevel({ priorityLevel: level });
+    task.queueOrder = undefined;
+    await this.saveToStorage();
+    logTaskQueue(`任务 ${taskId} 数值优先级已更新: ${task.priorityLevel}`);
+  }
+
+  /**
+   * 拖拽排序：把排队任务移动到目标任务之前，目标为空时移到队尾
+   *
+   * 被移动的任务沿用相邻任务的优先状态与数值优先级，使派发顺序与列表顺序一致
+   *
+   * @param taskId 被移动的任务ID
+   * @param beforeTaskId 目标任务ID
+   */
+  public async moveTask(
+    taskId: string,
+    beforeTaskId: string | null,
+  ): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task || !isQueuedTaskStatus(task.status) || taskId === beforeTaskId) {
+      return;
+    }
+
+    const queuedTasks = this.getAllTasks()
+      .filter((t) => t.id !== taskId && isQueuedTaskStatus(t.status))
+      .sort(compareQueuedTasks);
+    const target = beforeTaskId ? this.tasks.get(beforeTaskId) : undefined;
+    let index = target ? queuedTasks.indexOf(target) : -1;
+    if (index < 0) {
+      index = queuedTasks.length;
+    }
+
+    const neighbour = queuedTasks[index] || queuedTasks[index - 1];
+    if (neighbour) {
+      task.status = neighbour.status;
+      task.priorityLevel = getTaskPriorityLevel(neighbour);
+    }
+    queuedTasks.splice(index, 0, task);
+    queuedTasks.forEach((queuedTask, order) => {
+      queuedTask.queueOrder = order;
+    });
+
+    await this.saveToStorage();
+    logTaskQueue(`任务 ${taskId} 已移动到位置 ${index + 1}`);
+  }
+
   /**
    * 重试失败任务
    *
+   * 因该任务失败而一并失败的依赖任务（如总结的后续一图总结、思维导图）同时恢复排队，
+   * 待其重新完成后再派发。
+   *
    * @param taskId 任务ID
    */
   public async retryTask(taskId: string): Promise<void> {
@@ -1939,7 +2462,23 @@ export class TaskQueueManager {
       return;
     }
 
-    // 重置任务状态
+    this.resetTaskForRetry(task);
+    const revived = this.reviveFailedDependents(taskId);
+
+    await this.saveToStorage();
+    logTaskQueue(
+      revived.length > 0
+        ? `重试任务: ${taskId}，同时恢复依赖任务: ${revived.join(", ")}`
+        : `重试任务: ${taskId}`,
+    );
+
+    // 确保执行器正在运行
+    if (!this.isRunning) {
+      this.start();
+    }
+  }
+
+  private resetTaskForRetry(task: TaskItem): void {
     task.status = TaskStatus.PRIORITY; // 优先重试
     task.progress = 0;
     task.error = undefined;
@@ -1949,15 +2488,28 @@ export class TaskQueueManager {
     task.completedAt = undefined;
     task.duration = undefined;
     task.createdAt = new Date();
-    this.abortingTasks.delete(taskId);
-
-    await this.saveToStorage();
-    logTaskQueue(`重试任务: ${taskId}`);
+    this.abortingTasks.delete(task.id);
+  }
 
-    // 确保执行器正在运行
-    if (!this.isRunning) {
-      this.start();
+  /**
+   * 恢复直接或间接依赖 taskId 的失败任务，返回被恢复的任务 ID
+   */
+  private reviveFailedDependents(taskId: string): string[] {
+    const revived: string[] = [];
+    const pending = [taskId];
+    while (pending.length > 0) {
+      const dependencyId = pending.shift()!;
+      for (const task of this.tasks.values()) {
+        if (task.status !== TaskStatus.FAILED) continue;
+        if (!task.dependsOn?.includes(dependencyId)) continue;
+        this.resetTaskForRetry(task);
+        // 重新持有共享提取结果，供依赖任务复用
+        this.applyQueueOptions(task, { dependsOn: task.dependsOn });
+        revived.push(task.id);
+        pending.push(task.id);
+      }
     }
+    return revived;
   }
 
   private async markRelatedFixedTasksCompleted(
@@ -2105,8 +2657,9 @@ export class TaskQueueManager {
    * 1. 优先处理
    * 2. 处理中
    * 3. 待处理
-   * 4. 失败
-   * 5. 已完成
+   * 4. 预算暂停
+   * 5. 失败
+   * 6. 已完成
    *
    * 同状态内按创建时间升序
    */
@@ -2115,8 +2668,9 @@ export class TaskQueueManager {
       [TaskStatus.PRIORITY]: 1,
       [TaskStatus.PROCESSING]: 2,
       [TaskStatus.PENDING]: 3,
-      [TaskStatus.FAILED]: 4,
-      [TaskStatus.COMPLETED]: 5,
+      [TaskStatus.PAUSED]: 4,
+      [TaskStatus.FAILED]: 5,
+      [TaskStatus.COMPLETED]: 6,
     };
 
     return this.getAllTasks().sort((a, b) => {
@@ -2148,6 +2702,7 @@ export class TaskQueueManager {
       (t) => t.status === TaskStatus.COMPLETED,
     ).length;
     const failed = tasks.filter((t) => t.status === TaskStatus.FAILED).length;
+    const paused = tasks.filter((t) => t.status === TaskStatus.PAUSED).length;
 
     const successRate =
       total > 0
@@ -2161,6 +2716,7 @@ export class TaskQueueManager {
       processing,
       completed,
       failed,
+      paused,
       successRate,
     };
   }
@@ -2285,37 +2841,44 @@ export class TaskQueueManager {
     this.isBatchRunning = true;
 
     try {
+      // 预算护栏：超限时暂停排队任务，额度恢复（如跨日/跨月）后自动放回队列
+      await UsageLedger.load();
+      const budgetViolation = this.getBudgetViolation();
+      if (budgetViolation) {
+        await this.pauseQueuedTasksForBudget(budgetViolation);
+        return;
+      }
+      this.resumeBudgetPausedTasks();
+
       // 获取待处理任务
       const pendingTasks = this.getAllTasks()
         .filter(
           (task) =>
-            (task.status === TaskStatus.PRIORITY ||
-              task.status === TaskStatus.PENDING) &&
-            !this.isTaskDeletedByUser(task),
+            isQueuedTaskStatus(task.status) && !this.isTaskDeletedByUser(task),
         )
-        .sort((a, b) => {
-          if (
-            a.status === TaskStatus.PRIORITY &&
-            b.status !== TaskStatus.PRIORITY
-          ) {
-            return -1;
-          }
-          if (
-            a.status !== TaskStatus.PRIORITY &&
-            b.status === TaskStatus.PRIORITY
-          ) {
-            return 1;
-          }
-          return a.createdAt.getTime() - b.createdAt.getTime();
-        });
+        .sort(compareQueuedTasks);
 
       if (pendingTasks.length === 0) {
         logTaskQueue("没有待处理的任务");
         return;
       }
 
+      // 依赖链：前置任务未完成的继续等待，前置任务失败的直接标记失败
+      const readyTasks = await this.filterTasksByDependencies(pendingTasks);
+      if (readyTasks.length === 0) {
+        logTaskQueue("排队任务均在等待前置任务完成");
+        return;
+      }
+
+      // 时间窗调度：不在允许时段内的任务继续排队，用户选择立即运行的除外
+      const runnableTasks = this.filterTasksBySchedule(readyTasks);
+      if (runnableTasks.length === 0) {
+        logTaskQueue("当前不在任务运行时间窗内，等待下一个时段");
+        return;
+      }
+
       // 选取本批次要执行的任务（最多 batchSize 个）
-      const tasksToExecute = pendingTasks.slice(0, this.batchSize);
+      const tasksToExecute = runnableTasks.slice(0, this.batchSize);
 
       logTaskQueue(
         `开始并行执行批次任务: ${tasksToExecute.length} 个 (批次大小=${this.batchSize})`,
@@ -2340,11 +2903,13 @@ export class TaskQueueManager {
       );
     } finally {
       this.isBatchRunning = false;
+      this.releaseSharedExtractionHolds();
 
       const hasPending = this.getAllTasks().some(
         (task) =>
           task.status === TaskStatus.PRIORITY ||
-          task.status === TaskStatus.PENDING,
+          task.status === TaskStatus.PENDING ||
+          task.status === TaskStatus.PAUSED,
       );
 
       if (!hasPending && this.processingTasks.size === 0 && this.isRunning) {
@@ -2387,6 +2952,10 @@ export class TaskQueueManager {
         await this.executeMindmapTask(taskId);
         return false;
       }
+      if (task.taskType === "figureExplain") {
+        await this.executeFigureExplainTask(taskId);
+        return false;
+      }
       if (task.taskType === "tableFill") {
         await this.executeTableFillTask(taskId);
         return false;
@@ -2589,12 +3158,12 @@ export class TaskQueueManager {
       this.notifyComplete(taskId, true);
       // 发送结束事件
       this.notifyStream(taskId, { type: "finish" });
-      // 自动触发一图总结（如果设置已启用且是普通总结任务）
-      if (!task.taskType || task.taskType === "summary") {
-        this.maybeAutoTriggerImageSummary(task.itemId);
-      }
       return false; // 非快速失败，计入批次
     } catch (error: any) {
+      if (this.pauseTaskForBudget(task, error)) {
+        this.notifyStream(taskId, { type: "error" });
+        return false;
+      }
       // 任务失败
       const isTaskAborted =
         this.abortingTasks.has(taskId) ||
@@ -2664,6 +3233,193 @@ export class TaskQueueManager {
     }
   }
 
+  private async filterTasksByDependencies(
+    tasks: TaskItem[],
+  ): Promise<TaskItem[]> {
+    let failedCount = 0;
+    const readyTasks = tasks.filter((task) => {
+      if (!task.dependsOn?.length) return true;
+      const { state, taskIds } = getTaskDependencyState(task, (taskId) =>
+        this.tasks.get(taskId),
+      );
+      if (state === "ready") return true;
+      const titles = taskIds
+        .map((taskId) => this.tasks.get(taskId)?.title || taskId)
+        .join(", ");
+      if (state === "failed") {
+        this.failTaskForDependency(task, titles);
+        failedCount += 1;
+      } else {
+        this.markTaskWaitingForDependencies(task, titles);
+      }
+      return false;
+    });
+    if (failedCount > 0) {
+      await this.saveToStorage();
+    }
+    return readyTasks;
+  }
+
+  private markTaskWaitingForDependencies(task: TaskItem, titles: string): void {
+    const detail = getString("task-stage-dependency-waiting-detail", {
+      args: { titles },
+    });
+    if (task.stage === "dependency-waiting" && task.stageDetail === detail) {
+      return;
+    }
+    const label = getString("task-stage-dependency-waiting");
+    this.updateTaskProgress(task, task.progress, label, {
+      stage: "dependency-waiting",
+      label,
+      detail,
+    });
+  }
+
+  /**
+   * 前置任务失败时依赖任务直接失败，不消耗重试次数
+   */
+  private failTaskForDependency(task: TaskItem, titles: string): void {
+    const message = getString("task-error-dependency-failed", {
+      args: { titles },
+    });
+    task.status = TaskStatus.FAILED;
+    task.error = message;
+    task.errorDetails = message;
+    task.completedAt = new Date();
+    task.duration = 0;
+    this.updateTaskProgress(task, 0, message, {
+      stage: "failed",
+      label: getString("task-queue-status-failed"),
+      detail: message,
+    });
+    this.notifyComplete(task.id, false, message);
+    logTaskQueue(`前置任务失败，跳过依赖任务: ${task.title} (${task.id})`);
+  }
+
+  private filterTasksBySchedule(tasks: TaskItem[]): TaskItem[] {
+    let config: QueueScheduleConfig;
+    try {
+      config = QueueSchedule.getConfig();
+    } catch (error) {
+      logTaskQueue(`读取队列时间窗失败，按不限制处理: ${error}`);
+      return tasks;
+    }
+    if (!config.enabled) {
+      return tasks;
+    }
+
+    const now = new Date();
+    const blocks = new Map<TaskType, ScheduleBlock | null>();
+    return tasks.filter((task) => {
+      if (task.scheduleOverride) return true;
+      const taskType = getEffectiveTaskType(task);
+      if (!blocks.has(taskType)) {
+        blocks.set(taskType, QueueSchedule.getBlock(taskType, now, config));
+      }
+      const block = blocks.get(taskType);
+      if (!block) return true;
+      this.markTaskScheduled(task, block);
+      return false;
+    });
+  }
+
+  private markTaskScheduled(task: TaskItem, block: ScheduleBlock): void {
+    const detail = QueueSchedule.describe(block);
+    if (task.stage === "scheduled" && task.stageDetail === detail) {
+      return;
+    }
+    const label = getString("task-stage-scheduled");
+    this.updateTaskProgress(task, task.progress, label, {
+      stage: "scheduled",
+      label,
+      detail,
+    });
+  }
+
+  private getBudgetViolation(): BudgetViolation | null {
+    try {
+      return UsageBudget.getBlockingViolation();
+    } catch (error) {
+      logTaskQueue(`预算检查失败，按未超限处理: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * 把排队中的任务转为「预算暂停」，不消耗重试次数
+   */
+  private async pauseQueuedTasksForBudget(
+    violation: BudgetViolation,
+  ): Promise<void> {
+    let pausedCount = 0;
+    for (const task of this.getAllTasks()) {
+      if (
+        (task.status !== TaskStatus.PENDING &&
+          task.status !== TaskStatus.PRIORITY) ||
+        this.isTaskDeletedByUser(task)
+      ) {
+        continue;
+      }
+      this.markTaskBudgetPaused(task, violation, task.status);
+      pausedCount += 1;
+    }
+    if (pausedCount > 0) {
+      logTaskQueue(
+        `预算超限，暂停 ${pausedCount} 个排队任务: ${UsageBudget.describe(violation)}`,
+      );
+      await this.saveToStorage();
+    }
+  }
+
+  private resumeBudgetPausedTasks(): void {
+    let resumedCount = 0;
+    for (const task of this.getAllTasks()) {
+      if (task.status !== TaskStatus.PAUSED) continue;
+      task.status = task.pausedFromStatus || TaskStatus.PENDING;
+      task.pausedFromStatus = undefined;
+      task.stage = undefined;
+      task.stageLabel = undefined;
+      task.stageDetail = undefined;
+      task.workflowStage = undefined;
+      task.stageUpdatedAt = new Date();
+      resumedCount += 1;
+    }
+    if (resumedCount > 0) {
+      logTaskQueue(`预算额度已恢复，重新排队 ${resumedCount} 个任务`);
+    }
+  }
+
+  /**
+   * 执行中遇到预算超限时转为「预算暂停」，返回 true 表示已处理
+   */
+  private pauseTaskForBudget(task: TaskItem, error: unknown): boolean {
+    if (!isUsageBudgetExceededError(error)) {
+      return false;
+    }
+    this.markTaskBudgetPaused(task, error.violation, TaskStatus.PENDING);
+    logTaskQueue(`任务因预算超限暂停: ${task.title} - ${error.message}`);
+    return true;
+  }
+
+  private markTaskBudgetPaused(
+    task: TaskItem,
+    violation: BudgetViolation,
+    resumeStatus: TaskStatus.PENDING | TaskStatus.PRIORITY,
+  ): void {
+    const label = getString("task-stage-budget-paused");
+    task.status = TaskStatus.PAUSED;
+    task.pausedFromStatus = resumeStatus;
+    task.error = undefined;
+    task.errorDetails = undefined;
+    task.startedAt = undefined;
+    task.completedAt = undefined;
+    this.updateTaskProgress(task, 0, label, {
+      stage: "budget-paused",
+      label,
+      detail: UsageBudget.describe(violation),
+    });
+  }
+
   private getTaskErrorMessage(error: unknown): string {
     const withDetails = error as
       | {
@@ -2944,29 +3700,27 @@ export class TaskQueueManager {
   }
 
   /**
-   * 检查是否应该自动触发一图总结
-   * 只有当设置启用且任务是普通总结任务时才触发
+   * 按设置为 AI 总结登记后续任务（一图总结、思维导图）
+   *
+   * 后续任务声明依赖该总结任务：总结完成后才派发，并复用其 PDF 提取结果；
+   * 总结失败时后续任务随之失败，重试总结时一并恢复排队。
    */
-  private async maybeAutoTriggerImageSummary(itemId: number): Promise<void> {
+  private async enqueueSummaryFollowUps(
+    item: Zotero.Item,
+    summaryTaskId: string,
+  ): Promise<void> {
+    const queueOptions: TaskQueueOptions = { dependsOn: [summaryTaskId] };
     try {
-      const { getPref } = await import("../utils/prefs");
-      const autoTrigger =
-        (getPref("autoImageSummaryOnComplete" as any) as boolean) || false;
-
-      if (!autoTrigger) {
-        return;
+      if (getPref("autoImageSummaryOnComplete" as any) as boolean) {
+        logTaskQueue(`[AI-Butler] 登记后续一图总结: ${item.getField("title")}`);
+        await this.addImageSummaryTask(item, true, queueOptions);
       }
-
-      // 获取 Zotero Item
-      const item = await Zotero.Items.getAsync(itemId);
-      if (!item) {
-        return;
+      if (getPref("autoMindmapOnComplete") as boolean) {
+        logTaskQueue(`[AI-Butler] 登记后续思维导图: ${item.getField("title")}`);
+        await this.addMindmapTask(item, true, queueOptions);
       }
-
-      logTaskQueue(`[AI-Butler] 自动触发一图总结: ${item.getField("title")}`);
-      await this.addImageSummaryTask(item);
     } catch (error) {
-      logTaskQueue(`[AI-Butler] 自动触发一图总结失败:`, error);
+      logTaskQueue(`[AI-Butler] 登记后续任务失败:`, error);
     }
   }
 
@@ -3013,13 +3767,10 @@ export class TaskQueueManager {
 
   private mergeStoredDeletedFixedTasks(): void {
     try {
-      const stored = Zotero.Prefs.get(
-        "extensions.zotero.aibutler.taskQueue",
-        true,
-      ) as string;
+      const stored = getPref("taskQueueDeletedTasks") as string;
       if (!stored) return;
       const data = JSON.parse(stored);
-      for (const raw of data?.deletedFixedTasks || []) {
+      for (const raw of Array.isArray(data) ? data : []) {
         const itemId = Number(raw?.itemId);
         const taskType = String(raw?.taskType || "") as TaskType;
         if (!Number.isFinite(itemId)) continue;
@@ -3038,43 +3789,67 @@ export class TaskQueueManager {
         });
       }
     } catch {
-      // Ignore malformed snapshots; normal task loading will report them.
+      // Ignore malformed markers; they are rewritten on the next save.
+    }
+  }
+
+  private saveDeletedFixedTasks(): void {
+    setPref(
+      "taskQueueDeletedTasks",
+      JSON.stringify(Array.from(this.deletedFixedTasks.values())),
+    );
+  }
+
+  /**
+   * 按 `taskHistoryLimit` 清理过旧的已完成/失败任务
+   */
+  private pruneTaskHistory(): void {
+    const limit = Number(getPref("taskHistoryLimit"));
+    const tasks = this.getAllTasks();
+    const referenced = new Set(
+      tasks
+        .filter((task) => isQueuedTaskStatus(task.status))
+        .flatMap((task) => task.dependsOn || []),
+    );
+    const expired = selectExpiredTaskIds(tasks, limit, referenced);
+    for (const taskId of expired) {
+      this.tasks.delete(taskId);
+    }
+    if (expired.length > 0) {
+      logTaskQueue(`清理超出保留上限的历史任务: ${expired.length} 个`);
     }
   }
 
   /**
    * 从持久化存储加载任务队列
    *
-   * @param resetProcessingTasks 是否将处理中任务重置为待处理
+   * 首次加载时迁移旧版首选项中的任务与删除标记。
+   *
+   * @param resetProcessingTasks 是否将处理中任务重置为待处理（插件启动时）
    */
-  private loadFromStorage(resetProcessingTasks: boolean): void {
+  private async loadFromStorage(resetProcessingTasks: boolean): Promise<void> {
     try {
-      const stored = Zotero.Prefs.get(
-        "extensions.zotero.aibutler.taskQueue",
-        true,
-      ) as string;
-      if (!stored) {
-        return;
-      }
-
-      const data = JSON.parse(stored);
-      const snapshotAt =
-        typeof data?.savedAt === "string" ? data.savedAt : undefined;
-
-      // 快照未变化时无需重复覆盖内存状态
-      if (
-        snapshotAt &&
-        this.lastLoadedSnapshotAt &&
-        snapshotAt === this.lastLoadedSnapshotAt
-      ) {
-        return;
+      const legacy = resetProcessingTasks
+        ? TaskQueueStore.readLegacySnapshot()
+        : null;
+      const { tasks, revision } = await this.store.load(legacy);
+
+      if (legacy) {
+        this.loadDeletedFixedTasksFromData(legacy);
+        this.saveDeletedFixedTasks();
+        TaskQueueStore.clearLegacySnapshot();
+      } else {
+        this.mergeStoredDeletedFixedTasks();
       }
 
-      this.loadDeletedFixedTasksFromData(data);
+      // 启动加载完成前已加入的任务以内存为准
+      const addedBeforeLoad = resetProcessingTasks
+        ? new Map(this.tasks)
+        : new Map<string, TaskItem>();
 
       // 恢复任务数据
       this.tasks.clear();
-      for (const taskData of data.tasks || []) {
+      for (const taskData of tasks as any[]) {
         const task: TaskItem = {
           ...taskData,
           createdAt: new Date(taskData.createdAt),
@@ -3097,53 +3872,80 @@ export class TaskQueueManager {
 
         this.tasks.set(task.id, task);
       }
+      addedBeforeLoad.forEach((task, taskId) => this.tasks.set(taskId, task));
 
-      this.lastLoadedSnapshotAt = snapshotAt || null;
+      this.lastLoadedSnapshotAt = revision || null;
 
       logTaskQueue(`从存储加载 ${this.tasks.size} 个任务`);
     } catch (error) {
       logTaskQueue(`加载任务队列失败: ${error}`);
+    } finally {
+      this.storageLoaded = true;
     }
   }
 
+  /**
+   * 启动时的首次加载是否已结束；未结束前显示的队列可能不完整
+   */
+  public isStorageLoaded(): boolean {
+    return this.storageLoaded;
+  }
+
+  /**
+   * 等待进行中的存储加载结束
+   */
+  public whenStorageLoaded(): Promise<void> {
+    return this.storageReady;
+  }
+
   /**
    * 主动从持久化存储刷新任务数据
    *
-   * 用于跨窗口上下文读取最新快照；若本上下文正在执行任务，则以内存状态为准。
+   * 用于跨窗口上下文读取最新数据：存储修订号变化时在后台重新加载；
+   * 若本上下文正在执行任务，则以内存状态为准。
    */
   public refreshFromStorage(): void {
     if (this.processingTasks.size > 0) {
       return;
     }
-    this.loadFromStorage(false);
+    const revision = TaskQueueStore.getRevision();
+    if (!revision || revision === this.lastLoadedSnapshotAt) {
+      return;
+    }
+    this.storageReady = this.storageReady.then(() =>
+      this.loadFromStorage(false),
+    );
   }
 
   /**
-   * 保存任务队列到 localStorage
+   * 保存任务队列：任务增量写入存储，删除标记写入首选项
    */
   private async saveToStorage(): Promise<void> {
     try {
-      const savedAt = new Date().toISOString();
+      await this.storageReady;
       this.mergeStoredDeletedFixedTasks();
       this.dropDeletedFixedTasksFromMemory();
-      const data = {
-        tasks: Array.from(this.tasks.values()),
-        deletedFixedTasks: Array.from(this.deletedFixedTasks.values()),
-        savedAt,
-      };
-
-      Zotero.Prefs.set(
-        "extensions.zotero.aibutler.taskQueue",
-        JSON.stringify(data),
-        true,
-      );
-      this.lastLoadedSnapshotAt = savedAt;
+      this.pruneTaskHistory();
+      this.saveDeletedFixedTasks();
       this.clearedDeletedFixedTaskKeys.clear();
+      this.lastLoadedSnapshotAt = await this.store.save(
+        Array.from(this.tasks.values()),
+      );
     } catch (error) {
       logTaskQueue(`保存任务队列失败: ${error}`);
     }
   }
 
+  /**
+   * 清空任务与删除标记（数据管理中的「一键重置」）
+   */
+  public async resetStorage(): Promise<void> {
+    this.deletedFixedTasks.clear();
+    this.saveDeletedFixedTasks();
+    TaskQueueStore.clearLegacySnapshot();
+    await this.clearAll();
+  }
+
   /**
    * 从配置加载设置
    */
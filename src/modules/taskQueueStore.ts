@@ -0,0 +1,214 @@
+/**
+ * 任务队列持久化存储
+ *
+ * 任务保存在 Zotero 数据目录下独立的 SQLite 数据库（aibutler.sqlite）中，每个任务一行。
+ * 保存时只写入内容有变化的任务、删除已移除的任务，不再像旧版那样在每次变更时
+ * 把整个队列（含 errorDetails）序列化进 `extensions.zotero.aibutler.taskQueue` 首选项。
+ *
+ * - 首次打开时自动迁移旧首选项中的任务，迁移后清除旧首选项
+ * - 每次写入后更新 `taskQueueStoreRevision` 首选项，其他窗口上下文据此判断是否需要重新加载
+ * - 数据库连接与写入队列全局共享；增量比较所用的已写入状态由各实例（各任务队列）自行维护
+ */
+import { getPref, setPref } from "../utils/prefs";
+
+const DB_NAME = "aibutler";
+const LEGACY_TASK_QUEUE_PREF = "extensions.zotero.aibutler.taskQueue";
+
+export interface StoredTaskRecord {
+  id: string;
+  status: string;
+}
+
+export interface LegacyTaskQueueSnapshot {
+  tasks: unknown[];
+  deletedFixedTasks: unknown[];
+}
+
+type TaskQueueDB = _ZoteroTypes.DB;
+
+function createRevision(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export class TaskQueueStore {
+  private static db: TaskQueueDB | null = null;
+  private static opening: Promise<TaskQueueDB> | null = null;
+
+  /** 串行化写入，避免并发事务交错 */
+  private static pendingWrite: Promise<unknown> = Promise.resolve();
+
+  /** 本实例已加载或写入的任务 JSON，按任务 ID 比较决定增量写入 */
+  private readonly persisted = new Map<string, string>();
+
+  static getRevision(): string {
+    return String(getPref("taskQueueStoreRevision") || "");
+  }
+
+  /**
+   * 读取旧版首选项快照；不存在或格式错误时返回 null
+   */
+  static readLegacySnapshot(): LegacyTaskQueueSnapshot | null {
+    const stored = Zotero.Prefs.get(LEGACY_TASK_QUEUE_PREF, true);
+    if (typeof stored !== "string" || !stored) return null;
+    try {
+      const data = JSON.parse(stored);
+      return {
+        tasks: Array.isArray(data?.tasks) ? data.tasks : [],
+        deletedFixedTasks: Array.isArray(data?.deletedFixedTasks)
+          ? data.deletedFixedTasks
+          : [],
+      };
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 旧版任务队列数据无法解析，已忽略:", error);
+      return null;
+    }
+  }
+
+  static clearLegacySnapshot(): void {
+    Zotero.Prefs.clear(LEGACY_TASK_QUEUE_PREF, true);
+  }
+
+  /**
+   * 读取全部任务（JSON 解析后的原始对象）
+   *
+   * 传入旧版快照时先把其中的任务迁移进数据库（已存在的任务 ID 不覆盖）。
+   */
+  async load(legacy?: LegacyTaskQueueSnapshot | null): Promise<{
+    tasks: unknown[];
+    revision: string;
+  }> {
+    await TaskQueueStore.pendingWrite;
+    const db = await TaskQueueStore.open();
+    if (legacy?.tasks.length) {
+      await TaskQueueStore.migrate(db, legacy.tasks);
+    }
+
+    const rows = (await db.queryAsync("SELECT id, data FROM tasks")) || [];
+    const tasks: unknown[] = [];
+    this.persisted.clear();
+    for (const row of rows) {
+      const id = String(row.id);
+      const data = String(row.data);
+      try {
+        tasks.push(JSON.parse(data));
+        this.persisted.set(id, data);
+      } catch (error) {
+        ztoolkit.log(`[AI-Butler] 跳过无法解析的任务记录: ${id}`, error);
+      }
+    }
+    return { tasks, revision: TaskQueueStore.getRevision() };
+  }
+
+  /**
+   * 增量保存：只写入内容变化的任务，删除不在列表中的任务
+   *
+   * 任务在调用时即被序列化，之后的内存修改不会影响本次写入。
+   *
+   * @returns 写入后的修订号；没有变化时返回当前修订号
+   */
+  save(tasks: StoredTaskRecord[]): Promise<string> {
+    const snapshot = new Map(
+      tasks.map((task) => [
+        task.id,
+        { status: task.status, data: JSON.stringify(task) },
+      ]),
+    );
+    const write = TaskQueueStore.pendingWrite.then(() =>
+      this.writeChanges(snapshot),
+    );
+    TaskQueueStore.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  static async close(): Promise<void> {
+    await this.pendingWrite;
+    const db = this.db;
+    this.db = null;
+    this.opening = null;
+    if (db) {
+      await db.closeDatabase(false);
+    }
+  }
+
+  private static async open(): Promise<TaskQueueDB> {
+    if (this.db) return this.db;
+    if (!this.opening) {
+      const opening = (async () => {
+        const db = new Zotero.DBConnection(DB_NAME) as unknown as TaskQueueDB;
+        await db.queryAsync(
+          "CREATE TABLE IF NOT EXISTS tasks (id TEXT PRIMARY KEY, status TEXT NOT NULL, updatedAt INTEGER NOT NULL, data TEXT NOT NULL)",
+        );
+        this.db = db;
+        return db;
+      })();
+      this.opening = opening;
+      opening.catch(() => {
+        if (this.opening === opening) this.opening = null;
+      });
+    }
+    return this.opening;
+  }
+
+  private static async migrate(
+    db: TaskQueueDB,
+    tasks: unknown[],
+  ): Promise<void> {
+    const now = Date.now();
+    let migrated = 0;
+    await db.executeTransaction(async () => {
+      for (const task of tasks as Array<Partial<StoredTaskRecord>>) {
+        if (!task?.id) continue;
+        await db.queryAsync(
+          "INSERT OR IGNORE INTO tasks (id, status, updatedAt, data) VALUES (?, ?, ?, ?)",
+          [
+            String(task.id),
+            String(task.status || ""),
+            now,
+            JSON.stringify(task),
+          ],
+        );
+        migrated += 1;
+      }
+    });
+    setPref("taskQueueStoreRevision", createRevision());
+    ztoolkit.log(`[AI-Butler] 已从旧版首选项迁移 ${migrated} 个任务`);
+  }
+
+  private async writeChanges(
+    snapshot: Map<string, { status: string; data: string }>,
+  ): Promise<string> {
+    const upserts = Array.from(snapshot).filter(
+      ([id, entry]) => this.persisted.get(id) !== entry.data,
+    );
+    const removed = Array.from(this.persisted.keys()).filter(
+      (id) => !snapshot.has(id),
+    );
+    if (upserts.length === 0 && removed.length === 0) {
+      return TaskQueueStore.getRevision();
+    }
+
+    const db = await TaskQueueStore.open();
+    const now = Date.now();
+    await db.executeTransaction(async () => {
+      for (const [id, entry] of upserts) {
+        await db.queryAsync(
+          "INSERT OR REPLACE INTO tasks (id, status, updatedAt, data) VALUES (?, ?, ?, ?)",
+          [id, entry.status, now, entry.data],
+        );
+      }
+      for (const id of removed) {
+        await db.queryAsync("DELETE FROM tasks WHERE id = ?", [id]);
+      }
+    });
+
+    for (const [id, entry] of upserts) {
+      this.persisted.set(id, entry.data);
+    }
+    for (const id of removed) {
+      this.persisted.delete(id);
+    }
+    const revision = createRevision();
+    setPref("taskQueueStoreRevision", revision);
+    return revision;
+  }
+}
@@ -37,6 +37,12 @@ export const CONTEXT_MENU_ITEMS = [
     descriptionKey: "settings-ui-context-menu-mindmap-description",
     scope: "item",
   },
+  {
+    id: "figureExplain",
+    labelKey: "settings-ui-context-menu-figureExplain-label",
+    descriptionKey: "settings-ui-context-menu-figureExplain-description",
+    scope: "item",
+  },
   {
     id: "chatWithAI",
     labelKey: "settings-ui-context-menu-chatWithAI-label",
@@ -119,6 +125,7 @@ export const DEFAULT_CONTEXT_MENU_ITEM_VISIBILITY: ContextMenuVisibility = {
   dashboard: true,
   imageSummary: true,
   mindmap: true,
+  figureExplain: true,
   chatWithAI: true,
   literatureReview: true,
   clearCollectionAiNotes: true,
@@ -151,6 +158,7 @@ export const DEFAULT_CONTEXT_MENU_ITEM_ORDER: ContextMenuItemId[] = [
   "dashboard",
   "imageSummary",
   "mindmap",
+  "figureExplain",
   "chatWithAI",
   "literatureReview",
   "clearCollectionAiNotes",
@@ -0,0 +1,294 @@
+/**
+ * 用量预算护栏
+ *
+ * 基于 UsageLedger 的日/月累计用量，检查全局与单个端点的 token / 费用上限。
+ * - LLMService 路由时跳过已超预算的端点，全部超限时抛出 UsageBudgetExceededError
+ * - TaskQueueManager 派发批次前检查，超限时把待处理任务转为「预算暂停」
+ * - AutoScanManager 超限时不再自动入队新条目
+ *
+ * 预算配置保存在 `usageBudgets` 首选项（JSON），端点可用 ID 或名称作为键。
+ */
+import { getString } from "../utils/locale";
+import { getPref, setPref } from "../utils/prefs";
+import { LLMEndpointManager, type LLMEndpoint } from "./llmEndpointManager";
+import {
+  UsageLedger,
+  type ModelPriceTable,
+  type UsageLedgerEntry,
+  type UsageTotals,
+} from "./usageLedger";
+
+export type BudgetPeriod = "daily" | "monthly";
+export type BudgetMetric = "tokens" | "cost";
+
+export interface BudgetLimits {
+  dailyTokens?: number;
+  monthlyTokens?: number;
+  dailyCost?: number;
+  monthlyCost?: number;
+}
+
+export interface BudgetConfig {
+  global: BudgetLimits;
+  /** 键为端点 ID 或端点名称 */
+  endpoints: Record<string, BudgetLimits>;
+}
+
+export interface BudgetViolation {
+  scope: "global" | "endpoint";
+  endpointId?: string;
+  endpointName?: string;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+}
+
+const LIMIT_KEYS: Array<{
+  key: keyof BudgetLimits;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+}> = [
+  { key: "dailyTokens", period: "daily", metric: "tokens" },
+  { key: "dailyCost", period: "daily", metric: "cost" },
+  { key: "monthlyTokens", period: "monthly", metric: "tokens" },
+  { key: "monthlyCost", period: "monthly", metric: "cost" },
+];
+
+function normalizeLimits(raw: any): BudgetLimits {
+  const limits: BudgetLimits = {};
+  if (!raw || typeof raw !== "object") return limits;
+  for (const { key } of LIMIT_KEYS) {
+    const value = Number(raw[key]);
+    if (raw[key] !== undefined && raw[key] !== null && raw[key] !== "") {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(
+          getString("usage-budget-error-invalid-limit", {
+            args: { key },
+          }),
+        );
+      }
+      limits[key] = value;
+    }
+  }
+  return limits;
+}
+
+function hasLimits(limits: BudgetLimits | undefined): boolean {
+  return !!limits && LIMIT_KEYS.some(({ key }) => limits[key] !== undefined);
+}
+
+type PeriodTotals = Record<BudgetPeriod, UsageTotals>;
+
+/**
+ * 预算超限错误。携带 `suppressTaskRetry` 以免任务队列把它当作可重试失败。
+ */
+export class UsageBudgetExceededError extends Error {
+  readonly violation: BudgetViolation;
+  readonly suppressTaskRetry = true;
+  readonly budgetExceeded = true;
+
+  constructor(violation: BudgetViolation) {
+    super(UsageBudget.describe(violation));
+    this.name = "UsageBudgetExceededError";
+    this.violation = violation;
+  }
+}
+
+export function isUsageBudgetExceededError(
+  error: unknown,
+): error is UsageBudgetExceededError {
+  return (
+    (error as { budgetExceeded?: boolean } | undefined)?.budgetExceeded ===
+      true && !!(error as { violation?: unknown }).violation
+  );
+}
+
+export class UsageBudget {
+  static getConfig(): BudgetConfig {
+    const raw = getPref("usageBudgets");
+    if (typeof raw !== "string" || !raw.trim()) {
+      return { global: {}, endpoints: {} };
+    }
+    try {
+      return this.parseConfig(raw);
+    } catch {
+      return { global: {}, endpoints: {} };
+    }
+  }
+
+  /**
+   * 解析预算 JSON，格式：
+   * `{"global": {"dailyCost": 5}, "endpoints": {"DeepSeek": {"monthlyTokens": 2000000}}}`。
+   * 格式错误时抛出异常。
+   */
+  static parseConfig(text: string): BudgetConfig {
+    const parsed = JSON.parse(text || "{}");
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error(getString("usage-budget-error-not-object"));
+    }
+    const endpoints: Record<string, BudgetLimits> = {};
+    const rawEndpoints =
+      parsed.endpoints && typeof parsed.endpoints === "object"
+        ? parsed.endpoints
+        : {};
+    for (const [key, value] of Object.entries(rawEndpoints)) {
+      const name = key.trim();
+      if (!name) continue;
+      const limits = normalizeLimits(value);
+      if (hasLimits(limits)) endpoints[name] = limits;
+    }
+    return { global: normalizeLimits(parsed.global), endpoints };
+  }
+
+  static setConfig(config: BudgetConfig): void {
+    setPref("usageBudgets", JSON.stringify(config, null, 2));
+  }
+
+  static isConfigured(config: BudgetConfig = this.getConfig()): boolean {
+    return (
+      hasLimits(config.global) ||
+      Object.values(config.endpoints).some((limits) => hasLimits(limits))
+    );
+  }
+
+  static getEndpointLimits(
+    endpoint: Pick<LLMEndpoint, "id" | "name">,
+    config: BudgetConfig = this.getConfig(),
+  ): BudgetLimits | undefined {
+    return config.endpoints[endpoint.id] || config.endpoints[endpoint.name];
+  }
+
+  static checkGlobal(now: Date = new Date()): BudgetViolation | null {
+    const config = this.getConfig();
+    if (!hasLimits(config.global)) return null;
+    const table = UsageLedger.getPriceTable();
+    const totals = this.getPeriodTotals(
+      UsageLedger.getEntries(UsageLedger.getMonthRange(now)),
+      now,
+      table,
+    );
+    return this.findViolation(config.global, totals, { scope: "global" });
+  }
+
+  static checkEndpoint(
+    endpoint: Pick<LLMEndpoint, "id" | "name">,
+    now: Date = new Date(),
+  ): BudgetViolation | null {
+    const limits = this.getEndpointLimits(endpoint);
+    if (!hasLimits(limits)) return null;
+    const table = UsageLedger.getPriceTable();
+    const totals = this.getPeriodTotals(
+      UsageLedger.getEntries(UsageLedger.getMonthRange(now)).filter(
+        (entry) => entry.endpointId === endpoint.id,
+      ),
+      now,
+      table,
+    );
+    return this.findViolation(limits!, totals, {
+      scope: "endpoint",
+      endpointId: endpoint.id,
+      endpointName: endpoint.name,
+    });
+  }
+
+  /**
+   * 过滤掉已超预算的端点；全局超限或没有剩余端点时抛出 UsageBudgetExceededError。
+   */
+  static filterEndpoints<T extends Pick<LLMEndpoint, "id" | "name">>(
+    endpoints: T[],
+    now: Date = new Date(),
+  ): T[] {
+    if (!this.isConfigured()) return endpoints;
+    const globalViolation = this.checkGlobal(now);
+    if (globalViolation) throw new UsageBudgetExceededError(globalViolation);
+    let firstViolation: BudgetViolation | null = null;
+    const allowed = endpoints.filter((endpoint) => {
+      const violation = this.checkEndpoint(endpoint, now);
+      if (violation && !firstViolation) firstViolation = violation;
+      return !violation;
+    });
+    if (allowed.length === 0 && firstViolation) {
+      throw new UsageBudgetExceededError(firstViolation);
+    }
+    return allowed;
+  }
+
+  /**
+   * 返回阻止继续派发任务的预算超限：全局超限，或所有已启用端点均超限。
+   */
+  static getBlockingViolation(now: Date = new Date()): BudgetViolation | null {
+    if (!this.isConfigured()) return null;
+    try {
+      this.filterEndpoints(LLMEndpointManager.getEnabledEndpoints(), now);
+      return null;
+    } catch (error) {
+      if (isUsageBudgetExceededError(error)) return error.violation;
+      throw error;
+    }
+  }
+
+  static describe(violation: BudgetViolation): string {
+    const scope =
+      violation.scope === "global"
+        ? getString("usage-budget-scope-global")
+        : getString("usage-budget-scope-endpoint", {
+            args: {
+              name: violation.endpointName || violation.endpointId || "",
+            },
+          });
+    const period =
+      violation.period === "daily"
+        ? getString("usage-budget-period-daily")
+        : getString("usage-budget-period-monthly");
+    const format = (value: number) =>
+      violation.metric === "cost"
+        ? `${value.toFixed(2)} ${UsageLedger.getCurrency()}`
+        : getString("usage-budget-tokens-value", {
+            args: { count: Math.round(value).toLocaleString() },
+          });
+    return getString("usage-budget-exceeded", {
+      args: {
+        scope,
+        period,
+        used: format(violation.used),
+        limit: format(violation.limit),
+      },
+    });
+  }
+
+  private static getPeriodTotals(
+    monthEntries: UsageLedgerEntry[],
+    now: Date,
+    table: ModelPriceTable,
+  ): PeriodTotals {
+    const today = UsageLedger.getDayRange(now).from;
+    return {
+      daily: UsageLedger.summarize(
+        monthEntries.filter((entry) => entry.day === today),
+        table,
+      ),
+      monthly: UsageLedger.summarize(monthEntries, table),
+    };
+  }
+
+  private static findViolation(
+    limits: BudgetLimits,
+    totals: PeriodTotals,
+    scope: Pick<BudgetViolation, "scope" | "endpointId" | "endpointName">,
+  ): BudgetViolation | null {
+    for (const { key, period, metric } of LIMIT_KEYS) {
+      const limit = limits[key];
+      if (limit === undefined) continue;
+      const periodTotals = totals[period];
+      const used =
+        metric === "cost"
+          ? periodTotals.cost
+          : periodTotals.inputTokens + periodTotals.outputTokens;
+      if (used >= limit) {
+        return { ...scope, period, metric, used, limit };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,610 @@
+/**
+ * Token 用量与费用账本
+ *
+ * 由 LLMService 在每次成功调用后记录，按「日期 + 端点 + 模型 + 任务类型 + 条目」
+ * 聚合为日粒度桶。费用不落盘，而是在查询时按用户可编辑的模型价格表
+ * （每百万 token 单价）实时计算，修改价格即可重算历史花费。
+ *
+ * 账本保存在 Zotero 数据目录下独立的 SQLite 数据库（aibutler-usage.sqlite）中，
+ * 每个桶一行；启动时整体读入内存，查询直接读内存，记录时只写入变化的那一行。
+ * 旧版保存在 `usageLedger` 首选项中的账本在首次加载时迁移，迁移后清除旧首选项。
+ */
+import { getString } from "../utils/locale";
+import { config } from "../../package.json";
+import { getPref, setPref } from "../utils/prefs";
+import type { LLMTask } from "./llmService";
+import type { TaskType } from "./taskQueue";
+import type { LLMUsage } from "./llmproviders/types";
+
+export type UsageTaskKind = TaskType | "chat" | "custom";
+
+export interface UsageLedgerEntry {
+  /** 本地日期 YYYY-MM-DD */
+  day: string;
+  endpointId: string;
+  endpointName: string;
+  providerType: string;
+  model: string;
+  task: UsageTaskKind;
+  itemId?: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** 其中按字符数估算（供应商未返回 usage）的请求数 */
+  estimatedRequests: number;
+}
+
+export interface UsageRecordInput {
+  endpointId?: string;
+  endpointName?: string;
+  providerType: string;
+  model?: string;
+  task: UsageTaskKind;
+  itemId?: number;
+  usage: LLMUsage;
+  at?: Date;
+}
+
+export interface ModelPrice {
+  /** 每百万输入 token 单价 */
+  input: number;
+  /** 每百万输出 token 单价 */
+  output: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  /** 价格表中找不到单价的 token 数，不计入 cost */
+  unpricedTokens: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+  label: string;
+}
+
+export interface UsageRange {
+  /** 起始日期（含），YYYY-MM-DD */
+  from?: string;
+  /** 结束日期（含），YYYY-MM-DD */
+  to?: string;
+}
+
+const DB_NAME = "aibutler-usage";
+const LEGACY_LEDGER_PREF = `${config.prefsPrefix}.usageLedger`;
+const DEFAULT_RETENTION_DAYS = 400;
+
+type UsageLedgerDB = _ZoteroTypes.DB;
+
+const LLM_TASK_TO_USAGE_TASK: Record<LLMTask, UsageTaskKind> = {
+  summary: "summary",
+  mindmap: "mindmap",
+  table: "tableFill",
+  "literature-review": "review",
+  chat: "chat",
+  "image-summary": "imageSummary",
+  "figure-explain": "figureExplain",
+  custom: "custom",
+};
+
+const USAGE_TASK_KINDS: UsageTaskKind[] = [
+  "summary",
+  "deepRead",
+  "imageSummary",
+  "mindmap",
+  "figureExplain",
+  "tableFill",
+  "review",
+  "targetedQuestion",
+  "chat",
+  "custom",
+];
+
+function pad2(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+export function formatUsageDay(date: Date): string {
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+}
+
+function toCount(value: unknown): number {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? Math.round(num) : 0;
+}
+
+function entryKey(entry: {
+  day: string;
+  endpointId: string;
+  model: string;
+  task: UsageTaskKind;
+  itemId?: number;
+}): string {
+  return [
+    entry.day,
+    entry.endpointId,
+    entry.model,
+    entry.task,
+    entry.itemId ?? "",
+  ].join("|");
+}
+
+function normalizeEntry(raw: any): UsageLedgerEntry | null {
+  if (!raw || typeof raw !== "object") return null;
+  const day = String(raw.day || "");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return null;
+  const itemId = Number(raw.itemId);
+  return {
+    day,
+    endpointId: String(raw.endpointId || ""),
+    endpointName: String(raw.endpointName || raw.endpointId || ""),
+    providerType: String(raw.providerType || ""),
+    model: String(raw.model || ""),
+    task: USAGE_TASK_KINDS.includes(raw.task) ? raw.task : "custom",
+    itemId: Number.isInteger(itemId) && itemId > 0 ? itemId : undefined,
+    requests: toCount(raw.requests),
+    inputTokens: toCount(raw.inputTokens),
+    outputTokens: toCount(raw.outputTokens),
+    estimatedRequests: toCount(raw.estimatedRequests),
+  };
+}
+
+function normalizePrice(raw: any): ModelPrice | null {
+  if (!raw || typeof raw !== "object") return null;
+  const input = Number(raw.input);
+  const output = Number(raw.output);
+  if (!Number.isFinite(input) || !Number.isFinite(output)) return null;
+  if (input < 0 || output < 0) return null;
+  return { input, output };
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    unpricedTokens: 0,
+  };
+}
+
+export class UsageLedger {
+  /** 内存中的账本，键为 entryKey；load() 完成前为 null */
+  private static entries: Map<string, UsageLedgerEntry> | null = null;
+  private static loading: Promise<void> | null = null;
+  private static db: UsageLedgerDB | null = null;
+  private static opening: Promise<UsageLedgerDB> | null = null;
+
+  /** 串行化数据库写入 */
+  private static pendingWrite: Promise<unknown> = Promise.resolve();
+
+  /**
+   * 把 LLM 请求的任务与元数据映射为账本任务类型。
+   *
+   * `metadata.taskType` 优先（由任务队列等上层显式标注，如 deepRead），
+   * 否则按 LLMTask 推断。
+   */
+  static resolveTask(
+    task: LLMTask | undefined,
+    metadata?: Record<string, unknown>,
+  ): UsageTaskKind {
+    const explicit = metadata?.taskType;
+    if (
+      typeof explicit === "string" &&
+      USAGE_TASK_KINDS.includes(explicit as UsageTaskKind)
+    ) {
+      return explicit as UsageTaskKind;
+    }
+    return task ? LLM_TASK_TO_USAGE_TASK[task] || "custom" : "chat";
+  }
+
+  /**
+   * 启动时调用：读入数据库中的账本，迁移旧首选项并清除超出保留期的桶。
+   * 重复调用返回同一个 Promise；读取失败时以空账本继续。
+   */
+  static load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const entries = new Map<string, UsageLedgerEntry>();
+        try {
+          await this.pendingWrite;
+          const db = await this.open();
+          const rows =
+            (await db.queryAsync("SELECT key, data FROM entries")) || [];
+          for (const row of rows) {
+            try {
+              const entry = normalizeEntry(JSON.parse(String(row.data)));
+              if (entry) entries.set(entryKey(entry), entry);
+            } catch (error) {
+              ztoolkit.log(`[AI-Butler] 跳过无法解析的用量记录: ${row.key}`);
+            }
+          }
+          const legacy = this.readLegacyEntries();
+          if (legacy.length > 0) {
+            for (const entry of legacy) {
+              if (!entries.has(entryKey(entry))) {
+                entries.set(entryKey(entry), entry);
+              }
+            }
+            await this.persist(legacy, []);
+            ztoolkit.log(
+              `[AI-Butler] 已从旧版首选项迁移 ${legacy.length} 条用量记录`,
+            );
+          }
+          Zotero.Prefs.clear(LEGACY_LEDGER_PREF, true);
+        } catch (error) {
+          ztoolkit.log("[AI-Butler] 读取用量账本失败:", error);
+        }
+        this.entries = entries;
+        const expired = this.pruneExpired();
+        if (expired.length > 0) {
+          await this.persist([], expired).catch(() => undefined);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  static isLoaded(): boolean {
+    return this.entries !== null;
+  }
+
+  static async record(
+    input: UsageRecordInput,
+  ): Promise<UsageLedgerEntry | null> {
+    const inputTokens = toCount(input.usage.inputTokens);
+    const outputTokens = toCount(input.usage.outputTokens);
+    if (inputTokens === 0 && outputTokens === 0) return null;
+
+    await this.load();
+    const entries = this.entries!;
+    const day = formatUsageDay(input.at || new Date());
+    const endpointId = input.endpointId || input.providerType;
+    const model = (input.model || "").trim();
+    const itemId =
+      typeof input.itemId === "number" && input.itemId > 0
+        ? input.itemId
+        : undefined;
+    const key = entryKey({ day, endpointId, model, task: input.task, itemId });
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        day,
+        endpointId,
+        endpointName: input.endpointName || endpointId,
+        providerType: input.providerType,
+        model,
+        task: input.task,
+        itemId,
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        estimatedRequests: 0,
+      };
+      entries.set(key, entry);
+    }
+    if (input.endpointName) entry.endpointName = input.endpointName;
+    entry.requests += 1;
+    entry.inputTokens += inputTokens;
+    entry.outputTokens += outputTokens;
+    if (input.usage.estimated) entry.estimatedRequests += 1;
+
+    const expired = this.pruneExpired();
+    const recorded = { ...entry };
+    await this.persist(entries.has(key) ? [recorded] : [], expired);
+    return entries.has(key) ? recorded : null;
+  }
+
+  /**
+   * 读取内存中的账本；load() 完成前返回空列表
+   */
+  static getEntries(range?: UsageRange): UsageLedgerEntry[] {
+    const entries: UsageLedgerEntry[] = [];
+    for (const entry of this.entries?.values() || []) {
+      if (range?.from && entry.day < range.from) continue;
+      if (range?.to && entry.day > range.to) continue;
+      entries.push({ ...entry });
+    }
+    return entries;
+  }
+
+  static async clear(): Promise<void> {
+    await this.load();
+    this.entries = new Map();
+    const write = this.pendingWrite.then(async () => {
+      const db = await this.open();
+      await db.queryAsync("DELETE FROM entries");
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    await write;
+  }
+
+  static async close(): Promise<void> {
+    await this.pendingWrite;
+    const db = this.db;
+    this.db = null;
+    this.opening = null;
+    this.entries = null;
+    this.loading = null;
+    if (db) {
+      await db.closeDatabase(false);
+    }
+  }
+
+  static getRetentionDays(): number {
+    const raw = parseInt(String(getPref("usageLedgerRetentionDays") ?? ""), 10);
+    return Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_RETENTION_DAYS;
+  }
+
+  static getCurrency(): string {
+    return String(getPref("usageCurrency") || "").trim() || "USD";
+  }
+
+  static setCurrency(currency: string): void {
+    setPref("usageCurrency", currency.trim() || "USD");
+  }
+
+  static getPriceTable(): ModelPriceTable {
+    const raw = getPref("usagePriceTable") as string;
+    if (typeof raw !== "string" || !raw.trim()) return {};
+    try {
+      return this.parsePriceTable(raw);
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * 解析用户输入的价格表 JSON，格式：`{"gpt-4o": {"input": 2.5, "output": 10}}`。
+   * 模型名支持以 `*` 结尾的前缀通配。格式错误时抛出异常。
+   */
+  static parsePriceTable(text: string): ModelPriceTable {
+    const parsed = JSON.parse(text || "{}");
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error(getString("usage-price-table-error-not-object"));
+    }
+    const table: ModelPriceTable = {};
+    for (const [model, value] of Object.entries(parsed)) {
+      const name = model.trim();
+      const price = normalizePrice(value);
+      if (!name) continue;
+      if (!price) {
+        throw new Error(
+          getString("usage-price-table-error-invalid-price", {
+            args: { model: name },
+          }),
+        );
+      }
+      table[name] = price;
+    }
+    return table;
+  }
+
+  static setPriceTable(table: ModelPriceTable): void {
+    setPref("usagePriceTable", JSON.stringify(table, null, 2));
+  }
+
+  /**
+   * 查找模型单价：精确匹配（不区分大小写）优先，其次是最长的 `prefix*` 通配。
+   */
+  static findPrice(
+    model: string,
+    table: ModelPriceTable = this.getPriceTable(),
+  ): ModelPrice | null {
+    const target = model.trim().toLowerCase();
+    if (!target) return null;
+    let wildcard: { length: number; price: ModelPrice } | null = null;
+    for (const [name, price] of Object.entries(table)) {
+      const key = name.trim().toLowerCase();
+      if (key === target) return price;
+      if (key.endsWith("*")) {
+        const prefix = key.slice(0, -1);
+        if (
+          target.startsWith(prefix) &&
+          (!wildcard || prefix.length > wildcard.length)
+        ) {
+          wildcard = { length: prefix.length, price };
+        }
+      }
+    }
+    return wildcard?.price || null;
+  }
+
+  static summarize(
+    entries: UsageLedgerEntry[],
+    table: ModelPriceTable = this.getPriceTable(),
+  ): UsageTotals {
+    const totals = emptyTotals();
+    for (const entry of entries) {
+      this.accumulate(totals, entry, table);
+    }
+    return totals;
+  }
+
+  /**
+   * 按任意维度分组汇总，结果按费用、token 数降序排列。
+   */
+  static groupBy(
+    entries: UsageLedgerEntry[],
+    keyOf: (entry: UsageLedgerEntry) => { key: string; label: string } | null,
+    table: ModelPriceTable = this.getPriceTable(),
+  ): UsageGroup[] {
+    const groups = new Map<string, UsageGroup>();
+    for (const entry of entries) {
+      const resolved = keyOf(entry);
+      if (!resolved) continue;
+      let group = groups.get(resolved.key);
+      if (!group) {
+        group = { ...emptyTotals(), key: resolved.key, label: resolved.label };
+        groups.set(resolved.key, group);
+      }
+      this.accumulate(group, entry, table);
+    }
+    return Array.from(groups.values()).sort(
+      (a, b) =>
+        b.cost - a.cost ||
+        b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens),
+    );
+  }
+
+  /**
+   * 按条目所属分类汇总。一个条目属于多个分类时会分别计入每个分类。
+   */
+  static groupByCollection(
+    entries: UsageLedgerEntry[],
+    table: ModelPriceTable = this.getPriceTable(),
+  ): UsageGroup[] {
+    const collectionCache = new Map<number, number[]>();
+    const expanded: Array<UsageLedgerEntry & { collectionId: number }> = [];
+    for (const entry of entries) {
+      if (!entry.itemId) continue;
+      let collectionIds = collectionCache.get(entry.itemId);
+      if (!collectionIds) {
+        collectionIds = this.getItemCollectionIds(entry.itemId);
+        collectionCache.set(entry.itemId, collectionIds);
+      }
+      for (const collectionId of collectionIds) {
+        expanded.push({ ...entry, collectionId });
+      }
+    }
+    return this.groupBy(
+      expanded,
+      (entry) => {
+        const collectionId = (
+          entry as UsageLedgerEntry & {
+            collectionId: number;
+          }
+        ).collectionId;
+        const collection = Zotero.Collections.get(collectionId) as
+          | Zotero.Collection
+          | false;
+        if (!collection) return null;
+        return { key: String(collectionId), label: collection.name };
+      },
+      table,
+    );
+  }
+
+  static getDayRange(date: Date = new Date()): UsageRange {
+    const day = formatUsageDay(date);
+    return { from: day, to: day };
+  }
+
+  static getMonthRange(date: Date = new Date()): UsageRange {
+    const first = new Date(date.getFullYear(), date.getMonth(), 1);
+    const last = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+    return { from: formatUsageDay(first), to: formatUsageDay(last) };
+  }
+
+  private static accumulate(
+    totals: UsageTotals,
+    entry: UsageLedgerEntry,
+    table: ModelPriceTable,
+  ): void {
+    totals.requests += entry.requests;
+    totals.inputTokens += entry.inputTokens;
+    totals.outputTokens += entry.outputTokens;
+    const price = this.findPrice(entry.model, table);
+    if (price) {
+      totals.cost +=
+        (entry.inputTokens * price.input + entry.outputTokens * price.output) /
+        1_000_000;
+    } else {
+      totals.unpricedTokens += entry.inputTokens + entry.outputTokens;
+    }
+  }
+
+  private static getItemCollectionIds(itemId: number): number[] {
+    try {
+      const item = Zotero.Items.get(itemId) as Zotero.Item | false;
+      if (!item) return [];
+      const parent =
+        item.parentItemID && !item.isRegularItem()
+          ? (Zotero.Items.get(item.parentItemID) as Zotero.Item | false)
+          : item;
+      return parent ? parent.getCollections() : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 从内存中移除超出保留期的桶，返回被移除的键
+   */
+  private static pruneExpired(): string[] {
+    if (!this.entries) return [];
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - this.getRetentionDays());
+    const minDay = formatUsageDay(cutoff);
+    const expired: string[] = [];
+    for (const [key, entry] of this.entries) {
+      if (entry.day < minDay) expired.push(key);
+    }
+    for (const key of expired) this.entries.delete(key);
+    return expired;
+  }
+
+  private static readLegacyEntries(): UsageLedgerEntry[] {
+    const raw = Zotero.Prefs.get(LEGACY_LEDGER_PREF, true);
+    if (typeof raw !== "string" || !raw.trim()) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      const list = Array.isArray(parsed?.entries) ? parsed.entries : [];
+      return list
+        .map((item: unknown) => normalizeEntry(item))
+        .filter((entry: UsageLedgerEntry | null): entry is UsageLedgerEntry =>
+          Boolean(entry),
+        );
+    } catch {
+      return [];
+    }
+  }
+
+  /** 串行化写入：写入给定的桶、删除给定的键 */
+  private static persist(
+    upserts: UsageLedgerEntry[],
+    removed: string[],
+  ): Promise<void> {
+    if (upserts.length === 0 && removed.length === 0) return Promise.resolve();
+    const write = this.pendingWrite.then(async () => {
+      const db = await this.open();
+      await db.executeTransaction(async () => {
+        for (const entry of upserts) {
+          await db.queryAsync(
+            "INSERT OR REPLACE INTO entries (key, day, data) VALUES (?, ?, ?)",
+            [entryKey(entry), entry.day, JSON.stringify(entry)],
+          );
+        }
+        for (const key of removed) {
+          await db.queryAsync("DELETE FROM entries WHERE key = ?", [key]);
+        }
+      });
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  private static async open(): Promise<UsageLedgerDB> {
+    if (this.db) return this.db;
+    if (!this.opening) {
+      const opening = (async () => {
+        const db = new Zotero.DBConnection(DB_NAME) as unknown as UsageLedgerDB;
+        await db.queryAsync(
+          "CREATE TABLE IF NOT EXISTS entries (key TEXT PRIMARY KEY, day TEXT NOT NULL, data TEXT NOT NULL)",
+        );
+        this.db = db;
+        return db;
+      })();
+      this.opening = opening;
+      opening.catch(() => {
+        if (this.opening === opening) this.opening = null;
+      });
+    }
+    return this.opening;
+  }
+}
@@ -11,6 +11,7 @@
  * 3. 展示最近处理的文献列表
  * 4. 提供快速操作入口
  * 5. 显示系统健康状态
+ * 6. 汇总 Token 用量与费用
  *
  * 显示内容:
  * - 管家状态卡片
@@ -18,6 +19,7 @@
  * - 处理趋势图表
  * - 最近活动列表
  * - 快捷操作按钮
+ * - Token 用量与费用面板
  *
  * @module DashboardView
  * @author AI-Butler Team
@@ -32,6 +34,13 @@ import { setPref } from "../../utils/prefs";
 import { showSetupWizard } from "./SetupWizard";
 import { openInteractiveOnboardingTour } from "../onboarding";
 import { createCard, createStyledButton } from "./ui/components";
+import {
+  UsageLedger,
+  type UsageGroup,
+  type UsageTaskKind,
+  type UsageTotals,
+} from "../usageLedger";
+import { UsageBudget } from "../usageBudget";
 
 /**
  * 管家状态枚举
@@ -94,6 +103,9 @@ export class DashboardView extends BaseView {
   /** 活动列表容器 */
   private activityContainer: HTMLElement | null = null;
 
+  /** 用量与费用面板容器 */
+  private usageContainer: HTMLElement | null = null;
+
   /** 任务队列管理器 */
   private taskQueueManager: TaskQueueManager;
 
@@ -201,6 +213,9 @@ export class DashboardView extends BaseView {
     // 快捷操作区域
     const quickActions = this.createQuickActions();
 
+    // 用量与费用区域
+    this.usageContainer = this.createUsageSection();
+
     // 最近活动区域
     this.activityContainer = this.createRecentActivities();
 
@@ -208,6 +223,7 @@ export class DashboardView extends BaseView {
     container.appendChild(this.statusCard);
     container.appendChild(this.statsContainer);
     container.appendChild(quickActions);
+    container.appendChild(this.usageContainer);
     container.appendChild(this.activityContainer);
 
     return container;
@@ -491,6 +507,233 @@ export class DashboardView extends BaseView {
     return section;
   }
 
+  /**
+   * 创建 Token 用量与费用区域
+   *
+   * @private
+   */
+  private createUsageSection(): HTMLElement {
+    const section = this.createElement("div", {
+      id: "usage-section",
+      styles: {
+        padding: "0 20px 20px 20px",
+      },
+    });
+
+    const titleRow = this.createElement("div", {
+      styles: {
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+        gap: "12px",
+        marginBottom: "15px",
+        flexWrap: "wrap",
+      },
+    });
+
+    const title = this.createElement("h3", {
+      styles: {
+        margin: "0",
+        fontSize: "16px",
+        color: "var(--ai-text)",
+      },
+      textContent: getString("dashboard-usage-title"),
+    });
+
+    const actions = this.createElement("div", {
+      styles: {
+        display: "flex",
+        gap: "8px",
+      },
+    });
+
+    const editPricesButton = createStyledButton(
+      getString("dashboard-usage-edit-prices"),
+      "#2196f3",
+      "small",
+    );
+    editPricesButton.addEventListener("click", () => this.editPriceTable());
+
+    const currencyButton = createStyledButton(
+      getString("dashboard-usage-set-currency"),
+      "#607d8b",
+      "small",
+    );
+    currencyButton.addEventListener("click", () => this.editCurrency());
+
+    const budgetButton = createStyledButton(
+      getString("dashboard-usage-edit-budget"),
+      "#795548",
+      "small",
+    );
+    budgetButton.addEventListener("click", () => this.editBudgets());
+
+    const clearButton = createStyledButton(
+      getString("dashboard-usage-clear"),
+      "#9e9e9e",
+      "small",
+    );
+    clearButton.addEventListener("click", () => this.clearUsageLedger());
+
+    actions.appendChild(editPricesButton);
+    actions.appendChild(currencyButton);
+    actions.appendChild(budgetButton);
+    actions.appendChild(clearButton);
+    titleRow.appendChild(title);
+    titleRow.appendChild(actions);
+
+    const cards = this.createElement("div", {
+      id: "usage-cards",
+      styles: {
+        display: "grid",
+        gridTemplateColumns: "repeat(auto-fit, minmax(150px, 1fr))",
+        gap: "15px",
+        marginBottom: "15px",
+      },
+      children: [
+        this.createStatCard(
+          "usage-today-cost",
+          getString("dashboard-usage-today-cost"),
+          "-",
+          "#e91e63",
+          "💰",
+        ),
+        this.createStatCard(
+          "usage-month-cost",
+          getString("dashboard-usage-month-cost"),
+          "-",
+          "#9c27b0",
+          "🗓️",
+        ),
+        this.createStatCard(
+          "usage-today-tokens",
+          getString("dashboard-usage-today-tokens"),
+          "0",
+          "#00bcd4",
+          "🔤",
+        ),
+        this.createStatCard(
+          "usage-month-tokens",
+          getString("dashboard-usage-month-tokens"),
+          "0",
+          "#3f51b5",
+          "📈",
+        ),
+      ],
+    });
+
+    const notice = this.createElement("div", {
+      id: "usage-notice",
+      styles: {
+        fontSize: "12px",
+        color: "var(--ai-text-muted)",
+        marginBottom: "10px",
+      },
+    });
+
+    const breakdown = this.createElement("div", {
+      id: "usage-breakdown",
+      styles: {
+        display: "grid",
+        gridTemplateColumns: "repeat(auto-fit, minmax(260px, 1fr))",
+        gap: "15px",
+      },
+    });
+
+    section.appendChild(titleRow);
+    section.appendChild(cards);
+    section.appendChild(notice);
+    section.appendChild(breakdown);
+
+    return section;
+  }
+
+  /**
+   * 创建用量分组列表
+   *
+   * @private
+   */
+  private createUsageGroupList(
+    title: string,
+    groups: UsageGroup[],
+    currency: string,
+  ): HTMLElement {
+    const box = this.createElement("div", {
+      styles: {
+        backgroundColor: "rgba(89, 192, 188, 0.03)",
+        borderRadius: "8px",
+        padding: "12px 15px",
+      },
+    });
+
+    box.appendChild(
+      this.createElement("div", {
+        styles: {
+          fontSize: "13px",
+          fontWeight: "600",
+          marginBottom: "8px",
+          color: "var(--ai-text)",
+        },
+        textContent: title,
+      }),
+    );
+
+    if (groups.length === 0) {
+      box.appendChild(
+        this.createElement("div", {
+          styles: {
+            fontSize: "12px",
+            color: "#9e9e9e",
+            padding: "8px 0",
+          },
+          textContent: getString("dashboard-usage-empty"),
+        }),
+      );
+      return box;
+    }
+
+    groups.slice(0, 10).forEach((group) => {
+      const row = this.createElement("div", {
+        styles: {
+          display: "flex",
+          justifyContent: "space-between",
+          gap: "10px",
+          fontSize: "12px",
+          padding: "4px 0",
+          borderBottom: "1px dashed rgba(0,0,0,0.08)",
+        },
+      });
+      row.appendChild(
+        this.createElement("span", {
+          styles: {
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+            color: "var(--ai-text)",
+          },
+          textContent: group.label,
+        }),
+      );
+      row.appendChild(
+        this.createElement("span", {
+          styles: {
+            flexShrink: "0",
+            color: "var(--ai-text-muted)",
+          },
+          textContent: getString("dashboard-usage-row-value", {
+            args: {
+              tokens: this.formatTokens(group.inputTokens + group.outputTokens),
+              cost: this.formatCost(group, currency),
+            },
+          }),
+        }),
+      );
+      box.appendChild(row);
+    });
+
+    return box;
+  }
+
   /**
    * 创建最近活动区域
    *
@@ -911,6 +1154,12 @@ export class DashboardView extends BaseView {
    * @private
    */
   private refreshData(): void {
+    if (!this.taskQueueManager.isStorageLoaded()) {
+      void this.taskQueueManager
+        .whenStorageLoaded()
+        .then(() => this.refreshData());
+      return;
+    }
     this.taskQueueManager.refreshFromStorage();
 
     // 获取队列统计数据
@@ -945,16 +1194,328 @@ export class DashboardView extends BaseView {
     this.updateStats({
       totalProcessed: queueStats.completed,
       todayProcessed: this.taskQueueManager.getTodayCompletedCount(),
-      pendingCount: queueStats.pending + queueStats.priority,
+      pendingCount:
+        queueStats.pending + queueStats.priority + queueStats.paused,
       failedCount: queueStats.failed,
       successRate: queueStats.successRate,
       averageTime: avgTime,
     });
 
+    // 刷新用量与费用
+    this.refreshUsage();
+
     // 从队列加载最近活动
     this.loadRecentActivitiesFromQueue();
   }
 
+  /**
+   * 刷新用量与费用面板
+   *
+   * @private
+   */
+  private refreshUsage(): void {
+    if (!this.usageContainer) return;
+    if (!UsageLedger.isLoaded()) {
+      void UsageLedger.load().then(() => this.refreshUsage());
+      return;
+    }
+
+    const table = UsageLedger.getPriceTable();
+    const currency = UsageLedger.getCurrency();
+    const todayTotals = UsageLedger.summarize(
+      UsageLedger.getEntries(UsageLedger.getDayRange()),
+      table,
+    );
+    const monthEntries = UsageLedger.getEntries(UsageLedger.getMonthRange());
+    const monthTotals = UsageLedger.summarize(monthEntries, table);
+
+    this.updateUsageValue(
+      "usage-today-cost",
+      this.formatCost(todayTotals, currency),
+    );
+    this.updateUsageValue(
+      "usage-month-cost",
+      this.formatCost(monthTotals, currency),
+    );
+    this.updateUsageValue(
+      "usage-today-tokens",
+      this.formatTokens(todayTotals.inputTokens + todayTotals.outputTokens),
+    );
+    this.updateUsageValue(
+      "usage-month-tokens",
+      this.formatTokens(monthTotals.inputTokens + monthTotals.outputTokens),
+    );
+
+    const notice = this.usageContainer.querySelector("#usage-notice");
+    if (notice) {
+      const estimated = monthEntries.reduce(
+        (sum, entry) => sum + entry.estimatedRequests,
+        0,
+      );
+      const parts = [
+        getString("dashboard-usage-month-requests", {
+          args: { count: monthTotals.requests },
+        }),
+      ];
+      if (monthTotals.unpricedTokens > 0) {
+        parts.push(
+          getString("dashboard-usage-unpriced", {
+            args: { tokens: this.formatTokens(monthTotals.unpricedTokens) },
+          }),
+        );
+      }
+      if (estimated > 0) {
+        parts.push(
+          getString("dashboard-usage-estimated", {
+            args: { count: estimated },
+          }),
+        );
+      }
+      const budgetViolation = UsageBudget.getBlockingViolation();
+      if (budgetViolation) {
+        parts.push(
+          getString("dashboard-usage-budget-blocked", {
+            args: { reason: UsageBudget.describe(budgetViolation) },
+          }),
+        );
+      }
+      notice.textContent = parts.join(" · ");
+    }
+
+    const breakdown = this.usageContainer.querySelector("#usage-breakdown");
+    if (!breakdown) return;
+    breakdown.innerHTML = "";
+    breakdown.appendChild(
+      this.createUsageGroupList(
+        getString("dashboard-usage-by-endpoint"),
+        UsageLedger.groupBy(
+          monthEntries,
+          (entry) => ({
+            key: `${entry.endpointId}|${entry.model}`,
+            label: entry.model
+              ? `${entry.endpointName} · ${entry.model}`
+              : entry.endpointName,
+          }),
+          table,
+        ),
+        currency,
+      ),
+    );
+    breakdown.appendChild(
+      this.createUsageGroupList(
+        getString("dashboard-usage-by-task"),
+        UsageLedger.groupBy(
+          monthEntries,
+          (entry) => ({
+            key: entry.task,
+            label: this.getUsageTaskLabel(entry.task),
+          }),
+          table,
+        ),
+        currency,
+      ),
+    );
+    breakdown.appendChild(
+      this.createUsageGroupList(
+        getString("dashboard-usage-by-collection"),
+        UsageLedger.groupByCollection(monthEntries, table),
+        currency,
+      ),
+    );
+  }
+
+  /**
+   * 更新用量卡片数值
+   *
+   * @private
+   */
+  private updateUsageValue(id: string, value: string): void {
+    const valueElement = this.usageContainer?.querySelector(
+      `#stat-${id} .stat-value`,
+    );
+    if (valueElement) {
+      valueElement.textContent = value;
+    }
+  }
+
+  /**
+   * 任务类型显示名称
+   *
+   * @private
+   */
+  private getUsageTaskLabel(task: UsageTaskKind): string {
+    switch (task) {
+      case "summary":
+        return getString("task-queue-type-summary");
+      case "deepRead":
+        return getString("task-queue-type-deep-read");
+      case "imageSummary":
+        return getString("task-queue-type-image-summary");
+      case "mindmap":
+        return getString("task-queue-type-mindmap");
+      case "figureExplain":
+        return getString("task-queue-type-figure-explain");
+      case "tableFill":
+        return getString("task-queue-type-table-fill");
+      case "review":
+        return getString("task-queue-type-review");
+      case "targetedQuestion":
+        return getString("task-queue-type-targeted-question");
+      case "chat":
+        return getString("dashboard-usage-task-chat");
+      default:
+        return getString("dashboard-usage-task-custom");
+    }
+  }
+
+  /**
+   * 格式化费用；全部 token 都未定价时显示占位符
+   *
+   * @private
+   */
+  private formatCost(totals: UsageTotals, currency: string): string {
+    const tokens = totals.inputTokens + totals.outputTokens;
+    if (tokens > 0 && totals.unpricedTokens === tokens) return "-";
+    const digits = totals.cost > 0 && totals.cost < 1 ? 4 : 2;
+    try {
+      return new Intl.NumberFormat(undefined, {
+        style: "currency",
+        currency,
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      }).format(totals.cost);
+    } catch {
+      return `${totals.cost.toFixed(digits)} ${currency}`;
+    }
+  }
+
+  /**
+   * 格式化 token 数
+   *
+   * @private
+   */
+  private formatTokens(count: number): string {
+    if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(2)}M`;
+    if (count >= 10_000) return `${(count / 1000).toFixed(1)}k`;
+    return count.toLocaleString();
+  }
+
+  /**
+   * 编辑模型价格表
+   *
+   * @private
+   */
+  private editPriceTable(): void {
+    const win = Zotero.getMainWindow() as any;
+    const text = {
+      value: JSON.stringify(UsageLedger.getPriceTable()),
+    } as any;
+    const ok = Services.prompt.prompt(
+      win,
+      getString("dashboard-usage-price-title"),
+      getString("dashboard-usage-price-prompt"),
+      text,
+      "",
+      { value: false },
+    );
+    if (!ok) return;
+    try {
+      UsageLedger.setPriceTable(UsageLedger.parsePriceTable(text.value));
+      this.refreshUsage();
+      new ztoolkit.ProgressWindow("AI Butler")
+        .createLine({
+          text: getString("dashboard-usage-price-saved"),
+          type: "success",
+        })
+        .show();
+    } catch (error: any) {
+      new ztoolkit.ProgressWindow("AI Butler")
+        .createLine({
+          text: getString("dashboard-usage-price-invalid", {
+            args: { message: error?.message || String(error) },
+          }),
+          type: "fail",
+        })
+        .show();
+    }
+  }
+
+  /**
+   * 设置显示货币
+   *
+   * @private
+   */
+  private editCurrency(): void {
+    const win = Zotero.getMainWindow() as any;
+    const text = { value: UsageLedger.getCurrency() } as any;
+    const ok = Services.prompt.prompt(
+      win,
+      getString("dashboard-usage-currency-title"),
+      getString("dashboard-usage-currency-prompt"),
+      text,
+      "",
+      { value: false },
+    );
+    if (!ok) return;
+    UsageLedger.setCurrency(String(text.value || "").toUpperCase());
+    this.refreshUsage();
+  }
+
+  /**
+   * 编辑预算上限
+   *
+   * @private
+   */
+  private editBudgets(): void {
+    const win = Zotero.getMainWindow() as any;
+    const text = {
+      value: JSON.stringify(UsageBudget.getConfig()),
+    } as any;
+    const ok = Services.prompt.prompt(
+      win,
+      getString("dashboard-usage-budget-title"),
+      getString("dashboard-usage-budget-prompt"),
+      text,
+      "",
+      { value: false },
+    );
+    if (!ok) return;
+    try {
+      UsageBudget.setConfig(UsageBudget.parseConfig(text.value));
+      this.refreshUsage();
+      new ztoolkit.ProgressWindow("AI Butler")
+        .createLine({
+          text: getString("dashboard-usage-budget-saved"),
+          type: "success",
+        })
+        .show();
+    } catch (error: any) {
+      new ztoolkit.ProgressWindow("AI Butler")
+        .createLine({
+          text: getString("dashboard-usage-budget-invalid", {
+            args: { message: error?.message || String(error) },
+          }),
+          type: "fail",
+        })
+        .show();
+    }
+  }
+
+  /**
+   * 清空用量账本
+   *
+   * @private
+   */
+  private clearUsageLedger(): void {
+    const ok = Services.prompt.confirm(
+      Zotero.getMainWindow() as any,
+      getString("dashboard-usage-clear-title"),
+      getString("dashboard-usage-clear-confirm"),
+    );
+    if (!ok) return;
+    void UsageLedger.clear().then(() => this.refreshUsage());
+  }
+
   /**
    * 计算管家状态
    *
@@ -0,0 +1,407 @@
+/**
+ * ================================================================
+ * 文献库问答视图
+ * ================================================================
+ *
+ * 面向整个文献库或选中分类的多轮问答：每次提问自动检索相关文献作为上下文，
+ * 回答中的 [n] 引用可点击定位到对应条目，会话可保存为独立笔记。
+ *
+ * @module LibraryChatView
+ * @author AI-Butler Team
+ */
+
+import { BaseView } from "./BaseView";
+import { SummaryView } from "./SummaryView";
+import { createSelect, createStyledButton } from "./ui/components";
+import {
+  LibraryChatService,
+  createLibraryChatSession,
+  linkLibraryChatCitations,
+  type LibraryChatScope,
+  type LibraryChatSession,
+} from "../libraryChat";
+import {
+  createChatAbortController,
+  isChatAbortError,
+  type ChatAbortControllerLike,
+} from "../chatContext";
+import { getString } from "../../utils/locale";
+
+export class LibraryChatView extends BaseView {
+  private scopes: LibraryChatScope[] = [];
+  private session: LibraryChatSession | null = null;
+  private scopeContainer: HTMLElement | null = null;
+  private messagesContainer: HTMLElement | null = null;
+  private input: HTMLTextAreaElement | null = null;
+  private sendButton: HTMLButtonElement | null = null;
+  private saveButton: HTMLButtonElement | null = null;
+  private abortController: ChatAbortControllerLike | null = null;
+
+  constructor() {
+    super("library-chat-view");
+  }
+
+  protected renderContent(): HTMLElement {
+    const container = this.createElement("div", {
+      id: "ai-butler-library-chat-view",
+      styles: {
+        display: "flex",
+        flexDirection: "column",
+        width: "100%",
+        height: "100%",
+        overflow: "hidden",
+        padding: "20px",
+        boxSizing: "border-box",
+        gap: "12px",
+      },
+    });
+
+    const toolbar = this.createElement("div", {
+      styles: {
+        display: "flex",
+        alignItems: "center",
+        gap: "10px",
+        flexShrink: "0",
+      },
+    });
+    this.scopeContainer = this.createElement("div", {
+      styles: { flex: "1", minWidth: "0" },
+    });
+    const newButton = createStyledButton(
+      getString("library-chat-new"),
+      "#9e9e9e",
+      "small",
+    );
+    newButton.addEventListener("click", () => this.resetSession());
+    this.saveButton = createStyledButton(
+      getString("library-chat-save"),
+      "#59c0bc",
+      "small",
+    );
+    this.saveButton.disabled = true;
+    this.saveButton.addEventListener("click", () => void this.saveSession());
+    toolbar.appendChild(this.scopeContainer);
+    toolbar.appendChild(newButton);
+    toolbar.appendChild(this.saveButton);
+
+    this.messagesContainer = this.createElement("div", {
+      styles: {
+        flex: "1",
+        minHeight: "0",
+        overflowY: "auto",
+        display: "flex",
+        flexDirection: "column",
+        gap: "12px",
+      },
+    });
+    // 回答中的引用链接在 Zotero 主窗口中定位条目
+    this.messagesContainer.addEventListener("click", (event: MouseEvent) => {
+      const target = event.target as HTMLElement | null;
+      const link = target?.closest?.("a[data-item-id]") as HTMLElement | null;
+      if (!link) return;
+      event.preventDefault();
+      void this.selectItem(Number(link.dataset.itemId));
+    });
+
+    const inputRow = this.createElement("div", {
+      styles: { display: "flex", gap: "10px", flexShrink: "0" },
+    });
+    this.input = this.createElement("textarea", {
+      attributes: {
+        rows: "3",
+        placeholder: getString("library-chat-placeholder"),
+      },
+      styles: {
+        flex: "1",
+        padding: "10px 12px",
+        fontSize: "14px",
+        border: "1px solid var(--ai-input-border)",
+        borderRadius: "6px",
+        background: "var(--ai-input-bg)",
+        color: "var(--ai-input-text)",
+        resize: "none",
+        fontFamily: "inherit",
+      },
+    }) as HTMLTextAreaElement;
+    this.input.addEventListener("keydown", (event: KeyboardEvent) => {
+      if (event.key === "Enter" && !event.shiftKey) {
+        event.preventDefault();
+        void this.handleSend();
+      }
+    });
+    this.sendButton = createStyledButton(
+      getString("library-chat-send"),
+      "#59c0bc",
+    );
+    this.sendButton.addEventListener("click", () => void this.handleSend());
+    inputRow.appendChild(this.input);
+    inputRow.appendChild(this.sendButton);
+
+    container.appendChild(toolbar);
+    container.appendChild(this.messagesContainer);
+    container.appendChild(inputRow);
+    return container;
+  }
+
+  protected onShow(): void {
+    this.refreshScopes();
+    this.input?.focus();
+  }
+
+  /**
+   * Zotero 中选中的分类可能已变化，每次显示时重新生成范围选项
+   */
+  private refreshScopes(): void {
+    if (!this.scopeContainer) return;
+    this.scopes = LibraryChatService.getAvailableScopes();
+    const current = this.session
+      ? this.scopes.findIndex((scope) => this.isSameScope(scope))
+      : -1;
+    if (this.session && current < 0) {
+      // 会话所在的分类不再选中时保留为一个选项，避免中断当前会话
+      this.scopes.push(this.session.scope);
+    }
+    const selected = this.session
+      ? this.scopes.findIndex((scope) => this.isSameScope(scope))
+      : 0;
+
+    this.scopeContainer.innerHTML = "";
+    this.scopeContainer.appendChild(
+      createSelect(
+        "library-chat-scope",
+        this.scopes.map((scope, index) => ({
+          value: String(index),
+          label: scope.label,
+        })),
+        String(Math.max(0, selected)),
+        (value) => {
+          const scope = this.scopes[Number(value)];
+          if (scope && !this.isSameScope(scope)) {
+            this.resetSession(scope);
+          }
+        },
+      ),
+    );
+  }
+
+  private isSameScope(scope: LibraryChatScope): boolean {
+    return (
+      !!this.session &&
+      this.session.scope.libraryID === scope.libraryID &&
+      this.session.scope.collectionId === scope.collectionId
+    );
+  }
+
+  private getSelectedScope(): LibraryChatScope {
+    const select = this.scopeContainer?.querySelector(
+      "#setting-library-chat-scope",
+    ) as HTMLElement | null;
+    const index = Number(select?.getAttribute("data-value") || 0);
+    return this.scopes[index] || LibraryChatService.getAvailableScopes()[0];
+  }
+
+  private resetSession(scope?: LibraryChatScope): void {
+    if (this.abortController) return;
+    this.session = scope ? createLibraryChatSession(scope) : null;
+    if (this.messagesContainer) this.messagesContainer.innerHTML = "";
+    if (this.saveButton) this.saveButton.disabled = true;
+  }
+
+  private async handleSend(): Promise<void> {
+    if (this.abortController) {
+      this.abortController.abort();
+      return;
+    }
+    const question = this.input?.value.trim() || "";
+    if (!question || !this.messagesContainer || !this.input) return;
+
+    if (!this.session) {
+      this.session = createLibraryChatSession(this.getSelectedScope());
+    }
+    const session = this.session;
+    const controller = createChatAbortController();
+    this.abortController = controller;
+    this.input.value = "";
+    this.setChatting(true);
+
+    this.messagesContainer.appendChild(
+      this.createMessage(getString("library-chat-you"), question),
+    );
+    const answer = this.createMessage(getString("library-chat-assistant"), "");
+    const content = answer.querySelector(
+      ".library-chat-content",
+    ) as HTMLElement;
+    this.messagesContainer.appendChild(answer);
+    this.scrollToBottom();
+
+    let streamed = "";
+    try {
+      const turn = await LibraryChatService.ask(session, question, {
+        abortSignal: controller.signal,
+        onStatus: (message) => {
+          if (!streamed) content.textContent = message;
+        },
+        onProgress: (chunk) => {
+          streamed += chunk;
+          content.innerHTML = SummaryView.convertMarkdownToHTMLCore(streamed);
+          this.scrollToBottom();
+        },
+      });
+      if (!turn) {
+        content.textContent = getString("library-chat-no-sources");
+        return;
+      }
+      content.innerHTML = this.renderAnswer(turn.answer);
+      answer.appendChild(this.renderSources(turn.citations));
+      if (this.saveButton) this.saveButton.disabled = false;
+    } catch (error: any) {
+      if (isChatAbortError(error, controller.signal)) {
+        content.innerHTML = streamed
+          ? `${SummaryView.convertMarkdownToHTMLCore(streamed)}<p style="color: #777; font-size: 12px;">${getString("library-chat-stopped")}</p>`
+          : getString("library-chat-stopped");
+        return;
+      }
+      ztoolkit.log("[AI-Butler] 文献库问答失败:", error);
+      content.textContent = getString("library-chat-error", {
+        args: { error: error?.message || String(error) },
+      });
+    } finally {
+      this.abortController = null;
+      this.setChatting(false);
+      this.scrollToBottom();
+    }
+  }
+
+  /**
+   * 渲染回答，并把 [n] 引用转换为可点击的条目链接
+   */
+  private renderAnswer(markdown: string): string {
+    const session = this.session;
+    if (!session) return SummaryView.convertMarkdownToHTMLCore(markdown);
+    const html = SummaryView.convertMarkdownToHTMLCore(
+      linkLibraryChatCitations(markdown, session.sources, (ref) =>
+        LibraryChatService.getItemSelectUri(ref),
+      ),
+    );
+    const doc =
+      this.container?.ownerDocument || Zotero.getMainWindow().document;
+    const wrapper = doc.createElement("div");
+    wrapper.innerHTML = html;
+    const links = Array.from(
+      wrapper.querySelectorAll("a[href^='zotero://select']"),
+    ) as HTMLElement[];
+    for (const link of links) {
+      const key = /\/items\/([^/?#]+)$/.exec(link.getAttribute("href") || "");
+      const source = session.sources.find((ref) => ref.key === key?.[1]);
+      if (source) link.setAttribute("data-item-id", String(source.itemId));
+    }
+    return wrapper.innerHTML;
+  }
+
+  private renderSources(citations: number[]): HTMLElement {
+    const list = this.createElement("div", {
+      styles: {
+        marginTop: "8px",
+        paddingTop: "8px",
+        borderTop: "1px dashed var(--ai-border)",
+        fontSize: "12px",
+        color: "var(--ai-text-muted)",
+        display: "flex",
+        flexDirection: "column",
+        gap: "4px",
+      },
+      textContent: getString("library-chat-sources"),
+    });
+    for (const index of citations) {
+      const ref = this.session?.sources[index - 1];
+      if (!ref) continue;
+      const link = this.createElement("a", {
+        attributes: {
+          href: "#",
+          "data-item-id": String(ref.itemId),
+          title: getString("semantic-search-locate-tooltip"),
+        },
+        styles: { color: "var(--ai-accent)", cursor: "pointer" },
+        textContent: `[${index}] ${ref.title}`,
+      });
+      list.appendChild(link);
+    }
+    return list;
+  }
+
+  private createMessage(label: string, text: string): HTMLElement {
+    const message = this.createElement("div", {
+      styles: {
+        padding: "10px 12px",
+        borderRadius: "8px",
+        border: "1px solid var(--ai-border)",
+        background: "var(--ai-surface)",
+        color: "var(--ai-text)",
+        fontSize: "14px",
+        lineHeight: "1.6",
+      },
+    });
+    message.appendChild(
+      this.createElement("div", {
+        styles: { fontWeight: "600", marginBottom: "4px" },
+        textContent: label,
+      }),
+    );
+    message.appendChild(
+      this.createElement("div", {
+        className: "library-chat-content",
+        styles: { whiteSpace: text ? "pre-wrap" : "normal" },
+        textContent: text,
+      }),
+    );
+    return message;
+  }
+
+  private setChatting(chatting: boolean): void {
+    if (this.input) this.input.disabled = chatting;
+    if (this.sendButton) {
+      this.sendButton.textContent = getString(
+        chatting ? "library-chat-stop" : "library-chat-send",
+      );
+    }
+  }
+
+  private async saveSession(): Promise<void> {
+    if (!this.session || this.session.turns.length === 0) return;
+    try {
+      await LibraryChatService.saveConversation(this.session);
+      new ztoolkit.ProgressWindow(getString("library-chat-title"), {
+        closeTime: 2000,
+      })
+        .createLine({ text: getString("library-chat-saved"), type: "success" })
+        .show();
+    } catch (error: any) {
+      ztoolkit.log("[AI-Butler] 保存文献库问答失败:", error);
+      new ztoolkit.ProgressWindow(getString("library-chat-title"), {
+        closeTime: 3000,
+      })
+        .createLine({
+          text: getString("library-chat-error", {
+            args: { error: error?.message || String(error) },
+          }),
+          type: "fail",
+        })
+        .show();
+    }
+  }
+
+  private async selectItem(itemId: number): Promise<void> {
+    if (!Number.isFinite(itemId)) return;
+    try {
+      await Zotero.getActiveZoteroPane().selectItem(itemId);
+    } catch (error) {
+      ztoolkit.log("[AI-Butler] 定位文献失败:", error);
+    }
+  }
+
+  private scrollToBottom(): void {
+    if (this.messagesContainer) {
+      this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+    }
+  }
+}
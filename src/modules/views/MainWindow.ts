@@ -16,6 +16,8 @@
  * - DashboardView: 仪表盘概览
  * - SummaryView: AI 总结输出
  * - TaskQueueView: 任务队列管理
+ * - LibraryChatView: 文献库问答
+ * - SemanticSearchView: AI 笔记语义搜索
  * - SettingsView: 快捷设置面板
  *
  * 技术实现:
@@ -34,6 +36,8 @@ import { TaskQueueView } from "./TaskQueueView";
 import { SettingsView } from "./SettingsView";
 import { LibraryScannerView } from "./LibraryScannerView";
 import { LiteratureReviewView } from "./LiteratureReviewView";
+import { SemanticSearchView } from "./SemanticSearchView";
+import { LibraryChatView } from "./LibraryChatView";
 import { BaseView } from "./BaseView";
 import type { AiNoteKind } from "../aiNoteService";
 import { getString } from "../../utils/locale";
@@ -51,6 +55,8 @@ export type TabType =
   | "dashboard"
   | "summary"
   | "tasks"
+  | "chat"
+  | "search"
   | "settings"
   | "scanner"
   | "literature-review";
@@ -122,6 +128,12 @@ export class MainWindow {
   /** 任务队列视图 */
   private taskQueueView: TaskQueueView;
 
+  /** 文献库问答视图 */
+  private libraryChatView: LibraryChatView;
+
+  /** 语义搜索视图 */
+  private semanticSearchView: SemanticSearchView;
+
   /** 设置视图 */
   private settingsView: SettingsView;
 
@@ -139,6 +151,8 @@ export class MainWindow {
     this.dashboardView = new DashboardView();
     this.summaryView = new SummaryView();
     this.taskQueueView = new TaskQueueView();
+    this.libraryChatView = new LibraryChatView();
+    this.semanticSearchView = new SemanticSearchView();
     this.settingsView = new SettingsView();
     this.libraryScannerView = new LibraryScannerView();
     this.literatureReviewView = new LiteratureReviewView();
@@ -153,6 +167,8 @@ export class MainWindow {
     this.views.set("dashboard", this.dashboardView);
     this.views.set("summary", this.summaryView);
     this.views.set("tasks", this.taskQueueView);
+    this.views.set("chat", this.libraryChatView);
+    this.views.set("search", this.semanticSearchView);
     this.views.set("settings", this.settingsView);
     this.views.set("scanner", this.libraryScannerView);
     this.views.set("literature-review", this.literatureReviewView);
@@ -502,6 +518,16 @@ export class MainWindow {
           icon: "📝",
         },
         { id: "tasks", label: getString("main-window-tab-tasks"), icon: "📋" },
+        {
+          id: "chat",
+          label: getString("main-window-tab-chat"),
+          icon: "💬",
+        },
+        {
+          id: "search",
+          label: getString("main-window-tab-search"),
+          icon: "🔍",
+        },
         {
           id: "settings",
           label: getString("main-window-tab-settings"),
@@ -0,0 +1,197 @@
+/**
+ * ================================================================
+ * 语义搜索视图
+ * ================================================================
+ *
+ * 在已索引的 AI 总结、AI 精读笔记中按语义检索整个文献库，
+ * 按相关度列出文献条目及其匹配段落，点击条目可在 Zotero 中定位。
+ *
+ * @module SemanticSearchView
+ * @author AI-Butler Team
+ */
+
+import { BaseView } from "./BaseView";
+import { createCard, createInput, createStyledButton } from "./ui/components";
+import { SemanticIndex, type SemanticSearchResult } from "../semanticIndex";
+import { getString } from "../../utils/locale";
+
+/** 匹配段落展示的最大字符数 */
+const PASSAGE_PREVIEW_CHARS = 320;
+
+export class SemanticSearchView extends BaseView {
+  private queryInput: HTMLInputElement | null = null;
+  private statusElement: HTMLElement | null = null;
+  private resultsContainer: HTMLElement | null = null;
+  private activeSearchId = 0;
+
+  constructor() {
+    super("semantic-search-view");
+  }
+
+  protected renderContent(): HTMLElement {
+    const container = this.createElement("div", {
+      id: "ai-butler-semantic-search-view",
+      styles: {
+        display: "flex",
+        flexDirection: "column",
+        width: "100%",
+        height: "100%",
+        overflow: "hidden",
+        padding: "20px",
+        boxSizing: "border-box",
+        gap: "12px",
+      },
+    });
+
+    const searchBar = this.createElement("div", {
+      styles: { display: "flex", gap: "10px", flexShrink: "0" },
+    });
+    this.queryInput = createInput(
+      "semantic-search-query",
+      "text",
+      "",
+      getString("semantic-search-placeholder"),
+    );
+    this.queryInput.addEventListener("keydown", (event: KeyboardEvent) => {
+      if (event.key === "Enter") void this.runSearch();
+    });
+    const searchButton = createStyledButton(
+      getString("semantic-search-button"),
+      "#59c0bc",
+    );
+    searchButton.style.flexShrink = "0";
+    searchButton.addEventListener("click", () => void this.runSearch());
+    searchBar.appendChild(this.queryInput);
+    searchBar.appendChild(searchButton);
+
+    this.statusElement = this.createElement("div", {
+      styles: {
+        fontSize: "13px",
+        color: "var(--ai-text-muted)",
+        flexShrink: "0",
+      },
+    });
+
+    this.resultsContainer = this.createElement("div", {
+      styles: { flex: "1", minHeight: "0", overflowY: "auto" },
+    });
+
+    container.appendChild(searchBar);
+    container.appendChild(this.statusElement);
+    container.appendChild(this.resultsContainer);
+    return container;
+  }
+
+  protected onShow(): void {
+    void this.refreshStatus();
+    this.queryInput?.focus();
+  }
+
+  private async refreshStatus(): Promise<void> {
+    if (!this.statusElement) return;
+    if (!SemanticIndex.isEnabled()) {
+      this.statusElement.textContent = getString("semantic-search-disabled");
+      return;
+    }
+    const stats = await SemanticIndex.getStats();
+    this.statusElement.textContent =
+      stats.notes > 0
+        ? getString("semantic-search-index-status", {
+            args: { notes: stats.notes, passages: stats.passages },
+          })
+        : getString("semantic-search-index-empty");
+  }
+
+  private async runSearch(): Promise<void> {
+    const query = this.queryInput?.value.trim() || "";
+    if (!query || !this.statusElement || !this.resultsContainer) return;
+    if (!SemanticIndex.isEnabled()) {
+      this.statusElement.textContent = getString("semantic-search-disabled");
+      return;
+    }
+
+    const searchId = ++this.activeSearchId;
+    this.statusElement.textContent = getString("semantic-search-searching");
+    try {
+      const results = await SemanticIndex.search(query);
+      if (searchId !== this.activeSearchId) return;
+      this.statusElement.textContent = results.length
+        ? getString("semantic-search-result-count", {
+            args: { count: results.length },
+          })
+        : getString("semantic-search-no-results");
+      this.renderResults(results);
+    } catch (error: any) {
+      if (searchId !== this.activeSearchId) return;
+      ztoolkit.log("[AI-Butler] 语义搜索失败:", error);
+      this.statusElement.textContent = getString("semantic-search-failed", {
+        args: { error: error?.message || String(error) },
+      });
+    }
+  }
+
+  private renderResults(results: SemanticSearchResult[]): void {
+    if (!this.resultsContainer) return;
+    this.resultsContainer.innerHTML = "";
+    for (const result of results) {
+      this.resultsContainer.appendChild(this.renderResult(result));
+    }
+  }
+
+  private renderResult(result: SemanticSearchResult): HTMLElement {
+    const item = Zotero.Items.get(result.itemId) as Zotero.Item | false;
+    const title =
+      (item && (item.getField("title") as string)) ||
+      getString("semantic-search-untitled");
+
+    const badge = this.createElement("span", {
+      styles: { fontSize: "12px", color: "var(--ai-text-muted)" },
+      textContent: getString("semantic-search-result-meta", {
+        args: {
+          kind: getString(
+            result.kind === "deepRead"
+              ? "semantic-search-kind-deep-read"
+              : "semantic-search-kind-summary",
+          ),
+          score: Math.round(result.score * 100),
+        },
+      }),
+    });
+
+    const passages = this.createElement("div", {
+      styles: { display: "flex", flexDirection: "column", gap: "8px" },
+    });
+    for (const passage of result.passages) {
+      const text =
+        passage.text.length > PASSAGE_PREVIEW_CHARS
+          ? `${passage.text.slice(0, PASSAGE_PREVIEW_CHARS)}…`
+          : passage.text;
+      passages.appendChild(
+        this.createElement("div", {
+          styles: {
+            fontSize: "13px",
+            lineHeight: "1.5",
+            color: "var(--ai-text)",
+            borderLeft: "3px solid var(--ai-accent)",
+            paddingLeft: "8px",
+            whiteSpace: "pre-wrap",
+          },
+          textContent: passage.title ? `${passage.title}\n${text}` : text,
+        }),
+      );
+    }
+
+    const card = createCard("generic", title, passages, { extra: badge });
+    card.style.marginBottom = "10px";
+    card.style.cursor = "pointer";
+    card.title = getString("semantic-search-locate-tooltip");
+    card.addEventListener("click", async () => {
+      try {
+        await Zotero.getActiveZoteroPane().selectItem(result.itemId);
+      } catch (error) {
+        ztoolkit.log("[AI-Butler] 定位文献失败:", error);
+      }
+    });
+    return card;
+  }
+}
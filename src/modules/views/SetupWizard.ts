@@ -163,6 +163,23 @@ function renderSetupPresetGuideStep(
   onApplied: () => void,
 ): void {
   modal.innerHTML = "";
+  const urlInput = preset.apiUrlPlaceholder
+    ? (createElement(doc, "input", {
+        attributes: {
+          type: "text",
+          placeholder: preset.apiUrlPlaceholder,
+        },
+        styles: {
+          width: "100%",
+          boxSizing: "border-box",
+          padding: "12px 14px",
+          border: "1px solid #cfd8dc",
+          borderRadius: "8px",
+          fontSize: "14px",
+          marginTop: "10px",
+        },
+      }) as HTMLInputElement)
+    : null;
   const keyInput = createElement(doc, "input", {
     attributes: {
       type: "password",
@@ -245,6 +262,7 @@ function renderSetupPresetGuideStep(
     await fetchSetupPresetModels(
       doc,
       preset,
+      urlInput?.value.trim() || preset.endpoint.apiUrl,
       keyInput.value.trim(),
       modelInput,
       modelStatus,
@@ -256,7 +274,7 @@ function renderSetupPresetGuideStep(
     styles: { display: "none", marginTop: "16px" },
     children: [
       createElement(doc, "div", {
-        textContent: getString("setup-wizard-model-label"),
+        textContent: preset.modelLabel || getString("setup-wizard-model-label"),
         styles: {
           marginBottom: "8px",
           fontSize: "14px",
@@ -279,6 +297,7 @@ function renderSetupPresetGuideStep(
   const content = createElement(doc, "div", {
     children: [
       createGuideList(doc, preset.guideSteps),
+      ...(urlInput ? [urlInput] : []),
       keyInput,
       showKeyRow,
       modelSection,
@@ -299,6 +318,21 @@ function renderSetupPresetGuideStep(
     "medium",
   );
   nextButton.addEventListener("click", () => {
+    const apiUrl = urlInput?.value.trim() || "";
+    if (urlInput && !apiUrl) {
+      urlInput.focus();
+      new ztoolkit.ProgressWindow(getString("setup-wizard-progress-title"), {
+        closeTime: 2200,
+      })
+        .createLine({
+          text: getString("setup-wizard-missing-api-url", {
+            args: { provider: preset.name },
+          }),
+          type: "fail",
+        })
+        .show();
+      return;
+    }
     const apiKey = keyInput.value.trim();
     if (!apiKey) {
       keyInput.focus();
@@ -314,9 +348,23 @@ function renderSetupPresetGuideStep(
         .show();
       return;
     }
+    const model = modelInput.value.trim() || preset.endpoint.model;
+    if (!model) {
+      modelInput.focus();
+      new ztoolkit.ProgressWindow(getString("setup-wizard-progress-title"), {
+        closeTime: 2200,
+      })
+        .createLine({
+          text: getString("setup-wizard-missing-model"),
+          type: "fail",
+        })
+        .show();
+      return;
+    }
     renderSetupPresetConfirmStep(doc, modal, close, preset, onApplied, {
       apiKey,
-      model: modelInput.value.trim() || preset.endpoint.model,
+      model,
+      ...(urlInput ? { apiUrl } : {}),
     });
   });
 
@@ -686,6 +734,7 @@ export function openExternalUrl(url: string): void {
 async function fetchSetupPresetModels(
   doc: Document,
   preset: SetupPreset,
+  apiUrl: string,
   apiKey: string,
   modelInput: HTMLInputElement,
   status: HTMLElement,
@@ -711,7 +760,7 @@ async function fetchSetupPresetModels(
 
   try {
     const models = await LLMClient.listModels(preset.endpoint.providerType, {
-      apiUrl: preset.endpoint.apiUrl,
+      apiUrl,
       apiKey,
       model: modelInput.value.trim() || preset.endpoint.model,
       requestTimeoutMs: 30000,
@@ -30,6 +30,8 @@ import { getPref } from "../../utils/prefs";
 import { getDefaultSummaryPrompt } from "../../utils/prompts";
 import { getString } from "../../utils/locale";
 import { createStyledButton } from "./ui/components";
+import { createSummaryComparisonPanel } from "./ui/SummaryComparisonPanel";
+import { createAiNoteHistoryPanel } from "./ui/AiNoteHistoryPanel";
 import {
   LLMNoteMetadataService,
   type LLMNoteMetadata,
@@ -671,6 +673,7 @@ export class SummaryView extends BaseView {
         transport: {
           abortSignal: this.chatAbortController?.signal,
         },
+        metadata: { itemId: this.currentItemId ?? undefined },
         onProgress: (chunk: string) => {
           fullResponse += chunk;
           // 更新助手消息显示
@@ -1100,6 +1103,108 @@ export class SummaryView extends BaseView {
     this.applyTheme();
   }
 
+  /**
+   * 追加一张“总结对比”卡片：默认折叠，展开时并排显示各区块，最新的区块作为基准
+   */
+  private appendComparisonCard(noteHtml: string): void {
+    const blocks = LLMNoteMetadataService.parseSummaryBlocks(noteHtml).filter(
+      (block) => block.kind === "metadata" || block.content.trim().length > 0,
+    );
+    if (blocks.length < 2) return;
+    const ordered = [blocks[blocks.length - 1], ...blocks.slice(0, -1)];
+    this.appendCollapsibleCard(
+      getString("summary-compare-card-title", {
+        args: { count: blocks.length },
+      }),
+      () =>
+        createSummaryComparisonPanel(Zotero.getMainWindow().document, ordered),
+    );
+  }
+
+  /**
+   * 追加一张“版本历史”卡片：展开时加载 AI 总结的历史版本，恢复后重新显示笔记
+   */
+  private appendHistoryCard(item: Zotero.Item): void {
+    this.appendCollapsibleCard(getString("ai-note-history-card-title"), () =>
+      createAiNoteHistoryPanel(Zotero.getMainWindow().document, {
+        item,
+        kind: "summary",
+        onRestored: () => this.showSavedNoteForItem(item.id),
+      }),
+    );
+  }
+
+  /**
+   * 默认折叠的卡片，首次展开时才渲染内容
+   */
+  private appendCollapsibleCard(
+    title: string,
+    renderBody: () => HTMLElement,
+  ): void {
+    if (!this.outputContainer) return;
+
+    const card = this.createElement("div", {
+      className: "ai-butler-chat-pair",
+      styles: {
+        position: "relative",
+        marginBottom: "18px",
+        padding: "4px 8px 8px 8px",
+        border: "1px solid var(--ai-border)",
+        borderRadius: "10px",
+        backgroundColor: "var(--ai-surface-2)",
+        minWidth: "0",
+        maxWidth: "100%",
+      },
+    });
+    const header = this.createElement("div", {
+      styles: {
+        padding: "6px 2px 4px 2px",
+        fontWeight: "600",
+        color: "var(--ai-accent)",
+      },
+      textContent: title,
+    });
+    const body = this.createElement("div", {
+      className: "ai-butler-card-body",
+      styles: { display: "none", minWidth: "0" },
+    });
+    let hasRendered = false;
+
+    const collapseBtn = this.createElement("button", {
+      styles: {
+        position: "absolute",
+        top: "6px",
+        right: "8px",
+        border: "none",
+        background: "transparent",
+        color: "#555",
+        cursor: "pointer",
+        fontSize: "14px",
+      },
+      innerHTML: "▸",
+    }) as HTMLButtonElement;
+    collapseBtn.title = getString("summary-collapse-toggle");
+    collapseBtn.addEventListener("click", () => {
+      if (body.style.display === "none") {
+        body.style.display = "block";
+        collapseBtn.innerHTML = "▾";
+        if (!hasRendered) {
+          body.appendChild(renderBody());
+          hasRendered = true;
+        }
+      } else {
+        body.style.display = "none";
+        collapseBtn.innerHTML = "▸";
+      }
+    });
+
+    card.appendChild(header);
+    card.appendChild(collapseBtn);
+    card.appendChild(body);
+    this.outputContainer.appendChild(card);
+    this.applyTheme();
+  }
+
   /**
    * 删除一张提问-响应卡片（UI + 内存 + 笔记）
    */
@@ -1417,6 +1522,7 @@ export class SummaryView extends BaseView {
         this.startItem(title);
         this.appendContent(getString("summary-saved-note-not-found"));
         this.finishItem();
+        this.appendHistoryCard(item);
         return;
       }
 
@@ -1427,6 +1533,14 @@ export class SummaryView extends BaseView {
       // 不直接渲染 html 到 item-content，改为在下方追加可折叠的“AI 总结”卡片
       this.finishItem();
 
+      // 笔记中有多个模型的总结时提供并排对比
+      try {
+        this.appendComparisonCard(html);
+      } catch (e) {
+        ztoolkit.log("[AI-Butler] 渲染总结对比卡片失败:", e);
+      }
+      this.appendHistoryCard(item);
+
       const aiSummaryText = SummaryView.noteHtmlToPlainText(html);
       // 获取PDF内容以支持后续追问
       try {
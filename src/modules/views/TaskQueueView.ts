@@ -32,7 +32,17 @@
 
 import { BaseView } from "./BaseView";
 import { MainWindow } from "./MainWindow";
-import { TaskQueueManager, TaskItem, TaskStatus, TaskType } from "../taskQueue";
+import {
+  TaskQueueManager,
+  TaskItem,
+  TaskStatus,
+  TaskType,
+  MAX_TASK_PRIORITY_LEVEL,
+  MIN_TASK_PRIORITY_LEVEL,
+  compareQueuedTasks,
+  getTaskPriorityLevel,
+  isQueuedTaskStatus,
+} from "../taskQueue";
 import { TaskArtifacts } from "../taskArtifacts";
 import { createCard } from "./ui/components";
 import { getString } from "../../utils/locale";
@@ -74,6 +84,9 @@ export class TaskQueueView extends BaseView {
   /** 详情按钮的流式订阅取消函数 - 防止重复订阅 */
   private detailStreamUnsubscribe?: () => void;
 
+  /** 正在拖拽排序的任务 ID */
+  private draggedTaskId: string | null = null;
+
   /**
    * 构造函数
    */
@@ -208,6 +221,12 @@ export class TaskQueueView extends BaseView {
           "0",
           "#9e9e9e",
         ),
+        this.createStatCard(
+          "paused",
+          getString("task-queue-status-paused"),
+          "0",
+          "#795548",
+        ),
         this.createStatCard(
           "completed",
           getString("task-queue-status-completed"),
@@ -293,6 +312,10 @@ export class TaskQueueView extends BaseView {
         label: getString("task-queue-status-pending"),
         value: TaskStatus.PENDING,
       },
+      {
+        label: getString("task-queue-status-paused"),
+        value: TaskStatus.PAUSED,
+      },
       {
         label: getString("task-queue-status-failed"),
         value: TaskStatus.FAILED,
@@ -402,6 +425,10 @@ export class TaskQueueView extends BaseView {
         label: getString("task-queue-type-mindmap"),
         value: "mindmap" as TaskType,
       },
+      {
+        label: getString("task-queue-type-figure-explain"),
+        value: "figureExplain" as TaskType,
+      },
       {
         label: getString("task-queue-type-table-fill"),
         value: "tableFill" as TaskType,
@@ -506,8 +533,9 @@ export class TaskQueueView extends BaseView {
         [TaskStatus.PRIORITY]: 0,
         [TaskStatus.PROCESSING]: 1,
         [TaskStatus.PENDING]: 2,
-        [TaskStatus.FAILED]: 3,
-        [TaskStatus.COMPLETED]: 4,
+        [TaskStatus.PAUSED]: 3,
+        [TaskStatus.FAILED]: 4,
+        [TaskStatus.COMPLETED]: 5,
       };
 
       const orderA = statusOrder[a.status];
@@ -517,6 +545,11 @@ export class TaskQueueView extends BaseView {
         return orderA - orderB;
       }
 
+      // 排队中的任务按实际派发顺序展示，便于拖拽调整
+      if (isQueuedTaskStatus(a.status)) {
+        return compareQueuedTasks(a, b);
+      }
+
       return b.createdAt.getTime() - a.createdAt.getTime();
     });
 
@@ -555,6 +588,8 @@ export class TaskQueueView extends BaseView {
       return getString("task-queue-stage-waiting");
     if (task.status === TaskStatus.PRIORITY)
       return getString("task-queue-stage-priority-waiting");
+    if (task.status === TaskStatus.PAUSED)
+      return getString("task-stage-budget-paused");
     if (task.status === TaskStatus.PROCESSING)
       return getString("task-queue-status-processing");
     if (task.status === TaskStatus.COMPLETED)
@@ -700,6 +735,7 @@ export class TaskQueueView extends BaseView {
       [TaskStatus.COMPLETED]: "#4caf50",
       [TaskStatus.FAILED]: "#f44336",
       [TaskStatus.PRIORITY]: "#ff9800",
+      [TaskStatus.PAUSED]: "#795548",
     };
 
     const statusLabels = {
@@ -708,6 +744,7 @@ export class TaskQueueView extends BaseView {
       [TaskStatus.COMPLETED]: getString("task-queue-status-badge-completed"),
       [TaskStatus.FAILED]: getString("task-queue-status-badge-failed"),
       [TaskStatus.PRIORITY]: getString("task-queue-status-badge-priority"),
+      [TaskStatus.PAUSED]: getString("task-queue-status-badge-paused"),
     };
 
     // 使用 card 标题作为唯一标题，移除重复显示；内容区域留空（后续信息在下方独立元素）
@@ -735,6 +772,11 @@ export class TaskQueueView extends BaseView {
       }
     });
 
+    // 排队中的任务可拖拽到其他排队任务之前，调整派发顺序
+    if (isQueuedTaskStatus(task.status)) {
+      this.attachDragHandlers(taskItem, task);
+    }
+
     // 右侧标签区：上方展示任务类型，下方展示状态/当前阶段。
     const taskHeader = this.createElement("div", {
       styles: {
@@ -750,9 +792,11 @@ export class TaskQueueView extends BaseView {
       },
     });
 
-    // 状态标签：终态显示任务状态；处理中显示当前执行阶段。
+    // 状态标签：终态显示任务状态；处理中或等待时间窗时显示当前阶段。
     const statusText =
-      task.status === TaskStatus.PROCESSING
+      task.status === TaskStatus.PROCESSING ||
+      task.stage === "scheduled" ||
+      task.stage === "dependency-waiting"
         ? this.getTaskStageLabel(task)
         : statusLabels[task.status];
     const taskStatus = this.createElement("span", {
@@ -763,7 +807,8 @@ export class TaskQueueView extends BaseView {
             ? "ai-pill--error"
             : task.status === TaskStatus.PROCESSING
               ? "ai-pill--info"
-              : task.status === TaskStatus.PRIORITY
+              : task.status === TaskStatus.PRIORITY ||
+                  task.status === TaskStatus.PAUSED
                 ? "ai-pill--warn"
                 : ""
       }`,
@@ -838,6 +883,19 @@ export class TaskQueueView extends BaseView {
       });
       taskHeader.appendChild(typeBadge);
     }
+    if (task.taskType === "figureExplain") {
+      const typeBadge = this.createElement("span", {
+        styles: {
+          fontSize: "11px",
+          padding: "2px 8px",
+          borderRadius: "10px",
+          backgroundColor: "#8e24aa",
+          color: "white",
+        },
+        textContent: getString("task-queue-type-figure-explain"),
+      });
+      taskHeader.appendChild(typeBadge);
+    }
     if (task.taskType === "tableFill") {
       const typeBadge = this.createElement("span", {
         styles: {
@@ -1180,6 +1238,70 @@ export class TaskQueueView extends BaseView {
       actions.appendChild(priorityBtn);
     }
 
+    // 等待时间窗的任务可手动立即运行
+    if (
+      task.stage === "scheduled" &&
+      (task.status === TaskStatus.PENDING ||
+        task.status === TaskStatus.PRIORITY)
+    ) {
+      const runNowBtn = this.createElement("button", {
+        styles: {
+          padding: "6px 12px",
+          border: "1px solid #009688",
+          borderRadius: "4px",
+          backgroundColor: "transparent",
+          color: "#009688",
+          cursor: "pointer",
+          fontSize: "12px",
+        },
+        textContent: getString("task-queue-action-run-now"),
+      });
+
+      runNowBtn.addEventListener("click", () => {
+        this.runTaskNow(task.id);
+      });
+
+      actions.appendChild(runNowBtn);
+    }
+
+    // 排队任务的数值优先级
+    if (isQueuedTaskStatus(task.status)) {
+      const levelSelect = this.createElement("select", {
+        styles: {
+          padding: "5px 8px",
+          border: "1px solid var(--ai-border)",
+          borderRadius: "4px",
+          backgroundColor: "transparent",
+          color: "inherit",
+          cursor: "pointer",
+          fontSize: "12px",
+        },
+      });
+      for (
+        let level = MAX_TASK_PRIORITY_LEVEL;
+        level >= MIN_TASK_PRIORITY_LEVEL;
+        level--
+      ) {
+        const option = this.createElement("option", {
+          textContent: getString("task-queue-priority-level-option", {
+            args: { level },
+          }),
+        });
+        option.value = String(level);
+        levelSelect.appendChild(option);
+      }
+      levelSelect.value = String(getTaskPriorityLevel(task));
+      levelSelect.title = getString("task-queue-priority-level-tooltip");
+      levelSelect.addEventListener("click", (event: Event) => {
+        event.stopPropagation();
+      });
+      levelSelect.addEventListener("change", () => {
+        this.setTaskPriorityLevel(task.id, Number(levelSelect.value));
+      });
+
+      actions.appendChild(levelSelect);
+    }
+
     // 组装任务项
     const body = taskItem.querySelector(".ai-card__body") as HTMLElement | null;
     if (body) {
@@ -1236,6 +1358,42 @@ export class TaskQueueView extends BaseView {
     return taskItem;
   }
 
+  private attachDragHandlers(taskItem: HTMLElement, task: TaskItem): void {
+    const idleShadow = taskItem.style.boxShadow;
+    taskItem.draggable = true;
+    taskItem.title = getString("task-queue-drag-tooltip");
+
+    taskItem.addEventListener("dragstart", (event: DragEvent) => {
+      this.draggedTaskId = task.id;
+      event.dataTransfer?.setData("text/plain", task.id);
+      if (event.dataTransfer) {
+        event.dataTransfer.effectAllowed = "move";
+      }
+      taskItem.style.opacity = "0.5";
+    });
+    taskItem.addEventListener("dragend", () => {
+      this.draggedTaskId = null;
+      taskItem.style.opacity = "";
+    });
+    taskItem.addEventListener("dragover", (event: DragEvent) => {
+      if (!this.draggedTaskId || this.draggedTaskId === task.id) return;
+      event.preventDefault();
+      taskItem.style.boxShadow = "inset 0 3px 0 #ff9800";
+    });
+    taskItem.addEventListener("dragleave", () => {
+      taskItem.style.boxShadow = idleShadow;
+    });
+    taskItem.addEventListener("drop", (event: DragEvent) => {
+      event.preventDefault();
+      taskItem.style.boxShadow = idleShadow;
+      const draggedTaskId = this.draggedTaskId;
+      this.draggedTaskId = null;
+      if (draggedTaskId && draggedTaskId !== task.id) {
+        this.moveTask(draggedTaskId, task.id);
+      }
+    });
+  }
+
   private buildTaskErrorCopyText(task: TaskItem): string {
     const unknownValue = getString("common-unknown-value");
     const noneValue = getString("common-none-value");
@@ -1331,6 +1489,7 @@ export class TaskQueueView extends BaseView {
       completed: this.tasks.filter((t) => t.status === TaskStatus.COMPLETED)
         .length,
       failed: this.tasks.filter((t) => t.status === TaskStatus.FAILED).length,
+      paused: this.tasks.filter((t) => t.status === TaskStatus.PAUSED).length,
     };
 
     Object.entries(stats).forEach(([key, value]) => {
@@ -1541,6 +1700,56 @@ export class TaskQueueView extends BaseView {
     }
   }
 
+  /**
+   * 设置任务数值优先级
+   *
+   * @param taskId 任务 ID
+   * @param level 优先级（1-5）
+   */
+  public async setTaskPriorityLevel(
+    taskId: string,
+    level: number,
+  ): Promise<void> {
+    try {
+      if (this.manager) {
+        await this.manager.setTaskPriorityLevel(taskId, level);
+      }
+    } finally {
+      this.syncFromManager();
+    }
+  }
+
+  /**
+   * 拖拽排序：把任务移动到目标任务之前
+   *
+   * @param taskId 被拖拽的任务 ID
+   * @param beforeTaskId 目标任务 ID
+   */
+  public async moveTask(taskId: string, beforeTaskId: string): Promise<void> {
+    try {
+      if (this.manager) {
+        await this.manager.moveTask(taskId, beforeTaskId);
+      }
+    } finally {
+      this.syncFromManager();
+    }
+  }
+
+  /**
+   * 立即运行任务（忽略队列时间窗）
+   *
+   * @param taskId 任务 ID
+   */
+  public async runTaskNow(taskId: string): Promise<void> {
+    try {
+      if (this.manager) {
+        await this.manager.runTaskNow(taskId);
+      }
+    } finally {
+      this.syncFromManager();
+    }
+  }
+
   /**
    * 清除已完成任务
    */
@@ -1708,6 +1917,11 @@ export class TaskQueueView extends BaseView {
   /** 从管理器同步任务到视图 */
   private syncFromManager(): void {
     if (!this.manager) return;
+    if (!this.manager.isStorageLoaded()) {
+      // 首次加载完成前不渲染，避免显示空队列
+      void this.manager.whenStorageLoaded().then(() => this.syncFromManager());
+      return;
+    }
     this.manager.refreshFromStorage();
     this.tasks = this.manager
       .getAllTasks()
@@ -20,6 +20,20 @@ import type { LLMModelInfo, LLMOptions } from "../../llmproviders/types";
 import { ApiKeyManager, type ProviderId } from "../../apiKeyManager";
 import { LLMEndpointManager } from "../../llmEndpointManager";
 import { pickFolder } from "../../folderPicker";
+import { QueueSchedule, SCHEDULABLE_TASK_TYPES } from "../../queueSchedule";
+import { DEFAULT_OCR_COMMAND_ARGS } from "../../pdfOcr";
+import { DEFAULT_PAGE_RENDER_ARGS } from "../../figureExtractor";
+import { SemanticIndexManager } from "../../semanticIndexManager";
+import type { TaskType } from "../../taskQueue";
+
+/** 队列时间窗输入项对应的任务类型标签 */
+const QUEUE_WINDOW_LABEL_KEYS: Partial<Record<TaskType, string>> = {
+  summary: "task-queue-type-summary",
+  deepRead: "task-queue-type-deep-read",
+  imageSummary: "task-queue-type-image-summary",
+  mindmap: "task-queue-type-mindmap",
+  tableFill: "task-queue-type-table-fill",
+};
 
 /**
  * API 设置页面类
@@ -693,6 +707,20 @@ export class ApiSettingsPage {
       ),
     );
 
+    // 输出截断后的自动续写轮数
+    form.appendChild(
+      this.createFormGroup(
+        getString("settings-api-auto-continue-label"),
+        this.createInput(
+          "autoContinueMaxRounds",
+          "number",
+          (getPref("autoContinueMaxRounds") as string) ?? "2",
+          "2",
+        ),
+        getString("settings-api-auto-continue-help"),
+      ),
+    );
+
     // Top P 参数（可选启用）
     const topPContainer = this.createElement("div", {
       styles: { display: "flex", alignItems: "center", gap: "12px" },
@@ -820,6 +848,48 @@ export class ApiSettingsPage {
       ),
     );
 
+    // 队列时间窗：静默时段与按任务类型的运行时段
+    const scheduleConfig = QueueSchedule.getConfig();
+    form.appendChild(
+      this.createFormGroup(
+        getString("settings-api-queue-schedule-enabled-label"),
+        this.createCheckbox("queueScheduleEnabled", scheduleConfig.enabled),
+        getString("settings-api-queue-schedule-enabled-help"),
+      ),
+    );
+    form.appendChild(
+      this.createFormGroup(
+        getString("settings-api-queue-quiet-hours-label"),
+        this.createInput(
+          "queueQuietHours",
+          "text",
+          scheduleConfig.quietHours,
+          getString("settings-api-queue-quiet-hours-placeholder"),
+        ),
+        getString("settings-api-queue-quiet-hours-help"),
+      ),
+    );
+    for (const taskType of SCHEDULABLE_TASK_TYPES) {
+      form.appendChild(
+        this.createFormGroup(
+          getString("settings-api-queue-window-label", {
+            args: {
+              type: getString(QUEUE_WINDOW_LABEL_KEYS[taskType] || taskType),
+            },
+          }),
+          this.createInput(
+            `queueWindow-${taskType}`,
+            "text",
+            scheduleConfig.windows[taskType] || "",
+            getString("settings-api-queue-window-placeholder"),
+          ),
+          taskType === "summary"
+            ? getString("settings-api-queue-window-help")
+            : undefined,
+        ),
+      );
+    }
+
     // === PDF 处理配置分隔线 ===
     const pdfTitle = this.createElement("h3", {
       textContent: getString("settings-api-pdf-section-title"),
@@ -1081,6 +1151,327 @@ export class ApiSettingsPage {
     );
     form.appendChild(sectionMineru);
 
+    // 扫描版 PDF 的 OCR 兜底配置
+    const sectionOcr = this.createElement("div", { id: "pdf-ocr" });
+    Object.assign(sectionOcr.style, {
+      padding: "14px 16px",
+      border: "1px solid rgba(255, 152, 0, 0.35)",
+      borderRadius: "8px",
+      background: "rgba(255, 152, 0, 0.06)",
+      marginBottom: "24px",
+    });
+    const ocrHeader = this.createElement("div", {
+      styles: {
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+        gap: "12px",
+        flexWrap: "wrap",
+        marginBottom: "12px",
+      },
+    });
+    ocrHeader.appendChild(
+      this.createElement("div", {
+        textContent: getString("settings-api-ocr-section-title"),
+        styles: {
+          fontSize: "14px",
+          fontWeight: "700",
+          color: "#e08a00",
+        },
+      }),
+    );
+    ocrHeader.appendChild(
+      this.createElement("div", {
+        textContent: getString("settings-api-ocr-section-subtitle"),
+        styles: {
+          fontSize: "12px",
+          color: "#8a6d3b",
+        },
+      }),
+    );
+    sectionOcr.appendChild(ocrHeader);
+
+    sectionOcr.appendChild(
+      this.createFormGroup(
+        getString("settings-api-ocr-engine-label"),
+        createSelect(
+          "pdfOcrEngine",
+          [
+            { value: "off", label: getString("settings-api-ocr-engine-off") },
+            {
+              value: "command",
+              label: getString("settings-api-ocr-engine-command"),
+            },
+          ],
+          String(getPref("pdfOcrEngine") || "off"),
+          (newVal) => {
+            setPref("pdfOcrEngine", newVal === "command" ? "command" : "off");
+          },
+        ),
+        getString("settings-api-ocr-engine-help"),
+      ),
+    );
+    sectionOcr.appendChild(
+      this.createFormGroup(
+        getString("settings-api-ocr-command-label"),
+        this.createInput(
+          "pdfOcrCommand",
+          "text",
+          String(getPref("pdfOcrCommand") || ""),
+          getString("settings-api-ocr-command-placeholder"),
+        ),
+        getString("settings-api-ocr-command-help"),
+      ),
+    );
+    sectionOcr.appendChild(
+      this.createFormGroup(
+        getString("settings-api-ocr-args-label"),
+        this.createInput(
+          "pdfOcrArgs",
+          "text",
+          String(getPref("pdfOcrArgs") || ""),
+          DEFAULT_OCR_COMMAND_ARGS,
+        ),
+        getString("settings-api-ocr-args-help"),
+      ),
+    );
+    sectionOcr.appendChild(
+      this.createFormGroup(
+        getString("settings-api-ocr-language-label"),
+        this.createInput(
+          "pdfOcrLanguage",
+          "text",
+          String(getPref("pdfOcrLanguage") || "eng"),
+          "eng",
+        ),
+        getString("settings-api-ocr-language-help"),
+      ),
+    );
+    form.appendChild(sectionOcr);
+
+    // 图表解读：图片来源与本地页面渲染
+    const sectionFigures = this.createElement("div", { id: "figure-explain" });
+    Object.assign(sectionFigures.style, {
+      padding: "14px 16px",
+      border: "1px solid rgba(156, 39, 176, 0.3)",
+      borderRadius: "8px",
+      background: "rgba(156, 39, 176, 0.05)",
+      marginBottom: "24px",
+    });
+    const figuresHeader = this.createElement("div", {
+      styles: {
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+        gap: "12px",
+        flexWrap: "wrap",
+        marginBottom: "12px",
+      },
+    });
+    figuresHeader.appendChild(
+      this.createElement("div", {
+        textContent: getString("settings-api-figures-section-title"),
+        styles: {
+          fontSize: "14px",
+          fontWeight: "700",
+          color: "#8e24aa",
+        },
+      }),
+    );
+    figuresHeader.appendChild(
+      this.createElement("div", {
+        textContent: getString("settings-api-figures-section-subtitle"),
+        styles: {
+          fontSize: "12px",
+          color: "#7b5e86",
+        },
+      }),
+    );
+    sectionFigures.appendChild(figuresHeader);
+
+    sectionFigures.appendChild(
+      this.createFormGroup(
+        getString("settings-api-figures-source-label"),
+        createSelect(
+          "figureExplainSource",
+          [
+            {
+              value: "auto",
+              label: getString("settings-api-figures-source-auto"),
+            },
+            {
+              value: "mineru",
+              label: getString("settings-api-figures-source-mineru"),
+            },
+            {
+              value: "pageRender",
+              label: getString("settings-api-figures-source-page-render"),
+            },
+          ],
+          String(getPref("figureExplainSource") || "auto"),
+          (newVal) => {
+            setPref("figureExplainSource", newVal);
+          },
+        ),
+        getString("settings-api-figures-source-help"),
+      ),
+    );
+    sectionFigures.appendChild(
+      this.createFormGroup(
+        getString("settings-api-figures-max-images-label"),
+        this.createInput(
+          "figureExplainMaxImages",
+          "number",
+          String(getPref("figureExplainMaxImages") ?? 20),
+          "20",
+        ),
+        getString("settings-api-figures-max-images-help"),
+      ),
+    );
+    sectionFigures.appendChild(
+      this.createFormGroup(
+        getString("settings-api-figures-render-command-label"),
+        this.createInput(
+          "figurePageRenderCommand",
+          "text",
+          String(getPref("figurePageRenderCommand") || ""),
+          getString("settings-api-figures-render-command-placeholder"),
+        ),
+        getString("settings-api-figures-render-command-help"),
+      ),
+    );
+    sectionFigures.appendChild(
+      this.createFormGroup(
+        getString("settings-api-figures-render-args-label"),
+        this.createInput(
+          "figurePageRenderArgs",
+          "text",
+          String(getPref("figurePageRenderArgs") || ""),
+          DEFAULT_PAGE_RENDER_ARGS,
+        ),
+        getString("settings-api-figures-render-args-help"),
+      ),
+    );
+    sectionFigures.appendChild(
+      this.createFormGroup(
+        getString("settings-api-figures-render-max-pages-label"),
+        this.createInput(
+          "figurePageRenderMaxPages",
+          "number",
+          String(getPref("figurePageRenderMaxPages") ?? 50),
+          "50",
+        ),
+        getString("settings-api-figures-render-max-pages-help"),
+      ),
+    );
+    form.appendChild(sectionFigures);
+
+    // AI 笔记语义索引使用的向量嵌入服务
+    const sectionEmbedding = this.createElement("div", { id: "embedding" });
+    Object.assign(sectionEmbedding.style, {
+      padding: "14px 16px",
+      border: "1px solid rgba(89, 192, 188, 0.35)",
+      borderRadius: "8px",
+      background: "rgba(89, 192, 188, 0.06)",
+      marginBottom: "24px",
+    });
+    const embeddingHeader = this.createElement("div", {
+      styles: {
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+        gap: "12px",
+        flexWrap: "wrap",
+        marginBottom: "12px",
+      },
+    });
+    embeddingHeader.appendChild(
+      this.createElement("div", {
+        textContent: getString("settings-api-embedding-section-title"),
+        styles: {
+          fontSize: "14px",
+          fontWeight: "700",
+          color: "#3a9d99",
+        },
+      }),
+    );
+    embeddingHeader.appendChild(
+      this.createElement("div", {
+        textContent: getString("settings-api-embedding-section-subtitle"),
+        styles: {
+          fontSize: "12px",
+          color: "#4f7f7d",
+        },
+      }),
+    );
+    sectionEmbedding.appendChild(embeddingHeader);
+
+    sectionEmbedding.appendChild(
+      this.createFormGroup(
+        getString("settings-api-embedding-enabled-label"),
+        this.createCheckbox(
+          "semanticIndexEnabled",
+          getPref("semanticIndexEnabled") === true,
+        ),
+        getString("settings-api-embedding-enabled-help"),
+      ),
+    );
+    sectionEmbedding.appendChild(
+      this.createFormGroup(
+        getString("settings-api-embedding-provider-label"),
+        createSelect(
+          "embeddingProvider",
+          [
+            {
+              value: "openai-compat",
+              label: getString("settings-api-embedding-provider-openai-compat"),
+            },
+            {
+              value: "ollama",
+              label: getString("settings-api-embedding-provider-ollama"),
+            },
+          ],
+          String(getPref("embeddingProvider") || "openai-compat"),
+        ),
+        getString("settings-api-embedding-provider-help"),
+      ),
+    );
+    sectionEmbedding.appendChild(
+      this.createFormGroup(
+        getString("settings-api-embedding-url-label"),
+        this.createInput(
+          "embeddingApiUrl",
+          "text",
+          String(getPref("embeddingApiUrl") || ""),
+          "https://api.openai.com/v1/embeddings",
+        ),
+        getString("settings-api-embedding-url-help"),
+      ),
+    );
+    sectionEmbedding.appendChild(
+      this.createFormGroup(
+        getString("settings-api-embedding-key-label"),
+        this.createPasswordInput(
+          "embeddingApiKey",
+          String(getPref("embeddingApiKey") || ""),
+          getString("settings-api-embedding-key-placeholder"),
+        ),
+      ),
+    );
+    sectionEmbedding.appendChild(
+      this.createFormGroup(
+        getString("settings-api-embedding-model-label"),
+        this.createInput(
+          "embeddingModel",
+          "text",
+          String(getPref("embeddingModel") || ""),
+          "text-embedding-3-small",
+        ),
+        getString("settings-api-embedding-model-help"),
+      ),
+    );
+    form.appendChild(sectionEmbedding);
+
     // PDF 大小限制设置
     const sizeLimitContainer = this.createElement("div", {
       styles: { display: "flex", alignItems: "center", gap: "12px" },
@@ -1172,6 +1563,25 @@ export class ApiSettingsPage {
       ),
     );
 
+    // 长文档分块并发数（端点启用分块模式时生效）
+    const concurrencyInput = this.createInput(
+      "longDocumentConcurrency",
+      "number",
+      String(getPref("longDocumentConcurrency") ?? 3),
+      "3",
+    );
+    Object.assign(concurrencyInput.style, {
+      width: "100px",
+      flex: "0 0 100px",
+    });
+    form.appendChild(
+      this.createFormGroup(
+        getString("settings-api-long-document-concurrency-label"),
+        concurrencyInput,
+        getString("settings-api-long-document-concurrency-help"),
+      ),
+    );
+
     this.bindAutoSave(form);
 
     const buttonGroup = this.createElement("div", {
@@ -2582,6 +2992,55 @@ export class ApiSettingsPage {
     }, delayMs);
   }
 
+  /**
+   * 保存队列时间窗；格式有误的输入框标红并保留原配置
+   */
+  private saveQueueSchedule(): void {
+    const field = (id: string) =>
+      this.container.querySelector(`#setting-${id}`) as HTMLInputElement | null;
+    const enabledEl = field("queueScheduleEnabled");
+    if (!enabledEl) return;
+
+    const config = QueueSchedule.getConfig();
+    const inputs: Array<[HTMLInputElement | null, (value: string) => void]> = [
+      [
+        field("queueQuietHours"),
+        (value) => {
+          config.quietHours = value;
+        },
+      ],
+      ...SCHEDULABLE_TASK_TYPES.map(
+        (taskType) =>
+          [
+            field(`queueWindow-${taskType}`),
+            (value: string) => {
+              config.windows[taskType] = value;
+            },
+          ] as [HTMLInputElement | null, (value: string) => void],
+      ),
+    ];
+
+    let valid = true;
+    for (const [input, assign] of inputs) {
+      if (!input) continue;
+      const value = input.value.trim();
+      try {
+        QueueSchedule.parseWindows(value);
+        input.style.borderColor = "#ddd";
+        input.title = "";
+        assign(value);
+      } catch (error: any) {
+        valid = false;
+        input.style.borderColor = "#f44336";
+        input.title = error?.message || String(error);
+      }
+    }
+    if (!valid) return;
+
+    config.enabled = enabledEl.checked;
+    QueueSchedule.setConfig(config);
+  }
+
   /**
    * 保存设置
    */
@@ -2612,6 +3071,10 @@ export class ApiSettingsPage {
 
       setPref("temperature", inputValue("temperature", "0.7"));
       setPref("maxTokens", inputValue("maxTokens", "81920"));
+      setPref(
+        "autoContinueMaxRounds",
+        inputValue("autoContinueMaxRounds", "2"),
+      );
       setPref("topP", inputValue("topP", "1.0"));
       setPref(
         "enableTemperature",
@@ -2631,6 +3094,7 @@ export class ApiSettingsPage {
       setPref("batchSize", inputValue("batchSize", "1"));
       setPref("batchInterval", inputValue("batchInterval", "60"));
       setPref("scanInterval", inputValue("scanInterval", "300"));
+      this.saveQueueSchedule();
       setPref("pdfProcessMode", selectValue("pdfProcessMode", "base64"));
       setPref(
         "mineruSaveMarkdown" as any,
@@ -2652,6 +3116,47 @@ export class ApiSettingsPage {
         "mineruFileNameMode" as any,
         selectValue("mineruFileNameMode", "citationKey-title"),
       );
+      setPref(
+        "pdfOcrEngine",
+        selectValue("pdfOcrEngine", "off") === "command" ? "command" : "off",
+      );
+      setPref("pdfOcrCommand", inputValue("pdfOcrCommand", ""));
+      setPref("pdfOcrArgs", inputValue("pdfOcrArgs", ""));
+      setPref("pdfOcrLanguage", inputValue("pdfOcrLanguage", "eng"));
+      setPref(
+        "figureExplainSource",
+        selectValue("figureExplainSource", "auto"),
+      );
+      setPref(
+        "figureExplainMaxImages",
+        Math.max(1, parseInt(inputValue("figureExplainMaxImages", "20")) || 20),
+      );
+      setPref(
+        "figurePageRenderCommand",
+        inputValue("figurePageRenderCommand", ""),
+      );
+      setPref("figurePageRenderArgs", inputValue("figurePageRenderArgs", ""));
+      setPref(
+        "figurePageRenderMaxPages",
+        Math.max(
+          1,
+          parseInt(inputValue("figurePageRenderMaxPages", "50")) || 50,
+        ),
+      );
+      setPref(
+        "semanticIndexEnabled",
+        checkboxValue("semanticIndexEnabled", false),
+      );
+      setPref(
+        "embeddingProvider",
+        selectValue("embeddingProvider", "openai-compat") === "ollama"
+          ? "ollama"
+          : "openai-compat",
+      );
+      setPref("embeddingApiUrl", inputValue("embeddingApiUrl", ""));
+      setPref("embeddingApiKey", inputValue("embeddingApiKey", ""));
+      setPref("embeddingModel", inputValue("embeddingModel", ""));
+      SemanticIndexManager.getInstance().reload();
 
       setPref(
         "enablePdfSizeLimit" as any,
@@ -2662,6 +3167,10 @@ export class ApiSettingsPage {
         "pdfAttachmentMode" as any,
         selectValue("pdfAttachmentMode", "default"),
       );
+      setPref(
+        "longDocumentConcurrency",
+        Math.max(1, parseInt(inputValue("longDocumentConcurrency", "3")) || 3),
+      );
       setPref(
         "mineruModelVersion",
         selectValue("mineruModelVersion", "vlm") === "pipeline"
@@ -2860,6 +3369,12 @@ export class ApiSettingsPage {
         ollamaModel: ollamaModelEl?.value?.trim() || "",
         temperature: temperatureEl?.value || "0.7",
         maxTokens: maxTokensEl?.value?.trim() || "81920",
+        autoContinueMaxRounds:
+          (
+            this.container.querySelector(
+              "#setting-autoContinueMaxRounds",
+            ) as HTMLInputElement
+          )?.value?.trim() || "2",
         topP: topPEl?.value || "1.0",
         enableTemperature: enableTempEl?.checked ?? false,
         enableMaxTokens: enableMaxEl?.checked ?? false,
@@ -3010,6 +3525,7 @@ export class ApiSettingsPage {
       setPref("ollamaModel", values.ollamaModel);
       setPref("temperature", values.temperature);
       setPref("maxTokens", values.maxTokens);
+      setPref("autoContinueMaxRounds", values.autoContinueMaxRounds);
       setPref("topP", values.topP);
       setPref("enableTemperature", values.enableTemperature as any);
       setPref("enableMaxTokens", values.enableMaxTokens as any);
@@ -3066,6 +3582,15 @@ export class ApiSettingsPage {
           (pdfAttachmentModeEl as any).getValue() || "default",
         );
       }
+      const concurrencyEl = this.container.querySelector(
+        "#setting-longDocumentConcurrency",
+      ) as HTMLInputElement | null;
+      if (concurrencyEl) {
+        setPref(
+          "longDocumentConcurrency",
+          Math.max(1, parseInt(concurrencyEl.value?.trim() || "3") || 3),
+        );
+      }
       const mineruModelVersionEl = this.container.querySelector(
         "#setting-mineruModelVersion",
       ) as HTMLElement | null;
@@ -3513,6 +4038,7 @@ export class ApiSettingsPage {
 
     setPref("temperature", "0.7");
     setPref("maxTokens", "81920");
+    setPref("autoContinueMaxRounds", "2");
     setPref("topP", "1.0");
     setPref("enableTemperature", false as any);
     setPref("enableMaxTokens", false as any);
@@ -3522,6 +4048,9 @@ export class ApiSettingsPage {
     setPref("requestTimeout", "300000");
     setPref("batchSize", "1");
     setPref("batchInterval", "60");
+    setPref("queueScheduleEnabled", false);
+    setPref("queueQuietHours", "");
+    setPref("queueScheduleWindows", "{}");
     setPref("scanInterval", "300");
     setPref("pdfProcessMode", "base64");
     setPref("mineruApiKey" as any, "");
@@ -3531,9 +4060,25 @@ export class ApiSettingsPage {
     setPref("mineruSyncExternal" as any, false);
     setPref("mineruExternalPath" as any, "");
     setPref("mineruFileNameMode" as any, "citationKey-title");
+    setPref("pdfOcrEngine", "off");
+    setPref("pdfOcrCommand", "");
+    setPref("pdfOcrArgs", "");
+    setPref("pdfOcrLanguage", "eng");
+    setPref("figureExplainSource", "auto");
+    setPref("figureExplainMaxImages", 20);
+    setPref("figurePageRenderCommand", "");
+    setPref("figurePageRenderArgs", "");
+    setPref("figurePageRenderMaxPages", 50);
+    setPref("semanticIndexEnabled", false);
+    setPref("embeddingProvider", "openai-compat");
+    setPref("embeddingApiUrl", "https://api.openai.com/v1/embeddings");
+    setPref("embeddingApiKey", "");
+    setPref("embeddingModel", "text-embedding-3-small");
+    SemanticIndexManager.getInstance().reload();
     setPref("enablePdfSizeLimit" as any, false);
     setPref("maxPdfSizeMB" as any, "50");
     setPref("pdfAttachmentMode" as any, "default");
+    setPref("longDocumentConcurrency", 3);
 
     this.render();
 
@@ -3595,11 +4140,15 @@ export class ApiSettingsPage {
     setPref("ollamaModel", "llama3.2");
     setPref("llmEndpoints", "[]");
     setPref("llmRoutingStrategy", "priority");
+    setPref("llmRoutingRules", "{}");
     setPref("llmRoundRobinCursor", "");
+    setPref("llmReplayRecordPath", "");
     setPref("multiModelSummaryEnabled", false);
     setPref("multiModelSummaryEndpointIds", "[]");
+    setPref("multiModelSummaryJudgeEndpointId", "");
     setPref("temperature", "0.7");
     setPref("maxTokens", "81920");
+    setPref("autoContinueMaxRounds", "2");
     setPref("topP", "1.0");
     setPref("reasoningEffort", "default");
     setPref("enableTemperature", false as any);
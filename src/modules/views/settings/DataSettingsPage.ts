@@ -2,18 +2,31 @@
  * 数据管理页面
  */
 
-import { getPref, setPref, clearPref } from "../../../utils/prefs";
+import {
+  getPref,
+  setPref,
+  clearPref,
+  isSecretPref,
+} from "../../../utils/prefs";
 import {
   createFormGroup,
   createStyledButton,
   createNotice,
   createCard,
+  createInput,
+  createCheckbox,
+  createSectionTitle,
 } from "../ui/components";
 import { isDeepReadNote, isRegularSummaryNote } from "../../aiNoteClassifier";
 import type { AiNoteKind } from "../../aiNoteService";
 import { TaskQueueManager } from "../../taskQueue";
+import { ContentCache } from "../../contentCache";
+import { AiNoteHistory } from "../../aiNoteHistory";
+import { SemanticIndex } from "../../semanticIndex";
+import { SemanticIndexManager } from "../../semanticIndexManager";
 import { getDefaultSummaryPrompt } from "../../../utils/prompts";
 import { getString } from "../../../utils/locale";
+import { LLMEndpointManager } from "../../llmEndpointManager";
 
 export class DataSettingsPage {
   private container: HTMLElement;
@@ -82,6 +95,32 @@ export class DataSettingsPage {
 
     section.appendChild(statsBox);
 
+    // 历史任务保留上限
+    const historyLimitInput = createInput(
+      "taskHistoryLimit",
+      "number",
+      String(getPref("taskHistoryLimit") ?? 1000),
+      "1000",
+    );
+    historyLimitInput.min = "0";
+    historyLimitInput.addEventListener("change", () => {
+      const value = Math.max(0, Math.floor(Number(historyLimitInput.value)));
+      if (!Number.isFinite(value)) return;
+      setPref("taskHistoryLimit", value);
+      historyLimitInput.value = String(value);
+    });
+    section.appendChild(
+      createFormGroup(
+        getString("settings-data-history-limit-label"),
+        historyLimitInput,
+        getString("settings-data-history-limit-help"),
+      ),
+    );
+
+    this.renderContentCacheSection(section);
+    this.renderAiNoteHistorySection(section);
+    this.renderSemanticIndexSection(section);
+
     // 操作按钮行
     const row1 = Zotero.getMainWindow().document.createElement("div");
     Object.assign(row1.style, {
@@ -182,6 +221,300 @@ export class DataSettingsPage {
     this.container.appendChild(section);
   }
 
+  /**
+   * 附件内容缓存：开关、容量上限、占用统计与清空
+   */
+  private renderContentCacheSection(section: HTMLElement): void {
+    const doc = Zotero.getMainWindow().document;
+    section.appendChild(
+      createSectionTitle(getString("settings-data-content-cache-title")),
+    );
+
+    const enabledContainer = createCheckbox(
+      "contentCacheEnabled",
+      getPref("contentCacheEnabled") !== false,
+    );
+    const enabledCheckbox = enabledContainer.querySelector(
+      'input[type="checkbox"]',
+    ) as HTMLInputElement | null;
+    enabledCheckbox?.addEventListener("change", () => {
+      setPref("contentCacheEnabled", enabledCheckbox.checked);
+    });
+    section.appendChild(
+      createFormGroup(
+        getString("settings-data-content-cache-enabled"),
+        enabledContainer,
+        getString("settings-data-content-cache-enabled-help"),
+      ),
+    );
+
+    const maxSizeInput = createInput(
+      "contentCacheMaxMB",
+      "number",
+      String(getPref("contentCacheMaxMB") ?? 200),
+      "200",
+    );
+    maxSizeInput.min = "0";
+    maxSizeInput.addEventListener("change", () => {
+      const value = Math.max(0, Math.floor(Number(maxSizeInput.value)));
+      if (!Number.isFinite(value)) return;
+      setPref("contentCacheMaxMB", value);
+      maxSizeInput.value = String(value);
+    });
+    section.appendChild(
+      createFormGroup(
+        getString("settings-data-content-cache-max-label"),
+        maxSizeInput,
+        getString("settings-data-content-cache-max-help"),
+      ),
+    );
+
+    const row = doc.createElement("div");
+    Object.assign(row.style, {
+      display: "flex",
+      alignItems: "center",
+      gap: "12px",
+      marginBottom: "16px",
+    });
+    const usage = doc.createElement("span");
+    Object.assign(usage.style, {
+      fontSize: "13px",
+      color: "var(--ai-text-muted)",
+    });
+    const updateUsage = async () => {
+      const stats = await ContentCache.getStats();
+      usage.textContent = getString("settings-data-content-cache-usage", {
+        args: {
+          count: stats.entries,
+          size: (stats.bytes / 1024 / 1024).toFixed(1),
+        },
+      });
+    };
+    void updateUsage();
+
+    const btnClearCache = createStyledButton(
+      getString("settings-data-content-cache-clear"),
+      "#9e9e9e",
+    );
+    btnClearCache.addEventListener("click", async () => {
+      try {
+        await ContentCache.clear();
+        await updateUsage();
+        new ztoolkit.ProgressWindow(getString("settings-data-progress-title"))
+          .createLine({
+            text: getString("settings-data-content-cache-cleared"),
+            type: "success",
+          })
+          .show();
+      } catch (error: any) {
+        new ztoolkit.ProgressWindow(getString("settings-data-progress-title"))
+          .createLine({
+            text: getString("settings-data-operation-failed", {
+              args: { message: error?.message || String(error) },
+            }),
+            type: "fail",
+          })
+          .show();
+      }
+    });
+    row.appendChild(btnClearCache);
+    row.appendChild(usage);
+    section.appendChild(row);
+  }
+
+  /**
+   * AI 笔记版本历史：开关、保留数量与清空
+   */
+  private renderAiNoteHistorySection(section: HTMLElement): void {
+    const doc = Zotero.getMainWindow().document;
+    section.appendChild(
+      createSectionTitle(getString("settings-data-note-history-title")),
+    );
+
+    const enabledContainer = createCheckbox(
+      "aiNoteHistoryEnabled",
+      getPref("aiNoteHistoryEnabled") !== false,
+    );
+    const enabledCheckbox = enabledContainer.querySelector(
+      'input[type="checkbox"]',
+    ) as HTMLInputElement | null;
+    enabledCheckbox?.addEventListener("change", () => {
+      setPref("aiNoteHistoryEnabled", enabledCheckbox.checked);
+    });
+    section.appendChild(
+      createFormGroup(
+        getString("settings-data-note-history-enabled"),
+        enabledContainer,
+        getString("settings-data-note-history-enabled-help"),
+      ),
+    );
+
+    const limitInput = createInput(
+      "aiNoteHistoryLimit",
+      "number",
+      String(getPref("aiNoteHistoryLimit") ?? 50),
+      "50",
+    );
+    limitInput.min = "1";
+    limitInput.addEventListener("change", () => {
+      const value = Math.max(1, Math.floor(Number(limitInput.value)));
+      if (!Number.isFinite(value)) return;
+      setPref("aiNoteHistoryLimit", value);
+      limitInput.value = String(value);
+    });
+    section.appendChild(
+      createFormGroup(
+        getString("settings-data-note-history-limit-label"),
+        limitInput,
+        getString("settings-data-note-history-limit-help"),
+      ),
+    );
+
+    const row = doc.createElement("div");
+    Object.assign(row.style, {
+      display: "flex",
+      alignItems: "center",
+      gap: "12px",
+      marginBottom: "16px",
+    });
+    const btnClearHistory = createStyledButton(
+      getString("settings-data-note-history-clear"),
+      "#9e9e9e",
+    );
+    btnClearHistory.addEventListener("click", async () => {
+      const ok = Services.prompt.confirm(
+        Zotero.getMainWindow() as any,
+        getString("settings-data-note-history-clear"),
+        getString("settings-data-note-history-clear-confirm"),
+      );
+      if (!ok) return;
+      try {
+        await AiNoteHistory.clear();
+        new ztoolkit.ProgressWindow(getString("settings-data-progress-title"))
+          .createLine({
+            text: getString("settings-data-note-history-cleared"),
+            type: "success",
+          })
+          .show();
+      } catch (error: any) {
+        new ztoolkit.ProgressWindow(getString("settings-data-progress-title"))
+          .createLine({
+            text: getString("settings-data-operation-failed", {
+              args: { message: error?.message || String(error) },
+            }),
+            type: "fail",
+          })
+          .show();
+      }
+    });
+    row.appendChild(btnClearHistory);
+    section.appendChild(row);
+  }
+
+  /**
+   * AI 笔记语义索引：索引统计、全量重建与清空
+   */
+  private renderSemanticIndexSection(section: HTMLElement): void {
+    const doc = Zotero.getMainWindow().document;
+    section.appendChild(
+      createSectionTitle(getString("settings-data-semantic-index-title")),
+    );
+
+    const row = doc.createElement("div");
+    Object.assign(row.style, {
+      display: "flex",
+      alignItems: "center",
+      gap: "12px",
+      marginBottom: "16px",
+    });
+    const usage = doc.createElement("span");
+    Object.assign(usage.style, {
+      fontSize: "13px",
+      color: "var(--ai-text-muted)",
+    });
+    const updateUsage = async () => {
+      const stats = await SemanticIndex.getStats();
+      usage.textContent = getString("settings-data-semantic-index-usage", {
+        args: { notes: stats.notes, passages: stats.passages },
+      });
+    };
+    void updateUsage();
+
+    const showFailure = (error: any) => {
+      new ztoolkit.ProgressWindow(getString("settings-data-progress-title"))
+        .createLine({
+          text: getString("settings-data-operation-failed", {
+            args: { message: error?.message || String(error) },
+          }),
+          type: "fail",
+        })
+        .show();
+    };
+
+    const btnRebuild = createStyledButton(
+      getString("settings-data-semantic-index-rebuild"),
+      "#59c0bc",
+    );
+    btnRebuild.addEventListener("click", async () => {
+      if (!SemanticIndex.isEnabled()) {
+        new ztoolkit.ProgressWindow(getString("settings-data-progress-title"))
+          .createLine({
+            text: getString("semantic-search-disabled"),
+            type: "default",
+          })
+          .show();
+        return;
+      }
+      btnRebuild.disabled = true;
+      try {
+        const result = await SemanticIndex.rebuild((done, total) => {
+          usage.textContent = getString(
+            "settings-data-semantic-index-progress",
+            { args: { done, total } },
+          );
+        });
+        SemanticIndexManager.getInstance().reload();
+        await updateUsage();
+        new ztoolkit.ProgressWindow(getString("settings-data-progress-title"))
+          .createLine({
+            text: getString("settings-data-semantic-index-rebuilt", {
+              args: { indexed: result.indexed, failed: result.failed },
+            }),
+            type: result.failed > 0 ? "default" : "success",
+          })
+          .show();
+      } catch (error: any) {
+        showFailure(error);
+        await updateUsage();
+      } finally {
+        btnRebuild.disabled = false;
+      }
+    });
+
+    const btnClearIndex = createStyledButton(
+      getString("settings-data-semantic-index-clear"),
+      "#9e9e9e",
+    );
+    btnClearIndex.addEventListener("click", async () => {
+      try {
+        await SemanticIndex.clear();
+        await updateUsage();
+        new ztoolkit.ProgressWindow(getString("settings-data-progress-title"))
+          .createLine({
+            text: getString("settings-data-semantic-index-cleared"),
+            type: "success",
+          })
+          .show();
+      } catch (error: any) {
+        showFailure(error);
+      }
+    });
+    row.appendChild(btnRebuild);
+    row.appendChild(btnClearIndex);
+    row.appendChild(usage);
+    section.appendChild(row);
+  }
+
   private getStats() {
     const q = TaskQueueManager.getInstance();
     q.refreshFromStorage();
@@ -199,8 +532,13 @@ export class DataSettingsPage {
       "provider",
       "llmEndpoints",
       "llmRoutingStrategy",
+      "llmRoutingRules",
       "multiModelSummaryEnabled",
       "multiModelSummaryEndpointIds",
+      "multiModelSummaryJudgeEndpointId",
+      "usagePriceTable",
+      "usageBudgets",
+      "usageCurrency",
       "openaiApiKey",
       "openaiApiUrl",
       "openaiApiModel",
@@ -211,6 +549,7 @@ export class DataSettingsPage {
       "enableTemperature",
       "maxTokens",
       "enableMaxTokens",
+      "autoContinueMaxRounds",
       "topP",
       "enableTopP",
       "reasoningEffort",
@@ -222,10 +561,33 @@ export class DataSettingsPage {
       "maxRetries",
       "batchSize",
       "batchInterval",
+      "queueScheduleEnabled",
+      "queueQuietHours",
+      "queueScheduleWindows",
+      "taskHistoryLimit",
       "autoScan",
       "scanInterval",
       "pdfProcessMode",
       "pdfAttachmentMode",
+      "longDocumentConcurrency",
+      "pdfOcrEngine",
+      "pdfOcrCommand",
+      "pdfOcrArgs",
+      "pdfOcrLanguage",
+      "figureExplainSource",
+      "figureExplainMaxImages",
+      "figurePageRenderCommand",
+      "figurePageRenderArgs",
+      "figurePageRenderMaxPages",
+      "contentCacheEnabled",
+      "contentCacheMaxMB",
+      "aiNoteHistoryEnabled",
+      "aiNoteHistoryLimit",
+      "semanticIndexEnabled",
+      "embeddingProvider",
+      "embeddingApiUrl",
+      "embeddingApiKey",
+      "embeddingModel",
       "theme",
       "fontSize",
       "autoScroll",
@@ -235,16 +597,25 @@ export class DataSettingsPage {
       "notePrefix",
       "noteStrategy",
     ];
-    const data: any = {};
-    keys.forEach((k) => {
-      try {
-        data[k] = getPref(k as any);
-      } catch (e) {
-        // 忽略单个首选项读取失败
-        return;
-      }
-    });
-    const json = JSON.stringify(data, null, 2);
+    // API 密钥默认脱敏，勾选后才导出明文
+    const buildJson = (includeSecrets: boolean) => {
+      const data: any = {};
+      keys.forEach((k) => {
+        try {
+          if (k === "llmEndpoints") {
+            data[k] = LLMEndpointManager.exportEndpoints(includeSecrets);
+          } else if (isSecretPref(k)) {
+            data[k] = includeSecrets ? getPref(k as any) : "";
+          } else {
+            data[k] = getPref(k as any);
+          }
+        } catch (e) {
+          // 忽略单个首选项读取失败
+          return;
+        }
+      });
+      return JSON.stringify(data, null, 2);
+    };
 
     // 用对话框展示,方便复制
     const win = Zotero.getMainWindow().document;
@@ -274,13 +645,31 @@ export class DataSettingsPage {
       fontFamily: "Consolas, monospace",
       fontSize: "12px",
     });
-    ta.value = json;
+    ta.value = buildJson(false);
+    const secretsRow = win.createElement("label");
+    Object.assign(secretsRow.style, {
+      display: "flex",
+      alignItems: "center",
+      gap: "8px",
+      margin: "8px 0",
+      fontSize: "13px",
+    });
+    const secretsCheckbox = win.createElement("input");
+    secretsCheckbox.type = "checkbox";
+    secretsCheckbox.addEventListener("change", () => {
+      ta.value = buildJson(secretsCheckbox.checked);
+    });
+    const secretsText = win.createElement("span");
+    secretsText.textContent = getString("settings-data-export-include-secrets");
+    secretsRow.appendChild(secretsCheckbox);
+    secretsRow.appendChild(secretsText);
     const close = createStyledButton(
       getString("settings-data-close"),
       "#9e9e9e",
     );
     close.addEventListener("click", () => overlay.remove());
     modal.appendChild(ta);
+    modal.appendChild(secretsRow);
     modal.appendChild(close);
     overlay.appendChild(modal);
     (win.body ?? win.documentElement)!.appendChild(overlay);
@@ -302,6 +691,12 @@ export class DataSettingsPage {
       const obj = JSON.parse(text.value);
       Object.entries(obj).forEach(([k, v]) => {
         try {
+          if (k === "llmEndpoints") {
+            LLMEndpointManager.importEndpoints(v);
+            return;
+          }
+          // 脱敏导出的空密钥不覆盖本机已有密钥
+          if (isSecretPref(k) && !v) return;
           setPref(k as any, v as any);
         } catch (e) {
           // 忽略无法设置的项，继续处理其他项
@@ -343,6 +738,7 @@ export class DataSettingsPage {
     setPref("openaiApiModel", "gpt-5");
     setPref("temperature", "0.7");
     setPref("maxTokens", "81920");
+    setPref("autoContinueMaxRounds", "2");
     setPref("topP", "1.0");
     setPref("reasoningEffort", "default");
     setPref("enableTemperature", false as any);
@@ -358,12 +754,26 @@ export class DataSettingsPage {
     setPref("maxRetries", "3");
     setPref("batchSize", "1");
     setPref("batchInterval", "60");
+    setPref("queueScheduleEnabled", false);
+    setPref("queueQuietHours", "");
+    setPref("queueScheduleWindows", "{}");
+    setPref("taskHistoryLimit", 1000);
+    setPref("contentCacheEnabled", true);
+    setPref("contentCacheMaxMB", 200);
+    setPref("aiNoteHistoryEnabled", true);
+    setPref("aiNoteHistoryLimit", 50);
+    setPref("semanticIndexEnabled", false);
+    setPref("embeddingProvider", "openai-compat");
+    setPref("embeddingApiUrl", "https://api.openai.com/v1/embeddings");
+    setPref("embeddingApiKey", "");
+    setPref("embeddingModel", "text-embedding-3-small");
+    SemanticIndexManager.getInstance().reload();
     clearPref("customPrompts");
     clearPref("multiRoundPromptTemplates");
     clearPref("multiRoundPromptTemplateId");
 
     // 任务队列本地存储
-    Zotero.Prefs.clear("extensions.zotero.aibutler.taskQueue", true);
+    void TaskQueueManager.getInstance().resetStorage();
 
     new ztoolkit.ProgressWindow(getString("settings-data-progress-title"))
       .createLine({
@@ -15,6 +15,7 @@ import {
   createSectionTitle,
   createNotice,
   createInput,
+  createCheckbox,
 } from "../ui/components";
 import {
   getDefaultMindmapPrompt,
@@ -321,6 +322,29 @@ export class MindmapSettingsPage {
 
     form.appendChild(pathButtonGroup);
 
+    // ==================== 自动生成 ====================
+    form.appendChild(
+      createSectionTitle(getString("settings-mindmap-auto-section")),
+    );
+
+    const autoMindmapContainer = createCheckbox(
+      "autoMindmapOnComplete",
+      (getPref("autoMindmapOnComplete") as boolean) || false,
+    );
+    const autoMindmapCheckbox = autoMindmapContainer.querySelector(
+      'input[type="checkbox"]',
+    ) as HTMLInputElement | null;
+    autoMindmapCheckbox?.addEventListener("change", () => {
+      setPref("autoMindmapOnComplete", autoMindmapCheckbox.checked);
+    });
+    form.appendChild(
+      createFormGroup(
+        getString("settings-mindmap-auto-add"),
+        autoMindmapContainer,
+        getString("settings-mindmap-auto-add-help"),
+      ),
+    );
+
     // ==================== 配置预览 ====================
     const previewDivider = this.createElement("div", {
       styles: {
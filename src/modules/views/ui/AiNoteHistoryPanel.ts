@@ -0,0 +1,255 @@
+/**
+ * AI 笔记版本历史面板
+ *
+ * 侧边栏与 SummaryView 共用：选择两个历史版本并排对比差异，
+ * 并可把右侧版本恢复为当前笔记（恢复前的内容同样会留在历史中）。
+ *
+ * @file AiNoteHistoryPanel.ts
+ * @author AI Butler Team
+ */
+
+import { getString } from "../../../utils/locale";
+import type { AiNoteKind } from "../../aiNoteService";
+import {
+  AiNoteHistory,
+  type AiNoteVersion,
+  type AiNoteVersionReason,
+} from "../../aiNoteHistory";
+import { LLMNoteMetadataService } from "../../llmNoteMetadata";
+import {
+  createHtmlComparisonPanel,
+  type HtmlComparisonColumn,
+} from "./SummaryComparisonPanel";
+
+const REASON_KEYS: Record<AiNoteVersionReason, string> = {
+  generate: "ai-note-history-reason-generate",
+  slot: "ai-note-history-reason-slot",
+  edit: "ai-note-history-reason-edit",
+  delete: "ai-note-history-reason-delete",
+  restore: "ai-note-history-reason-restore",
+  previous: "ai-note-history-reason-previous",
+};
+
+function formatCreatedAt(version: AiNoteVersion): string {
+  const created = new Date(version.createdAt);
+  return Number.isNaN(created.getTime())
+    ? version.createdAt
+    : created.toLocaleString();
+}
+
+function formatVersionLabel(version: AiNoteVersion): string {
+  return [
+    formatCreatedAt(version),
+    getString(REASON_KEYS[version.reason] || REASON_KEYS.generate),
+    version.label || "",
+    version.modelId || version.providerName || "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function formatVersionTooltip(version: AiNoteVersion): string {
+  return [
+    formatVersionLabel(version),
+    version.prompt
+      ? getString("ai-note-history-prompt-tooltip", {
+          args: { prompt: version.prompt },
+        })
+      : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function toComparisonColumn(version: AiNoteVersion): HtmlComparisonColumn {
+  return {
+    title: formatCreatedAt(version),
+    details: [
+      getString(REASON_KEYS[version.reason] || REASON_KEYS.generate),
+      version.label || "",
+      [version.providerName, version.modelId].filter(Boolean).join(" / "),
+    ],
+    tooltip: formatVersionTooltip(version),
+    html: LLMNoteMetadataService.stripSidebarMetadata(version.html),
+  };
+}
+
+function createVersionSelect(
+  doc: Document,
+  label: string,
+  versions: AiNoteVersion[],
+  selectedIndex: number,
+  onChange: (index: number) => void,
+): HTMLElement {
+  const wrapper = doc.createElement("label");
+  wrapper.style.cssText = `
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    min-width: 0;
+    flex: 1 1 160px;
+    font-size: 11px;
+  `;
+  const text = doc.createElement("span");
+  text.textContent = label;
+  text.style.cssText = "flex: 0 0 auto; opacity: 0.75;";
+  wrapper.appendChild(text);
+
+  const select = doc.createElement("select");
+  select.style.cssText = `
+    flex: 1 1 auto;
+    min-width: 0;
+    font-size: 11px;
+    color: inherit;
+  `;
+  versions.forEach((version, index) => {
+    const option = doc.createElement("option");
+    option.value = String(index);
+    option.textContent = formatVersionLabel(version);
+    option.title = formatVersionTooltip(version);
+    select.appendChild(option);
+  });
+  select.value = String(selectedIndex);
+  select.title = formatVersionTooltip(versions[selectedIndex]);
+  select.addEventListener("click", (e: Event) => e.stopPropagation());
+  select.addEventListener("change", () => {
+    const index = Number(select.value);
+    select.title = formatVersionTooltip(versions[index]);
+    onChange(index);
+  });
+  wrapper.appendChild(select);
+  return wrapper;
+}
+
+/**
+ * 创建历史面板；默认对比最近两个版本，较早的一个作为基准
+ *
+ * @param onRestored 恢复成功后回调，供调用方刷新笔记显示
+ */
+export function createAiNoteHistoryPanel(
+  doc: Document,
+  options: {
+    item: Zotero.Item;
+    kind: AiNoteKind;
+    onRestored?: () => void | Promise<void>;
+  },
+): HTMLElement {
+  const panel = doc.createElement("div");
+  panel.className = "ai-butler-note-history";
+  panel.style.cssText = "min-width: 0;";
+  panel.textContent = getString("ai-note-history-loading");
+
+  void AiNoteHistory.list(options.item, options.kind).then((versions) => {
+    panel.textContent = "";
+    if (versions.length === 0) {
+      const empty = doc.createElement("div");
+      empty.textContent = getString("ai-note-history-empty");
+      empty.style.cssText = `
+        padding: 16px;
+        text-align: center;
+        font-size: 12px;
+        opacity: 0.6;
+      `;
+      panel.appendChild(empty);
+      return;
+    }
+
+    let baseIndex = Math.min(1, versions.length - 1);
+    let targetIndex = 0;
+
+    const toolbar = doc.createElement("div");
+    toolbar.style.cssText = `
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 6px;
+      margin-bottom: 8px;
+    `;
+    const comparison = doc.createElement("div");
+    comparison.style.cssText = "min-width: 0;";
+    const status = doc.createElement("span");
+    status.style.cssText = "font-size: 11px; opacity: 0.85;";
+
+    const renderComparison = () => {
+      comparison.textContent = "";
+      const columns =
+        baseIndex === targetIndex
+          ? [versions[targetIndex]]
+          : [versions[baseIndex], versions[targetIndex]];
+      comparison.appendChild(
+        createHtmlComparisonPanel(doc, columns.map(toComparisonColumn)),
+      );
+    };
+
+    toolbar.appendChild(
+      createVersionSelect(
+        doc,
+        getString("ai-note-history-base-label"),
+        versions,
+        baseIndex,
+        (index) => {
+          baseIndex = index;
+          renderComparison();
+        },
+      ),
+    );
+    toolbar.appendChild(
+      createVersionSelect(
+        doc,
+        getString("ai-note-history-target-label"),
+        versions,
+        targetIndex,
+        (index) => {
+          targetIndex = index;
+          renderComparison();
+        },
+      ),
+    );
+
+    const restoreBtn = doc.createElement("button");
+    restoreBtn.type = "button";
+    restoreBtn.textContent = getString("ai-note-history-restore");
+    restoreBtn.title = getString("ai-note-history-restore-tooltip");
+    restoreBtn.style.cssText = `
+      padding: 2px 10px;
+      border: 1px solid currentColor;
+      border-radius: 3px;
+      background: transparent;
+      color: inherit;
+      font-size: 11px;
+      cursor: pointer;
+    `;
+    restoreBtn.addEventListener("click", async (e: Event) => {
+      e.stopPropagation();
+      restoreBtn.disabled = true;
+      status.style.color = "inherit";
+      status.textContent = "";
+      try {
+        await AiNoteHistory.restore(
+          options.item,
+          options.kind,
+          versions[targetIndex].id,
+        );
+        status.style.color = "#4caf50";
+        status.textContent = getString("ai-note-history-restored");
+        await options.onRestored?.();
+      } catch (error: any) {
+        ztoolkit.log("[AI-Butler] 恢复笔记历史版本失败:", error);
+        status.style.color = "#d32f2f";
+        status.textContent = getString("ai-note-history-restore-failed", {
+          args: { message: error?.message || String(error) },
+        });
+      } finally {
+        restoreBtn.disabled = false;
+      }
+    });
+    toolbar.appendChild(restoreBtn);
+    toolbar.appendChild(status);
+
+    panel.appendChild(toolbar);
+    panel.appendChild(comparison);
+    renderComparison();
+  });
+
+  return panel;
+}
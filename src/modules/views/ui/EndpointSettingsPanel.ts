@@ -8,13 +8,30 @@ import {
   type LLMEndpoint,
   type LLMEndpointProviderType,
   type LLMRoutingStrategy,
+  type LLMRoutingTaskKind,
 } from "../../llmEndpointManager";
-import type { LLMModelInfo } from "../../llmproviders/types";
+import type {
+  LLMHttpProviderConfig,
+  LLMModelInfo,
+} from "../../llmproviders/types";
+import {
+  AZURE_DEFAULT_API_VERSIONS,
+  buildAzureOpenAIUrl,
+  normalizeAzureOpenAIConfig,
+  resolveAzureOpenAITarget,
+} from "../../llmproviders/shared/azureOpenAI";
+import {
+  DEFAULT_HTTP_PROVIDER_CONFIG,
+  normalizeHttpProviderConfig,
+} from "../../llmproviders/shared/httpTemplate";
+import { DEFAULT_CONTEXT_LENGTH } from "../../longDocument";
+import { EndpointHealth, type EndpointErrorClass } from "../../endpointHealth";
 import {
   createFormGroup,
   createInput,
   createSelect,
   createStyledButton,
+  createTextarea,
 } from "./components";
 
 type EndpointPanelOptions = {
@@ -87,11 +104,52 @@ function pdfProcessModeOptions(): Array<{ value: string; label: string }> {
   ];
 }
 
+function longDocumentModeOptions(): Array<{ value: string; label: string }> {
+  return [
+    { value: "truncate", label: t("endpoint-long-document-truncate") },
+    { value: "chunk", label: t("endpoint-long-document-chunk") },
+  ];
+}
+
+const ERROR_CLASS_LABEL_KEYS: Record<EndpointErrorClass, FluentMessageId> = {
+  timeout: "endpoint-health-error-timeout",
+  rateLimit: "endpoint-health-error-rate-limit",
+  auth: "endpoint-health-error-auth",
+  server: "endpoint-health-error-server",
+  network: "endpoint-health-error-network",
+  client: "endpoint-health-error-client",
+  other: "endpoint-health-error-other",
+};
+
+function formatLatency(ms: number | null): string {
+  if (ms === null) return "–";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatClockTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+const ROUTING_TASK_LABEL_KEYS: Record<LLMRoutingTaskKind, FluentMessageId> = {
+  summary: "endpoint-task-routing-kind-summary",
+  deepRead: "endpoint-task-routing-kind-deep-read",
+  tableFill: "endpoint-task-routing-kind-table-fill",
+  targetedQuestion: "endpoint-task-routing-kind-targeted-question",
+  review: "endpoint-task-routing-kind-review",
+  mindmap: "endpoint-task-routing-kind-mindmap",
+  figureExplain: "endpoint-task-routing-kind-figure-explain",
+  quickChat: "endpoint-task-routing-kind-quick-chat",
+};
+
 function endpointSupportsReasoningEffort(endpoint: LLMEndpoint): boolean {
   return (
     endpoint.providerType === "openai" ||
     endpoint.providerType === "openai-compat" ||
-    endpoint.providerType === "openrouter"
+    endpoint.providerType === "openrouter" ||
+    endpoint.providerType === "azure-openai"
   );
 }
 
@@ -196,6 +254,7 @@ export class EndpointSettingsPanel {
 
     this.root.appendChild(list);
     this.root.appendChild(this.renderRoutingControls());
+    this.root.appendChild(this.renderTaskRoutingControls());
     this.root.appendChild(this.renderMultiModelControls());
   }
 
@@ -215,6 +274,14 @@ export class EndpointSettingsPanel {
           label: t("endpoint-routing-priority"),
         },
         { value: "roundRobin", label: t("endpoint-routing-round-robin") },
+        {
+          value: "fastestHealthy",
+          label: t("endpoint-routing-fastest-healthy"),
+        },
+        {
+          value: "leastRecentlyFailed",
+          label: t("endpoint-routing-least-recently-failed"),
+        },
       ],
       strategy,
       (value) => {
@@ -253,9 +320,196 @@ export class EndpointSettingsPanel {
       ),
     );
 
+    const recordInput = createInput(
+      "llmReplayRecordPath",
+      "text",
+      String(getPref("llmReplayRecordPath") || ""),
+      t("endpoint-replay-record-placeholder"),
+    );
+    recordInput.addEventListener("change", () => {
+      recordInput.value = recordInput.value.trim();
+      setPref("llmReplayRecordPath", recordInput.value);
+    });
+    panel.appendChild(
+      createFormGroup(
+        t("endpoint-replay-record-label"),
+        recordInput,
+        t("endpoint-replay-record-help"),
+      ),
+    );
+
     return panel;
   }
 
+  /**
+   * 按任务类型配置端点顺序；未配置规则的任务使用全局路由
+   */
+  private renderTaskRoutingControls(): HTMLElement {
+    const document = doc();
+    const box = document.createElement("div");
+    Object.assign(box.style, {
+      marginTop: "18px",
+      padding: "14px",
+      border: "1px solid var(--ai-border)",
+      borderRadius: "8px",
+      background: "var(--ai-surface)",
+      boxSizing: "border-box",
+    });
+
+    const title = document.createElement("div");
+    title.textContent = t("endpoint-task-routing-title");
+    Object.assign(title.style, {
+      color: "var(--ai-text)",
+      fontSize: "15px",
+      fontWeight: "700",
+      marginBottom: "4px",
+    });
+    box.appendChild(title);
+    box.appendChild(smallMuted(t("endpoint-task-routing-help")));
+
+    const rules = LLMEndpointManager.getRoutingRules();
+    const endpointById = new Map(
+      this.endpoints.map((endpoint) => [endpoint.id, endpoint]),
+    );
+    const saveRule = (taskKind: LLMRoutingTaskKind, ids: string[]) => {
+      LLMEndpointManager.setRoutingRule(taskKind, ids);
+      this.options.onChange?.();
+      this.rerender();
+    };
+
+    for (const taskKind of LLMEndpointManager.routingTaskKinds()) {
+      const ids = (rules[taskKind] || []).filter((id) => endpointById.has(id));
+      const row = document.createElement("div");
+      Object.assign(row.style, {
+        display: "flex",
+        alignItems: "center",
+        gap: "10px",
+        marginTop: "10px",
+        flexWrap: "wrap",
+      });
+
+      const label = document.createElement("div");
+      label.textContent = t(ROUTING_TASK_LABEL_KEYS[taskKind]);
+      Object.assign(label.style, {
+        flex: "0 0 150px",
+        color: "var(--ai-text)",
+        fontSize: "13px",
+        fontWeight: "600",
+      });
+      row.appendChild(label);
+
+      const chips = document.createElement("div");
+      Object.assign(chips.style, {
+        display: "flex",
+        alignItems: "center",
+        gap: "6px",
+        flex: "1 1 240px",
+        flexWrap: "wrap",
+        minWidth: "0",
+      });
+      if (ids.length === 0) {
+        const fallback = document.createElement("span");
+        fallback.textContent = t("endpoint-task-routing-global");
+        Object.assign(fallback.style, {
+          color: "var(--ai-text-muted)",
+          fontSize: "12px",
+        });
+        chips.appendChild(fallback);
+      }
+      ids.forEach((id, index) => {
+        const endpoint = endpointById.get(id)!;
+        const chip = document.createElement("span");
+        Object.assign(chip.style, {
+          display: "inline-flex",
+          alignItems: "center",
+          gap: "4px",
+          padding: "2px 4px 2px 8px",
+          borderRadius: "999px",
+          border: "1px solid rgba(89, 192, 188, 0.55)",
+          background: endpoint.enabled
+            ? "rgba(89, 192, 188, 0.08)"
+            : "rgba(128, 128, 128, 0.12)",
+          color: endpoint.enabled ? "var(--ai-text)" : "var(--ai-text-muted)",
+          fontSize: "12px",
+          textDecoration: endpoint.enabled ? "none" : "line-through",
+        });
+        const name = document.createElement("span");
+        name.textContent = `${index + 1}. ${endpoint.name}`;
+        chip.appendChild(name);
+        const chipButton = (text: string, tooltip: string, next: string[]) => {
+          const button = document.createElement("button");
+          button.type = "button";
+          button.textContent = text;
+          button.title = tooltip;
+          Object.assign(button.style, {
+            border: "none",
+            background: "transparent",
+            color: "var(--ai-text-muted)",
+            cursor: "pointer",
+            padding: "0 2px",
+            fontSize: "11px",
+          });
+          button.addEventListener("click", (event) => {
+            event.preventDefault();
+            event.stopPropagation();
+            saveRule(taskKind, next);
+          });
+          chip.appendChild(button);
+        };
+        if (index > 0) {
+          const moved = [...ids];
+          moved.splice(index - 1, 0, moved.splice(index, 1)[0]);
+          chipButton("◀", t("endpoint-task-routing-move-up"), moved);
+        }
+        chipButton(
+          "✕",
+          t("endpoint-task-routing-remove"),
+          ids.filter((other) => other !== id),
+        );
+        chips.appendChild(chip);
+      });
+      row.appendChild(chips);
+
+      const candidates = this.endpoints.filter(
+        (endpoint) => endpoint.enabled && !ids.includes(endpoint.id),
+      );
+      if (candidates.length > 0) {
+        const addSelect = createSelect(
+          `llmRoutingRule-${taskKind}`,
+          [
+            { value: "", label: t("endpoint-task-routing-add") },
+            ...candidates.map((endpoint) => ({
+              value: endpoint.id,
+              label: endpoint.name,
+            })),
+          ],
+          "",
+          (value) => {
+            if (value) saveRule(taskKind, [...ids, value]);
+          },
+        );
+        Object.assign(addSelect.style, {
+          width: "180px",
+          flex: "0 0 180px",
+        });
+        row.appendChild(addSelect);
+      }
+      box.appendChild(row);
+
+      if (ids.length > 0 && !ids.some((id) => endpointById.get(id)?.enabled)) {
+        const warning = document.createElement("div");
+        warning.textContent = t("endpoint-task-routing-disabled-warning");
+        Object.assign(warning.style, {
+          marginTop: "4px",
+          color: "#f57c00",
+          fontSize: "12px",
+        });
+        box.appendChild(warning);
+      }
+    }
+    return box;
+  }
+
   private renderMultiModelControls(): HTMLElement {
     const document = doc();
     const box = document.createElement("div");
@@ -497,6 +751,32 @@ export class EndpointSettingsPanel {
     });
     box.appendChild(endpointList);
 
+    const judgeId = LLMEndpointManager.getMultiModelSummaryJudgeEndpointId();
+    const judgeSelect = createSelect(
+      "multiModelSummaryJudgeEndpointId",
+      [
+        { value: "", label: t("endpoint-multi-summary-judge-none") },
+        ...enabledEndpoints.map((endpoint) => ({
+          value: endpoint.id,
+          label: endpoint.name,
+        })),
+      ],
+      enabledEndpoints.some((endpoint) => endpoint.id === judgeId)
+        ? judgeId
+        : "",
+      (value) => {
+        LLMEndpointManager.setMultiModelSummaryJudgeEndpointId(value);
+        this.options.onChange?.();
+      },
+    );
+    const judgeGroup = createFormGroup(
+      t("endpoint-multi-summary-judge"),
+      judgeSelect,
+      t("endpoint-multi-summary-judge-help"),
+    );
+    judgeGroup.style.marginTop = "14px";
+    box.appendChild(judgeGroup);
+
     if (enabled && selectedCount === 0) {
       const warning = document.createElement("div");
       warning.textContent = t("endpoint-multi-summary-warning");
@@ -619,6 +899,8 @@ export class EndpointSettingsPanel {
     });
     textWrap.appendChild(name);
     textWrap.appendChild(type);
+    const health = this.renderEndpointHealth(endpoint);
+    if (health) textWrap.appendChild(health);
     identity.appendChild(textWrap);
     header.appendChild(identity);
 
@@ -682,6 +964,93 @@ export class EndpointSettingsPanel {
     return card;
   }
 
+  /**
+   * 端点健康摘要：成功率、延迟、最近错误与熔断状态；尚无请求记录时不显示
+   */
+  private renderEndpointHealth(endpoint: LLMEndpoint): HTMLElement | null {
+    const stats = EndpointHealth.getStats(endpoint.id);
+    if (stats.requests === 0 && stats.circuit === "closed") return null;
+
+    const document = doc();
+    const line = document.createElement("div");
+    Object.assign(line.style, {
+      display: "flex",
+      alignItems: "center",
+      gap: "6px",
+      flexWrap: "wrap",
+      marginTop: "4px",
+      color: "var(--ai-text-muted)",
+      fontSize: "12px",
+    });
+
+    if (stats.circuit !== "closed") {
+      const badge = document.createElement("span");
+      badge.textContent =
+        stats.circuit === "open"
+          ? t("endpoint-health-circuit-open", {
+              time: formatClockTime(stats.openUntil || Date.now()),
+            })
+          : t("endpoint-health-circuit-half-open");
+      Object.assign(badge.style, {
+        padding: "1px 8px",
+        borderRadius: "999px",
+        background:
+          stats.circuit === "open"
+            ? "rgba(244, 67, 54, 0.12)"
+            : "rgba(255, 152, 0, 0.14)",
+        color: stats.circuit === "open" ? "#e53935" : "#f57c00",
+      });
+      line.appendChild(badge);
+    }
+
+    if (stats.successRate !== null) {
+      const summary = document.createElement("span");
+      summary.textContent = t("endpoint-health-summary", {
+        rate: Math.round(stats.successRate * 100),
+        p50: formatLatency(stats.p50LatencyMs),
+        p95: formatLatency(stats.p95LatencyMs),
+        count: stats.requests,
+      });
+      summary.style.color =
+        stats.successRate >= 0.9
+          ? "#4caf50"
+          : stats.successRate >= 0.6
+            ? "#f57c00"
+            : "#e53935";
+      line.appendChild(summary);
+    }
+
+    if (stats.lastError) {
+      const lastError = document.createElement("span");
+      lastError.textContent = t("endpoint-health-last-error", {
+        error: t(ERROR_CLASS_LABEL_KEYS[stats.lastError.errorClass]),
+        time: formatClockTime(stats.lastError.at),
+      });
+      lastError.title = stats.lastError.message;
+      line.appendChild(lastError);
+    }
+
+    const reset = document.createElement("button");
+    reset.type = "button";
+    reset.textContent = t("endpoint-health-reset");
+    Object.assign(reset.style, {
+      border: "none",
+      background: "transparent",
+      color: "#59c0bc",
+      cursor: "pointer",
+      padding: "0",
+      fontSize: "12px",
+    });
+    reset.addEventListener("click", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      EndpointHealth.reset(endpoint.id);
+      this.render();
+    });
+    line.appendChild(reset);
+    return line;
+  }
+
   private renderEnableSwitch(endpoint: LLMEndpoint): HTMLElement {
     const document = doc();
     const button = document.createElement("button");
@@ -733,7 +1102,15 @@ export class EndpointSettingsPanel {
     details.appendChild(this.renderApiUrlField(endpoint));
     details.appendChild(this.renderApiKeyField(endpoint));
     details.appendChild(this.renderModelField(endpoint));
+    if (endpoint.providerType === "azure-openai") {
+      details.appendChild(this.renderAzureConfigField(endpoint));
+    }
+    if (endpoint.providerType === "custom-http") {
+      details.appendChild(this.renderHttpConfigFields(endpoint));
+    }
     details.appendChild(this.renderPdfProcessModeField(endpoint));
+    details.appendChild(this.renderLongDocumentField(endpoint));
+    details.appendChild(this.renderRateLimitField(endpoint));
     if (endpointSupportsReasoningEffort(endpoint)) {
       details.appendChild(this.renderReasoningEffortField(endpoint));
     }
@@ -748,8 +1125,12 @@ export class EndpointSettingsPanel {
       marginBottom: "24px",
     });
 
+    const isReplay = endpoint.providerType === "replay";
+    const isAzure = endpoint.providerType === "azure-openai";
     const label = document.createElement("label");
-    label.textContent = t("endpoint-api-url-label");
+    label.textContent = isReplay
+      ? t("endpoint-replay-fixture-label")
+      : t("endpoint-api-url-label");
     Object.assign(label.style, {
       display: "block",
       marginBottom: "8px",
@@ -763,7 +1144,11 @@ export class EndpointSettingsPanel {
       `endpoint-${endpoint.id}-url`,
       "text",
       endpoint.apiUrl,
-      LLMEndpointManager.providerDefaults(endpoint.providerType).apiUrl,
+      isReplay
+        ? t("endpoint-replay-fixture-placeholder")
+        : isAzure
+          ? t("endpoint-azure-api-url-placeholder")
+          : LLMEndpointManager.providerDefaults(endpoint.providerType).apiUrl,
     );
     apiUrlInput.addEventListener("input", () => {
       endpoint.apiUrl = apiUrlInput.value;
@@ -890,11 +1275,14 @@ export class EndpointSettingsPanel {
       gap: "8px",
     });
 
+    const isAzure = endpoint.providerType === "azure-openai";
     const modelInput = createInput(
       `endpoint-${endpoint.id}-model`,
       "text",
       endpoint.model,
-      LLMEndpointManager.providerDefaults(endpoint.providerType).model,
+      isAzure
+        ? t("endpoint-azure-deployment-placeholder")
+        : LLMEndpointManager.providerDefaults(endpoint.providerType).model,
     );
     modelInput.addEventListener("input", () => {
       endpoint.model = modelInput.value;
@@ -927,9 +1315,71 @@ export class EndpointSettingsPanel {
     });
 
     return createFormGroup(
-      t("endpoint-model-label"),
+      isAzure
+        ? t("endpoint-azure-deployment-label")
+        : t("endpoint-model-label"),
       wrapper,
-      fieldDescription(t("endpoint-model-help")),
+      fieldDescription(
+        isAzure
+          ? t("endpoint-azure-deployment-help")
+          : t("endpoint-model-help"),
+      ),
+    );
+  }
+
+  private renderAzureConfigField(endpoint: LLMEndpoint): HTMLElement {
+    const document = doc();
+    const config = normalizeAzureOpenAIConfig(endpoint.azureConfig);
+    endpoint.azureConfig = config;
+
+    const wrapper = document.createElement("div");
+    Object.assign(wrapper.style, {
+      display: "flex",
+      alignItems: "center",
+      gap: "8px",
+      flexWrap: "wrap",
+    });
+
+    const versionInput = createInput(
+      `endpoint-${endpoint.id}-azureApiVersion`,
+      "text",
+      config.apiVersion,
+      AZURE_DEFAULT_API_VERSIONS[config.apiMode],
+    );
+    Object.assign(versionInput.style, {
+      width: "200px",
+      flex: "0 0 200px",
+    });
+    versionInput.title = t("endpoint-azure-api-version-label");
+
+    const select = createSelect(
+      `endpoint-${endpoint.id}-azureApiMode`,
+      [
+        { value: "chat", label: t("endpoint-azure-api-mode-chat") },
+        { value: "responses", label: t("endpoint-azure-api-mode-responses") },
+      ],
+      config.apiMode,
+      (newValue) => {
+        config.apiMode = newValue === "responses" ? "responses" : "chat";
+        versionInput.placeholder = AZURE_DEFAULT_API_VERSIONS[config.apiMode];
+        this.updateEndpointPreview(endpoint);
+        this.persist();
+      },
+    );
+    select.style.flex = "1 1 180px";
+    wrapper.appendChild(select);
+
+    versionInput.addEventListener("input", () => {
+      config.apiVersion = versionInput.value.trim();
+      this.updateEndpointPreview(endpoint);
+      this.persist();
+    });
+    wrapper.appendChild(versionInput);
+
+    return createFormGroup(
+      t("endpoint-azure-api-mode-label"),
+      wrapper,
+      fieldDescription(t("endpoint-azure-api-mode-help")),
     );
   }
 
@@ -1017,6 +1467,213 @@ export class EndpointSettingsPanel {
     );
   }
 
+  private renderLongDocumentField(endpoint: LLMEndpoint): HTMLElement {
+    const document = doc();
+    const value = LLMEndpointManager.normalizeLongDocumentMode(
+      endpoint.longDocumentMode,
+    );
+    endpoint.longDocumentMode = value;
+
+    const wrapper = document.createElement("div");
+    Object.assign(wrapper.style, {
+      display: "flex",
+      alignItems: "center",
+      gap: "8px",
+      flexWrap: "wrap",
+    });
+
+    const select = createSelect(
+      `endpoint-${endpoint.id}-longDocumentMode`,
+      longDocumentModeOptions(),
+      value,
+      (newValue) => {
+        endpoint.longDocumentMode =
+          LLMEndpointManager.normalizeLongDocumentMode(newValue);
+        this.persist();
+      },
+    );
+    select.style.flex = "1 1 180px";
+    wrapper.appendChild(select);
+
+    const contextInput = createInput(
+      `endpoint-${endpoint.id}-contextLength`,
+      "number",
+      endpoint.contextLength ? String(endpoint.contextLength) : "",
+      String(DEFAULT_CONTEXT_LENGTH),
+    );
+    Object.assign(contextInput.style, {
+      width: "140px",
+      flex: "0 0 140px",
+    });
+    contextInput.title = t("endpoint-context-length-label");
+    contextInput.addEventListener("input", () => {
+      endpoint.contextLength = LLMEndpointManager.normalizeContextLength(
+        contextInput.value,
+      );
+      this.persist();
+    });
+    wrapper.appendChild(contextInput);
+    wrapper.appendChild(smallMuted(t("endpoint-context-length-unit")));
+
+    return createFormGroup(
+      t("endpoint-long-document-label"),
+      wrapper,
+      fieldDescription(t("endpoint-long-document-help")),
+    );
+  }
+
+  /**
+   * 声明式 HTTP 端点的请求模板、鉴权头与响应路径配置
+   */
+  private renderHttpConfigFields(endpoint: LLMEndpoint): HTMLElement {
+    const document = doc();
+    const config = normalizeHttpProviderConfig(endpoint.httpConfig);
+    endpoint.httpConfig = config;
+    const container = document.createElement("div");
+
+    const templateInput = createTextarea(
+      `endpoint-${endpoint.id}-httpTemplate`,
+      config.requestTemplate,
+      10,
+    );
+    Object.assign(templateInput.style, {
+      fontSize: "12px",
+    });
+    const templateError = smallMuted("");
+    templateError.style.color = "#f44336";
+    const validateTemplate = () => {
+      try {
+        JSON.parse(templateInput.value);
+        templateError.textContent = "";
+      } catch (error: any) {
+        templateError.textContent = t("endpoint-http-template-invalid", {
+          reason: error?.message || String(error),
+        });
+      }
+    };
+    templateInput.addEventListener("input", () => {
+      config.requestTemplate = templateInput.value;
+      validateTemplate();
+      this.persist();
+    });
+    validateTemplate();
+    const templateWrapper = document.createElement("div");
+    templateWrapper.appendChild(templateInput);
+    templateWrapper.appendChild(templateError);
+    container.appendChild(
+      createFormGroup(
+        t("endpoint-http-template-label"),
+        templateWrapper,
+        fieldDescription(t("endpoint-http-template-help")),
+      ),
+    );
+
+    const row = (
+      fields: Array<{ key: keyof LLMHttpProviderConfig; flex: string }>,
+      labelKey: FluentMessageId,
+      helpKey: FluentMessageId,
+    ) => {
+      const wrapper = document.createElement("div");
+      Object.assign(wrapper.style, {
+        display: "flex",
+        alignItems: "center",
+        gap: "8px",
+        flexWrap: "wrap",
+      });
+      for (const field of fields) {
+        const input = createInput(
+          `endpoint-${endpoint.id}-${field.key}`,
+          "text",
+          config[field.key],
+          DEFAULT_HTTP_PROVIDER_CONFIG[field.key],
+        );
+        input.style.flex = field.flex;
+        input.addEventListener("input", () => {
+          config[field.key] = input.value;
+          this.persist();
+        });
+        wrapper.appendChild(input);
+      }
+      container.appendChild(
+        createFormGroup(t(labelKey), wrapper, fieldDescription(t(helpKey))),
+      );
+    };
+
+    row(
+      [
+        { key: "authHeader", flex: "1 1 140px" },
+        { key: "authValue", flex: "2 1 220px" },
+      ],
+      "endpoint-http-auth-label",
+      "endpoint-http-auth-help",
+    );
+    row(
+      [{ key: "responseTextPath", flex: "1 1 220px" }],
+      "endpoint-http-response-path-label",
+      "endpoint-http-response-path-help",
+    );
+    row(
+      [
+        { key: "streamTextPath", flex: "2 1 220px" },
+        { key: "streamDelimiter", flex: "0 0 100px" },
+      ],
+      "endpoint-http-stream-label",
+      "endpoint-http-stream-help",
+    );
+    row(
+      [{ key: "errorMessagePath", flex: "1 1 220px" }],
+      "endpoint-http-error-path-label",
+      "endpoint-http-error-path-help",
+    );
+    return container;
+  }
+
+  private renderRateLimitField(endpoint: LLMEndpoint): HTMLElement {
+    const document = doc();
+    const wrapper = document.createElement("div");
+    Object.assign(wrapper.style, {
+      display: "flex",
+      alignItems: "center",
+      gap: "8px",
+      flexWrap: "wrap",
+    });
+
+    const fields: Array<{
+      key: "requestsPerMinute" | "tokensPerMinute";
+      unitKey: FluentMessageId;
+    }> = [
+      { key: "requestsPerMinute", unitKey: "endpoint-rate-limit-rpm-unit" },
+      { key: "tokensPerMinute", unitKey: "endpoint-rate-limit-tpm-unit" },
+    ];
+    for (const field of fields) {
+      const input = createInput(
+        `endpoint-${endpoint.id}-${field.key}`,
+        "number",
+        endpoint[field.key] ? String(endpoint[field.key]) : "",
+        t("endpoint-rate-limit-unlimited"),
+      );
+      Object.assign(input.style, {
+        width: "120px",
+        flex: "0 0 120px",
+      });
+      input.title = t(field.unitKey);
+      input.addEventListener("input", () => {
+        endpoint[field.key] = LLMEndpointManager.normalizeRateLimit(
+          input.value,
+        );
+        this.persist();
+      });
+      wrapper.appendChild(input);
+      wrapper.appendChild(smallMuted(t(field.unitKey)));
+    }
+
+    return createFormGroup(
+      t("endpoint-rate-limit-label"),
+      wrapper,
+      fieldDescription(t("endpoint-rate-limit-help")),
+    );
+  }
+
   private renderReasoningEffortField(endpoint: LLMEndpoint): HTMLElement {
     const defaults = LLMEndpointManager.providerDefaults(endpoint.providerType);
     const value = normalizeReasoningEffortSetting(
@@ -1164,6 +1821,13 @@ export class EndpointSettingsPanel {
       item.addEventListener("click", () => {
         endpoint.model = model.id;
         modelInput.value = model.id;
+        if (model.contextLength) {
+          endpoint.contextLength = model.contextLength;
+          const contextInput = modelInput.ownerDocument?.getElementById(
+            `endpoint-${endpoint.id}-contextLength`,
+          ) as HTMLInputElement | null;
+          if (contextInput) contextInput.value = String(model.contextLength);
+        }
         this.updateEndpointPreview(endpoint);
         this.persist();
         container.style.display = "none";
@@ -1419,6 +2083,21 @@ export class EndpointSettingsPanel {
     if (endpoint.providerType === "openai") {
       return this.toResponsesEndpoint(rawUrl, "/v1");
     }
+    if (endpoint.providerType === "azure-openai") {
+      return buildAzureOpenAIUrl(
+        resolveAzureOpenAITarget({
+          apiUrl: rawUrl,
+          model,
+          azure: endpoint.azureConfig,
+        }),
+      );
+    }
+    if (
+      endpoint.providerType === "replay" ||
+      endpoint.providerType === "custom-http"
+    ) {
+      return rawUrl;
+    }
     if (
       endpoint.providerType === "openai-compat" ||
       endpoint.providerType === "openrouter"
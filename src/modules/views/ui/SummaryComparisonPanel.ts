@@ -0,0 +1,203 @@
+/**
+ * 总结区块并排对比面板
+ *
+ * 侧边栏与 SummaryView 共用：每个区块一列，按标题对齐成行，
+ * 第一列为基准，其余列以底色标出新增内容、删除线标出缺少的内容。
+ *
+ * @file SummaryComparisonPanel.ts
+ * @author AI Butler Team
+ */
+
+import { getString } from "../../../utils/locale";
+import {
+  LLMNoteMetadataService,
+  type ParsedLLMNoteSummaryBlock,
+} from "../../llmNoteMetadata";
+import {
+  buildSummaryComparison,
+  type SummaryComparisonCell,
+} from "../../summaryComparison";
+
+const COLUMN_MIN_WIDTH = 220;
+
+/** 对比面板中的一列 */
+export interface HtmlComparisonColumn {
+  title: string;
+  /** 标题下方的说明行，如提供商、生成时间与用量 */
+  details: string[];
+  tooltip?: string;
+  html: string;
+}
+
+function createColumnHeader(
+  doc: Document,
+  column: HtmlComparisonColumn,
+  index: number,
+): HTMLElement {
+  const header = doc.createElement("div");
+  if (column.tooltip) header.title = column.tooltip;
+  header.style.cssText = `
+    position: sticky;
+    top: 0;
+    padding: 6px 8px;
+    border-bottom: 2px solid ${index === 0 ? "#59c0bc" : "rgba(128, 128, 128, 0.3)"};
+    background: var(--material-background, rgba(250, 250, 250, 0.96));
+    font-size: 11px;
+    line-height: 1.4;
+    min-width: 0;
+  `;
+
+  const title = doc.createElement("div");
+  title.textContent = column.title;
+  title.style.cssText = `
+    font-weight: 700;
+    font-size: 12px;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  `;
+  header.appendChild(title);
+
+  const details = [
+    index === 0 ? getString("summary-compare-base-column") : "",
+    ...column.details,
+  ].filter(Boolean);
+  for (const text of details) {
+    const line = doc.createElement("div");
+    line.textContent = text;
+    line.style.cssText = "opacity: 0.72;";
+    header.appendChild(line);
+  }
+  return header;
+}
+
+function toComparisonColumn(
+  block: ParsedLLMNoteSummaryBlock,
+): HtmlComparisonColumn {
+  const metadata = block.metadata;
+  return {
+    title: metadata
+      ? metadata.modelId || metadata.providerName
+      : getString("llm-metadata-not-recorded"),
+    details: [
+      metadata?.sourceBlockIds?.length
+        ? getString("llm-metadata-tooltip-consensus", {
+            args: { count: metadata.sourceBlockIds.length },
+          })
+        : metadata?.providerName || "",
+      metadata ? LLMNoteMetadataService.formatGeneratedTime(metadata) : "",
+      LLMNoteMetadataService.formatUsage(metadata),
+    ],
+    tooltip: LLMNoteMetadataService.formatSummaryBlockTooltip(block),
+    html: LLMNoteMetadataService.stripSidebarMetadata(block.content),
+  };
+}
+
+function createCell(
+  doc: Document,
+  cell: SummaryComparisonCell | null,
+): HTMLElement {
+  const el = doc.createElement("div");
+  el.style.cssText = `
+    padding: 6px 8px;
+    font-size: 12px;
+    line-height: 1.55;
+    white-space: pre-wrap;
+    overflow-wrap: anywhere;
+    min-width: 0;
+  `;
+  if (!cell) {
+    el.textContent = getString("summary-compare-missing-section");
+    el.style.opacity = "0.5";
+    el.style.fontStyle = "italic";
+    return el;
+  }
+  if (!cell.diff) {
+    el.textContent = cell.text;
+    return el;
+  }
+  for (const token of cell.diff) {
+    if (token.type === "equal") {
+      el.appendChild(doc.createTextNode(token.text));
+      continue;
+    }
+    const span = doc.createElement("span");
+    span.textContent = token.text;
+    span.style.cssText =
+      token.type === "insert"
+        ? "background: rgba(76, 175, 80, 0.22); border-radius: 2px;"
+        : "background: rgba(244, 67, 54, 0.14); color: #c62828; text-decoration: line-through; border-radius: 2px;";
+    el.appendChild(span);
+  }
+  return el;
+}
+
+/**
+ * 创建对比面板；blocks 至少两个，第一个作为差异基准
+ */
+export function createSummaryComparisonPanel(
+  doc: Document,
+  blocks: ParsedLLMNoteSummaryBlock[],
+): HTMLElement {
+  return createHtmlComparisonPanel(doc, blocks.map(toComparisonColumn));
+}
+
+/**
+ * 按列对比任意 HTML 内容，第一列作为差异基准；笔记版本历史也用它对比两个版本
+ */
+export function createHtmlComparisonPanel(
+  doc: Document,
+  columns: HtmlComparisonColumn[],
+): HTMLElement {
+  const panel = doc.createElement("div");
+  panel.className = "ai-butler-summary-comparison";
+  panel.style.cssText = "min-width: 0;";
+
+  const legend = doc.createElement("div");
+  legend.textContent = getString("summary-compare-legend");
+  legend.style.cssText = `
+    margin: 0 0 6px;
+    font-size: 11px;
+    opacity: 0.7;
+  `;
+  panel.appendChild(legend);
+
+  const scroller = doc.createElement("div");
+  scroller.style.cssText = "overflow-x: auto; min-width: 0;";
+  const grid = doc.createElement("div");
+  grid.style.cssText = `
+    display: grid;
+    grid-template-columns: repeat(${columns.length}, minmax(${COLUMN_MIN_WIDTH}px, 1fr));
+    column-gap: 8px;
+    min-width: ${columns.length * COLUMN_MIN_WIDTH}px;
+  `;
+
+  columns.forEach((column, index) => {
+    grid.appendChild(createColumnHeader(doc, column, index));
+  });
+
+  const rows = buildSummaryComparison(columns.map((column) => column.html));
+  for (const row of rows) {
+    if (row.heading) {
+      const heading = doc.createElement("div");
+      heading.textContent = row.heading;
+      heading.style.cssText = `
+        grid-column: 1 / -1;
+        margin-top: 10px;
+        padding: 4px 8px;
+        border-left: 3px solid #59c0bc;
+        background: rgba(89, 192, 188, 0.1);
+        font-size: 12px;
+        font-weight: 700;
+      `;
+      grid.appendChild(heading);
+    }
+    for (const cell of row.cells) {
+      grid.appendChild(createCell(doc, cell));
+    }
+  }
+
+  scroller.appendChild(grid);
+  panel.appendChild(scroller);
+  return panel;
+}
@@ -9,6 +9,7 @@
  * 1. 提供类型安全的配置项访问接口
  * 2. 自动处理配置键的命名空间前缀
  * 3. 简化配置的读取、设置和清除操作
+ * 4. API 密钥类配置项透明地转存到登录管理器,偏好中只保留引用
  *
  * 技术特点:
  * - 使用 TypeScript 泛型确保类型安全
@@ -32,6 +33,7 @@
  */
 
 import { config } from "../../package.json";
+import { SecretStore, isSecretRef } from "./secretStore";
 
 /**
  * 插件偏好设置映射类型
@@ -46,6 +48,37 @@ type PluginPrefsMap = _ZoteroTypes.Prefs["PluginPrefsMap"];
  */
 const PREFS_PREFIX = config.prefsPrefix;
 
+/**
+ * 保存 API 密钥的配置项
+ * 读写这些键时经由 SecretStore,偏好中只保存 `secret:pref.<键名>` 引用
+ */
+export const SECRET_PREF_KEYS: readonly string[] = [
+  "openaiApiKey",
+  "openaiCompatApiKey",
+  "geminiApiKey",
+  "anthropicApiKey",
+  "openRouterApiKey",
+  "volcanoArkApiKey",
+  "ollamaApiKey",
+  "openaiApiKeysFallback",
+  "openaiCompatApiKeysFallback",
+  "geminiApiKeysFallback",
+  "anthropicApiKeysFallback",
+  "openRouterApiKeysFallback",
+  "volcanoArkApiKeysFallback",
+  "ollamaApiKeysFallback",
+  "mineruApiKey",
+  "embeddingApiKey",
+  "imageSummaryApiKey",
+];
+
+/**
+ * 判断配置项是否保存 API 密钥
+ */
+export function isSecretPref(key: string): boolean {
+  return SECRET_PREF_KEYS.includes(key);
+}
+
 /**
  * 获取偏好设置值
  *
@@ -73,7 +106,10 @@ const PREFS_PREFIX = config.prefsPrefix;
  * ```
  */
 export function getPref<K extends keyof PluginPrefsMap>(key: K) {
-  return Zotero.Prefs.get(`${PREFS_PREFIX}.${key}`, true) as PluginPrefsMap[K];
+  const value = Zotero.Prefs.get(`${PREFS_PREFIX}.${key}`, true);
+  return (
+    isSecretRef(value) ? SecretStore.resolve(value) : value
+  ) as PluginPrefsMap[K];
 }
 
 /**
@@ -110,9 +146,41 @@ export function setPref<K extends keyof PluginPrefsMap>(
   key: K,
   value: PluginPrefsMap[K],
 ) {
+  if (isSecretPref(key as string) && typeof value === "string") {
+    const name = `pref.${key as string}`;
+    let stored: string = value;
+    if (value.trim() === "[]") {
+      // 空的备用密钥列表无需转存
+      SecretStore.remove(name);
+    } else {
+      stored = SecretStore.store(name, value);
+    }
+    return Zotero.Prefs.set(`${PREFS_PREFIX}.${key}`, stored, true);
+  }
   return Zotero.Prefs.set(`${PREFS_PREFIX}.${key}`, value, true);
 }
 
+/**
+ * 把仍以明文保存的密钥类配置项迁移到登录管理器
+ *
+ * @returns 迁移的配置项数量
+ */
+export function migrateSecretPrefs(): number {
+  let migrated = 0;
+  for (const key of SECRET_PREF_KEYS) {
+    const raw = Zotero.Prefs.get(`${PREFS_PREFIX}.${key}`, true);
+    if (typeof raw !== "string" || !raw.trim() || raw.trim() === "[]") {
+      continue;
+    }
+    if (isSecretRef(raw)) continue;
+    setPref(key as any, raw as any);
+    if (isSecretRef(Zotero.Prefs.get(`${PREFS_PREFIX}.${key}`, true))) {
+      migrated++;
+    }
+  }
+  return migrated;
+}
+
 /**
  * 清除偏好设置值
  *
@@ -140,5 +208,6 @@ export function setPref<K extends keyof PluginPrefsMap>(
  * ```
  */
 export function clearPref(key: string) {
+  if (isSecretPref(key)) SecretStore.remove(`pref.${key}`);
   return Zotero.Prefs.clear(`${PREFS_PREFIX}.${key}`, true);
 }
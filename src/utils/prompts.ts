@@ -1,5 +1,6 @@
 import deepReadPromptDefaults from "../defaults/prompts/deep-read.json";
 import { getString } from "./locale";
+import type { LLMResponseSchema } from "../modules/llmproviders/types";
 
 /**
  * ================================================================
@@ -140,6 +141,33 @@ export function buildUserMessage(prompt: string, text: string): string {
   return `${prompt}\n\n${getDefaultAnswerLanguageInstruction()}\n\n<Paper>\n${text}\n</Paper>`;
 }
 
+/**
+ * 用 <Paper> 标签包裹论文正文
+ */
+export function buildPaperBlock(text: string): string {
+  return `<Paper>\n${text}\n</Paper>`;
+}
+
+/**
+ * 构建论文在前的用户消息片段
+ *
+ * 与 buildUserMessage 内容相同，但论文块放在提示词之前：
+ * 多轮精读各轮提示词不同而论文相同，论文在前才能让供应商的前缀缓存命中。
+ *
+ * @param prompt 本轮提示词
+ * @param text 论文全文内容
+ * @returns 论文块与其后的指令，两者以空行拼接即为完整消息
+ */
+export function buildPaperFirstUserParts(
+  prompt: string,
+  text: string,
+): { paper: string; instruction: string } {
+  return {
+    paper: buildPaperBlock(text),
+    instruction: `${getDefaultAnswerLanguageInstruction()}\n\n${prompt}`,
+  };
+}
+
 /**
  * 获取默认的总结提示词
  *
@@ -164,6 +192,184 @@ export function getDefaultSummaryPrompt(): string {
     : DEFAULT_SUMMARY_PROMPT;
 }
 
+/**
+ * 长文档分块总结（map 阶段）提示词
+ *
+ * 分块模式下每一块先按此提示词生成分块笔记，最后再用用户的总结提示词合并。
+ */
+export const DEFAULT_CHUNK_MAP_PROMPT = `下面是一篇长文档的第 {index}/{total} 部分{title}。请详细整理这一部分的内容：保留关键论点、方法细节、实验设置、数据与结论，以及重要的公式和术语。只输出整理后的笔记，不要寒暄，也不要对未提供的其他部分做推测。`;
+
+export const DEFAULT_CHUNK_MAP_PROMPT_EN = `Below is part {index}/{total} of a long document{title}. Write detailed notes on this part: keep the key arguments, method details, experimental setup, data and conclusions, as well as important formulas and terms. Only output the notes; do not include greetings or speculate about parts that are not provided.`;
+
+export const DEFAULT_CHUNK_REDUCE_PREAMBLE = `以下内容不是原文，而是一篇长文档按顺序分为 {total} 个部分后逐段整理的笔记。请把它们当作完整文档来完成下面的任务。`;
+
+export const DEFAULT_CHUNK_REDUCE_PREAMBLE_EN = `The content below is not the original text but notes taken section by section after splitting a long document into {total} parts in order. Treat them as the full document when completing the task below.`;
+
+export function buildChunkMapPrompt(
+  index: number,
+  total: number,
+  title: string,
+): string {
+  const english = shouldUseEnglishDefaultPrompts();
+  const template = english
+    ? DEFAULT_CHUNK_MAP_PROMPT_EN
+    : DEFAULT_CHUNK_MAP_PROMPT;
+  const titleText = title ? (english ? ` (${title})` : `（${title}）`) : "";
+  return template
+    .replace("{index}", String(index))
+    .replace("{total}", String(total))
+    .replace("{title}", titleText);
+}
+
+export function buildChunkReducePrompt(prompt: string, total: number): string {
+  const preamble = shouldUseEnglishDefaultPrompts()
+    ? DEFAULT_CHUNK_REDUCE_PREAMBLE_EN
+    : DEFAULT_CHUNK_REDUCE_PREAMBLE;
+  return `${preamble.replace("{total}", String(total))}\n\n${prompt}`;
+}
+
+/**
+ * 多模型总结的共识合并提示词
+ *
+ * 裁判模型读取各模型的总结（不含论文原文），合并为一份总结并标出分歧与单一来源的论断。
+ */
+export const DEFAULT_CONSENSUS_MERGE_PROMPT = `以下内容不是论文原文，而是 {total} 个模型分别为同一篇论文撰写的总结，每份总结用 <Summary source="来源"> 标签标明来源。请把它们合并为一份完整、不重复的总结，结构参照原有总结。合并时：
+- 多个模型一致的内容直接写入；
+- 模型之间说法相互矛盾时，以“⚠️ 分歧：”开头单独成段，列出各来源的说法；
+- 只有一个模型提出的论断，在该句末尾标注“（仅 来源）”，例如“（仅 GPT-4o）”。
+只输出合并后的总结，不要寒暄，也不要加入各总结中没有的信息。`;
+
+export const DEFAULT_CONSENSUS_MERGE_PROMPT_EN = `The content below is not the original paper but {total} summaries of the same paper written by different models. Each summary is wrapped in a <Summary source="name"> tag naming its source. Merge them into one complete, non-repetitive summary that follows the structure of the originals. While merging:
+- Write points that several models agree on directly.
+- Where models contradict each other, add a separate paragraph starting with "⚠️ Disagreement:" that lists what each source says.
+- For claims made by only one model, append "(only <source>)" to the sentence, e.g. "(only GPT-4o)".
+Only output the merged summary; do not include greetings or add information that is not in the summaries.`;
+
+export function buildConsensusMergePrompt(total: number): string {
+  const template = shouldUseEnglishDefaultPrompts()
+    ? DEFAULT_CONSENSUS_MERGE_PROMPT_EN
+    : DEFAULT_CONSENSUS_MERGE_PROMPT;
+  return template.replace("{total}", String(total));
+}
+
+/**
+ * 逐图解读提示词
+ *
+ * 单张图表随图题发送；整页渲染图由模型自行找出页面中的图表，没有图表时只回复 NO_FIGURES_MARKER。
+ */
+export const NO_FIGURES_MARKER = "NO_FIGURES";
+
+export const DEFAULT_FIGURE_EXPLAIN_PROMPT = `下图是论文《{title}》中的一个{kind}{caption}。请解读这个{kind}：
+- 它展示了什么：坐标轴、变量、各组成部分，或表格行列的含义；
+- 关键结果或趋势，尽量引用图中的具体数值；
+- 它在论文论证中的作用，支持了哪个结论。
+直接输出解读，不要重复图题，也不要寒暄。`;
+
+export const DEFAULT_FIGURE_EXPLAIN_PROMPT_EN = `The image below is a {kind} from the paper "{title}"{caption}. Explain this {kind}:
+- What it shows: axes, variables, components, or what the rows and columns of the table mean.
+- The key results or trends, quoting concrete values from the image where possible.
+- Its role in the paper's argument and which conclusion it supports.
+Output the explanation directly; do not repeat the caption or include greetings.`;
+
+export const DEFAULT_FIGURE_PAGE_PROMPT = `下图是论文《{title}》第 {page} 页的页面截图。请找出本页中的所有图和表，逐个解读：每个图表以“### 编号与图题”作为小标题，然后说明它展示了什么、关键结果或趋势（尽量引用具体数值），以及它在论文论证中的作用。正文、公式和页眉页脚不需要解读。如果本页没有任何图或表，只回复 ${NO_FIGURES_MARKER}。`;
+
+export const DEFAULT_FIGURE_PAGE_PROMPT_EN = `The image below is a screenshot of page {page} of the paper "{title}". Find every figure and table on this page and explain each one: start each with a "### Number and caption" heading, then describe what it shows, the key results or trends (quoting concrete values where possible), and its role in the paper's argument. Do not explain body text, equations, headers or footers. If the page contains no figure or table, reply with ${NO_FIGURES_MARKER} only.`;
+
+export function buildFigureExplainPrompt(
+  title: string,
+  kind: "figure" | "table",
+  caption: string,
+): string {
+  const english = shouldUseEnglishDefaultPrompts();
+  const template = english
+    ? DEFAULT_FIGURE_EXPLAIN_PROMPT_EN
+    : DEFAULT_FIGURE_EXPLAIN_PROMPT;
+  const kindText = english ? kind : kind === "table" ? "表格" : "图";
+  const captionText = caption
+    ? english
+      ? `, captioned "${caption}"`
+      : `，图题为“${caption}”`
+    : "";
+  return template
+    .replace("{title}", title)
+    .replace(/\{kind\}/g, kindText)
+    .replace("{caption}", captionText);
+}
+
+export function buildFigurePagePrompt(title: string, page: number): string {
+  const template = shouldUseEnglishDefaultPrompts()
+    ? DEFAULT_FIGURE_PAGE_PROMPT_EN
+    : DEFAULT_FIGURE_PAGE_PROMPT;
+  return template.replace("{title}", title).replace("{page}", String(page));
+}
+
+export const DEFAULT_LIBRARY_CHAT_PROMPT = `请仅根据下方 <RelatedPapers> 中提供的文献内容回答问题。每个来自文献的论断后都用方括号标注对应文献的 index，例如 [1] 或 [2, 3]；不要编造未提供的文献或编号。如果这些文献不足以回答问题，请明确说明缺少哪些信息。`;
+
+export const DEFAULT_LIBRARY_CHAT_PROMPT_EN = `Answer the question using only the papers provided in <RelatedPapers> below. After every claim taken from a paper, cite its index in square brackets, e.g. [1] or [2, 3]; never invent papers or indices that were not provided. If these papers are not enough to answer the question, say clearly what information is missing.`;
+
+export function getLibraryChatPrompt(): string {
+  return shouldUseEnglishDefaultPrompts()
+    ? DEFAULT_LIBRARY_CHAT_PROMPT_EN
+    : DEFAULT_LIBRARY_CHAT_PROMPT;
+}
+
+export const DEFAULT_STRUCTURED_OUTPUT_INSTRUCTION = `输出格式要求（优先于上文中任何关于输出格式的说明）：只输出一个符合下列 JSON Schema 的 JSON 值，不要使用代码块，不要添加任何解释文字。字段内容仍按上文要求的语言和要点填写。
+
+JSON Schema：
+{schema}`;
+
+export const DEFAULT_STRUCTURED_OUTPUT_INSTRUCTION_EN = `Output format (this overrides any output format described above): reply with a single JSON value that matches the JSON Schema below, without code fences or any explanatory text. Fill the fields following the language and content requirements above.
+
+JSON Schema:
+{schema}`;
+
+export const DEFAULT_STRUCTURED_OUTPUT_REPAIR_PROMPT = `上一条回复不符合要求的 JSON Schema，存在以下问题：
+{errors}
+
+请修正这些问题，重新输出完整的 JSON，不要添加任何其他内容。`;
+
+export const DEFAULT_STRUCTURED_OUTPUT_REPAIR_PROMPT_EN = `The previous reply does not match the required JSON Schema:
+{errors}
+
+Fix these problems and output the complete JSON again, with nothing else.`;
+
+export function buildStructuredOutputInstruction(schema: object): string {
+  const template = shouldUseEnglishDefaultPrompts()
+    ? DEFAULT_STRUCTURED_OUTPUT_INSTRUCTION_EN
+    : DEFAULT_STRUCTURED_OUTPUT_INSTRUCTION;
+  return template.replace("{schema}", JSON.stringify(schema, null, 2));
+}
+
+/** 结构化输出 Schema 中面向模型的字段说明 */
+export const TABLE_FILL_SCHEMA_DESCRIPTION =
+  "Rows of the table template in the same order; one string per column, keeping the labels already present in the template.";
+
+export function buildStructuredOutputRepairPrompt(errors: string[]): string {
+  const template = shouldUseEnglishDefaultPrompts()
+    ? DEFAULT_STRUCTURED_OUTPUT_REPAIR_PROMPT_EN
+    : DEFAULT_STRUCTURED_OUTPUT_REPAIR_PROMPT;
+  return template.replace(
+    "{errors}",
+    errors.map((error) => `- ${error}`).join("\n"),
+  );
+}
+
+/** 快速追问中文献库工具的说明（面向模型） */
+export const QUICK_CHAT_TOOL_DESCRIPTIONS = {
+  searchItems:
+    "Search the user's Zotero library for papers related to a query (semantic index of AI notes plus keyword search in titles, full text and notes). Returns item ids, titles, authors, years, whether an AI summary exists, and attachment ids.",
+  searchQuery: "What to look for, e.g. a topic, method, author or title.",
+  getItemSummary:
+    "Read the AI summary note of a Zotero item. Use it before reading full text: it is much shorter.",
+  itemId: "Zotero item id returned by another tool.",
+  getAttachmentText:
+    "Read the extracted full text of a PDF or web snapshot attachment. Pass an attachment id, or a regular item id to read its main attachment. Long texts are truncated.",
+  maxChars: "Maximum number of characters to return.",
+  listCollectionItems:
+    "List the papers directly in a Zotero collection. Without a collection, list the collections of the library with their ids and item counts.",
+  collection: "Collection name or id.",
+};
+
 /**
  * 检查是否需要更新用户的提示词
  *
@@ -708,6 +914,46 @@ export function parseChapterStructureResult(
   };
 }
 
+export const CHAPTER_STRUCTURE_SCHEMA: LLMResponseSchema = {
+  name: "chapter_structure",
+  description: "Top-level chapters of the paper in reading order.",
+  schema: {
+    type: "object",
+    properties: {
+      chapters: {
+        type: "array",
+        minItems: 1,
+        maxItems: MAX_DEEP_READ_CHAPTER_LIMIT,
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            title_zh: { type: "string" },
+            title_en: { type: "string" },
+          },
+          required: ["id", "title_zh", "title_en"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["chapters"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * 读取按 CHAPTER_STRUCTURE_SCHEMA 返回的结构化结果；没有可用章节时返回 null
+ */
+export function chapterStructureFromData(
+  data: unknown,
+): ChapterParseResult | null {
+  const chapters = normalizeChapterArray(
+    isRecord(data) ? data.chapters : undefined,
+    DEFAULT_DEEP_READ_CHAPTER_LIMIT,
+  );
+  return chapters.length > 0 ? { chapters, source: "json" } : null;
+}
+
 export function parseChapterStructure(responseText: string): ChapterInfo[] {
   return parseChapterStructureResult(responseText).chapters;
 }
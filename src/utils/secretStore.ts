@@ -0,0 +1,143 @@
+/**
+ * ================================================================
+ * 密钥安全存储模块
+ * ================================================================
+ *
+ * API 密钥不再明文写入偏好设置，而是保存在 Firefox 登录管理器
+ * (nsILoginManager) 中，由其负责加密落盘；设置了主密码时，首次读取会提示解锁，
+ * 解锁后的明文只缓存在本次会话的内存中。
+ *
+ * 偏好设置与端点 JSON 中只保存形如 `secret:<名称>` 的引用。
+ * 登录管理器不可用（如用户取消解锁）时，写入会退回明文保存，避免丢失密钥。
+ *
+ * @module secretStore
+ * @author AI-Butler Team
+ */
+
+import { config } from "../../package.json";
+
+/** 引用前缀：偏好值以此开头时表示真实密钥保存在登录管理器中 */
+const SECRET_REF_PREFIX = "secret:";
+
+/** 登录管理器中的条目来源与域，用于区分本插件保存的密钥 */
+const LOGIN_ORIGIN = `chrome://${config.addonRef}`;
+const LOGIN_REALM = `${config.addonName} API keys`;
+
+/**
+ * 判断偏好值是否为密钥引用
+ */
+export function isSecretRef(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(SECRET_REF_PREFIX);
+}
+
+/**
+ * 生成密钥引用
+ */
+export function secretRef(name: string): string {
+  return `${SECRET_REF_PREFIX}${name}`;
+}
+
+/**
+ * 密钥存储
+ */
+export class SecretStore {
+  /** 本次会话已解锁的密钥（名称 -> 明文），不持久化 */
+  private static cache = new Map<string, string>();
+  /** 本次会话读取失败（如取消主密码解锁）的密钥名称；重新写入前不再尝试读取，避免反复提示解锁 */
+  private static unavailable = new Set<string>();
+
+  /**
+   * 读取密钥，不存在或无法解锁时返回空字符串
+   */
+  static get(name: string): string {
+    const cached = this.cache.get(name);
+    if (cached !== undefined) return cached;
+    if (this.unavailable.has(name)) return "";
+    try {
+      const login = this.findLogin(name);
+      const value = login?.password || "";
+      this.cache.set(name, value);
+      this.unavailable.delete(name);
+      return value;
+    } catch (error) {
+      this.unavailable.add(name);
+      ztoolkit.log(`[SecretStore] 读取密钥失败: ${name}`, error);
+      return "";
+    }
+  }
+
+  /**
+   * 写入密钥
+   *
+   * @returns 是否已写入登录管理器
+   */
+  static set(name: string, value: string): boolean {
+    if (this.cache.get(name) === value) return true;
+    try {
+      const existing = this.findLogin(name);
+      const login = this.createLogin(name, value);
+      if (existing) {
+        if (existing.password !== value) {
+          Services.logins.modifyLogin(existing, login);
+        }
+      } else {
+        Services.logins.addLogin(login);
+      }
+      this.cache.set(name, value);
+      this.unavailable.delete(name);
+      return true;
+    } catch (error) {
+      ztoolkit.log(`[SecretStore] 写入密钥失败: ${name}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 删除密钥
+   */
+  static remove(name: string): void {
+    this.cache.delete(name);
+    try {
+      const existing = this.findLogin(name);
+      if (existing) Services.logins.removeLogin(existing);
+    } catch (error) {
+      ztoolkit.log(`[SecretStore] 删除密钥失败: ${name}`, error);
+    }
+  }
+
+  /**
+   * 把偏好值中的引用换成真实密钥；非引用原样返回（兼容尚未迁移的明文）
+   */
+  static resolve(value: string): string {
+    return isSecretRef(value)
+      ? this.get(value.slice(SECRET_REF_PREFIX.length))
+      : value;
+  }
+
+  /**
+   * 保存密钥并返回应写入偏好的值：空值删除密钥，写入失败时退回明文
+   */
+  static store(name: string, value: string): string {
+    if (!value) {
+      // 未能解锁的密钥读出来是空值，保留原引用以免被覆盖删除
+      if (this.unavailable.has(name)) return secretRef(name);
+      this.remove(name);
+      return "";
+    }
+    return this.set(name, value) ? secretRef(name) : value;
+  }
+
+  private static findLogin(name: string): nsILoginInfo | undefined {
+    return Services.logins
+      .findLogins(LOGIN_ORIGIN, "", LOGIN_REALM)
+      .find((login) => login.username === name);
+  }
+
+  private static createLogin(name: string, value: string): nsILoginInfo {
+    const login = (Components.classes as any)[
+      "@mozilla.org/login-manager/loginInfo;1"
+    ].createInstance(Ci.nsILoginInfo) as nsILoginInfo;
+    login.init(LOGIN_ORIGIN, null as any, LOGIN_REALM, name, value, "", "");
+    return login;
+  }
+}
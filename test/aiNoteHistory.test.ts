@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import {
+  appendAiNoteVersion,
+  type AiNoteVersion,
+} from "../src/modules/aiNoteHistory";
+
+function version(
+  id: string,
+  kind: AiNoteVersion["kind"],
+  html: string,
+): AiNoteVersion {
+  return {
+    id,
+    kind,
+    reason: "generate",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    html,
+  };
+}
+
+describe("AI note history", function () {
+  it("skips a version identical to the latest one of the same kind", function () {
+    const versions = [
+      version("a", "summary", "<p>v1</p>"),
+      version("b", "deepRead", "<p>d1</p>"),
+    ];
+    expect(
+      appendAiNoteVersion(versions, version("c", "summary", "<p>v1</p>"), 10),
+    ).to.equal(versions);
+    expect(
+      appendAiNoteVersion(versions, version("d", "deepRead", "<p>v1</p>"), 10)
+        .length,
+    ).to.equal(3);
+  });
+
+  it("drops the oldest versions of the same kind beyond the limit", function () {
+    let versions: AiNoteVersion[] = [];
+    versions = appendAiNoteVersion(versions, version("s1", "summary", "1"), 2);
+    versions = appendAiNoteVersion(versions, version("d1", "deepRead", "1"), 2);
+    versions = appendAiNoteVersion(versions, version("s2", "summary", "2"), 2);
+    versions = appendAiNoteVersion(versions, version("s3", "summary", "3"), 2);
+    expect(versions.map((entry) => entry.id)).to.deep.equal(["d1", "s2", "s3"]);
+  });
+});
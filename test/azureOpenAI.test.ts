@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import {
+  AZURE_DEFAULT_API_VERSIONS,
+  buildAzureDeploymentsUrl,
+  buildAzureOpenAIUrl,
+  parseAzureApiUrl,
+  resolveAzureOpenAITarget,
+} from "../src/modules/llmproviders/shared/azureOpenAI";
+
+describe("Azure OpenAI URLs", function () {
+  it("builds chat completions URLs from the resource URL and deployment", function () {
+    const target = resolveAzureOpenAITarget({
+      apiUrl: "https://demo.openai.azure.com/",
+      model: " gpt-4o-prod ",
+    });
+    expect(target).to.deep.equal({
+      baseUrl: "https://demo.openai.azure.com",
+      deployment: "gpt-4o-prod",
+      apiMode: "chat",
+      apiVersion: AZURE_DEFAULT_API_VERSIONS.chat,
+    });
+    expect(buildAzureOpenAIUrl(target)).to.equal(
+      `https://demo.openai.azure.com/openai/deployments/gpt-4o-prod/chat/completions?api-version=${AZURE_DEFAULT_API_VERSIONS.chat}`,
+    );
+  });
+
+  it("prefers deployment, mode and api-version from a pasted target URI", function () {
+    const parsed = parseAzureApiUrl(
+      "https://demo.openai.azure.com/openai/deployments/o4-mini/chat/completions?api-version=2025-01-01-preview",
+    );
+    expect(parsed).to.deep.equal({
+      baseUrl: "https://demo.openai.azure.com",
+      deployment: "o4-mini",
+      apiMode: "chat",
+      apiVersion: "2025-01-01-preview",
+    });
+
+    const target = resolveAzureOpenAITarget({
+      apiUrl:
+        "https://demo.openai.azure.com/openai/responses?api-version=2025-04-01-preview",
+      model: "gpt-4.1",
+      azure: { apiMode: "chat", apiVersion: "2024-10-21" },
+    });
+    expect(target.apiMode).to.equal("responses");
+    expect(target.apiVersion).to.equal("2025-04-01-preview");
+    expect(buildAzureOpenAIUrl(target)).to.equal(
+      "https://demo.openai.azure.com/openai/responses?api-version=2025-04-01-preview",
+    );
+  });
+
+  it("uses endpoint settings when the URL only names the resource", function () {
+    const target = resolveAzureOpenAITarget({
+      apiUrl: "https://demo.cognitiveservices.azure.com/openai",
+      model: "gpt-4.1",
+      azure: { apiMode: "responses", apiVersion: "" },
+    });
+    expect(target).to.include({
+      baseUrl: "https://demo.cognitiveservices.azure.com",
+      apiMode: "responses",
+      apiVersion: AZURE_DEFAULT_API_VERSIONS.responses,
+    });
+    expect(buildAzureDeploymentsUrl(target.baseUrl)).to.equal(
+      "https://demo.cognitiveservices.azure.com/openai/deployments?api-version=2022-12-01",
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import { config } from "../package.json";
+import {
+  ContentCache,
+  selectContentCacheEvictions,
+} from "../src/modules/contentCache";
+
+const prefKeys = ["contentCacheEnabled", "contentCacheMaxMB"];
+
+function prefName(key: string): string {
+  return `${config.prefsPrefix}.${key}`;
+}
+
+function createAttachment(id: number, hash: string): Zotero.Item {
+  return {
+    id,
+    attachmentHash: Promise.resolve(hash),
+  } as unknown as Zotero.Item;
+}
+
+describe("ContentCache", function () {
+  const entries = [
+    { key: "a-text", size: 40, lastUsedAt: 300 },
+    { key: "b-snapshot", size: 50, lastUsedAt: 100 },
+    { key: "c-mineru", size: 30, lastUsedAt: 200 },
+  ];
+
+  it("keeps every entry while the cache is within its size limit", function () {
+    expect(selectContentCacheEvictions(entries, 120)).to.deep.equal([]);
+    expect(selectContentCacheEvictions([], 0)).to.deep.equal([]);
+  });
+
+  it("evicts the least recently used entries until the cache fits", function () {
+    expect(selectContentCacheEvictions(entries, 100)).to.deep.equal([
+      "b-snapshot",
+    ]);
+    expect(selectContentCacheEvictions(entries, 40)).to.deep.equal([
+      "b-snapshot",
+      "c-mineru",
+    ]);
+    expect(selectContentCacheEvictions(entries, 0)).to.deep.equal([
+      "b-snapshot",
+      "c-mineru",
+      "a-text",
+    ]);
+  });
+
+  describe("attachment content", function () {
+    const originals = new Map<string, unknown>();
+
+    beforeEach(async function () {
+      await ContentCache.clear();
+      originals.clear();
+      for (const key of prefKeys) {
+        const fullKey = prefName(key);
+        originals.set(key, Zotero.Prefs.get(fullKey, true));
+        Zotero.Prefs.clear(fullKey, true);
+      }
+    });
+
+    afterEach(async function () {
+      for (const key of prefKeys) {
+        const fullKey = prefName(key);
+        const value = originals.get(key);
+        if (value === undefined) Zotero.Prefs.clear(fullKey, true);
+        else Zotero.Prefs.set(fullKey, value as any, true);
+      }
+      await ContentCache.clear();
+    });
+
+    it("extracts once and serves later reads from the cache", async function () {
+      const attachment = createAttachment(1, "hash-a");
+      let produced = 0;
+      let hits = 0;
+      const produce = async () => `text ${++produced}`;
+
+      expect(
+        await ContentCache.getOrCreate(
+          attachment,
+          "text",
+          produce,
+          () => hits++,
+        ),
+      ).to.equal("text 1");
+      expect(
+        await ContentCache.getOrCreate(
+          attachment,
+          "text",
+          produce,
+          () => hits++,
+        ),
+      ).to.equal("text 1");
+      expect(produced).to.equal(1);
+      expect(hits).to.equal(1);
+
+      // 同一附件的不同提取模式分别缓存
+      expect(
+        await ContentCache.getOrCreate(attachment, "mineru", produce),
+      ).to.equal("text 2");
+      expect((await ContentCache.getStats()).entries).to.equal(2);
+    });
+
+    it("extracts again and drops the stale entry after the file changes", async function () {
+      let produced = 0;
+      const produce = async () => `text ${++produced}`;
+
+      await ContentCache.getOrCreate(
+        createAttachment(1, "hash-a"),
+        "text",
+        produce,
+      );
+      expect(
+        await ContentCache.getOrCreate(
+          createAttachment(1, "hash-b"),
+          "text",
+          produce,
+        ),
+      ).to.equal("text 2");
+      expect(produced).to.equal(2);
+      expect((await ContentCache.getStats()).entries).to.equal(1);
+    });
+
+    it("evicts the least recently used entry beyond the size limit", async function () {
+      Zotero.Prefs.set(prefName("contentCacheMaxMB"), 1, true);
+      const chunk = "x".repeat(600 * 1024);
+
+      await ContentCache.getOrCreate(
+        createAttachment(1, "hash-a"),
+        "text",
+        async () => `a${chunk}`,
+      );
+      await ContentCache.getOrCreate(
+        createAttachment(2, "hash-b"),
+        "text",
+        async () => `b${chunk}`,
+      );
+      const stats = await ContentCache.getStats();
+      expect(stats.entries).to.equal(1);
+      expect(stats.bytes).to.equal(chunk.length + 1);
+
+      let produced = 0;
+      await ContentCache.getOrCreate(
+        createAttachment(1, "hash-a"),
+        "text",
+        async () => `a${chunk}${++produced}`,
+      );
+      expect(produced).to.equal(1);
+
+      // 单条超过上限的内容不写入缓存
+      await ContentCache.getOrCreate(
+        createAttachment(3, "hash-c"),
+        "text",
+        async () => "y".repeat(1100 * 1024),
+      );
+      expect((await ContentCache.getStats()).entries).to.equal(1);
+    });
+  });
+});
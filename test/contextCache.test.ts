@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import {
+  ContextCacheRegistry,
+  buildContextUserMessage,
+  summarizeContextCacheUsage,
+} from "../src/modules/llmproviders/shared/contextCache";
+import { normalizeUsage } from "../src/modules/llmproviders/shared/llmutils";
+
+describe("Provider context cache", function () {
+  it("puts the paper before the prompt when a cache key is set", function () {
+    const first = buildContextUserMessage("Read chapter 1", "PAPER BODY", {
+      contextCacheKey: "deepread-1",
+    });
+    const second = buildContextUserMessage("Read chapter 2", "PAPER BODY", {
+      contextCacheKey: "deepread-1",
+    });
+    expect(first.startsWith("<Paper>\nPAPER BODY\n</Paper>\n\n")).to.equal(
+      true,
+    );
+    expect(first.endsWith("Read chapter 1")).to.equal(true);
+    expect(second.slice(0, 30)).to.equal(first.slice(0, 30));
+
+    const legacy = buildContextUserMessage("Read chapter 1", "PAPER BODY", {});
+    expect(legacy.startsWith("Read chapter 1")).to.equal(true);
+    expect(legacy.endsWith("<Paper>\nPAPER BODY\n</Paper>")).to.equal(true);
+  });
+
+  it("creates a cache once per key and releases it with the run", async function () {
+    const released: string[] = [];
+    let created = 0;
+    const create = async () => {
+      created++;
+      return {
+        handle: `cachedContents/${created}`,
+        expiresAt: Date.now() + 30 * 60 * 1000,
+        release: async () => {
+          released.push(`cachedContents/${created}`);
+        },
+      };
+    };
+    const key = ContextCacheRegistry.entryKey("run-a", "google", "gemini");
+
+    const [a, b] = await Promise.all([
+      ContextCacheRegistry.acquire(key, create),
+      ContextCacheRegistry.acquire(key, create),
+    ]);
+    expect(created).to.equal(1);
+    expect(a?.handle).to.equal("cachedContents/1");
+    expect(b?.handle).to.equal("cachedContents/1");
+
+    await ContextCacheRegistry.release("run-b");
+    expect(released).to.deep.equal([]);
+    await ContextCacheRegistry.release("run-a");
+    expect(released).to.deep.equal(["cachedContents/1"]);
+
+    ContextCacheRegistry.invalidate(key);
+    expect(await ContextCacheRegistry.acquire(key, create)).to.equal(null);
+    expect(created).to.equal(1);
+    await ContextCacheRegistry.release("run-a");
+  });
+
+  it("recreates caches that are about to expire", async function () {
+    let created = 0;
+    const key = ContextCacheRegistry.entryKey("run-c", "google", "gemini");
+    const create = async () => ({
+      handle: `cachedContents/${++created}`,
+      expiresAt: Date.now() + (created === 1 ? 1000 : 30 * 60 * 1000),
+    });
+    await ContextCacheRegistry.acquire(key, create);
+    const renewed = await ContextCacheRegistry.acquire(key, create);
+    expect(renewed?.handle).to.equal("cachedContents/2");
+    await ContextCacheRegistry.release("run-c");
+  });
+
+  it("reports cached input tokens across provider usage shapes", function () {
+    expect(
+      normalizeUsage({
+        usage: {
+          prompt_tokens: 1200,
+          completion_tokens: 300,
+          prompt_tokens_details: { cached_tokens: 1024 },
+        },
+      }),
+    ).to.deep.equal({
+      inputTokens: 1200,
+      outputTokens: 300,
+      totalTokens: 1500,
+      cachedInputTokens: 1024,
+    });
+    expect(
+      normalizeUsage({
+        usageMetadata: {
+          promptTokenCount: 5000,
+          cachedContentTokenCount: 4800,
+          candidatesTokenCount: 200,
+          totalTokenCount: 5200,
+        },
+      })?.cachedInputTokens,
+    ).to.equal(4800);
+
+    expect(
+      summarizeContextCacheUsage([
+        { inputTokens: 5000, outputTokens: 100 },
+        { inputTokens: 5000, outputTokens: 100, cachedInputTokens: 4800 },
+        { inputTokens: 9000, estimated: true },
+        undefined,
+      ]),
+    ).to.deep.equal({
+      inputTokens: 10000,
+      cachedInputTokens: 4800,
+      hitRatio: 0.48,
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { expect } from "chai";
+import { config } from "../package.json";
+import {
+  ENDPOINT_HEALTH_LIMITS,
+  EndpointHealth,
+  applyEndpointOutcome,
+  classifyEndpointError,
+  createEndpointHealthRecord,
+  orderEndpointsByHealth,
+  skipOpenCircuits,
+  summarizeEndpointHealth,
+  type EndpointHealthRecord,
+  type EndpointHealthStats,
+} from "../src/modules/endpointHealth";
+
+const MINUTE = 60 * 1000;
+
+function fail(
+  record: EndpointHealthRecord,
+  now: number,
+  error: unknown = new Error("HTTP 502: Bad Gateway"),
+): EndpointHealthRecord {
+  return applyEndpointOutcome(
+    record,
+    { ok: false, latencyMs: 100, error },
+    now,
+  );
+}
+
+function stats(
+  entries: Record<string, Partial<EndpointHealthStats>>,
+): Map<string, EndpointHealthStats> {
+  return new Map(
+    Object.entries(entries).map(([id, entry]) => [
+      id,
+      {
+        ...summarizeEndpointHealth(undefined, 0),
+        ...entry,
+      },
+    ]),
+  );
+}
+
+describe("endpoint health", function () {
+  it("classifies provider errors by status code and message", function () {
+    expect(
+      classifyEndpointError(new Error("HTTP 429: request failed")),
+    ).to.equal("rateLimit");
+    expect(
+      classifyEndpointError(new Error("invalid_api_key: Incorrect API key")),
+    ).to.equal("auth");
+    expect(classifyEndpointError({ statusCode: 503, message: "" })).to.equal(
+      "server",
+    );
+    expect(classifyEndpointError(new Error("Request timed out"))).to.equal(
+      "timeout",
+    );
+    expect(classifyEndpointError(new Error("HTTP 400: bad request"))).to.equal(
+      "client",
+    );
+    expect(classifyEndpointError(new Error("NS_ERROR_NET_RESET"))).to.equal(
+      "network",
+    );
+    expect(classifyEndpointError("unexpected")).to.equal("other");
+  });
+
+  it("keeps a rolling window and reports success rate and latency percentiles", function () {
+    let record = createEndpointHealthRecord();
+    for (let i = 1; i <= ENDPOINT_HEALTH_LIMITS.windowSize + 10; i++) {
+      record = applyEndpointOutcome(record, { ok: true, latencyMs: i * 10 }, i);
+    }
+    record = fail(record, 1000);
+
+    const summary = summarizeEndpointHealth(record, 1000);
+    expect(summary.requests).to.equal(ENDPOINT_HEALTH_LIMITS.windowSize);
+    expect(summary.successRate).to.equal(
+      (ENDPOINT_HEALTH_LIMITS.windowSize - 1) /
+        ENDPOINT_HEALTH_LIMITS.windowSize,
+    );
+    expect(summary.p50LatencyMs).to.equal(360);
+    expect(summary.p95LatencyMs).to.equal(580);
+    expect(summary.lastError).to.include({ at: 1000, errorClass: "server" });
+    expect(summarizeEndpointHealth(undefined, 0)).to.include({
+      requests: 0,
+      successRate: null,
+      p50LatencyMs: null,
+      circuit: "closed",
+    });
+  });
+
+  it("opens the circuit after repeated failures and doubles the cooldown after a failed trial", function () {
+    let record = createEndpointHealthRecord();
+    for (let i = 0; i < ENDPOINT_HEALTH_LIMITS.failureThreshold - 1; i++) {
+      record = fail(record, 0);
+    }
+    expect(summarizeEndpointHealth(record, 0).circuit).to.equal("closed");
+
+    record = fail(record, 0);
+    expect(summarizeEndpointHealth(record, 0)).to.include({
+      circuit: "open",
+      openUntil: MINUTE,
+    });
+    expect(summarizeEndpointHealth(record, MINUTE).circuit).to.equal(
+      "halfOpen",
+    );
+
+    record = fail(record, MINUTE);
+    expect(summarizeEndpointHealth(record, MINUTE).openUntil).to.equal(
+      3 * MINUTE,
+    );
+
+    record = applyEndpointOutcome(
+      record,
+      { ok: true, latencyMs: 200 },
+      3 * MINUTE,
+    );
+    const recovered = summarizeEndpointHealth(record, 3 * MINUTE);
+    expect(recovered.circuit).to.equal("closed");
+    expect(recovered.consecutiveFailures).to.equal(0);
+    expect(record.trips).to.equal(0);
+  });
+
+  it("skips open circuits unless every endpoint is open", function () {
+    const endpoints = [{ id: "a" }, { id: "b" }, { id: "c" }];
+    const health = stats({
+      a: { circuit: "open", openUntil: 300 },
+      b: { circuit: "halfOpen" },
+    });
+    expect(
+      skipOpenCircuits(endpoints, health).map((endpoint) => endpoint.id),
+    ).to.deep.equal(["b", "c"]);
+
+    const allOpen = stats({
+      a: { circuit: "open", openUntil: 300 },
+      b: { circuit: "open", openUntil: 100 },
+      c: { circuit: "open", openUntil: 200 },
+    });
+    expect(
+      skipOpenCircuits(endpoints, allOpen).map((endpoint) => endpoint.id),
+    ).to.deep.equal(["b", "c", "a"]);
+  });
+
+  it("orders endpoints by latency or by the time of their last failure", function () {
+    const endpoints = [{ id: "a" }, { id: "b" }, { id: "c" }, { id: "d" }];
+    const health = stats({
+      a: { p50LatencyMs: 900 },
+      b: { p50LatencyMs: 300, consecutiveFailures: 1, lastFailureAt: 50 },
+      c: { p50LatencyMs: 400, lastFailureAt: 10 },
+    });
+
+    expect(
+      orderEndpointsByHealth(endpoints, "fastestHealthy", health).map(
+        (endpoint) => endpoint.id,
+      ),
+    ).to.deep.equal(["c", "a", "d", "b"]);
+    expect(
+      orderEndpointsByHealth(endpoints, "leastRecentlyFailed", health).map(
+        (endpoint) => endpoint.id,
+      ),
+    ).to.deep.equal(["a", "d", "c", "b"]);
+  });
+
+  it("keeps statistics in memory until they are flushed to the pref", function () {
+    const prefName = `${config.prefsPrefix}.llmEndpointHealth`;
+    const original = Zotero.Prefs.get(prefName, true);
+    try {
+      EndpointHealth.reset();
+      const saved = Zotero.Prefs.get(prefName, true);
+      for (let i = 0; i < ENDPOINT_HEALTH_LIMITS.failureThreshold; i++) {
+        EndpointHealth.recordFailure("ep-a", new Error("HTTP 503"), 100);
+      }
+      EndpointHealth.recordSuccess("ep-b", 250);
+
+      expect(EndpointHealth.getStats("ep-a").circuit).to.equal("open");
+      expect(EndpointHealth.getStats("ep-b").p50LatencyMs).to.equal(250);
+      expect(Zotero.Prefs.get(prefName, true)).to.equal(saved);
+
+      EndpointHealth.flush();
+      const persisted = JSON.parse(String(Zotero.Prefs.get(prefName, true)));
+      expect(Object.keys(persisted.endpoints)).to.deep.equal(["ep-a", "ep-b"]);
+    } finally {
+      EndpointHealth.reset();
+      if (original === undefined) Zotero.Prefs.clear(prefName, true);
+      else Zotero.Prefs.set(prefName, original as any, true);
+    }
+  });
+});
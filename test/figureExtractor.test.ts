@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import {
+  findCaptionPages,
+  guessImageMimeType,
+  parseMineruFigures,
+  parseRenderedPageNumber,
+} from "../src/modules/figureExtractor";
+
+describe("Figure extractor", function () {
+  it("reads figures, tables and page numbers from the MinerU content list", function () {
+    const figures = parseMineruFigures("ignored", [
+      { type: "text", text: "Intro", page_idx: 0 },
+      {
+        type: "image",
+        img_path: "images/a.jpg",
+        image_caption: ["Figure 1: Overview", "of the method"],
+        page_idx: 1,
+      },
+      { type: "equation", img_path: "images/eq.jpg", page_idx: 1 },
+      {
+        type: "table",
+        img_path: "images/t.jpg",
+        table_caption: ["Table 2: Results"],
+        page_idx: 4,
+      },
+      { type: "image", img_path: "images/logo.jpg", page_idx: 0 },
+    ]);
+    expect(figures).to.deep.equal([
+      {
+        kind: "figure",
+        imagePath: "images/a.jpg",
+        caption: "Figure 1: Overview of the method",
+        page: 2,
+      },
+      {
+        kind: "table",
+        imagePath: "images/t.jpg",
+        caption: "Table 2: Results",
+        page: 5,
+      },
+    ]);
+  });
+
+  it("falls back to Markdown image references and nearby captions", function () {
+    const figures = parseMineruFigures(
+      [
+        "Some text.",
+        "",
+        "![](images/fig1.png)",
+        "",
+        "**Figure 1.** Pipeline overview",
+        "",
+        "Table 1: Accuracy on benchmarks",
+        "![](./images/tab%201.png)",
+        "![](https://example.com/remote.png)",
+      ].join("\n"),
+    );
+    expect(figures).to.deep.equal([
+      {
+        kind: "figure",
+        imagePath: "images/fig1.png",
+        caption: "Figure 1. Pipeline overview",
+      },
+      {
+        kind: "table",
+        imagePath: "images/tab 1.png",
+        caption: "Table 1: Accuracy on benchmarks",
+      },
+    ]);
+  });
+
+  it("parses rendered page file names and image types", function () {
+    expect(parseRenderedPageNumber("page-03.png")).to.equal(3);
+    expect(parseRenderedPageNumber("page_12.jpg")).to.equal(12);
+    expect(parseRenderedPageNumber("page.png")).to.equal(null);
+    expect(guessImageMimeType("images/a.JPG")).to.equal("image/jpeg");
+    expect(guessImageMimeType("images/a.svg")).to.equal(null);
+  });
+
+  it("finds the pages that carry figure or table captions", function () {
+    expect(
+      findCaptionPages([
+        "Title\nAbstract",
+        "Method\nFigure 1: Overview of the pipeline",
+        "As shown in the results, Fig. 1 improves recall",
+        "  Table 2. Results on the test set",
+        "图 3 模型结构",
+      ]),
+    ).to.deep.equal([2, 4, 5]);
+  });
+});
@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import {
+  DEFAULT_HTTP_PROVIDER_CONFIG,
+  decodeStreamDelimiter,
+  extractTextByPath,
+  interpolateTemplate,
+  normalizeHttpProviderConfig,
+  parseStreamEvent,
+  parseStreamEventData,
+  renderHttpTemplate,
+  splitStreamEvents,
+} from "../src/modules/llmproviders/shared/httpTemplate";
+import { reportUsage } from "../src/modules/llmproviders/shared/llmutils";
+import type { LLMUsage } from "../src/modules/llmproviders/types";
+
+describe("Declarative HTTP provider", function () {
+  it("renders request templates with raw values and drops unset fields", function () {
+    const messages = [{ role: "user", content: "Hi" }];
+    const body = renderHttpTemplate(
+      JSON.stringify({
+        model: "{{model}}",
+        input: { messages: "{{messages}}", stream: "{{stream}}" },
+        params: { temperature: "{{temperature}}", max: "{{maxTokens}}" },
+        note: "model={{model}} msgs={{messages}}",
+        tags: ["a", "{{missing}}"],
+      }),
+      { model: "m1", messages, stream: false, temperature: 0.2 },
+    );
+    expect(body).to.deep.equal({
+      model: "m1",
+      input: { messages, stream: false },
+      params: { temperature: 0.2 },
+      note: `model=m1 msgs=${JSON.stringify(messages)}`,
+      tags: ["a"],
+    });
+
+    expect(
+      interpolateTemplate(DEFAULT_HTTP_PROVIDER_CONFIG.authValue, {
+        apiKey: "sk-1",
+      }),
+    ).to.equal("Bearer sk-1");
+  });
+
+  it("reads text by dotted and bracketed paths", function () {
+    const data = {
+      choices: [{ message: { content: "hello" } }],
+      content: [{ type: "text", text: "a" }, { text: "b" }],
+    };
+    expect(extractTextByPath(data, "choices.0.message.content")).to.equal(
+      "hello",
+    );
+    expect(extractTextByPath(data, "choices[0].message.content")).to.equal(
+      "hello",
+    );
+    expect(extractTextByPath(data, "content")).to.equal("ab");
+    expect(extractTextByPath(data, "choices.1.message.content")).to.equal("");
+  });
+
+  it("splits SSE and JSON-lines streams into text deltas", function () {
+    const sse = decodeStreamDelimiter("\\n\\n");
+    expect(sse).to.equal("\n\n");
+    const first = splitStreamEvents(
+      'data: {"delta":"Hel"}\r\n\r\nevent: ping\n\ndata: {"delta":"lo"}\n\ndata: {"del',
+      sse,
+    );
+    expect(first.events).to.have.length(3);
+    expect(first.rest).to.equal('data: {"del');
+    const rest = splitStreamEvents(
+      first.rest + 'ta":"!"}\n\ndata: [DONE]',
+      sse,
+      true,
+    );
+    const text = [...first.events, ...rest.events]
+      .map((event) => parseStreamEvent(event, "delta"))
+      .join("");
+    expect(text).to.equal("Hello!");
+
+    const lines = splitStreamEvents(
+      '{"response":"a"}\n{"response":"b"}\n',
+      decodeStreamDelimiter("\\n"),
+    );
+    expect(
+      lines.events.map((event) => parseStreamEvent(event, "response")),
+    ).to.deep.equal(["a", "b"]);
+  });
+
+  it("reads usage and finish reason from stream events when present", function () {
+    const usages: LLMUsage[] = [];
+    const reasons: string[] = [];
+    const options = {
+      onUsage: (usage: LLMUsage) => usages.push(usage),
+      onFinishReason: (reason: string) => reasons.push(reason),
+    };
+    for (const event of [
+      'data: {"choices":[{"delta":{"content":"Hi"},"finish_reason":null}]}',
+      "event: ping",
+      'data: {"choices":[{"delta":{},"finish_reason":"length"}],"usage":{"prompt_tokens":20,"completion_tokens":8,"total_tokens":28}}',
+      "data: [DONE]",
+    ]) {
+      const data = parseStreamEventData(event);
+      if (data !== undefined) reportUsage(options, data);
+    }
+    expect(reasons).to.deep.equal(["length"]);
+    expect(usages).to.deep.equal([
+      { inputTokens: 20, outputTokens: 8, totalTokens: 28 },
+    ]);
+    expect(parseStreamEventData("event: ping")).to.equal(undefined);
+  });
+
+  it("fills missing config fields with the OpenAI-compatible defaults", function () {
+    const config = normalizeHttpProviderConfig({
+      responseTextPath: " output.text ",
+      streamTextPath: "",
+    });
+    expect(config).to.include({
+      responseTextPath: "output.text",
+      streamTextPath: "",
+      authHeader: "Authorization",
+      streamDelimiter: "\\n\\n",
+    });
+    expect(
+      JSON.parse(normalizeHttpProviderConfig(undefined).requestTemplate),
+    ).to.have.property("messages", "{{messages}}");
+  });
+});
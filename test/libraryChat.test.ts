@@ -0,0 +1,36 @@
+import { expect } from "chai";
+import {
+  buildZoteroSelectUri,
+  linkLibraryChatCitations,
+} from "../src/modules/libraryChat";
+
+const sources = [
+  { itemId: 2, libraryID: 1, key: "AAAA1111", title: "A" },
+  { itemId: 3, libraryID: 1, key: "BBBB2222", title: "B" },
+];
+
+describe("library chat", function () {
+  it("builds select URIs for user and group libraries", function () {
+    expect(buildZoteroSelectUri("AAAA1111")).to.equal(
+      "zotero://select/library/items/AAAA1111",
+    );
+    expect(buildZoteroSelectUri("AAAA1111", 42)).to.equal(
+      "zotero://select/groups/42/items/AAAA1111",
+    );
+  });
+
+  it("links known citations and keeps unknown or linked ones", function () {
+    const linked = linkLibraryChatCitations(
+      "Both agree [1, 2]; see [2] and [9]. Already [1](https://x).",
+      sources,
+      (ref) => buildZoteroSelectUri(ref.key || ""),
+    );
+
+    expect(linked).to.equal(
+      "Both agree [[1]](zotero://select/library/items/AAAA1111), " +
+        "[[2]](zotero://select/library/items/BBBB2222); " +
+        "see [[2]](zotero://select/library/items/BBBB2222) and [9]. " +
+        "Already [1](https://x).",
+    );
+  });
+});
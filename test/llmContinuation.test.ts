@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import {
+  createContinuationProgress,
+  isTruncatedFinishReason,
+  stitchContinuation,
+} from "../src/modules/llmContinuation";
+import {
+  extractFinishReason,
+  getStreamTruncatedText,
+  markStreamTruncated,
+  sumUsage,
+} from "../src/modules/llmproviders/shared/llmutils";
+
+describe("LLM output continuation", function () {
+  it("recognizes max-token finish reasons across providers", function () {
+    expect(
+      extractFinishReason({ choices: [{ finish_reason: "length" }] }),
+    ).to.equal("length");
+    expect(
+      extractFinishReason({
+        response: { incomplete_details: { reason: "max_output_tokens" } },
+      }),
+    ).to.equal("max_output_tokens");
+    expect(
+      extractFinishReason({ delta: { stop_reason: "max_tokens" } }),
+    ).to.equal("max_tokens");
+    expect(
+      extractFinishReason({ candidates: [{ finishReason: "MAX_TOKENS" }] }),
+    ).to.equal("MAX_TOKENS");
+    expect(
+      extractFinishReason({ choices: [{ finish_reason: null }] }),
+    ).to.equal("");
+
+    for (const reason of [
+      "length",
+      "max_tokens",
+      "max_output_tokens",
+      "MAX_TOKENS",
+    ]) {
+      expect(isTruncatedFinishReason(reason), reason).to.equal(true);
+    }
+    for (const reason of ["stop", "end_turn", "content_filter", undefined]) {
+      expect(isTruncatedFinishReason(reason), String(reason)).to.equal(false);
+    }
+  });
+
+  it("stitches continuations without duplicating the repeated tail", function () {
+    const previous = "## Methods\n\nThe authors train a transformer on";
+    expect(
+      stitchContinuation(
+        previous,
+        " train a transformer on 10k annotated abstracts.",
+      ),
+    ).to.equal(
+      "## Methods\n\nThe authors train a transformer on 10k annotated abstracts.",
+    );
+    expect(stitchContinuation(previous, " 10k abstracts.")).to.equal(
+      `${previous} 10k abstracts.`,
+    );
+    expect(stitchContinuation(previous, "  \n")).to.equal(previous);
+  });
+
+  it("streams continuation chunks that add up to the stitched text", async function () {
+    const previous = "## Methods\n\nThe authors train a transformer on";
+    const streamed = async (chunks: string[]) => {
+      const received: string[] = [];
+      const progress = createContinuationProgress(previous, (chunk) => {
+        received.push(chunk);
+      });
+      for (const chunk of chunks) await progress.onProgress(chunk);
+      await progress.flush();
+      return previous + received.join("");
+    };
+
+    const repeated = [
+      " train a trans",
+      "former on 10k",
+      " annotated abstracts.",
+    ];
+    expect(await streamed(repeated)).to.equal(
+      stitchContinuation(previous, repeated.join("")),
+    );
+
+    const long = [" train a transformer on", ` ${"data ".repeat(100)}`, "end."];
+    expect(await streamed(long)).to.equal(
+      stitchContinuation(previous, long.join("")),
+    );
+    expect(await streamed(["  \n"])).to.equal(previous);
+  });
+
+  it("carries partial stream text and sums usage of continuation rounds", function () {
+    const error = markStreamTruncated(new Error("cut"), "partial answer");
+    expect(getStreamTruncatedText(error)).to.equal("partial answer");
+    expect(getStreamTruncatedText(new Error("other"))).to.equal("");
+
+    expect(
+      sumUsage(
+        { inputTokens: 100, outputTokens: 50, totalTokens: 150 },
+        { inputTokens: 160, outputTokens: 20, totalTokens: 180 },
+      ),
+    ).to.deep.equal({ inputTokens: 260, outputTokens: 70, totalTokens: 330 });
+  });
+});
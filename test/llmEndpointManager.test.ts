@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { config } from "../package.json";
+import { EndpointHealth } from "../src/modules/endpointHealth";
 import {
   LLMEndpointManager,
   type LLMEndpoint,
@@ -8,7 +9,9 @@ import {
 const prefKeys = [
   "llmEndpoints",
   "llmRoutingStrategy",
+  "llmRoutingRules",
   "llmRoundRobinCursor",
+  "llmEndpointHealth",
   "multiModelSummaryEnabled",
   "multiModelSummaryEndpointIds",
   "maxApiSwitchCount",
@@ -247,6 +250,101 @@ describe("LLMEndpointManager", function () {
     );
   });
 
+  it("routes task types through their rules and falls back to the global route", function () {
+    LLMEndpointManager.saveEndpoints([
+      makeEndpoint("a"),
+      makeEndpoint("b"),
+      makeEndpoint("c", false),
+    ]);
+    LLMEndpointManager.setRoutingStrategy("roundRobin");
+    Zotero.Prefs.set(prefName("llmRoundRobinCursor"), "b", true);
+    LLMEndpointManager.setRoutingRule("tableFill", ["c", "b", "missing", "a"]);
+    LLMEndpointManager.setRoutingRule("deepRead", ["c"]);
+
+    const ruled = LLMEndpointManager.prepareRoute("tableFill");
+    expect(ruled.strategy).to.equal("priority");
+    expect(ruled.taskKind).to.equal("tableFill");
+    expect(ruled.endpoints.map((endpoint) => endpoint.id)).to.deep.equal([
+      "b",
+      "a",
+    ]);
+    LLMEndpointManager.markEndpointAttempted("b", ruled);
+    expect(Zotero.Prefs.get(prefName("llmRoundRobinCursor"), true)).to.equal(
+      "b",
+    );
+
+    for (const route of [
+      LLMEndpointManager.prepareRoute("deepRead"),
+      LLMEndpointManager.prepareRoute("summary"),
+      LLMEndpointManager.prepareRoute(),
+    ]) {
+      expect(route.taskKind).to.equal(undefined);
+      expect(route.endpoints.map((endpoint) => endpoint.id)).to.deep.equal([
+        "b",
+        "a",
+      ]);
+    }
+  });
+
+  it("normalizes stored routing rules and clears empty ones", function () {
+    Zotero.Prefs.set(
+      prefName("llmRoutingRules"),
+      JSON.stringify({ mindmap: ["a", "a", " b "], unknown: ["c"], review: 1 }),
+      true,
+    );
+    expect(LLMEndpointManager.getRoutingRules()).to.deep.equal({
+      mindmap: ["a", "b"],
+    });
+
+    LLMEndpointManager.setRoutingRule("quickChat", ["c"]);
+    LLMEndpointManager.setRoutingRule("mindmap", []);
+    expect(LLMEndpointManager.getRoutingRules()).to.deep.equal({
+      quickChat: ["c"],
+    });
+
+    Zotero.Prefs.set(prefName("llmRoutingRules"), "{broken", true);
+    expect(LLMEndpointManager.getRoutingRules()).to.deep.equal({});
+  });
+
+  it("orders health-aware routes and skips endpoints with open circuits", function () {
+    LLMEndpointManager.saveEndpoints([
+      makeEndpoint("a"),
+      makeEndpoint("b"),
+      makeEndpoint("c"),
+    ]);
+    EndpointHealth.recordSuccess("a", 900);
+    EndpointHealth.recordSuccess("b", 200);
+    EndpointHealth.recordSuccess("c", 400);
+
+    LLMEndpointManager.setRoutingStrategy("fastestHealthy");
+    expect(
+      LLMEndpointManager.prepareRoute().endpoints.map(
+        (endpoint) => endpoint.id,
+      ),
+    ).to.deep.equal(["b", "c", "a"]);
+
+    for (let i = 0; i < 3; i++) {
+      EndpointHealth.recordFailure("b", new Error("HTTP 503"), 50);
+    }
+    expect(EndpointHealth.getStats("b").circuit).to.equal("open");
+    expect(
+      LLMEndpointManager.prepareRoute().endpoints.map(
+        (endpoint) => endpoint.id,
+      ),
+    ).to.deep.equal(["c", "a"]);
+
+    LLMEndpointManager.setRoutingStrategy("leastRecentlyFailed");
+    EndpointHealth.recordFailure("c", new Error("timeout"), 50);
+    expect(
+      LLMEndpointManager.prepareRoute().endpoints.map(
+        (endpoint) => endpoint.id,
+      ),
+    ).to.deep.equal(["a", "c"]);
+
+    EndpointHealth.reset("b");
+    expect(EndpointHealth.getStats("b").circuit).to.equal("closed");
+  });
+
   it("throws clearly when no enabled endpoint exists", function () {
     LLMEndpointManager.saveEndpoints([makeEndpoint("a", false)]);
 
@@ -303,4 +401,50 @@ describe("LLMEndpointManager", function () {
       ),
     ).to.deep.equal(["c", "a"]);
   });
+
+  it("keeps endpoint API keys out of the stored JSON", function () {
+    LLMEndpointManager.saveEndpoints([makeEndpoint("a"), makeEndpoint("b")]);
+
+    const stored = JSON.parse(
+      Zotero.Prefs.get(prefName("llmEndpoints"), true) as string,
+    ) as LLMEndpoint[];
+    expect(stored.map((endpoint) => endpoint.apiKey)).to.deep.equal([
+      "secret:endpoint.a",
+      "secret:endpoint.b",
+    ]);
+    expect(
+      LLMEndpointManager.getEndpoints().map((endpoint) => endpoint.apiKey),
+    ).to.deep.equal(["sk-a", "sk-b"]);
+
+    const exported = JSON.parse(
+      LLMEndpointManager.exportEndpoints(),
+    ) as LLMEndpoint[];
+    expect(exported.map((endpoint) => endpoint.apiKey)).to.deep.equal(["", ""]);
+
+    LLMEndpointManager.importEndpoints(JSON.stringify(exported));
+    expect(
+      LLMEndpointManager.getEndpoints().map((endpoint) => endpoint.apiKey),
+    ).to.deep.equal(["sk-a", "sk-b"]);
+
+    LLMEndpointManager.saveEndpoints([]);
+  });
+
+  it("migrates plaintext endpoint keys to secret references", function () {
+    Zotero.Prefs.set(
+      prefName("llmEndpoints"),
+      JSON.stringify([makeEndpoint("plain")]),
+      true,
+    );
+
+    expect(LLMEndpointManager.migrateApiKeys()).to.equal(true);
+    expect(LLMEndpointManager.migrateApiKeys()).to.equal(false);
+    expect(
+      Zotero.Prefs.get(prefName("llmEndpoints"), true) as string,
+    ).not.to.contain("sk-plain");
+    expect(LLMEndpointManager.getEndpoint("plain")?.apiKey).to.equal(
+      "sk-plain",
+    );
+
+    LLMEndpointManager.saveEndpoints([]);
+  });
 });
@@ -99,6 +99,35 @@ describe("LLMNoteMetadataService", function () {
     });
   });
 
+  it("links a consensus block to the summaries it merged", function () {
+    const sources = ["block-1", "block-2"].map((blockId) =>
+      LLMNoteMetadataService.wrapHtml(
+        `<div>${blockId}</div>`,
+        metadata(blockId),
+      ),
+    );
+    const consensus = LLMNoteMetadataService.wrapHtml("<div>merged</div>", {
+      ...metadata("block-consensus"),
+      sourceBlockIds: ["block-1", "block-2"],
+    });
+    const html = [...sources, consensus].join("\n<hr/>\n");
+
+    const blocks = LLMNoteMetadataService.parseSummaryBlocks(html);
+    expect(blocks.map((block) => block.blockId)).to.deep.equal([
+      "block-1",
+      "block-2",
+      "block-consensus",
+    ]);
+    expect(blocks[2].metadata?.sourceBlockIds).to.deep.equal([
+      "block-1",
+      "block-2",
+    ]);
+    expect(blocks[0].metadata?.sourceBlockIds).to.equal(undefined);
+    expect(LLMNoteMetadataService.getLatest(html)?.blockId).to.equal(
+      "block-consensus",
+    );
+  });
+
   it("replaces one metadata block and keeps it parseable", function () {
     const wrapped = LLMNoteMetadataService.wrapHtml(
       "<h2>AI 总结</h2><p>old</p>",
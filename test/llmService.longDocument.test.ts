@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { config } from "../package.json";
+import { LLMEndpointManager } from "../src/modules/llmEndpointManager";
+import { LLMService } from "../src/modules/llmService";
+import type { ILlmProvider } from "../src/modules/llmproviders/ILlmProvider";
+import { ProviderRegistry } from "../src/modules/llmproviders/ProviderRegistry";
+
+const prefKeys = [
+  "llmEndpoints",
+  "llmRoutingStrategy",
+  "llmRoutingRules",
+  "llmEndpointHealth",
+  "llmReplayRecordPath",
+  "longDocumentConcurrency",
+];
+
+function prefName(key: string): string {
+  return `${config.prefsPrefix}.${key}`;
+}
+
+describe("LLMService long document", function () {
+  const originals = new Map<string, unknown>();
+  let originalProvider: ILlmProvider;
+
+  beforeEach(function () {
+    originalProvider = ProviderRegistry.get("openai-compat")!;
+    originals.clear();
+    for (const key of prefKeys) {
+      const fullKey = prefName(key);
+      originals.set(key, Zotero.Prefs.get(fullKey, true));
+      Zotero.Prefs.clear(fullKey, true);
+    }
+  });
+
+  afterEach(function () {
+    ProviderRegistry.register(originalProvider);
+    for (const key of prefKeys) {
+      const fullKey = prefName(key);
+      const value = originals.get(key);
+      if (value === undefined) Zotero.Prefs.clear(fullKey, true);
+      else Zotero.Prefs.set(fullKey, value as any, true);
+    }
+  });
+
+  it("sums the usage of every map and reduce call of a chunked summary", async function () {
+    const prompts: string[] = [];
+    const fake: ILlmProvider = {
+      id: "openai-compat",
+      capabilities: originalProvider.capabilities,
+      async generateSummary(_content, _isBase64, prompt, options) {
+        prompts.push(prompt || "");
+        // 同一请求内的多次用量事件取最大值，不应被重复累加
+        options.onUsage?.({ inputTokens: 5, outputTokens: 1, totalTokens: 6 });
+        options.onUsage?.({
+          inputTokens: 10,
+          outputTokens: 2,
+          totalTokens: 12,
+        });
+        return "note";
+      },
+      async chat() {
+        throw new Error("unexpected chat");
+      },
+      async testConnection() {
+        return "ok";
+      },
+    };
+    ProviderRegistry.register(fake);
+    LLMEndpointManager.saveEndpoints([
+      {
+        id: "endpoint-chunk",
+        name: "chunk",
+        providerType: "openai-compat",
+        apiUrl: "https://example.test/v1/chat/completions",
+        apiKey: "sk-test",
+        model: "test-model",
+        enabled: true,
+        longDocumentMode: "chunk",
+        contextLength: 2000,
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+    ]);
+
+    const body = "word ".repeat(700);
+    const response = await LLMService.generate({
+      task: "custom",
+      prompt: "Summarize",
+      content: {
+        kind: "text",
+        text: ["Introduction", "Methods", "Results"]
+          .map((title) => `# ${title}\n${body}`)
+          .join("\n"),
+      },
+    });
+
+    expect(prompts).to.have.length(4);
+    expect(response.usage).to.deep.include({
+      inputTokens: 40,
+      outputTokens: 8,
+      totalTokens: 48,
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { config } from "../package.json";
+import { EndpointHealth } from "../src/modules/endpointHealth";
+import { LLMEndpointManager } from "../src/modules/llmEndpointManager";
+import { LLMService } from "../src/modules/llmService";
+import type { ILlmProvider } from "../src/modules/llmproviders/ILlmProvider";
+import { ProviderRegistry } from "../src/modules/llmproviders/ProviderRegistry";
+import { RateLimiter } from "../src/modules/rateLimiter";
+
+const prefKeys = [
+  "llmEndpoints",
+  "llmRoutingStrategy",
+  "llmRoutingRules",
+  "llmEndpointHealth",
+  "llmReplayRecordPath",
+];
+
+function prefName(key: string): string {
+  return `${config.prefsPrefix}.${key}`;
+}
+
+function rateLimitError(): Error {
+  const error = new Error("HTTP 429: Too Many Requests") as Error & {
+    statusCode?: number;
+    retryAfterMs?: number;
+  };
+  error.statusCode = 429;
+  error.retryAfterMs = 0;
+  return error;
+}
+
+describe("LLMService rate limiting", function () {
+  const originals = new Map<string, unknown>();
+  let originalProvider: ILlmProvider;
+
+  beforeEach(function () {
+    originalProvider = ProviderRegistry.get("openai-compat")!;
+    originals.clear();
+    for (const key of prefKeys) {
+      const fullKey = prefName(key);
+      originals.set(key, Zotero.Prefs.get(fullKey, true));
+      Zotero.Prefs.clear(fullKey, true);
+    }
+    EndpointHealth.reset();
+    RateLimiter.reset();
+  });
+
+  afterEach(function () {
+    ProviderRegistry.register(originalProvider);
+    EndpointHealth.reset();
+    RateLimiter.reset();
+    for (const key of prefKeys) {
+      const fullKey = prefName(key);
+      const value = originals.get(key);
+      if (value === undefined) Zotero.Prefs.clear(fullKey, true);
+      else Zotero.Prefs.set(fullKey, value as any, true);
+    }
+  });
+
+  it("keeps an endpoint healthy when queued 429 retries end in success", async function () {
+    let calls = 0;
+    const fake: ILlmProvider = {
+      id: "openai-compat",
+      capabilities: originalProvider.capabilities,
+      async generateSummary() {
+        calls++;
+        if (calls <= 3) throw rateLimitError();
+        return "done";
+      },
+      async chat() {
+        throw new Error("unexpected chat");
+      },
+      async testConnection() {
+        return "ok";
+      },
+    };
+    ProviderRegistry.register(fake);
+    LLMEndpointManager.saveEndpoints([
+      {
+        id: "endpoint-limited",
+        name: "limited",
+        providerType: "openai-compat",
+        apiUrl: "https://example.test/v1/chat/completions",
+        apiKey: "sk-test",
+        model: "test-model",
+        enabled: true,
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+    ]);
+
+    const response = await LLMService.generate({
+      task: "custom",
+      prompt: "Summarize",
+      content: { kind: "text", text: "Paper body" },
+    });
+
+    expect(response.text).to.equal("done");
+    expect(calls).to.equal(4);
+    expect(EndpointHealth.getStats("endpoint-limited")).to.include({
+      requests: 1,
+      successRate: 1,
+      consecutiveFailures: 0,
+      circuit: "closed",
+    });
+  });
+});
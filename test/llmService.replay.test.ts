@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { config } from "../package.json";
+import { LLMEndpointManager } from "../src/modules/llmEndpointManager";
+import { LLMService } from "../src/modules/llmService";
+import type { ILlmProvider } from "../src/modules/llmproviders/ILlmProvider";
+import { ProviderRegistry } from "../src/modules/llmproviders/ProviderRegistry";
+import "../src/modules/llmproviders/ReplayProvider";
+import { ReplayFixtureFiles } from "../src/modules/llmproviders/shared/replayFixture";
+
+const prefKeys = [
+  "llmEndpoints",
+  "llmRoutingStrategy",
+  "llmRoutingRules",
+  "llmEndpointHealth",
+  "llmReplayRecordPath",
+  "multiModelSummaryEnabled",
+];
+
+function prefName(key: string): string {
+  return `${config.prefsPrefix}.${key}`;
+}
+
+function useEndpoint(providerType: "openai-compat" | "replay", apiUrl: string) {
+  LLMEndpointManager.saveEndpoints([
+    {
+      id: `endpoint-${providerType}`,
+      name: providerType,
+      providerType,
+      apiUrl,
+      apiKey: "sk-test",
+      model: "test-model",
+      enabled: true,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    },
+  ]);
+}
+
+describe("LLMService replay", function () {
+  const originals = new Map<string, unknown>();
+  let recordedProvider: ILlmProvider;
+  let fixturePath = "";
+
+  beforeEach(function () {
+    recordedProvider = ProviderRegistry.get("openai-compat")!;
+    originals.clear();
+    for (const key of prefKeys) {
+      const fullKey = prefName(key);
+      originals.set(key, Zotero.Prefs.get(fullKey, true));
+      Zotero.Prefs.clear(fullKey, true);
+    }
+    fixturePath = PathUtils.join(
+      Services.dirsvc.get("TmpD", Ci.nsIFile).path,
+      `ai-butler-replay-${Date.now()}.json`,
+    );
+  });
+
+  afterEach(async function () {
+    ProviderRegistry.register(recordedProvider);
+    for (const key of prefKeys) {
+      const fullKey = prefName(key);
+      const value = originals.get(key);
+      if (value === undefined) Zotero.Prefs.clear(fullKey, true);
+      else Zotero.Prefs.set(fullKey, value as any, true);
+    }
+    ReplayFixtureFiles.invalidate(fixturePath);
+    await IOUtils.remove(fixturePath, { ignoreAbsent: true });
+  });
+
+  it("replays a recorded generate call without calling the provider", async function () {
+    let calls = 0;
+    const fake: ILlmProvider = {
+      id: "openai-compat",
+      capabilities: ProviderRegistry.get("replay")!.capabilities,
+      async generateSummary(content, _isBase64, prompt, options, onProgress) {
+        calls++;
+        options.onUsage?.({
+          inputTokens: 30,
+          outputTokens: 6,
+          totalTokens: 36,
+        });
+        for (const chunk of ["Key ", "findings"]) await onProgress?.(chunk);
+        return `Key findings of ${content.length} chars (${prompt})`;
+      },
+      async chat() {
+        throw new Error("unexpected chat");
+      },
+      async testConnection() {
+        return "ok";
+      },
+    };
+    ProviderRegistry.register(fake);
+
+    const run = async () => {
+      const chunks: string[] = [];
+      const response = await LLMService.generate({
+        task: "custom",
+        prompt: "Summarize",
+        content: { kind: "text", text: "Paper body" },
+        onProgress: (chunk) => {
+          chunks.push(chunk);
+        },
+      });
+      return { response, chunks };
+    };
+
+    useEndpoint("openai-compat", "https://example.test/v1/chat/completions");
+    Zotero.Prefs.set(prefName("llmReplayRecordPath"), fixturePath, true);
+    const recorded = await run();
+
+    Zotero.Prefs.clear(prefName("llmReplayRecordPath"), true);
+    ProviderRegistry.register(recordedProvider);
+    useEndpoint("replay", fixturePath);
+    const replayed = await run();
+
+    expect(calls).to.equal(1);
+    expect(replayed.response.text).to.equal(recorded.response.text);
+    expect(replayed.chunks).to.deep.equal(["Key ", "findings"]);
+    expect(replayed.response.usage).to.deep.include({
+      inputTokens: 30,
+      outputTokens: 6,
+      totalTokens: 36,
+    });
+    expect(replayed.response.providerId).to.equal("replay");
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import {
+  detectSectionHeading,
+  estimateTokens,
+  getChunkTokenBudget,
+  mapWithConcurrency,
+  shouldChunkDocument,
+  splitDocumentIntoChunks,
+} from "../src/modules/longDocument";
+
+describe("LongDocument", function () {
+  it("detects markdown, numbered and well-known section headings", function () {
+    expect(detectSectionHeading("## 2.1 Dataset")).to.equal("2.1 Dataset");
+    expect(detectSectionHeading("3.2 Model Architecture")).to.equal(
+      "3.2 Model Architecture",
+    );
+    expect(detectSectionHeading("INTRODUCTION")).to.equal("INTRODUCTION");
+    expect(detectSectionHeading("References:")).to.equal("References");
+    expect(detectSectionHeading("第三章 实验设计")).to.equal("第三章 实验设计");
+    expect(detectSectionHeading("Chapter 4")).to.equal("Chapter 4");
+    expect(detectSectionHeading("2 相关工作")).to.equal("2 相关工作");
+
+    expect(detectSectionHeading("")).to.equal(null);
+    expect(
+      detectSectionHeading("We trained the model for 10 epochs."),
+    ).to.equal(null);
+    expect(detectSectionHeading("3 Results were mixed, see below.")).to.equal(
+      null,
+    );
+  });
+
+  it("estimates CJK text at one token per character", function () {
+    expect(estimateTokens("")).to.equal(0);
+    expect(estimateTokens("abcdefgh")).to.equal(2);
+    expect(estimateTokens("长文档")).to.equal(3);
+    expect(getChunkTokenBudget(100000)).to.equal(50000);
+    expect(getChunkTokenBudget(0)).to.equal(16000);
+    expect(getChunkTokenBudget(500)).to.equal(1000);
+    expect(shouldChunkDocument("a".repeat(4000), "", 1000)).to.equal(true);
+    expect(shouldChunkDocument("a".repeat(400), "", 1000)).to.equal(false);
+  });
+
+  it("splits at section boundaries and keeps every chunk within budget", function () {
+    const paragraph = "word ".repeat(800).trim();
+    const text = [
+      "Abstract",
+      paragraph,
+      "1 Introduction",
+      paragraph,
+      "2 Method",
+      paragraph,
+      "\fReferences",
+      "[1] A. Author. A paper. 2020.",
+    ].join("\n");
+
+    const chunks = splitDocumentIntoChunks(text, 1500);
+    expect(chunks.map((chunk) => chunk.title)).to.deep.equal([
+      "Abstract",
+      "1 Introduction",
+      "2 Method / References",
+    ]);
+    expect(chunks.map((chunk) => chunk.index)).to.deep.equal([0, 1, 2]);
+    for (const chunk of chunks) {
+      expect(chunk.tokens).to.be.at.most(1500);
+    }
+    expect(chunks[2].text).to.contain("[1] A. Author.");
+  });
+
+  it("falls back to paragraph and hard splits for oversized sections", function () {
+    const text = ["a".repeat(6000), "b".repeat(6000)].join("\n\n");
+    const byParagraph = splitDocumentIntoChunks(text, 1500);
+    expect(byParagraph).to.have.length(2);
+    expect(byParagraph[0].text).to.equal("a".repeat(6000));
+
+    const hardSplit = splitDocumentIntoChunks("c".repeat(10000), 1000);
+    expect(hardSplit).to.have.length(3);
+    expect(hardSplit.map((chunk) => chunk.text).join("")).to.equal(
+      "c".repeat(10000),
+    );
+  });
+
+  it("maps with bounded concurrency and preserves input order", async function () {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency(
+      [30, 10, 20, 5, 15],
+      2,
+      async (delay, index) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        running--;
+        return `${index}:${delay}`;
+      },
+    );
+    expect(results).to.deep.equal(["0:30", "1:10", "2:20", "3:5", "4:15"]);
+    expect(peak).to.equal(2);
+  });
+});
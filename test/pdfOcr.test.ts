@@ -0,0 +1,53 @@
+import { expect } from "chai";
+import {
+  buildOcrCommandArgs,
+  formatOcrText,
+  splitOcrPages,
+} from "../src/modules/pdfOcr";
+
+describe("PdfOcr", function () {
+  it("splits quoted arguments before substituting placeholders", function () {
+    expect(
+      buildOcrCommandArgs(`-l {lang} --sidecar "{output}" '{input}' {other}`, {
+        lang: "eng+chi_sim",
+        output: "/tmp/ocr dir/ocr.txt",
+        input: "/papers/scan 1.pdf",
+      }),
+    ).to.deep.equal([
+      "-l",
+      "eng+chi_sim",
+      "--sidecar",
+      "/tmp/ocr dir/ocr.txt",
+      "/papers/scan 1.pdf",
+      "{other}",
+    ]);
+  });
+
+  it("numbers pages by form feed and skips pages without text", function () {
+    expect(
+      splitOcrPages("Abstract\n\fbody text \f\f  \fReferences"),
+    ).to.deep.equal([
+      { page: 1, text: "Abstract" },
+      { page: 2, text: "body text" },
+      { page: 5, text: "References" },
+    ]);
+    expect(splitOcrPages("")).to.deep.equal([]);
+  });
+
+  it("keeps the engine note and page markers in the recognized text", function () {
+    expect(
+      formatOcrText({
+        engine: "command",
+        pages: [
+          { page: 1, text: "Abstract" },
+          { page: 4, text: " Results \n" },
+          { page: 5, text: "  " },
+        ],
+      }),
+    ).to.equal(
+      "[OCR text recognized by command, 2 page(s); may contain recognition errors]\n\n" +
+        "[Page 1]\nAbstract\n\n[Page 4]\nResults",
+    );
+    expect(formatOcrText({ engine: "command", pages: [] })).to.equal("");
+  });
+});
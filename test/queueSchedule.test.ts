@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import { QueueSchedule } from "../src/modules/queueSchedule";
+
+describe("QueueSchedule", function () {
+  // 2026-03-13 为周五
+  const friday = (hours: number, minutes = 0) =>
+    new Date(2026, 2, 13, hours, minutes, 0);
+
+  it("parses weekday ranges, lists and overnight time ranges", function () {
+    expect(
+      QueueSchedule.parseWindows("mon-fri 22:00-07:00; sat,sun"),
+    ).to.deep.equal([
+      { days: [1, 2, 3, 4, 5], start: 22 * 60, end: 7 * 60 },
+      { days: [0, 6], start: 0, end: 24 * 60 },
+    ]);
+    expect(QueueSchedule.parseWindows("fri-mon")).to.deep.equal([
+      { days: [0, 1, 5, 6], start: 0, end: 24 * 60 },
+    ]);
+    expect(QueueSchedule.parseWindows("  ")).to.deep.equal([]);
+    expect(() => QueueSchedule.parseWindows("someday 10:00-11:00")).to.throw();
+    expect(() => QueueSchedule.parseWindows("25:00-26:00")).to.throw();
+    expect(() => QueueSchedule.parseWindows("10:00-10:00")).to.throw();
+  });
+
+  it("treats overnight windows as belonging to the start day", function () {
+    const windows = QueueSchedule.parseWindows("fri 22:00-07:00");
+    expect(QueueSchedule.isWithin(windows, friday(23))).to.equal(true);
+    expect(QueueSchedule.isWithin(windows, friday(6))).to.equal(false);
+    expect(
+      QueueSchedule.isWithin(windows, new Date(2026, 2, 14, 6, 30)),
+    ).to.equal(true);
+    expect(
+      QueueSchedule.isWithin(windows, new Date(2026, 2, 14, 7, 0)),
+    ).to.equal(false);
+  });
+
+  it("blocks tasks outside their window or inside quiet hours", function () {
+    const config = {
+      enabled: true,
+      quietHours: "mon-fri 09:00-18:00",
+      windows: { deepRead: "22:00-07:00" },
+    };
+
+    expect(QueueSchedule.getBlock("summary", friday(8), config)).to.equal(null);
+    expect(QueueSchedule.getBlock("summary", friday(10), config)).to.include({
+      reason: "quiet-hours",
+    });
+    expect(
+      QueueSchedule.getBlock("summary", friday(10), config)?.nextAllowedAt,
+    ).to.deep.equal(friday(18));
+
+    const block = QueueSchedule.getBlock("deepRead", friday(20), config);
+    expect(block?.reason).to.equal("outside-window");
+    expect(block?.nextAllowedAt).to.deep.equal(friday(22));
+    expect(QueueSchedule.getBlock("deepRead", friday(23), config)).to.equal(
+      null,
+    );
+    expect(
+      QueueSchedule.getBlock("deepRead", friday(20), {
+        ...config,
+        enabled: false,
+      }),
+    ).to.equal(null);
+  });
+});
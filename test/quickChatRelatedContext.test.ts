@@ -2,8 +2,12 @@ import { expect } from "chai";
 import {
   buildQuickChatQuestionWithRelatedContext,
   createQuickChatRelatedContextSignature,
+  extractQuickChatQueryTerms,
+  fuseQuickChatRankings,
   mergeQuickChatRelatedItemRefs,
   resolveQuickChatRelatedContext,
+  resolveQuickChatRetrievedContext,
+  retrieveQuickChatRelatedItemRefs,
   validateQuickChatRelatedSelection,
   type QuickChatRelatedItemRef,
 } from "../src/modules/quickChatRelatedContext";
@@ -152,4 +156,77 @@ describe("quick-chat related context", function () {
       "summary:2",
     );
   });
+
+  it("extracts keyword terms from mixed-language questions", function () {
+    const terms = extractQuickChatQueryTerms(
+      "What are the limits of contrastive learning 对比学习在医学图像中的应用？",
+    );
+
+    expect(terms).to.include("contrastive");
+    expect(terms).to.include("learning");
+    expect(terms).to.not.include("what");
+    expect(terms).to.not.include("the");
+    expect(terms.some((term) => /[\u4e00-\u9fff]/.test(term))).to.equal(true);
+    expect(extractQuickChatQueryTerms("a b c")).to.deep.equal([]);
+  });
+
+  it("fuses rankings so items found by both retrievers come first", function () {
+    const fused = fuseQuickChatRankings([
+      [1, 2, 3],
+      [3, 4],
+    ]);
+
+    expect(fused[0].itemId).to.equal(3);
+    expect(fused.map((entry) => entry.itemId)).to.have.members([1, 2, 3, 4]);
+  });
+
+  it("retrieves refs within the selected scope", async function () {
+    const refs = await retrieveQuickChatRelatedItemRefs(
+      "segmentation benchmarks",
+      { libraryID: 1, collectionId: 5 },
+      {
+        async getItemById(id) {
+          return makeItem(id);
+        },
+        async semanticSearch() {
+          return [7, 2];
+        },
+        async keywordSearch(term) {
+          return term === "segmentation" ? [2, 9] : [9];
+        },
+        async getScopeItemIds() {
+          return new Set([2, 9]);
+        },
+      },
+    );
+
+    expect(refs.map((ref) => ref.itemId)).to.deep.equal([2, 9]);
+  });
+
+  it("falls back to full text for retrieved items without summaries", async function () {
+    const result = await resolveQuickChatRetrievedContext(
+      [makeRef(2), makeRef(3)],
+      {
+        async getItemById(id) {
+          return makeItem(id);
+        },
+        async getSummaryMarkdown(item) {
+          return item.id === 3 ? "summary of 3" : null;
+        },
+        async getFullText(item) {
+          return `full text of ${item.id}`;
+        },
+      },
+    );
+
+    expect(result.included.map((entry) => entry.ref.itemId)).to.deep.equal([
+      2, 3,
+    ]);
+    expect(result.included.map((entry) => entry.source)).to.deep.equal([
+      "fullText",
+      "summary",
+    ]);
+    expect(result.skipped).to.deep.equal([]);
+    expect(result.signature).to.equal("retrieval:2,3");
+  });
 });
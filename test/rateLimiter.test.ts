@@ -0,0 +1,181 @@
+import { expect } from "chai";
+import {
+  parseRetryAfter,
+  withHttpStatus,
+} from "../src/modules/llmproviders/shared/httpErrors";
+import {
+  RATE_LIMIT_DEFAULTS,
+  RateLimiter,
+  createRateBucket,
+  getRateLimitBackoffMs,
+  getRateLimitWaitMs,
+  takeFromRateBucket,
+} from "../src/modules/rateLimiter";
+
+function fakeXhr(status: number, headers: Record<string, string>) {
+  return {
+    status,
+    getResponseHeader: (name: string) => headers[name.toLowerCase()] ?? null,
+  } as unknown as XMLHttpRequest;
+}
+
+function rateLimitError(retryAfterMs?: number): Error {
+  const error = new Error("HTTP 429: Too Many Requests") as Error & {
+    statusCode?: number;
+    retryAfterMs?: number;
+  };
+  error.statusCode = 429;
+  if (retryAfterMs !== undefined) error.retryAfterMs = retryAfterMs;
+  return error;
+}
+
+describe("rate limiter", function () {
+  afterEach(function () {
+    RateLimiter.reset();
+  });
+
+  it("refills request and token buckets continuously", function () {
+    const limits = { requestsPerMinute: 2, tokensPerMinute: 1000 };
+    let bucket = createRateBucket(0);
+    expect(getRateLimitWaitMs(bucket, limits, 400, 0)).to.equal(0);
+
+    bucket = takeFromRateBucket(bucket, limits, 400, 0);
+    bucket = takeFromRateBucket(bucket, limits, 400, 0);
+    expect(bucket).to.include({ requests: 0, tokens: 200 });
+    // 一次请求额度需要 30 秒补回，400 token 中还差 200 个需要 12 秒
+    expect(getRateLimitWaitMs(bucket, limits, 400, 0)).to.equal(30000);
+    expect(getRateLimitWaitMs(bucket, limits, 400, 30000)).to.equal(0);
+
+    // 超过桶容量的请求按满桶计算
+    expect(getRateLimitWaitMs(createRateBucket(0), limits, 5000, 0)).to.equal(
+      0,
+    );
+    expect(getRateLimitWaitMs(bucket, {}, 5000, 0)).to.equal(0);
+  });
+
+  it("reads status and Retry-After from the response", function () {
+    expect(parseRetryAfter("3")).to.equal(3000);
+    expect(parseRetryAfter("Thu, 01 Jan 1970 00:00:10 GMT", 4000)).to.equal(
+      6000,
+    );
+    expect(parseRetryAfter("soon")).to.equal(undefined);
+
+    const error = withHttpStatus(
+      new Error("rate_limit_exceeded: slow down"),
+      fakeXhr(429, { "retry-after": "2" }),
+    );
+    expect(error).to.include({ statusCode: 429, retryAfterMs: 2000 });
+    expect(
+      withHttpStatus(new Error("x"), fakeXhr(429, { "retry-after-ms": "150" }))
+        .retryAfterMs,
+    ).to.equal(150);
+
+    expect(getRateLimitBackoffMs(rateLimitError(500), 3)).to.equal(500);
+    expect(getRateLimitBackoffMs(rateLimitError(), 1)).to.equal(
+      RATE_LIMIT_DEFAULTS.baseBackoffMs * 2,
+    );
+    expect(getRateLimitBackoffMs(rateLimitError(), 20)).to.equal(
+      RATE_LIMIT_DEFAULTS.maxBackoffMs,
+    );
+  });
+
+  it("retries 429 responses after Retry-After without failing the request", async function () {
+    let calls = 0;
+    const startedAt = Date.now();
+    const result = await RateLimiter.schedule(
+      { bucketKeys: ["endpoint:a"], limits: {} },
+      10,
+      undefined,
+      async () => {
+        calls++;
+        if (calls < 3) throw rateLimitError(20);
+        return "ok";
+      },
+    );
+    expect(result).to.equal("ok");
+    expect(calls).to.equal(3);
+    expect(Date.now() - startedAt).to.be.at.least(35);
+  });
+
+  it("queues concurrent requests behind a shared request quota", async function () {
+    const scope = {
+      bucketKeys: ["endpoint:a", "key:openai:x"],
+      limits: { requestsPerMinute: 60 * 50 },
+    };
+    const waits: string[] = [];
+    const order: number[] = [];
+    await Promise.all(
+      [1, 2, 3].map((id) =>
+        RateLimiter.schedule(
+          scope,
+          0,
+          undefined,
+          async () => {
+            order.push(id);
+          },
+          (_waitMs, reason) => waits.push(reason),
+        ),
+      ),
+    );
+    expect(order).to.deep.equal([1, 2, 3]);
+    expect(waits).to.deep.equal([]);
+
+    // 额度用尽后同一桶上的请求排队等待补充：每分钟 60000 token 即每毫秒 1 个
+    const limited = {
+      bucketKeys: ["endpoint:b"],
+      limits: { tokensPerMinute: 60000 },
+    };
+    const started = Date.now();
+    await RateLimiter.schedule(
+      limited,
+      60000,
+      undefined,
+      async () => undefined,
+    );
+    await RateLimiter.schedule(
+      limited,
+      50,
+      undefined,
+      async () => undefined,
+      (_waitMs, reason) => waits.push(reason),
+    );
+    expect(waits).to.deep.equal(["quota"]);
+    expect(Date.now() - started).to.be.at.least(40);
+  });
+
+  it("gives up on errors other than rate limits and on long Retry-After", async function () {
+    let calls = 0;
+    let message = "";
+    try {
+      await RateLimiter.schedule(
+        { bucketKeys: ["endpoint:c"], limits: {} },
+        0,
+        undefined,
+        async () => {
+          calls++;
+          throw new Error("HTTP 500: server error");
+        },
+      );
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    expect(calls).to.equal(1);
+    expect(message).to.contain("500");
+
+    calls = 0;
+    try {
+      await RateLimiter.schedule(
+        { bucketKeys: ["endpoint:d"], limits: {} },
+        0,
+        undefined,
+        async () => {
+          calls++;
+          throw rateLimitError(RATE_LIMIT_DEFAULTS.maxRetryAfterMs + 1);
+        },
+      );
+    } catch {
+      /* expected */
+    }
+    expect(calls).to.equal(1);
+  });
+});
@@ -0,0 +1,239 @@
+import { expect } from "chai";
+import type { ILlmProvider } from "../src/modules/llmproviders/ILlmProvider";
+import {
+  ReplayProvider,
+  createRecordingProvider,
+} from "../src/modules/llmproviders/ReplayProvider";
+import {
+  buildReplayRequest,
+  createReplayFixture,
+  findClosestReplayDifference,
+  hashReplayRequest,
+  type ReplayFixture,
+  type ReplayFixtureStore,
+} from "../src/modules/llmproviders/shared/replayFixture";
+import type { LLMOptions, LLMUsage } from "../src/modules/llmproviders/types";
+
+function memoryStore(): ReplayFixtureStore & { fixture: ReplayFixture } {
+  const fixture = createReplayFixture();
+  return {
+    fixture,
+    load: async () => fixture,
+    record: async (_path, hash, entry) => {
+      fixture.entries[hash] = entry;
+    },
+  };
+}
+
+function fakeProvider(): ILlmProvider {
+  return {
+    id: "fake",
+    async generateSummary(content, _isBase64, prompt, options, onProgress) {
+      options.onUsage?.({ inputTokens: 12, outputTokens: 4, totalTokens: 16 });
+      for (const chunk of ["Sum", "mary"]) await onProgress?.(chunk);
+      return `Summary of ${content} (${prompt})`;
+    },
+    async chat(_content, _isBase64, conversation) {
+      if (conversation.at(-1)?.content === "fail") {
+        throw Object.assign(new Error("HTTP 429: slow down"), {
+          statusCode: 429,
+          retryAfterMs: 1500,
+        });
+      }
+      return "reply";
+    },
+    async chatWithTools() {
+      return {
+        text: "",
+        toolCalls: [{ id: "c1", name: "search_items", arguments: { q: "x" } }],
+      };
+    },
+    async testConnection() {
+      return "ok";
+    },
+  };
+}
+
+const options: LLMOptions = { apiUrl: "/tmp/fixture.json", model: "m" };
+
+describe("Replay provider", function () {
+  it("hashes request content but not endpoint settings", function () {
+    const a = buildReplayRequest("generateSummary", {
+      content: "text",
+      isBase64: false,
+      prompt: "p",
+      options: { ...options, model: "other", apiKey: "k" },
+    });
+    const b = buildReplayRequest("generateSummary", {
+      content: "text",
+      isBase64: false,
+      prompt: "p",
+      options,
+    });
+    expect(hashReplayRequest(a)).to.equal(hashReplayRequest(b));
+    expect(hashReplayRequest(a)).to.not.equal(
+      hashReplayRequest({ ...a, prompt: "q" }),
+    );
+
+    const pdf = buildReplayRequest("generateSummary", {
+      content: "JVBERi0xLjQK",
+      isBase64: true,
+      prompt: "p",
+    });
+    expect(pdf.content).to.match(/^base64:[0-9a-f]{28}$/);
+  });
+
+  it("records streamed chunks and usage and replays them offline", async function () {
+    const store = memoryStore();
+    const recording = createRecordingProvider(fakeProvider(), "f", store);
+    const recordedChunks: string[] = [];
+    const text = await recording.generateSummary(
+      "paper",
+      false,
+      "prompt",
+      options,
+      (chunk) => {
+        recordedChunks.push(chunk);
+      },
+    );
+    expect(text).to.equal("Summary of paper (prompt)");
+    expect(Object.values(store.fixture.entries)[0]).to.deep.include({
+      method: "generateSummary",
+      chunks: ["Sum", "mary"],
+      text,
+    });
+
+    const replay = new ReplayProvider(store);
+    const replayedChunks: string[] = [];
+    let usage: LLMUsage | undefined;
+    const replayed = await replay.generateSummary(
+      "paper",
+      false,
+      "prompt",
+      { ...options, onUsage: (reported) => (usage = reported) },
+      (chunk) => {
+        replayedChunks.push(chunk);
+      },
+    );
+    expect(replayed).to.equal(text);
+    expect(replayedChunks).to.deep.equal(recordedChunks);
+    expect(usage).to.deep.equal({
+      inputTokens: 12,
+      outputTokens: 4,
+      totalTokens: 16,
+    });
+  });
+
+  it("replays tool calls and recorded errors", async function () {
+    const store = memoryStore();
+    const recording = createRecordingProvider(fakeProvider(), "f", store);
+    const toolOptions: LLMOptions = {
+      ...options,
+      tools: [
+        {
+          name: "search_items",
+          description: "Search",
+          parameters: { type: "object", properties: {} },
+        },
+      ],
+    };
+    const conversation = [{ role: "user" as const, content: "find x" }];
+    await recording.chatWithTools!("", false, conversation, toolOptions);
+    let recordedError: any;
+    try {
+      await recording.chat("", false, [{ role: "user", content: "fail" }], {
+        ...options,
+      });
+    } catch (error) {
+      recordedError = error;
+    }
+    expect(recordedError?.statusCode).to.equal(429);
+
+    const replay = new ReplayProvider(store);
+    const turn = await replay.chatWithTools(
+      "",
+      false,
+      conversation,
+      toolOptions,
+    );
+    expect(turn.toolCalls[0]).to.include({ id: "c1", name: "search_items" });
+
+    let replayedError: any;
+    try {
+      await replay.chat("", false, [{ role: "user", content: "fail" }], {
+        ...options,
+      });
+    } catch (error) {
+      replayedError = error;
+    }
+    expect(replayedError).to.include({
+      message: "HTTP 429: slow down",
+      statusCode: 429,
+      retryAfterMs: 1500,
+    });
+  });
+
+  it("keeps a readable request summary and names the fields that differ", async function () {
+    const store = memoryStore();
+    const recording = createRecordingProvider(fakeProvider(), "f", store);
+    const longPaper = "x".repeat(5000);
+    await recording.generateSummary(longPaper, false, "prompt", options);
+    await recording.chat(
+      "",
+      false,
+      [
+        { role: "user", content: "first" },
+        { role: "assistant", content: "reply" },
+        { role: "user", content: "second" },
+      ],
+      options,
+    );
+
+    const summary = Object.values(store.fixture.entries)[0].request!;
+    expect(summary).to.include({ method: "generateSummary", prompt: "prompt" });
+    expect(summary.content!.length).to.be.lessThan(300);
+    expect(summary.content).to.include("5000 chars");
+
+    expect(
+      findClosestReplayDifference(
+        buildReplayRequest("generateSummary", {
+          content: longPaper,
+          isBase64: false,
+          prompt: "changed",
+        }),
+        store.fixture,
+      ),
+    ).to.deep.equal(["prompt"]);
+    expect(
+      findClosestReplayDifference(
+        buildReplayRequest("chat", {
+          content: "",
+          isBase64: false,
+          conversation: [
+            { role: "user", content: "first" },
+            { role: "assistant", content: "reply" },
+            { role: "user", content: "edited" },
+          ],
+        }),
+        store.fixture,
+      ),
+    ).to.deep.equal(["conversation[2]"]);
+    expect(
+      findClosestReplayDifference(
+        buildReplayRequest("generateWithImages", { prompt: "p", images: [] }),
+        store.fixture,
+      ),
+    ).to.equal(null);
+  });
+
+  it("fails when a request was never recorded", async function () {
+    const replay = new ReplayProvider(memoryStore());
+    let failed = false;
+    try {
+      await replay.chat("", false, [{ role: "user", content: "new" }], options);
+    } catch {
+      failed = true;
+    }
+    expect(failed).to.equal(true);
+  });
+});
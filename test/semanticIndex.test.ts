@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import {
+  cosineSimilarity,
+  decodeVector,
+  encodeVector,
+  hashText,
+  noteHtmlToText,
+  rankSemanticMatches,
+  splitNotePassages,
+  type SemanticPassage,
+} from "../src/modules/semanticIndex";
+import {
+  deriveEmbeddingsUrl,
+  deriveOllamaEmbedUrl,
+} from "../src/modules/llmproviders/EmbeddingProviders";
+
+function passage(
+  itemId: number,
+  text: string,
+  vector: number[],
+  kind: SemanticPassage["kind"] = "summary",
+): SemanticPassage {
+  return { noteId: itemId * 10, itemId, kind, title: "", text, vector };
+}
+
+describe("SemanticIndex", function () {
+  it("converts note HTML into paragraph text without metadata comments", function () {
+    const html = [
+      "<!-- ai-butler-llm-meta: {} -->",
+      "<h2>Method</h2>",
+      "<p>Uses <strong>contrastive</strong>&nbsp;learning &amp; augmentation.</p>",
+      "<ul><li>Small data</li><li>Medical images</li></ul>",
+    ].join("");
+    expect(noteHtmlToText(html)).to.equal(
+      [
+        "## Method",
+        "Uses contrastive learning & augmentation.",
+        "Small data",
+        "Medical images",
+      ].join("\n"),
+    );
+  });
+
+  it("splits notes into titled passages within the token budget", function () {
+    const body = "token ".repeat(300).trim();
+    const passages = splitNotePassages(
+      ["## Background", body, "## Results", body].join("\n"),
+      200,
+    );
+    expect(passages.length).to.be.greaterThan(2);
+    expect(passages[0].title).to.equal("Background");
+    expect(passages[passages.length - 1].title).to.equal("Results");
+    expect(splitNotePassages("   ")).to.deep.equal([]);
+  });
+
+  it("hashes text and round-trips vectors through base64", function () {
+    expect(hashText("abc")).to.equal(hashText("abc"));
+    expect(hashText("abc")).to.not.equal(hashText("abd"));
+    expect(hashText("")).to.match(/^[0-9a-f]{8}$/);
+
+    const decoded = decodeVector(encodeVector([0.5, -1, 2.25]));
+    expect(Array.from(decoded)).to.deep.equal([0.5, -1, 2.25]);
+  });
+
+  it("scores cosine similarity and ignores mismatched dimensions", function () {
+    expect(cosineSimilarity([1, 0], [1, 0])).to.equal(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).to.equal(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).to.equal(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).to.equal(0);
+  });
+
+  it("ranks items by their best passage and keeps the top passages", function () {
+    const results = rankSemanticMatches(
+      [1, 0],
+      [
+        passage(1, "weak", [0.2, 1]),
+        passage(2, "best", [1, 0.1], "deepRead"),
+        passage(1, "strong", [1, 0.3]),
+        passage(1, "medium", [1, 1]),
+        passage(3, "opposite", [-1, 0]),
+      ],
+      5,
+      2,
+    );
+    expect(results.map((result) => result.itemId)).to.deep.equal([2, 1]);
+    expect(results[0].kind).to.equal("deepRead");
+    expect(results[1].passages.map((match) => match.text)).to.deep.equal([
+      "strong",
+      "medium",
+    ]);
+    expect(rankSemanticMatches([1, 0], [passage(1, "a", [1, 0])], 0)).to.eql(
+      [],
+    );
+  });
+
+  it("derives embedding endpoints from base or chat URLs", function () {
+    expect(deriveEmbeddingsUrl("https://api.openai.com/v1")).to.equal(
+      "https://api.openai.com/v1/embeddings",
+    );
+    expect(
+      deriveEmbeddingsUrl("https://api.example.com/v1/chat/completions"),
+    ).to.equal("https://api.example.com/v1/embeddings");
+    expect(deriveEmbeddingsUrl("https://gateway.example.com/")).to.equal(
+      "https://gateway.example.com/v1/embeddings",
+    );
+    expect(deriveOllamaEmbedUrl("http://localhost:11434/v1")).to.equal(
+      "http://localhost:11434/api/embed",
+    );
+    expect(deriveOllamaEmbedUrl("")).to.equal(
+      "http://localhost:11434/api/embed",
+    );
+  });
+});
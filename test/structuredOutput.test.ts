@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import {
+  buildAnthropicToolForcing,
+  buildChatCompletionsResponseFormat,
+  parseStructuredOutput,
+  toGeminiResponseSchema,
+  validateJsonSchema,
+} from "../src/modules/llmproviders/shared/structuredOutput";
+import {
+  buildTableFillSchema,
+  parseMarkdownTableTemplate,
+  renderFilledMarkdownTable,
+} from "../src/modules/structuredOutputSchemas";
+import {
+  CHAPTER_STRUCTURE_SCHEMA,
+  chapterStructureFromData,
+} from "../src/utils/prompts";
+
+const TEMPLATE = [
+  "| Dimension | Content |",
+  "|------|------|",
+  "| Method | |",
+  "| Findings | |",
+].join("\n");
+
+describe("structured output", function () {
+  it("validates values against the schema subset", function () {
+    const schema = CHAPTER_STRUCTURE_SCHEMA.schema;
+    expect(
+      validateJsonSchema(
+        { chapters: [{ id: "ch1", title_zh: "引言", title_en: "Intro" }] },
+        schema,
+      ),
+    ).to.deep.equal([]);
+    expect(
+      validateJsonSchema(
+        { chapters: [{ id: 1, title_zh: "引言" }], extra: true },
+        schema,
+      ),
+    ).to.deep.equal([
+      "$.chapters[0].title_en is required",
+      "$.chapters[0].id must be string, got number",
+      "$.extra is not allowed",
+    ]);
+    expect(validateJsonSchema({ chapters: [] }, schema)).to.deep.equal([
+      "$.chapters must have at least 1 items",
+    ]);
+  });
+
+  it("extracts JSON wrapped in code fences or prose", function () {
+    const schema = { type: "object" as const, required: ["a"] };
+    const fenced = parseStructuredOutput(
+      'Here:\n```json\n{"a": 1}\n```',
+      schema,
+    );
+    expect(fenced).to.deep.include({ ok: true, value: { a: 1 } });
+
+    const prose = parseStructuredOutput('Sure! {"a": [1, 2]} Done.', schema);
+    expect(prose).to.deep.include({ ok: true, json: '{"a": [1, 2]}' });
+
+    expect(parseStructuredOutput("no json here", schema)).to.deep.equal({
+      ok: false,
+      errors: ["the response does not contain valid JSON"],
+    });
+    expect(parseStructuredOutput('{"b": 1}', schema)).to.deep.equal({
+      ok: false,
+      errors: ["$.a is required"],
+    });
+  });
+
+  it("maps schemas to provider-native request parameters", function () {
+    const spec = CHAPTER_STRUCTURE_SCHEMA;
+    expect(buildChatCompletionsResponseFormat(spec)).to.deep.include({
+      type: "json_schema",
+    });
+    expect(buildAnthropicToolForcing(spec).tool_choice).to.deep.equal({
+      type: "tool",
+      name: "chapter_structure",
+    });
+
+    const gemini = toGeminiResponseSchema(spec.schema) as any;
+    expect(gemini.type).to.equal("OBJECT");
+    expect(gemini.additionalProperties).to.equal(undefined);
+    expect(gemini.properties.chapters.items.propertyOrdering).to.deep.equal([
+      "id",
+      "title_zh",
+      "title_en",
+    ]);
+  });
+
+  it("fills table templates cell by cell and keeps template labels", function () {
+    const template = parseMarkdownTableTemplate(TEMPLATE)!;
+    expect(template.header).to.deep.equal(["Dimension", "Content"]);
+    expect(template.rows).to.deep.equal([
+      ["Method", ""],
+      ["Findings", ""],
+    ]);
+    expect(parseMarkdownTableTemplate("Fill in the method.")).to.equal(null);
+
+    const schema = buildTableFillSchema(template).schema;
+    const filled = {
+      rows: [
+        ["ignored", "Contrastive | pretraining"],
+        ["Findings", "Better\nrecall"],
+      ],
+    };
+    expect(validateJsonSchema(filled, schema)).to.deep.equal([]);
+    expect(validateJsonSchema({ rows: [["a", "b"]] }, schema)).to.deep.equal([
+      "$.rows must have at least 2 items",
+    ]);
+    expect(renderFilledMarkdownTable(template, filled)).to.equal(
+      [
+        "| Dimension | Content |",
+        "| ------ | ------ |",
+        "| Method | Contrastive \\| pretraining |",
+        "| Findings | Better<br>recall |",
+      ].join("\n"),
+    );
+  });
+
+  it("reads chapter plans from structured data", function () {
+    expect(
+      chapterStructureFromData({
+        chapters: [{ id: "ch1", title_zh: "方法", title_en: "Method" }],
+      }),
+    ).to.deep.equal({
+      source: "json",
+      chapters: [{ id: "ch1", title_zh: "方法", title_en: "Method" }],
+    });
+    expect(chapterStructureFromData({ chapters: [] })).to.equal(null);
+    expect(chapterStructureFromData(undefined)).to.equal(null);
+  });
+});
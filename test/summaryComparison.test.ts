@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import {
+  alignSummarySections,
+  buildSummaryComparison,
+  diffSummaryWords,
+  extractSummarySections,
+} from "../src/modules/summaryComparison";
+
+describe("Summary comparison", function () {
+  it("splits a summary block by headings and skips the note title", function () {
+    const sections = extractSummarySections(
+      [
+        "<h2>AI 管家 - Paper</h2>",
+        "<div><h3>1. Background</h3><p>Old methods are slow.</p>",
+        "<h3>2. Method</h3><ul><li>Sparse attention</li><li>Distillation &amp; pruning</li></ul></div>",
+      ].join(""),
+    );
+    expect(sections).to.deep.equal([
+      { heading: "1. Background", text: "Old methods are slow." },
+      {
+        heading: "2. Method",
+        text: "- Sparse attention\n- Distillation & pruning",
+      },
+    ]);
+  });
+
+  it("aligns sections by normalized heading and keeps unique sections in place", function () {
+    const rows = alignSummarySections([
+      [
+        { heading: "1. Background", text: "a" },
+        { heading: "2. Method", text: "b" },
+        { heading: "3. Results", text: "c" },
+      ],
+      [
+        { heading: "Background", text: "x" },
+        { heading: "Limitations", text: "y" },
+        { heading: "Results:", text: "z" },
+      ],
+    ]);
+    expect(
+      rows.map((row) => [
+        row.heading,
+        ...row.cells.map((cell) => cell?.text ?? null),
+      ]),
+    ).to.deep.equal([
+      ["1. Background", "a", "x"],
+      ["Limitations", null, "y"],
+      ["2. Method", "b", null],
+      ["3. Results", "c", "z"],
+    ]);
+  });
+
+  it("diffs English by word and Chinese by character", function () {
+    expect(
+      diffSummaryWords(
+        "The model improves accuracy by 3%.",
+        "The model improves recall by 5%.",
+      ),
+    ).to.deep.equal([
+      { type: "equal", text: "The model improves " },
+      { type: "delete", text: "accuracy" },
+      { type: "insert", text: "recall" },
+      { type: "equal", text: " by " },
+      { type: "delete", text: "3" },
+      { type: "insert", text: "5" },
+      { type: "equal", text: "%." },
+    ]);
+    expect(diffSummaryWords("准确率提升", "召回率提升")).to.deep.equal([
+      { type: "delete", text: "准确" },
+      { type: "insert", text: "召回" },
+      { type: "equal", text: "率提升" },
+    ]);
+  });
+
+  it("diffs every column against the first one", function () {
+    const rows = buildSummaryComparison([
+      "<h2>Title</h2><h3>Method</h3><p>uses graphs</p>",
+      "<h2>Title</h2><h3>Method</h3><p>uses trees</p><h3>Extra</h3><p>only here</p>",
+    ]);
+    expect(rows[0].cells[0]).to.deep.equal({ text: "uses graphs" });
+    expect(rows[0].cells[1]?.diff).to.deep.equal([
+      { type: "equal", text: "uses " },
+      { type: "delete", text: "graphs" },
+      { type: "insert", text: "trees" },
+    ]);
+    expect(rows[1]).to.deep.equal({
+      heading: "Extra",
+      cells: [null, { text: "only here" }],
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { expect } from "chai";
+import { config } from "../package.json";
+import {
+  TaskQueueManager,
+  TaskStatus,
+  compareQueuedTasks,
+  getTaskDependencyState,
+  getTaskPriorityLevel,
+  type TaskItem,
+} from "../src/modules/taskQueue";
+
+type QueueInternals = {
+  tasks: Map<string, TaskItem>;
+  completeCallbacks: Set<(...args: any[]) => void>;
+  progressCallbacks: Set<(...args: any[]) => void>;
+  moveTask(taskId: string, beforeTaskId: string | null): Promise<void>;
+  filterTasksByDependencies(tasks: TaskItem[]): Promise<TaskItem[]>;
+  retryTask(taskId: string): Promise<void>;
+  addDeepReadTask(item: Zotero.Item, priority?: boolean): Promise<string>;
+  saveToStorage(): Promise<void>;
+};
+
+const scheduleEnabledPref = `${config.prefsPrefix}.queueScheduleEnabled`;
+const scheduleWindowsPref = `${config.prefsPrefix}.queueScheduleWindows`;
+
+function createQueueInternals(tasks: TaskItem[]): QueueInternals {
+  const manager = Object.create(TaskQueueManager.prototype) as QueueInternals;
+  manager.tasks = new Map(tasks.map((task) => [task.id, task]));
+  manager.completeCallbacks = new Set();
+  manager.progressCallbacks = new Set();
+  manager.saveToStorage = async () => {};
+  Object.assign(manager, {
+    isRunning: true,
+    abortingTasks: new Set(),
+    sharedExtractionHolds: new Map(),
+  });
+  return manager;
+}
+
+function createTask(
+  id: string,
+  status: TaskStatus,
+  overrides: Partial<TaskItem> = {},
+): TaskItem {
+  return {
+    id,
+    itemId: 1,
+    title: id,
+    status,
+    progress: 0,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    retryCount: 0,
+    maxRetries: 1,
+    ...overrides,
+  };
+}
+
+describe("TaskQueue priorities and dependencies", function () {
+  it("orders queued tasks by status, priority level, manual order and age", function () {
+    const older = new Date("2026-01-01T00:00:00Z");
+    const newer = new Date("2026-01-02T00:00:00Z");
+    const tasks = [
+      createTask("pending-new", TaskStatus.PENDING, { createdAt: newer }),
+      createTask("pending-old", TaskStatus.PENDING, { createdAt: older }),
+      createTask("pending-high", TaskStatus.PENDING, {
+        createdAt: newer,
+        priorityLevel: 5,
+      }),
+      createTask("pending-moved", TaskStatus.PENDING, {
+        createdAt: newer,
+        queueOrder: 0,
+      }),
+      createTask("priority", TaskStatus.PRIORITY, {
+        createdAt: newer,
+        priorityLevel: 1,
+      }),
+    ];
+
+    expect(tasks.sort(compareQueuedTasks).map((task) => task.id)).to.deep.equal(
+      [
+        "priority",
+        "pending-high",
+        "pending-moved",
+        "pending-old",
+        "pending-new",
+      ],
+    );
+    expect(getTaskPriorityLevel({})).to.equal(3);
+    expect(getTaskPriorityLevel({ priorityLevel: 9 })).to.equal(5);
+  });
+
+  it("reports ready, waiting and failed dependency states", function () {
+    const tasks = new Map<string, TaskItem>([
+      ["done", createTask("done", TaskStatus.COMPLETED)],
+      ["running", createTask("running", TaskStatus.PROCESSING)],
+      ["broken", createTask("broken", TaskStatus.FAILED)],
+    ]);
+    const lookup = (taskId: string) => tasks.get(taskId);
+
+    expect(
+      getTaskDependencyState({ dependsOn: ["done", "deleted"] }, lookup),
+    ).to.deep.equal({ state: "ready", taskIds: [] });
+    expect(
+      getTaskDependencyState({ dependsOn: ["done", "running"] }, lookup),
+    ).to.deep.equal({ state: "waiting", taskIds: ["running"] });
+    expect(
+      getTaskDependencyState({ dependsOn: ["running", "broken"] }, lookup),
+    ).to.deep.equal({ state: "failed", taskIds: ["broken"] });
+  });
+
+  it("moves a dragged task before its target and adopts the target's priority", async function () {
+    const first = createTask("first", TaskStatus.PRIORITY, {
+      priorityLevel: 4,
+    });
+    const second = createTask("second", TaskStatus.PENDING);
+    const third = createTask("third", TaskStatus.PENDING, {
+      createdAt: new Date("2026-01-03T00:00:00Z"),
+    });
+    const manager = createQueueInternals([first, second, third]);
+
+    await manager.moveTask("third", "first");
+
+    expect(third.status).to.equal(TaskStatus.PRIORITY);
+    expect(third.priorityLevel).to.equal(4);
+    expect(
+      [first, second, third].sort(compareQueuedTasks).map((task) => task.id),
+    ).to.deep.equal(["third", "first", "second"]);
+  });
+
+  it("holds dependents until their prerequisite completes and fails them when it fails", async function () {
+    const summary = createTask("summary", TaskStatus.PENDING);
+    const image = createTask("image", TaskStatus.PRIORITY, {
+      dependsOn: ["summary"],
+    });
+    const manager = createQueueInternals([summary, image]);
+
+    let ready = await manager.filterTasksByDependencies([image, summary]);
+    expect(ready.map((task) => task.id)).to.deep.equal(["summary"]);
+    expect(image.stage).to.equal("dependency-waiting");
+
+    summary.status = TaskStatus.COMPLETED;
+    ready = await manager.filterTasksByDependencies([image]);
+    expect(ready.map((task) => task.id)).to.deep.equal(["image"]);
+
+    summary.status = TaskStatus.FAILED;
+    ready = await manager.filterTasksByDependencies([image]);
+    expect(ready).to.deep.equal([]);
+    expect(image.status).to.equal(TaskStatus.FAILED);
+    expect(image.retryCount).to.equal(0);
+  });
+
+  it("revives dependents that failed with their prerequisite when it is retried", async function () {
+    const summary = createTask("summary", TaskStatus.FAILED);
+    const image = createTask("image", TaskStatus.PENDING, {
+      dependsOn: ["summary"],
+    });
+    const mindmap = createTask("mindmap", TaskStatus.FAILED, {
+      itemId: 2,
+      dependsOn: ["image"],
+    });
+    const unrelated = createTask("unrelated", TaskStatus.FAILED);
+    const manager = createQueueInternals([summary, image, mindmap, unrelated]);
+
+    await manager.filterTasksByDependencies([image]);
+    expect(image.status).to.equal(TaskStatus.FAILED);
+
+    await manager.retryTask("summary");
+
+    expect(summary.status).to.equal(TaskStatus.PRIORITY);
+    expect(image.status).to.equal(TaskStatus.PRIORITY);
+    expect(image.error).to.equal(undefined);
+    expect(mindmap.status).to.equal(TaskStatus.PRIORITY);
+    expect(unrelated.status).to.equal(TaskStatus.FAILED);
+    const ready = await manager.filterTasksByDependencies([image, summary]);
+    expect(ready.map((task) => task.id)).to.deep.equal(["summary"]);
+  });
+
+  describe("immediate runs", function () {
+    let originalEnabled: unknown;
+    let originalWindows: unknown;
+
+    beforeEach(function () {
+      originalEnabled = Zotero.Prefs.get(scheduleEnabledPref, true);
+      originalWindows = Zotero.Prefs.get(scheduleWindowsPref, true);
+    });
+
+    afterEach(function () {
+      for (const [key, value] of [
+        [scheduleEnabledPref, originalEnabled],
+        [scheduleWindowsPref, originalWindows],
+      ] as const) {
+        if (value === undefined) Zotero.Prefs.clear(key, true);
+        else Zotero.Prefs.set(key, value as any, true);
+      }
+    });
+
+    it("keeps a priority task queued when it is added outside its time window", async function () {
+      // 只允许在今天以外的日子运行 AI 精读
+      const otherDays = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"]
+        .filter((_, day) => day !== new Date().getDay())
+        .join(",");
+      Zotero.Prefs.set(scheduleEnabledPref, true, true);
+      Zotero.Prefs.set(
+        scheduleWindowsPref,
+        JSON.stringify({ deepRead: otherDays }),
+        true,
+      );
+      const executed: string[] = [];
+      const manager = createQueueInternals([]);
+      Object.assign(manager, {
+        deletedFixedTasks: new Map(),
+        clearedDeletedFixedTaskKeys: new Set(),
+        shouldSkipNewFixedTaskForExistingArtifact: async () => false,
+        executeTask: async (taskId: string) => {
+          executed.push(taskId);
+          return false;
+        },
+      });
+      const item = (id: number) =>
+        ({ id, getField: () => `Paper ${id}` }) as unknown as Zotero.Item;
+
+      const blockedId = await manager.addDeepReadTask(item(1), true);
+      expect(executed).to.deep.equal([]);
+      expect(manager.tasks.get(blockedId)).to.include({
+        status: TaskStatus.PRIORITY,
+        stage: "scheduled",
+      });
+
+      Zotero.Prefs.set(scheduleEnabledPref, false, true);
+      const readyId = await manager.addDeepReadTask(item(2), true);
+      expect(executed).to.deep.equal([readyId]);
+    });
+  });
+});
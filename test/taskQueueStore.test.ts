@@ -0,0 +1,78 @@
+import { expect } from "chai";
+import {
+  TaskStatus,
+  selectExpiredTaskIds,
+  type TaskItem,
+} from "../src/modules/taskQueue";
+import { TaskQueueStore } from "../src/modules/taskQueueStore";
+
+const legacyPref = "extensions.zotero.aibutler.taskQueue";
+
+function createTask(
+  id: string,
+  status: TaskStatus,
+  completedDay?: number,
+): Pick<TaskItem, "id" | "status" | "createdAt" | "completedAt"> {
+  return {
+    id,
+    status,
+    createdAt: new Date(2026, 0, 1),
+    completedAt: completedDay ? new Date(2026, 0, completedDay) : undefined,
+  };
+}
+
+describe("TaskQueueStore", function () {
+  let originalLegacy: unknown;
+
+  beforeEach(function () {
+    originalLegacy = Zotero.Prefs.get(legacyPref, true);
+  });
+
+  afterEach(function () {
+    if (typeof originalLegacy === "string") {
+      Zotero.Prefs.set(legacyPref, originalLegacy, true);
+    } else {
+      Zotero.Prefs.clear(legacyPref, true);
+    }
+  });
+
+  it("reads tasks and deletion markers from the legacy pref snapshot", function () {
+    Zotero.Prefs.set(
+      legacyPref,
+      JSON.stringify({
+        tasks: [{ id: "summary-task-1", status: "completed" }],
+        deletedFixedTasks: [{ itemId: 2, taskType: "deepRead" }],
+        savedAt: "2026-01-01T00:00:00.000Z",
+      }),
+      true,
+    );
+    expect(TaskQueueStore.readLegacySnapshot()).to.deep.equal({
+      tasks: [{ id: "summary-task-1", status: "completed" }],
+      deletedFixedTasks: [{ itemId: 2, taskType: "deepRead" }],
+    });
+
+    Zotero.Prefs.set(legacyPref, "{not json", true);
+    expect(TaskQueueStore.readLegacySnapshot()).to.equal(null);
+
+    TaskQueueStore.clearLegacySnapshot();
+    expect(TaskQueueStore.readLegacySnapshot()).to.equal(null);
+  });
+
+  it("expires the oldest finished tasks beyond the history limit", function () {
+    const tasks = [
+      createTask("done-old", TaskStatus.COMPLETED, 2),
+      createTask("failed-mid", TaskStatus.FAILED, 5),
+      createTask("done-new", TaskStatus.COMPLETED, 9),
+      createTask("pending", TaskStatus.PENDING),
+    ];
+
+    expect(selectExpiredTaskIds(tasks, 1)).to.deep.equal([
+      "failed-mid",
+      "done-old",
+    ]);
+    expect(
+      selectExpiredTaskIds(tasks, 1, new Set(["failed-mid"])),
+    ).to.deep.equal(["done-old"]);
+    expect(selectExpiredTaskIds(tasks, 0)).to.deep.equal([]);
+  });
+});
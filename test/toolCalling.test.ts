@@ -0,0 +1,298 @@
+import { expect } from "chai";
+import {
+  buildAnthropicToolParams,
+  buildGeminiToolParams,
+  parseAnthropicToolTurn,
+  parseChatCompletionsToolTurn,
+  parseGeminiToolTurn,
+  parseResponsesToolTurn,
+  toAnthropicToolMessages,
+  toChatCompletionsToolMessages,
+  toGeminiToolContents,
+  toResponsesToolInput,
+} from "../src/modules/llmproviders/shared/toolCalling";
+import type {
+  ConversationMessage,
+  LLMToolDefinition,
+} from "../src/modules/llmproviders/types";
+import {
+  createQuickChatToolExecutor,
+  findQuickChatToolCollection,
+  formatQuickChatToolItems,
+  type QuickChatToolDeps,
+} from "../src/modules/quickChatTools";
+
+const call = { id: "call_1", name: "search_items", arguments: { query: "x" } };
+
+const conversation: ConversationMessage[] = [
+  { role: "user", content: "question" },
+  { role: "assistant", content: "", toolCalls: [call] },
+  {
+    role: "user",
+    content: "",
+    toolResults: [{ callId: "call_1", name: "search_items", content: "hits" }],
+  },
+];
+
+const tool: LLMToolDefinition = {
+  name: "search_items",
+  description: "Search",
+  parameters: {
+    type: "object",
+    properties: { query: { type: "string" } },
+    required: ["query"],
+    additionalProperties: false,
+  },
+};
+
+function fakeItem(id: number, title: string): Zotero.Item {
+  return {
+    id,
+    libraryID: 1,
+    key: `KEY${id}`,
+    parentID: false,
+    isRegularItem: () => true,
+    isAttachment: () => false,
+    getDisplayTitle: () => title,
+  } as unknown as Zotero.Item;
+}
+
+describe("Tool calling", function () {
+  it("converts tool turns to Chat Completions messages and back", function () {
+    const messages = toChatCompletionsToolMessages(conversation, (text) => [
+      { type: "text", text },
+    ]);
+    expect(messages[0].content).to.deep.equal([
+      { type: "text", text: "question" },
+    ]);
+    expect(messages[1].tool_calls[0]).to.deep.equal({
+      id: "call_1",
+      type: "function",
+      function: { name: "search_items", arguments: '{"query":"x"}' },
+    });
+    expect(messages[2]).to.deep.equal({
+      role: "tool",
+      tool_call_id: "call_1",
+      content: "hits",
+    });
+
+    const turn = parseChatCompletionsToolTurn({
+      choices: [
+        {
+          message: {
+            content: null,
+            tool_calls: [
+              {
+                id: "call_2",
+                function: { name: "get_item_summary", arguments: "{bad" },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    expect(turn).to.deep.equal({
+      text: "",
+      toolCalls: [{ id: "call_2", name: "get_item_summary", arguments: {} }],
+    });
+  });
+
+  it("converts tool turns to Responses input items", function () {
+    const input = toResponsesToolInput(conversation, (text) => text);
+    expect(input.map((entry) => entry.type || entry.role)).to.deep.equal([
+      "user",
+      "function_call",
+      "function_call_output",
+    ]);
+    expect(input[2]).to.deep.equal({
+      type: "function_call_output",
+      call_id: "call_1",
+      output: "hits",
+    });
+
+    const turn = parseResponsesToolTurn({
+      output: [
+        {
+          type: "function_call",
+          id: "fc_1",
+          call_id: "call_3",
+          name: "search_items",
+          arguments: '{"query":"y"}',
+        },
+      ],
+    });
+    expect(turn.toolCalls).to.deep.equal([
+      { id: "call_3", name: "search_items", arguments: { query: "y" } },
+    ]);
+  });
+
+  it("converts tool turns for Anthropic and keeps tools when calls are disabled", function () {
+    const messages = toAnthropicToolMessages(conversation, (text) => [
+      { type: "text", text },
+    ]);
+    expect(messages[1].content).to.deep.equal([
+      {
+        type: "tool_use",
+        id: "call_1",
+        name: "search_items",
+        input: call.arguments,
+      },
+    ]);
+    expect(messages[2]).to.deep.equal({
+      role: "user",
+      content: [
+        { type: "tool_result", tool_use_id: "call_1", content: "hits" },
+      ],
+    });
+    expect(
+      buildAnthropicToolParams({ tools: [tool], toolChoice: "none" }),
+    ).to.deep.include({ tool_choice: { type: "none" } });
+    expect(buildAnthropicToolParams({})).to.deep.equal({});
+
+    const turn = parseAnthropicToolTurn({
+      content: [
+        { type: "text", text: "Let me check." },
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "search_items",
+          input: { query: "z" },
+        },
+      ],
+    });
+    expect(turn.text).to.equal("Let me check.");
+    expect(turn.toolCalls[0].arguments).to.deep.equal({ query: "z" });
+  });
+
+  it("round-trips Gemini function calls with their thought signatures", function () {
+    const turn = parseGeminiToolTurn({
+      candidates: [
+        {
+          content: {
+            parts: [
+              { text: "thinking", thought: true },
+              {
+                functionCall: { name: "search_items", args: { query: "q" } },
+                thoughtSignature: "sig",
+              },
+            ],
+          },
+        },
+      ],
+    });
+    expect(turn.text).to.equal("");
+    expect(turn.toolCalls[0].extra).to.deep.equal({ thoughtSignature: "sig" });
+
+    const contents = toGeminiToolContents(
+      [
+        { role: "user", content: "question" },
+        { role: "assistant", content: "", toolCalls: turn.toolCalls },
+      ],
+      (text) => [{ text }],
+    );
+    expect(contents[1]).to.deep.equal({
+      role: "model",
+      parts: [
+        {
+          functionCall: { name: "search_items", args: { query: "q" } },
+          thoughtSignature: "sig",
+        },
+      ],
+    });
+    const params = buildGeminiToolParams({ tools: [tool] }) as any;
+    expect(params.tools[0].functionDeclarations[0].parameters.type).to.equal(
+      "OBJECT",
+    );
+  });
+
+  it("formats library items and finds collections by id or name", function () {
+    expect(formatQuickChatToolItems([])).to.equal("No matching items.");
+    expect(
+      formatQuickChatToolItems([
+        {
+          itemId: 7,
+          title: "Paper",
+          creator: "Smith et al.",
+          year: "2021",
+          hasSummary: true,
+          attachments: [{ id: 8, title: "Full Text PDF" }],
+        },
+      ]),
+    ).to.equal(
+      [
+        "- [item_id 7] Paper — Smith et al. (2021)",
+        '  AI summary: yes; attachments: 8 "Full Text PDF"',
+      ].join("\n"),
+    );
+
+    const collections = [
+      { id: 3, name: "Vision Transformers", itemCount: 4 },
+      { id: 12, name: "Vision", itemCount: 9 },
+    ];
+    expect(findQuickChatToolCollection(collections, "vision")?.id).to.equal(12);
+    expect(findQuickChatToolCollection(collections, "3")?.id).to.equal(3);
+    expect(findQuickChatToolCollection(collections, "trans")?.id).to.equal(3);
+    expect(findQuickChatToolCollection(collections, "audio")).to.equal(null);
+  });
+
+  it("executes library tools and rejects invalid calls", async function () {
+    const items = new Map([
+      [1, fakeItem(1, "Contrastive pretraining")],
+      [2, fakeItem(2, "Unsummarized paper")],
+    ]);
+    const deps: QuickChatToolDeps = {
+      getScopeItemIds: async () => null,
+      semanticSearch: async () => [1],
+      keywordSearch: async () => [],
+      getItemById: async (id) => items.get(id) || null,
+      getItemInfo: async (item) => ({
+        itemId: item.id,
+        title: item.getDisplayTitle(),
+        creator: "",
+        year: "",
+        hasSummary: item.id === 1,
+        attachments: [],
+      }),
+      getSummaryMarkdown: async (item) =>
+        item.id === 1 ? "Summary of paper one." : null,
+    };
+    const execute = createQuickChatToolExecutor({ libraryID: 1 }, deps);
+
+    expect(
+      await execute({
+        id: "a",
+        name: "search_items",
+        arguments: { query: "contrastive" },
+      }),
+    ).to.contain("[item_id 1] Contrastive pretraining");
+    expect(
+      await execute({
+        id: "b",
+        name: "get_item_summary",
+        arguments: { item_id: 1 },
+      }),
+    ).to.equal("# Contrastive pretraining\n\nSummary of paper one.");
+    expect(
+      await execute({
+        id: "c",
+        name: "get_item_summary",
+        arguments: { item_id: 2 },
+      }),
+    ).to.contain("has no AI summary");
+
+    const failures = [
+      { id: "d", name: "delete_item", arguments: {} },
+      { id: "e", name: "get_item_summary", arguments: { item_id: "1" } },
+      { id: "f", name: "get_item_summary", arguments: { item_id: 99 } },
+    ];
+    for (const failing of failures) {
+      let message = "";
+      try {
+        await execute(failing);
+      } catch (error) {
+        message = (error as Error).message;
+      }
+      expect(message).to.not.equal("");
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { config } from "../package.json";
+import { UsageLedger } from "../src/modules/usageLedger";
+import {
+  UsageBudget,
+  UsageBudgetExceededError,
+  isUsageBudgetExceededError,
+} from "../src/modules/usageBudget";
+
+const prefKeys = ["usagePriceTable", "usageBudgets"];
+
+function prefName(key: string): string {
+  return `${config.prefsPrefix}.${key}`;
+}
+
+describe("UsageBudget", function () {
+  const originals = new Map<string, unknown>();
+  const primary = { id: "ep-a", name: "Primary" };
+  const backup = { id: "ep-b", name: "Backup" };
+
+  beforeEach(async function () {
+    await UsageLedger.clear();
+    originals.clear();
+    for (const key of prefKeys) {
+      const fullKey = prefName(key);
+      originals.set(key, Zotero.Prefs.get(fullKey, true));
+      Zotero.Prefs.clear(fullKey, true);
+    }
+  });
+
+  afterEach(function () {
+    for (const key of prefKeys) {
+      const fullKey = prefName(key);
+      const value = originals.get(key);
+      if (value === undefined) Zotero.Prefs.clear(fullKey, true);
+      else Zotero.Prefs.set(fullKey, value as any, true);
+    }
+  });
+
+  function recordUsage(
+    endpoint: { id: string; name: string },
+    inputTokens: number,
+    outputTokens: number,
+  ): Promise<unknown> {
+    return UsageLedger.record({
+      endpointId: endpoint.id,
+      endpointName: endpoint.name,
+      providerType: "openai",
+      model: "gpt-4o",
+      task: "summary",
+      usage: { inputTokens, outputTokens },
+    });
+  }
+
+  it("parses global and per-endpoint limits and rejects invalid values", function () {
+    const parsed = UsageBudget.parseConfig(
+      JSON.stringify({
+        global: { dailyCost: 5, monthlyTokens: "" },
+        endpoints: { Primary: { monthlyTokens: 1000 }, Empty: {} },
+      }),
+    );
+    expect(parsed).to.deep.equal({
+      global: { dailyCost: 5 },
+      endpoints: { Primary: { monthlyTokens: 1000 } },
+    });
+    expect(() => UsageBudget.parseConfig("[]")).to.throw();
+    expect(() =>
+      UsageBudget.parseConfig('{"global": {"dailyTokens": -1}}'),
+    ).to.throw();
+    expect(UsageBudget.isConfigured({ global: {}, endpoints: {} })).to.equal(
+      false,
+    );
+  });
+
+  it("reports a global token violation once today's usage reaches the cap", async function () {
+    UsageBudget.setConfig({ global: { dailyTokens: 1000 }, endpoints: {} });
+    await recordUsage(primary, 400, 100);
+    expect(UsageBudget.checkGlobal()).to.equal(null);
+
+    await recordUsage(backup, 400, 100);
+    const violation = UsageBudget.checkGlobal();
+    expect(violation).to.include({
+      scope: "global",
+      period: "daily",
+      metric: "tokens",
+      used: 1000,
+      limit: 1000,
+    });
+    expect(() => UsageBudget.filterEndpoints([primary, backup])).to.throw(
+      UsageBudgetExceededError,
+    );
+  });
+
+  it("skips endpoints over their own cost cap and throws when none remain", async function () {
+    Zotero.Prefs.set(
+      prefName("usagePriceTable"),
+      JSON.stringify({ "gpt-4o": { input: 2.5, output: 10 } }),
+      true,
+    );
+    UsageBudget.setConfig({
+      global: {},
+      endpoints: { Primary: { monthlyCost: 2 }, "ep-b": { dailyCost: 100 } },
+    });
+    await recordUsage(primary, 400_000, 100_000);
+
+    expect(UsageBudget.checkEndpoint(primary)).to.include({
+      scope: "endpoint",
+      endpointName: "Primary",
+      metric: "cost",
+    });
+    expect(UsageBudget.filterEndpoints([primary, backup])).to.deep.equal([
+      backup,
+    ]);
+
+    let caught: unknown;
+    try {
+      UsageBudget.filterEndpoints([primary]);
+    } catch (error) {
+      caught = error;
+    }
+    expect(isUsageBudgetExceededError(caught)).to.equal(true);
+    expect((caught as UsageBudgetExceededError).suppressTaskRetry).to.equal(
+      true,
+    );
+  });
+});
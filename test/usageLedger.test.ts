@@ -0,0 +1,261 @@
+import { expect } from "chai";
+import { config } from "../package.json";
+import { UsageLedger, formatUsageDay } from "../src/modules/usageLedger";
+import {
+  mergeUsage,
+  normalizeUsage,
+} from "../src/modules/llmproviders/shared/llmutils";
+
+const prefKeys = [
+  "usageLedgerRetentionDays",
+  "usagePriceTable",
+  "usageCurrency",
+];
+
+function prefName(key: string): string {
+  return `${config.prefsPrefix}.${key}`;
+}
+
+describe("UsageLedger", function () {
+  const originals = new Map<string, unknown>();
+
+  beforeEach(async function () {
+    await UsageLedger.clear();
+    originals.clear();
+    for (const key of prefKeys) {
+      const fullKey = prefName(key);
+      originals.set(key, Zotero.Prefs.get(fullKey, true));
+      Zotero.Prefs.clear(fullKey, true);
+    }
+  });
+
+  afterEach(function () {
+    for (const key of prefKeys) {
+      const fullKey = prefName(key);
+      const value = originals.get(key);
+      if (value === undefined) Zotero.Prefs.clear(fullKey, true);
+      else Zotero.Prefs.set(fullKey, value as any, true);
+    }
+  });
+
+  it("aggregates requests into daily endpoint/model/task/item buckets", async function () {
+    const at = new Date(2026, 2, 15, 10, 0, 0);
+    const base = {
+      endpointId: "ep-a",
+      endpointName: "Primary",
+      providerType: "openai",
+      model: "gpt-4o",
+      task: "summary" as const,
+      itemId: 42,
+      at,
+    };
+    await UsageLedger.record({
+      ...base,
+      usage: { inputTokens: 1000, outputTokens: 200 },
+    });
+    await UsageLedger.record({
+      ...base,
+      usage: { inputTokens: 500, outputTokens: 100, estimated: true },
+    });
+    await UsageLedger.record({
+      ...base,
+      task: "deepRead",
+      usage: { inputTokens: 10, outputTokens: 10 },
+    });
+
+    const entries = UsageLedger.getEntries({ from: "2026-03-15" });
+    expect(entries).to.have.length(2);
+    const summary = entries.find((entry) => entry.task === "summary");
+    expect(summary).to.include({
+      day: "2026-03-15",
+      itemId: 42,
+      requests: 2,
+      inputTokens: 1500,
+      outputTokens: 300,
+      estimatedRequests: 1,
+    });
+  });
+
+  it("prices tokens with exact and longest-prefix wildcard matches", function () {
+    const table = UsageLedger.parsePriceTable(
+      JSON.stringify({
+        "gpt-4o": { input: 2.5, output: 10 },
+        "claude-*": { input: 3, output: 15 },
+        "claude-3-haiku*": { input: 0.25, output: 1.25 },
+      }),
+    );
+
+    expect(UsageLedger.findPrice("GPT-4o", table)).to.deep.equal({
+      input: 2.5,
+      output: 10,
+    });
+    expect(
+      UsageLedger.findPrice("claude-3-haiku-20240307", table),
+    ).to.deep.equal({ input: 0.25, output: 1.25 });
+    expect(UsageLedger.findPrice("gemini-2.5-pro", table)).to.equal(null);
+
+    const day = formatUsageDay(new Date());
+    const totals = UsageLedger.summarize(
+      [
+        {
+          day,
+          endpointId: "ep-a",
+          endpointName: "A",
+          providerType: "openai",
+          model: "gpt-4o",
+          task: "summary",
+          requests: 1,
+          inputTokens: 1_000_000,
+          outputTokens: 100_000,
+          estimatedRequests: 0,
+        },
+        {
+          day,
+          endpointId: "ep-b",
+          endpointName: "B",
+          providerType: "google",
+          model: "gemini-2.5-pro",
+          task: "chat",
+          requests: 1,
+          inputTokens: 300,
+          outputTokens: 200,
+          estimatedRequests: 0,
+        },
+      ],
+      table,
+    );
+    expect(totals.cost).to.be.closeTo(3.5, 1e-9);
+    expect(totals.unpricedTokens).to.equal(500);
+    expect(totals.requests).to.equal(2);
+  });
+
+  it("rejects malformed price tables", function () {
+    expect(() => UsageLedger.parsePriceTable("[]")).to.throw();
+    expect(() =>
+      UsageLedger.parsePriceTable('{"gpt-4o": {"input": "free"}}'),
+    ).to.throw();
+  });
+
+  it("drops buckets older than the retention window", async function () {
+    Zotero.Prefs.set(prefName("usageLedgerRetentionDays"), "30", true);
+    const old = new Date();
+    old.setDate(old.getDate() - 45);
+    await UsageLedger.record({
+      providerType: "openai",
+      model: "gpt-4o",
+      task: "summary",
+      usage: { inputTokens: 1, outputTokens: 1 },
+      at: old,
+    });
+    await UsageLedger.record({
+      providerType: "openai",
+      model: "gpt-4o",
+      task: "summary",
+      usage: { inputTokens: 1, outputTokens: 1 },
+    });
+
+    const entries = UsageLedger.getEntries();
+    expect(entries).to.have.length(1);
+    expect(entries[0].day).to.equal(formatUsageDay(new Date()));
+  });
+
+  it("migrates the legacy pref ledger into the database once", async function () {
+    const legacyPref = prefName("usageLedger");
+    const day = formatUsageDay(new Date());
+    Zotero.Prefs.set(
+      legacyPref,
+      JSON.stringify({
+        version: 1,
+        entries: [
+          {
+            day,
+            endpointId: "ep-old",
+            endpointName: "Old",
+            providerType: "openai",
+            model: "gpt-4o",
+            task: "summary",
+            requests: 3,
+            inputTokens: 30,
+            outputTokens: 6,
+            estimatedRequests: 0,
+          },
+        ],
+      }),
+      true,
+    );
+    await UsageLedger.close();
+    await UsageLedger.load();
+
+    expect(UsageLedger.getEntries()).to.have.length(1);
+    expect(UsageLedger.getEntries()[0]).to.include({
+      endpointId: "ep-old",
+      requests: 3,
+    });
+    expect(Zotero.Prefs.get(legacyPref, true)).to.equal(undefined);
+
+    await UsageLedger.close();
+    await UsageLedger.load();
+    expect(UsageLedger.getEntries()).to.have.length(1);
+  });
+
+  it("maps LLM tasks and explicit metadata to ledger task types", function () {
+    expect(UsageLedger.resolveTask("table")).to.equal("tableFill");
+    expect(UsageLedger.resolveTask("image-summary")).to.equal("imageSummary");
+    expect(UsageLedger.resolveTask(undefined)).to.equal("chat");
+    expect(
+      UsageLedger.resolveTask(undefined, { taskType: "deepRead" }),
+    ).to.equal("deepRead");
+  });
+
+  describe("provider usage normalization", function () {
+    it("reads OpenAI, Anthropic, Gemini and Ollama usage shapes", function () {
+      expect(
+        normalizeUsage({ usage: { prompt_tokens: 10, completion_tokens: 5 } }),
+      ).to.deep.equal({ inputTokens: 10, outputTokens: 5, totalTokens: 15 });
+      expect(
+        normalizeUsage({
+          type: "message_start",
+          message: {
+            usage: {
+              input_tokens: 10,
+              cache_read_input_tokens: 90,
+              output_tokens: 1,
+            },
+          },
+        }),
+      ).to.deep.equal({
+        inputTokens: 100,
+        outputTokens: 1,
+        totalTokens: 101,
+        cachedInputTokens: 90,
+      });
+      expect(
+        normalizeUsage({
+          usageMetadata: {
+            promptTokenCount: 7,
+            candidatesTokenCount: 3,
+            totalTokenCount: 12,
+          },
+        }),
+      ).to.deep.equal({ inputTokens: 7, outputTokens: 3, totalTokens: 12 });
+      expect(
+        normalizeUsage({ done: true, prompt_eval_count: 4, eval_count: 6 }),
+      ).to.deep.equal({ inputTokens: 4, outputTokens: 6, totalTokens: 10 });
+      expect(
+        normalizeUsage({ choices: [{ delta: { content: "x" } }] }),
+      ).to.equal(null);
+    });
+
+    it("merges cumulative streaming reports by taking the maximum", function () {
+      const merged = mergeUsage(
+        { inputTokens: 100, outputTokens: 1, totalTokens: 101 },
+        { outputTokens: 250 },
+      );
+      expect(merged).to.deep.equal({
+        inputTokens: 100,
+        outputTokens: 250,
+        totalTokens: 350,
+      });
+    });
+  });
+});
@@ -23,9 +23,26 @@ export type FluentMessageId =
   | 'ai-butler-prefs-summaryPrompt-description'
   | 'ai-butler-prefs-temperature'
   | 'ai-butler-prefs-temperature-description'
+  | 'ai-note-history-base-label'
+  | 'ai-note-history-card-title'
+  | 'ai-note-history-empty'
+  | 'ai-note-history-loading'
+  | 'ai-note-history-prompt-tooltip'
+  | 'ai-note-history-reason-delete'
+  | 'ai-note-history-reason-edit'
+  | 'ai-note-history-reason-generate'
+  | 'ai-note-history-reason-previous'
+  | 'ai-note-history-reason-restore'
+  | 'ai-note-history-reason-slot'
+  | 'ai-note-history-restore'
+  | 'ai-note-history-restore-failed'
+  | 'ai-note-history-restore-tooltip'
+  | 'ai-note-history-restored'
+  | 'ai-note-history-target-label'
   | 'aibutler-itempane-ai-section-header'
   | 'aibutler-itempane-ai-section-sidenav'
   | 'app-name'
+  | 'auto-scan-budget-paused'
   | 'chat-error-follow-up-aborted'
   | 'chat-open-error'
   | 'collection-clean-button-delete-and-regenerate'
@@ -144,6 +161,38 @@ export type FluentMessageId =
   | 'dashboard-time-now'
   | 'dashboard-title'
   | 'dashboard-unknown-error'
+  | 'dashboard-usage-budget-blocked'
+  | 'dashboard-usage-budget-invalid'
+  | 'dashboard-usage-budget-prompt'
+  | 'dashboard-usage-budget-saved'
+  | 'dashboard-usage-budget-title'
+  | 'dashboard-usage-by-collection'
+  | 'dashboard-usage-by-endpoint'
+  | 'dashboard-usage-by-task'
+  | 'dashboard-usage-clear'
+  | 'dashboard-usage-clear-confirm'
+  | 'dashboard-usage-clear-title'
+  | 'dashboard-usage-currency-prompt'
+  | 'dashboard-usage-currency-title'
+  | 'dashboard-usage-edit-budget'
+  | 'dashboard-usage-edit-prices'
+  | 'dashboard-usage-empty'
+  | 'dashboard-usage-estimated'
+  | 'dashboard-usage-month-cost'
+  | 'dashboard-usage-month-requests'
+  | 'dashboard-usage-month-tokens'
+  | 'dashboard-usage-price-invalid'
+  | 'dashboard-usage-price-prompt'
+  | 'dashboard-usage-price-saved'
+  | 'dashboard-usage-price-title'
+  | 'dashboard-usage-row-value'
+  | 'dashboard-usage-set-currency'
+  | 'dashboard-usage-task-chat'
+  | 'dashboard-usage-task-custom'
+  | 'dashboard-usage-title'
+  | 'dashboard-usage-today-cost'
+  | 'dashboard-usage-today-tokens'
+  | 'dashboard-usage-unpriced'
   | 'deep-read-chapter-analysis-heading'
   | 'deep-read-chapter-default-title'
   | 'deep-read-chapter-list-item'
@@ -168,6 +217,15 @@ export type FluentMessageId =
   | 'endpoint-api-key-label'
   | 'endpoint-api-key-required-label'
   | 'endpoint-api-url-label'
+  | 'endpoint-azure-api-mode-chat'
+  | 'endpoint-azure-api-mode-help'
+  | 'endpoint-azure-api-mode-label'
+  | 'endpoint-azure-api-mode-responses'
+  | 'endpoint-azure-api-url-placeholder'
+  | 'endpoint-azure-api-version-label'
+  | 'endpoint-azure-deployment-help'
+  | 'endpoint-azure-deployment-label'
+  | 'endpoint-azure-deployment-placeholder'
   | 'endpoint-can-summary'
   | 'endpoint-cancel'
   | 'endpoint-card-subtitle'
@@ -175,6 +233,8 @@ export type FluentMessageId =
   | 'endpoint-collapse-details'
   | 'endpoint-connection-success'
   | 'endpoint-connection-test'
+  | 'endpoint-context-length-label'
+  | 'endpoint-context-length-unit'
   | 'endpoint-copy-details'
   | 'endpoint-copy-failed'
   | 'endpoint-copy-success'
@@ -188,6 +248,33 @@ export type FluentMessageId =
   | 'endpoint-fetch-models'
   | 'endpoint-fetching-models'
   | 'endpoint-follow-global'
+  | 'endpoint-health-circuit-half-open'
+  | 'endpoint-health-circuit-open'
+  | 'endpoint-health-error-auth'
+  | 'endpoint-health-error-client'
+  | 'endpoint-health-error-network'
+  | 'endpoint-health-error-other'
+  | 'endpoint-health-error-rate-limit'
+  | 'endpoint-health-error-server'
+  | 'endpoint-health-error-timeout'
+  | 'endpoint-health-last-error'
+  | 'endpoint-health-reset'
+  | 'endpoint-health-summary'
+  | 'endpoint-http-auth-help'
+  | 'endpoint-http-auth-label'
+  | 'endpoint-http-error-path-help'
+  | 'endpoint-http-error-path-label'
+  | 'endpoint-http-response-path-help'
+  | 'endpoint-http-response-path-label'
+  | 'endpoint-http-stream-help'
+  | 'endpoint-http-stream-label'
+  | 'endpoint-http-template-help'
+  | 'endpoint-http-template-invalid'
+  | 'endpoint-http-template-label'
+  | 'endpoint-long-document-chunk'
+  | 'endpoint-long-document-help'
+  | 'endpoint-long-document-label'
+  | 'endpoint-long-document-truncate'
   | 'endpoint-max-api-switch'
   | 'endpoint-max-api-switch-help'
   | 'endpoint-model-empty'
@@ -195,6 +282,9 @@ export type FluentMessageId =
   | 'endpoint-model-label'
   | 'endpoint-multi-summary-detail'
   | 'endpoint-multi-summary-help'
+  | 'endpoint-multi-summary-judge'
+  | 'endpoint-multi-summary-judge-help'
+  | 'endpoint-multi-summary-judge-none'
   | 'endpoint-multi-summary-select'
   | 'endpoint-multi-summary-selected'
   | 'endpoint-multi-summary-title'
@@ -226,6 +316,11 @@ export type FluentMessageId =
   | 'endpoint-provider-name'
   | 'endpoint-provider-name-placeholder'
   | 'endpoint-provider-type'
+  | 'endpoint-rate-limit-help'
+  | 'endpoint-rate-limit-label'
+  | 'endpoint-rate-limit-rpm-unit'
+  | 'endpoint-rate-limit-tpm-unit'
+  | 'endpoint-rate-limit-unlimited'
   | 'endpoint-reasoning-default'
   | 'endpoint-reasoning-high'
   | 'endpoint-reasoning-label'
@@ -233,12 +328,34 @@ export type FluentMessageId =
   | 'endpoint-reasoning-medium'
   | 'endpoint-reasoning-none'
   | 'endpoint-reasoning-xhigh'
+  | 'endpoint-replay-fixture-label'
+  | 'endpoint-replay-fixture-placeholder'
+  | 'endpoint-replay-record-help'
+  | 'endpoint-replay-record-label'
+  | 'endpoint-replay-record-placeholder'
   | 'endpoint-required'
+  | 'endpoint-routing-fastest-healthy'
   | 'endpoint-routing-help'
+  | 'endpoint-routing-least-recently-failed'
   | 'endpoint-routing-priority'
   | 'endpoint-routing-round-robin'
   | 'endpoint-routing-strategy'
   | 'endpoint-select-all-enabled'
+  | 'endpoint-task-routing-add'
+  | 'endpoint-task-routing-disabled-warning'
+  | 'endpoint-task-routing-global'
+  | 'endpoint-task-routing-help'
+  | 'endpoint-task-routing-kind-deep-read'
+  | 'endpoint-task-routing-kind-figure-explain'
+  | 'endpoint-task-routing-kind-mindmap'
+  | 'endpoint-task-routing-kind-quick-chat'
+  | 'endpoint-task-routing-kind-review'
+  | 'endpoint-task-routing-kind-summary'
+  | 'endpoint-task-routing-kind-table-fill'
+  | 'endpoint-task-routing-kind-targeted-question'
+  | 'endpoint-task-routing-move-up'
+  | 'endpoint-task-routing-remove'
+  | 'endpoint-task-routing-title'
   | 'endpoint-test-connection'
   | 'endpoint-test-help'
   | 'endpoint-testing'
@@ -246,6 +363,22 @@ export type FluentMessageId =
   | 'endpoint-unnamed-provider'
   | 'error-noApiKey'
   | 'error-noItemsSelected'
+  | 'figure-explain-error-no-figures'
+  | 'figure-explain-error-no-mineru'
+  | 'figure-explain-error-no-pdf'
+  | 'figure-explain-error-no-source'
+  | 'figure-explain-error-render-empty'
+  | 'figure-explain-figure-failed'
+  | 'figure-explain-figure-heading'
+  | 'figure-explain-note-title'
+  | 'figure-explain-page-heading'
+  | 'figure-explain-page-link'
+  | 'figure-explain-progress-completed'
+  | 'figure-explain-progress-explaining'
+  | 'figure-explain-progress-extracting'
+  | 'figure-explain-progress-failed'
+  | 'figure-explain-progress-saving'
+  | 'figure-explain-queue-added'
   | 'follow-up-note-assistant-label'
   | 'follow-up-note-saved-at-label'
   | 'follow-up-note-user-label'
@@ -363,6 +496,10 @@ export type FluentMessageId =
   | 'itempane-note-cancel-button'
   | 'itempane-note-cancel-tooltip'
   | 'itempane-note-cancelled'
+  | 'itempane-note-compare-exit-tooltip'
+  | 'itempane-note-compare-label'
+  | 'itempane-note-compare-need-two'
+  | 'itempane-note-compare-tooltip'
   | 'itempane-note-delete-current-model-summary'
   | 'itempane-note-delete-failed'
   | 'itempane-note-delete-structure-changed'
@@ -380,6 +517,8 @@ export type FluentMessageId =
   | 'itempane-note-editing-skip-auto-refresh'
   | 'itempane-note-editing-skip-refresh'
   | 'itempane-note-empty-kind'
+  | 'itempane-note-history-exit-tooltip'
+  | 'itempane-note-history-tooltip'
   | 'itempane-note-kind-deep-read'
   | 'itempane-note-kind-summary'
   | 'itempane-note-load-failed'
@@ -430,6 +569,15 @@ export type FluentMessageId =
   | 'itempane-quick-chat-smaller-font'
   | 'itempane-quick-chat-source-label'
   | 'itempane-quick-chat-title'
+  | 'itempane-quick-chat-tool-done'
+  | 'itempane-quick-chat-tool-failed'
+  | 'itempane-quick-chat-tool-get-attachment-text'
+  | 'itempane-quick-chat-tool-get-item-summary'
+  | 'itempane-quick-chat-tool-list-collection-items'
+  | 'itempane-quick-chat-tool-running'
+  | 'itempane-quick-chat-tool-search-items'
+  | 'itempane-quick-chat-tools-off'
+  | 'itempane-quick-chat-tools-on'
   | 'itempane-refresh-tooltip'
   | 'itempane-regenerate'
   | 'itempane-regenerate-table'
@@ -487,6 +635,26 @@ export type FluentMessageId =
   | 'legacy-ai-note-migration-renamed-heading-prefix'
   | 'legacy-ai-note-migration-total-count'
   | 'legacy-ai-note-migration-untitled-paper'
+  | 'library-chat-assistant'
+  | 'library-chat-error'
+  | 'library-chat-new'
+  | 'library-chat-no-sources'
+  | 'library-chat-note-references'
+  | 'library-chat-note-title'
+  | 'library-chat-placeholder'
+  | 'library-chat-save'
+  | 'library-chat-saved'
+  | 'library-chat-scope-collection'
+  | 'library-chat-scope-library'
+  | 'library-chat-send'
+  | 'library-chat-sources'
+  | 'library-chat-status-answering'
+  | 'library-chat-status-reading'
+  | 'library-chat-status-retrieving'
+  | 'library-chat-stop'
+  | 'library-chat-stopped'
+  | 'library-chat-title'
+  | 'library-chat-you'
   | 'library-scanner-add-to-queue'
   | 'library-scanner-all-have-target'
   | 'library-scanner-confirm-add'
@@ -521,6 +689,7 @@ export type FluentMessageId =
   | 'library-status-column-summary'
   | 'library-status-deep-read'
   | 'library-status-summary'
+  | 'library-status-tooltip-budget-paused'
   | 'library-status-tooltip-completed'
   | 'library-status-tooltip-failed'
   | 'library-status-tooltip-failed-with-error'
@@ -608,11 +777,14 @@ export type FluentMessageId =
   | 'literature-review-unknown-title'
   | 'literature-review-unknown-value'
   | 'llm-endpoint-provider-anthropic'
+  | 'llm-endpoint-provider-azure-openai'
+  | 'llm-endpoint-provider-custom-http'
   | 'llm-endpoint-provider-google'
   | 'llm-endpoint-provider-ollama'
   | 'llm-endpoint-provider-openai'
   | 'llm-endpoint-provider-openai-compat'
   | 'llm-endpoint-provider-openrouter'
+  | 'llm-endpoint-provider-replay'
   | 'llm-endpoint-provider-volcanoark'
   | 'llm-error-all-endpoints-failed'
   | 'llm-error-api-keys-exhausted'
@@ -626,7 +798,9 @@ export type FluentMessageId =
   | 'llm-error-multifile-unsupported'
   | 'llm-error-no-enabled-endpoints'
   | 'llm-error-no-pdf-content'
+  | 'llm-error-provider-images-unsupported'
   | 'llm-error-provider-multi-file-unsupported'
+  | 'llm-error-structured-output-invalid'
   | 'llm-error-unknown-provider'
   | 'llm-error-unknown-provider-type'
   | 'llm-error-unknown-provider-with-list'
@@ -635,12 +809,17 @@ export type FluentMessageId =
   | 'llm-metadata-not-recorded'
   | 'llm-metadata-not-recorded-detail'
   | 'llm-metadata-provider-label'
+  | 'llm-metadata-selector-consensus'
   | 'llm-metadata-selector-provider'
   | 'llm-metadata-selector-provider-model'
   | 'llm-metadata-source-label'
+  | 'llm-metadata-tooltip-consensus'
+  | 'llm-metadata-tooltip-continuations'
   | 'llm-metadata-tooltip-generated'
   | 'llm-metadata-tooltip-model'
   | 'llm-metadata-tooltip-provider'
+  | 'llm-metadata-tooltip-tokens'
+  | 'llm-metadata-tooltip-tokens-estimated'
   | 'llm-metadata-unknown-model'
   | 'llm-metadata-unknown-provider'
   | 'llm-note-metadata-error-block-not-found'
@@ -650,7 +829,9 @@ export type FluentMessageId =
   | 'main-window-coming-soon'
   | 'main-window-error-open-dialog-unavailable'
   | 'main-window-feature-in-development'
+  | 'main-window-tab-chat'
   | 'main-window-tab-dashboard'
+  | 'main-window-tab-search'
   | 'main-window-tab-settings'
   | 'main-window-tab-summary'
   | 'main-window-tab-tasks'
@@ -659,6 +840,7 @@ export type FluentMessageId =
   | 'menuitem-chatWithAI'
   | 'menuitem-clearCollectionAiNotes'
   | 'menuitem-dashboard'
+  | 'menuitem-figureExplain'
   | 'menuitem-filemenulabel'
   | 'menuitem-fillTable'
   | 'menuitem-generateSummary'
@@ -760,6 +942,10 @@ export type FluentMessageId =
   | 'note-generator-manual-chapters-title'
   | 'note-generator-model-metadata'
   | 'note-generator-multimodel-complete-heading'
+  | 'note-generator-multimodel-consensus-failed'
+  | 'note-generator-multimodel-consensus-heading'
+  | 'note-generator-multimodel-consensus-progress'
+  | 'note-generator-multimodel-consensus-title'
   | 'note-generator-multimodel-endpoint-complete'
   | 'note-generator-multimodel-endpoint-failed'
   | 'note-generator-multimodel-failed-providers-heading'
@@ -939,6 +1125,8 @@ export type FluentMessageId =
   | 'pdf-diagnostic-message-file-found'
   | 'pdf-diagnostic-message-file-missing'
   | 'pdf-diagnostic-message-index-requested'
+  | 'pdf-diagnostic-message-ocr-disabled'
+  | 'pdf-diagnostic-message-ocr-recognized'
   | 'pdf-diagnostic-note-title'
   | 'pdf-diagnostic-platform'
   | 'pdf-diagnostic-started-at'
@@ -948,6 +1136,8 @@ export type FluentMessageId =
   | 'pdf-diagnostic-step-elapsed-ms'
   | 'pdf-diagnostic-step-indexed-state'
   | 'pdf-diagnostic-step-message'
+  | 'pdf-diagnostic-step-ocr-engine'
+  | 'pdf-diagnostic-step-ocr-pages'
   | 'pdf-diagnostic-step-ok'
   | 'pdf-diagnostic-step-prefix'
   | 'pdf-diagnostic-step-text-length'
@@ -973,6 +1163,8 @@ export type FluentMessageId =
   | 'progress-complete'
   | 'progress-completed'
   | 'progress-completed-message'
+  | 'progress-content-cache-hit-detail'
+  | 'progress-content-cache-hit-message'
   | 'progress-creating'
   | 'progress-deepread-batch-detail'
   | 'progress-deepread-incomplete'
@@ -988,6 +1180,9 @@ export type FluentMessageId =
   | 'progress-extracting'
   | 'progress-failed'
   | 'progress-generating'
+  | 'progress-llm-chunk'
+  | 'progress-llm-chunk-detail'
+  | 'progress-llm-chunk-message'
   | 'progress-llm-complete'
   | 'progress-llm-complete-detail'
   | 'progress-llm-complete-message'
@@ -996,6 +1191,9 @@ export type FluentMessageId =
   | 'progress-llm-first-chunk-detail'
   | 'progress-llm-preparing'
   | 'progress-llm-preparing-message'
+  | 'progress-llm-rate-limited'
+  | 'progress-llm-rate-limited-quota'
+  | 'progress-llm-rate-limited-retry-after'
   | 'progress-llm-streaming'
   | 'progress-llm-streaming-message'
   | 'progress-llm-uploading'
@@ -1049,10 +1247,14 @@ export type FluentMessageId =
   | 'progress-pdf-extracted-detail'
   | 'progress-pdf-extracting'
   | 'progress-pdf-extracting-detail'
+  | 'progress-pdf-ocr-detail'
+  | 'progress-pdf-ocr-message'
   | 'progress-pdf-prepared'
   | 'progress-pdf-preparing'
   | 'progress-pdf-preparing-base64-detail'
   | 'progress-pdf-preparing-base64-message'
+  | 'progress-pdf-shared-reused-detail'
+  | 'progress-pdf-shared-reused-message'
   | 'progress-pdf-text-extracted-message'
   | 'progress-pdf-zotero-index-message'
   | 'provider-error-aborted'
@@ -1060,17 +1262,23 @@ export type FluentMessageId =
   | 'provider-error-api-key-missing-named'
   | 'provider-error-api-url-missing'
   | 'provider-error-api-url-missing-named'
+  | 'provider-error-http-pdf-base64-unsupported'
   | 'provider-error-http-request-failed'
+  | 'provider-error-http-response-path-empty'
+  | 'provider-error-http-template-invalid'
   | 'provider-error-model-list-failed'
   | 'provider-error-no-pdf-files'
   | 'provider-error-no-pdf-processed'
   | 'provider-error-ollama-pdf-base64-unsupported'
+  | 'provider-error-replay-closest'
+  | 'provider-error-replay-missing'
   | 'provider-error-request-failed'
   | 'provider-error-stream-missing-done'
   | 'provider-error-stream-parse-failed'
   | 'provider-error-stream-truncated'
   | 'provider-error-stream-unexpected-end'
   | 'provider-error-timeout'
+  | 'provider-replay-connection-success'
   | 'provider-test-error-message'
   | 'provider-test-error-name'
   | 'provider-test-error-request-body'
@@ -1080,11 +1288,29 @@ export type FluentMessageId =
   | 'provider-test-error-status-code'
   | 'provider-test-success-detail'
   | 'queue-add-failed'
+  | 'queue-schedule-error-invalid'
+  | 'queue-schedule-next-run'
+  | 'queue-schedule-reason-outside-window'
+  | 'queue-schedule-reason-quiet-hours'
   | 'reader-toolbar-ai-chat'
   | 'reader-toolbar-chat-title'
   | 'reader-toolbar-error-no-item'
   | 'reader-toolbar-error-no-parent'
   | 'reader-toolbar-error-open-failed'
+  | 'semantic-search-button'
+  | 'semantic-search-disabled'
+  | 'semantic-search-failed'
+  | 'semantic-search-index-empty'
+  | 'semantic-search-index-status'
+  | 'semantic-search-kind-deep-read'
+  | 'semantic-search-kind-summary'
+  | 'semantic-search-locate-tooltip'
+  | 'semantic-search-no-results'
+  | 'semantic-search-placeholder'
+  | 'semantic-search-result-count'
+  | 'semantic-search-result-meta'
+  | 'semantic-search-searching'
+  | 'semantic-search-untitled'
   | 'settings-about-feature-auto-scan-desc'
   | 'settings-about-feature-auto-scan-title'
   | 'settings-about-feature-context-menu-desc'
@@ -1117,6 +1343,8 @@ export type FluentMessageId =
   | 'settings-api-api-key'
   | 'settings-api-api-key-required'
   | 'settings-api-api-url-required'
+  | 'settings-api-auto-continue-help'
+  | 'settings-api-auto-continue-label'
   | 'settings-api-base-url-required'
   | 'settings-api-batch-interval-help'
   | 'settings-api-batch-interval-label'
@@ -1131,6 +1359,20 @@ export type FluentMessageId =
   | 'settings-api-connection-failed-generic'
   | 'settings-api-connection-test-title'
   | 'settings-api-delete-key-tooltip'
+  | 'settings-api-embedding-enabled-help'
+  | 'settings-api-embedding-enabled-label'
+  | 'settings-api-embedding-key-label'
+  | 'settings-api-embedding-key-placeholder'
+  | 'settings-api-embedding-model-help'
+  | 'settings-api-embedding-model-label'
+  | 'settings-api-embedding-provider-help'
+  | 'settings-api-embedding-provider-label'
+  | 'settings-api-embedding-provider-ollama'
+  | 'settings-api-embedding-provider-openai-compat'
+  | 'settings-api-embedding-section-subtitle'
+  | 'settings-api-embedding-section-title'
+  | 'settings-api-embedding-url-help'
+  | 'settings-api-embedding-url-label'
   | 'settings-api-error-missing-api-key'
   | 'settings-api-error-missing-api-url'
   | 'settings-api-error-no-models'
@@ -1159,6 +1401,22 @@ export type FluentMessageId =
   | 'settings-api-field-volcanoark-api-key'
   | 'settings-api-field-volcanoark-api-url'
   | 'settings-api-field-volcanoark-model'
+  | 'settings-api-figures-max-images-help'
+  | 'settings-api-figures-max-images-label'
+  | 'settings-api-figures-render-args-help'
+  | 'settings-api-figures-render-args-label'
+  | 'settings-api-figures-render-command-help'
+  | 'settings-api-figures-render-command-label'
+  | 'settings-api-figures-render-command-placeholder'
+  | 'settings-api-figures-render-max-pages-help'
+  | 'settings-api-figures-render-max-pages-label'
+  | 'settings-api-figures-section-subtitle'
+  | 'settings-api-figures-section-title'
+  | 'settings-api-figures-source-auto'
+  | 'settings-api-figures-source-help'
+  | 'settings-api-figures-source-label'
+  | 'settings-api-figures-source-mineru'
+  | 'settings-api-figures-source-page-render'
   | 'settings-api-gemini-key-help'
   | 'settings-api-gemini-model-help'
   | 'settings-api-key-badge'
@@ -1177,6 +1435,8 @@ export type FluentMessageId =
   | 'settings-api-key-test-failed-detail'
   | 'settings-api-key-test-result'
   | 'settings-api-key-test-success'
+  | 'settings-api-long-document-concurrency-help'
+  | 'settings-api-long-document-concurrency-label'
   | 'settings-api-max-tokens-help'
   | 'settings-api-max-tokens-label'
   | 'settings-api-mineru-browse-button'
@@ -1209,6 +1469,19 @@ export type FluentMessageId =
   | 'settings-api-model-select-tooltip'
   | 'settings-api-models-fetched'
   | 'settings-api-models-fetched-success'
+  | 'settings-api-ocr-args-help'
+  | 'settings-api-ocr-args-label'
+  | 'settings-api-ocr-command-help'
+  | 'settings-api-ocr-command-label'
+  | 'settings-api-ocr-command-placeholder'
+  | 'settings-api-ocr-engine-command'
+  | 'settings-api-ocr-engine-help'
+  | 'settings-api-ocr-engine-label'
+  | 'settings-api-ocr-engine-off'
+  | 'settings-api-ocr-language-help'
+  | 'settings-api-ocr-language-label'
+  | 'settings-api-ocr-section-subtitle'
+  | 'settings-api-ocr-section-title'
   | 'settings-api-official-endpoint'
   | 'settings-api-ollama-key-help'
   | 'settings-api-ollama-model-help'
@@ -1250,6 +1523,14 @@ export type FluentMessageId =
   | 'settings-api-provider-openai-compat'
   | 'settings-api-provider-openrouter'
   | 'settings-api-provider-volcanoark'
+  | 'settings-api-queue-quiet-hours-help'
+  | 'settings-api-queue-quiet-hours-label'
+  | 'settings-api-queue-quiet-hours-placeholder'
+  | 'settings-api-queue-schedule-enabled-help'
+  | 'settings-api-queue-schedule-enabled-label'
+  | 'settings-api-queue-window-help'
+  | 'settings-api-queue-window-label'
+  | 'settings-api-queue-window-placeholder'
   | 'settings-api-request-timeout-help'
   | 'settings-api-request-timeout-label'
   | 'settings-api-required'
@@ -1304,13 +1585,32 @@ export type FluentMessageId =
   | 'settings-data-clear-empty-summary'
   | 'settings-data-clear-empty-title'
   | 'settings-data-close'
+  | 'settings-data-content-cache-clear'
+  | 'settings-data-content-cache-cleared'
+  | 'settings-data-content-cache-enabled'
+  | 'settings-data-content-cache-enabled-help'
+  | 'settings-data-content-cache-max-help'
+  | 'settings-data-content-cache-max-label'
+  | 'settings-data-content-cache-title'
+  | 'settings-data-content-cache-usage'
   | 'settings-data-description'
+  | 'settings-data-export-include-secrets'
   | 'settings-data-export-json'
+  | 'settings-data-history-limit-help'
+  | 'settings-data-history-limit-label'
   | 'settings-data-import-json'
   | 'settings-data-import-parse-failed'
   | 'settings-data-import-prompt'
   | 'settings-data-import-success'
   | 'settings-data-import-title'
+  | 'settings-data-note-history-clear'
+  | 'settings-data-note-history-clear-confirm'
+  | 'settings-data-note-history-cleared'
+  | 'settings-data-note-history-enabled'
+  | 'settings-data-note-history-enabled-help'
+  | 'settings-data-note-history-limit-help'
+  | 'settings-data-note-history-limit-label'
+  | 'settings-data-note-history-title'
   | 'settings-data-note-kind-deep-read'
   | 'settings-data-note-kind-summary'
   | 'settings-data-operation-failed'
@@ -1319,6 +1619,13 @@ export type FluentMessageId =
   | 'settings-data-reset-confirm'
   | 'settings-data-reset-done'
   | 'settings-data-reset-title'
+  | 'settings-data-semantic-index-clear'
+  | 'settings-data-semantic-index-cleared'
+  | 'settings-data-semantic-index-progress'
+  | 'settings-data-semantic-index-rebuild'
+  | 'settings-data-semantic-index-rebuilt'
+  | 'settings-data-semantic-index-title'
+  | 'settings-data-semantic-index-usage'
   | 'settings-data-stat-completed'
   | 'settings-data-stat-failed'
   | 'settings-data-stat-total'
@@ -1409,6 +1716,9 @@ export type FluentMessageId =
   | 'settings-image-summary-visual-prompt'
   | 'settings-image-summary-visual-prompt-help'
   | 'settings-image-summary-visual-prompt-placeholder'
+  | 'settings-mindmap-auto-add'
+  | 'settings-mindmap-auto-add-help'
+  | 'settings-mindmap-auto-section'
   | 'settings-mindmap-browse'
   | 'settings-mindmap-description'
   | 'settings-mindmap-export-notice'
@@ -1684,6 +1994,8 @@ export type FluentMessageId =
   | 'settings-ui-context-menu-description'
   | 'settings-ui-context-menu-exportCollectionNotes-description'
   | 'settings-ui-context-menu-exportCollectionNotes-label'
+  | 'settings-ui-context-menu-figureExplain-description'
+  | 'settings-ui-context-menu-figureExplain-label'
   | 'settings-ui-context-menu-generateSummary-description'
   | 'settings-ui-context-menu-generateSummary-label'
   | 'settings-ui-context-menu-imageSummary-description'
@@ -1739,9 +2051,26 @@ export type FluentMessageId =
   | 'settings-ui-theme-github'
   | 'settings-ui-theme-redstriking'
   | 'settings-ui-title'
+  | 'setup-preset-azure-api-key-placeholder'
+  | 'setup-preset-azure-api-url-placeholder'
+  | 'setup-preset-azure-deployment-label'
+  | 'setup-preset-azure-description'
+  | 'setup-preset-azure-guide-subtitle'
+  | 'setup-preset-azure-guide-title'
+  | 'setup-preset-azure-pdf-after'
+  | 'setup-preset-azure-priority-after'
+  | 'setup-preset-azure-step-deploy-detail'
+  | 'setup-preset-azure-step-deploy-title'
+  | 'setup-preset-azure-step-paste-detail'
+  | 'setup-preset-azure-step-paste-title'
+  | 'setup-preset-azure-step-resource-detail'
+  | 'setup-preset-azure-step-resource-title'
+  | 'setup-preset-azure-success'
   | 'setup-preset-change-ai-platform'
   | 'setup-preset-change-api-key'
   | 'setup-preset-change-auto-scan'
+  | 'setup-preset-change-azure-api-url'
+  | 'setup-preset-change-azure-deployment'
   | 'setup-preset-change-deepseek-api-url'
   | 'setup-preset-change-deepseek-model'
   | 'setup-preset-change-max-tokens'
@@ -1790,6 +2119,8 @@ export type FluentMessageId =
   | 'setup-wizard-fetching-models'
   | 'setup-wizard-fetching-models-status'
   | 'setup-wizard-missing-api-key'
+  | 'setup-wizard-missing-api-url'
+  | 'setup-wizard-missing-model'
   | 'setup-wizard-model-help'
   | 'setup-wizard-model-label'
   | 'setup-wizard-model-list-title'
@@ -1862,6 +2193,10 @@ export type FluentMessageId =
   | 'summary-chat-welcome-description'
   | 'summary-chat-welcome-title'
   | 'summary-collapse-toggle'
+  | 'summary-compare-base-column'
+  | 'summary-compare-card-title'
+  | 'summary-compare-legend'
+  | 'summary-compare-missing-section'
   | 'summary-complete-all'
   | 'summary-complete-partial'
   | 'summary-copy-error'
@@ -1923,6 +2258,7 @@ export type FluentMessageId =
   | 'task-error-aborted-detail'
   | 'task-error-collection-not-found'
   | 'task-error-deep-read-incomplete-stop'
+  | 'task-error-dependency-failed'
   | 'task-error-invalid-ai-source-item'
   | 'task-error-item-not-found'
   | 'task-error-no-paper-selected'
@@ -1945,6 +2281,7 @@ export type FluentMessageId =
   | 'task-queue-action-details'
   | 'task-queue-action-prioritize'
   | 'task-queue-action-retry'
+  | 'task-queue-action-run-now'
   | 'task-queue-add-failed'
   | 'task-queue-analyzing-title'
   | 'task-queue-artifact-complete-fixed'
@@ -1958,12 +2295,15 @@ export type FluentMessageId =
   | 'task-queue-deep-read-integrity-probe-failed'
   | 'task-queue-detail-label'
   | 'task-queue-detail-task-completed'
+  | 'task-queue-drag-tooltip'
   | 'task-queue-empty'
   | 'task-queue-error-deep-read-item-not-found'
   | 'task-queue-error-details-copied'
   | 'task-queue-error-label'
   | 'task-queue-filter-all'
   | 'task-queue-locate-tooltip'
+  | 'task-queue-priority-level-option'
+  | 'task-queue-priority-level-tooltip'
   | 'task-queue-progress-failed-at'
   | 'task-queue-retry-count'
   | 'task-queue-search-placeholder'
@@ -1973,11 +2313,13 @@ export type FluentMessageId =
   | 'task-queue-stat-total'
   | 'task-queue-status-badge-completed'
   | 'task-queue-status-badge-failed'
+  | 'task-queue-status-badge-paused'
   | 'task-queue-status-badge-pending'
   | 'task-queue-status-badge-priority'
   | 'task-queue-status-badge-processing'
   | 'task-queue-status-completed'
   | 'task-queue-status-failed'
+  | 'task-queue-status-paused'
   | 'task-queue-status-pending'
   | 'task-queue-status-priority'
   | 'task-queue-status-processing'
@@ -1988,16 +2330,21 @@ export type FluentMessageId =
   | 'task-queue-tooltip-progress'
   | 'task-queue-tooltip-updated-at'
   | 'task-queue-type-deep-read'
+  | 'task-queue-type-figure-explain'
   | 'task-queue-type-image-summary'
   | 'task-queue-type-mindmap'
   | 'task-queue-type-review'
   | 'task-queue-type-summary'
   | 'task-queue-type-table-fill'
   | 'task-queue-type-targeted-question'
+  | 'task-stage-budget-paused'
+  | 'task-stage-dependency-waiting'
+  | 'task-stage-dependency-waiting-detail'
   | 'task-stage-disabled'
   | 'task-stage-initializing'
   | 'task-stage-processing-deep-read'
   | 'task-stage-processing-summary'
+  | 'task-stage-scheduled'
   | 'task-stage-table-filling'
   | 'task-stage-waiting-deep-read'
   | 'task-stage-waiting-start'
@@ -2006,9 +2353,20 @@ export type FluentMessageId =
   | 'task-started-summary'
   | 'task-status-completed'
   | 'task-status-failed'
+  | 'task-status-paused'
   | 'task-status-pending'
   | 'task-status-priority'
   | 'task-status-processing'
   | 'task-title-review'
   | 'task-title-targeted-question'
-  | 'theme-redstriking-name';
+  | 'theme-redstriking-name'
+  | 'usage-budget-error-invalid-limit'
+  | 'usage-budget-error-not-object'
+  | 'usage-budget-exceeded'
+  | 'usage-budget-period-daily'
+  | 'usage-budget-period-monthly'
+  | 'usage-budget-scope-endpoint'
+  | 'usage-budget-scope-global'
+  | 'usage-budget-tokens-value'
+  | 'usage-price-table-error-invalid-price'
+  | 'usage-price-table-error-not-object';
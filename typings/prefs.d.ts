@@ -31,12 +31,21 @@ declare namespace _ZoteroTypes {
       "ollamaModel": string;
       "llmEndpoints": string;
       "llmRoutingStrategy": string;
+      "llmRoutingRules": string;
       "llmRoundRobinCursor": string;
+      "llmEndpointHealth": string;
+      "llmReplayRecordPath": string;
       "multiModelSummaryEnabled": boolean;
       "multiModelSummaryEndpointIds": string;
+      "multiModelSummaryJudgeEndpointId": string;
+      "usageLedgerRetentionDays": string;
+      "usagePriceTable": string;
+      "usageCurrency": string;
+      "usageBudgets": string;
       "temperature": string;
       "enableTemperature": boolean;
       "maxTokens": string;
+      "autoContinueMaxRounds": string;
       "enableMaxTokens": boolean;
       "topP": string;
       "enableTopP": boolean;
@@ -51,6 +60,15 @@ declare namespace _ZoteroTypes {
       "mineruSyncExternal": boolean;
       "mineruExternalPath": string;
       "mineruFileNameMode": string;
+      "pdfOcrEngine": string;
+      "pdfOcrCommand": string;
+      "pdfOcrArgs": string;
+      "pdfOcrLanguage": string;
+      "figureExplainSource": string;
+      "figureExplainMaxImages": number;
+      "figurePageRenderCommand": string;
+      "figurePageRenderArgs": string;
+      "figurePageRenderMaxPages": number;
       "summaryPrompt": string;
       "customPrompts": string;
       "summaryMode": string;
@@ -63,12 +81,28 @@ declare namespace _ZoteroTypes {
       "maxRetries": string;
       "batchSize": string;
       "batchInterval": string;
+      "queueScheduleEnabled": boolean;
+      "queueQuietHours": string;
+      "queueScheduleWindows": string;
+      "taskHistoryLimit": number;
+      "taskQueueStoreRevision": string;
+      "taskQueueDeletedTasks": string;
       "autoScan": boolean;
       "autoScanSummaryEnabled": boolean;
       "autoScanDeepReadEnabled": boolean;
       "scanInterval": string;
       "pdfProcessMode": string;
       "pdfAttachmentMode": string;
+      "longDocumentConcurrency": number;
+      "contentCacheEnabled": boolean;
+      "contentCacheMaxMB": number;
+      "aiNoteHistoryEnabled": boolean;
+      "aiNoteHistoryLimit": number;
+      "semanticIndexEnabled": boolean;
+      "embeddingProvider": string;
+      "embeddingApiUrl": string;
+      "embeddingApiKey": string;
+      "embeddingModel": string;
       "imageSummaryCustomHeaders": string;
       "imageSummaryRequestTimeoutSeconds": string;
       "imageSummaryAspectRatioEnabled": boolean;
@@ -102,6 +136,7 @@ declare namespace _ZoteroTypes {
       "noteExportSuppressDirectoryPrompt": boolean;
       "mindmapPrompt": string;
       "mindmapExportPath": string;
+      "autoMindmapOnComplete": boolean;
       "onboardingTutorialSeenVersion": string;
     };
   }